@@ -23,7 +23,10 @@ type NotificationItem = {
     | "PUBLIC_REQUEST_ACCEPTED"
     | "PUBLIC_REQUEST_REJECTED"
     | "SECURITY_ALERT"
-    | "STORAGE_ALERT";
+    | "STORAGE_ALERT"
+    | "STOCK_REORDER"
+    | "PURCHASE_ORDER_DISCREPANCY"
+    | "LOT_EXPIRY";
   title: string;
   message: string;
   createdAt: string;
@@ -51,6 +54,18 @@ function resolveTicketId(it: NotificationItem): string | null {
   return null;
 }
 
+function resolveProductId(it: NotificationItem): string | null {
+  const fromData = it.data && typeof it.data === "object" ? (it.data as Record<string, unknown>).productId : null;
+  if (typeof fromData === "string" && fromData.trim()) return fromData;
+  return null;
+}
+
+function resolvePurchaseOrderId(it: NotificationItem): string | null {
+  const fromData = it.data && typeof it.data === "object" ? (it.data as Record<string, unknown>).purchaseOrderId : null;
+  if (typeof fromData === "string" && fromData.trim()) return fromData;
+  return null;
+}
+
 function kindLabel(kind: NotificationItem["kind"]) {
   switch (kind) {
     case "REQUEST_CREATED":
@@ -69,6 +84,12 @@ function kindLabel(kind: NotificationItem["kind"]) {
       return "Alerta segurança";
     case "STORAGE_ALERT":
       return "Alerta storage";
+    case "STOCK_REORDER":
+      return "Reposição de stock";
+    case "PURCHASE_ORDER_DISCREPANCY":
+      return "Divergência em encomenda";
+    case "LOT_EXPIRY":
+      return "Validade de lotes";
     default:
       return kind;
   }
@@ -120,6 +141,8 @@ export function RequestsNotificationsBell() {
       void loadNotifications();
     };
 
+    // Sent when missed events could not be replayed after a reconnect.
+    es.addEventListener("reset", onRealtime);
     es.addEventListener("notification.created", onRealtime);
     es.addEventListener("request.created", onRealtime);
     es.addEventListener("request.updated", onRealtime);
@@ -129,6 +152,7 @@ export function RequestsNotificationsBell() {
     es.addEventListener("public-request.rejected", onRealtime);
 
     return () => {
+      es.removeEventListener("reset", onRealtime);
       es.removeEventListener("notification.created", onRealtime);
       es.removeEventListener("request.created", onRealtime);
       es.removeEventListener("request.updated", onRealtime);
@@ -173,7 +197,9 @@ export function RequestsNotificationsBell() {
           items.map((it) => {
             const requestId = resolveRequestId(it);
             const ticketId = resolveTicketId(it);
-            const canOpen = Boolean(requestId || ticketId);
+            const productId = resolveProductId(it);
+            const purchaseOrderId = resolvePurchaseOrderId(it);
+            const canOpen = Boolean(requestId || ticketId || productId || purchaseOrderId);
 
             return (
               <DropdownMenuItem
@@ -190,6 +216,14 @@ export function RequestsNotificationsBell() {
                   }
                   if (requestId) {
                     router.push(`/requests/${requestId}`);
+                    return;
+                  }
+                  if (productId) {
+                    router.push(`/products/${productId}`);
+                    return;
+                  }
+                  if (purchaseOrderId) {
+                    router.push(`/governanca/encomendas?id=${purchaseOrderId}`);
                   }
                 }}
               >
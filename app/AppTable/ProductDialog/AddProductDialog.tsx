@@ -193,15 +193,8 @@ export default function AddProductDialog({
     }
   }, [selectedProduct, openProductDialog, reset]);
 
-  const calculateStatus = (quantity: number): string => {
-    if (quantity > 20) return "Available";
-    if (quantity > 0 && quantity <= 20) return "Stock Low";
-    return "Stock Out";
-  };
-
   const onSubmit = async (data: ProductFormData) => {
     setIsSubmitting(true); // Start loading
-    const status: Product["status"] = calculateStatus(data.quantity);
 
     try {
       if (!selectedProduct) {
@@ -285,7 +278,8 @@ export default function AddProductDialog({
           price: data.price,
           quantity: data.quantity,
           sku: data.sku,
-          status,
+          // Status is derived server-side from the product's reorder point.
+          status: selectedProduct.status,
           categoryId: selectedCategory,
           userId: selectedProduct.userId,
           isPatrimonializable,
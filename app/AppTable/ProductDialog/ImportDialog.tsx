@@ -0,0 +1,298 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useProductStore } from "@/app/useProductStore";
+import { useToast } from "@/hooks/use-toast";
+import axiosInstance from "@/utils/axiosInstance";
+
+type ImportEntity = "products" | "suppliers" | "categories";
+
+type ImportFieldDef = { key: string; label: string; required: boolean };
+
+type ImportRow = {
+  row: number;
+  key: string;
+  action: "CREATE" | "UPDATE" | "SKIP";
+  errors: string[];
+  warnings: string[];
+};
+
+type ImportReport = {
+  dryRun: boolean;
+  headers: string[];
+  mapping: Record<string, string>;
+  totalRows: number;
+  validRows: number;
+  errorRows: number;
+  toCreate: number;
+  toUpdate: number;
+  newCategories: string[];
+  newSuppliers: string[];
+  rows: ImportRow[];
+};
+
+const ENTITY_LABELS: Record<ImportEntity, string> = {
+  products: "Produtos",
+  suppliers: "Fornecedores",
+  categories: "Categorias",
+};
+
+const selectClassName = "h-9 rounded-md border border-input bg-background px-2 text-sm";
+
+export default function ImportDialog({ trigger }: { trigger?: React.ReactNode }) {
+  const { toast } = useToast();
+  const { loadProducts, loadCategories, loadSuppliers } = useProductStore();
+  const [open, setOpen] = useState(false);
+  const [fieldsByEntity, setFieldsByEntity] = useState<Record<string, ImportFieldDef[]>>({});
+  const [entity, setEntity] = useState<ImportEntity>("products");
+  const [mode, setMode] = useState<"create" | "upsert">("create");
+  const [createMissing, setCreateMissing] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string> | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!open || Object.keys(fieldsByEntity).length) return;
+    axiosInstance
+      .get("/import")
+      .then((res) => {
+        const next: Record<string, ImportFieldDef[]> = {};
+        for (const item of res.data?.entities ?? []) next[item.entity] = item.fields;
+        setFieldsByEntity(next);
+      })
+      .catch((error) => console.error("Error loading import fields:", error));
+  }, [open, fieldsByEntity]);
+
+  const reset = () => {
+    setMapping(null);
+    setReport(null);
+  };
+
+  const send = async (dryRun: boolean) => {
+    if (!file) return;
+    const fd = new FormData();
+    fd.append("file", file);
+    fd.append("entity", entity);
+    fd.append("mode", mode);
+    fd.append("createMissing", createMissing ? "1" : "0");
+    fd.append("dryRun", dryRun ? "1" : "0");
+    if (mapping) fd.append("mapping", JSON.stringify(mapping));
+
+    setBusy(true);
+    try {
+      const res = await fetch("/api/import", { method: "POST", body: fd, credentials: "include" });
+      const data = await res.json().catch(() => ({}));
+      if (data?.rows) {
+        setReport(data);
+        setMapping(data.mapping);
+      } else if (data?.mapping) {
+        setMapping(data.mapping);
+      }
+      if (!res.ok) throw new Error(data?.error || "Falha na importação");
+
+      if (!dryRun) {
+        toast({
+          title: "Importação concluída",
+          description: `${data.toCreate} criado(s), ${data.toUpdate} atualizado(s).`,
+        });
+        await Promise.all([loadProducts(), loadCategories(), loadSuppliers()]);
+        setOpen(false);
+        setFile(null);
+        reset();
+      }
+    } catch (error: any) {
+      toast({
+        title: dryRun ? "Validação falhou" : "Importação falhou",
+        description: error?.message || "Não foi possível processar o ficheiro.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const fields = fieldsByEntity[entity] ?? [];
+  const headers = report?.headers ?? [];
+  const problemRows = report?.rows.filter((row) => row.errors.length || row.warnings.length) ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger ?? <Button variant="outline">Importar</Button>}</DialogTrigger>
+      <DialogContent
+        className="max-h-[90vh] w-[95vw] max-w-[980px] overflow-y-auto rounded-2xl border border-border/60 bg-background/95 p-4 sm:p-7 sm:px-8"
+        aria-describedby="import-dialog-description"
+      >
+        <DialogHeader>
+          <DialogTitle className="text-[22px]">Importar CSV / Excel</DialogTitle>
+        </DialogHeader>
+        <DialogDescription id="import-dialog-description">
+          O ficheiro é validado primeiro; só é gravado depois de uma validação sem erros.
+        </DialogDescription>
+
+        <div className="mt-4 grid grid-cols-1 gap-3 sm:grid-cols-2">
+          <div className="space-y-1">
+            <div className="text-sm font-medium">Tipo de dados</div>
+            <select
+              className={`${selectClassName} w-full`}
+              value={entity}
+              onChange={(e) => {
+                setEntity(e.target.value as ImportEntity);
+                reset();
+              }}
+            >
+              {(Object.keys(ENTITY_LABELS) as ImportEntity[]).map((key) => (
+                <option key={key} value={key}>
+                  {ENTITY_LABELS[key]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <div className="text-sm font-medium">Registos existentes</div>
+            <select
+              className={`${selectClassName} w-full`}
+              value={mode}
+              onChange={(e) => {
+                setMode(e.target.value as "create" | "upsert");
+                setReport(null);
+              }}
+            >
+              <option value="create">Rejeitar (só criar novos)</option>
+              <option value="upsert">Atualizar</option>
+            </select>
+          </div>
+          <div className="space-y-1">
+            <div className="text-sm font-medium">Ficheiro (.csv ou .xlsx)</div>
+            <Input
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] ?? null);
+                reset();
+              }}
+            />
+          </div>
+          {entity === "products" ? (
+            <label className="flex items-center gap-2 self-end text-sm">
+              <input
+                type="checkbox"
+                checked={createMissing}
+                onChange={(e) => {
+                  setCreateMissing(e.target.checked);
+                  setReport(null);
+                }}
+              />
+              Criar categorias e fornecedores em falta
+            </label>
+          ) : null}
+        </div>
+
+        {mapping && headers.length ? (
+          <div className="mt-4 space-y-2">
+            <div className="text-sm font-medium">Correspondência de colunas</div>
+            <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+              {fields.map((field) => (
+                <div key={field.key} className="flex items-center justify-between gap-2">
+                  <span className="text-sm">
+                    {field.label}
+                    {field.required ? " *" : ""}
+                  </span>
+                  <select
+                    className={selectClassName}
+                    value={mapping[field.key] ?? ""}
+                    onChange={(e) => {
+                      setMapping((prev) => ({ ...(prev ?? {}), [field.key]: e.target.value }));
+                      setReport((prev) => (prev ? { ...prev, rows: [], validRows: 0, errorRows: 0 } : prev));
+                    }}
+                  >
+                    <option value="">(ignorar)</option>
+                    {headers.map((header) => (
+                      <option key={header} value={header}>
+                        {header}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : null}
+
+        {report && report.rows.length ? (
+          <div className="mt-4 space-y-3">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="secondary">{report.totalRows} linha(s)</Badge>
+              <Badge variant="secondary">{report.toCreate} a criar</Badge>
+              <Badge variant="secondary">{report.toUpdate} a atualizar</Badge>
+              <Badge variant={report.errorRows ? "destructive" : "secondary"}>{report.errorRows} com erros</Badge>
+            </div>
+            {report.newCategories.length || report.newSuppliers.length ? (
+              <div className="text-xs text-muted-foreground">
+                {report.newCategories.length ? `Novas categorias: ${report.newCategories.join(", ")}. ` : ""}
+                {report.newSuppliers.length ? `Novos fornecedores: ${report.newSuppliers.join(", ")}.` : ""}
+              </div>
+            ) : null}
+            {problemRows.length ? (
+              <div className="max-h-64 overflow-y-auto rounded-md border border-border/60">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/40 text-left text-xs text-muted-foreground">
+                    <tr>
+                      <th className="px-2 py-1">Linha</th>
+                      <th className="px-2 py-1">Chave</th>
+                      <th className="px-2 py-1">Problemas</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {problemRows.map((row) => (
+                      <tr key={row.row} className="border-t border-border/40 align-top">
+                        <td className="px-2 py-1">{row.row}</td>
+                        <td className="px-2 py-1">{row.key || "—"}</td>
+                        <td className="px-2 py-1">
+                          {row.errors.map((message) => (
+                            <div key={message} className="text-rose-600">
+                              {message}
+                            </div>
+                          ))}
+                          {row.warnings.map((message) => (
+                            <div key={message} className="text-amber-600">
+                              {message}
+                            </div>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+
+        <DialogFooter className="mt-4 gap-2">
+          <Button variant="outline" disabled={!file || busy} onClick={() => send(true)}>
+            {busy ? "A processar..." : "Validar"}
+          </Button>
+          <Button
+            disabled={!file || busy || !report || !report.rows.length || report.errorRows > 0}
+            onClick={() => send(false)}
+          >
+            Importar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -21,9 +21,12 @@ import {
   Plus,
   Search,
   TriangleAlert,
+  Upload,
   UserRound,
 } from "lucide-react";
 import AddProductDialog from "./AppTable/ProductDialog/AddProductDialog";
+import ImportDialog from "./AppTable/ProductDialog/ImportDialog";
+import { useAuth } from "@/app/authContext";
 import PaginationSelection, {
   PaginationType,
 } from "./Products/PaginationSelection";
@@ -114,6 +117,7 @@ export default function FiltersAndActions({
   setPagination,
 }: FiltersAndActionsProps) {
   const { toast } = useToast();
+  const { user } = useAuth();
   const [showFilters, setShowFilters] = useState(false);
 
   const categoryOptions = useMemo(() => {
@@ -165,8 +169,8 @@ export default function FiltersAndActions({
 
   const analytics = useMemo(() => {
     const total = allProducts.length;
-    const inStock = allProducts.filter((p) => p.quantity > 20).length;
-    const lowStock = allProducts.filter((p) => p.quantity > 0 && p.quantity <= 20).length;
+    const inStock = allProducts.filter((p) => p.status === "Available").length;
+    const lowStock = allProducts.filter((p) => p.status === "Stock Low").length;
     const outOfStock = allProducts.filter((p) => p.quantity <= 0).length;
     const inventoryValue = allProducts.reduce((acc, p) => acc + p.price * p.quantity, 0);
     const averageTicket = total > 0 ? inventoryValue / total : 0;
@@ -371,6 +375,16 @@ export default function FiltersAndActions({
               </Button>
             }
           />
+          {user?.role === "ADMIN" ? (
+            <ImportDialog
+              trigger={
+                <Button variant="outline" className="h-11 rounded-2xl border-border/70 px-4">
+                  <Upload className="h-4 w-4" />
+                  Importar
+                </Button>
+              }
+            />
+          ) : null}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="outline" className="h-11 rounded-2xl border-border/70 px-4">
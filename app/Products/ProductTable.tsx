@@ -32,24 +32,30 @@ interface DataTableProps<TData, TValue> {
   priceRange: [number, number];
 }
 
-function statusMeta(quantity: number) {
-  if (quantity > 20) {
+// Product.status is computed server-side against the product's (or its category's) reorder point,
+// so the badge agrees with the status filter.
+function statusMeta(product: Pick<Product, "status" | "quantity">) {
+  const status = product.status ?? (product.quantity > 0 ? "Stock Low" : "Stock Out");
+  if (status === "Available") {
     return {
       label: "Disponível",
       className:
         "border-emerald-500/25 bg-emerald-500/10 text-emerald-700 dark:text-emerald-300",
+      quantityClassName: "bg-emerald-500/10 text-emerald-700 dark:text-emerald-300",
     };
   }
-  if (quantity > 0) {
+  if (status === "Stock Low") {
     return {
       label: "Stock baixo",
       className:
         "border-amber-500/25 bg-amber-500/10 text-amber-700 dark:text-amber-300",
+      quantityClassName: "bg-amber-500/10 text-amber-700 dark:text-amber-300",
     };
   }
   return {
     label: "Sem stock",
     className: "border-rose-500/25 bg-rose-500/10 text-rose-700 dark:text-rose-300",
+    quantityClassName: "bg-rose-500/10 text-rose-700 dark:text-rose-300",
   };
 }
 
@@ -228,7 +234,7 @@ export const ProductTable = React.memo(function ProductTable({
       ) : viewMode === "grid" ? (
         <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-3">
           {pageRows.map((product) => {
-            const status = statusMeta(product.quantity);
+            const status = statusMeta(product);
             return (
               <article
                 key={product.id}
@@ -299,7 +305,7 @@ export const ProductTable = React.memo(function ProductTable({
             </thead>
             <tbody>
               {pageRows.map((product) => {
-                const status = statusMeta(product.quantity);
+                const status = statusMeta(product);
                 const qrData = JSON.stringify({
                   id: product.id,
                   name: product.name,
@@ -333,13 +339,7 @@ export const ProductTable = React.memo(function ProductTable({
                     <td className="px-[var(--table-cell-px)] py-[var(--table-cell-py)] font-mono text-xs">{product.sku}</td>
                     <td className="px-[var(--table-cell-px)] py-[var(--table-cell-py)]">
                       <span
-                        className={`inline-flex min-w-10 justify-center rounded-full px-2 py-0.5 text-xs font-medium ${
-                          product.quantity > 20
-                            ? "bg-emerald-500/10 text-emerald-700 dark:text-emerald-300"
-                            : product.quantity > 0
-                            ? "bg-amber-500/10 text-amber-700 dark:text-amber-300"
-                            : "bg-rose-500/10 text-rose-700 dark:text-rose-300"
-                        }`}
+                        className={`inline-flex min-w-10 justify-center rounded-full px-2 py-0.5 text-xs font-medium ${status.quantityClassName}`}
                       >
                         {product.quantity}
                       </span>
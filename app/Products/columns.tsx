@@ -130,18 +130,14 @@ export const columns: ColumnDef<Product>[] = [
     accessorKey: "status",
     header: ({ column }) => <SortableHeader column={column} label="Status" />,
     cell: ({ row }) => {
-      const quantity = row.original.quantity;
-      let status = "";
+      const status = row.original.status ?? (row.original.quantity > 0 ? "Available" : "Stock Out");
       let colorClass = "";
 
-      if (quantity > 20) {
-        status = "Available";
+      if (status === "Available") {
         colorClass = "bg-green-100 text-green-600";
-      } else if (quantity > 0 && quantity <= 20) {
-        status = "Stock Low";
+      } else if (status === "Stock Low") {
         colorClass = "bg-orange-100 text-orange-600";
       } else {
-        status = "Stock Out";
         colorClass = "bg-red-100 text-red-600";
       }
 
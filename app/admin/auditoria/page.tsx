@@ -0,0 +1,385 @@
+"use client";
+
+import { Fragment, useEffect, useMemo, useState } from "react";
+
+import AuthenticatedLayout from "@/app/components/AuthenticatedLayout";
+import PageHeader from "@/app/components/PageHeader";
+import SectionCard from "@/app/components/SectionCard";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import axiosInstance from "@/utils/axiosInstance";
+
+type UserOption = { id: string; name: string; email: string };
+
+type AuditEntry = {
+  id: string;
+  source: string;
+  createdAt: string;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  entityLabel: string | null;
+  actor: UserOption | null;
+  note: string | null;
+  details: any;
+  chainSeq: number | null;
+};
+
+type EntityInfo = {
+  type: string;
+  id: string;
+  label: string;
+  related: Array<{ type: string; id: string; label: string }>;
+};
+
+type Filters = {
+  entity: string;
+  includeRelated: boolean;
+  actorUserId: string;
+  action: string;
+  source: string;
+  from: string;
+  to: string;
+};
+
+const PAGE_SIZE = 50;
+
+const SOURCE_LABELS: Record<string, string> = {
+  USER_ADMIN: "Utilizadores",
+  RBAC: "Permissões",
+  TICKET: "Tickets",
+  REQUEST_STATUS: "Requisições",
+  MUNICIPAL_ASSET: "Património",
+  FINANCE_PROCESS: "Financiamento",
+  WORKFLOW: "Workflow",
+};
+
+const EMPTY_FILTERS: Filters = {
+  entity: "",
+  includeRelated: true,
+  actorUserId: "",
+  action: "",
+  source: "",
+  from: "",
+  to: "",
+};
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString("pt-PT", { dateStyle: "short", timeStyle: "medium" });
+}
+
+function describeDetails(entry: AuditEntry) {
+  const d = entry.details;
+  if (!d || typeof d !== "object") return "";
+  if ("toStatus" in d) return `${d.fromStatus ?? "—"} → ${d.toStatus}`;
+  if ("toState" in d) return `${d.fromState ?? "—"} → ${d.toState}`;
+  return "";
+}
+
+function toQuery(filters: Filters) {
+  const qs = new URLSearchParams();
+  if (filters.entity.trim()) {
+    qs.set("entity", filters.entity.trim());
+    if (!filters.includeRelated) qs.set("includeRelated", "false");
+  }
+  if (filters.actorUserId) qs.set("actorUserId", filters.actorUserId);
+  if (filters.action.trim()) qs.set("action", filters.action.trim());
+  if (filters.source) qs.set("source", filters.source);
+  if (filters.from) qs.set("from", filters.from);
+  if (filters.to) qs.set("to", filters.to);
+  return qs;
+}
+
+export default function AuditExplorerPage() {
+  const { toast } = useToast();
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [items, setItems] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [maxWindow, setMaxWindow] = useState(5000);
+  const [entity, setEntity] = useState<EntityInfo | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      try {
+        const res = await axiosInstance.get("/users");
+        if (alive) setUsers(Array.isArray(res.data) ? res.data : []);
+      } catch {
+        if (alive) setUsers([]);
+      }
+    })();
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    let alive = true;
+    setLoading(true);
+    (async () => {
+      try {
+        const qs = toQuery(filters);
+        qs.set("page", String(page));
+        qs.set("pageSize", String(PAGE_SIZE));
+        const res = await axiosInstance.get(`/audit?${qs.toString()}`);
+        if (!alive) return;
+        setItems(Array.isArray(res.data?.items) ? res.data.items : []);
+        setTotal(Number(res.data?.total ?? 0));
+        setMaxWindow(Number(res.data?.maxWindow ?? 5000));
+        setEntity(res.data?.entity ?? null);
+      } catch (error: any) {
+        if (!alive) return;
+        setItems([]);
+        setTotal(0);
+        setEntity(null);
+        const msg =
+          error?.response?.status === 404
+            ? "Nenhuma requisição, ticket, bem, processo ou utilizador corresponde à entidade indicada."
+            : error?.response?.data?.error || "Não foi possível carregar o registo de auditoria.";
+        toast({ title: "Auditoria", description: msg, variant: "destructive" });
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [filters, page]);
+
+  const lastPage = useMemo(
+    () => Math.max(1, Math.ceil(Math.min(total, maxWindow) / PAGE_SIZE)),
+    [total, maxWindow]
+  );
+
+  const apply = () => {
+    setPage(1);
+    setFilters(draft);
+  };
+
+  const reset = () => {
+    setDraft(EMPTY_FILTERS);
+    setPage(1);
+    setFilters(EMPTY_FILTERS);
+  };
+
+  const download = (format: "csv" | "pdf") => {
+    const qs = toQuery(filters);
+    qs.set("format", format);
+    try {
+      window.open(`/api/audit?${qs.toString()}`, "_blank");
+    } catch {
+      toast({ title: "Auditoria", description: "Não foi possível abrir o download.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <AuthenticatedLayout>
+      <div className="space-y-6">
+        <PageHeader
+          title="Auditoria"
+          description="Cronologia única de utilizadores, permissões, tickets, requisições, património, financiamento e workflow."
+          actions={
+            <>
+              <Button variant="outline" onClick={() => download("csv")} disabled={loading}>
+                Exportar CSV
+              </Button>
+              <Button variant="outline" onClick={() => download("pdf")} disabled={loading}>
+                Exportar PDF
+              </Button>
+            </>
+          }
+        />
+
+        <SectionCard
+          title="Filtros"
+          description="A entidade aceita um número GTMI, código de ticket, bem ou processo, e-mail de utilizador ou ID."
+        >
+          <div className="grid gap-3 md:grid-cols-4">
+            <div className="space-y-1.5 md:col-span-2">
+              <div className="text-sm font-medium">Entidade</div>
+              <Input
+                value={draft.entity}
+                onChange={(e) => setDraft((d) => ({ ...d, entity: e.target.value }))}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") apply();
+                }}
+                placeholder="GTMI-2025-000123"
+              />
+              <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                <input
+                  type="checkbox"
+                  checked={draft.includeRelated}
+                  onChange={(e) => setDraft((d) => ({ ...d, includeRelated: e.target.checked }))}
+                />
+                Incluir bens, processos, tickets e workflow associados
+              </label>
+            </div>
+            <div className="space-y-1.5">
+              <div className="text-sm font-medium">Ator</div>
+              <select
+                className="h-10 w-full rounded-md border bg-background px-2 text-sm"
+                value={draft.actorUserId}
+                onChange={(e) => setDraft((d) => ({ ...d, actorUserId: e.target.value }))}
+              >
+                <option value="">Todos</option>
+                {users
+                  .slice()
+                  .sort((a, b) => a.name.localeCompare(b.name))
+                  .map((u) => (
+                    <option key={u.id} value={u.id}>
+                      {u.name} ({u.email})
+                    </option>
+                  ))}
+              </select>
+            </div>
+            <div className="space-y-1.5">
+              <div className="text-sm font-medium">Origem</div>
+              <select
+                className="h-10 w-full rounded-md border bg-background px-2 text-sm"
+                value={draft.source}
+                onChange={(e) => setDraft((d) => ({ ...d, source: e.target.value }))}
+              >
+                <option value="">Todas</option>
+                {Object.entries(SOURCE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1.5">
+              <div className="text-sm font-medium">Ação</div>
+              <Input
+                value={draft.action}
+                onChange={(e) => setDraft((d) => ({ ...d, action: e.target.value }))}
+                placeholder="ex.: STATUS_CHANGED"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <div className="text-sm font-medium">Data (início)</div>
+              <Input type="date" value={draft.from} onChange={(e) => setDraft((d) => ({ ...d, from: e.target.value }))} />
+            </div>
+            <div className="space-y-1.5">
+              <div className="text-sm font-medium">Data (fim)</div>
+              <Input type="date" value={draft.to} onChange={(e) => setDraft((d) => ({ ...d, to: e.target.value }))} />
+            </div>
+            <div className="flex items-end gap-2">
+              <Button onClick={apply} disabled={loading}>
+                Pesquisar
+              </Button>
+              <Button variant="ghost" onClick={reset} disabled={loading}>
+                Limpar
+              </Button>
+            </div>
+          </div>
+
+          {entity ? (
+            <div className="mt-3 flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+              <span>
+                {entity.type} <strong>{entity.label}</strong>
+              </span>
+              {entity.related.length ? <span>· inclui</span> : null}
+              {entity.related.map((r) => (
+                <Badge key={r.id} variant="outline">
+                  {r.label}
+                </Badge>
+              ))}
+            </div>
+          ) : null}
+        </SectionCard>
+
+        <SectionCard
+          title="Cronologia"
+          description={
+            total > maxWindow
+              ? `${total} registos; só os ${maxWindow} mais recentes podem ser navegados ou exportados.`
+              : `${total} registo(s).`
+          }
+        >
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Data</TableHead>
+                <TableHead>Origem</TableHead>
+                <TableHead>Ação</TableHead>
+                <TableHead>Entidade</TableHead>
+                <TableHead>Ator</TableHead>
+                <TableHead>Detalhes</TableHead>
+                <TableHead className="text-right">Seq.</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((e) => (
+                <Fragment key={e.id}>
+                  <TableRow
+                    className="cursor-pointer"
+                    onClick={() => setExpandedId((id) => (id === e.id ? null : e.id))}
+                  >
+                    <TableCell className="whitespace-nowrap text-xs">{formatDateTime(e.createdAt)}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{SOURCE_LABELS[e.source] ?? e.source}</Badge>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{e.action}</TableCell>
+                    <TableCell className="text-xs">
+                      <div>{e.entityLabel ?? e.entityId ?? "—"}</div>
+                      <div className="text-muted-foreground">{e.entityType}</div>
+                    </TableCell>
+                    <TableCell className="text-xs">{e.actor ? e.actor.name : "Sistema"}</TableCell>
+                    <TableCell className="text-xs">
+                      {describeDetails(e)}
+                      {e.note ? <div className="text-muted-foreground">{e.note}</div> : null}
+                    </TableCell>
+                    <TableCell className="text-right text-xs text-muted-foreground">{e.chainSeq ?? "—"}</TableCell>
+                  </TableRow>
+                  {expandedId === e.id ? (
+                    <TableRow>
+                      <TableCell colSpan={7}>
+                        <pre className="max-h-64 overflow-auto rounded-md bg-muted p-3 text-xs">
+                          {JSON.stringify({ id: e.id, entityId: e.entityId, actor: e.actor, details: e.details }, null, 2)}
+                        </pre>
+                      </TableCell>
+                    </TableRow>
+                  ) : null}
+                </Fragment>
+              ))}
+              {!items.length ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-sm text-muted-foreground">
+                    {loading ? "A carregar..." : "Sem registos para os filtros indicados."}
+                  </TableCell>
+                </TableRow>
+              ) : null}
+            </TableBody>
+          </Table>
+
+          <div className="mt-3 flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">
+              Página {page} de {lastPage}
+            </span>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => setPage((p) => p - 1)} disabled={loading || page <= 1}>
+                Anterior
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setPage((p) => p + 1)}
+                disabled={loading || page >= lastPage}
+              >
+                Seguinte
+              </Button>
+            </div>
+          </div>
+        </SectionCard>
+      </div>
+    </AuthenticatedLayout>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { FiCode, FiDatabase, FiKey, FiPackage, FiUsers } from "react-icons/fi";
+import { FiCode, FiDatabase, FiKey, FiPackage, FiRadio, FiShield, FiUsers } from "react-icons/fi";
 import AuthenticatedLayout from "../components/AuthenticatedLayout";
 
 export default function ApiDocsPage() {
@@ -17,12 +17,112 @@ export default function ApiDocsPage() {
           description: "Authenticate user and create a session (sets HTTP-only cookie session_id)",
           parameters: [
             { name: "header.x-tenant-slug", type: "string", required: false, description: "Tenant slug (optional). If omitted, uses DEFAULT_TENANT_SLUG or 'default'" },
-            { name: "email", type: "string", required: true, description: "User's email address" },
-            { name: "password", type: "string", required: true, description: "User's password" }
+            { name: "email", type: "string", required: true, description: "User's email address (LDAP accounts may also use the directory username)" },
+            { name: "password", type: "string", required: true, description: "User's password (LDAP accounts: directory password)" }
           ],
           response: {
-            success: { status: 200, data: "{ userId: string, userName: string, userEmail: string }" },
-            error: { status: 401, data: "{ error: string } | { code: 'IP_NOT_ALLOWED', message: string } | { error: 'Too many login attempts...', retryAfterSeconds: number }" }
+            success: { status: 200, data: "{ userId: string, userName: string, userEmail: string } | { mfaRequired: true, enrollmentRequired: boolean, mfaToken: string } (no session yet)" },
+            error: { status: 401, data: "{ error: string } | { code: 'IP_NOT_ALLOWED', message: string } | { error: 'Too many login attempts...', retryAfterSeconds: number } | 503 when the LDAP directory is unreachable" }
+          }
+        },
+        {
+          method: "POST",
+          path: "/api/auth/mfa/verify",
+          description: "Second login step: checks a TOTP or recovery code (or confirms a policy-forced enrolment) and creates the session",
+          parameters: [
+            { name: "mfaToken", type: "string", required: true, description: "Token returned by /api/auth/login (valid 5 minutes)" },
+            { name: "code", type: "string", required: false, description: "6-digit code from the authenticator app" },
+            { name: "recoveryCode", type: "string", required: false, description: "Single-use recovery code (alternative to code)" }
+          ],
+          response: {
+            success: { status: 200, data: "{ userId: string, userName: string, userEmail: string, recoveryCodes?: string[] }" },
+            error: { status: 401, data: "{ code: 'MFA_INVALID_CODE' | 'MFA_TOKEN_EXPIRED', error: string } | { error: 'Too many login attempts...', retryAfterSeconds: number }" }
+          }
+        },
+        {
+          method: "POST",
+          path: "/api/auth/mfa/enroll",
+          description: "Start the enrolment required by policy during login (returns QR provisioning data)",
+          parameters: [
+            { name: "mfaToken", type: "string", required: true, description: "Token returned by /api/auth/login" }
+          ],
+          response: {
+            success: { status: 200, data: "{ secret: string, otpauthUrl: string, qrDataUrl: string }" },
+            error: { status: 409, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "GET|POST|PUT|DELETE",
+          path: "/api/auth/mfa",
+          description: "Manage own two-factor authentication: status (GET), start enrolment (POST), confirm with { code } (PUT), disable with { code | recoveryCode } (DELETE; refused when policy requires it)",
+          parameters: [
+            { name: "code", type: "string", required: false, description: "TOTP code (PUT/DELETE)" },
+            { name: "recoveryCode", type: "string", required: false, description: "Recovery code (DELETE)" }
+          ],
+          response: {
+            success: { status: 200, data: "{ enabled: boolean, enabledAt: string|null, required: boolean, remainingRecoveryCodes: number } | { secret, otpauthUrl, qrDataUrl } | { recoveryCodes: string[] }" },
+            error: { status: 409, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "POST",
+          path: "/api/auth/mfa/recovery-codes",
+          description: "Regenerate recovery codes (invalidates the previous set)",
+          parameters: [
+            { name: "code", type: "string", required: true, description: "Current TOTP code" }
+          ],
+          response: {
+            success: { status: 200, data: "{ recoveryCodes: string[] }" },
+            error: { status: 400, data: "{ code: 'MFA_INVALID_CODE', error: string }" }
+          }
+        },
+        {
+          method: "GET|PUT",
+          path: "/api/admin/mfa-policy",
+          description: "Tenant two-factor enforcement policy (ADMIN)",
+          parameters: [
+            { name: "requireForAdmins", type: "boolean", required: true, description: "Require MFA for ADMIN users (PUT)" },
+            { name: "requiredRoleKeys", type: "string[]", required: false, description: "RBAC role keys whose active holders must use MFA (PUT)" }
+          ],
+          response: {
+            success: { status: 200, data: "{ requireForAdmins: boolean, requiredRoleKeys: string[], updatedAt: string|null }" },
+            error: { status: 400, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "POST",
+          path: "/api/admin/users/{id}/mfa-reset",
+          description: "Remove a user's second factor so they enrol again (ADMIN, audited as MFA_RESET)",
+          parameters: [
+            { name: "path.id", type: "string", required: true, description: "User ID" }
+          ],
+          response: {
+            success: { status: 204, data: "(no content)" },
+            error: { status: 409, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "GET",
+          path: "/api/admin/users/{id}/data-export",
+          description: "RGPD subject access: JSON bundle with the user's profile, sessions, tokens (no secrets), role assignments, requests and signatures, tickets and messages, notifications, assets and audit trail (ADMIN, audited as USER_DATA_EXPORTED)",
+          parameters: [
+            { name: "path.id", type: "string", required: true, description: "User ID" }
+          ],
+          response: {
+            success: { status: 200, data: "application/json attachment { format: 'stockly-rgpd-export', version, generatedAt, subject, security, access, presence, requests, publicRequests, tickets, notifications, assets, auditTrail }" },
+            error: { status: 404, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "POST",
+          path: "/api/admin/users/{id}/anonymise",
+          description: "RGPD erasure, irreversible: replaces name/e-mail with a pseudonym, deactivates the account, removes sessions, tokens, MFA, role assignments, notifications and presence, and clears IPs, user agents and the pickup signature image on the user's requests. Requests, tickets and audit records are kept (ADMIN, audited as USER_ANONYMISED)",
+          parameters: [
+            { name: "path.id", type: "string", required: true, description: "User ID (not yourself, not a service account)" }
+          ],
+          response: {
+            success: { status: 200, data: "{ pseudonymised: { ownedRequests, pickupSignatures, approvalSignatures, publicRequests }, removed: { sessions, apiTokens, mfa, roleAssignments, ipAccessRequests, notifications, presence, presenceViews }, revoked: { approvalDelegations } }" },
+            error: { status: 409, data: "{ error: string }" }
           }
         },
         {
@@ -41,10 +141,185 @@ export default function ApiDocsPage() {
           description: "Get current user session",
           parameters: [],
           response: {
-            success: { status: 200, data: "{ id: string, tenantId: string, name: string, email: string, role: 'USER'|'ADMIN', isActive: boolean, createdAt: string, updatedAt: string }" },
+            success: { status: 200, data: "{ id: string, tenantId: string, name: string, email: string, role: 'USER'|'ADMIN', isActive: boolean, sessionId: string, createdAt: string, updatedAt: string }" },
             error: { status: 401, data: "{ error: string }" }
           }
         },
+        {
+          method: "GET|DELETE",
+          path: "/api/auth/sessions",
+          description: "List own active sessions (GET) or sign out every other device (DELETE)",
+          parameters: [],
+          response: {
+            success: { status: 200, data: "Array<{ id, device, ip, userAgent, createdAt, lastSeenAt, expiresAt, current: boolean }> | { revoked: number }" },
+            error: { status: 401, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "DELETE",
+          path: "/api/auth/sessions/{id}",
+          description: "Revoke one of the caller's own sessions",
+          parameters: [
+            { name: "path.id", type: "string", required: true, description: "Session ID" }
+          ],
+          response: {
+            success: { status: 204, data: "(no content)" },
+            error: { status: 404, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "GET|DELETE",
+          path: "/api/admin/users/{id}/sessions",
+          description: "List a user's active sessions, or revoke one (?sessionId=) or all of them (ADMIN, audited)",
+          parameters: [
+            { name: "path.id", type: "string", required: true, description: "User ID" },
+            { name: "query.sessionId", type: "string", required: false, description: "Revoke only this session (DELETE)" }
+          ],
+          response: {
+            success: { status: 200, data: "Array<{ id, device, ip, userAgent, createdAt, lastSeenAt, expiresAt }> | { revoked: number }" },
+            error: { status: 404, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "GET|POST",
+          path: "/api/auth/tokens",
+          description: "List own API tokens and the scopes the caller may grant (GET) or create a personal token (POST). Cookie session only; the secret is returned once",
+          parameters: [
+            { name: "name", type: "string", required: true, description: "Token label" },
+            { name: "scopes", type: "string[]", required: true, description: "Permission keys the token may use (subset of the caller's own)" },
+            { name: "expiresAt", type: "string (ISO datetime)", required: false, description: "Expiry; omit for a non-expiring token" },
+            { name: "allowedIpIds", type: "string[]", required: false, description: "Restrict the token to these IP allowlist entries" }
+          ],
+          response: {
+            success: { status: 200, data: "{ tokens: Array<{ id, name, tokenPrefix, scopes, createdAt, expiresAt, lastUsedAt, lastUsedIp, revokedAt, allowedIps }>, availableScopes } | { id, name, tokenPrefix, scopes, expiresAt, createdAt, token } (201)" },
+            error: { status: 400, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "DELETE",
+          path: "/api/auth/tokens/{id}",
+          description: "Revoke one of the caller's own API tokens",
+          parameters: [
+            { name: "path.id", type: "string", required: true, description: "Token ID" }
+          ],
+          response: {
+            success: { status: 204, data: "(no content)" },
+            error: { status: 404, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "GET|POST",
+          path: "/api/auth/delegations",
+          description: "List approval delegations the caller gave or received (GET) or lend some of the caller's approval permissions to another user for a period (POST). Delegations stop applying at endsAt or when revoked",
+          parameters: [
+            { name: "delegateUserId", type: "string", required: true, description: "User who approves on the caller's behalf" },
+            { name: "permissionKeys", type: "string[]", required: true, description: "Delegable keys the caller holds (e.g. requests.approve, requests.reject)" },
+            { name: "requestingServiceId", type: "number", required: false, description: "Limit the delegation to one requesting service" },
+            { name: "startsAt", type: "string (ISO datetime)", required: false, description: "Defaults to now" },
+            { name: "endsAt", type: "string (ISO datetime)", required: true, description: "End of the delegation; at most 180 days after the start" },
+            { name: "note", type: "string", required: false, description: "Reason, max 500 chars" }
+          ],
+          response: {
+            success: { status: 200, data: "{ delegations: Array<{ id, status, delegator, delegate, permissionKeys, requestingService, startsAt, endsAt, revokedAt }>, delegablePermissions, users, requestingServices } | delegation (201)" },
+            error: { status: 400, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "DELETE",
+          path: "/api/auth/delegations/{id}",
+          description: "Revoke an approval delegation the caller gave",
+          parameters: [
+            { name: "path.id", type: "string", required: true, description: "Delegation ID" }
+          ],
+          response: {
+            success: { status: 204, data: "(no content)" },
+            error: { status: 404, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "GET|POST",
+          path: "/api/admin/rbac/delegations",
+          description: "Every approval delegation in the tenant (GET) or create one for an absent approver (POST). Requires users.manage",
+          parameters: [
+            { name: "query.userId", type: "string", required: false, description: "Only delegations this user gave or received" },
+            { name: "delegatorUserId", type: "string", required: true, description: "Approver whose permissions are lent (POST)" },
+            { name: "delegateUserId", type: "string", required: true, description: "Same body as POST /api/auth/delegations otherwise" }
+          ],
+          response: {
+            success: { status: 200, data: "Array<delegation> | delegation (201)" },
+            error: { status: 400, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "DELETE",
+          path: "/api/admin/rbac/delegations/{id}",
+          description: "Revoke any approval delegation in the tenant. Requires users.manage",
+          parameters: [
+            { name: "path.id", type: "string", required: true, description: "Delegation ID" }
+          ],
+          response: {
+            success: { status: 204, data: "(no content)" },
+            error: { status: 404, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "GET|POST|PATCH",
+          path: "/api/admin/service-accounts",
+          description: "List or create service accounts (users without login, for integrations). PATCH /api/admin/service-accounts/{id} renames or (de)activates (ADMIN, audited)",
+          parameters: [
+            { name: "name", type: "string", required: true, description: "Account name" },
+            { name: "requestingServiceId", type: "number", required: false, description: "Requesting service of the account (POST)" },
+            { name: "isActive", type: "boolean", required: false, description: "Deactivating blocks all of the account's tokens (PATCH)" }
+          ],
+          response: {
+            success: { status: 200, data: "Array<{ id, name, email, isActive, requestingService, activeTokens }> | account (201)" },
+            error: { status: 404, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "GET|POST|DELETE",
+          path: "/api/admin/api-tokens",
+          description: "All API tokens of the tenant (GET, ?userId=), issue a token for a service account (POST), revoke any token with DELETE /api/admin/api-tokens/{id} (ADMIN, audited)",
+          parameters: [
+            { name: "userId", type: "string", required: true, description: "Service account that owns the token (POST)" },
+            { name: "name", type: "string", required: true, description: "Token label (POST)" },
+            { name: "scopes", type: "string[]", required: true, description: "Permission keys granted to the token (POST)" },
+            { name: "expiresAt", type: "string (ISO datetime)", required: false, description: "Expiry (POST)" },
+            { name: "allowedIpIds", type: "string[]", required: false, description: "IP allowlist entries the token is restricted to (POST)" }
+          ],
+          response: {
+            success: { status: 200, data: "Array<token> | { ...token, token: string } (201) | 204" },
+            error: { status: 400, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "GET|POST",
+          path: "/api/admin/ldap/sync",
+          description: "LDAP configuration and last sync (GET); run the directory sync now (POST, ADMIN, audited as LDAP_SYNC; cron-friendly)",
+          parameters: [
+            { name: "dryRun", type: "boolean", required: false, description: "Report what would change without writing (POST)" }
+          ],
+          response: {
+            success: { status: 200, data: "{ configured, enabledForTenant, url, baseDn, syncIntervalMinutes, lastSync } | { dryRun, directoryEntries, created, linked, updated, unchanged, deactivated, roleChanges, skipped: Array<{ dn, reason }> }" },
+            error: { status: 409, data: "{ error: string } (not configured or a sync is already running); 502 when the directory fails" }
+          }
+        },
+        {
+          method: "GET|POST|PUT|DELETE",
+          path: "/api/admin/ldap/mappings",
+          description: "Map LDAP groups (memberOf) or OUs to a requesting service and/or access role (ADMIN). PUT/DELETE use /api/admin/ldap/mappings/{id}",
+          parameters: [
+            { name: "kind", type: "'GROUP' | 'OU'", required: true, description: "Match on group membership or DN suffix" },
+            { name: "dn", type: "string", required: true, description: "Group or OU distinguished name" },
+            { name: "priority", type: "number", required: false, description: "Lower wins when several mappings apply (default 100)" },
+            { name: "requestingServiceId", type: "number", required: false, description: "Service set on matching users" },
+            { name: "roleKey", type: "string", required: false, description: "Access role assigned to matching users (source DIRECTORY)" }
+          ],
+          response: {
+            success: { status: 200, data: "Array<{ id, kind, dn, priority, requestingService, role }> | mapping (201)" },
+            error: { status: 400, data: "{ error: string }" }
+          }
+        },
         {
           method: "POST",
           path: "/api/auth/register",
@@ -79,10 +354,25 @@ export default function ApiDocsPage() {
             { name: "path.id", type: "string", required: true, description: "Product ID" }
           ],
           response: {
-            success: { status: 200, data: "Product" },
+            success: { status: 200, data: "Product & { stockLevels: { minStock, maxStock, reorderPoint }, stocks: ProductStock[] }" },
             error: { status: 404, data: "{ error: string }" }
           }
         },
+        {
+          method: "PATCH",
+          path: "/api/products/[id]",
+          description: "Update product stock levels (ADMIN). Status is recomputed and a reorder alert is sent if needed",
+          parameters: [
+            { name: "path.id", type: "string", required: true, description: "Product ID" },
+            { name: "minStock", type: "number|null", required: false, description: "Minimum stock" },
+            { name: "maxStock", type: "number|null", required: false, description: "Maximum stock" },
+            { name: "reorderPoint", type: "number|null", required: false, description: "Reorder point" }
+          ],
+          response: {
+            success: { status: 200, data: "{ productId, quantity, status, stockLevels }" },
+            error: { status: 400, data: "{ error: string }" }
+          }
+        },
         {
           method: "POST",
           path: "/api/products",
@@ -92,9 +382,12 @@ export default function ApiDocsPage() {
             { name: "sku", type: "string", required: true, description: "Unique SKU" },
             { name: "price", type: "number", required: true, description: "Product price" },
             { name: "quantity", type: "number", required: true, description: "Product quantity" },
-            { name: "status", type: "string", required: true, description: "Product status" },
+            { name: "status", type: "string", required: true, description: "Product status (recomputed from quantity and reorder point)" },
             { name: "categoryId", type: "string", required: true, description: "Category ID" },
-            { name: "supplierId", type: "string", required: true, description: "Supplier ID" }
+            { name: "supplierId", type: "string", required: true, description: "Supplier ID" },
+            { name: "minStock", type: "number|null", required: false, description: "Minimum stock (null = category default)" },
+            { name: "maxStock", type: "number|null", required: false, description: "Maximum stock / order-up-to level" },
+            { name: "reorderPoint", type: "number|null", required: false, description: "Reorder point (null = category default, then 20)" }
           ],
           response: {
             success: { status: 201, data: "Product" },
@@ -111,9 +404,12 @@ export default function ApiDocsPage() {
             { name: "sku", type: "string", required: true, description: "Unique SKU" },
             { name: "price", type: "number", required: true, description: "Product price" },
             { name: "quantity", type: "number", required: true, description: "Product quantity" },
-            { name: "status", type: "string", required: true, description: "Product status" },
+            { name: "status", type: "string", required: true, description: "Product status (recomputed from quantity and reorder point)" },
             { name: "categoryId", type: "string", required: true, description: "Category ID" },
-            { name: "supplierId", type: "string", required: true, description: "Supplier ID" }
+            { name: "supplierId", type: "string", required: true, description: "Supplier ID" },
+            { name: "minStock", type: "number|null", required: false, description: "Minimum stock (null = category default)" },
+            { name: "maxStock", type: "number|null", required: false, description: "Maximum stock / order-up-to level" },
+            { name: "reorderPoint", type: "number|null", required: false, description: "Reorder point (null = category default, then 20)" }
           ],
           response: {
             success: { status: 200, data: "Product" },
@@ -147,7 +443,10 @@ export default function ApiDocsPage() {
           path: "/api/categories",
           description: "Create a new category",
           parameters: [
-            { name: "name", type: "string", required: true, description: "Category name" }
+            { name: "name", type: "string", required: true, description: "Category name" },
+            { name: "defaultMinStock", type: "number|null", required: false, description: "Default minimum stock for products" },
+            { name: "defaultMaxStock", type: "number|null", required: false, description: "Default maximum stock for products" },
+            { name: "defaultReorderPoint", type: "number|null", required: false, description: "Default reorder point for products" }
           ],
           response: {
             success: { status: 201, data: "Category" },
@@ -160,7 +459,10 @@ export default function ApiDocsPage() {
           description: "Update an existing category",
           parameters: [
             { name: "id", type: "string", required: true, description: "Category ID" },
-            { name: "name", type: "string", required: true, description: "Category name" }
+            { name: "name", type: "string", required: true, description: "Category name" },
+            { name: "defaultMinStock", type: "number|null", required: false, description: "Default minimum stock for products" },
+            { name: "defaultMaxStock", type: "number|null", required: false, description: "Default maximum stock for products" },
+            { name: "defaultReorderPoint", type: "number|null", required: false, description: "Default reorder point for products" }
           ],
           response: {
             success: { status: 200, data: "Category" },
@@ -232,6 +534,39 @@ export default function ApiDocsPage() {
         }
       ]
     },
+    {
+      name: "Bulk Import",
+      icon: FiDatabase,
+      endpoints: [
+        {
+          method: "GET",
+          path: "/api/import",
+          description: "Importable entities and their fields (ADMIN only)",
+          parameters: [],
+          response: {
+            success: { status: 200, data: "{ maxRows, entities: [{ entity, fields: [{ key, label, required }] }] }" },
+            error: { status: 403, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "POST",
+          path: "/api/import",
+          description: "Import products, suppliers or categories from CSV/XLSX (multipart). Dry run by default; a commit is all-or-nothing in one transaction and is recorded in the admin audit (BULK_IMPORT)",
+          parameters: [
+            { name: "file", type: "file", required: true, description: ".csv (comma or semicolon) or .xlsx (first sheet), header in row 1, max 5000 rows" },
+            { name: "entity", type: "string", required: true, description: "products | suppliers | categories" },
+            { name: "mapping", type: "string (JSON)", required: false, description: "{ fieldKey: columnHeader }; unmapped fields are matched by header name" },
+            { name: "mode", type: "string", required: false, description: "create (default, existing rows are errors) | upsert (existing rows are updated)" },
+            { name: "createMissing", type: "string", required: false, description: "'1' to create categories/suppliers referenced by products that do not exist" },
+            { name: "dryRun", type: "string", required: false, description: "'0' to write; anything else only validates" }
+          ],
+          response: {
+            success: { status: 200, data: "{ dryRun, headers, mapping, totalRows, validRows, errorRows, toCreate, toUpdate, newCategories, newSuppliers, rows: [{ row, key, action, errors, warnings }] }" },
+            error: { status: 422, data: "{ error: string, ...report } (commit refused, rows have errors)" }
+          }
+        }
+      ]
+    },
     {
       name: "Requesting Services",
       icon: FiDatabase,
@@ -342,6 +677,21 @@ export default function ApiDocsPage() {
             error: { status: 409, data: "{ error: string }" }
           }
         },
+        {
+          method: "POST",
+          path: "/api/workflows/requests/[id]/action",
+          description: "Apply a workflow action to a request. When every route for the action is blocked by its guard, responds 409 with the conditions that failed. If the caller's permission comes only from an approval delegation, the event is recorded on behalf of the delegator. In a quorum state the action is a vote by one of the named approvers: each vote is stored as a workflow event and the request only moves on with the last one (202 until then)",
+          parameters: [
+            { name: "path.id", type: "string", required: true, description: "Request ID" },
+            { name: "action", type: "string", required: false, description: "Workflow action code (e.g. SUBMIT, APPROVE); or send targetStatus" },
+            { name: "targetStatus", type: "RequestStatus", required: false, description: "Mapped to SUBMIT/APPROVE/REJECT/FULFILL" },
+            { name: "note", type: "string", required: false, description: "Max 500 chars" }
+          ],
+          response: {
+            success: { status: 200, data: "{ ok: true, action, from, to, status, onBehalfOfUserId } | { ok: true, pending: true, action, message, quorum: { required, approvals, approvers, votes } } (202)" },
+            error: { status: 409, data: "{ error: string, reason: 'GUARD_BLOCKED' | 'ALREADY_VOTED' | 'QUORUM_INVALID', blocked?: Array<{ toState: string, reasons: string[] }> }" }
+          }
+        },
         {
           method: "GET",
           path: "/api/requests/notifications",
@@ -366,181 +716,608 @@ export default function ApiDocsPage() {
         },
         {
           method: "POST",
-          path: "/api/requests/user-intake",
-          description: "Submit internal intake request (USER, no PIN)",
+          path: "/api/requests/user-intake",
+          description: "Submit internal intake request (USER, no PIN)",
+          parameters: [
+            { name: "title", type: "string", required: false, description: "Optional title" },
+            { name: "deliveryLocation", type: "string", required: true, description: "Delivery location" },
+            { name: "notes", type: "string", required: true, description: "Request justification" }
+          ],
+          response: {
+            success: { status: 201, data: "{ ok: true, id: string }" },
+            error: { status: 400, data: "{ error: string }" }
+          }
+        }
+      ]
+    },
+    {
+      name: "Units (QR Items)",
+      icon: FiPackage,
+      endpoints: [
+        {
+          method: "GET",
+          path: "/api/units",
+          description: "Paginated unit list for a product or invoice",
+          parameters: [
+            { name: "query.invoiceId", type: "string", required: false, description: "Filter by invoice id" },
+            { name: "query.productId", type: "string", required: false, description: "Filter by product id" },
+            { name: "query.cursor", type: "string", required: false, description: "Cursor (unit id)" },
+            { name: "query.limit", type: "number", required: false, description: "Max 200 (default 50)" }
+          ],
+          response: {
+            success: { status: 200, data: "{ items: ProductUnit[], nextCursor: string|null }" },
+            error: { status: 400, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "GET",
+          path: "/api/units/available",
+          description: "Find available IN_STOCK units for a product (for allocation)",
+          parameters: [
+            { name: "query.productId", type: "string", required: true, description: "Product id" },
+            { name: "query.take", type: "number", required: false, description: "How many to return (default 1)" },
+            { name: "query.exclude", type: "string|string[]", required: false, description: "Exclude unit codes" }
+          ],
+          response: {
+            success: { status: 200, data: "{ availableCount: number, items: Array<{id:string, code:string}> }" },
+            error: { status: 400, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "GET",
+          path: "/api/units/lookup",
+          description: "Lookup a unit by QR code",
+          parameters: [
+            { name: "query.code", type: "string", required: true, description: "Unit code (uuid)" }
+          ],
+          response: {
+            success: { status: 200, data: "ProductUnit" },
+            error: { status: 404, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "PATCH",
+          path: "/api/units/[id]",
+          description: "Edit unit metadata (serialNumber/partNumber/assetTag/notes)",
+          parameters: [
+            { name: "query.id", type: "string", required: true, description: "Unit ID" },
+            { name: "serialNumber", type: "string|null", required: false, description: "Serial number" },
+            { name: "partNumber", type: "string|null", required: false, description: "Part number" },
+            { name: "assetTag", type: "string|null", required: false, description: "Asset tag" },
+            { name: "notes", type: "string|null", required: false, description: "Notes" }
+          ],
+          response: {
+            success: { status: 200, data: "ProductUnit" },
+            error: { status: 409, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "POST",
+          path: "/api/units/acquire",
+          description: "Acquire a unit (OUT movement; decrements product quantity)",
+          parameters: [
+            { name: "code", type: "string", required: true, description: "Unit code (uuid)" },
+            { name: "assignedToUserId", type: "string|null", required: false, description: "Assign to user" },
+            { name: "reason", type: "string|null", required: false, description: "Reason" }
+          ],
+          response: {
+            success: { status: 200, data: "{ unit: ProductUnit, product: { id: string, quantity: number, status: string } }" },
+            error: { status: 404, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "POST",
+          path: "/api/units/return",
+          description: "Return a unit to stock (RETURN movement; increments product quantity)",
+          parameters: [
+            { name: "code", type: "string", required: true, description: "Unit code (uuid)" },
+            { name: "reason", type: "string|null", required: false, description: "Reason" }
+          ],
+          response: {
+            success: { status: 200, data: "{ unit: ProductUnit, product: { id: string, quantity: number, status: string } }" },
+            error: { status: 400, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "POST",
+          path: "/api/units/repair-out",
+          description: "Mark unit as IN_REPAIR (may decrement stock if it was IN_STOCK)",
+          parameters: [
+            { name: "code", type: "string", required: true, description: "Unit code (uuid)" }
+          ],
+          response: {
+            success: { status: 200, data: "{ unit: ProductUnit, product: { id: string, quantity: number, status: string } }" },
+            error: { status: 400, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "POST",
+          path: "/api/units/repair-in",
+          description: "Bring unit back from repair to IN_STOCK (increments stock)",
+          parameters: [
+            { name: "code", type: "string", required: true, description: "Unit code (uuid)" }
+          ],
+          response: {
+            success: { status: 200, data: "{ unit: ProductUnit, product: { id: string, quantity: number, status: string } }" },
+            error: { status: 400, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "POST",
+          path: "/api/units/scrap",
+          description: "Scrap a unit (SCRAP movement; may decrement stock)",
+          parameters: [
+            { name: "code", type: "string", required: true, description: "Unit code (uuid)" }
+          ],
+          response: {
+            success: { status: 200, data: "{ unit: ProductUnit, product: { id: string, quantity: number, status: string } }" },
+            error: { status: 400, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "POST",
+          path: "/api/units/lost",
+          description: "Mark a unit as LOST (LOST movement; may decrement stock)",
+          parameters: [
+            { name: "code", type: "string", required: true, description: "Unit code (uuid)" }
+          ],
+          response: {
+            success: { status: 200, data: "{ unit: ProductUnit, product: { id: string, quantity: number, status: string } }" },
+            error: { status: 400, data: "{ error: string }" }
+          }
+        }
+      ]
+    },
+    {
+      name: "Stock Movements",
+      icon: FiDatabase,
+      endpoints: [
+        {
+          method: "GET",
+          path: "/api/stock-movements",
+          description: "Query stock movements with pagination and filters",
+          parameters: [
+            { name: "query.productId", type: "string", required: false, description: "Filter by product id" },
+            { name: "query.unitId", type: "string", required: false, description: "Filter by unit id" },
+            { name: "query.type", type: "string", required: false, description: "IN|OUT|RETURN|REPAIR_OUT|REPAIR_IN|SCRAP|LOST|TRANSFER_OUT|TRANSFER_IN|ADJUSTMENT" },
+            { name: "query.warehouseId", type: "string", required: false, description: "Filter by warehouse id" },
+            { name: "query.transferId", type: "string", required: false, description: "Filter both legs of a transfer" },
+            { name: "query.stocktakeSessionId", type: "string", required: false, description: "Adjustments posted by a stocktake" },
+            { name: "query.invoiceNumber", type: "string", required: false, description: "Filter by invoice number" },
+            { name: "query.reqNumber", type: "string", required: false, description: "Filter by req number" },
+            { name: "query.requestId", type: "string", required: false, description: "Filter by request id" },
+            { name: "query.q", type: "string", required: false, description: "Free text search" },
+            { name: "query.limit", type: "number", required: false, description: "Max 100" },
+            { name: "query.cursor", type: "string", required: false, description: "Cursor (movement id)" }
+          ],
+          response: {
+            success: { status: 200, data: "{ items: StockMovement[], nextCursor: string|null }" },
+            error: { status: 400, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "POST",
+          path: "/api/stock-movements/transfer",
+          description: "Move stock between warehouses (TRANSFER_OUT + TRANSFER_IN; product total unchanged; lots move FEFO with the stock). ADMIN or assets.move",
+          parameters: [
+            { name: "productId", type: "string", required: true, description: "Product id" },
+            { name: "fromWarehouseId", type: "string", required: true, description: "Source warehouse" },
+            { name: "toWarehouseId", type: "string", required: true, description: "Destination warehouse" },
+            { name: "toBinId", type: "string", required: false, description: "Destination bin" },
+            { name: "quantity", type: "number", required: false, description: "Quantity (required unless unitCodes is set)" },
+            { name: "unitCodes", type: "string[]", required: false, description: "Specific unit codes to move" },
+            { name: "reason", type: "string", required: false, description: "Reason" }
+          ],
+          response: {
+            success: { status: 201, data: "{ transferId: string, quantity: number, from: Warehouse, to: Warehouse, unitCodes: string[] }" },
+            error: { status: 400, data: "{ error: string }" }
+          }
+        }
+      ]
+    },
+    {
+      name: "Warehouses",
+      icon: FiDatabase,
+      endpoints: [
+        {
+          method: "GET",
+          path: "/api/warehouses",
+          description: "List warehouses with bins and stock totals (creates the default warehouse if missing)",
+          parameters: [
+            { name: "query.includeInactive", type: "string", required: false, description: "1 to include inactive warehouses" }
+          ],
+          response: {
+            success: { status: 200, data: "Warehouse[]" },
+            error: { status: 401, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "POST",
+          path: "/api/warehouses",
+          description: "Create a warehouse (ADMIN)",
+          parameters: [
+            { name: "code", type: "string", required: true, description: "Unique code" },
+            { name: "name", type: "string", required: true, description: "Name" },
+            { name: "address", type: "string", required: false, description: "Address" },
+            { name: "isDefault", type: "boolean", required: false, description: "Make it the default warehouse" }
+          ],
+          response: {
+            success: { status: 201, data: "Warehouse" },
+            error: { status: 409, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "GET",
+          path: "/api/warehouses/[id]",
+          description: "Warehouse detail with bins and per-product balances",
+          parameters: [
+            { name: "path.id", type: "string", required: true, description: "Warehouse id" }
+          ],
+          response: {
+            success: { status: 200, data: "Warehouse & { bins: WarehouseBin[], stocks: ProductStock[] }" },
+            error: { status: 404, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "PATCH",
+          path: "/api/warehouses/[id]",
+          description: "Update a warehouse (ADMIN). Cannot deactivate the default one or one that still holds stock",
+          parameters: [
+            { name: "name", type: "string", required: false, description: "Name" },
+            { name: "isDefault", type: "true", required: false, description: "Make it the default warehouse" },
+            { name: "isActive", type: "boolean", required: false, description: "Activate/deactivate" }
+          ],
+          response: {
+            success: { status: 200, data: "Warehouse" },
+            error: { status: 409, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "POST",
+          path: "/api/warehouses/[id]",
+          description: "Create a bin/location inside the warehouse (ADMIN)",
+          parameters: [
+            { name: "code", type: "string", required: true, description: "Bin code (unique per warehouse)" },
+            { name: "name", type: "string", required: false, description: "Bin name" }
+          ],
+          response: {
+            success: { status: 201, data: "WarehouseBin" },
+            error: { status: 409, data: "{ error: string }" }
+          }
+        }
+      ]
+    },
+    {
+      name: "Replenishment",
+      icon: FiPackage,
+      endpoints: [
+        {
+          method: "GET",
+          path: "/api/replenishment",
+          description: "Products at or below their reorder point, grouped by supplier with suggested order quantities. ADMIN or reports.view",
+          parameters: [
+            { name: "query.runs", type: "string", required: false, description: "1 to list the latest replenishment runs instead" }
+          ],
+          response: {
+            success: { status: 200, data: "{ generatedAt, productCount, supplierCount, estimatedCost, pendingAlertCount, suppliers: { supplier, estimatedCost, lines[] }[] } | ReplenishmentRun[]" },
+            error: { status: 403, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "POST",
+          path: "/api/replenishment/run",
+          description: "Run the replenishment job: send pending reorder alerts and store a summary (ADMIN)",
+          parameters: [],
+          response: {
+            success: { status: 201, data: "ReplenishmentRun" },
+            error: { status: 403, data: "{ error: string }" }
+          }
+        }
+      ]
+    },
+    {
+      name: "Purchase Orders",
+      icon: FiPackage,
+      endpoints: [
+        {
+          method: "GET",
+          path: "/api/purchase-orders",
+          description: "List purchase orders with lines, receipts and linked invoices. ADMIN, purchasing.view or purchasing.manage",
+          parameters: [
+            { name: "query.status", type: "string", required: false, description: "DRAFT|SENT|PARTIALLY_RECEIVED|RECEIVED|CLOSED|CANCELLED" },
+            { name: "query.matchStatus", type: "string", required: false, description: "PENDING|MATCHED|DISCREPANCY" },
+            { name: "query.supplierId", type: "string", required: false, description: "Filter by supplier" },
+            { name: "query.requestId", type: "string", required: false, description: "Filter by request" },
+            { name: "query.productId", type: "string", required: false, description: "Orders with a line for this product" }
+          ],
+          response: {
+            success: { status: 200, data: "PurchaseOrder[]" },
+            error: { status: 403, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "POST",
+          path: "/api/purchase-orders",
+          description: "Create a draft purchase order (purchasing.manage)",
+          parameters: [
+            { name: "supplierId", type: "string", required: true, description: "Supplier id" },
+            { name: "requestId", type: "string", required: false, description: "Related request" },
+            { name: "expectedAt", type: "string", required: false, description: "Expected delivery (ISO datetime)" },
+            { name: "notes", type: "string", required: false, description: "Notes" },
+            { name: "lines", type: "{ productId, quantity, unitPrice, expectedAt?, notes? }[]", required: true, description: "Order lines" }
+          ],
+          response: {
+            success: { status: 201, data: "PurchaseOrder" },
+            error: { status: 400, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "POST",
+          path: "/api/purchase-orders/generate",
+          description: "Generate draft orders (one per supplier) from an approved request or from reorder suggestions",
+          parameters: [
+            { name: "source", type: "string", required: true, description: "REQUEST|REPLENISHMENT" },
+            { name: "requestId", type: "string", required: false, description: "Approved request (source=REQUEST)" },
+            { name: "replenishmentRunId", type: "string", required: false, description: "Stored run; omit to use the live plan" },
+            { name: "supplierIds", type: "string[]", required: false, description: "Limit to these suppliers" }
+          ],
+          response: {
+            success: { status: 201, data: "{ count: number, purchaseOrders: PurchaseOrder[] }" },
+            error: { status: 409, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "GET",
+          path: "/api/purchase-orders/[id]",
+          description: "Purchase order detail",
+          parameters: [
+            { name: "path.id", type: "string", required: true, description: "Purchase order id" }
+          ],
+          response: {
+            success: { status: 200, data: "PurchaseOrder" },
+            error: { status: 404, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "PATCH",
+          path: "/api/purchase-orders/[id]",
+          description: "Change status or edit a purchase order (purchasing.manage)",
+          parameters: [
+            { name: "action", type: "string", required: false, description: "SEND (draft) | CANCEL (nothing received) | CLOSE (stop waiting for outstanding quantities)" },
+            { name: "expectedAt", type: "string|null", required: false, description: "Expected delivery" },
+            { name: "notes", type: "string|null", required: false, description: "Notes" },
+            { name: "lines", type: "object[]", required: false, description: "Replace all lines (draft only)" }
+          ],
+          response: {
+            success: { status: 200, data: "PurchaseOrder" },
+            error: { status: 409, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "POST",
+          path: "/api/purchase-orders/[id]/reconcile",
+          description: "Three-way match of ordered vs received vs invoiced quantities and prices; stores matchStatus",
           parameters: [
-            { name: "title", type: "string", required: false, description: "Optional title" },
-            { name: "deliveryLocation", type: "string", required: true, description: "Delivery location" },
-            { name: "notes", type: "string", required: true, description: "Request justification" }
+            { name: "links", type: "{ invoiceId, lineId }[]", required: false, description: "Attach invoices recorded outside the order before matching" }
           ],
           response: {
-            success: { status: 201, data: "{ ok: true, id: string }" },
-            error: { status: 400, data: "{ error: string }" }
+            success: { status: 200, data: "{ purchaseOrderId, number, matchStatus, checkedAt, lines: LineMatch[] }" },
+            error: { status: 409, data: "{ error: string }" }
           }
         }
       ]
     },
     {
-      name: "Units (QR Items)",
+      name: "Stocktakes",
       icon: FiPackage,
       endpoints: [
         {
           method: "GET",
-          path: "/api/units",
-          description: "Paginated unit list for a product or invoice",
+          path: "/api/stocktakes",
+          description: "List physical inventory count sessions. ADMIN, stocktake.count, stocktake.approve or assets.view",
           parameters: [
-            { name: "query.invoiceId", type: "string", required: false, description: "Filter by invoice id" },
-            { name: "query.productId", type: "string", required: false, description: "Filter by product id" },
-            { name: "query.cursor", type: "string", required: false, description: "Cursor (unit id)" },
-            { name: "query.limit", type: "number", required: false, description: "Max 200 (default 50)" }
+            { name: "query.status", type: "string", required: false, description: "OPEN|SUBMITTED|APPROVED|CANCELLED" },
+            { name: "query.warehouseId", type: "string", required: false, description: "Filter by warehouse" }
           ],
           response: {
-            success: { status: 200, data: "{ items: ProductUnit[], nextCursor: string|null }" },
-            error: { status: 400, data: "{ error: string }" }
+            success: { status: 200, data: "StocktakeSummary[]" },
+            error: { status: 403, data: "{ error: string }" }
           }
         },
         {
-          method: "GET",
-          path: "/api/units/available",
-          description: "Find available IN_STOCK units for a product (for allocation)",
+          method: "POST",
+          path: "/api/stocktakes",
+          description: "Open a count session and snapshot expected balances and in-stock units (stocktake.count)",
           parameters: [
-            { name: "query.productId", type: "string", required: true, description: "Product id" },
-            { name: "query.take", type: "number", required: false, description: "How many to return (default 1)" },
-            { name: "query.exclude", type: "string|string[]", required: false, description: "Exclude unit codes" }
+            { name: "warehouseId", type: "string", required: false, description: "Warehouse to count (default warehouse when omitted)" },
+            { name: "categoryId", type: "string", required: false, description: "Limit the count to one category" },
+            { name: "title", type: "string", required: false, description: "Title" },
+            { name: "notes", type: "string", required: false, description: "Notes" }
           ],
           response: {
-            success: { status: 200, data: "{ availableCount: number, items: Array<{id:string, code:string}> }" },
-            error: { status: 400, data: "{ error: string }" }
+            success: { status: 201, data: "Stocktake" },
+            error: { status: 409, data: "{ error: string } (overlapping session in progress)" }
           }
         },
         {
           method: "GET",
-          path: "/api/units/lookup",
-          description: "Lookup a unit by QR code",
+          path: "/api/stocktakes/[id]",
+          description: "Session detail with the variance report (expected vs counted, missing and found unit codes)",
           parameters: [
-            { name: "query.code", type: "string", required: true, description: "Unit code (uuid)" }
+            { name: "path.id", type: "string", required: true, description: "Stocktake id" }
           ],
           response: {
-            success: { status: 200, data: "ProductUnit" },
+            success: { status: 200, data: "Stocktake" },
             error: { status: 404, data: "{ error: string }" }
           }
         },
         {
-          method: "PATCH",
-          path: "/api/units/[id]",
-          description: "Edit unit metadata (serialNumber/partNumber/assetTag/notes)",
+          method: "POST",
+          path: "/api/stocktakes/[id]/counts",
+          description: "Record scanned unit codes and keyed bulk quantities (session must be OPEN)",
           parameters: [
-            { name: "query.id", type: "string", required: true, description: "Unit ID" },
-            { name: "serialNumber", type: "string|null", required: false, description: "Serial number" },
-            { name: "partNumber", type: "string|null", required: false, description: "Part number" },
-            { name: "assetTag", type: "string|null", required: false, description: "Asset tag" },
-            { name: "notes", type: "string|null", required: false, description: "Notes" }
+            { name: "entries", type: "({ unitCode, counted? } | { productId, quantity, notes? })[]", required: true, description: "counted=false undoes a scan; keyed quantities replace the previous count" }
           ],
           response: {
-            success: { status: 200, data: "ProductUnit" },
+            success: { status: 200, data: "Stocktake" },
             error: { status: 409, data: "{ error: string }" }
           }
         },
         {
-          method: "POST",
-          path: "/api/units/acquire",
-          description: "Acquire a unit (OUT movement; decrements product quantity)",
+          method: "PATCH",
+          path: "/api/stocktakes/[id]",
+          description: "Submit for approval, reopen counting or cancel",
           parameters: [
-            { name: "code", type: "string", required: true, description: "Unit code (uuid)" },
-            { name: "assignedToUserId", type: "string|null", required: false, description: "Assign to user" },
-            { name: "reason", type: "string|null", required: false, description: "Reason" }
+            { name: "action", type: "string", required: true, description: "SUBMIT (all bulk lines counted) | REOPEN | CANCEL" }
           ],
           response: {
-            success: { status: 200, data: "{ unit: ProductUnit, product: { id: string, quantity: number, status: string } }" },
-            error: { status: 404, data: "{ error: string }" }
+            success: { status: 200, data: "Stocktake" },
+            error: { status: 409, data: "{ error: string }" }
           }
         },
         {
           method: "POST",
-          path: "/api/units/return",
-          description: "Return a unit to stock (RETURN movement; increments product quantity)",
+          path: "/api/stocktakes/[id]/approve",
+          description: "Approve a submitted session and post variances as ADJUSTMENT movements (stocktake.approve)",
+          parameters: [],
+          response: {
+            success: { status: 200, data: "{ number, movementCount, adjustments: { productId, delta }[], session: Stocktake }" },
+            error: { status: 409, data: "{ error: string }" }
+          }
+        }
+      ]
+    },
+    {
+      name: "Municipal Asset Depreciation",
+      icon: FiDatabase,
+      endpoints: [
+        {
+          method: "GET",
+          path: "/api/governanca/assets/[id]/depreciation",
+          description: "Straight-line depreciation of one asset: net book value today, monthly schedule and posted yearly entries",
           parameters: [
-            { name: "code", type: "string", required: true, description: "Unit code (uuid)" },
-            { name: "reason", type: "string|null", required: false, description: "Reason" }
+            { name: "path.id", type: "string", required: true, description: "Asset id" }
           ],
           response: {
-            success: { status: 200, data: "{ unit: ProductUnit, product: { id: string, quantity: number, status: string } }" },
-            error: { status: 400, data: "{ error: string }" }
+            success: { status: 200, data: "{ method, issue, monthlyDepreciation, accumulatedDepreciation, netBookValue, schedule[], postedEntries[] }" },
+            error: { status: 404, data: "{ error: string }" }
           }
         },
         {
-          method: "POST",
-          path: "/api/units/repair-out",
-          description: "Mark unit as IN_REPAIR (may decrement stock if it was IN_STOCK)",
+          method: "GET",
+          path: "/api/governanca/assets/depreciation-runs",
+          description: "Yearly depreciation run history, or one run with its per-asset entries",
           parameters: [
-            { name: "code", type: "string", required: true, description: "Unit code (uuid)" }
+            { name: "query.year", type: "number", required: false, description: "Filter by year" },
+            { name: "query.id", type: "string", required: false, description: "Run id (returns entries)" }
           ],
           response: {
-            success: { status: 200, data: "{ unit: ProductUnit, product: { id: string, quantity: number, status: string } }" },
-            error: { status: 400, data: "{ error: string }" }
+            success: { status: 200, data: "DepreciationRun[] | DepreciationRun & { entries }" },
+            error: { status: 403, data: "{ error: string }" }
           }
         },
         {
           method: "POST",
-          path: "/api/units/repair-in",
-          description: "Bring unit back from repair to IN_STOCK (increments stock)",
+          path: "/api/governanca/assets/depreciation-runs",
+          description: "Post a year's depreciation for assets held at year end; re-posting supersedes the previous run (ADMIN or assets.manage)",
           parameters: [
-            { name: "code", type: "string", required: true, description: "Unit code (uuid)" }
+            { name: "year", type: "number", required: true, description: "Year (not in the future)" },
+            { name: "notes", type: "string", required: false, description: "Notes" }
           ],
           response: {
-            success: { status: 200, data: "{ unit: ProductUnit, product: { id: string, quantity: number, status: string } }" },
+            success: { status: 201, data: "DepreciationRun" },
             error: { status: 400, data: "{ error: string }" }
           }
         },
         {
-          method: "POST",
-          path: "/api/units/scrap",
-          description: "Scrap a unit (SCRAP movement; may decrement stock)",
+          method: "GET",
+          path: "/api/governanca/assets/reports",
+          description: "Asset governance reports, including the patrimonial balance at 31 December (gross value, year and accumulated depreciation, net book value by class and service)",
           parameters: [
-            { name: "code", type: "string", required: true, description: "Unit code (uuid)" }
+            { name: "query.year", type: "number", required: false, description: "Balance/disposal year (default current)" },
+            { name: "query.repairDays", type: "number", required: false, description: "Repair SLA in days (default 30)" }
           ],
           response: {
-            success: { status: 200, data: "{ unit: ProductUnit, product: { id: string, quantity: number, status: string } }" },
-            error: { status: 400, data: "{ error: string }" }
+            success: { status: 200, data: "{ totals, movementsByType, inventoryByService, inventoryByClass, annualDisposalMap, patrimonialBalance }" },
+            error: { status: 403, data: "{ error: string }" }
+          }
+        }
+      ]
+    },
+    {
+      name: "Municipal Asset Import",
+      icon: FiDatabase,
+      endpoints: [
+        {
+          method: "GET",
+          path: "/api/governanca/assets/import",
+          description: "Columns recognised by the asset register import (ADMIN or assets.manage)",
+          parameters: [],
+          response: {
+            success: { status: 200, data: "{ maxRows, fields: [{ key, label, required }] }" },
+            error: { status: 403, data: "{ error: string }" }
           }
         },
         {
           method: "POST",
-          path: "/api/units/lost",
-          description: "Mark a unit as LOST (LOST movement; may decrement stock)",
+          path: "/api/governanca/assets/import",
+          description: "Import legacy asset registers from CSV/XLSX (multipart). Class by key, model by brand + model, service by code, location by path (missing levels are created). Enforces requiresSerialNumber and unique code/serial/tag; each asset gets a REGISTER movement. Dry run by default; a commit is all-or-nothing",
           parameters: [
-            { name: "code", type: "string", required: true, description: "Unit code (uuid)" }
+            { name: "file", type: "file", required: true, description: ".csv or .xlsx (first sheet), header in row 1, max 5000 rows" },
+            { name: "mapping", type: "string (JSON)", required: false, description: "{ fieldKey: columnHeader }; unmapped fields are matched by header name" },
+            { name: "dryRun", type: "string", required: false, description: "'0' to write; anything else only validates" }
           ],
           response: {
-            success: { status: 200, data: "{ unit: ProductUnit, product: { id: string, quantity: number, status: string } }" },
-            error: { status: 400, data: "{ error: string }" }
+            success: { status: 200, data: "{ dryRun, headers, mapping, totalRows, validRows, errorRows, toCreate, newLocations, rows: [{ row, key, action, errors, warnings }] }" },
+            error: { status: 422, data: "{ error: string, ...report } (commit refused, rows have errors)" }
           }
         }
       ]
     },
     {
-      name: "Stock Movements",
-      icon: FiDatabase,
+      name: "Lots",
+      icon: FiPackage,
       endpoints: [
         {
           method: "GET",
-          path: "/api/stock-movements",
-          description: "Query stock movements with pagination and filters",
+          path: "/api/lots",
+          description: "Lots with stock, earliest expiry first. Warehouse requests consume them FEFO and never pick expired lots; items removed in an edit go back to the lots they came from. Stocktake shortages come out FEFO (expired included); stocktake surpluses and return requests re-enter as unlotted stock. ADMIN or assets.view",
           parameters: [
-            { name: "query.productId", type: "string", required: false, description: "Filter by product id" },
-            { name: "query.unitId", type: "string", required: false, description: "Filter by unit id" },
-            { name: "query.type", type: "string", required: false, description: "IN|OUT|RETURN|REPAIR_OUT|REPAIR_IN|SCRAP|LOST" },
-            { name: "query.invoiceNumber", type: "string", required: false, description: "Filter by invoice number" },
-            { name: "query.reqNumber", type: "string", required: false, description: "Filter by req number" },
-            { name: "query.requestId", type: "string", required: false, description: "Filter by request id" },
-            { name: "query.q", type: "string", required: false, description: "Free text search" },
-            { name: "query.limit", type: "number", required: false, description: "Max 100" },
-            { name: "query.cursor", type: "string", required: false, description: "Cursor (movement id)" }
+            { name: "query.productId", type: "string", required: false, description: "Filter by product" },
+            { name: "query.warehouseId", type: "string", required: false, description: "Filter by warehouse" },
+            { name: "query.includeEmpty", type: "string", required: false, description: "1 to include depleted lots" }
           ],
           response: {
-            success: { status: 200, data: "{ items: StockMovement[], nextCursor: string|null }" },
+            success: { status: 200, data: "{ items: ProductLot[] }" },
+            error: { status: 403, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "GET",
+          path: "/api/lots/expiring",
+          description: "Expired and soon-to-expire lots still in stock. ADMIN or assets.view",
+          parameters: [
+            { name: "query.days", type: "number", required: false, description: "Warning window in days (default 30)" },
+            { name: "query.warehouseId", type: "string", required: false, description: "Filter by warehouse" },
+            { name: "query.productId", type: "string", required: false, description: "Filter by product" },
+            { name: "query.includeExpired", type: "string", required: false, description: "0 to hide already expired lots" }
+          ],
+          response: {
+            success: { status: 200, data: "{ days, generatedAt, expiredCount, expiringCount, expiredQuantity, items: ProductLot[] }" },
             error: { status: 400, data: "{ error: string }" }
           }
+        },
+        {
+          method: "POST",
+          path: "/api/lots/expiry-alerts",
+          description: "Expiry job (ADMIN, cron-friendly): sends one LOT_EXPIRY notification for lots not alerted before",
+          parameters: [
+            { name: "days", type: "number", required: false, description: "Warning window in days (default 30)" }
+          ],
+          response: {
+            success: { status: 200, data: "{ days, expiredCount, expiringCount, alerted }" },
+            error: { status: 403, data: "{ error: string }" }
+          }
         }
       ]
     },
@@ -594,7 +1371,11 @@ export default function ApiDocsPage() {
             { name: "productId", type: "string", required: false, description: "Existing product id" },
             { name: "product", type: "object", required: false, description: "Create new product payload" },
             { name: "reqNumber", type: "string", required: false, description: "Optional req number to link" },
-            { name: "requestId", type: "string", required: false, description: "Optional request id to link" }
+            { name: "requestId", type: "string", required: false, description: "Optional request id to link" },
+            { name: "warehouseId", type: "string", required: false, description: "Receiving warehouse (defaults to the default warehouse)" },
+            { name: "binId", type: "string", required: false, description: "Receiving bin inside the warehouse" },
+            { name: "purchaseOrderLineId", type: "string", required: false, description: "Receive against a purchase order line (product and request come from the order; over-receipt is rejected)" },
+            { name: "lot", type: "{ lotNumber, expiresAt?, manufacturedAt? }", required: false, description: "Receive consumables into a lot instead of generating unit QR codes (409 for unit-tracked products or a lot number with another expiry)" }
           ],
           response: {
             success: { status: 201, data: "{ ok: true, invoiceId: string, productId: string }" },
@@ -692,6 +1473,35 @@ export default function ApiDocsPage() {
             error: { status: 403, data: "{ error: string }" }
           }
         },
+        {
+          method: "GET",
+          path: "/api/reports/valuation",
+          description: "Inventory valuation at the end of the period from invoice prices and stock movements (ADMIN or reports.view)",
+          parameters: [
+            { name: "query.from", type: "string", required: false, description: "ISO date (start; adds opening value and period receipts/issues)" },
+            { name: "query.to", type: "string", required: false, description: "ISO date (valuation date, default now)" },
+            { name: "query.method", type: "string", required: false, description: "WAC (weighted average cost, default) | FIFO" },
+            { name: "query.categoryId", type: "string", required: false, description: "Limit to one category" }
+          ],
+          response: {
+            success: { status: 200, data: "{ meta, totals, products[], categories[], services[] }" },
+            error: { status: 403, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "GET",
+          path: "/api/reports/valuation/pdf",
+          description: "Inventory valuation PDF (same filters); POST also archives it in the document repository (ADMIN only)",
+          parameters: [
+            { name: "query.from", type: "string", required: false, description: "ISO date (start)" },
+            { name: "query.to", type: "string", required: false, description: "ISO date (valuation date)" },
+            { name: "query.method", type: "string", required: false, description: "WAC | FIFO" }
+          ],
+          response: {
+            success: { status: 200, data: "application/pdf" },
+            error: { status: 403, data: "{ error: string }" }
+          }
+        },
         {
           method: "GET",
           path: "/api/reports/business-insights/pdf",
@@ -702,6 +1512,22 @@ export default function ApiDocsPage() {
             error: { status: 401, data: "{ error: string }" }
           }
         },
+        {
+          method: "GET",
+          path: "/api/insights/forecast",
+          description: "Previsão de procura por produto, categoria e serviço requisitante a partir do histórico de saídas (média móvel / suavização exponencial com sazonalidade)",
+          parameters: [
+            { name: "query.months", type: "number", required: false, description: "Meses de histórico completos, 3-60 (default 24)" },
+            { name: "query.horizon", type: "number", required: false, description: "Meses a prever, 1-12 (default 3)" },
+            { name: "query.top", type: "number", required: false, description: "Número máximo de produtos/serviços devolvidos (default 20)" },
+            { name: "query.productId", type: "string", required: false, description: "UUID do produto" },
+            { name: "query.requestingServiceId", type: "number", required: false, description: "Filtra saídas associadas a requisições do serviço" }
+          ],
+          response: {
+            success: { status: 200, data: "{ meta, total: SeriesForecast, monthly: [{ month, demand, isForecast }], seasonality, products: [{ productId, name, sku, method, forecast, confidence, monthsOfCover, stockoutRisk }], categories, services }" },
+            error: { status: 400, data: "{ error: string }" }
+          }
+        },
         {
           method: "GET",
           path: "/api/reports/ticket-operations",
@@ -908,6 +1734,149 @@ export default function ApiDocsPage() {
             success: { status: 200, data: "{ ok: true, dryRun: boolean, summary: any, results: any[] }" },
             error: { status: 400, data: "{ error: string }" }
           }
+        },
+        {
+          method: "GET",
+          path: "/api/admin/workflows",
+          description: "List workflow definitions with every version, its status (DRAFT, ACTIVE, RETIRED) and in-flight instance count (ADMIN only)",
+          parameters: [],
+          response: {
+            success: { status: 200, data: "{ definitions: Array<{ id, key, name, targetType, version, isActive, publishedAt, status, inFlightInstances }> }" },
+            error: { status: 403, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "POST",
+          path: "/api/admin/workflows",
+          description: "Start a draft version as a copy of an existing version; one draft per workflow (ADMIN only, audited)",
+          parameters: [
+            { name: "fromDefinitionId", type: "string", required: true, description: "Version to copy" }
+          ],
+          response: {
+            success: { status: 201, data: "{ id: string, version: number }" },
+            error: { status: 409, data: "{ error: string, draftId: string }" }
+          }
+        },
+        {
+          method: "GET",
+          path: "/api/admin/workflows/{id}",
+          description: "Version graph (states and transitions), validation errors/warnings and, for drafts, in-flight instances of other versions by state code (ADMIN only)",
+          parameters: [
+            { name: "path.id", type: "string", required: true, description: "WorkflowDefinition id" }
+          ],
+          response: {
+            success: { status: 200, data: "{ id, key, targetType, version, status, graph, validation: { errors, warnings }, inFlightElsewhere, permissions }" },
+            error: { status: 404, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "PUT",
+          path: "/api/admin/workflows/{id}",
+          description: "Replace the states and transitions of a draft. Published versions are immutable (ADMIN only, audited)",
+          parameters: [
+            { name: "path.id", type: "string", required: true, description: "Draft id" },
+            { name: "name", type: "string", required: true, description: "Workflow name" },
+            { name: "states", type: "Array<{ code, name, sortOrder, isInitial, isTerminal, requestStatus, targetStatus, quorum }>", required: true, description: "Codes in A-Z, 0-9 and _. quorum (request workflows): { action, required, approvers: Array<{ roleKey } | { userId }>, when?: guard } — the action only leaves the state after `required` distinct approvers voted" },
+            { name: "transitions", type: "Array<{ from, to, action, requiredPermission, priority, guard }>", required: true, description: "from/to are state codes. Transitions sharing from+action are tried by ascending priority; the first whose guard holds is taken. guard: { field, op, value } or { all | any: guard[] } or { not: guard }, over estimatedTotal, goodsTypes, requestingService, priority, requestType, hasFinanceProcess, financeStatuses" }
+          ],
+          response: {
+            success: { status: 200, data: "{ ok: true, validation: { errors, warnings } }" },
+            error: { status: 409, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "DELETE",
+          path: "/api/admin/workflows/{id}",
+          description: "Discard a draft (ADMIN only, audited)",
+          parameters: [
+            { name: "path.id", type: "string", required: true, description: "Draft id" }
+          ],
+          response: {
+            success: { status: 204, data: "(no content)" },
+            error: { status: 409, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "POST",
+          path: "/api/admin/workflows/{id}/publish",
+          description: "Publish a draft without validation errors: it becomes the active version for new instances and the previous one is retired. In-flight instances stay on their version (PIN) or move to this one (MIGRATE) by state code (ADMIN only, audited)",
+          parameters: [
+            { name: "path.id", type: "string", required: true, description: "Draft id" },
+            { name: "instances", type: "'PIN' | 'MIGRATE'", required: false, description: "Default PIN" },
+            { name: "stateMapping", type: "Record<string, string>", required: false, description: "Old state code -> new state code, for codes the new version no longer has" }
+          ],
+          response: {
+            success: { status: 200, data: "{ version: number, migrated: number, warnings: Issue[] }" },
+            error: { status: 400, data: "{ error: string, issues?: Issue[], unmapped?: string[] }" }
+          }
+        }
+      ]
+    },
+    {
+      name: "Audit",
+      icon: FiShield,
+      endpoints: [
+        {
+          method: "GET",
+          path: "/api/audit",
+          description: "Search the legacy audit tables as one newest-first timeline (ADMIN, own tenant). Entries carry chainSeq, their position in the hash-chained log. For a request the entity filter also covers its linked assets, finance processes, tickets and workflow instance. Paging and exports are capped at the newest 5000 matches (PDF: 1000)",
+          parameters: [
+            { name: "entity", type: "string", required: false, description: "GTMI number, ticket/asset/finance code, user e-mail or id; 404 when nothing matches" },
+            { name: "includeRelated", type: "'true'|'false'", required: false, description: "Follow records linked to the entity (default true)" },
+            { name: "actorUserId", type: "uuid", required: false, description: "Who performed the action" },
+            { name: "action", type: "string", required: false, description: "Case-insensitive substring, e.g. STATUS_CHANGED" },
+            { name: "source", type: "string", required: false, description: "Comma-separated: USER_ADMIN, RBAC, TICKET, REQUEST_STATUS, MUNICIPAL_ASSET, FINANCE_PROCESS, WORKFLOW" },
+            { name: "from / to", type: "date | ISO datetime", required: false, description: "Date range; plain dates cover the whole day" },
+            { name: "tenantId", type: "uuid", required: false, description: "Must match the session tenant (403 otherwise)" },
+            { name: "page / pageSize", type: "number", required: false, description: "Defaults 1 / 50 (max 200)" },
+            { name: "format", type: "'json'|'csv'|'pdf'", required: false, description: "csv/pdf download the whole filtered timeline; pdf is limited to 6 per minute" }
+          ],
+          response: {
+            success: { status: 200, data: "{ items: { id, source, createdAt, action, entityType, entityId, entityLabel, actor, note, details, chainSeq }[], total, page, pageSize, maxWindow, entity: { type, id, label, related[] } | null }" },
+            error: { status: 404, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "GET",
+          path: "/api/audit/verify",
+          description: "Recompute the tenant's hash-chained audit log (ADMIN). Every write to the legacy audit tables (user admin, RBAC, tickets, request status, assets, finance, workflow) is also appended to this append-only chain; an edited, removed or reordered entry is reported as the first break",
+          parameters: [],
+          response: {
+            success: { status: 200, data: "{ ok: boolean, checked: number, headSeq: number, headHash: string, firstBreak: { seq, id, reason: 'MISSING_ENTRY'|'PREV_HASH_MISMATCH'|'HASH_MISMATCH' } | null, verifiedAt }" },
+            error: { status: 403, data: "{ error: string }" }
+          }
+        }
+      ]
+    },
+    {
+      name: "Realtime",
+      icon: FiRadio,
+      endpoints: [
+        {
+          method: "GET",
+          path: "/api/realtime/stream",
+          description: "Server-Sent Events stream of tenant events. Every event carries an id; on reconnect the missed events are replayed from the event log (kept REALTIME_EVENT_RETENTION_MINUTES). A 'reset' event means they could not be replayed and the client should reload",
+          parameters: [
+            { name: "header.Last-Event-ID", type: "string", required: false, description: "Id of the last event received (sent automatically by EventSource)" },
+            { name: "query.lastEventId", type: "string", required: false, description: "Same as Last-Event-ID, for clients that open a new connection" },
+            { name: "query.topics", type: "string", required: false, description: "Comma-separated topics, e.g. request:<id>,ticket:<id> (max 20); only matching events are sent" }
+          ],
+          response: {
+            success: { status: 200, data: "text/event-stream: id, event: <type>, data: { id, type, tenantId, audience, userId, topics, createdAt, payload }" },
+            error: { status: 401, data: "{ error: string }" }
+          }
+        },
+        {
+          method: "GET|POST|DELETE",
+          path: "/api/presence/viewers",
+          description: "Users with the same record page open. POST (every ~20s) marks the caller as viewing and returns the others; DELETE when leaving. Changes are pushed as 'presence.viewers_changed' on the resource topic",
+          parameters: [
+            { name: "resource", type: "string", required: true, description: "request:<id> or ticket:<id> (query for GET/DELETE, body for POST)" }
+          ],
+          response: {
+            success: { status: 200, data: "{ resource, viewers: Array<{ id, name, since }> } | 204 (DELETE)" },
+            error: { status: 404, data: "{ error: string }" }
+          }
         }
       ]
     }
@@ -987,11 +1956,24 @@ export default function ApiDocsPage() {
       name: "StockMovement",
       fields: [
         { name: "id", type: "string", description: "Unique identifier" },
-        { name: "type", type: "string", description: "IN|OUT|RETURN|REPAIR_OUT|REPAIR_IN|SCRAP|LOST" },
-        { name: "quantity", type: "number", description: "Quantity moved" },
+        { name: "type", type: "string", description: "IN|OUT|RETURN|REPAIR_OUT|REPAIR_IN|SCRAP|LOST|TRANSFER_OUT|TRANSFER_IN|ADJUSTMENT" },
+        { name: "quantity", type: "number", description: "Quantity moved (signed for ADJUSTMENT: negative = shortage)" },
         { name: "createdAt", type: "string", description: "Timestamp (ISO)" },
         { name: "productId", type: "string", description: "Product id" },
-        { name: "unitId", type: "string|null", description: "Unit id" }
+        { name: "unitId", type: "string|null", description: "Unit id" },
+        { name: "lotId", type: "string|null", description: "Lot id (bulk stock received or picked by lot)" }
+      ]
+    },
+    {
+      name: "ProductLot",
+      fields: [
+        { name: "id", type: "string", description: "Unique identifier" },
+        { name: "lotNumber", type: "string", description: "Lot number (unique per product and warehouse)" },
+        { name: "expiresAt", type: "string|null", description: "Expiry date (ISO)" },
+        { name: "quantity", type: "number", description: "Remaining quantity" },
+        { name: "receivedQuantity", type: "number", description: "Total received into the lot" },
+        { name: "expired", type: "boolean", description: "Past its expiry date" },
+        { name: "daysToExpiry", type: "number|null", description: "Days until expiry (negative when expired)" }
       ]
     },
     {
@@ -1082,6 +2064,18 @@ export default function ApiDocsPage() {
                 <p className="text-sm text-muted-foreground">
                   The server issues a JWT stored in the HTTP-only cookie <code className="px-1">session_id</code>.
                   For API clients, ensure you keep and send cookies (e.g. <code className="px-1">credentials: &quot;include&quot;</code>).
+                  Each login is registered server-side: the session expires after a period of inactivity (extended on every
+                  request, up to an absolute limit) and can be revoked from <code className="px-1">/api/auth/sessions</code>.
+                </p>
+              </div>
+              <div className="bg-muted p-4 rounded-lg">
+                <h4 className="font-semibold mb-2">API tokens</h4>
+                <p className="text-sm text-muted-foreground">
+                  Integrations send <code className="px-1">Authorization: Bearer cmh_…</code> instead of the cookie (no CSRF token needed).
+                  A token only has the permissions chosen when it was created, never ADMIN, and can be limited to IP allowlist entries.
+                  Only endpoints guarded by a permission accept them (requests, workflows, património, finance, purchasing, stocktakes,
+                  tickets, reports, RBAC); the token needs one of that endpoint&apos;s permissions, everything else answers 401.
+                  Tokens are managed in <code className="px-1">/tokens</code>; account endpoints under <code className="px-1">/api/auth</code> reject them.
                 </p>
               </div>
               <div className="bg-muted p-4 rounded-lg">
@@ -15,13 +15,22 @@ interface User {
   requestingServiceId?: number | null;
   permissions?: string[];
   permissionGrants?: Array<{ key: string; requestingServiceId: number | null }>;
+  sessionId?: string | null;
+}
+
+export interface MfaChallenge {
+  mfaToken: string;
+  enrollmentRequired: boolean;
 }
 
 interface AuthContextType {
   isLoggedIn: boolean;
   isAuthLoading: boolean;
   user: User | null;
-  login: (email: string, password: string) => Promise<void>;
+  /** Resolves with a challenge when the account needs a second factor before a session is issued. */
+  login: (email: string, password: string) => Promise<MfaChallenge | null>;
+  /** Completes the second step; resolves with recovery codes when it also finished an enrolment. */
+  completeMfa: (mfaToken: string, input: { code?: string; recoveryCode?: string }) => Promise<string[] | null>;
   logout: () => Promise<void>;
 }
 
@@ -96,6 +105,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
             requestingServiceId: (session as any).requestingServiceId ?? null,
             permissions: (session as any).permissions ?? [],
             permissionGrants: (session as any).permissionGrants ?? [],
+            sessionId: (session as any).sessionId ?? null,
           });
           localStorage.setItem("isAuth", "true");
           localStorage.setItem("isLoggedIn", "true");
@@ -118,8 +128,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     const es = new EventSource("/api/realtime/stream");
     const onForceLogout = (ev: MessageEvent) => {
       try {
-        const data = JSON.parse(ev.data) as { userId?: string };
+        const data = JSON.parse(ev.data) as { userId?: string; payload?: { sessionIds?: string[] } };
         if (data?.userId && data.userId !== user.id) return;
+        // Revocation of specific devices only concerns the browsers holding those sessions.
+        const sessionIds = data?.payload?.sessionIds;
+        if (Array.isArray(sessionIds) && user.sessionId && !sessionIds.includes(user.sessionId)) return;
       } catch {
         // ignore malformed payload and force logout anyway
       }
@@ -131,43 +144,62 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
       es.removeEventListener("auth.force_logout", onForceLogout);
       es.close();
     };
-  }, [forceLogout, isLoggedIn, user?.id]);
+  }, [forceLogout, isLoggedIn, user?.id, user?.sessionId]);
+
+  const loadSessionAfterLogin = async () => {
+    const session = await getSessionClient();
+    if (!session) {
+      throw new Error("Login succeeded but session could not be loaded");
+    }
+
+    setIsLoggedIn(true);
+    setUser({
+      id: session.id,
+      name: session.name ?? undefined,
+      email: session.email,
+      role: session.role,
+      tenantId: (session as any).tenantId,
+      isActive: (session as any).isActive,
+      mustChangePassword: (session as any).mustChangePassword ?? false,
+      requestingServiceId: (session as any).requestingServiceId ?? null,
+      permissions: (session as any).permissions ?? [],
+      permissionGrants: (session as any).permissionGrants ?? [],
+      sessionId: (session as any).sessionId ?? null,
+    });
+
+    localStorage.setItem("isAuth", "true");
+    localStorage.setItem("isLoggedIn", "true");
+    localStorage.setItem("getSession", JSON.stringify(session));
+  };
 
   const login = async (email: string, password: string) => {
     try {
-      await axiosInstance.post("/auth/login", {
+      const res = await axiosInstance.post("/auth/login", {
         email,
         password,
       });
 
-      const session = await getSessionClient();
-      if (!session) {
-        throw new Error("Login succeeded but session could not be loaded");
+      if (res.data?.mfaRequired) {
+        return {
+          mfaToken: String(res.data.mfaToken),
+          enrollmentRequired: Boolean(res.data.enrollmentRequired),
+        };
       }
 
-      setIsLoggedIn(true);
-      setUser({
-        id: session.id,
-        name: session.name ?? undefined,
-        email: session.email,
-        role: session.role,
-        tenantId: (session as any).tenantId,
-        isActive: (session as any).isActive,
-        mustChangePassword: (session as any).mustChangePassword ?? false,
-        requestingServiceId: (session as any).requestingServiceId ?? null,
-        permissions: (session as any).permissions ?? [],
-        permissionGrants: (session as any).permissionGrants ?? [],
-      });
-
-      localStorage.setItem("isAuth", "true");
-      localStorage.setItem("isLoggedIn", "true");
-      localStorage.setItem("getSession", JSON.stringify(session));
+      await loadSessionAfterLogin();
+      return null;
     } catch (error) {
       console.error("Error logging in:", error);
       throw error;
     }
   };
 
+  const completeMfa = async (mfaToken: string, input: { code?: string; recoveryCode?: string }) => {
+    const res = await axiosInstance.post("/auth/mfa/verify", { mfaToken, ...input });
+    await loadSessionAfterLogin();
+    return Array.isArray(res.data?.recoveryCodes) ? (res.data.recoveryCodes as string[]) : null;
+  };
+
   const logout = async () => {
     try {
       await axiosInstance.post("/auth/logout");
@@ -183,7 +215,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
   };
 
   return (
-    <AuthContext.Provider value={{ isLoggedIn, isAuthLoading, user, login, logout }}>
+    <AuthContext.Provider value={{ isLoggedIn, isAuthLoading, user, login, completeMfa, logout }}>
       {children}
     </AuthContext.Provider>
   );
@@ -186,11 +186,8 @@ export default function BusinessInsightsPage() {
 
     const totalProducts = allProducts.length;
 
-    // CORRECTED: Low stock items - products with quantity > 0 AND quantity <= 20 (matching product table logic)
-    const lowStockItems = allProducts.filter(
-      (product) =>
-        Number(product.quantity) > 0 && Number(product.quantity) <= 20
-    ).length;
+    // Low stock items - status is kept against each product's reorder point (matching product table logic)
+    const lowStockItems = allProducts.filter((product) => product.status === "Stock Low").length;
 
     // CORRECTED: Out of stock items - products with quantity = 0
     const outOfStockItems = allProducts.filter(
@@ -231,12 +228,9 @@ export default function BusinessInsightsPage() {
       })
     );
 
-    // Low stock products (matching product table logic: quantity > 0 AND quantity <= 20)
+    // Low stock products (matching product table logic)
     const lowStockProducts = allProducts
-      .filter(
-        (product) =>
-          Number(product.quantity) > 0 && Number(product.quantity) <= 20
-      )
+      .filter((product) => product.status === "Stock Low")
       .sort((a, b) => Number(a.quantity) - Number(b.quantity))
       .slice(0, 5);
 
@@ -12,11 +12,14 @@ import {
   Boxes,
   BriefcaseBusiness,
   ChevronDown,
+  CalendarClock,
+  ClipboardCheck,
   ClipboardList,
   Database,
   ListTodo,
   LogOut,
   Menu,
+  MonitorSmartphone,
   Package,
   PlusCircle,
   ShieldCheck,
@@ -30,7 +33,12 @@ import {
   StretchHorizontal,
   MessageCircle,
   HandCoins,
+  Coins,
   FileCheck,
+  ShoppingCart,
+  ScrollText,
+  GitBranch,
+  Handshake,
 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
@@ -96,10 +104,14 @@ const ROUTE_ACCESS_RULES: RouteAccessRule[] = [
   { prefix: "/requests/aprovacoes-finais", requiredAnyPermissions: ["requests.final_approve", "requests.final_reject"] },
   { prefix: "/requests", requiredAnyPermissions: ["requests.view"] },
   { prefix: "/governanca/permissoes", requiredAnyPermissions: ["users.manage"] },
+  { prefix: "/governanca/workflows", requiredAnyPermissions: ["users.manage"] },
   { prefix: "/governanca/financiamento", requiredAnyPermissions: ["finance.manage", "finance.view"] },
   { prefix: "/governanca/patrimonio", requiredAnyPermissions: ["assets.manage", "assets.view"] },
   { prefix: "/governanca/requerimentos", requiredAnyPermissions: ["public_requests.handle", "public_requests.view"] },
   { prefix: "/governanca/recebidos", requiredAnyPermissions: ["public_requests.handle", "public_requests.view"] },
+  { prefix: "/governanca/encomendas", requiredAnyPermissions: ["purchasing.manage", "purchasing.view"] },
+  { prefix: "/governanca/validades", requiredAnyPermissions: ["assets.manage", "assets.view"] },
+  { prefix: "/governanca/inventarios", requiredAnyPermissions: ["stocktake.count", "stocktake.approve", "assets.manage", "assets.view"] },
   {
     prefix: "/governanca",
     requiredAnyPermissions: ["finance.manage", "finance.view", "assets.manage", "assets.view", "public_requests.handle", "public_requests.view", "reports.view"],
@@ -239,6 +251,27 @@ const navSections: NavSection[] = [
         active: (pathname, currentSearchParams) =>
           pathname === "/storage" && currentSearchParams?.get("tab") !== "documents",
       },
+      {
+        id: "purchase-orders",
+        label: "Encomendas",
+        href: "/governanca/encomendas",
+        icon: ShoppingCart,
+        requiredAnyPermissions: ["purchasing.manage", "purchasing.view"],
+      },
+      {
+        id: "stocktakes",
+        label: "Inventário físico",
+        href: "/governanca/inventarios",
+        icon: ClipboardCheck,
+        requiredAnyPermissions: ["stocktake.count", "stocktake.approve", "assets.manage", "assets.view"],
+      },
+      {
+        id: "lot-expiry",
+        label: "Validades",
+        href: "/governanca/validades",
+        icon: CalendarClock,
+        requiredAnyPermissions: ["assets.manage", "assets.view"],
+      },
       {
         id: "assets-governance",
         label: "Património (governança)",
@@ -268,6 +301,13 @@ const navSections: NavSection[] = [
         icon: BarChart3,
         requiredAnyPermissions: ["reports.view"],
       },
+      {
+        id: "reports-valuation",
+        label: "Valorização de inventário",
+        href: "/reports/valorizacao",
+        icon: Coins,
+        requiredAnyPermissions: ["reports.view"],
+      },
       {
         id: "reports-ticket-ops",
         label: "Operações (Tickets)",
@@ -297,6 +337,13 @@ const navSections: NavSection[] = [
         icon: KeyRound,
         requiredAnyPermissions: ["users.manage"],
       },
+      {
+        id: "workflows",
+        label: "Workflows",
+        href: "/governanca/workflows",
+        icon: GitBranch,
+        requiredAnyPermissions: ["users.manage"],
+      },
       {
         id: "people",
         label: "Pessoas",
@@ -304,6 +351,13 @@ const navSections: NavSection[] = [
         icon: Users,
         requiredAnyPermissions: ["users.manage"],
       },
+      {
+        id: "audit",
+        label: "Auditoria",
+        href: "/admin/auditoria",
+        icon: ScrollText,
+        requiredAnyPermissions: ["users.manage"],
+      },
       {
         id: "database",
         label: "Base de Dados",
@@ -336,6 +390,24 @@ const getPersonalItems = (openProfile: () => void): NavItem[] => [
     icon: UserCircle2,
     onSelect: openProfile,
   },
+  {
+    id: "sessions",
+    label: "Sessões",
+    href: "/sessoes",
+    icon: MonitorSmartphone,
+  },
+  {
+    id: "api-tokens",
+    label: "Tokens de API",
+    href: "/tokens",
+    icon: KeyRound,
+  },
+  {
+    id: "delegations",
+    label: "Delegações",
+    href: "/delegacoes",
+    icon: Handshake,
+  },
   {
     id: "my-items",
     label: "Meus Itens",
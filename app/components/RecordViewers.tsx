@@ -0,0 +1,80 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Eye } from "lucide-react";
+import axiosInstance from "@/utils/axiosInstance";
+import { useAuth } from "@/app/authContext";
+import { Badge } from "@/components/ui/badge";
+
+type Viewer = { id: string; name: string; since: string };
+
+const PING_INTERVAL_MS = 20000;
+
+/** Shows who else has the same record open, e.g. resource="request:<id>". */
+export default function RecordViewers({ resource }: { resource: string }) {
+  const { isLoggedIn, isAuthLoading } = useAuth();
+  const [viewers, setViewers] = useState<Viewer[]>([]);
+
+  useEffect(() => {
+    if (isAuthLoading || !isLoggedIn || !resource) return;
+    let alive = true;
+
+    const apply = (data: any) => {
+      if (alive) setViewers(Array.isArray(data?.viewers) ? data.viewers : []);
+    };
+    const ping = async () => {
+      try {
+        const res = await axiosInstance.post("/presence/viewers", { resource });
+        apply(res.data);
+      } catch {
+        // ignore
+      }
+    };
+    const refresh = async () => {
+      try {
+        const res = await axiosInstance.get("/presence/viewers", { params: { resource } });
+        apply(res.data);
+      } catch {
+        // ignore
+      }
+    };
+    const leave = () => {
+      void fetch(`/api/presence/viewers?resource=${encodeURIComponent(resource)}`, {
+        method: "DELETE",
+        keepalive: true,
+      }).catch(() => {});
+    };
+
+    void ping();
+    const pingId = window.setInterval(() => void ping(), PING_INTERVAL_MS);
+    const es = new EventSource(`/api/realtime/stream?topics=${encodeURIComponent(resource)}`);
+    const onChanged = () => void refresh();
+    es.addEventListener("presence.viewers_changed", onChanged);
+    es.addEventListener("reset", onChanged);
+    window.addEventListener("pagehide", leave);
+
+    return () => {
+      alive = false;
+      window.clearInterval(pingId);
+      es.removeEventListener("presence.viewers_changed", onChanged);
+      es.removeEventListener("reset", onChanged);
+      es.close();
+      window.removeEventListener("pagehide", leave);
+      leave();
+    };
+  }, [isAuthLoading, isLoggedIn, resource]);
+
+  if (!viewers.length) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+      <Eye className="h-3.5 w-3.5" />
+      <span>Também a ver:</span>
+      {viewers.map((v) => (
+        <Badge key={v.id} variant="outline" className="border-sky-400/40 text-sky-700">
+          {v.name}
+        </Badge>
+      ))}
+    </div>
+  );
+}
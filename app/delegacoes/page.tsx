@@ -0,0 +1,296 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import AuthenticatedLayout from "@/app/components/AuthenticatedLayout";
+import PageHeader from "@/app/components/PageHeader";
+import SectionCard from "@/app/components/SectionCard";
+import { useAuth } from "@/app/authContext";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import axiosInstance from "@/utils/axiosInstance";
+
+type UserRef = { id: string; name: string | null; email?: string };
+
+type DelegationRow = {
+  id: string;
+  permissionKeys: string[];
+  startsAt: string;
+  endsAt: string;
+  note: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  status: "SCHEDULED" | "ACTIVE" | "EXPIRED" | "REVOKED";
+  delegator: UserRef;
+  delegate: UserRef;
+  requestingService: { id: number; codigo: string; designacao: string } | null;
+  createdBy: UserRef | null;
+  revokedBy: UserRef | null;
+};
+
+type PermissionOption = { key: string; name: string };
+type ServiceOption = { id: number; codigo: string; designacao: string };
+
+const SELF = "__self__";
+const ALL_SERVICES = "__all__";
+
+const STATUS_BADGE: Record<DelegationRow["status"], { label: string; variant: "secondary" | "outline" }> = {
+  ACTIVE: { label: "Ativa", variant: "secondary" },
+  SCHEDULED: { label: "Agendada", variant: "outline" },
+  EXPIRED: { label: "Expirada", variant: "outline" },
+  REVOKED: { label: "Revogada", variant: "outline" },
+};
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString("pt-PT", { dateStyle: "short", timeStyle: "short" });
+}
+
+export default function ApprovalDelegationsPage() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const isAdmin = user?.role === "ADMIN";
+
+  const [delegations, setDelegations] = useState<DelegationRow[]>([]);
+  const [tenantDelegations, setTenantDelegations] = useState<DelegationRow[]>([]);
+  const [permissionOptions, setPermissionOptions] = useState<PermissionOption[]>([]);
+  const [users, setUsers] = useState<UserRef[]>([]);
+  const [services, setServices] = useState<ServiceOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const [delegator, setDelegator] = useState(SELF);
+  const [delegate, setDelegate] = useState("");
+  const [permissionKeys, setPermissionKeys] = useState<string[]>([]);
+  const [serviceId, setServiceId] = useState(ALL_SERVICES);
+  const [startsOn, setStartsOn] = useState("");
+  const [endsOn, setEndsOn] = useState("");
+  const [note, setNote] = useState("");
+
+  const showError = (error: any, fallback: string) => {
+    const msg = error?.response?.data?.error || fallback;
+    toast({ title: "Erro", description: msg, variant: "destructive" });
+  };
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const res = await axiosInstance.get("/auth/delegations");
+      setDelegations(Array.isArray(res.data?.delegations) ? res.data.delegations : []);
+      setPermissionOptions(Array.isArray(res.data?.delegablePermissions) ? res.data.delegablePermissions : []);
+      setUsers(Array.isArray(res.data?.users) ? res.data.users : []);
+      setServices(Array.isArray(res.data?.requestingServices) ? res.data.requestingServices : []);
+      if (isAdmin) {
+        const tenantRes = await axiosInstance.get("/admin/rbac/delegations");
+        setTenantDelegations(Array.isArray(tenantRes.data) ? tenantRes.data : []);
+      }
+    } catch (error: any) {
+      showError(error, "Não foi possível carregar as delegações.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void load();
+  }, [isAdmin]);
+
+  const toggle = (list: string[], key: string, checked: boolean) =>
+    checked ? Array.from(new Set([...list, key])) : list.filter((k) => k !== key);
+
+  const createDelegation = async () => {
+    setBusy(true);
+    try {
+      const body = {
+        delegateUserId: delegate,
+        permissionKeys,
+        requestingServiceId: serviceId === ALL_SERVICES ? null : Number(serviceId),
+        startsAt: startsOn ? new Date(`${startsOn}T00:00:00`).toISOString() : null,
+        endsAt: new Date(`${endsOn}T23:59:59`).toISOString(),
+        note: note.trim() || null,
+      };
+      if (delegator === SELF) {
+        await axiosInstance.post("/auth/delegations", body);
+      } else {
+        await axiosInstance.post("/admin/rbac/delegations", { ...body, delegatorUserId: delegator });
+      }
+      setDelegate("");
+      setPermissionKeys([]);
+      setServiceId(ALL_SERVICES);
+      setStartsOn("");
+      setEndsOn("");
+      setNote("");
+      toast({ title: "Delegação criada" });
+      await load();
+    } catch (error: any) {
+      showError(error, "Não foi possível criar a delegação.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revoke = async (row: DelegationRow, asAdmin: boolean) => {
+    const who = row.delegate.name || row.delegate.email || "o delegado";
+    if (!window.confirm(`Revogar a delegação em ${who}? Deixa de poder aprovar em nome do delegante.`)) return;
+    setBusy(true);
+    try {
+      await axiosInstance.delete(asAdmin ? `/admin/rbac/delegations/${row.id}` : `/auth/delegations/${row.id}`);
+      toast({ title: "Delegação revogada" });
+      await load();
+    } catch (error: any) {
+      showError(error, "Não foi possível revogar a delegação.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderDelegations = (rows: DelegationRow[], asAdmin: boolean) =>
+    rows.length ? (
+      <div className="space-y-2">
+        {rows.map((d) => {
+          const status = STATUS_BADGE[d.status];
+          const canRevoke = (asAdmin || d.delegator.id === user?.id) && (d.status === "ACTIVE" || d.status === "SCHEDULED");
+          return (
+            <div
+              key={d.id}
+              className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-border/70 bg-[hsl(var(--surface-1)/0.75)] p-3"
+            >
+              <div className="min-w-0">
+                <div className="flex flex-wrap items-center gap-2 font-medium">
+                  {`${d.delegate.name || d.delegate.email} em nome de ${d.delegator.name || d.delegator.email}`}
+                  <Badge variant={status.variant}>{status.label}</Badge>
+                  {d.requestingService ? <Badge variant="outline">{d.requestingService.codigo}</Badge> : null}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {formatDateTime(d.startsAt)} → {formatDateTime(d.endsAt)}
+                  {d.revokedAt ? ` · Revogada ${formatDateTime(d.revokedAt)}${d.revokedBy ? ` por ${d.revokedBy.name}` : ""}` : ""}
+                </div>
+                <div className="truncate text-xs text-muted-foreground">Permissões: {d.permissionKeys.join(", ")}</div>
+                {d.note ? <div className="text-xs text-muted-foreground">{d.note}</div> : null}
+              </div>
+              {canRevoke ? (
+                <Button size="sm" variant="ghost" onClick={() => void revoke(d, asAdmin)} disabled={busy}>
+                  Revogar
+                </Button>
+              ) : null}
+            </div>
+          );
+        })}
+      </div>
+    ) : (
+      <div className="text-sm text-muted-foreground">{loading ? "A carregar..." : "Sem delegações."}</div>
+    );
+
+  const delegateOptions = users.filter((u) => u.id !== delegator);
+
+  return (
+    <AuthenticatedLayout>
+      <div className="space-y-6">
+        <PageHeader
+          title="Delegações de aprovação"
+          description="Durante ausências, outro utilizador aprova em seu nome até à data de fim."
+          actions={
+            <Button variant="outline" onClick={() => void load()} disabled={loading}>
+              {loading ? "A carregar..." : "Atualizar"}
+            </Button>
+          }
+        />
+
+        {permissionOptions.length ? (
+          <SectionCard
+            title="Nova delegação"
+            description="As aprovações do delegado ficam registadas no workflow como feitas em nome do delegante."
+          >
+            <div className="space-y-3">
+              <div className="grid gap-3 md:grid-cols-3">
+                {isAdmin ? (
+                  <Select value={delegator} onValueChange={setDelegator}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Delegante" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SELF}>Eu próprio</SelectItem>
+                      {users.map((u) => (
+                        <SelectItem key={u.id} value={u.id}>
+                          {u.name || u.email}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : null}
+                <Select value={delegate} onValueChange={setDelegate}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Delegado" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {delegateOptions.map((u) => (
+                      <SelectItem key={u.id} value={u.id}>
+                        {u.name || u.email}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={serviceId} onValueChange={setServiceId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Serviço" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_SERVICES}>Todos os serviços do delegante</SelectItem>
+                    {services.map((s) => (
+                      <SelectItem key={s.id} value={String(s.id)}>
+                        {`${s.codigo} — ${s.designacao}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid gap-3 md:grid-cols-3">
+                <Input type="date" value={startsOn} onChange={(e) => setStartsOn(e.target.value)} />
+                <Input type="date" value={endsOn} onChange={(e) => setEndsOn(e.target.value)} />
+                <Input placeholder="Motivo (ex.: férias)" value={note} onChange={(e) => setNote(e.target.value)} />
+              </div>
+              <div className="text-xs text-muted-foreground">
+                Sem data de início, a delegação começa de imediato. Termina automaticamente no fim do último dia.
+              </div>
+
+              <div className="grid gap-1 md:grid-cols-2 xl:grid-cols-3">
+                {permissionOptions.map((p) => (
+                  <label key={p.key} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={permissionKeys.includes(p.key)}
+                      onCheckedChange={(v) => setPermissionKeys((prev) => toggle(prev, p.key, Boolean(v)))}
+                    />
+                    <span>
+                      {p.name} <span className="font-mono text-xs text-muted-foreground">{p.key}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+
+              <div className="flex justify-end">
+                <Button
+                  onClick={() => void createDelegation()}
+                  disabled={busy || !delegate || !endsOn || !permissionKeys.length}
+                >
+                  Delegar
+                </Button>
+              </div>
+            </div>
+          </SectionCard>
+        ) : null}
+
+        <SectionCard title="As minhas delegações" description="Delegações que concedeu ou que lhe foram concedidas.">
+          {renderDelegations(delegations, false)}
+        </SectionCard>
+
+        {isAdmin ? (
+          <SectionCard title="Todas as delegações da entidade">{renderDelegations(tenantDelegations, true)}</SectionCard>
+        ) : null}
+      </div>
+    </AuthenticatedLayout>
+  );
+}
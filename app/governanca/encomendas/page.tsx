@@ -0,0 +1,237 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "next/navigation";
+
+import AuthenticatedLayout from "@/app/components/AuthenticatedLayout";
+import PageHeader from "@/app/components/PageHeader";
+import SectionCard from "@/app/components/SectionCard";
+import { useAuth } from "@/app/authContext";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import axiosInstance from "@/utils/axiosInstance";
+
+type PurchaseOrderStatus = "DRAFT" | "SENT" | "PARTIALLY_RECEIVED" | "RECEIVED" | "CLOSED" | "CANCELLED";
+type MatchStatus = "PENDING" | "MATCHED" | "DISCREPANCY";
+
+type PurchaseOrderRow = {
+  id: string;
+  number: string;
+  status: PurchaseOrderStatus;
+  source: "MANUAL" | "REQUEST" | "REPLENISHMENT";
+  matchStatus: MatchStatus;
+  matchCheckedAt: string | null;
+  expectedAt: string | null;
+  totalAmount: number;
+  supplier: { id: string; name: string };
+  request: { id: string; gtmiNumber: string } | null;
+  lines: Array<{
+    id: string;
+    quantity: number;
+    receivedQuantity: number;
+    outstandingQuantity: number;
+    unitPrice: number;
+    product: { id: string; name: string; sku: string };
+    invoices: Array<{ id: string; invoiceNumber: string }>;
+  }>;
+  createdAt: string;
+};
+
+const STATUS_LABEL: Record<PurchaseOrderStatus, string> = {
+  DRAFT: "Rascunho",
+  SENT: "Enviada",
+  PARTIALLY_RECEIVED: "Receção parcial",
+  RECEIVED: "Recebida",
+  CLOSED: "Fechada",
+  CANCELLED: "Cancelada",
+};
+
+const MATCH_LABEL: Record<MatchStatus, string> = {
+  PENDING: "Conciliação pendente",
+  MATCHED: "Conciliada",
+  DISCREPANCY: "Divergência",
+};
+
+const SOURCE_LABEL: Record<PurchaseOrderRow["source"], string> = {
+  MANUAL: "Manual",
+  REQUEST: "Requisição",
+  REPLENISHMENT: "Reposição",
+};
+
+export default function GovernancaEncomendasPage() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const searchParams = useSearchParams();
+  const focusId = searchParams?.get("id") ?? null;
+
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [rows, setRows] = useState<PurchaseOrderRow[]>([]);
+
+  const canManage = useMemo(() => {
+    if (user?.role === "ADMIN") return true;
+    const keys = new Set([...(user?.permissions ?? []), ...(user?.permissionGrants ?? []).map((g) => g.key)]);
+    return keys.has("*") || keys.has("purchasing.manage");
+  }, [user?.permissionGrants, user?.permissions, user?.role]);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const response = await axiosInstance.get<PurchaseOrderRow[]>("/purchase-orders");
+      setRows(response.data);
+    } catch (error: any) {
+      toast({ title: "Encomendas", description: error?.response?.data?.error || "Falha ao carregar encomendas.", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    if (!focusId || loading) return;
+    document.getElementById(`po-${focusId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [focusId, loading]);
+
+  const generateFromReplenishment = async () => {
+    setGenerating(true);
+    try {
+      const response = await axiosInstance.post("/purchase-orders/generate", { source: "REPLENISHMENT" });
+      await load();
+      toast({ title: "Encomendas", description: `${response.data?.count ?? 0} encomenda(s) em rascunho criada(s).` });
+    } catch (error: any) {
+      toast({ title: "Encomendas", description: error?.response?.data?.error || "Falha ao gerar encomendas.", variant: "destructive" });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const runAction = async (row: PurchaseOrderRow, action: "SEND" | "CANCEL" | "CLOSE") => {
+    setBusyId(row.id);
+    try {
+      await axiosInstance.patch(`/purchase-orders/${row.id}`, { action });
+      await load();
+    } catch (error: any) {
+      toast({ title: row.number, description: error?.response?.data?.error || "Falha ao atualizar encomenda.", variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const reconcile = async (row: PurchaseOrderRow) => {
+    setBusyId(row.id);
+    try {
+      const response = await axiosInstance.post(`/purchase-orders/${row.id}/reconcile`, {});
+      await load();
+      const status = response.data?.matchStatus as MatchStatus | undefined;
+      toast({
+        title: row.number,
+        description: status ? MATCH_LABEL[status] : "Conciliação concluída.",
+        variant: status === "DISCREPANCY" ? "destructive" : undefined,
+      });
+    } catch (error: any) {
+      toast({ title: row.number, description: error?.response?.data?.error || "Falha na conciliação.", variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <AuthenticatedLayout>
+      <main className="space-y-4 p-4 sm:p-6">
+        <PageHeader title="Encomendas" description="Encomendas a fornecedores, receções parciais e conciliação com faturas." />
+
+        <SectionCard
+          title="Encomendas a fornecedores"
+          description={loading ? "A carregar..." : `${rows.length} registos`}
+          actions={
+            canManage ? (
+              <Button onClick={() => void generateFromReplenishment()} disabled={generating}>
+                {generating ? "A gerar..." : "Gerar da reposição"}
+              </Button>
+            ) : null
+          }
+        >
+          <div className="space-y-2">
+            {rows.map((row) => {
+              const busy = busyId === row.id;
+              return (
+                <div
+                  key={row.id}
+                  id={`po-${row.id}`}
+                  className={`rounded-lg border p-3 ${row.id === focusId ? "border-primary" : "border-border/60"}`}
+                >
+                  <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                    <div>
+                      <div className="font-medium">
+                        {row.number} - {row.supplier.name} - {row.totalAmount.toFixed(2)} EUR
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {SOURCE_LABEL[row.source]}
+                        {row.request ? ` · Requisição ${row.request.gtmiNumber}` : ""}
+                        {row.expectedAt ? ` · Prevista ${new Date(row.expectedAt).toLocaleDateString("pt-PT")}` : ""}
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge>{STATUS_LABEL[row.status]}</Badge>
+                      {row.status !== "DRAFT" && row.status !== "CANCELLED" ? (
+                        <Badge variant={row.matchStatus === "DISCREPANCY" ? "destructive" : "secondary"}>
+                          {MATCH_LABEL[row.matchStatus]}
+                        </Badge>
+                      ) : null}
+                    </div>
+                  </div>
+
+                  <div className="mt-2 space-y-1 text-sm">
+                    {row.lines.map((line) => (
+                      <div key={line.id} className="flex flex-wrap justify-between gap-2 border-t border-border/40 pt-1">
+                        <span>
+                          {line.product.sku} · {line.product.name}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {line.receivedQuantity}/{line.quantity} recebidas · {line.unitPrice.toFixed(2)} EUR
+                          {line.invoices.length ? ` · FT ${line.invoices.map((i) => i.invoiceNumber).join(", ")}` : ""}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+
+                  {canManage ? (
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {row.status === "DRAFT" ? (
+                        <Button size="sm" onClick={() => void runAction(row, "SEND")} disabled={busy}>
+                          Marcar como enviada
+                        </Button>
+                      ) : null}
+                      {row.status === "DRAFT" || row.status === "SENT" ? (
+                        <Button size="sm" variant="outline" onClick={() => void runAction(row, "CANCEL")} disabled={busy}>
+                          Cancelar
+                        </Button>
+                      ) : null}
+                      {row.status === "SENT" || row.status === "PARTIALLY_RECEIVED" || row.status === "RECEIVED" ? (
+                        <Button size="sm" variant="outline" onClick={() => void runAction(row, "CLOSE")} disabled={busy}>
+                          Fechar
+                        </Button>
+                      ) : null}
+                      {row.status !== "DRAFT" && row.status !== "CANCELLED" ? (
+                        <Button size="sm" variant="secondary" onClick={() => void reconcile(row)} disabled={busy}>
+                          Conciliar
+                        </Button>
+                      ) : null}
+                    </div>
+                  ) : null}
+                </div>
+              );
+            })}
+            {!loading && rows.length === 0 ? <div className="text-sm text-muted-foreground">Sem encomendas.</div> : null}
+          </div>
+        </SectionCard>
+      </main>
+    </AuthenticatedLayout>
+  );
+}
@@ -0,0 +1,391 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+
+import AuthenticatedLayout from "@/app/components/AuthenticatedLayout";
+import PageHeader from "@/app/components/PageHeader";
+import SectionCard from "@/app/components/SectionCard";
+import { useAuth } from "@/app/authContext";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import axiosInstance from "@/utils/axiosInstance";
+
+type StocktakeStatus = "OPEN" | "SUBMITTED" | "APPROVED" | "CANCELLED";
+
+type StocktakeRow = {
+  id: string;
+  number: string;
+  status: StocktakeStatus;
+  title: string | null;
+  warehouse: { id: string; code: string; name: string };
+  category: { id: string; name: string } | null;
+  lineCount: number;
+  createdAt: string;
+  approvedAt: string | null;
+};
+
+type StocktakeDetail = {
+  id: string;
+  number: string;
+  status: StocktakeStatus;
+  title: string | null;
+  warehouse: { id: string; code: string; name: string };
+  category: { id: string; name: string } | null;
+  approvedBy: { id: string; name: string } | null;
+  summary: { lineCount: number; countedLineCount: number; varianceLineCount: number; shortage: number; surplus: number };
+  lines: Array<{
+    id: string;
+    product: { id: string; name: string; sku: string };
+    tracksUnits: boolean;
+    expectedQuantity: number;
+    countedQuantity: number | null;
+    variance: number | null;
+    adjustedQuantity: number | null;
+    missingUnitCodes: string[];
+    foundUnitCodes: string[];
+  }>;
+};
+
+type Option = { id: string; name: string; code?: string };
+
+const STATUS_LABEL: Record<StocktakeStatus, string> = {
+  OPEN: "Em contagem",
+  SUBMITTED: "Submetido",
+  APPROVED: "Aprovado",
+  CANCELLED: "Cancelado",
+};
+
+export default function GovernancaInventariosPage() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const selectedId = searchParams?.get("id") ?? null;
+
+  const [loading, setLoading] = useState(true);
+  const [rows, setRows] = useState<StocktakeRow[]>([]);
+  const [detail, setDetail] = useState<StocktakeDetail | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [warehouses, setWarehouses] = useState<Option[]>([]);
+  const [categories, setCategories] = useState<Option[]>([]);
+  const [newWarehouseId, setNewWarehouseId] = useState("");
+  const [newCategoryId, setNewCategoryId] = useState("");
+  const [newTitle, setNewTitle] = useState("");
+
+  const [scanCode, setScanCode] = useState("");
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const { canCount, canApprove } = useMemo(() => {
+    const keys = new Set([...(user?.permissions ?? []), ...(user?.permissionGrants ?? []).map((g) => g.key)]);
+    const isAdmin = user?.role === "ADMIN" || keys.has("*");
+    return {
+      canCount: isAdmin || keys.has("stocktake.count"),
+      canApprove: isAdmin || keys.has("stocktake.approve"),
+    };
+  }, [user?.permissionGrants, user?.permissions, user?.role]);
+
+  const errorToast = (error: any, fallback: string) =>
+    toast({ title: "Inventário", description: error?.response?.data?.error || fallback, variant: "destructive" });
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const response = await axiosInstance.get<StocktakeRow[]>("/stocktakes");
+      setRows(response.data);
+    } catch (error: any) {
+      errorToast(error, "Falha ao carregar inventários.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadDetail = async (id: string) => {
+    try {
+      const response = await axiosInstance.get<StocktakeDetail>(`/stocktakes/${id}`);
+      setDetail(response.data);
+      setDrafts({});
+    } catch (error: any) {
+      setDetail(null);
+      errorToast(error, "Falha ao carregar inventário.");
+    }
+  };
+
+  useEffect(() => {
+    void load();
+    if (!canCount) return;
+    Promise.all([axiosInstance.get("/warehouses"), axiosInstance.get("/categories")])
+      .then(([w, c]) => {
+        setWarehouses((w.data ?? []).filter((row: any) => row.isActive));
+        setCategories(c.data ?? []);
+      })
+      .catch(() => undefined);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [canCount]);
+
+  useEffect(() => {
+    if (selectedId) void loadDetail(selectedId);
+    else setDetail(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedId]);
+
+  const createSession = async () => {
+    setBusy(true);
+    try {
+      const response = await axiosInstance.post<StocktakeDetail>("/stocktakes", {
+        warehouseId: newWarehouseId || null,
+        categoryId: newCategoryId || null,
+        title: newTitle.trim() || null,
+      });
+      setNewTitle("");
+      await load();
+      router.push(`/governanca/inventarios?id=${response.data.id}`);
+    } catch (error: any) {
+      errorToast(error, "Falha ao abrir inventário.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submitCounts = async (entries: Array<Record<string, unknown>>) => {
+    if (!detail) return;
+    setBusy(true);
+    try {
+      const response = await axiosInstance.post<StocktakeDetail>(`/stocktakes/${detail.id}/counts`, { entries });
+      setDetail(response.data);
+      return true;
+    } catch (error: any) {
+      errorToast(error, "Falha ao registar contagem.");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const scan = async () => {
+    const code = scanCode.trim();
+    if (!code) return;
+    if (await submitCounts([{ unitCode: code }])) setScanCode("");
+  };
+
+  const saveBulkCounts = async () => {
+    const entries = Object.entries(drafts)
+      .filter(([, value]) => value.trim() !== "")
+      .map(([productId, value]) => ({ productId, quantity: Number(value) }));
+    if (entries.some((e) => !Number.isInteger(e.quantity) || e.quantity < 0)) {
+      toast({ title: "Inventário", description: "Quantidades têm de ser inteiros ≥ 0.", variant: "destructive" });
+      return;
+    }
+    if (!entries.length) return;
+    if (await submitCounts(entries)) setDrafts({});
+  };
+
+  const transition = async (action: "SUBMIT" | "REOPEN" | "CANCEL") => {
+    if (!detail) return;
+    setBusy(true);
+    try {
+      const response = await axiosInstance.patch<StocktakeDetail>(`/stocktakes/${detail.id}`, { action });
+      setDetail(response.data);
+      await load();
+    } catch (error: any) {
+      errorToast(error, "Falha ao atualizar inventário.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const approve = async () => {
+    if (!detail) return;
+    setBusy(true);
+    try {
+      const response = await axiosInstance.post(`/stocktakes/${detail.id}/approve`, {});
+      setDetail(response.data.session);
+      await load();
+      toast({ title: detail.number, description: `${response.data.movementCount ?? 0} ajuste(s) lançados.` });
+    } catch (error: any) {
+      errorToast(error, "Falha ao aprovar inventário.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const isOpen = detail?.status === "OPEN";
+
+  return (
+    <AuthenticatedLayout>
+      <main className="space-y-4 p-4 sm:p-6">
+        <PageHeader
+          title="Inventário físico"
+          description="Sessões de contagem por armazém e categoria, relatório de divergências e aprovação de ajustes."
+        />
+
+        {canCount ? (
+          <SectionCard title="Novo inventário" description="As quantidades esperadas são fixadas no momento da abertura.">
+            <div className="grid gap-2 md:grid-cols-4">
+              <select
+                className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                value={newWarehouseId}
+                onChange={(e) => setNewWarehouseId(e.target.value)}
+              >
+                <option value="">Armazém principal</option>
+                {warehouses.map((w) => (
+                  <option key={w.id} value={w.id}>
+                    {w.code} · {w.name}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                value={newCategoryId}
+                onChange={(e) => setNewCategoryId(e.target.value)}
+              >
+                <option value="">Todas as categorias</option>
+                {categories.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+              </select>
+              <Input placeholder="Título (opcional)" value={newTitle} onChange={(e) => setNewTitle(e.target.value)} />
+              <Button onClick={() => void createSession()} disabled={busy}>
+                Abrir inventário
+              </Button>
+            </div>
+          </SectionCard>
+        ) : null}
+
+        <SectionCard title="Sessões" description={loading ? "A carregar..." : `${rows.length} registos`}>
+          <div className="space-y-2">
+            {rows.map((row) => (
+              <button
+                key={row.id}
+                type="button"
+                onClick={() => router.push(`/governanca/inventarios?id=${row.id}`)}
+                className={`flex w-full flex-wrap items-center justify-between gap-2 rounded-lg border p-3 text-left ${
+                  row.id === selectedId ? "border-primary" : "border-border/60"
+                }`}
+              >
+                <div>
+                  <div className="font-medium">
+                    {row.number}
+                    {row.title ? ` - ${row.title}` : ""}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {row.warehouse.name}
+                    {row.category ? ` · ${row.category.name}` : ""} · {row.lineCount} produto(s) ·{" "}
+                    {new Date(row.createdAt).toLocaleDateString("pt-PT")}
+                  </div>
+                </div>
+                <Badge variant={row.status === "CANCELLED" ? "secondary" : "default"}>{STATUS_LABEL[row.status]}</Badge>
+              </button>
+            ))}
+            {!loading && rows.length === 0 ? <div className="text-sm text-muted-foreground">Sem inventários.</div> : null}
+          </div>
+        </SectionCard>
+
+        {detail ? (
+          <SectionCard
+            title={`${detail.number} · ${detail.warehouse.name}`}
+            description={`${detail.summary.countedLineCount}/${detail.summary.lineCount} contados · ${detail.summary.varianceLineCount} com divergência · falta ${-detail.summary.shortage} · excesso ${detail.summary.surplus}`}
+            actions={
+              <div className="flex flex-wrap gap-2">
+                {isOpen && canCount ? (
+                  <Button size="sm" onClick={() => void transition("SUBMIT")} disabled={busy}>
+                    Submeter
+                  </Button>
+                ) : null}
+                {detail.status === "SUBMITTED" && canApprove ? (
+                  <Button size="sm" onClick={() => void approve()} disabled={busy}>
+                    Aprovar e lançar ajustes
+                  </Button>
+                ) : null}
+                {detail.status === "SUBMITTED" && (canCount || canApprove) ? (
+                  <Button size="sm" variant="outline" onClick={() => void transition("REOPEN")} disabled={busy}>
+                    Reabrir contagem
+                  </Button>
+                ) : null}
+                {(isOpen || detail.status === "SUBMITTED") && canCount ? (
+                  <Button size="sm" variant="outline" onClick={() => void transition("CANCEL")} disabled={busy}>
+                    Cancelar
+                  </Button>
+                ) : null}
+              </div>
+            }
+          >
+            {isOpen && canCount ? (
+              <div className="mb-3 flex flex-wrap gap-2">
+                <Input
+                  className="max-w-md"
+                  placeholder="Ler ou digitar código da unidade"
+                  value={scanCode}
+                  onChange={(e) => setScanCode(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      void scan();
+                    }
+                  }}
+                />
+                <Button variant="outline" onClick={() => void scan()} disabled={busy || !scanCode.trim()}>
+                  Registar unidade
+                </Button>
+                <Button onClick={() => void saveBulkCounts()} disabled={busy || !Object.keys(drafts).length}>
+                  Guardar quantidades
+                </Button>
+              </div>
+            ) : null}
+
+            <div className="space-y-1 text-sm">
+              {detail.lines.map((line) => {
+                const variance = line.variance ?? 0;
+                return (
+                  <div key={line.id} className="flex flex-wrap items-center justify-between gap-2 border-t border-border/40 pt-1">
+                    <div>
+                      <div>
+                        {line.product.sku} · {line.product.name}
+                      </div>
+                      {line.missingUnitCodes.length || line.foundUnitCodes.length ? (
+                        <div className="text-xs text-muted-foreground">
+                          {line.missingUnitCodes.length ? `Em falta: ${line.missingUnitCodes.join(", ")}` : ""}
+                          {line.missingUnitCodes.length && line.foundUnitCodes.length ? " · " : ""}
+                          {line.foundUnitCodes.length ? `Encontradas: ${line.foundUnitCodes.join(", ")}` : ""}
+                        </div>
+                      ) : null}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-muted-foreground">Esperado {line.expectedQuantity}</span>
+                      {isOpen && canCount && !line.tracksUnits ? (
+                        <Input
+                          className="h-8 w-24"
+                          type="number"
+                          min={0}
+                          placeholder={line.countedQuantity === null ? "Contado" : String(line.countedQuantity)}
+                          value={drafts[line.product.id] ?? ""}
+                          onChange={(e) => setDrafts((prev) => ({ ...prev, [line.product.id]: e.target.value }))}
+                        />
+                      ) : (
+                        <span>Contado {line.countedQuantity ?? "—"}</span>
+                      )}
+                      {line.variance !== null ? (
+                        <Badge variant={variance === 0 ? "secondary" : "destructive"}>
+                          {variance > 0 ? `+${variance}` : variance}
+                        </Badge>
+                      ) : null}
+                      {line.adjustedQuantity !== null && line.adjustedQuantity !== 0 ? (
+                        <span className="text-xs text-muted-foreground">Ajuste {line.adjustedQuantity}</span>
+                      ) : null}
+                    </div>
+                  </div>
+                );
+              })}
+              {detail.lines.length === 0 ? <div className="text-muted-foreground">Sem produtos no âmbito deste inventário.</div> : null}
+            </div>
+          </SectionCard>
+        ) : null}
+      </main>
+    </AuthenticatedLayout>
+  );
+}
@@ -53,6 +53,49 @@ type MetaPayload = {
   } | null;
 };
 
+type BalanceGroup = {
+  key: string;
+  label: string;
+  assetCount: number;
+  acquisitionValue: number;
+  depreciation: number;
+  accumulatedDepreciation: number;
+  netBookValue: number;
+};
+
+type PatrimonialBalance = {
+  year: number;
+  totals: Omit<BalanceGroup, "key" | "label"> & { unvaluedAssets: number; incompleteAssets: number };
+  byClass: BalanceGroup[];
+  byService: BalanceGroup[];
+  postedRun: { id: string; createdAt: string; depreciationTotal: number } | null;
+};
+
+type AssetImportReport = {
+  dryRun: boolean;
+  mapping: Record<string, string>;
+  totalRows: number;
+  errorRows: number;
+  toCreate: number;
+  newLocations: string[];
+  rows: Array<{ row: number; key: string; errors: string[]; warnings: string[] }>;
+};
+
+type DepreciationRun = {
+  id: string;
+  year: number;
+  status: "POSTED" | "SUPERSEDED";
+  assetCount: number;
+  depreciationTotal: number;
+  netBookValueTotal: number;
+  createdAt: string;
+  createdBy: { id: string; name: string } | null;
+};
+
+function formatEur(value: number) {
+  return value.toLocaleString("pt-PT", { style: "currency", currency: "EUR", maximumFractionDigits: 2 });
+}
+
 const STATUS_OPTIONS = [
   "REGISTERED",
   "IN_SERVICE",
@@ -137,6 +180,13 @@ export default function GovernancaPatrimonioPage() {
   const [disposeReasonCode, setDisposeReasonCode] = useState("");
   const [disposeReasonDetail, setDisposeReasonDetail] = useState("");
 
+  const [balanceYear, setBalanceYear] = useState(() => String(new Date().getFullYear()));
+  const [balance, setBalance] = useState<PatrimonialBalance | null>(null);
+  const [depreciationRuns, setDepreciationRuns] = useState<DepreciationRun[]>([]);
+
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importReport, setImportReport] = useState<AssetImportReport | null>(null);
+
   const selectedCreateClass = useMemo(
     () => meta.classes.find((c) => c.id === createClassId) ?? null,
     [meta.classes, createClassId]
@@ -212,6 +262,68 @@ export default function GovernancaPatrimonioPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const loadBalance = async (year: number) => {
+    try {
+      const [report, runs] = await Promise.all([
+        axiosInstance.get<{ patrimonialBalance: PatrimonialBalance }>("/governanca/assets/reports", { params: { year } }),
+        axiosInstance.get<DepreciationRun[]>("/governanca/assets/depreciation-runs"),
+      ]);
+      setBalance(report.data.patrimonialBalance);
+      setDepreciationRuns(runs.data || []);
+    } catch {
+      setBalance(null);
+    }
+  };
+
+  useEffect(() => {
+    const year = Number(balanceYear);
+    if (!Number.isInteger(year) || year < 1990 || year > 2100) return;
+    const handle = setTimeout(() => void loadBalance(year), 300);
+    return () => clearTimeout(handle);
+  }, [balanceYear]);
+
+  const postDepreciation = async () => {
+    setSaving(true);
+    try {
+      const response = await axiosInstance.post<DepreciationRun>("/governanca/assets/depreciation-runs", {
+        year: Number(balanceYear),
+      });
+      toast({
+        title: "Amortizações",
+        description: `${response.data.year}: ${response.data.assetCount} bem(ns), ${formatEur(response.data.depreciationTotal)}.`,
+      });
+      await loadBalance(Number(balanceYear));
+    } catch (error: any) {
+      toast({ title: "Amortizações", description: error?.response?.data?.error || "Não foi possível lançar amortizações.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const runAssetImport = async (dryRun: boolean) => {
+    if (!importFile) return;
+    const fd = new FormData();
+    fd.append("file", importFile);
+    fd.append("dryRun", dryRun ? "1" : "0");
+    setSaving(true);
+    try {
+      const res = await fetch("/api/governanca/assets/import", { method: "POST", body: fd, credentials: "include" });
+      const data = await res.json().catch(() => ({}));
+      if (data?.rows) setImportReport(data);
+      if (!res.ok) throw new Error(data?.error || "Falha na importação");
+      if (!dryRun) {
+        toast({ title: "Importação de cadastro", description: `${data.toCreate} bem(ns) registado(s).` });
+        setImportFile(null);
+        setImportReport(null);
+        await load();
+      }
+    } catch (error: any) {
+      toast({ title: "Importação de cadastro", description: error?.message || "Não foi possível importar.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const createAsset = async () => {
     setSaving(true);
     try {
@@ -613,6 +725,60 @@ export default function GovernancaPatrimonioPage() {
           ) : null}
         </SectionCard>
 
+        <SectionCard
+          title="Importação de Cadastro"
+          description="Folha CSV/XLSX do inventário antigo: classe, serviço e localização por código; localizações em falta são criadas (ex.: Edifício > Piso 1 > Sala 3)."
+          actions={
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => void runAssetImport(true)} disabled={saving || !importFile}>
+                Validar
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => void runAssetImport(false)}
+                disabled={saving || !importFile || !importReport || importReport.errorRows > 0}
+              >
+                Importar
+              </Button>
+            </div>
+          }
+        >
+          <Input
+            type="file"
+            accept=".csv,.xlsx"
+            className="max-w-md"
+            onChange={(e) => {
+              setImportFile(e.target.files?.[0] ?? null);
+              setImportReport(null);
+            }}
+          />
+          {importReport ? (
+            <div className="mt-3 space-y-2 text-sm">
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary">{importReport.totalRows} linha(s)</Badge>
+                <Badge variant="secondary">{importReport.toCreate} a registar</Badge>
+                <Badge variant={importReport.errorRows ? "destructive" : "secondary"}>{importReport.errorRows} com erros</Badge>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                Colunas reconhecidas: {Object.entries(importReport.mapping).map(([key, header]) => `${header} → ${key}`).join(", ") || "nenhuma"}
+              </div>
+              {importReport.newLocations.length ? (
+                <div className="text-xs text-muted-foreground">Localizações a criar: {importReport.newLocations.join("; ")}</div>
+              ) : null}
+              {importReport.rows
+                .filter((row) => row.errors.length || row.warnings.length)
+                .slice(0, 200)
+                .map((row) => (
+                  <div key={row.row} className="border-t border-border/40 pt-1 text-xs">
+                    <span className="font-medium">Linha {row.row}{row.key ? ` (${row.key})` : ""}:</span>{" "}
+                    <span className="text-rose-600">{row.errors.join("; ")}</span>
+                    {row.warnings.length ? <span className="text-amber-600"> {row.warnings.join("; ")}</span> : null}
+                  </div>
+                ))}
+            </div>
+          ) : null}
+        </SectionCard>
+
         <SectionCard title="Movimento Administrativo" description="Afetação, transferência, empréstimo e reparação">
           <div className="grid gap-3 md:grid-cols-3">
             <div className="space-y-1.5">
@@ -698,6 +864,76 @@ export default function GovernancaPatrimonioPage() {
           <div className="mt-3"><Button onClick={() => void openDisposal()} disabled={saving}>Abrir processo de abate</Button></div>
         </SectionCard>
 
+        <SectionCard
+          title="Amortizações e Balanço Patrimonial"
+          description="Quotas constantes (STRAIGHT_LINE) por mês completo; valores a 31 de dezembro do ano."
+          actions={
+            <Button size="sm" onClick={() => void postDepreciation()} disabled={saving}>
+              Lançar amortizações {balanceYear}
+            </Button>
+          }
+        >
+          <div className="mb-3 flex flex-wrap items-center gap-2">
+            <Label>Ano</Label>
+            <Input className="w-28" type="number" value={balanceYear} onChange={(e) => setBalanceYear(e.target.value)} />
+            {balance?.postedRun ? (
+              <Badge variant="secondary">Lançado em {new Date(balance.postedRun.createdAt).toLocaleDateString("pt-PT")}</Badge>
+            ) : (
+              <Badge variant="outline">Por lançar</Badge>
+            )}
+          </div>
+          {balance ? (
+            <div className="space-y-3 text-sm">
+              <div className="grid gap-2 md:grid-cols-4">
+                <div>Valor de aquisição: <span className="font-medium">{formatEur(balance.totals.acquisitionValue)}</span></div>
+                <div>Amortização do ano: <span className="font-medium">{formatEur(balance.totals.depreciation)}</span></div>
+                <div>Amortização acumulada: <span className="font-medium">{formatEur(balance.totals.accumulatedDepreciation)}</span></div>
+                <div>Valor líquido: <span className="font-medium">{formatEur(balance.totals.netBookValue)}</span></div>
+              </div>
+              {balance.totals.unvaluedAssets || balance.totals.incompleteAssets ? (
+                <div className="text-xs text-muted-foreground">
+                  {balance.totals.unvaluedAssets} bem(ns) sem valor de aquisição; {balance.totals.incompleteAssets} com dados de amortização
+                  incompletos (data ou vida útil).
+                </div>
+              ) : null}
+              <div className="grid gap-3 md:grid-cols-2">
+                {[
+                  { title: "Por classe", rows: balance.byClass },
+                  { title: "Por serviço", rows: balance.byService },
+                ].map((group) => (
+                  <div key={group.title} className="space-y-1">
+                    <div className="font-medium">{group.title}</div>
+                    {group.rows.map((row) => (
+                      <div key={row.key} className="flex justify-between gap-2 border-t border-border/40 pt-1">
+                        <span>{row.label} ({row.assetCount})</span>
+                        <span>{formatEur(row.netBookValue)}</span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+              {depreciationRuns.length ? (
+                <div className="space-y-1">
+                  <div className="font-medium">Histórico de lançamentos</div>
+                  {depreciationRuns.slice(0, 10).map((run) => (
+                    <div key={run.id} className="flex flex-wrap justify-between gap-2 text-xs text-muted-foreground">
+                      <span>
+                        {run.year} · {new Date(run.createdAt).toLocaleString("pt-PT")} · {run.createdBy?.name || "—"}
+                      </span>
+                      <span>
+                        {run.assetCount} bem(ns) · {formatEur(run.depreciationTotal)}{" "}
+                        {run.status === "SUPERSEDED" ? <Badge variant="outline">Substituído</Badge> : null}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+            </div>
+          ) : (
+            <div className="text-sm text-muted-foreground">Sem dados.</div>
+          )}
+        </SectionCard>
+
         <SectionCard title="Inventário Patrimonial" description={loading ? "A carregar..." : `${filteredRows.length} ativo(s)`}>
           <div className="mb-3 grid gap-3 md:grid-cols-[1fr_auto]">
             <Input placeholder="Pesquisar por código, nome, produto, classe, série..." value={search} onChange={(e) => setSearch(e.target.value)} />
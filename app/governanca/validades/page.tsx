@@ -0,0 +1,177 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+import AuthenticatedLayout from "@/app/components/AuthenticatedLayout";
+import PageHeader from "@/app/components/PageHeader";
+import SectionCard from "@/app/components/SectionCard";
+import { useAuth } from "@/app/authContext";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import axiosInstance from "@/utils/axiosInstance";
+
+type ExpiringLot = {
+  id: string;
+  lotNumber: string;
+  expiresAt: string;
+  quantity: number;
+  expired: boolean;
+  daysToExpiry: number;
+  product: { id: string; name: string; sku: string };
+  warehouse: { id: string; code: string; name: string };
+};
+
+type ExpiringReport = {
+  days: number;
+  generatedAt: string;
+  expiredCount: number;
+  expiringCount: number;
+  expiredQuantity: number;
+  items: ExpiringLot[];
+};
+
+type Option = { id: string; name: string; code?: string };
+
+export default function GovernancaValidadesPage() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const isAdmin = user?.role === "ADMIN";
+
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [report, setReport] = useState<ExpiringReport | null>(null);
+  const [days, setDays] = useState("30");
+  const [warehouseId, setWarehouseId] = useState("");
+  const [warehouses, setWarehouses] = useState<Option[]>([]);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const response = await axiosInstance.get<ExpiringReport>("/lots/expiring", {
+        params: { days: Number(days) || 0, warehouseId: warehouseId || undefined },
+      });
+      setReport(response.data);
+    } catch (error: any) {
+      toast({
+        title: "Validades",
+        description: error?.response?.data?.error || "Falha ao carregar lotes.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    axiosInstance
+      .get("/warehouses")
+      .then((response) => setWarehouses((response.data ?? []).filter((row: any) => row.isActive)))
+      .catch(() => undefined);
+  }, []);
+
+  useEffect(() => {
+    const handle = setTimeout(() => void load(), 250);
+    return () => clearTimeout(handle);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [days, warehouseId]);
+
+  const runAlerts = async () => {
+    setBusy(true);
+    try {
+      const response = await axiosInstance.post("/lots/expiry-alerts", { days: Number(days) || 0 });
+      toast({
+        title: "Validades",
+        description: response.data.alerted
+          ? `${response.data.alerted} lote(s) notificados.`
+          : "Sem lotes novos para notificar.",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Validades",
+        description: error?.response?.data?.error || "Falha ao enviar alertas.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <AuthenticatedLayout>
+      <main className="space-y-4 p-4 sm:p-6">
+        <PageHeader
+          title="Validades"
+          description="Lotes em stock expirados ou a expirar, por ordem de validade."
+        />
+
+        <SectionCard
+          title="Lotes a expirar"
+          description={
+            loading || !report
+              ? "A carregar..."
+              : `${report.expiredCount} expirado(s) (${report.expiredQuantity} un.) · ${report.expiringCount} a expirar em ${report.days} dia(s)`
+          }
+          actions={
+            isAdmin ? (
+              <Button size="sm" variant="outline" onClick={() => void runAlerts()} disabled={busy}>
+                Notificar administradores
+              </Button>
+            ) : null
+          }
+        >
+          <div className="mb-3 flex flex-wrap gap-2">
+            <Input
+              className="w-32"
+              type="number"
+              min={0}
+              max={365}
+              value={days}
+              onChange={(e) => setDays(e.target.value)}
+              placeholder="Dias"
+            />
+            <select
+              className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+              value={warehouseId}
+              onChange={(e) => setWarehouseId(e.target.value)}
+            >
+              <option value="">Todos os armazéns</option>
+              {warehouses.map((w) => (
+                <option key={w.id} value={w.id}>
+                  {w.code} · {w.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-1 text-sm">
+            {(report?.items ?? []).map((lot) => (
+              <div key={lot.id} className="flex flex-wrap items-center justify-between gap-2 border-t border-border/40 pt-1">
+                <div>
+                  <Link href={`/products/${lot.product.id}`} className="font-medium hover:underline">
+                    {lot.product.sku} · {lot.product.name}
+                  </Link>
+                  <div className="text-xs text-muted-foreground">
+                    Lote {lot.lotNumber} · {lot.warehouse.name}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span>{lot.quantity} un.</span>
+                  <span className="text-muted-foreground">{new Date(lot.expiresAt).toLocaleDateString("pt-PT")}</span>
+                  <Badge variant={lot.expired ? "destructive" : "secondary"}>
+                    {lot.expired ? "Expirado" : `${lot.daysToExpiry} dia(s)`}
+                  </Badge>
+                </div>
+              </div>
+            ))}
+            {!loading && !report?.items.length ? (
+              <div className="text-muted-foreground">Sem lotes a expirar neste período.</div>
+            ) : null}
+          </div>
+        </SectionCard>
+      </main>
+    </AuthenticatedLayout>
+  );
+}
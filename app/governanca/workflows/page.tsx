@@ -0,0 +1,825 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+
+import AuthenticatedLayout from "@/app/components/AuthenticatedLayout";
+import PageHeader from "@/app/components/PageHeader";
+import SectionCard from "@/app/components/SectionCard";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import axiosInstance from "@/utils/axiosInstance";
+import { useAuth } from "@/app/authContext";
+import { GUARD_FIELDS, describeWorkflowGuard, workflowGuardSchema, type WorkflowGuard } from "@/utils/workflowGuards";
+import { describeWorkflowQuorum, workflowQuorumSchema, type WorkflowQuorum } from "@/utils/workflowQuorum";
+
+type DefinitionStatus = "DRAFT" | "ACTIVE" | "RETIRED";
+
+type DefinitionSummary = {
+  id: string;
+  key: string;
+  name: string;
+  targetType: string;
+  version: number;
+  isActive: boolean;
+  publishedAt: string | null;
+  status: DefinitionStatus;
+  inFlightInstances: number;
+};
+
+type StateRow = {
+  code: string;
+  name: string;
+  sortOrder: number;
+  isInitial: boolean;
+  isTerminal: boolean;
+  requestStatus: string | null;
+  targetStatus: string | null;
+  quorum: WorkflowQuorum | null;
+  // Editor-only: the quorum as typed, parsed when the draft is saved.
+  quorumText?: string;
+};
+
+type TransitionRow = {
+  from: string;
+  to: string;
+  action: string;
+  requiredPermission: string | null;
+  priority: number;
+  guard: WorkflowGuard | null;
+  // Editor-only: the guard as typed, parsed when the draft is saved.
+  guardText?: string;
+};
+
+type Graph = { name: string; states: StateRow[]; transitions: TransitionRow[] };
+
+type Issue = { code: string; message: string };
+
+type DefinitionDetail = {
+  id: string;
+  key: string;
+  targetType: string;
+  version: number;
+  status: DefinitionStatus;
+  graph: Graph;
+  validation: { errors: Issue[]; warnings: Issue[] };
+  inFlightElsewhere: Array<{ stateCode: string; count: number }>;
+  statusOptions: string[];
+  permissions: Array<{ key: string; name: string }>;
+};
+
+const STATUS_COLUMN_LABELS: Record<string, string> = {
+  REQUEST: "Estado da requisição",
+  MUNICIPAL_ASSET: "Estado do bem",
+  FINANCE_PROCESS: "Estado do processo",
+};
+
+const STATUS_LABELS: Record<DefinitionStatus, string> = {
+  DRAFT: "Rascunho",
+  ACTIVE: "Ativa",
+  RETIRED: "Retirada",
+};
+
+const NONE = "__none__";
+
+const GUARD_EXAMPLE = '{"field":"estimatedTotal","op":"gt","value":5000}';
+const QUORUM_EXAMPLE = '{"action":"APPROVE","required":2,"approvers":[{"roleKey":"CHEFIA"},{"roleKey":"IT_HEAD"}]}';
+
+function parseGuardText(text: string): { guard: WorkflowGuard | null; error: string | null } {
+  if (!text.trim()) return { guard: null, error: null };
+  try {
+    const parsed = workflowGuardSchema.safeParse(JSON.parse(text));
+    return parsed.success ? { guard: parsed.data, error: null } : { guard: null, error: parsed.error.issues[0]?.message ?? "Condição inválida" };
+  } catch {
+    return { guard: null, error: "JSON inválido" };
+  }
+}
+
+function parseQuorumText(text: string): { quorum: WorkflowQuorum | null; error: string | null } {
+  if (!text.trim()) return { quorum: null, error: null };
+  try {
+    const parsed = workflowQuorumSchema.safeParse(JSON.parse(text));
+    return parsed.success ? { quorum: parsed.data, error: null } : { quorum: null, error: parsed.error.issues[0]?.message ?? "Quórum inválido" };
+  } catch {
+    return { quorum: null, error: "JSON inválido" };
+  }
+}
+
+export default function GovernancaWorkflowsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [definitions, setDefinitions] = useState<DefinitionSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<DefinitionDetail | null>(null);
+  const [graph, setGraph] = useState<Graph | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [instanceMode, setInstanceMode] = useState<"PIN" | "MIGRATE">("PIN");
+  const [stateMapping, setStateMapping] = useState<Record<string, string>>({});
+
+  const permissionSet = useMemo(() => {
+    const direct = user?.permissions ?? [];
+    const scoped = (user?.permissionGrants ?? []).map((g) => g.key);
+    return new Set<string>([...direct, ...scoped]);
+  }, [user?.permissionGrants, user?.permissions]);
+
+  const canAccess = permissionSet.has("*") || permissionSet.has("users.manage");
+  const editable = detail?.status === "DRAFT";
+
+  function showError(error: any, fallback: string) {
+    toast({
+      title: "Workflows",
+      description: error?.response?.data?.error || fallback,
+      variant: "destructive",
+    });
+  }
+
+  async function loadList(preferId?: string | null) {
+    setLoading(true);
+    try {
+      const response = await axiosInstance.get<{ definitions: DefinitionSummary[] }>("/admin/workflows");
+      setDefinitions(response.data.definitions);
+      const fallback =
+        response.data.definitions.find((d) => d.status === "DRAFT") ??
+        response.data.definitions.find((d) => d.status === "ACTIVE") ??
+        response.data.definitions[0];
+      const next = response.data.definitions.find((d) => d.id === preferId) ?? fallback;
+      if (next) await loadDetail(next.id);
+    } catch (error: any) {
+      showError(error, "Falha ao carregar workflows.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function loadDetail(id: string) {
+    try {
+      const response = await axiosInstance.get<DefinitionDetail>(`/admin/workflows/${id}`);
+      setSelectedId(id);
+      setDetail(response.data);
+      setGraph({
+        ...response.data.graph,
+        states: response.data.graph.states.map((st) => ({
+          ...st,
+          quorumText: st.quorum ? JSON.stringify(st.quorum) : "",
+        })),
+        transitions: response.data.graph.transitions.map((t) => ({
+          ...t,
+          guardText: t.guard ? JSON.stringify(t.guard) : "",
+        })),
+      });
+      setDirty(false);
+      setStateMapping({});
+    } catch (error: any) {
+      showError(error, "Falha ao carregar a versão.");
+    }
+  }
+
+  useEffect(() => {
+    if (!canAccess) {
+      setLoading(false);
+      return;
+    }
+    void loadList();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [canAccess]);
+
+  function updateGraph(mutate: (current: Graph) => Graph) {
+    setGraph((current) => (current ? mutate(current) : current));
+    setDirty(true);
+  }
+
+  function updateState(index: number, patch: Partial<StateRow>) {
+    updateGraph((g) => {
+      const previous = g.states[index];
+      const states = g.states.map((s, i) => (i === index ? { ...s, ...patch } : s));
+      // Renaming a state code carries its transitions along.
+      const renamed = patch.code !== undefined && patch.code !== previous.code;
+      const transitions = renamed
+        ? g.transitions.map((t) => ({
+            ...t,
+            from: t.from === previous.code ? (patch.code as string) : t.from,
+            to: t.to === previous.code ? (patch.code as string) : t.to,
+          }))
+        : g.transitions;
+      return { ...g, states, transitions };
+    });
+  }
+
+  function updateTransition(index: number, patch: Partial<TransitionRow>) {
+    updateGraph((g) => ({ ...g, transitions: g.transitions.map((t, i) => (i === index ? { ...t, ...patch } : t)) }));
+  }
+
+  async function createDraft(fromDefinitionId: string) {
+    setBusy(true);
+    try {
+      const response = await axiosInstance.post<{ id: string }>("/admin/workflows", { fromDefinitionId });
+      toast({ title: "Workflows", description: "Rascunho criado." });
+      await loadList(response.data.id);
+    } catch (error: any) {
+      if (error?.response?.data?.draftId) {
+        await loadDetail(error.response.data.draftId);
+      }
+      showError(error, "Falha ao criar rascunho.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function saveDraft() {
+    if (!detail || !graph) return;
+    const states: StateRow[] = [];
+    for (const { quorumText, ...st } of graph.states) {
+      const { quorum, error } = parseQuorumText(quorumText ?? "");
+      if (error) {
+        toast({ title: "Workflows", description: `Quórum inválido em ${st.code}: ${error}`, variant: "destructive" });
+        return;
+      }
+      states.push({ ...st, quorum });
+    }
+    const transitions: TransitionRow[] = [];
+    for (const { guardText, ...t } of graph.transitions) {
+      const { guard, error } = parseGuardText(guardText ?? "");
+      if (error) {
+        toast({
+          title: "Workflows",
+          description: `Condição inválida em ${t.from} → ${t.action}: ${error}`,
+          variant: "destructive",
+        });
+        return;
+      }
+      transitions.push({ ...t, guard });
+    }
+    setBusy(true);
+    try {
+      await axiosInstance.put(`/admin/workflows/${detail.id}`, { ...graph, states, transitions });
+      toast({ title: "Workflows", description: "Rascunho guardado." });
+      await loadDetail(detail.id);
+    } catch (error: any) {
+      showError(error, "Falha ao guardar rascunho.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function discardDraft() {
+    if (!detail) return;
+    if (!window.confirm(`Eliminar o rascunho da versão ${detail.version}?`)) return;
+    setBusy(true);
+    try {
+      await axiosInstance.delete(`/admin/workflows/${detail.id}`);
+      toast({ title: "Workflows", description: "Rascunho eliminado." });
+      await loadList();
+    } catch (error: any) {
+      showError(error, "Falha ao eliminar rascunho.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function publish() {
+    if (!detail) return;
+    const summary =
+      instanceMode === "MIGRATE"
+        ? "Os processos em curso passam para a nova versão."
+        : "Os processos em curso terminam na versão em que começaram.";
+    if (!window.confirm(`Publicar a versão ${detail.version}? ${summary}`)) return;
+    setBusy(true);
+    try {
+      const mapping = Object.fromEntries(Object.entries(stateMapping).filter(([, to]) => to && to !== NONE));
+      const response = await axiosInstance.post<{ version: number; migrated: number }>(
+        `/admin/workflows/${detail.id}/publish`,
+        { instances: instanceMode, stateMapping: mapping }
+      );
+      toast({
+        title: "Workflows",
+        description: `Versão ${response.data.version} publicada${
+          instanceMode === "MIGRATE" ? ` (${response.data.migrated} processos migrados)` : ""
+        }.`,
+      });
+      await loadList(detail.id);
+    } catch (error: any) {
+      showError(error, "Falha ao publicar.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const stateCodes = useMemo(() => (graph?.states ?? []).map((s) => s.code).filter(Boolean), [graph?.states]);
+
+  function renderStateSelect(value: string, onChange: (code: string) => void) {
+    return (
+      <Select value={value} disabled={!editable} onValueChange={onChange}>
+        <SelectTrigger className="h-9 w-48 font-mono">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {stateCodes.map((code) => (
+            <SelectItem key={code} value={code}>
+              {code}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  function renderGuardEditor(t: TransitionRow, index: number) {
+    const text = t.guardText ?? "";
+    const { guard, error } = parseGuardText(text);
+    return (
+      <div className="space-y-1">
+        <Textarea
+          className="min-h-[38px] font-mono text-xs"
+          rows={1}
+          value={text}
+          placeholder={editable ? GUARD_EXAMPLE : "Sem condição"}
+          disabled={!editable}
+          onChange={(e) => updateTransition(index, { guardText: e.target.value })}
+        />
+        {error ? (
+          <div className="text-xs text-destructive">{error}</div>
+        ) : guard ? (
+          <div className="text-xs text-muted-foreground">Só se: {describeWorkflowGuard(guard)}</div>
+        ) : null}
+      </div>
+    );
+  }
+
+  function renderQuorumEditor(s: StateRow, index: number) {
+    const text = s.quorumText ?? "";
+    const { quorum, error } = parseQuorumText(text);
+    return (
+      <div className="space-y-1">
+        <Textarea
+          className="min-h-[38px] font-mono text-xs"
+          rows={1}
+          value={text}
+          placeholder={editable ? QUORUM_EXAMPLE : "Aprovação individual"}
+          disabled={!editable}
+          onChange={(e) => updateState(index, { quorumText: e.target.value })}
+        />
+        {error ? (
+          <div className="text-xs text-destructive">{error}</div>
+        ) : quorum ? (
+          <div className="text-xs text-muted-foreground">Quórum: {describeWorkflowQuorum(quorum)}</div>
+        ) : null}
+      </div>
+    );
+  }
+
+  if (!canAccess) {
+    return (
+      <AuthenticatedLayout>
+        <main className="space-y-4 p-4 sm:p-6">
+          <PageHeader title="Workflows" description="Apenas administradores podem editar workflows." />
+        </main>
+      </AuthenticatedLayout>
+    );
+  }
+
+  return (
+    <AuthenticatedLayout>
+      <main className="space-y-4 p-4 sm:p-6">
+        <PageHeader
+          title="Workflows"
+          description="Edita estados e transições numa nova versão e publica-a quando estiver válida."
+        />
+
+        <SectionCard title="Versões" description="Cada processo segue a versão em que começou, salvo migração na publicação.">
+          {loading ? (
+            <div className="text-sm text-muted-foreground">A carregar...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Workflow</TableHead>
+                  <TableHead>Versão</TableHead>
+                  <TableHead>Estado</TableHead>
+                  <TableHead>Publicada</TableHead>
+                  <TableHead>Em curso</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {definitions.map((d) => (
+                  <TableRow key={d.id} className={d.id === selectedId ? "bg-muted/40" : undefined}>
+                    <TableCell>
+                      <div className="font-medium">{d.name}</div>
+                      <div className="font-mono text-xs text-muted-foreground">{d.key}</div>
+                    </TableCell>
+                    <TableCell>v{d.version}</TableCell>
+                    <TableCell>
+                      <Badge variant={d.status === "ACTIVE" ? "default" : d.status === "DRAFT" ? "secondary" : "outline"}>
+                        {STATUS_LABELS[d.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{d.publishedAt ? new Date(d.publishedAt).toLocaleString("pt-PT") : "—"}</TableCell>
+                    <TableCell>{d.inFlightInstances}</TableCell>
+                    <TableCell className="space-x-2 text-right">
+                      <Button size="sm" variant="outline" onClick={() => void loadDetail(d.id)} disabled={busy}>
+                        Abrir
+                      </Button>
+                      {d.status !== "DRAFT" ? (
+                        <Button size="sm" variant="outline" onClick={() => void createDraft(d.id)} disabled={busy}>
+                          Nova versão
+                        </Button>
+                      ) : null}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {!definitions.length ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-sm text-muted-foreground">
+                      Sem workflows configurados.
+                    </TableCell>
+                  </TableRow>
+                ) : null}
+              </TableBody>
+            </Table>
+          )}
+        </SectionCard>
+
+        {detail && graph ? (
+          <>
+            <SectionCard
+              title={`${detail.key} · v${detail.version}`}
+              description={
+                editable
+                  ? "Rascunho: as alterações só têm efeito depois de publicadas."
+                  : "Versão publicada (só leitura). Cria uma nova versão para alterar."
+              }
+              actions={
+                editable ? (
+                  <div className="flex gap-2">
+                    <Button variant="outline" onClick={() => void discardDraft()} disabled={busy}>
+                      Eliminar rascunho
+                    </Button>
+                    <Button onClick={() => void saveDraft()} disabled={busy || !dirty}>
+                      {busy ? "A guardar..." : "Guardar rascunho"}
+                    </Button>
+                  </div>
+                ) : null
+              }
+            >
+              <div className="mb-4 max-w-md space-y-1.5">
+                <Label>Nome</Label>
+                <Input
+                  value={graph.name}
+                  disabled={!editable}
+                  onChange={(e) => updateGraph((g) => ({ ...g, name: e.target.value }))}
+                />
+              </div>
+
+              <div className="mb-2 flex items-center justify-between">
+                <div className="text-sm font-semibold">Estados</div>
+                {editable ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() =>
+                      updateGraph((g) => ({
+                        ...g,
+                        states: [
+                          ...g.states,
+                          {
+                            code: "",
+                            name: "",
+                            sortOrder: (g.states.at(-1)?.sortOrder ?? 0) + 10,
+                            isInitial: false,
+                            isTerminal: false,
+                            requestStatus: null,
+                            targetStatus: null,
+                            quorum: null,
+                            quorumText: "",
+                          },
+                        ],
+                      }))
+                    }
+                  >
+                    Adicionar estado
+                  </Button>
+                ) : null}
+              </div>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Código</TableHead>
+                      <TableHead>Nome</TableHead>
+                      <TableHead>Ordem</TableHead>
+                      <TableHead>Inicial</TableHead>
+                      <TableHead>Final</TableHead>
+                      <TableHead>{STATUS_COLUMN_LABELS[detail.targetType] ?? "Estado"}</TableHead>
+                      {detail.targetType === "REQUEST" ? <TableHead className="min-w-[260px]">Quórum</TableHead> : null}
+                      {editable ? <TableHead /> : null}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {graph.states.map((s, index) => (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <Input
+                            className="h-9 font-mono"
+                            value={s.code}
+                            disabled={!editable}
+                            onChange={(e) => updateState(index, { code: e.target.value.toUpperCase() })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            className="h-9"
+                            value={s.name}
+                            disabled={!editable}
+                            onChange={(e) => updateState(index, { name: e.target.value })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            className="h-9 w-20"
+                            type="number"
+                            value={s.sortOrder}
+                            disabled={!editable}
+                            onChange={(e) => updateState(index, { sortOrder: Number(e.target.value) || 0 })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Checkbox
+                            checked={s.isInitial}
+                            disabled={!editable}
+                            onCheckedChange={(v) => updateState(index, { isInitial: v === true })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Checkbox
+                            checked={s.isTerminal}
+                            disabled={!editable}
+                            onCheckedChange={(v) => updateState(index, { isTerminal: v === true })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={(detail.targetType === "REQUEST" ? s.requestStatus : s.targetStatus) ?? NONE}
+                            disabled={!editable}
+                            onValueChange={(v) => {
+                              const status = v === NONE ? null : v;
+                              updateState(index, detail.targetType === "REQUEST" ? { requestStatus: status } : { targetStatus: status });
+                            }}
+                          >
+                            <SelectTrigger className="h-9 w-44">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NONE}>—</SelectItem>
+                              {detail.statusOptions.map((status) => (
+                                <SelectItem key={status} value={status}>
+                                  {status}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        {detail.targetType === "REQUEST" ? <TableCell>{renderQuorumEditor(s, index)}</TableCell> : null}
+                        {editable ? (
+                          <TableCell>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() =>
+                                updateGraph((g) => ({
+                                  ...g,
+                                  states: g.states.filter((_, i) => i !== index),
+                                  transitions: g.transitions.filter((t) => t.from !== s.code && t.to !== s.code),
+                                }))
+                              }
+                            >
+                              Remover
+                            </Button>
+                          </TableCell>
+                        ) : null}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {detail.targetType === "REQUEST" ? (
+                <div className="mt-2 text-xs text-muted-foreground">
+                  Num estado com quórum, a ação indicada só avança depois de <span className="font-mono">required</span>{" "}
+                  aprovadores diferentes (por <span className="font-mono">roleKey</span> ou{" "}
+                  <span className="font-mono">userId</span>) votarem; <span className="font-mono">when</span> aceita uma
+                  condição para aplicar o quórum só a alguns pedidos.
+                </div>
+              ) : null}
+
+              <div className="mb-2 mt-6 flex items-center justify-between">
+                <div className="text-sm font-semibold">Transições</div>
+                {editable ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={!stateCodes.length}
+                    onClick={() =>
+                      updateGraph((g) => ({
+                        ...g,
+                        transitions: [
+                          ...g.transitions,
+                          {
+                            from: stateCodes[0],
+                            to: stateCodes[0],
+                            action: "",
+                            requiredPermission: null,
+                            priority: 0,
+                            guard: null,
+                            guardText: "",
+                          },
+                        ],
+                      }))
+                    }
+                  >
+                    Adicionar transição
+                  </Button>
+                ) : null}
+              </div>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>De</TableHead>
+                      <TableHead>Ação</TableHead>
+                      <TableHead>Para</TableHead>
+                      <TableHead>Permissão necessária</TableHead>
+                      <TableHead>Prioridade</TableHead>
+                      <TableHead>Condição</TableHead>
+                      {editable ? <TableHead /> : null}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {graph.transitions.map((t, index) => (
+                      <TableRow key={index}>
+                        <TableCell>
+                          {renderStateSelect(t.from, (v) => updateTransition(index, { from: v }))}
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            className="h-9 font-mono"
+                            value={t.action}
+                            disabled={!editable}
+                            onChange={(e) => updateTransition(index, { action: e.target.value.toUpperCase() })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          {renderStateSelect(t.to, (v) => updateTransition(index, { to: v }))}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={t.requiredPermission ?? NONE}
+                            disabled={!editable}
+                            onValueChange={(v) => updateTransition(index, { requiredPermission: v === NONE ? null : v })}
+                          >
+                            <SelectTrigger className="h-9 w-64">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NONE}>Sem permissão específica</SelectItem>
+                              {detail.permissions.map((p) => (
+                                <SelectItem key={p.key} value={p.key}>
+                                  {p.name} ({p.key})
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            className="h-9 w-20"
+                            type="number"
+                            value={t.priority}
+                            disabled={!editable}
+                            onChange={(e) => updateTransition(index, { priority: Number(e.target.value) || 0 })}
+                          />
+                        </TableCell>
+                        <TableCell className="min-w-[280px]">
+                          {renderGuardEditor(t, index)}
+                        </TableCell>
+                        {editable ? (
+                          <TableCell>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() =>
+                                updateGraph((g) => ({ ...g, transitions: g.transitions.filter((_, i) => i !== index) }))
+                              }
+                            >
+                              Remover
+                            </Button>
+                          </TableCell>
+                        ) : null}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <div className="mt-2 text-xs text-muted-foreground">
+                Com várias rotas para a mesma ação, é usada a de menor prioridade cuja condição se verifica. Condições
+                em JSON: <span className="font-mono">{"{ field, op, value }"}</span>, combináveis com{" "}
+                <span className="font-mono">all</span>, <span className="font-mono">any</span> e{" "}
+                <span className="font-mono">not</span>. Campos: {Object.keys(GUARD_FIELDS).join(", ")}.
+              </div>
+            </SectionCard>
+
+            <SectionCard
+              title="Validação"
+              description={dirty ? "Guarda o rascunho para revalidar." : "Erros impedem a publicação; avisos não."}
+            >
+              {detail.validation.errors.length || detail.validation.warnings.length ? (
+                <ul className="space-y-1 text-sm">
+                  {detail.validation.errors.map((issue, i) => (
+                    <li key={`e${i}`} className="text-destructive">
+                      Erro: {issue.message}
+                    </li>
+                  ))}
+                  {detail.validation.warnings.map((issue, i) => (
+                    <li key={`w${i}`} className="text-amber-600">
+                      Aviso: {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="text-sm text-muted-foreground">Sem problemas encontrados.</div>
+              )}
+            </SectionCard>
+
+            {editable ? (
+              <SectionCard
+                title="Publicar"
+                description="A versão publicada passa a ser usada por todos os novos processos."
+                actions={
+                  <Button onClick={() => void publish()} disabled={busy || dirty || detail.validation.errors.length > 0}>
+                    Publicar v{detail.version}
+                  </Button>
+                }
+              >
+                <div className="max-w-md space-y-1.5">
+                  <Label>Processos em curso</Label>
+                  <Select value={instanceMode} onValueChange={(v) => setInstanceMode(v as "PIN" | "MIGRATE")}>
+                    <SelectTrigger className="h-10">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="PIN">Manter na versão em que começaram</SelectItem>
+                      <SelectItem value="MIGRATE">Migrar para esta versão</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {instanceMode === "MIGRATE" ? (
+                  <div className="mt-4 space-y-2">
+                    {detail.inFlightElsewhere.length ? (
+                      detail.inFlightElsewhere.map((group) => {
+                        const sameCode = stateCodes.includes(group.stateCode);
+                        return (
+                          <div key={group.stateCode} className="flex flex-wrap items-center gap-3 text-sm">
+                            <span className="w-64 font-mono">
+                              {group.stateCode} ({group.count})
+                            </span>
+                            <span className="text-muted-foreground">→</span>
+                            <Select
+                              value={stateMapping[group.stateCode] ?? (sameCode ? group.stateCode : NONE)}
+                              onValueChange={(v) => setStateMapping((prev) => ({ ...prev, [group.stateCode]: v }))}
+                            >
+                              <SelectTrigger className="h-9 w-56 font-mono">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={NONE}>Escolher estado…</SelectItem>
+                                {stateCodes.map((code) => (
+                                  <SelectItem key={code} value={code}>
+                                    {code}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        );
+                      })
+                    ) : (
+                      <div className="text-sm text-muted-foreground">Não há processos em curso noutras versões.</div>
+                    )}
+                  </div>
+                ) : null}
+              </SectionCard>
+            ) : null}
+          </>
+        ) : null}
+      </main>
+    </AuthenticatedLayout>
+  );
+}
@@ -1,7 +1,8 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { useAuth } from "@/app/authContext";
+import { useAuth, type MfaChallenge } from "@/app/authContext";
+import axiosInstance from "@/utils/axiosInstance";
 import { useRouter, useSearchParams } from "next/navigation";
 import Image from "next/image";
 import { Input } from "@/components/ui/input";
@@ -25,7 +26,12 @@ export default function Login() {
   const [showPassword, setShowPassword] = useState(false);
   const [capsLockOn, setCapsLockOn] = useState(false);
   const [rememberEmail, setRememberEmail] = useState(true);
-  const { login, isLoggedIn, isAuthLoading } = useAuth();
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallenge | null>(null);
+  const [mfaCode, setMfaCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [enrollment, setEnrollment] = useState<{ secret: string; qrDataUrl: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const { login, completeMfa, isLoggedIn, isAuthLoading } = useAuth();
   const router = useRouter();
   const searchParams = useSearchParams();
   const { toast } = useToast(); // Use toast hook
@@ -35,10 +41,12 @@ export default function Login() {
   useEffect(() => {
     if (isAuthLoading) return;
     if (!isLoggedIn) return;
+    // Freshly issued recovery codes stay on screen until the user confirms they saved them.
+    if (recoveryCodes) return;
 
     const redirect = searchParams?.get("redirect");
     router.replace(redirect && redirect.startsWith("/") ? redirect : "/");
-  }, [isAuthLoading, isLoggedIn, router, searchParams]);
+  }, [isAuthLoading, isLoggedIn, recoveryCodes, router, searchParams]);
 
   useEffect(() => {
     if (typeof window === "undefined") return;
@@ -91,47 +99,95 @@ export default function Login() {
     return () => window.clearInterval(t);
   }, [lockedForSeconds]);
 
+  const finishLogin = () => {
+    // Show success toast
+    toast({
+      title: "Login Successful!",
+      description: "Welcome back! Redirecting to dashboard...",
+    });
+
+    // Clear form
+    if (!rememberEmail) setEmail("");
+    setPassword("");
+
+    const redirect = searchParams?.get("redirect");
+    router.replace(redirect && redirect.startsWith("/") ? redirect : "/");
+  };
+
+  const showLoginError = (error: any) => {
+    const backendMsg =
+      error?.response?.data?.message ||
+      error?.response?.data?.error ||
+      (typeof error?.response?.data === "string" ? error.response.data : null);
+
+    const code = error?.response?.data?.code;
+    const retryAfter = Number(error?.response?.data?.retryAfterSeconds || 0);
+    if (Number.isFinite(retryAfter) && retryAfter > 0) {
+      setLockedForSeconds(Math.trunc(retryAfter));
+    }
+
+    toast({
+      title: "Login Failed",
+      description:
+        (code ? `${code}: ` : "") +
+        (backendMsg || "Não foi possível efetuar login."),
+      variant: "destructive",
+    });
+  };
+
+  const cancelMfa = () => {
+    setMfaChallenge(null);
+    setMfaCode("");
+    setUseRecoveryCode(false);
+    setEnrollment(null);
+    setPassword("");
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (lockedForSeconds > 0) return;
     setIsLoading(true); // Start loading
 
     try {
-      await login(email, password);
-
-      // Show success toast
-      toast({
-        title: "Login Successful!",
-        description: "Welcome back! Redirecting to dashboard...",
-      });
+      const challenge = await login(email, password);
+      if (challenge) {
+        setMfaChallenge(challenge);
+        if (challenge.enrollmentRequired) {
+          const res = await axiosInstance.post("/auth/mfa/enroll", { mfaToken: challenge.mfaToken });
+          setEnrollment({ secret: res.data.secret, qrDataUrl: res.data.qrDataUrl });
+        }
+        return;
+      }
+      finishLogin();
+    } catch (error: any) {
+      showLoginError(error);
+    } finally {
+      setIsLoading(false); // Stop loading
+    }
+  };
 
-      // Clear form
-      if (!rememberEmail) setEmail("");
-      setPassword("");
+  const handleMfaSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mfaChallenge || lockedForSeconds > 0) return;
+    setIsLoading(true);
 
-      const redirect = searchParams?.get("redirect");
-      router.replace(redirect && redirect.startsWith("/") ? redirect : "/");
-    } catch (error: any) {
-      const backendMsg =
-        error?.response?.data?.message ||
-        error?.response?.data?.error ||
-        (typeof error?.response?.data === "string" ? error.response.data : null);
-
-      const code = error?.response?.data?.code;
-      const retryAfter = Number(error?.response?.data?.retryAfterSeconds || 0);
-      if (Number.isFinite(retryAfter) && retryAfter > 0) {
-        setLockedForSeconds(Math.trunc(retryAfter));
+    try {
+      const value = mfaCode.trim();
+      const codes = await completeMfa(
+        mfaChallenge.mfaToken,
+        useRecoveryCode ? { recoveryCode: value } : { code: value }
+      );
+      if (codes?.length) {
+        setRecoveryCodes(codes);
+        return;
       }
-
-      toast({
-        title: "Login Failed",
-        description:
-          (code ? `${code}: ` : "") +
-          (backendMsg || "Não foi possível efetuar login."),
-        variant: "destructive",
-      });
+      finishLogin();
+    } catch (error: any) {
+      if (error?.response?.data?.code === "MFA_TOKEN_EXPIRED") cancelMfa();
+      setMfaCode("");
+      showLoginError(error);
     } finally {
-      setIsLoading(false); // Stop loading
+      setIsLoading(false);
     }
   };
 
@@ -186,70 +242,156 @@ export default function Login() {
             </CardHeader>
 
             <CardContent>
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="email">Email</Label>
-                  <Input
-                    id="email"
-                    type="email"
-                    value={email}
-                    onChange={(e) => setEmail(e.target.value)}
-                    placeholder="nome@empresa.com"
-                    autoComplete="email"
-                    autoCapitalize="none"
-                    autoCorrect="off"
-                    required
-                    disabled={isLoading}
-                  />
+              {recoveryCodes ? (
+                <div className="space-y-4">
+                  <div className="text-sm">
+                    Guarde estes códigos de recuperação num local seguro. Cada código permite entrar uma vez se perder o acesso à
+                    aplicação autenticadora e não voltarão a ser mostrados.
+                  </div>
+                  <div className="grid grid-cols-2 gap-2 rounded-md border border-border/60 p-3 font-mono text-sm">
+                    {recoveryCodes.map((c) => (
+                      <div key={c}>{c}</div>
+                    ))}
+                  </div>
+                  <Button
+                    type="button"
+                    className="w-full"
+                    onClick={() => {
+                      setRecoveryCodes(null);
+                      finishLogin();
+                    }}
+                  >
+                    Já guardei os códigos
+                  </Button>
                 </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="password">Password</Label>
-                  <div className="relative">
+              ) : mfaChallenge ? (
+                <form onSubmit={handleMfaSubmit} className="space-y-4">
+                  {mfaChallenge.enrollmentRequired ? (
+                    <div className="space-y-2 text-sm">
+                      <div>
+                        A sua conta exige autenticação de dois fatores. Leia o código QR com uma aplicação autenticadora
+                        (Google Authenticator, Microsoft Authenticator, …) e introduza o código gerado.
+                      </div>
+                      {enrollment ? (
+                        <div className="flex flex-col items-center gap-2">
+                          <Image src={enrollment.qrDataUrl} alt="Código QR para a aplicação autenticadora" width={176} height={176} className="rounded-md bg-white p-1" />
+                          <div className="break-all text-center font-mono text-xs text-muted-foreground">{enrollment.secret}</div>
+                        </div>
+                      ) : (
+                        <div className="text-xs text-muted-foreground">A preparar código QR...</div>
+                      )}
+                    </div>
+                  ) : null}
+
+                  <div className="space-y-2">
+                    <Label htmlFor="mfa-code">{useRecoveryCode ? "Código de recuperação" : "Código de verificação"}</Label>
                     <Input
-                      id="password"
-                      type={showPassword ? "text" : "password"}
-                      value={password}
-                      onChange={(e) => setPassword(e.target.value)}
-                      onKeyUp={(e) => setCapsLockOn(Boolean((e as any).getModifierState?.("CapsLock")))}
-                      onKeyDown={(e) => setCapsLockOn(Boolean((e as any).getModifierState?.("CapsLock")))}
-                      placeholder="A sua password"
-                      autoComplete="current-password"
+                      id="mfa-code"
+                      value={mfaCode}
+                      onChange={(e) => setMfaCode(e.target.value)}
+                      placeholder={useRecoveryCode ? "XXXX-XXXX" : "123456"}
+                      inputMode={useRecoveryCode ? "text" : "numeric"}
+                      autoComplete="one-time-code"
+                      autoFocus
                       required
                       disabled={isLoading}
-                      className="pr-12"
                     />
-                    <button
-                      type="button"
-                      className="absolute right-2 top-1/2 -translate-y-1/2 rounded-md px-2 py-1 text-xs text-muted-foreground hover:bg-muted/60 hover:text-foreground"
-                      onClick={() => setShowPassword((v) => !v)}
-                      aria-label={showPassword ? "Hide password" : "Show password"}
-                      disabled={isLoading}
-                    >
-                      {showPassword ? "Hide" : "Show"}
-                    </button>
                   </div>
-                  {capsLockOn ? <div className="text-xs text-amber-600 dark:text-amber-400">Caps Lock está ligado.</div> : null}
-                </div>
 
-                <div className="flex items-center justify-between gap-3">
-                  <label className="flex select-none items-center gap-2 text-sm text-muted-foreground">
-                    <input
-                      type="checkbox"
-                      className="h-4 w-4 accent-primary"
-                      checked={rememberEmail}
-                      onChange={(e) => setRememberEmail(e.target.checked)}
+                  <div className="flex items-center justify-between gap-3 text-sm">
+                    {!mfaChallenge.enrollmentRequired ? (
+                      <button
+                        type="button"
+                        className="text-muted-foreground underline-offset-2 hover:underline"
+                        onClick={() => {
+                          setUseRecoveryCode((v) => !v);
+                          setMfaCode("");
+                        }}
+                        disabled={isLoading}
+                      >
+                        {useRecoveryCode ? "Usar código da aplicação" : "Usar código de recuperação"}
+                      </button>
+                    ) : (
+                      <span />
+                    )}
+                    {lockedForSeconds > 0 ? <div className="text-xs text-muted-foreground">Tenta novamente em {lockedForSeconds}s</div> : null}
+                  </div>
+
+                  <div className="flex gap-2">
+                    <Button type="button" variant="outline" onClick={cancelMfa} disabled={isLoading}>
+                      Voltar
+                    </Button>
+                    <Button type="submit" className="flex-1" disabled={lockedForSeconds > 0 || !mfaCode.trim()} isLoading={isLoading}>
+                      {isLoading ? "A verificar..." : "Verificar"}
+                    </Button>
+                  </div>
+                </form>
+              ) : (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="email">Email</Label>
+                    <Input
+                      id="email"
+                      type="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      placeholder="nome@empresa.com"
+                      autoComplete="email"
+                      autoCapitalize="none"
+                      autoCorrect="off"
+                      required
                       disabled={isLoading}
                     />
-                    Lembrar email
-                  </label>
-                  {lockedForSeconds > 0 ? <div className="text-xs text-muted-foreground">Tenta novamente em {lockedForSeconds}s</div> : null}
-                </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="password">Password</Label>
+                    <div className="relative">
+                      <Input
+                        id="password"
+                        type={showPassword ? "text" : "password"}
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        onKeyUp={(e) => setCapsLockOn(Boolean((e as any).getModifierState?.("CapsLock")))}
+                        onKeyDown={(e) => setCapsLockOn(Boolean((e as any).getModifierState?.("CapsLock")))}
+                        placeholder="A sua password"
+                        autoComplete="current-password"
+                        required
+                        disabled={isLoading}
+                        className="pr-12"
+                      />
+                      <button
+                        type="button"
+                        className="absolute right-2 top-1/2 -translate-y-1/2 rounded-md px-2 py-1 text-xs text-muted-foreground hover:bg-muted/60 hover:text-foreground"
+                        onClick={() => setShowPassword((v) => !v)}
+                        aria-label={showPassword ? "Hide password" : "Show password"}
+                        disabled={isLoading}
+                      >
+                        {showPassword ? "Hide" : "Show"}
+                      </button>
+                    </div>
+                    {capsLockOn ? <div className="text-xs text-amber-600 dark:text-amber-400">Caps Lock está ligado.</div> : null}
+                  </div>
+
+                  <div className="flex items-center justify-between gap-3">
+                    <label className="flex select-none items-center gap-2 text-sm text-muted-foreground">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 accent-primary"
+                        checked={rememberEmail}
+                        onChange={(e) => setRememberEmail(e.target.checked)}
+                        disabled={isLoading}
+                      />
+                      Lembrar email
+                    </label>
+                    {lockedForSeconds > 0 ? <div className="text-xs text-muted-foreground">Tenta novamente em {lockedForSeconds}s</div> : null}
+                  </div>
 
-                <Button type="submit" className="w-full" disabled={isAuthLoading || lockedForSeconds > 0} isLoading={isLoading}>
-                  {isLoading ? "A entrar..." : lockedForSeconds > 0 ? `Bloqueado (${lockedForSeconds}s)` : "Login"}
-                </Button>
-              </form>
+                  <Button type="submit" className="w-full" disabled={isAuthLoading || lockedForSeconds > 0} isLoading={isLoading}>
+                    {isLoading ? "A entrar..." : lockedForSeconds > 0 ? `Bloqueado (${lockedForSeconds}s)` : "Login"}
+                  </Button>
+                </form>
+              )}
             </CardContent>
 
             <CardFooter className="justify-center">
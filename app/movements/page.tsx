@@ -45,7 +45,7 @@ type ProductDto = {
 
 type StockMovement = {
   id: string;
-  type: "IN" | "OUT" | "RETURN" | "REPAIR_OUT" | "REPAIR_IN" | "SCRAP" | "LOST";
+  type: "IN" | "OUT" | "RETURN" | "REPAIR_OUT" | "REPAIR_IN" | "SCRAP" | "LOST" | "TRANSFER_OUT" | "TRANSFER_IN" | "ADJUSTMENT";
   quantity: number;
   reason?: string | null;
   costCenter?: string | null;
@@ -58,6 +58,10 @@ type StockMovement = {
   unitId?: string | null;
   unit?: { code: string } | null;
 
+  warehouse?: { id: string; code: string; name: string } | null;
+
+  stocktakeSession?: { id: string; number: string } | null;
+
   invoiceId?: string | null;
   invoice?: { id: string; invoiceNumber: string; reqNumber: string | null } | null;
 
@@ -103,10 +107,21 @@ export default function MovementsPage() {
   // Filters
   const [q, setQ] = useState<string>(() => searchParams?.get("q") ?? "");
   const [type, setType] = useState<
-    "" | "IN" | "OUT" | "RETURN" | "REPAIR_OUT" | "REPAIR_IN" | "SCRAP" | "LOST"
+    "" | "IN" | "OUT" | "RETURN" | "REPAIR_OUT" | "REPAIR_IN" | "SCRAP" | "LOST" | "TRANSFER_OUT" | "TRANSFER_IN" | "ADJUSTMENT"
   >(() => {
     const t = searchParams?.get("type") ?? "";
-    return t === "IN" || t === "OUT" || t === "RETURN" || t === "REPAIR_OUT" || t === "REPAIR_IN" || t === "SCRAP" || t === "LOST" ? t : "";
+    return t === "IN" ||
+      t === "OUT" ||
+      t === "RETURN" ||
+      t === "REPAIR_OUT" ||
+      t === "REPAIR_IN" ||
+      t === "SCRAP" ||
+      t === "LOST" ||
+      t === "TRANSFER_OUT" ||
+      t === "TRANSFER_IN" ||
+      t === "ADJUSTMENT"
+      ? t
+      : "";
   });
   const [productId, setProductId] = useState<string>("");
   const [performedByUserId, setPerformedByUserId] = useState<string>(() => searchParams?.get("performedByUserId") ?? "");
@@ -408,6 +423,9 @@ export default function MovementsPage() {
                 <option value="REPAIR_IN">REPAIR_IN • Reparação (receção)</option>
                 <option value="SCRAP">SCRAP • Abate</option>
                 <option value="LOST">LOST • Perdido</option>
+                <option value="TRANSFER_OUT">TRANSFER_OUT • Transferência (saída)</option>
+                <option value="TRANSFER_IN">TRANSFER_IN • Transferência (entrada)</option>
+                <option value="ADJUSTMENT">ADJUSTMENT • Ajuste de inventário</option>
               </select>
             </div>
 
@@ -519,6 +537,9 @@ export default function MovementsPage() {
                     REPAIR_IN: { label: "Reparação (receção)", className: "text-emerald-700" },
                     SCRAP: { label: "Abate", className: "text-zinc-600" },
                     LOST: { label: "Perdido", className: "text-zinc-600" },
+                    TRANSFER_OUT: { label: "Transferência (saída)", className: "text-violet-600" },
+                    TRANSFER_IN: { label: "Transferência (entrada)", className: "text-violet-600" },
+                    ADJUSTMENT: { label: "Ajuste de inventário", className: "text-orange-600" },
                   };
 
                   const meta = typeMeta[m.type];
@@ -531,6 +552,8 @@ export default function MovementsPage() {
                         ? `Req: ${m.requestId}`
                         : null,
                     m.unit?.code ? `Unidade: ${m.unit.code}` : null,
+                    m.warehouse ? `Armazém: ${m.warehouse.code}` : null,
+                    m.stocktakeSession ? `Inventário: ${m.stocktakeSession.number}` : null,
                   ].filter(Boolean);
 
                   return (
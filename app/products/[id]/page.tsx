@@ -51,6 +51,45 @@ type ProductDetails = {
   updatedAt: string;
   category?: string;
   supplier?: string;
+  minStock?: number | null;
+  maxStock?: number | null;
+  reorderPoint?: number | null;
+  stockLevels?: { minStock: number | null; maxStock: number | null; reorderPoint: number };
+  stocks?: ProductWarehouseStock[];
+};
+
+type WarehouseRef = {
+  id: string;
+  code: string;
+  name: string;
+  isDefault?: boolean;
+};
+
+type OpenPurchaseOrderLine = {
+  lineId: string;
+  number: string;
+  supplierName: string;
+  outstandingQuantity: number;
+  unitPrice: number;
+};
+
+type ProductLot = {
+  id: string;
+  lotNumber: string;
+  expiresAt: string | null;
+  quantity: number;
+  receivedQuantity: number;
+  expired: boolean;
+  daysToExpiry: number | null;
+  warehouse?: WarehouseRef;
+};
+
+type ProductWarehouseStock = {
+  warehouseId: string;
+  warehouse: WarehouseRef;
+  quantity: number;
+  status: string;
+  updatedAt: string;
 };
 
 type ProductInvoice = {
@@ -91,7 +130,17 @@ type ProductUnit = {
 
 type StockMovement = {
   id: string;
-  type: "IN" | "OUT" | "RETURN" | "REPAIR_OUT" | "REPAIR_IN" | "SCRAP" | "LOST";
+  type:
+    | "IN"
+    | "OUT"
+    | "RETURN"
+    | "REPAIR_OUT"
+    | "REPAIR_IN"
+    | "SCRAP"
+    | "LOST"
+    | "TRANSFER_OUT"
+    | "TRANSFER_IN"
+    | "ADJUSTMENT";
   quantity: number;
   reason?: string | null;
   costCenter?: string | null;
@@ -105,6 +154,8 @@ type StockMovement = {
   request?: { id: string; title: string | null } | null;
   performedBy?: { id: string; name: string; email: string } | null;
   assignedTo?: { id: string; name: string; email: string } | null;
+  warehouse?: { id: string; code: string; name: string } | null;
+  counterpartWarehouse?: { id: string; code: string; name: string } | null;
 };
 
 type SessionUser = {
@@ -186,6 +237,12 @@ function movementTypeMeta(type: StockMovement["type"]) {
       return { label: "Abate", className: "text-zinc-700 dark:text-zinc-300" };
     case "LOST":
       return { label: "Extravio", className: "text-rose-700 dark:text-rose-300" };
+    case "TRANSFER_OUT":
+      return { label: "Transferência (saída)", className: "text-violet-700 dark:text-violet-300" };
+    case "TRANSFER_IN":
+      return { label: "Transferência (entrada)", className: "text-violet-700 dark:text-violet-300" };
+    case "ADJUSTMENT":
+      return { label: "Ajuste de inventário", className: "text-orange-700 dark:text-orange-300" };
     default:
       return { label: type, className: "text-muted-foreground" };
   }
@@ -293,6 +350,32 @@ export default function ProductDetailsPage() {
   >([]);
   const [pickedRequestId, setPickedRequestId] = useState<string>("");
 
+  const [levelsDraft, setLevelsDraft] = useState({ minStock: "", maxStock: "", reorderPoint: "" });
+  const [levelsSaving, setLevelsSaving] = useState(false);
+
+  const [warehouses, setWarehouses] = useState<WarehouseRef[]>([]);
+  const [intakeWarehouseId, setIntakeWarehouseId] = useState("");
+  const [openOrderLines, setOpenOrderLines] = useState<OpenPurchaseOrderLine[]>([]);
+  const [intakeOrderLineId, setIntakeOrderLineId] = useState("");
+  const [intakeLotNumber, setIntakeLotNumber] = useState("");
+  const [intakeLotExpiresAt, setIntakeLotExpiresAt] = useState("");
+  const [lots, setLots] = useState<ProductLot[]>([]);
+  const [transferDialog, setTransferDialog] = useState<{
+    open: boolean;
+    fromWarehouseId: string;
+    toWarehouseId: string;
+    quantity: number;
+    reason: string;
+    saving: boolean;
+  }>({
+    open: false,
+    fromWarehouseId: "",
+    toWarehouseId: "",
+    quantity: 1,
+    reason: "",
+    saving: false,
+  });
+
   const [units, setUnits] = useState<ProductUnit[]>([]);
   const [unitsLoading, setUnitsLoading] = useState(false);
   const [unitsNextCursor, setUnitsNextCursor] = useState<string | null>(null);
@@ -317,7 +400,7 @@ export default function ProductDetailsPage() {
   const [movementsNextCursor, setMovementsNextCursor] = useState<string | null>(null);
   const [movementsQuery, setMovementsQuery] = useState("");
   const [movementsType, setMovementsType] = useState<
-    "" | "IN" | "OUT" | "RETURN" | "REPAIR_OUT" | "REPAIR_IN" | "SCRAP" | "LOST"
+    "" | "IN" | "OUT" | "RETURN" | "REPAIR_OUT" | "REPAIR_IN" | "SCRAP" | "LOST" | "TRANSFER_OUT" | "TRANSFER_IN" | "ADJUSTMENT"
   >("");
   const [movementsFrom, setMovementsFrom] = useState("");
   const [movementsTo, setMovementsTo] = useState("");
@@ -376,6 +459,63 @@ export default function ProductDetailsPage() {
     }
   };
 
+  const reloadProduct = async () => {
+    if (!productId) return;
+    try {
+      const res = await axiosInstance.get(`/products/${productId}`, {
+        params: asUserIdFromQuery ? { asUserId: asUserIdFromQuery } : undefined,
+      });
+      setProduct(res.data);
+    } catch {
+      // The next full load will pick up the change.
+    }
+  };
+
+  const loadWarehouses = async () => {
+    try {
+      const res = await axiosInstance.get("/warehouses");
+      setWarehouses(Array.isArray(res.data) ? res.data : []);
+    } catch {
+      setWarehouses([]);
+    }
+  };
+
+  const loadLots = async () => {
+    if (!productId) return;
+    try {
+      const res = await axiosInstance.get("/lots", { params: { productId } });
+      setLots(Array.isArray(res.data?.items) ? res.data.items : []);
+    } catch {
+      setLots([]);
+    }
+  };
+
+  // Open purchase order lines this product can be received against (needs purchasing access).
+  const loadOpenOrderLines = async () => {
+    if (!productId) return;
+    try {
+      const res = await axiosInstance.get("/purchase-orders", { params: { productId } });
+      const rows: any[] = Array.isArray(res.data) ? res.data : [];
+      setOpenOrderLines(
+        rows
+          .filter((po) => po.status === "SENT" || po.status === "PARTIALLY_RECEIVED")
+          .flatMap((po) =>
+            (po.lines ?? [])
+              .filter((line: any) => line.product?.id === productId && line.outstandingQuantity > 0)
+              .map((line: any) => ({
+                lineId: line.id,
+                number: po.number,
+                supplierName: po.supplier?.name ?? "",
+                outstandingQuantity: line.outstandingQuantity,
+                unitPrice: line.unitPrice,
+              }))
+          )
+      );
+    } catch {
+      setOpenOrderLines([]);
+    }
+  };
+
   const loadUnits = async (opts?: { reset?: boolean }) => {
     if (!productId) return;
     const reset = opts?.reset ?? false;
@@ -469,6 +609,9 @@ export default function ProductDetailsPage() {
   useEffect(() => {
     setOrigin(window.location.origin);
     loadAll();
+    loadWarehouses();
+    loadOpenOrderLines();
+    loadLots();
     setUnits([]);
     setUnitsNextCursor(null);
     setUnitDrafts({});
@@ -543,6 +686,11 @@ export default function ProductDetailsPage() {
         if (m.type === "IN" || m.type === "RETURN" || m.type === "REPAIR_IN") acc.entries += m.quantity;
         if (m.type === "OUT" || m.type === "REPAIR_OUT" || m.type === "SCRAP" || m.type === "LOST")
           acc.exits += m.quantity;
+        // Adjustments are signed: stocktake surplus counts as an entry, shortage as an exit.
+        if (m.type === "ADJUSTMENT") {
+          if (m.quantity > 0) acc.entries += m.quantity;
+          else acc.exits += -m.quantity;
+        }
         if (m.type === "RETURN" || m.type === "REPAIR_OUT" || m.type === "REPAIR_IN" || m.type === "SCRAP" || m.type === "LOST")
           acc.critical += 1;
         return acc;
@@ -765,6 +913,14 @@ export default function ProductDetailsPage() {
         quantity,
         unitPrice,
         notes: notes || undefined,
+        warehouseId: intakeWarehouseId || undefined,
+        purchaseOrderLineId: intakeOrderLineId || undefined,
+        lot: intakeLotNumber.trim()
+          ? {
+              lotNumber: intakeLotNumber.trim(),
+              expiresAt: intakeLotExpiresAt ? new Date(intakeLotExpiresAt).toISOString() : undefined,
+            }
+          : undefined,
       };
 
       const res = await axiosInstance.post("/intake", payload);
@@ -819,11 +975,17 @@ export default function ProductDetailsPage() {
       setNotes("");
       setInvoiceAttachment(null);
       setRequestAttachment(null);
+      setIntakeOrderLineId("");
+      setIntakeLotNumber("");
+      setIntakeLotExpiresAt("");
 
       setInvoiceDialogOpen(false);
 
       // Refresh units to include newly generated QRs (stock intake creates ProductUnits)
       loadUnits({ reset: true });
+      reloadProduct();
+      if (intakeOrderLineId) loadOpenOrderLines();
+      if (intakeLotNumber.trim()) loadLots();
 
       toast({
         title: "Fatura adicionada",
@@ -856,6 +1018,57 @@ export default function ProductDetailsPage() {
     }
   };
 
+  useEffect(() => {
+    if (!product) return;
+    setLevelsDraft({
+      minStock: product.minStock != null ? String(product.minStock) : "",
+      maxStock: product.maxStock != null ? String(product.maxStock) : "",
+      reorderPoint: product.reorderPoint != null ? String(product.reorderPoint) : "",
+    });
+  }, [product?.id, product?.minStock, product?.maxStock, product?.reorderPoint]);
+
+  const saveStockLevels = async () => {
+    if (!productId) return;
+    const toLevel = (value: string) => (value.trim() ? Number(value) : null);
+    setLevelsSaving(true);
+    try {
+      await axiosInstance.patch(`/products/${productId}`, {
+        minStock: toLevel(levelsDraft.minStock),
+        maxStock: toLevel(levelsDraft.maxStock),
+        reorderPoint: toLevel(levelsDraft.reorderPoint),
+      });
+      await reloadProduct();
+      toast({ title: "Níveis atualizados", description: "O estado do stock foi recalculado." });
+    } catch (error: any) {
+      const msg = error?.response?.data?.error || "Não foi possível guardar os níveis de reposição.";
+      toast({ title: "Erro", description: msg, variant: "destructive" });
+    } finally {
+      setLevelsSaving(false);
+    }
+  };
+
+  const submitTransfer = async () => {
+    if (!productId) return;
+    setTransferDialog((prev) => ({ ...prev, saving: true }));
+    try {
+      await axiosInstance.post("/stock-movements/transfer", {
+        productId,
+        fromWarehouseId: transferDialog.fromWarehouseId,
+        toWarehouseId: transferDialog.toWarehouseId,
+        quantity: transferDialog.quantity,
+        reason: transferDialog.reason.trim() || undefined,
+      });
+
+      setTransferDialog((prev) => ({ ...prev, open: false, saving: false, reason: "", quantity: 1 }));
+      await Promise.all([reloadProduct(), loadUnits({ reset: true }), loadMovements({ reset: true }), loadLots()]);
+      toast({ title: "Transferência registada", description: "O stock foi movido entre armazéns." });
+    } catch (error: any) {
+      const msg = error?.response?.data?.error || "Não foi possível transferir o stock.";
+      toast({ title: "Erro", description: msg, variant: "destructive" });
+      setTransferDialog((prev) => ({ ...prev, saving: false }));
+    }
+  };
+
   const filteredInvoices = useMemo(() => {
     const q = invoiceRepoQuery.trim().toLowerCase();
     if (!q) return invoices;
@@ -984,6 +1197,227 @@ export default function ProductDetailsPage() {
                 </div>
               </SectionCard>
 
+              <SectionCard
+                title="Níveis de reposição"
+                description="Mínimo, ponto de encomenda e máximo. Campos vazios herdam os valores da categoria."
+              >
+                <div className="grid grid-cols-1 gap-3 text-sm md:grid-cols-3">
+                  {(
+                    [
+                      { key: "minStock", label: "Stock mínimo" },
+                      { key: "reorderPoint", label: "Ponto de encomenda" },
+                      { key: "maxStock", label: "Stock máximo" },
+                    ] as const
+                  ).map((field) => (
+                    <div key={field.key}>
+                      <div className="mb-1 text-xs text-muted-foreground">
+                        {field.label}
+                        {product.stockLevels && product.stockLevels[field.key] != null
+                          ? ` (efetivo: ${product.stockLevels[field.key]})`
+                          : ""}
+                      </div>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={levelsDraft[field.key]}
+                        disabled={!isAdmin || levelsSaving}
+                        onChange={(e) => setLevelsDraft((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                        placeholder="Herdado"
+                      />
+                    </div>
+                  ))}
+                </div>
+                {isAdmin ? (
+                  <div className="mt-3 flex justify-end">
+                    <Button size="sm" onClick={saveStockLevels} disabled={levelsSaving}>
+                      {levelsSaving ? "A guardar..." : "Guardar níveis"}
+                    </Button>
+                  </div>
+                ) : null}
+              </SectionCard>
+
+              <SectionCard
+                title="Stock por armazém"
+                description="Distribuição da quantidade total pelos armazéns do município."
+                actions={
+                  isAdmin && warehouses.length > 1 ? (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() =>
+                        setTransferDialog((prev) => ({
+                          ...prev,
+                          open: true,
+                          fromWarehouseId: product.stocks?.find((s) => s.quantity > 0)?.warehouseId ?? "",
+                          toWarehouseId: "",
+                        }))
+                      }
+                    >
+                      Transferir stock
+                    </Button>
+                  ) : null
+                }
+              >
+                {!product.stocks?.length ? (
+                  <div className="text-sm text-muted-foreground">Sem stock registado em armazéns.</div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Armazém</TableHead>
+                        <TableHead className="text-right">Quantidade</TableHead>
+                        <TableHead>Estado</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {product.stocks.map((s) => (
+                        <TableRow key={s.warehouseId}>
+                          <TableCell>
+                            <span className="font-medium">{s.warehouse.name}</span>{" "}
+                            <span className="text-xs text-muted-foreground">({s.warehouse.code})</span>
+                            {s.warehouse.isDefault ? (
+                              <Badge variant="outline" className="ml-2 rounded-full">Predefinido</Badge>
+                            ) : null}
+                          </TableCell>
+                          <TableCell className="text-right">{s.quantity}</TableCell>
+                          <TableCell>{productStatusLabel(s.status)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </SectionCard>
+
+              {lots.length ? (
+                <SectionCard
+                  title="Lotes"
+                  description="Lotes em stock por ordem de validade; as saídas consomem primeiro o que expira primeiro."
+                >
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Lote</TableHead>
+                        <TableHead>Armazém</TableHead>
+                        <TableHead>Validade</TableHead>
+                        <TableHead className="text-right">Quantidade</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {lots.map((lot) => (
+                        <TableRow key={lot.id}>
+                          <TableCell className="font-medium">{lot.lotNumber}</TableCell>
+                          <TableCell>{lot.warehouse ? `${lot.warehouse.name} (${lot.warehouse.code})` : "—"}</TableCell>
+                          <TableCell>
+                            {lot.expiresAt ? new Date(lot.expiresAt).toLocaleDateString("pt-PT") : "Sem validade"}
+                            {lot.expired ? (
+                              <Badge variant="destructive" className="ml-2 rounded-full">Expirado</Badge>
+                            ) : lot.daysToExpiry !== null && lot.daysToExpiry <= 30 ? (
+                              <Badge variant="outline" className="ml-2 rounded-full">{lot.daysToExpiry} dia(s)</Badge>
+                            ) : null}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {lot.quantity} / {lot.receivedQuantity}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </SectionCard>
+              ) : null}
+
+              <Dialog
+                open={transferDialog.open}
+                onOpenChange={(open) => setTransferDialog((prev) => ({ ...prev, open }))}
+              >
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Transferir stock</DialogTitle>
+                    <DialogDescription>
+                      Move unidades entre armazéns sem alterar a quantidade total do produto.
+                    </DialogDescription>
+                  </DialogHeader>
+
+                  <div className="space-y-3">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <div className="mb-1 text-xs text-muted-foreground">Origem</div>
+                        <Select
+                          value={transferDialog.fromWarehouseId}
+                          onValueChange={(v) => setTransferDialog((prev) => ({ ...prev, fromWarehouseId: v }))}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Armazém de origem" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {warehouses.map((w) => (
+                              <SelectItem key={w.id} value={w.id}>
+                                {w.name} ({w.code})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <div className="mb-1 text-xs text-muted-foreground">Destino</div>
+                        <Select
+                          value={transferDialog.toWarehouseId}
+                          onValueChange={(v) => setTransferDialog((prev) => ({ ...prev, toWarehouseId: v }))}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Armazém de destino" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {warehouses
+                              .filter((w) => w.id !== transferDialog.fromWarehouseId)
+                              .map((w) => (
+                                <SelectItem key={w.id} value={w.id}>
+                                  {w.name} ({w.code})
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+
+                    <Input
+                      type="number"
+                      min={1}
+                      value={transferDialog.quantity}
+                      onChange={(e) =>
+                        setTransferDialog((prev) => ({ ...prev, quantity: Number(e.target.value) }))
+                      }
+                      placeholder="Quantidade"
+                    />
+                    <Input
+                      placeholder="Motivo (opcional)"
+                      value={transferDialog.reason}
+                      onChange={(e) => setTransferDialog((prev) => ({ ...prev, reason: e.target.value }))}
+                    />
+                  </div>
+
+                  <DialogFooter>
+                    <Button
+                      variant="outline"
+                      onClick={() => setTransferDialog((prev) => ({ ...prev, open: false }))}
+                      disabled={transferDialog.saving}
+                    >
+                      Cancelar
+                    </Button>
+                    <Button
+                      onClick={submitTransfer}
+                      disabled={
+                        transferDialog.saving ||
+                        !transferDialog.fromWarehouseId ||
+                        !transferDialog.toWarehouseId ||
+                        transferDialog.quantity <= 0
+                      }
+                    >
+                      {transferDialog.saving ? "A transferir..." : "Transferir"}
+                    </Button>
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
+
               <SectionCard
                 title="Estado operacional"
                 description="Visão rápida do que está em stock, em uso, em reparação, abatido e perdido."
@@ -1416,6 +1850,68 @@ export default function ProductDetailsPage() {
 
                     <Input placeholder="Notas (opcional)" value={notes} onChange={(e) => setNotes(e.target.value)} />
 
+                    {!units.length ? (
+                      <div className="space-y-1">
+                        <div className="text-xs text-muted-foreground">
+                          Lote e validade (consumíveis; sem lote são geradas unidades com QR)
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                          <Input
+                            placeholder="Nº lote (opcional)"
+                            value={intakeLotNumber}
+                            onChange={(e) => setIntakeLotNumber(e.target.value)}
+                          />
+                          <Input
+                            type="date"
+                            value={intakeLotExpiresAt}
+                            onChange={(e) => setIntakeLotExpiresAt(e.target.value)}
+                            disabled={!intakeLotNumber.trim()}
+                          />
+                        </div>
+                      </div>
+                    ) : null}
+
+                    {openOrderLines.length ? (
+                      <Select
+                        value={intakeOrderLineId || "none"}
+                        onValueChange={(value) => {
+                          const line = openOrderLines.find((l) => l.lineId === value);
+                          setIntakeOrderLineId(line ? line.lineId : "");
+                          if (line) {
+                            setQuantity(line.outstandingQuantity);
+                            setUnitPrice(line.unitPrice);
+                          }
+                        }}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Encomenda (opcional)" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Sem encomenda</SelectItem>
+                          {openOrderLines.map((l) => (
+                            <SelectItem key={l.lineId} value={l.lineId}>
+                              {l.number} · {l.supplierName} · {l.outstandingQuantity} pendente(s)
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : null}
+
+                    {warehouses.length > 1 ? (
+                      <Select value={intakeWarehouseId} onValueChange={setIntakeWarehouseId}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Armazém de entrada (predefinido)" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {warehouses.map((w) => (
+                            <SelectItem key={w.id} value={w.id}>
+                              {w.name} ({w.code})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : null}
+
                     <div className="space-y-1">
                       <div className="text-xs text-muted-foreground">Anexos (opcional)</div>
                       <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
@@ -1641,6 +2137,9 @@ export default function ProductDetailsPage() {
                         <option value="REPAIR_IN">Reparação (entrada)</option>
                         <option value="SCRAP">Abate</option>
                         <option value="LOST">Extravio</option>
+                        <option value="TRANSFER_OUT">Transferência (saída)</option>
+                        <option value="TRANSFER_IN">Transferência (entrada)</option>
+                        <option value="ADJUSTMENT">Ajuste de inventário</option>
                       </select>
                     </div>
 
@@ -1743,6 +2242,14 @@ export default function ProductDetailsPage() {
                                     {m.reason ? `Motivo: ${m.reason}` : ""}
                                     {m.costCenter ? `${m.reason ? " • " : ""}CC: ${m.costCenter}` : ""}
                                   </div>
+                                  {m.warehouse ? (
+                                    <div className="text-xs text-muted-foreground">
+                                      Armazém: <span className="font-medium">{m.warehouse.name}</span>
+                                      {m.counterpartWarehouse
+                                        ? ` ${m.type === "TRANSFER_IN" ? "←" : "→"} ${m.counterpartWarehouse.name}`
+                                        : ""}
+                                    </div>
+                                  ) : null}
                                   {m.assignedTo ? (
                                     <div className="text-xs text-muted-foreground">
                                       Atribuído a: <span className="font-medium">{m.assignedTo.name}</span>
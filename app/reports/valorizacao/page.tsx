@@ -0,0 +1,268 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+
+import AuthenticatedLayout from "@/app/components/AuthenticatedLayout";
+import PageHeader from "@/app/components/PageHeader";
+import SectionCard from "@/app/components/SectionCard";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import axiosInstance from "@/utils/axiosInstance";
+
+type ValuationMethod = "WAC" | "FIFO";
+
+type ValuationReport = {
+  meta: { generatedAt: string; method: ValuationMethod; from: string | null; to: string };
+  totals: {
+    products: number;
+    quantity: number;
+    value: number;
+    listValue: number;
+    variance: number;
+    openingValue: number | null;
+    receivedValue: number;
+    issuedValue: number;
+    unreconciledProducts: number;
+  };
+  products: Array<{
+    productId: string;
+    name: string;
+    sku: string;
+    category: string;
+    quantity: number;
+    unitCost: number;
+    value: number;
+    listPrice: number;
+    variance: number;
+    lastPurchasePrice: number | null;
+    unreconciledQuantity: number;
+  }>;
+  categories: Array<{ categoryId: string; category: string; products: number; quantity: number; value: number; issuedValue: number }>;
+  services: Array<{ requestingServiceId: number | null; code: string | null; name: string; issuedQuantity: number; issuedValue: number }>;
+};
+
+type CategoryRow = { id: string; name: string };
+
+function toDateInputValue(d: Date) {
+  return d.toISOString().slice(0, 10);
+}
+
+function formatEur(value: number) {
+  return value.toLocaleString("pt-PT", {
+    style: "currency",
+    currency: "EUR",
+    maximumFractionDigits: 2,
+  });
+}
+
+export default function InventoryValuationReportPage() {
+  const { toast } = useToast();
+
+  const [method, setMethod] = useState<ValuationMethod>("WAC");
+  const [categoryId, setCategoryId] = useState("");
+  const [categories, setCategories] = useState<CategoryRow[]>([]);
+  const [dateFrom, setDateFrom] = useState<string>(() => {
+    const d = new Date();
+    return toDateInputValue(new Date(d.getFullYear(), 0, 1));
+  });
+  const [dateTo, setDateTo] = useState<string>(() => toDateInputValue(new Date()));
+  const [loading, setLoading] = useState(false);
+  const [report, setReport] = useState<ValuationReport | null>(null);
+
+  const query = useMemo(() => {
+    const qs = new URLSearchParams();
+    qs.set("method", method);
+    if (dateFrom) qs.set("from", new Date(`${dateFrom}T00:00:00`).toISOString());
+    if (dateTo) qs.set("to", new Date(`${dateTo}T23:59:59.999`).toISOString());
+    if (categoryId) qs.set("categoryId", categoryId);
+    return qs.toString();
+  }, [categoryId, dateFrom, dateTo, method]);
+
+  useEffect(() => {
+    axiosInstance
+      .get("/categories")
+      .then((res) => setCategories(Array.isArray(res.data) ? res.data : []))
+      .catch(() => setCategories([]));
+  }, []);
+
+  useEffect(() => {
+    let alive = true;
+    setLoading(true);
+    axiosInstance
+      .get<ValuationReport>(`/reports/valuation?${query}`)
+      .then((res) => {
+        if (alive) setReport(res.data);
+      })
+      .catch((error: any) => {
+        if (!alive) return;
+        toast({
+          title: "Valorização",
+          description: error?.response?.data?.error || "Falha ao calcular a valorização.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => {
+        if (alive) setLoading(false);
+      });
+    return () => {
+      alive = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [query]);
+
+  const downloadPdf = () => {
+    try {
+      window.open(`/api/reports/valuation/pdf?${query}`, "_blank");
+    } catch {
+      toast({ title: "Relatórios", description: "Não foi possível abrir o download.", variant: "destructive" });
+    }
+  };
+
+  const totals = report?.totals;
+
+  return (
+    <AuthenticatedLayout>
+      <main className="space-y-4 p-4 sm:p-6">
+        <PageHeader
+          title="Valorização de inventário"
+          description="Valor do stock no fim do período a custo médio ponderado (ou FIFO), a partir das faturas e dos movimentos."
+          actions={<Button onClick={downloadPdf}>Download PDF</Button>}
+        />
+
+        <SectionCard title="Filtros">
+          <div className="grid gap-3 md:grid-cols-4">
+            <div className="space-y-1.5">
+              <div className="text-sm font-medium">Data (início)</div>
+              <Input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <div className="text-sm font-medium">Data (fim)</div>
+              <Input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <div className="text-sm font-medium">Método</div>
+              <select
+                className="h-10 w-full rounded-md border bg-background px-2 text-sm"
+                value={method}
+                onChange={(e) => setMethod(e.target.value as ValuationMethod)}
+              >
+                <option value="WAC">Custo médio ponderado</option>
+                <option value="FIFO">FIFO</option>
+              </select>
+            </div>
+            <div className="space-y-1.5">
+              <div className="text-sm font-medium">Categoria</div>
+              <select
+                className="h-10 w-full rounded-md border bg-background px-2 text-sm"
+                value={categoryId}
+                onChange={(e) => setCategoryId(e.target.value)}
+              >
+                <option value="">Todas</option>
+                {categories.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </SectionCard>
+
+        <SectionCard title="Resumo" description={loading ? "A calcular..." : undefined}>
+          {totals ? (
+            <div className="grid gap-3 text-sm sm:grid-cols-2 lg:grid-cols-4">
+              <div>
+                <div className="text-muted-foreground">Valor inicial</div>
+                <div className="text-lg font-semibold">{totals.openingValue === null ? "—" : formatEur(totals.openingValue)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Entradas / saídas</div>
+                <div className="text-lg font-semibold">
+                  {formatEur(totals.receivedValue)} / {formatEur(totals.issuedValue)}
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Valor final ({totals.quantity} un.)</div>
+                <div className="text-lg font-semibold">{formatEur(totals.value)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Diferença vs. preço de tabela</div>
+                <div className="text-lg font-semibold">{formatEur(totals.variance)}</div>
+              </div>
+              {totals.unreconciledProducts ? (
+                <div className="text-xs text-muted-foreground sm:col-span-2 lg:col-span-4">
+                  {totals.unreconciledProducts} produto(s) têm stock sem histórico de movimentos; essa quantidade é valorizada ao
+                  preço de tabela.
+                </div>
+              ) : null}
+            </div>
+          ) : (
+            <div className="text-sm text-muted-foreground">Sem dados.</div>
+          )}
+        </SectionCard>
+
+        <div className="grid gap-4 lg:grid-cols-2">
+          <SectionCard title="Por categoria">
+            <div className="space-y-1 text-sm">
+              {(report?.categories ?? []).map((row) => (
+                <div key={row.categoryId} className="flex justify-between gap-2 border-t border-border/40 pt-1">
+                  <span>
+                    {row.category} <span className="text-muted-foreground">({row.quantity} un.)</span>
+                  </span>
+                  <span className="font-medium">{formatEur(row.value)}</span>
+                </div>
+              ))}
+            </div>
+          </SectionCard>
+
+          <SectionCard title="Consumo por serviço" description="Saídas do período valorizadas ao custo.">
+            <div className="space-y-1 text-sm">
+              {(report?.services ?? []).map((row) => (
+                <div key={String(row.requestingServiceId)} className="flex justify-between gap-2 border-t border-border/40 pt-1">
+                  <span>
+                    {row.code ? `${row.code} — ` : ""}
+                    {row.name} <span className="text-muted-foreground">({row.issuedQuantity} un.)</span>
+                  </span>
+                  <span className="font-medium">{formatEur(row.issuedValue)}</span>
+                </div>
+              ))}
+              {report && !report.services.length ? <div className="text-muted-foreground">Sem saídas no período.</div> : null}
+            </div>
+          </SectionCard>
+        </div>
+
+        <SectionCard title="Produtos" description="Custo unitário calculado vs. Product.price.">
+          <div className="space-y-1 text-sm">
+            {(report?.products ?? [])
+              .filter((row) => row.quantity > 0)
+              .slice(0, 200)
+              .map((row) => (
+                <div key={row.productId} className="flex flex-wrap items-center justify-between gap-2 border-t border-border/40 pt-1">
+                  <div>
+                    <div>
+                      {row.sku} · {row.name}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {row.category} · tabela {formatEur(row.listPrice)}
+                      {row.lastPurchasePrice !== null ? ` · última compra ${formatEur(row.lastPurchasePrice)}` : ""}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground">
+                      {row.quantity} × {formatEur(row.unitCost)}
+                    </span>
+                    <span className="font-medium">{formatEur(row.value)}</span>
+                    {row.variance !== 0 ? (
+                      <Badge variant="outline">{row.variance > 0 ? `+${formatEur(row.variance)}` : formatEur(row.variance)}</Badge>
+                    ) : null}
+                  </div>
+                </div>
+              ))}
+          </div>
+        </SectionCard>
+      </main>
+    </AuthenticatedLayout>
+  );
+}
@@ -2,6 +2,7 @@
 
 import AuthenticatedLayout from "@/app/components/AuthenticatedLayout";
 import AttachmentsDialog from "@/app/components/AttachmentsDialog";
+import RecordViewers from "@/app/components/RecordViewers";
 import { useAuth } from "@/app/authContext";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -126,16 +127,30 @@ type WorkflowEventDto = {
   note: string | null;
   createdAt: string;
   actor: { id: string; name: string | null; email: string };
+  onBehalfOf?: { id: string; name: string | null; email: string } | null;
   fromState: { code: string; name: string; requestStatus: string } | null;
   toState: { code: string; name: string; requestStatus: string } | null;
 };
 
+type UserRefDto = { id: string; name: string | null; email: string };
+
+type WorkflowQuorumDto = {
+  action: string;
+  required: number;
+  approvals: number;
+  approvers: Array<{ kind: "ROLE" | "USER"; key: string; label: string; satisfiedBy: UserRefDto | null }>;
+  votes: Array<{ eventId: string; createdAt: string; actor: UserRefDto | null; onBehalfOf: UserRefDto | null }>;
+  voter: string | null;
+  alreadyVoted: boolean;
+};
+
 type WorkflowInstanceDto = {
   id: string;
   completedAt: string | null;
   definition: { id: string; key: string; name: string; version: number };
   currentState: { id: string; code: string; name: string; requestStatus: string } | null;
   events: WorkflowEventDto[];
+  quorum: WorkflowQuorumDto | null;
 };
 
 type ExecutionUnitOption = {
@@ -285,6 +300,22 @@ export default function RequestDetailsPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [requestId, isAuthLoading, isLoggedIn]);
 
+  const [voting, setVoting] = useState(false);
+  const castQuorumVote = async () => {
+    if (!requestId || !workflow?.quorum) return;
+    setVoting(true);
+    try {
+      const res = await axiosInstance.post(`/workflows/requests/${requestId}/action`, { action: workflow.quorum.action });
+      toast({ title: "Aprovação", description: res.data?.message || "Aprovação concluída." });
+      await loadRequest();
+    } catch (error: any) {
+      const msg = error?.response?.data?.error || "Não foi possível registar o voto.";
+      toast({ title: "Erro", description: msg, variant: "destructive" });
+    } finally {
+      setVoting(false);
+    }
+  };
+
   const [requestingServices, setRequestingServices] = useState<RequestingServiceDto[]>([]);
   useEffect(() => {
     if (isAuthLoading || !isLoggedIn) return;
@@ -518,6 +549,11 @@ export default function RequestDetailsPage() {
             <p className="text-sm text-muted-foreground">
               {request?.gtmiNumber || (loading ? "A carregar…" : "—")}
             </p>
+            {requestId ? (
+              <div className="mt-1">
+                <RecordViewers resource={`request:${requestId}`} />
+              </div>
+            ) : null}
             {request?.status === "SUBMITTED" && workflow?.currentState?.code ? (
               <div className="mt-2">
                 <Badge variant="outline" className="border-border/60 bg-[hsl(var(--surface-2)/0.7)] text-muted-foreground">
@@ -527,6 +563,11 @@ export default function RequestDetailsPage() {
                       ? "Em validação (chefia)"
                       : workflow.currentState.name}
                 </Badge>
+                {workflow.quorum ? (
+                  <Badge variant="outline" className="ml-2 border-border/60 bg-[hsl(var(--surface-2)/0.7)] text-muted-foreground">
+                    {`Aprovação conjunta: ${workflow.quorum.approvals}/${workflow.quorum.required}`}
+                  </Badge>
+                ) : null}
               </div>
             ) : null}
           </div>
@@ -803,6 +844,37 @@ export default function RequestDetailsPage() {
               </Card>
             </div>
 
+            {workflow?.quorum ? (
+              <Card>
+                <CardHeader className="py-3">
+                  <CardTitle className="text-base">
+                    {`Aprovação conjunta — ${workflow.quorum.approvals} de ${workflow.quorum.required}`}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {workflow.quorum.approvers.map((a, index) => (
+                    <div key={`${a.kind}:${a.key}:${index}`} className="flex items-center justify-between gap-2 text-sm">
+                      <span>{a.kind === "ROLE" ? `Papel: ${a.label}` : a.label}</span>
+                      {a.satisfiedBy ? (
+                        <Badge variant="secondary">{`Aprovado por ${a.satisfiedBy.name || a.satisfiedBy.email}`}</Badge>
+                      ) : (
+                        <Badge variant="outline">Pendente</Badge>
+                      )}
+                    </div>
+                  ))}
+                  {workflow.quorum.voter ? (
+                    <div className="flex justify-end pt-1">
+                      <Button size="sm" onClick={() => void castQuorumVote()} disabled={voting}>
+                        {voting ? "A registar..." : "Aprovar"}
+                      </Button>
+                    </div>
+                  ) : workflow.quorum.alreadyVoted ? (
+                    <div className="text-xs text-muted-foreground">Já votou neste passo.</div>
+                  ) : null}
+                </CardContent>
+              </Card>
+            ) : null}
+
             <Card>
               <CardHeader className="py-3">
                 <CardTitle className="text-base">Histórico (workflow)</CardTitle>
@@ -813,11 +885,17 @@ export default function RequestDetailsPage() {
                     {workflow.events.slice(0, 12).map((ev) => (
                       <div key={ev.id} className="rounded-lg border border-border/60 bg-background p-2">
                         <div className="flex flex-wrap items-center justify-between gap-2">
-                          <div className="text-sm font-medium">{ev.action}</div>
+                          <div className="text-sm font-medium">
+                            {ev.action !== "VERSION_MIGRATED" && ev.fromState && ev.fromState.code === ev.toState?.code
+                              ? `Voto (${ev.action})`
+                              : ev.action}
+                          </div>
                           <div className="text-xs text-muted-foreground">{new Date(ev.createdAt).toLocaleString("pt-PT")}</div>
                         </div>
                         <div className="mt-1 text-xs text-muted-foreground">
-                          {(ev.actor?.name || ev.actor?.email || "—") + " • "}
+                          {(ev.actor?.name || ev.actor?.email || "—") +
+                            (ev.onBehalfOf ? ` em nome de ${ev.onBehalfOf.name || ev.onBehalfOf.email}` : "") +
+                            " • "}
                           {(ev.fromState?.name || "—") + " → " + (ev.toState?.name || "—")}
                         </div>
                         {ev.note ? <div className="mt-1 text-sm whitespace-pre-wrap">{ev.note}</div> : null}
@@ -32,6 +32,14 @@ type PendingApprovalRow = {
   requesterName: string | null;
   requestingService: string | null;
   requestingServiceId: number | null;
+  // Set when the request sits in a quorum step: votes so far and whether the user can still vote.
+  quorum: {
+    action: string;
+    required: number;
+    approvals: number;
+    voter: string | null;
+    alreadyVoted: boolean;
+  } | null;
 };
 
 function fmtDate(iso?: string | null) {
@@ -119,15 +127,20 @@ export default function PendingApprovalsPage() {
     if (!decisionRow) return;
     setDeciding(true);
     try {
-      await axiosInstance.post(`/workflows/requests/${decisionRow.id}/action`, {
-        targetStatus: decisionMode,
-        note: decisionNote.trim() ? decisionNote.trim() : undefined,
-      });
+      const note = decisionNote.trim() ? decisionNote.trim() : undefined;
+      const res = await axiosInstance.post(
+        `/workflows/requests/${decisionRow.id}/action`,
+        decisionMode === "APPROVED" && decisionRow.quorum
+          ? { action: decisionRow.quorum.action, note }
+          : { targetStatus: decisionMode, note },
+      );
       toast({
         title: "Aprovações",
-        description: decisionMode === "APPROVED"
-          ? "Aprovação (chefia) registada. Encaminhado para aprovação final."
-          : "Pedido rejeitado.",
+        description: res.data?.pending
+          ? res.data.message
+          : decisionMode === "APPROVED"
+            ? "Aprovação (chefia) registada. Encaminhado para aprovação final."
+            : "Pedido rejeitado.",
       });
       setDecisionOpen(false);
       await load();
@@ -175,6 +188,7 @@ export default function PendingApprovalsPage() {
                     <TableHead>Pedido</TableHead>
                     <TableHead>Serviço</TableHead>
                     <TableHead>Prioridade</TableHead>
+                    <TableHead>Aprovações</TableHead>
                     <TableHead>Prazo</TableHead>
                     <TableHead>Data</TableHead>
                     <TableHead className="text-right">Ações</TableHead>
@@ -190,6 +204,16 @@ export default function PendingApprovalsPage() {
                       </TableCell>
                       <TableCell className="text-sm">{r.requestingService || "—"}</TableCell>
                       <TableCell>{priorityBadge(r.priority)}</TableCell>
+                      <TableCell className="text-sm">
+                        {r.quorum ? (
+                          <div className="flex flex-col gap-1">
+                            <span>{`${r.quorum.approvals} de ${r.quorum.required}`}</span>
+                            {r.quorum.alreadyVoted ? <Badge variant="outline">Já votou</Badge> : null}
+                          </div>
+                        ) : (
+                          "—"
+                        )}
+                      </TableCell>
                       <TableCell className="text-sm">{fmtDate(r.dueAt)}</TableCell>
                       <TableCell className="text-sm">{fmtDate(r.requestedAt)}</TableCell>
                       <TableCell className="text-right">
@@ -197,7 +221,11 @@ export default function PendingApprovalsPage() {
                           <Button size="sm" variant="outline" onClick={() => router.push(`/requests/${r.id}`)}>
                             Abrir
                           </Button>
-                          <Button size="sm" onClick={() => openDecision("APPROVED", r)}>
+                          <Button
+                            size="sm"
+                            onClick={() => openDecision("APPROVED", r)}
+                            disabled={Boolean(r.quorum && !r.quorum.voter)}
+                          >
                             Aprovar
                           </Button>
                           <Button size="sm" variant="destructive" onClick={() => openDecision("REJECTED", r)}>
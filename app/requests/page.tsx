@@ -783,11 +783,14 @@ export default function RequestsPage() {
     const reload = () => {
       void loadAll();
     };
+    // Sent when missed events could not be replayed after a reconnect.
+    es.addEventListener("reset", reload);
     es.addEventListener("request.created", reload);
     es.addEventListener("request.updated", reload);
     es.addEventListener("request.status_changed", reload);
     es.addEventListener("public-request.accepted", reload);
     return () => {
+      es.removeEventListener("reset", reload);
       es.removeEventListener("request.created", reload);
       es.removeEventListener("request.updated", reload);
       es.removeEventListener("request.status_changed", reload);
@@ -74,7 +74,7 @@ type UnitLookup = {
 
 type StockMovement = {
   id: string;
-  type: "IN" | "OUT" | "RETURN" | "REPAIR_OUT" | "REPAIR_IN" | "SCRAP" | "LOST";
+  type: "IN" | "OUT" | "RETURN" | "REPAIR_OUT" | "REPAIR_IN" | "SCRAP" | "LOST" | "TRANSFER_OUT" | "TRANSFER_IN" | "ADJUSTMENT";
   quantity: number;
   reason?: string | null;
   costCenter?: string | null;
@@ -0,0 +1,137 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import AuthenticatedLayout from "@/app/components/AuthenticatedLayout";
+import PageHeader from "@/app/components/PageHeader";
+import SectionCard from "@/app/components/SectionCard";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import axiosInstance from "@/utils/axiosInstance";
+
+type SessionRow = {
+  id: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  ip: string | null;
+  userAgent: string | null;
+  device: string | null;
+  current: boolean;
+};
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString("pt-PT", { dateStyle: "short", timeStyle: "short" });
+}
+
+export default function MySessionsPage() {
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<SessionRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const res = await axiosInstance.get("/auth/sessions");
+      setSessions(Array.isArray(res.data) ? res.data : []);
+    } catch (error: any) {
+      const msg = error?.response?.data?.error || "Não foi possível carregar as sessões.";
+      toast({ title: "Erro", description: msg, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  const revoke = async (row: SessionRow) => {
+    if (!window.confirm(`Terminar a sessão em "${row.device || "dispositivo desconhecido"}"?`)) return;
+    setBusyId(row.id);
+    try {
+      await axiosInstance.delete(`/auth/sessions/${row.id}`);
+      setSessions((prev) => prev.filter((s) => s.id !== row.id));
+      toast({ title: "Sessão terminada" });
+    } catch (error: any) {
+      const msg = error?.response?.data?.error || "Não foi possível terminar a sessão.";
+      toast({ title: "Erro", description: msg, variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const revokeOthers = async () => {
+    if (!window.confirm("Terminar todas as outras sessões?")) return;
+    setBusyId("others");
+    try {
+      const res = await axiosInstance.delete("/auth/sessions");
+      setSessions((prev) => prev.filter((s) => s.current));
+      toast({ title: "Sessões terminadas", description: `${res.data?.revoked ?? 0} sessão(ões) terminada(s).` });
+    } catch (error: any) {
+      const msg = error?.response?.data?.error || "Não foi possível terminar as sessões.";
+      toast({ title: "Erro", description: msg, variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const others = sessions.filter((s) => !s.current).length;
+
+  return (
+    <AuthenticatedLayout>
+      <div className="space-y-6">
+        <PageHeader
+          title="Sessões"
+          description="Dispositivos com sessão iniciada na sua conta."
+          actions={
+            <Button variant="outline" onClick={() => void load()} disabled={loading}>
+              {loading ? "A carregar..." : "Atualizar"}
+            </Button>
+          }
+        />
+
+        <SectionCard
+          title="Sessões ativas"
+          description="Se não reconhecer um dispositivo, termine a sessão e altere a password."
+          actions={
+            <Button size="sm" variant="outline" onClick={() => void revokeOthers()} disabled={!others || busyId !== null}>
+              Terminar as outras
+            </Button>
+          }
+        >
+          {sessions.length ? (
+            <div className="space-y-2">
+              {sessions.map((s) => (
+                <div
+                  key={s.id}
+                  className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-border/70 bg-[hsl(var(--surface-1)/0.75)] p-3"
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 font-medium">
+                      {s.device || "Dispositivo desconhecido"}
+                      {s.current ? <Badge variant="secondary">Esta sessão</Badge> : null}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {s.ip ? `IP ${s.ip} · ` : ""}Início {formatDateTime(s.createdAt)} · Última atividade {formatDateTime(s.lastSeenAt)}
+                    </div>
+                    {s.userAgent ? <div className="truncate text-xs text-muted-foreground">{s.userAgent}</div> : null}
+                  </div>
+                  {!s.current ? (
+                    <Button size="sm" variant="ghost" onClick={() => void revoke(s)} disabled={busyId !== null}>
+                      Terminar
+                    </Button>
+                  ) : null}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-sm text-muted-foreground">{loading ? "A carregar..." : "Sem sessões ativas."}</div>
+          )}
+        </SectionCard>
+      </div>
+    </AuthenticatedLayout>
+  );
+}
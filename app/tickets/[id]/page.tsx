@@ -3,6 +3,7 @@
 import { useEffect, useMemo, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import AuthenticatedLayout from "@/app/components/AuthenticatedLayout";
+import RecordViewers from "@/app/components/RecordViewers";
 import { useAuth } from "@/app/authContext";
 import axiosInstance from "@/utils/axiosInstance";
 import { Button } from "@/components/ui/button";
@@ -286,7 +287,7 @@ export default function TicketDetailsPage() {
   useEffect(() => {
     if (!ticketId || !isLoggedIn) return;
     setRealtimeStatus("connecting");
-    const es = new EventSource("/api/realtime/stream");
+    const es = new EventSource(`/api/realtime/stream?topics=${encodeURIComponent(`ticket:${ticketId}`)}`);
     es.onopen = () => setRealtimeStatus("online");
     es.onerror = () => setRealtimeStatus("offline");
     const onRealtime = (ev: MessageEvent) => {
@@ -300,6 +301,8 @@ export default function TicketDetailsPage() {
       }
     };
 
+    const onReset = () => void loadTicket();
+    es.addEventListener("reset", onReset);
     es.addEventListener("ticket.message_created", onRealtime);
     es.addEventListener("ticket.updated", onRealtime);
     es.addEventListener("ticket.escalated", onRealtime);
@@ -307,6 +310,7 @@ export default function TicketDetailsPage() {
     es.addEventListener("notification.created", onRealtime);
 
     return () => {
+      es.removeEventListener("reset", onReset);
       es.removeEventListener("ticket.message_created", onRealtime);
       es.removeEventListener("ticket.updated", onRealtime);
       es.removeEventListener("ticket.escalated", onRealtime);
@@ -463,6 +467,9 @@ export default function TicketDetailsPage() {
               <div className="mt-1 text-xs text-muted-foreground">
                 Criado por {ticket.createdBy?.name || ticket.createdBy?.email} em {fmtDateTime(ticket.createdAt)}
               </div>
+              <div className="mt-1">
+                <RecordViewers resource={`ticket:${ticket.id}`} />
+              </div>
             </div>
 
             <div className="flex flex-wrap items-center justify-end gap-2">
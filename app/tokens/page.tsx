@@ -0,0 +1,381 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import AuthenticatedLayout from "@/app/components/AuthenticatedLayout";
+import PageHeader from "@/app/components/PageHeader";
+import SectionCard from "@/app/components/SectionCard";
+import { useAuth } from "@/app/authContext";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import axiosInstance from "@/utils/axiosInstance";
+
+type TokenRow = {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: string[];
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  user: { id: string; name: string; isServiceAccount: boolean };
+  allowedIps: Array<{ id: string; ipOrCidr: string; note: string | null }>;
+};
+
+type ScopeOption = { key: string; name: string };
+type AllowedIpOption = { id: string; ipOrCidr: string; note: string | null; isActive: boolean };
+type ServiceAccountRow = { id: string; name: string; isActive: boolean; activeTokens: number };
+
+const SELF = "__self__";
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString("pt-PT", { dateStyle: "short", timeStyle: "short" });
+}
+
+function tokenStatus(row: TokenRow) {
+  if (row.revokedAt) return { label: "Revogado", variant: "outline" as const };
+  if (row.expiresAt && new Date(row.expiresAt).getTime() <= Date.now()) {
+    return { label: "Expirado", variant: "outline" as const };
+  }
+  return { label: "Ativo", variant: "secondary" as const };
+}
+
+export default function ApiTokensPage() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const isAdmin = user?.role === "ADMIN";
+
+  const [tokens, setTokens] = useState<TokenRow[]>([]);
+  const [scopeOptions, setScopeOptions] = useState<ScopeOption[]>([]);
+  const [allowedIps, setAllowedIps] = useState<AllowedIpOption[]>([]);
+  const [serviceAccounts, setServiceAccounts] = useState<ServiceAccountRow[]>([]);
+  const [tenantTokens, setTenantTokens] = useState<TokenRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const [owner, setOwner] = useState(SELF);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<string[]>([]);
+  const [expiresOn, setExpiresOn] = useState("");
+  const [ipIds, setIpIds] = useState<string[]>([]);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [serviceAccountName, setServiceAccountName] = useState("");
+
+  const showError = (error: any, fallback: string) => {
+    const msg = error?.response?.data?.error || fallback;
+    toast({ title: "Erro", description: msg, variant: "destructive" });
+  };
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const res = await axiosInstance.get("/auth/tokens");
+      setTokens(Array.isArray(res.data?.tokens) ? res.data.tokens : []);
+      setScopeOptions(Array.isArray(res.data?.availableScopes) ? res.data.availableScopes : []);
+      if (isAdmin) {
+        const [accountsRes, tokensRes, ipsRes] = await Promise.all([
+          axiosInstance.get("/admin/service-accounts"),
+          axiosInstance.get("/admin/api-tokens"),
+          axiosInstance.get("/admin/allowed-ips"),
+        ]);
+        setServiceAccounts(Array.isArray(accountsRes.data) ? accountsRes.data : []);
+        setTenantTokens(Array.isArray(tokensRes.data) ? tokensRes.data : []);
+        setAllowedIps(Array.isArray(ipsRes.data) ? ipsRes.data.filter((ip: AllowedIpOption) => ip.isActive) : []);
+      }
+    } catch (error: any) {
+      showError(error, "Não foi possível carregar os tokens.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void load();
+  }, [isAdmin]);
+
+  const toggle = (list: string[], key: string, checked: boolean) =>
+    checked ? Array.from(new Set([...list, key])) : list.filter((k) => k !== key);
+
+  const createToken = async () => {
+    setBusy(true);
+    try {
+      const body = {
+        name: name.trim(),
+        scopes,
+        expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : null,
+        allowedIpIds: ipIds,
+      };
+      const res =
+        owner === SELF
+          ? await axiosInstance.post("/auth/tokens", body)
+          : await axiosInstance.post("/admin/api-tokens", { ...body, userId: owner });
+      setCreatedSecret(res.data?.token ?? null);
+      setName("");
+      setScopes([]);
+      setExpiresOn("");
+      setIpIds([]);
+      toast({ title: "Token criado" });
+      await load();
+    } catch (error: any) {
+      showError(error, "Não foi possível criar o token.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revoke = async (row: TokenRow, asAdmin: boolean) => {
+    if (!window.confirm(`Revogar o token "${row.name}"? As integrações que o usam deixam de funcionar.`)) return;
+    setBusy(true);
+    try {
+      await axiosInstance.delete(asAdmin ? `/admin/api-tokens/${row.id}` : `/auth/tokens/${row.id}`);
+      toast({ title: "Token revogado" });
+      await load();
+    } catch (error: any) {
+      showError(error, "Não foi possível revogar o token.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createServiceAccount = async () => {
+    setBusy(true);
+    try {
+      await axiosInstance.post("/admin/service-accounts", { name: serviceAccountName.trim() });
+      setServiceAccountName("");
+      toast({ title: "Conta de serviço criada" });
+      await load();
+    } catch (error: any) {
+      showError(error, "Não foi possível criar a conta de serviço.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const setServiceAccountActive = async (account: ServiceAccountRow, isActive: boolean) => {
+    setBusy(true);
+    try {
+      await axiosInstance.patch(`/admin/service-accounts/${account.id}`, { isActive });
+      await load();
+    } catch (error: any) {
+      showError(error, "Não foi possível atualizar a conta de serviço.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copySecret = async () => {
+    if (!createdSecret) return;
+    try {
+      await navigator.clipboard.writeText(createdSecret);
+      toast({ title: "Copiado" });
+    } catch {
+      toast({ title: "Erro", description: "Não foi possível copiar.", variant: "destructive" });
+    }
+  };
+
+  const renderTokens = (rows: TokenRow[], asAdmin: boolean) =>
+    rows.length ? (
+      <div className="space-y-2">
+        {rows.map((t) => {
+          const status = tokenStatus(t);
+          return (
+            <div
+              key={t.id}
+              className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-border/70 bg-[hsl(var(--surface-1)/0.75)] p-3"
+            >
+              <div className="min-w-0">
+                <div className="flex flex-wrap items-center gap-2 font-medium">
+                  {t.name}
+                  <Badge variant={status.variant}>{status.label}</Badge>
+                  {asAdmin ? (
+                    <Badge variant="outline">{t.user.isServiceAccount ? `Serviço: ${t.user.name}` : t.user.name}</Badge>
+                  ) : null}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  <span className="font-mono">{t.tokenPrefix}…</span> · Criado {formatDateTime(t.createdAt)}
+                  {t.expiresAt ? ` · Expira ${formatDateTime(t.expiresAt)}` : " · Sem expiração"}
+                  {t.lastUsedAt ? ` · Último uso ${formatDateTime(t.lastUsedAt)}${t.lastUsedIp ? ` (${t.lastUsedIp})` : ""}` : " · Nunca usado"}
+                </div>
+                <div className="truncate text-xs text-muted-foreground">Permissões: {t.scopes.join(", ")}</div>
+                {t.allowedIps.length ? (
+                  <div className="truncate text-xs text-muted-foreground">
+                    IPs: {t.allowedIps.map((ip) => ip.ipOrCidr).join(", ")}
+                  </div>
+                ) : null}
+              </div>
+              {!t.revokedAt ? (
+                <Button size="sm" variant="ghost" onClick={() => void revoke(t, asAdmin)} disabled={busy}>
+                  Revogar
+                </Button>
+              ) : null}
+            </div>
+          );
+        })}
+      </div>
+    ) : (
+      <div className="text-sm text-muted-foreground">{loading ? "A carregar..." : "Sem tokens."}</div>
+    );
+
+  return (
+    <AuthenticatedLayout>
+      <div className="space-y-6">
+        <PageHeader
+          title="Tokens de API"
+          description="Acesso de integrações à API com o header Authorization: Bearer."
+          actions={
+            <Button variant="outline" onClick={() => void load()} disabled={loading}>
+              {loading ? "A carregar..." : "Atualizar"}
+            </Button>
+          }
+        />
+
+        {createdSecret ? (
+          <SectionCard
+            title="Token criado"
+            description="Guarde-o agora: por segurança não volta a ser mostrado."
+            actions={
+              <Button size="sm" variant="ghost" onClick={() => setCreatedSecret(null)}>
+                Fechar
+              </Button>
+            }
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <code className="break-all rounded-md border border-border/70 px-2 py-1 text-sm">{createdSecret}</code>
+              <Button size="sm" variant="outline" onClick={() => void copySecret()}>
+                Copiar
+              </Button>
+            </div>
+          </SectionCard>
+        ) : null}
+
+        <SectionCard
+          title="Novo token"
+          description="O token só pode usar as permissões escolhidas, e nunca mais do que o titular tem."
+        >
+          <div className="space-y-3">
+            <div className="grid gap-3 md:grid-cols-3">
+              <Input placeholder="Nome (ex.: ERP contabilidade)" value={name} onChange={(e) => setName(e.target.value)} />
+              <Input type="date" value={expiresOn} onChange={(e) => setExpiresOn(e.target.value)} />
+              {isAdmin ? (
+                <Select value={owner} onValueChange={setOwner}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Titular" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SELF}>A minha conta</SelectItem>
+                    {serviceAccounts
+                      .filter((a) => a.isActive)
+                      .map((a) => (
+                        <SelectItem key={a.id} value={a.id}>
+                          {`Serviço: ${a.name}`}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              ) : null}
+            </div>
+            <div className="text-xs text-muted-foreground">Sem data, o token não expira.</div>
+
+            <div className="grid gap-1 md:grid-cols-2 xl:grid-cols-3">
+              {scopeOptions.map((s) => (
+                <label key={s.key} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={scopes.includes(s.key)}
+                    onCheckedChange={(v) => setScopes((prev) => toggle(prev, s.key, Boolean(v)))}
+                  />
+                  <span>
+                    {s.name} <span className="font-mono text-xs text-muted-foreground">{s.key}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            {isAdmin && allowedIps.length ? (
+              <div className="space-y-1">
+                <div className="text-xs text-muted-foreground">Restringir a IPs da allowlist (opcional):</div>
+                {allowedIps.map((ip) => (
+                  <label key={ip.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={ipIds.includes(ip.id)}
+                      onCheckedChange={(v) => setIpIds((prev) => toggle(prev, ip.id, Boolean(v)))}
+                    />
+                    <span className="font-mono">{ip.ipOrCidr}</span>
+                    {ip.note ? <span className="text-muted-foreground">{ip.note}</span> : null}
+                  </label>
+                ))}
+              </div>
+            ) : null}
+
+            <div className="flex justify-end">
+              <Button onClick={() => void createToken()} disabled={busy || name.trim().length < 2 || !scopes.length}>
+                Criar token
+              </Button>
+            </div>
+          </div>
+        </SectionCard>
+
+        <SectionCard title="Os meus tokens">{renderTokens(tokens, false)}</SectionCard>
+
+        {isAdmin ? (
+          <>
+            <SectionCard
+              title="Contas de serviço"
+              description="Contas sem login para integrações; desativar uma conta bloqueia todos os seus tokens."
+            >
+              <div className="space-y-3">
+                <div className="flex flex-wrap gap-2">
+                  <Input
+                    className="max-w-sm"
+                    placeholder="Nome da conta de serviço"
+                    value={serviceAccountName}
+                    onChange={(e) => setServiceAccountName(e.target.value)}
+                  />
+                  <Button
+                    onClick={() => void createServiceAccount()}
+                    disabled={busy || serviceAccountName.trim().length < 2}
+                  >
+                    Criar conta
+                  </Button>
+                </div>
+                {serviceAccounts.length ? (
+                  <div className="space-y-2">
+                    {serviceAccounts.map((a) => (
+                      <div
+                        key={a.id}
+                        className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-border/70 bg-[hsl(var(--surface-1)/0.75)] p-3"
+                      >
+                        <div className="flex items-center gap-2 font-medium">
+                          {a.name}
+                          <Badge variant={a.isActive ? "secondary" : "outline"}>{a.isActive ? "Ativa" : "Desativada"}</Badge>
+                          <span className="text-xs text-muted-foreground">{a.activeTokens} token(s) ativo(s)</span>
+                        </div>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => void setServiceAccountActive(a, !a.isActive)}
+                          disabled={busy}
+                        >
+                          {a.isActive ? "Desativar" : "Reativar"}
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-sm text-muted-foreground">Sem contas de serviço.</div>
+                )}
+              </div>
+            </SectionCard>
+
+            <SectionCard title="Todos os tokens da entidade">{renderTokens(tenantTokens, true)}</SectionCard>
+          </>
+        ) : null}
+      </div>
+    </AuthenticatedLayout>
+  );
+}
@@ -10,6 +10,9 @@ export interface Product {
   quantity: number;
   status?: string;
   isPatrimonializable?: boolean;
+  minStock?: number | null;
+  maxStock?: number | null;
+  reorderPoint?: number | null;
   createdAt: Date | string;
   updatedAt?: Date | string;
   userId: string;
@@ -40,10 +40,60 @@ type UserRow = {
   createdAt: string;
   updatedAt: string;
   mustChangePassword?: boolean;
+  mfaEnabled?: boolean;
+  authProvider?: "LOCAL" | "LDAP";
+  isServiceAccount?: boolean;
+  anonymisedAt?: string | null;
   requestingServiceId?: number | null;
   requestingService?: { id: number; codigo: string; designacao: string } | null;
 };
 
+type MfaPolicy = {
+  requireForAdmins: boolean;
+  requiredRoleKeys: string[];
+  updatedAt?: string | null;
+};
+
+type AccessRoleOption = { key: string; name: string };
+
+type LdapStatus = {
+  configured: boolean;
+  enabledForTenant: boolean;
+  url: string | null;
+  baseDn: string | null;
+  syncIntervalMinutes: number | null;
+  lastSync: { at: string; note: string | null } | null;
+};
+
+type DirectoryMappingRow = {
+  id: string;
+  kind: "GROUP" | "OU";
+  dn: string;
+  priority: number;
+  requestingService: { id: number; codigo: string; designacao: string } | null;
+  role: { id: string; key: string; name: string } | null;
+};
+
+type DirectorySyncReport = {
+  dryRun: boolean;
+  directoryEntries: number;
+  created: number;
+  linked: number;
+  updated: number;
+  unchanged: number;
+  deactivated: number;
+  roleChanges: number;
+  skipped: Array<{ dn: string; reason: string }>;
+};
+
+type UserSessionRow = {
+  id: string;
+  createdAt: string;
+  lastSeenAt: string;
+  ip?: string | null;
+  device?: string | null;
+};
+
 type IpAccessRequestStatus = "PENDING" | "APPROVED" | "REJECTED";
 
 type IpRequestRow = {
@@ -111,6 +161,9 @@ export default function UsersPage() {
   const [auditLoading, setAuditLoading] = useState(false);
   const [auditRows, setAuditRows] = useState<UserAuditRow[]>([]);
   const [auditUserName, setAuditUserName] = useState("");
+  const [sessionsUser, setSessionsUser] = useState<UserRow | null>(null);
+  const [sessionsLoading, setSessionsLoading] = useState(false);
+  const [sessionRows, setSessionRows] = useState<UserSessionRow[]>([]);
 
   const [name, setName] = useState("");
   const [email, setEmail] = useState("");
@@ -119,6 +172,18 @@ export default function UsersPage() {
   const [creating, setCreating] = useState(false);
   const [requestingServices, setRequestingServices] = useState<{ id: number; codigo: string; designacao: string }[]>([]);
   const [requestingServiceId, setRequestingServiceId] = useState<number | null>(null);
+  const [mfaPolicy, setMfaPolicy] = useState<MfaPolicy>({ requireForAdmins: false, requiredRoleKeys: [] });
+  const [accessRoles, setAccessRoles] = useState<AccessRoleOption[]>([]);
+  const [savingMfaPolicy, setSavingMfaPolicy] = useState(false);
+  const [ldapStatus, setLdapStatus] = useState<LdapStatus | null>(null);
+  const [ldapMappings, setLdapMappings] = useState<DirectoryMappingRow[]>([]);
+  const [ldapSyncing, setLdapSyncing] = useState(false);
+  const [ldapReport, setLdapReport] = useState<DirectorySyncReport | null>(null);
+  const [mappingKind, setMappingKind] = useState<"GROUP" | "OU">("GROUP");
+  const [mappingDn, setMappingDn] = useState("");
+  const [mappingServiceId, setMappingServiceId] = useState<number | null>(null);
+  const [mappingRoleKey, setMappingRoleKey] = useState<string | null>(null);
+  const [savingMapping, setSavingMapping] = useState(false);
 
   const isAdmin = user?.role === "ADMIN";
 
@@ -248,6 +313,138 @@ export default function UsersPage() {
     }
   };
 
+  const loadMfaPolicy = async () => {
+    try {
+      const [policyRes, rolesRes] = await Promise.all([
+        axiosInstance.get("/admin/mfa-policy"),
+        axiosInstance.get("/admin/rbac/roles"),
+      ]);
+      setMfaPolicy(policyRes.data);
+      setAccessRoles((rolesRes.data || []).map((r: any) => ({ key: r.key, name: r.name })));
+    } catch (error: any) {
+      const msg = error?.response?.data?.error || "Não foi possível carregar a política de 2FA.";
+      toast({ title: "Erro", description: msg, variant: "destructive" });
+    }
+  };
+
+  const saveMfaPolicy = async () => {
+    setSavingMfaPolicy(true);
+    try {
+      const res = await axiosInstance.put("/admin/mfa-policy", {
+        requireForAdmins: mfaPolicy.requireForAdmins,
+        requiredRoleKeys: mfaPolicy.requiredRoleKeys,
+      });
+      setMfaPolicy(res.data);
+      toast({ title: "Política de 2FA guardada" });
+    } catch (error: any) {
+      const msg = error?.response?.data?.error || "Não foi possível guardar a política de 2FA.";
+      toast({ title: "Erro", description: msg, variant: "destructive" });
+    } finally {
+      setSavingMfaPolicy(false);
+    }
+  };
+
+  const resetUserMfa = async (u: UserRow) => {
+    if (!window.confirm(`Repor a autenticação de dois fatores de "${u.name}"? Terá de configurar novamente a aplicação autenticadora.`)) {
+      return;
+    }
+    try {
+      await axiosInstance.post(`/admin/users/${u.id}/mfa-reset`);
+      setUsers((prev) => prev.map((row) => (row.id === u.id ? { ...row, mfaEnabled: false } : row)));
+      toast({ title: "2FA reposto" });
+    } catch (error: any) {
+      const msg = error?.response?.data?.error || "Não foi possível repor o 2FA.";
+      toast({ title: "Erro", description: msg, variant: "destructive" });
+    }
+  };
+
+  const exportUserData = (u: UserRow) => {
+    try {
+      window.open(`/api/admin/users/${u.id}/data-export`, "_blank");
+    } catch {
+      toast({ title: "Erro", description: "Não foi possível abrir o download.", variant: "destructive" });
+    }
+  };
+
+  const anonymiseUser = async (u: UserRow) => {
+    const typed = window.prompt(
+      `Anonimizar "${u.name}"? Esta ação é irreversível: nome, e-mail, sessões, tokens, 2FA e notificações são removidos; requisições, tickets e auditoria ficam com um pseudónimo.\n\nEscreva ANONIMIZAR para confirmar.`
+    );
+    if (typed?.trim().toUpperCase() !== "ANONIMIZAR") return;
+    try {
+      await axiosInstance.post(`/admin/users/${u.id}/anonymise`);
+      toast({ title: "Utilizador anonimizado" });
+      await loadUsers();
+    } catch (error: any) {
+      const msg = error?.response?.data?.error || "Não foi possível anonimizar o utilizador.";
+      toast({ title: "Erro", description: msg, variant: "destructive" });
+    }
+  };
+
+  const loadLdap = async () => {
+    try {
+      const [statusRes, mappingsRes] = await Promise.all([
+        axiosInstance.get("/admin/ldap/sync"),
+        axiosInstance.get("/admin/ldap/mappings"),
+      ]);
+      setLdapStatus(statusRes.data);
+      setLdapMappings(mappingsRes.data || []);
+    } catch {
+      // ignore silently; optional feature
+    }
+  };
+
+  const runLdapSync = async (dryRun: boolean) => {
+    setLdapSyncing(true);
+    try {
+      const res = await axiosInstance.post("/admin/ldap/sync", { dryRun });
+      setLdapReport(res.data);
+      toast({ title: dryRun ? "Simulação concluída" : "Sincronização concluída" });
+      if (!dryRun) {
+        loadUsers();
+        loadLdap();
+      }
+    } catch (error: any) {
+      const msg = error?.response?.data?.error || "Não foi possível sincronizar com o diretório.";
+      toast({ title: "Erro", description: msg, variant: "destructive" });
+    } finally {
+      setLdapSyncing(false);
+    }
+  };
+
+  const createLdapMapping = async () => {
+    setSavingMapping(true);
+    try {
+      const res = await axiosInstance.post("/admin/ldap/mappings", {
+        kind: mappingKind,
+        dn: mappingDn.trim(),
+        requestingServiceId: mappingServiceId,
+        roleKey: mappingRoleKey,
+      });
+      setLdapMappings((prev) => [...prev, res.data]);
+      setMappingDn("");
+      setMappingServiceId(null);
+      setMappingRoleKey(null);
+      toast({ title: "Mapeamento criado" });
+    } catch (error: any) {
+      const msg = error?.response?.data?.error || "Não foi possível criar o mapeamento.";
+      toast({ title: "Erro", description: msg, variant: "destructive" });
+    } finally {
+      setSavingMapping(false);
+    }
+  };
+
+  const deleteLdapMapping = async (m: DirectoryMappingRow) => {
+    if (!window.confirm(`Remover o mapeamento "${m.dn}"?`)) return;
+    try {
+      await axiosInstance.delete(`/admin/ldap/mappings/${m.id}`);
+      setLdapMappings((prev) => prev.filter((row) => row.id !== m.id));
+    } catch (error: any) {
+      const msg = error?.response?.data?.error || "Não foi possível remover o mapeamento.";
+      toast({ title: "Erro", description: msg, variant: "destructive" });
+    }
+  };
+
   const loadIpAccess = async () => {
     setIpLoading(true);
     try {
@@ -292,6 +489,8 @@ export default function UsersPage() {
 
     loadUsers();
     loadRequestingServices();
+    loadMfaPolicy();
+    loadLdap();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isAuthLoading, isLoggedIn, isAdmin]);
 
@@ -416,6 +615,37 @@ export default function UsersPage() {
     }
   };
 
+  const openUserSessions = async (u: UserRow) => {
+    setSessionsUser(u);
+    setSessionsLoading(true);
+    try {
+      const res = await axiosInstance.get(`/admin/users/${u.id}/sessions`);
+      setSessionRows(Array.isArray(res.data) ? res.data : []);
+    } catch (error: any) {
+      const msg = error?.response?.data?.error || "Não foi possível carregar as sessões.";
+      toast({ title: "Erro", description: msg, variant: "destructive" });
+      setSessionRows([]);
+    } finally {
+      setSessionsLoading(false);
+    }
+  };
+
+  const revokeUserSessions = async (sessionId?: string) => {
+    if (!sessionsUser) return;
+    const question = sessionId
+      ? "Terminar esta sessão?"
+      : `Terminar todas as sessões de "${sessionsUser.name}"?`;
+    if (!window.confirm(question)) return;
+    try {
+      await axiosInstance.delete(`/admin/users/${sessionsUser.id}/sessions`, { params: sessionId ? { sessionId } : {} });
+      setSessionRows((prev) => (sessionId ? prev.filter((r) => r.id !== sessionId) : []));
+      toast({ title: sessionId ? "Sessão terminada" : "Sessões terminadas" });
+    } catch (error: any) {
+      const msg = error?.response?.data?.error || "Não foi possível terminar a sessão.";
+      toast({ title: "Erro", description: msg, variant: "destructive" });
+    }
+  };
+
   const createAllowedIp = async () => {
     if (!newAllowedIp.trim()) return;
     setCreatingAllowedIp(true);
@@ -538,51 +768,209 @@ export default function UsersPage() {
             </div>
 
             <div className="grid grid-cols-1 xl:grid-cols-[420px_minmax(0,1fr)] gap-4">
-              <SectionCard
-                title="Criar utilizador"
-                description="Cria contas internas (o registo público está desativado)."
-              >
-                <div className="space-y-2">
-                  <Input placeholder="Nome" value={name} onChange={(e) => setName(e.target.value)} />
-                  <Input placeholder="Email" value={email} onChange={(e) => setEmail(e.target.value)} />
-                  <Input
-                    placeholder="Password (min 8)"
-                    type="password"
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
-                  />
-                  <Select
-                    value={requestingServiceId ? String(requestingServiceId) : "__none__"}
-                    onValueChange={(v) => setRequestingServiceId(v === "__none__" ? null : Number(v))}
+              <div className="space-y-4">
+                <SectionCard
+                  title="Criar utilizador"
+                  description="Cria contas internas (o registo público está desativado)."
+                >
+                  <div className="space-y-2">
+                    <Input placeholder="Nome" value={name} onChange={(e) => setName(e.target.value)} />
+                    <Input placeholder="Email" value={email} onChange={(e) => setEmail(e.target.value)} />
+                    <Input
+                      placeholder="Password (min 8)"
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                    />
+                    <Select
+                      value={requestingServiceId ? String(requestingServiceId) : "__none__"}
+                      onValueChange={(v) => setRequestingServiceId(v === "__none__" ? null : Number(v))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Serviço requisitante (opcional)" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="__none__">Nenhum</SelectItem>
+                        {requestingServices.map((s) => (
+                          <SelectItem key={s.id} value={String(s.id)}>
+                            {`${s.codigo} - ${s.designacao}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={role} onValueChange={(v) => setRole(v as UserRole)}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Role" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="USER">USER</SelectItem>
+                        <SelectItem value="ADMIN">ADMIN</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex justify-end mt-3">
+                    <Button onClick={createUser} disabled={!canCreate || creating}>
+                      {creating ? "A criar..." : "Criar"}
+                    </Button>
+                  </div>
+                </SectionCard>
+
+                <SectionCard
+                  title="Autenticação de dois fatores"
+                  description="Perfis obrigados a usar código TOTP no login."
+                >
+                  <div className="space-y-2">
+                    <label className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={mfaPolicy.requireForAdmins}
+                        onCheckedChange={(v) => setMfaPolicy((prev) => ({ ...prev, requireForAdmins: Boolean(v) }))}
+                      />
+                      Obrigatório para administradores
+                    </label>
+                    {accessRoles.length ? (
+                      <div className="space-y-1">
+                        <div className="text-xs text-muted-foreground">Obrigatório para os perfis:</div>
+                        {accessRoles.map((r) => (
+                          <label key={r.key} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={mfaPolicy.requiredRoleKeys.includes(r.key)}
+                              onCheckedChange={(v) =>
+                                setMfaPolicy((prev) => ({
+                                  ...prev,
+                                  requiredRoleKeys: v
+                                    ? Array.from(new Set([...prev.requiredRoleKeys, r.key]))
+                                    : prev.requiredRoleKeys.filter((key) => key !== r.key),
+                                }))
+                              }
+                            />
+                            {r.name}
+                          </label>
+                        ))}
+                      </div>
+                    ) : null}
+                  </div>
+                  <div className="flex justify-end mt-3">
+                    <Button onClick={saveMfaPolicy} disabled={savingMfaPolicy}>
+                      {savingMfaPolicy ? "A guardar..." : "Guardar"}
+                    </Button>
+                  </div>
+                </SectionCard>
+
+                {ldapStatus?.enabledForTenant ? (
+                  <SectionCard
+                    title="Diretório LDAP"
+                    description="Sincronização de contas e mapeamento de grupos/OUs para serviços e perfis."
                   >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Serviço requisitante (opcional)" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="__none__">Nenhum</SelectItem>
-                      {requestingServices.map((s) => (
-                        <SelectItem key={s.id} value={String(s.id)}>
-                          {`${s.codigo} - ${s.designacao}`}
-                        </SelectItem>
+                    <div className="space-y-1 text-xs text-muted-foreground">
+                      <div className="truncate">{`${ldapStatus.url} · ${ldapStatus.baseDn}`}</div>
+                      <div>
+                        {ldapStatus.syncIntervalMinutes
+                          ? `Sincronização automática a cada ${ldapStatus.syncIntervalMinutes} min.`
+                          : "Sem sincronização automática."}
+                      </div>
+                      {ldapStatus.lastSync ? (
+                        <div>{`Última: ${new Date(ldapStatus.lastSync.at).toLocaleString("pt-PT")} — ${ldapStatus.lastSync.note ?? ""}`}</div>
+                      ) : null}
+                    </div>
+                    <div className="flex justify-end gap-2 mt-3">
+                      <Button variant="outline" onClick={() => runLdapSync(true)} disabled={ldapSyncing}>
+                        Simular
+                      </Button>
+                      <Button onClick={() => runLdapSync(false)} disabled={ldapSyncing}>
+                        {ldapSyncing ? "A sincronizar..." : "Sincronizar"}
+                      </Button>
+                    </div>
+                    {ldapReport ? (
+                      <div className="mt-3 rounded-md border border-border/70 p-2 text-xs space-y-1">
+                        <div className="font-medium">{ldapReport.dryRun ? "Simulação" : "Resultado"}</div>
+                        <div>
+                          {`${ldapReport.directoryEntries} no diretório · ${ldapReport.created} a criar/criados · ${ldapReport.linked} associados · ${ldapReport.updated} atualizados · ${ldapReport.deactivated} desativados · ${ldapReport.roleChanges} alterações de perfil`}
+                        </div>
+                        {ldapReport.skipped.slice(0, 10).map((row) => (
+                          <div key={row.dn} className="truncate text-amber-700">{`${row.dn}: ${row.reason}`}</div>
+                        ))}
+                      </div>
+                    ) : null}
+
+                    <div className="mt-4 space-y-2">
+                      <div className="text-xs text-muted-foreground">Mapeamentos (o de menor prioridade prevalece)</div>
+                      {ldapMappings.map((m) => (
+                        <div key={m.id} className="flex items-start justify-between gap-2 rounded-md border border-border/60 p-2 text-xs">
+                          <div className="min-w-0">
+                            <div className="truncate font-medium">{`${m.kind === "GROUP" ? "Grupo" : "OU"}: ${m.dn}`}</div>
+                            <div className="text-muted-foreground">
+                              {[
+                                m.requestingService ? `${m.requestingService.codigo} - ${m.requestingService.designacao}` : null,
+                                m.role?.name ?? null,
+                              ]
+                                .filter(Boolean)
+                                .join(" · ")}
+                            </div>
+                          </div>
+                          <Button size="sm" variant="ghost" onClick={() => deleteLdapMapping(m)}>
+                            Remover
+                          </Button>
+                        </div>
                       ))}
-                    </SelectContent>
-                  </Select>
-                  <Select value={role} onValueChange={(v) => setRole(v as UserRole)}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Role" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="USER">USER</SelectItem>
-                      <SelectItem value="ADMIN">ADMIN</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="flex justify-end mt-3">
-                  <Button onClick={createUser} disabled={!canCreate || creating}>
-                    {creating ? "A criar..." : "Criar"}
-                  </Button>
-                </div>
-              </SectionCard>
+                      <Select value={mappingKind} onValueChange={(v) => setMappingKind(v as "GROUP" | "OU")}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="GROUP">Grupo (memberOf)</SelectItem>
+                          <SelectItem value="OU">Unidade organizacional</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        placeholder={mappingKind === "GROUP" ? "cn=Compras,ou=Grupos,dc=cm,dc=pt" : "ou=Obras,dc=cm,dc=pt"}
+                        value={mappingDn}
+                        onChange={(e) => setMappingDn(e.target.value)}
+                      />
+                      <Select
+                        value={mappingServiceId ? String(mappingServiceId) : "__none__"}
+                        onValueChange={(v) => setMappingServiceId(v === "__none__" ? null : Number(v))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Serviço requisitante" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="__none__">Sem serviço</SelectItem>
+                          {requestingServices.map((s) => (
+                            <SelectItem key={s.id} value={String(s.id)}>
+                              {`${s.codigo} - ${s.designacao}`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={mappingRoleKey ?? "__none__"}
+                        onValueChange={(v) => setMappingRoleKey(v === "__none__" ? null : v)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Perfil" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="__none__">Sem perfil</SelectItem>
+                          {accessRoles.map((r) => (
+                            <SelectItem key={r.key} value={r.key}>
+                              {r.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <div className="flex justify-end">
+                        <Button
+                          variant="outline"
+                          onClick={createLdapMapping}
+                          disabled={savingMapping || mappingDn.trim().length < 3 || (!mappingServiceId && !mappingRoleKey)}
+                        >
+                          {savingMapping ? "A guardar..." : "Adicionar mapeamento"}
+                        </Button>
+                      </div>
+                    </div>
+                  </SectionCard>
+                ) : null}
+              </div>
 
               <SectionCard
                 title="Utilizadores"
@@ -722,12 +1110,48 @@ export default function UsersPage() {
                               <Badge variant="outline" className={u.isActive ? "text-emerald-700 border-emerald-400/40" : "text-amber-700 border-amber-400/40"}>
                                 {u.isActive ? "Ativo" : "Inativo"}
                               </Badge>
+                              {u.mfaEnabled ? (
+                                <Badge variant="outline" className="ml-1 text-sky-700 border-sky-400/40">
+                                  2FA
+                                </Badge>
+                              ) : null}
+                              {u.authProvider === "LDAP" ? (
+                                <Badge variant="outline" className="ml-1 text-violet-700 border-violet-400/40">
+                                  LDAP
+                                </Badge>
+                              ) : null}
+                              {u.isServiceAccount ? (
+                                <Badge variant="outline" className="ml-1 text-amber-700 border-amber-400/40">
+                                  Serviço
+                                </Badge>
+                              ) : null}
+                              {u.anonymisedAt ? (
+                                <Badge variant="outline" className="ml-1 text-rose-700 border-rose-400/40">
+                                  Anonimizado
+                                </Badge>
+                              ) : null}
                             </td>
                             <td className="px-[var(--table-cell-px)] py-[var(--table-cell-py)] align-top">
                               <div className="flex items-center justify-end gap-2">
                                 <Button size="sm" variant="ghost" onClick={() => openUserAudit(u)}>
                                   Histórico
                                 </Button>
+                                <Button size="sm" variant="ghost" onClick={() => openUserSessions(u)}>
+                                  Sessões
+                                </Button>
+                                {u.mfaEnabled ? (
+                                  <Button size="sm" variant="ghost" onClick={() => resetUserMfa(u)}>
+                                    Repor 2FA
+                                  </Button>
+                                ) : null}
+                                <Button size="sm" variant="ghost" onClick={() => exportUserData(u)}>
+                                  Dados RGPD
+                                </Button>
+                                {!u.anonymisedAt && !u.isServiceAccount && u.id !== user?.id ? (
+                                  <Button size="sm" variant="ghost" className="text-destructive" onClick={() => anonymiseUser(u)}>
+                                    Anonimizar
+                                  </Button>
+                                ) : null}
                                 <Select value={u.role} onValueChange={(v) => updateRole(u.id, v as UserRole)}>
                                   <SelectTrigger className="w-[110px] h-8">
                                     <SelectValue />
@@ -741,7 +1165,7 @@ export default function UsersPage() {
                                   size="sm"
                                   variant={u.isActive ? "outline" : "default"}
                                   onClick={() => setUserActive(u.id, !u.isActive)}
-                                  disabled={u.id === user?.id}
+                                  disabled={u.id === user?.id || Boolean(u.anonymisedAt)}
                                 >
                                   {u.id === user?.id ? "Atual" : u.isActive ? "Desativar" : "Ativar"}
                                 </Button>
@@ -764,6 +1188,26 @@ export default function UsersPage() {
                                 {u.isActive ? "Ativo" : "Inativo"}
                               </Badge>
                               <Badge variant="secondary">{u.role}</Badge>
+                              {u.mfaEnabled ? (
+                                <Badge variant="outline" className="text-sky-700 border-sky-400/40">
+                                  2FA
+                                </Badge>
+                              ) : null}
+                              {u.authProvider === "LDAP" ? (
+                                <Badge variant="outline" className="text-violet-700 border-violet-400/40">
+                                  LDAP
+                                </Badge>
+                              ) : null}
+                              {u.isServiceAccount ? (
+                                <Badge variant="outline" className="text-amber-700 border-amber-400/40">
+                                  Serviço
+                                </Badge>
+                              ) : null}
+                              {u.anonymisedAt ? (
+                                <Badge variant="outline" className="text-rose-700 border-rose-400/40">
+                                  Anonimizado
+                                </Badge>
+                              ) : null}
                             </div>
                             <div className="text-xs text-muted-foreground truncate">{u.email}</div>
                             {u.requestingService ? (
@@ -783,6 +1227,22 @@ export default function UsersPage() {
                             <Button size="sm" variant="ghost" onClick={() => openUserAudit(u)}>
                               Histórico
                             </Button>
+                            <Button size="sm" variant="ghost" onClick={() => openUserSessions(u)}>
+                              Sessões
+                            </Button>
+                            {u.mfaEnabled ? (
+                              <Button size="sm" variant="ghost" onClick={() => resetUserMfa(u)}>
+                                Repor 2FA
+                              </Button>
+                            ) : null}
+                            <Button size="sm" variant="ghost" onClick={() => exportUserData(u)}>
+                              Dados RGPD
+                            </Button>
+                            {!u.anonymisedAt && !u.isServiceAccount && u.id !== user?.id ? (
+                              <Button size="sm" variant="ghost" className="text-destructive" onClick={() => anonymiseUser(u)}>
+                                Anonimizar
+                              </Button>
+                            ) : null}
                             <Select value={u.role} onValueChange={(v) => updateRole(u.id, v as UserRole)}>
                               <SelectTrigger className="w-[120px]">
                                 <SelectValue />
@@ -796,7 +1256,7 @@ export default function UsersPage() {
                             <Button
                               variant={u.isActive ? "outline" : "default"}
                               onClick={() => setUserActive(u.id, !u.isActive)}
-                              disabled={u.id === user?.id}
+                              disabled={u.id === user?.id || Boolean(u.anonymisedAt)}
                             >
                               {u.id === user?.id ? "Atual" : u.isActive ? "Desativar" : "Ativar"}
                             </Button>
@@ -1261,6 +1721,40 @@ export default function UsersPage() {
             )}
           </DialogContent>
         </Dialog>
+
+        <Dialog open={Boolean(sessionsUser)} onOpenChange={(open) => (!open ? setSessionsUser(null) : undefined)}>
+          <DialogContent className="max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>Sessões ativas: {sessionsUser?.name || "Utilizador"}</DialogTitle>
+            </DialogHeader>
+            {sessionsLoading ? (
+              <p className="text-sm text-muted-foreground">A carregar...</p>
+            ) : sessionRows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Sem sessões ativas.</p>
+            ) : (
+              <div className="max-h-[60vh] overflow-auto space-y-2 pr-1">
+                {sessionRows.map((row) => (
+                  <div key={row.id} className="flex items-center justify-between gap-2 rounded-md border border-border/60 p-2">
+                    <div className="min-w-0">
+                      <div className="font-medium text-sm">{row.device || "Dispositivo desconhecido"}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {row.ip ? `IP ${row.ip} · ` : ""}Última atividade {new Date(row.lastSeenAt).toLocaleString()}
+                      </div>
+                    </div>
+                    <Button size="sm" variant="ghost" onClick={() => revokeUserSessions(row.id)}>
+                      Terminar
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex justify-end">
+              <Button variant="outline" onClick={() => revokeUserSessions()} disabled={sessionsLoading || sessionRows.length === 0}>
+                Terminar todas
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
       </div>
     </AuthenticatedLayout>
   );
@@ -16,29 +16,47 @@ import {
   TrendingDown,
   TrendingUp,
 } from "lucide-react";
-import { useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
 
 interface ForecastingCardProps {
   products: Product[];
   className?: string;
 }
 
+// Subset of GET /api/insights/forecast (utils/demandForecast.ts) used by the card.
+interface DemandForecastDto {
+  meta: { horizonMonths: number };
+  monthly: Array<{ month: string; demand: number; isForecast: boolean }>;
+  products: Array<{
+    productId: string;
+    name: string;
+    quantity: number;
+    reorderPoint: number;
+    forecastTotal: number;
+    monthsOfCover: number | null;
+    stockoutRisk: "high" | "medium" | "low";
+  }>;
+  categories: Array<{
+    category: string;
+    currentStock: number;
+    predictedDemand: number;
+    confidence: number;
+  }>;
+}
+
 interface ForecastData {
   totalProducts: number;
   lowStockProducts: number;
   outOfStockProducts: number;
   reorderSuggestions: Array<{
-    product: Product;
+    productId: string;
+    name: string;
+    quantity: number;
     suggestedQuantity: number;
     urgency: "high" | "medium" | "low";
     reason: string;
   }>;
-  demandForecast: Array<{
-    category: string;
-    currentStock: number;
-    predictedDemand: number;
-    confidence: number;
-  }>;
+  demandForecast: DemandForecastDto["categories"];
   seasonalTrends: Array<{
     month: string;
     demand: number;
@@ -49,154 +67,93 @@ interface ForecastData {
 
 export function ForecastingCard({ products, className }: ForecastingCardProps) {
   const { toast } = useToast();
+  const [forecast, setForecast] = useState<DemandForecastDto | null>(null);
+  const [loading, setLoading] = useState(false);
 
   const monthFormatter = useMemo(
-    () => new Intl.DateTimeFormat("pt-PT", { month: "short" }),
+    () => new Intl.DateTimeFormat("pt-PT", { month: "short", timeZone: "UTC" }),
     []
   );
 
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetch("/api/insights/forecast?horizon=3&top=50", { method: "GET" })
+      .then(async (r) => {
+        if (!r.ok) throw new Error((await r.json().catch(() => null))?.error || "Falha ao carregar previsão");
+        return r.json();
+      })
+      .then((data: DemandForecastDto) => {
+        if (!cancelled) setForecast(data);
+      })
+      .catch(() => {
+        if (!cancelled) setForecast(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   const forecastData = useMemo((): ForecastData => {
-    if (!products || products.length === 0) {
+    const totalProducts = products?.length ?? 0;
+    const lowStockProducts = (products ?? []).filter((p) => p.status === "Stock Low").length;
+    const outOfStockProducts = (products ?? []).filter((p) => p.quantity === 0).length;
+
+    if (!forecast) {
       return {
-        totalProducts: 0,
-        lowStockProducts: 0,
-        outOfStockProducts: 0,
+        totalProducts,
+        lowStockProducts,
+        outOfStockProducts,
         reorderSuggestions: [],
         demandForecast: [],
         seasonalTrends: [],
       };
     }
 
-    const totalProducts = products.length;
-    const lowStockProducts = products.filter(
-      (p) => p.quantity > 0 && p.quantity <= 20
-    ).length;
-    const outOfStockProducts = products.filter((p) => p.quantity === 0).length;
-
-    // Generate reorder suggestions
-    const reorderSuggestions = products
-      .filter((product) => product.quantity <= 5)
-      .map((product) => {
-        let suggestedQuantity = 20;
-        let urgency: "high" | "medium" | "low" = "medium";
-        let reason = "Nível de stock baixo";
-
-        if (product.quantity === 0) {
-          suggestedQuantity = 30;
-          urgency = "high";
-          reason = "Sem stock";
-        } else if (product.quantity <= 2) {
-          suggestedQuantity = 25;
-          urgency = "high";
-          reason = "Nível de stock crítico";
-        } else if (product.quantity <= 5) {
-          suggestedQuantity = 20;
-          urgency = "medium";
-          reason = "Nível de stock baixo";
-        }
-
-        return {
-          product,
-          suggestedQuantity,
-          urgency,
-          reason,
-        };
-      })
-      .slice(0, 5); // Top 5 suggestions
-
-    // Generate demand forecast by category
-    const categoryMap = new Map<string, Product[]>();
-    products.forEach((product) => {
-      const category = product.category || "Desconhecida";
-      if (!categoryMap.has(category)) {
-        categoryMap.set(category, []);
-      }
-      categoryMap.get(category)!.push(product);
-    });
-
-    const demandForecast = Array.from(categoryMap.entries()).map(
-      ([category, categoryProducts]) => {
-        const currentStock = categoryProducts.reduce(
-          (sum, p) => sum + p.quantity,
-          0
-        );
-        const avgPrice =
-          categoryProducts.reduce((sum, p) => sum + p.price, 0) /
-          categoryProducts.length;
-
-        // Simple demand prediction based on price and current stock
-        const predictedDemand = Math.max(
-          Math.floor(currentStock * 0.8), // 80% of current stock
-          Math.floor(categoryProducts.length * 5) // At least 5 units per product
-        );
-
-        const confidence = Math.min(85, Math.max(60, 100 - avgPrice / 10)); // Higher price = lower confidence
-
-        return {
-          category,
-          currentStock,
-          predictedDemand,
-          confidence,
-        };
-      }
-    );
-
-    // Generate seasonal trends based on actual product creation data
-    const months = Array.from({ length: 12 }, (_, index) => {
-      const raw = monthFormatter.format(new Date(Date.UTC(2020, index, 1)));
+    // Enough to cover the forecast horizon and get back above the reorder point.
+    const reorderSuggestions = forecast.products
+      .filter((p) => p.stockoutRisk !== "low")
+      .sort((a, b) => (a.monthsOfCover ?? Infinity) - (b.monthsOfCover ?? Infinity))
+      .slice(0, 5)
+      .map((p) => ({
+        productId: p.productId,
+        name: p.name,
+        quantity: p.quantity,
+        suggestedQuantity: Math.max(0, Math.ceil(p.forecastTotal + p.reorderPoint - p.quantity)),
+        urgency: p.stockoutRisk,
+        reason:
+          p.quantity <= 0
+            ? "Sem stock"
+            : p.monthsOfCover !== null
+              ? `Cobertura prevista de ${p.monthsOfCover} mês(es)`
+              : "Abaixo do ponto de encomenda",
+      }));
+
+    // Last 12 months of the timeline: recent history followed by the forecast horizon.
+    const timeline = forecast.monthly.slice(-12);
+    const seasonalTrends = timeline.map((entry, index) => {
+      const raw = monthFormatter.format(new Date(`${entry.month}-01T00:00:00Z`));
       const normalized = raw.endsWith(".") ? raw.slice(0, -1) : raw;
-      return normalized.charAt(0).toUpperCase() + normalized.slice(1);
-    });
-
-    // Group products by creation month for seasonal trends
-    const productsByMonth = new Map<string, number>();
-    products.forEach((product) => {
-      const date = new Date(product.createdAt);
-      const monthKey = `${date.getUTCFullYear()}-${String(
-        date.getUTCMonth() + 1
-      ).padStart(2, "0")}`;
-      productsByMonth.set(monthKey, (productsByMonth.get(monthKey) || 0) + 1);
-    });
-
-    const dataYear =
-      products.length > 0
-        ? new Date(products[0].createdAt).getUTCFullYear()
-        : new Date().getUTCFullYear();
-
-    const currentDate = new Date();
-    const currentMonth = currentDate.getUTCMonth() + 1; // 1-based month
-    const currentYear = currentDate.getUTCFullYear();
-
-    const seasonalTrends = months.map((month, index) => {
-      const monthKey = `${dataYear}-${String(index + 1).padStart(2, "0")}`;
-      const productsThisMonth = productsByMonth.get(monthKey) || 0;
-
-      // Use actual product creation data for demand trends
-      const demand = productsThisMonth;
+      const prev = index > 0 ? timeline[index - 1].demand : null;
 
       let trend: "up" | "down" | "stable" = "stable";
-
-      // Only calculate trends for months that have occurred (not future months)
-      const monthNumber = index + 1;
-      const isCurrentYear = dataYear === currentYear;
-      const isPastMonth = !isCurrentYear || monthNumber <= currentMonth;
-
-      if (isPastMonth && index > 0) {
-        const prevMonthKey = `${dataYear}-${String(index).padStart(2, "0")}`;
-        const prevDemand = productsByMonth.get(prevMonthKey) || 0;
-
-        // Only calculate trend if both months have actual data or are both zero
-        if (demand > prevDemand) {
-          trend = "up";
-        } else if (demand < prevDemand && prevDemand > 0) {
-          // Only show "down" if previous month had actual demand
-          trend = "down";
-        } else {
-          trend = "stable";
-        }
+      if (prev !== null && prev > 0) {
+        const change = (entry.demand - prev) / prev;
+        if (change > 0.1) trend = "up";
+        else if (change < -0.1) trend = "down";
+      } else if (prev === 0 && entry.demand > 0) {
+        trend = "up";
       }
 
-      return { month, demand, trend, isFutureMonth: !isPastMonth };
+      return {
+        month: normalized.charAt(0).toUpperCase() + normalized.slice(1),
+        demand: Math.round(entry.demand),
+        trend,
+        isFutureMonth: entry.isForecast,
+      };
     });
 
     return {
@@ -204,10 +161,10 @@ export function ForecastingCard({ products, className }: ForecastingCardProps) {
       lowStockProducts,
       outOfStockProducts,
       reorderSuggestions,
-      demandForecast,
+      demandForecast: forecast.categories.filter((c) => c.predictedDemand > 0 || c.currentStock > 0),
       seasonalTrends,
     };
-  }, [products, monthFormatter]);
+  }, [products, forecast, monthFormatter]);
 
   const handleGenerateReport = () => {
     toast({
@@ -292,15 +249,15 @@ export function ForecastingCard({ products, className }: ForecastingCardProps) {
             {forecastData.reorderSuggestions.length > 0 ? (
               forecastData.reorderSuggestions.map((suggestion, index) => (
                 <div
-                  key={index}
+                  key={suggestion.productId}
                   className="flex items-center justify-between p-3 border rounded-lg"
                 >
                   <div className="flex-1">
                     <div className="font-medium text-sm">
-                      {suggestion.product.name}
+                      {suggestion.name}
                     </div>
                     <div className="text-xs text-muted-foreground">
-                      Atual: {suggestion.product.quantity} | Sugerido:{" "}
+                      Atual: {suggestion.quantity} | Sugerido:{" "}
                       {suggestion.suggestedQuantity}
                     </div>
                     <div className="text-xs text-muted-foreground">
@@ -314,7 +271,7 @@ export function ForecastingCard({ products, className }: ForecastingCardProps) {
               ))
             ) : (
               <div className="text-center py-4 text-muted-foreground">
-                Sem sugestões de reposição neste momento
+                {loading ? "A calcular previsão..." : "Sem sugestões de reposição neste momento"}
               </div>
             )}
           </div>
@@ -0,0 +1,7 @@
+export async function register() {
+  // Background jobs only run in the Node.js server runtime, never on the edge.
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { startDirectorySyncScheduler } = await import("@/utils/ldap");
+  startDirectorySyncScheduler();
+}
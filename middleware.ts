@@ -22,6 +22,16 @@ function getExpectedOrigin(request: NextRequest) {
   return `${proto}://${host}`;
 }
 
+function hasBearerToken(request: NextRequest) {
+  return /^Bearer\s+\S+/i.test(request.headers.get("authorization") ?? "");
+}
+
+// Account-security endpoints (login, 2FA, sessions, tokens, password) only accept the browser session.
+function isCookieOnlyApiRoute(path: string) {
+  if (path === "/api/auth/session") return false;
+  return path.startsWith("/api/auth/") || path === "/api/users/change-password";
+}
+
 function hasValidCsrfToken(request: NextRequest) {
   const cookieToken = request.cookies.get("csrf_token")?.value;
   const headerToken = request.headers.get("x-csrf-token");
@@ -37,6 +47,18 @@ export function middleware(request: NextRequest) {
   const requestHeaders = new Headers(request.headers);
   requestHeaders.set("x-request-id", requestId);
 
+  // API tokens: a Bearer request is authenticated by the token alone (the cookie is ignored), so
+  // browsers cannot forge it cross-site and it skips the CSRF checks below.
+  if (path.startsWith("/api/") && hasBearerToken(request)) {
+    if (isCookieOnlyApiRoute(path)) {
+      return withRequestId(
+        NextResponse.json({ error: "Este endpoint não aceita tokens de API" }, { status: 403 }),
+        requestId
+      );
+    }
+    return withRequestId(NextResponse.next({ request: { headers: requestHeaders } }), requestId);
+  }
+
   // API CSRF protection:
   // For authenticated cookie-based unsafe requests, require same-origin Origin.
   // If Origin is missing (scripts/non-browser), require double-submit CSRF token.
@@ -57,8 +79,9 @@ export function middleware(request: NextRequest) {
     return withRequestId(NextResponse.next({ request: { headers: requestHeaders } }), requestId);
   }
 
-  // Legacy route: /admin is now /DB
-  if (path === "/admin" || path.startsWith("/admin/")) {
+  // Legacy route: /admin is now /DB (the audit explorer lives under /admin/auditoria)
+  const isAuditExplorer = path === "/admin/auditoria" || path.startsWith("/admin/auditoria/");
+  if (!isAuditExplorer && (path === "/admin" || path.startsWith("/admin/"))) {
     const url = request.nextUrl.clone();
     url.pathname = "/DB";
     url.search = request.nextUrl.search;
@@ -81,6 +104,10 @@ export function middleware(request: NextRequest) {
     "/reports",
     "/mydesktop",
     "/governanca",
+    "/sessoes",
+    "/tokens",
+    "/delegacoes",
+    "/admin/auditoria",
   ];
 
   // Check if the current path is a protected route
@@ -28,7 +28,7 @@ export async function requireAdminOrPermission(
   res: NextApiResponse,
   permissionKey: string
 ) {
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: [permissionKey] });
   if (!session) {
     res.status(401).json({ error: "Unauthorized" });
     return null;
@@ -47,6 +47,7 @@ export async function requireAdminOrPermission(
     id: session.id,
     tenantId: session.tenantId,
     role: session.role,
+    apiToken: session.apiToken,
   });
 
   if (!hasPermission(grants, permissionKey)) {
@@ -0,0 +1,45 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/prisma/client";
+import { requireAdmin } from "@/pages/api/admin/_admin";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { revokeApiToken } from "@/utils/apiTokens";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdmin(req, res);
+  if (!session) return;
+  const tenantId = session.tenantId as string;
+
+  const id = req.query.id;
+  if (typeof id !== "string") {
+    return res.status(400).json({ error: "Invalid token id" });
+  }
+
+  if (req.method !== "DELETE") {
+    res.setHeader("Allow", ["DELETE"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  try {
+    const token = await prisma.apiToken.findFirst({
+      where: { id, tenantId },
+      select: { id: true, name: true, userId: true },
+    });
+    if (!token || !(await revokeApiToken({ id, tenantId }, session.id))) {
+      return res.status(404).json({ error: "Token not found" });
+    }
+
+    await logUserAdminAction({
+      tenantId,
+      actorUserId: session.id,
+      targetUserId: token.userId,
+      action: "API_TOKEN_REVOKED",
+      note: `Token de API "${token.name}" revogado`,
+      payload: { tokenId: id },
+    });
+
+    return res.status(204).end();
+  } catch (error) {
+    console.error("DELETE /api/admin/api-tokens/[id] error:", error);
+    return res.status(500).json({ error: "Failed to revoke API token" });
+  }
+}
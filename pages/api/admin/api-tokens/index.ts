@@ -0,0 +1,89 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { prisma } from "@/prisma/client";
+import { requireAdmin } from "@/pages/api/admin/_admin";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { apiTokenCreateSchema, createApiToken, listApiTokens } from "@/utils/apiTokens";
+
+const querySchema = z.object({
+  userId: z.string().uuid().optional(),
+});
+
+const createSchema = apiTokenCreateSchema.extend({
+  userId: z.string().uuid(),
+});
+
+// Every token in the tenant (GET) and issuing tokens for service accounts (POST).
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdmin(req, res);
+  if (!session) return;
+  const tenantId = session.tenantId as string;
+
+  if (req.method === "GET") {
+    const parsedQuery = querySchema.safeParse(req.query);
+    if (!parsedQuery.success) {
+      return res.status(400).json({ error: "Invalid query", details: parsedQuery.error.flatten() });
+    }
+    try {
+      return res.status(200).json(await listApiTokens({ tenantId, userId: parsedQuery.data.userId }));
+    } catch (error) {
+      console.error("GET /api/admin/api-tokens error:", error);
+      return res.status(500).json({ error: "Failed to load API tokens" });
+    }
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["GET", "POST"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const parsed = createSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request body", details: parsed.error.flatten() });
+  }
+
+  try {
+    const account = await prisma.user.findFirst({
+      where: { id: parsed.data.userId, tenantId, isServiceAccount: true },
+      select: { id: true, name: true, isActive: true },
+    });
+    if (!account) {
+      return res.status(404).json({ error: "Service account not found" });
+    }
+    if (!account.isActive) {
+      return res.status(409).json({ error: "A conta de serviço está desativada" });
+    }
+
+    const created = await createApiToken({
+      tenantId,
+      userId: account.id,
+      createdByUserId: session.id,
+      name: parsed.data.name,
+      scopes: parsed.data.scopes,
+      expiresAt: parsed.data.expiresAt ? new Date(parsed.data.expiresAt) : null,
+      allowedIpIds: parsed.data.allowedIpIds,
+    });
+
+    await logUserAdminAction({
+      tenantId,
+      actorUserId: session.id,
+      targetUserId: account.id,
+      action: "API_TOKEN_CREATED",
+      note: `Token de API "${created.name}" criado para a conta de serviço "${account.name}"`,
+      payload: {
+        tokenId: created.id,
+        scopes: created.scopes,
+        expiresAt: created.expiresAt,
+        allowedIpIds: parsed.data.allowedIpIds ?? [],
+      },
+    });
+
+    return res.status(201).json(created);
+  } catch (error: any) {
+    if (["INVALID_SCOPES", "INVALID_EXPIRY", "INVALID_ALLOWED_IPS"].includes(error?.code)) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("POST /api/admin/api-tokens error:", error);
+    return res.status(500).json({ error: "Failed to create API token" });
+  }
+}
@@ -0,0 +1,80 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/prisma/client";
+import { requireAdmin } from "@/pages/api/admin/_admin";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { directoryMappingSchema, directoryMappingSelect, resolveMappingTargets } from "@/utils/ldap";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdmin(req, res);
+  if (!session) return;
+  const tenantId = session.tenantId as string;
+
+  const id = req.query.id;
+  if (typeof id !== "string") {
+    return res.status(400).json({ error: "Invalid mapping id" });
+  }
+
+  const existing = await prisma.directoryMapping.findFirst({ where: { id, tenantId }, select: directoryMappingSelect });
+  if (!existing) {
+    return res.status(404).json({ error: "Mapping not found" });
+  }
+
+  if (req.method === "PUT") {
+    const parsed = directoryMappingSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid request body", details: parsed.error.flatten() });
+    }
+
+    try {
+      const targets = await resolveMappingTargets(tenantId, parsed.data);
+      if ("error" in targets) return res.status(400).json({ error: targets.error });
+
+      const updated = await prisma.directoryMapping.update({
+        where: { id },
+        data: {
+          kind: parsed.data.kind,
+          dn: parsed.data.dn,
+          priority: parsed.data.priority ?? existing.priority,
+          requestingServiceId: targets.requestingServiceId,
+          roleId: targets.roleId,
+        },
+        select: directoryMappingSelect,
+      });
+
+      await logUserAdminAction({
+        tenantId,
+        actorUserId: session.id,
+        action: "LDAP_MAPPING_UPDATED",
+        note: `Mapeamento LDAP atualizado: ${updated.dn}`,
+        payload: { mappingId: id, before: existing, after: parsed.data },
+      });
+
+      return res.status(200).json(updated);
+    } catch (error) {
+      console.error("PUT /api/admin/ldap/mappings/[id] error:", error);
+      return res.status(500).json({ error: "Failed to update directory mapping" });
+    }
+  }
+
+  if (req.method === "DELETE") {
+    try {
+      await prisma.directoryMapping.delete({ where: { id } });
+
+      await logUserAdminAction({
+        tenantId,
+        actorUserId: session.id,
+        action: "LDAP_MAPPING_DELETED",
+        note: `Mapeamento LDAP removido: ${existing.dn}`,
+        payload: { mappingId: id, mapping: existing },
+      });
+
+      return res.status(204).end();
+    } catch (error) {
+      console.error("DELETE /api/admin/ldap/mappings/[id] error:", error);
+      return res.status(500).json({ error: "Failed to delete directory mapping" });
+    }
+  }
+
+  res.setHeader("Allow", ["PUT", "DELETE"]);
+  return res.status(405).json({ error: "Method Not Allowed" });
+}
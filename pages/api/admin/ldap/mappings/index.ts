@@ -0,0 +1,65 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/prisma/client";
+import { requireAdmin } from "@/pages/api/admin/_admin";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { directoryMappingSchema, directoryMappingSelect, resolveMappingTargets } from "@/utils/ldap";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdmin(req, res);
+  if (!session) return;
+  const tenantId = session.tenantId as string;
+
+  if (req.method === "GET") {
+    try {
+      const mappings = await prisma.directoryMapping.findMany({
+        where: { tenantId },
+        orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+        select: directoryMappingSelect,
+      });
+      return res.status(200).json(mappings);
+    } catch (error) {
+      console.error("GET /api/admin/ldap/mappings error:", error);
+      return res.status(500).json({ error: "Failed to load directory mappings" });
+    }
+  }
+
+  if (req.method === "POST") {
+    const parsed = directoryMappingSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid request body", details: parsed.error.flatten() });
+    }
+
+    try {
+      const targets = await resolveMappingTargets(tenantId, parsed.data);
+      if ("error" in targets) return res.status(400).json({ error: targets.error });
+
+      const created = await prisma.directoryMapping.create({
+        data: {
+          tenantId,
+          kind: parsed.data.kind,
+          dn: parsed.data.dn,
+          priority: parsed.data.priority ?? 100,
+          requestingServiceId: targets.requestingServiceId,
+          roleId: targets.roleId,
+        },
+        select: directoryMappingSelect,
+      });
+
+      await logUserAdminAction({
+        tenantId,
+        actorUserId: session.id,
+        action: "LDAP_MAPPING_CREATED",
+        note: `Mapeamento LDAP criado: ${created.dn}`,
+        payload: { mappingId: created.id, ...parsed.data },
+      });
+
+      return res.status(201).json(created);
+    } catch (error) {
+      console.error("POST /api/admin/ldap/mappings error:", error);
+      return res.status(500).json({ error: "Failed to create directory mapping" });
+    }
+  }
+
+  res.setHeader("Allow", ["GET", "POST"]);
+  return res.status(405).json({ error: "Method Not Allowed" });
+}
@@ -0,0 +1,71 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { requireAdmin } from "@/pages/api/admin/_admin";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { describeSyncReport, getLdapStatus, isLdapEnabledForTenant, runDirectorySync } from "@/utils/ldap";
+
+const bodySchema = z.object({
+  dryRun: z.boolean().optional(),
+});
+
+// GET  /api/admin/ldap/sync -> directory configuration and last run
+// POST /api/admin/ldap/sync -> run the directory sync now (cron-friendly)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdmin(req, res);
+  if (!session) return;
+  const tenantId = session.tenantId as string;
+
+  if (req.method === "GET") {
+    try {
+      return res.status(200).json(await getLdapStatus(tenantId));
+    } catch (error) {
+      console.error("GET /api/admin/ldap/sync error:", error);
+      return res.status(500).json({ error: "Failed to load LDAP status" });
+    }
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["GET", "POST"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const parsed = bodySchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request body", details: parsed.error.flatten() });
+  }
+
+  try {
+    if (!(await isLdapEnabledForTenant(tenantId))) {
+      return res.status(409).json({ error: "A autenticação LDAP não está configurada para esta entidade" });
+    }
+
+    const report = await runDirectorySync(tenantId, { dryRun: parsed.data.dryRun });
+
+    if (!report.dryRun) {
+      await logUserAdminAction({
+        tenantId,
+        actorUserId: session.id,
+        action: "LDAP_SYNC",
+        note: describeSyncReport(report, "manual"),
+        payload: { ...report, skipped: report.skipped.slice(0, 50) },
+      });
+    }
+
+    return res.status(200).json(report);
+  } catch (error: any) {
+    if (error?.code === "LDAP_SYNC_RUNNING") {
+      return res.status(409).json({ error: error.message });
+    }
+    if (error?.code === "LDAP_NOT_CONFIGURED") {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error("POST /api/admin/ldap/sync error:", error);
+    return res.status(502).json({ error: "Não foi possível sincronizar com o diretório LDAP" });
+  }
+}
+
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+};
@@ -0,0 +1,74 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { prisma } from "@/prisma/client";
+import { requireAdmin } from "./_admin";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { getMfaPolicy } from "@/utils/mfa";
+
+const bodySchema = z.object({
+  requireForAdmins: z.boolean(),
+  requiredRoleKeys: z.array(z.string().trim().min(2).max(120)).max(100).default([]),
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdmin(req, res);
+  if (!session) return;
+  const tenantId = session.tenantId as string;
+
+  if (req.method === "GET") {
+    try {
+      return res.status(200).json(await getMfaPolicy(tenantId));
+    } catch (error) {
+      console.error("GET /api/admin/mfa-policy error:", error);
+      return res.status(500).json({ error: "Failed to load MFA policy" });
+    }
+  }
+
+  if (req.method === "PUT") {
+    const parsed = bodySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid request body", details: parsed.error.flatten() });
+    }
+
+    const requiredRoleKeys = Array.from(new Set(parsed.data.requiredRoleKeys));
+    try {
+      if (requiredRoleKeys.length) {
+        const roles = await prisma.accessRole.findMany({
+          where: { tenantId, key: { in: requiredRoleKeys } },
+          select: { key: true },
+        });
+        const known = new Set(roles.map((role) => role.key));
+        const unknown = requiredRoleKeys.filter((key) => !known.has(key));
+        if (unknown.length) {
+          return res.status(400).json({ error: `Perfis desconhecidos: ${unknown.join(", ")}` });
+        }
+      }
+
+      const before = await getMfaPolicy(tenantId);
+      await prisma.mfaPolicy.upsert({
+        where: { tenantId },
+        create: { tenantId, requireForAdmins: parsed.data.requireForAdmins, requiredRoleKeys },
+        update: { requireForAdmins: parsed.data.requireForAdmins, requiredRoleKeys },
+      });
+
+      await logUserAdminAction({
+        tenantId,
+        actorUserId: session.id,
+        action: "MFA_POLICY_UPDATED",
+        note: "Two-factor authentication policy updated",
+        payload: {
+          before: { requireForAdmins: before.requireForAdmins, requiredRoleKeys: before.requiredRoleKeys },
+          after: { requireForAdmins: parsed.data.requireForAdmins, requiredRoleKeys },
+        },
+      });
+
+      return res.status(200).json(await getMfaPolicy(tenantId));
+    } catch (error) {
+      console.error("PUT /api/admin/mfa-policy error:", error);
+      return res.status(500).json({ error: "Failed to update MFA policy" });
+    }
+  }
+
+  res.setHeader("Allow", ["GET", "PUT"]);
+  return res.status(405).json({ error: "Method Not Allowed" });
+}
@@ -3,7 +3,16 @@ import { z } from "zod";
 import { prisma } from "@/prisma/client";
 import { getSessionServer } from "@/utils/auth";
 import { getUserPermissionGrants, hasPermission } from "@/utils/rbac";
-import { createRequestStatusAudit, notifyAdmin, notifyUser } from "@/utils/notifications";
+import { applyWarehouseStockDeltaTx, ensureDefaultWarehouse } from "@/utils/warehouseStock";
+import { allocateLotsFefoTx } from "@/utils/productLots";
+import { refreshProductStockStatusTx } from "@/utils/stockLevels";
+import {
+  createRequestStatusAudit,
+  notifyAdmin,
+  notifyUser,
+  publishNotifications,
+  type NotificationOutbox,
+} from "@/utils/notifications";
 import { publishRealtimeEvent } from "@/utils/realtime";
 import { ensureRequestWorkflowDefinition, ensureRequestWorkflowInstance, transitionRequestWorkflowByActionTx } from "@/utils/workflow";
 import { createTicketAudit } from "@/pages/api/tickets/_utils";
@@ -23,16 +32,12 @@ class StockAllocationError extends Error {
   }
 }
 
-function computeProductStatus(quantity: number) {
-  return quantity > 20 ? "Available" : quantity > 0 ? "Stock Low" : "Stock Out";
-}
-
 function formatGtmiNumber(gtmiYear: number, gtmiSeq: number) {
   return `GTMI-${gtmiYear}-${String(gtmiSeq).padStart(6, "0")}`;
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["public_requests.handle"] });
   if (!session) return res.status(401).json({ error: "Unauthorized" });
 
   const id = typeof req.query.id === "string" ? req.query.id : "";
@@ -61,6 +66,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     id: session.id,
     tenantId: session.tenantId,
     role: session.role,
+    apiToken: session.apiToken,
   });
   const scopeServiceId = publicReq.requestingServiceId ?? null;
   if (!hasPermission(grants, "public_requests.handle", scopeServiceId)) {
@@ -120,6 +126,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   try {
     await ensureRequestWorkflowDefinition(prisma, tenantId);
+    const outbox: NotificationOutbox = [];
     const createdRequest = await prisma.$transaction(async (tx) => {
       const maxSeq = await tx.request.aggregate({
         where: { tenantId, gtmiYear },
@@ -212,13 +219,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           data: { requestId: created.id, gtmiNumber },
         });
 
-        publishRealtimeEvent({
+        await publishRealtimeEvent({
           type: "ticket.updated",
           tenantId,
           audience: "ALL",
           payload: { ticketId: ticket.id, code: ticket.code, requestId: created.id },
         });
-        publishRealtimeEvent({
+        await publishRealtimeEvent({
           type: "ticket.message_created",
           tenantId,
           audience: "ALL",
@@ -275,7 +282,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           const unit = await txAny.productUnit.findFirst({
             where: { tenantId, productId, status: "IN_STOCK" },
             orderBy: { createdAt: "asc" },
-            select: { id: true, code: true, invoiceId: true },
+            select: { id: true, code: true, invoiceId: true, warehouseId: true },
           });
 
           if (!unit) {
@@ -305,12 +312,20 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             );
           }
 
+          const warehouseStock = await applyWarehouseStockDeltaTx(tx, {
+            tenantId,
+            productId,
+            warehouseId: unit.warehouseId ?? null,
+            delta: -1,
+          });
+
           await txAny.stockMovement.create({
             data: {
               type: "OUT",
               quantity: BigInt(1) as any,
               tenantId,
               productId,
+              warehouseId: warehouseStock.warehouseId,
               unitId: unit.id,
               invoiceId: unit.invoiceId ?? null,
               requestId: created.id,
@@ -321,16 +336,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             select: { id: true },
           });
 
-          const productAfter = await tx.product.update({
-            where: { id: productId },
-            data: { quantity: { decrement: BigInt(1) as any } },
-            select: { quantity: true },
-          });
-          const finalQuantity = Number(productAfter.quantity);
           await tx.product.update({
             where: { id: productId },
-            data: { status: computeProductStatus(finalQuantity) },
+            data: { quantity: { decrement: BigInt(1) as any } },
           });
+          await refreshProductStockStatusTx(tx, { tenantId, productId, outbox });
         } else {
           const product = await tx.product.findUnique({
             where: { id: productId },
@@ -345,30 +355,44 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             );
           }
 
-          await txAny.stockMovement.create({
-            data: {
-              type: "OUT",
-              quantity: BigInt(qty) as any,
-              tenantId,
-              productId,
-              requestId: created.id,
-              performedByUserId: adminUserId,
-              assignedToUserId: requestOwnerUserId,
-              reason: stockReason,
-            },
-            select: { id: true },
+          // Lot-tracked consumables leave first-expiry-first-out, one movement per lot picked.
+          const warehouse = await ensureDefaultWarehouse(tx, tenantId);
+          const allocations = await allocateLotsFefoTx(tx, {
+            tenantId,
+            productId,
+            warehouseId: warehouse.id,
+            quantity: qty,
           });
+          for (const allocation of allocations) {
+            await txAny.stockMovement.create({
+              data: {
+                type: "OUT",
+                quantity: BigInt(allocation.quantity) as any,
+                tenantId,
+                productId,
+                warehouseId: warehouse.id,
+                lotId: allocation.lotId,
+                requestId: created.id,
+                performedByUserId: adminUserId,
+                assignedToUserId: requestOwnerUserId,
+                reason: allocation.lotNumber ? `${stockReason} (lote ${allocation.lotNumber})` : stockReason,
+              },
+              select: { id: true },
+            });
+          }
 
-          const productAfter = await tx.product.update({
-            where: { id: productId },
-            data: { quantity: { decrement: BigInt(qty) as any } },
-            select: { quantity: true },
+          await applyWarehouseStockDeltaTx(tx, {
+            tenantId,
+            productId,
+            warehouseId: warehouse.id,
+            delta: -qty,
           });
-          const finalQuantity = Number(productAfter.quantity);
+
           await tx.product.update({
             where: { id: productId },
-            data: { status: computeProductStatus(finalQuantity) },
+            data: { quantity: { decrement: BigInt(qty) as any } },
           });
+          await refreshProductStockStatusTx(tx, { tenantId, productId, outbox });
         }
       }
 
@@ -387,6 +411,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
 
     try {
+      await publishNotifications(outbox);
+
       await createRequestStatusAudit({
         tenantId,
         requestId: createdRequest.id,
@@ -425,7 +451,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         });
       }
 
-      publishRealtimeEvent({
+      await publishRealtimeEvent({
         type: "public-request.accepted",
         tenantId,
         audience: "ALL",
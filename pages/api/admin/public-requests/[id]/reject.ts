@@ -11,7 +11,7 @@ const bodySchema = z.object({
 });
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["public_requests.handle"] });
   if (!session) return res.status(401).json({ error: "Unauthorized" });
 
   const id = typeof req.query.id === "string" ? req.query.id : "";
@@ -37,6 +37,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     id: session.id,
     tenantId: session.tenantId,
     role: session.role,
+    apiToken: session.apiToken,
   });
   const scopeServiceId = row.requestingServiceId ?? null;
   if (!hasPermission(grants, "public_requests.handle", scopeServiceId)) {
@@ -79,7 +80,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       });
     }
 
-    publishRealtimeEvent({
+    await publishRealtimeEvent({
       type: "public-request.rejected",
       tenantId: session.tenantId,
       audience: "ALL",
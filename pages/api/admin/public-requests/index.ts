@@ -10,7 +10,7 @@ const querySchema = z.object({
 });
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["public_requests.view", "public_requests.handle"] });
   if (!session) return res.status(401).json({ error: "Unauthorized" });
 
   if (req.method !== "GET") {
@@ -28,6 +28,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     id: session.id,
     tenantId,
     role: session.role,
+    apiToken: session.apiToken,
   });
 
   const canViewAll =
@@ -4,6 +4,7 @@ import { z } from "zod";
 import { prisma } from "@/prisma/client";
 import { requireAdminOrPermission } from "@/pages/api/admin/_admin";
 import { ensureTenantRbacBootstrap } from "@/utils/rbac";
+import { recordRbacAudit } from "@/utils/auditLog";
 
 const createSchema = z.object({
   userId: z.string().uuid(),
@@ -140,6 +141,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       assignments: assignments.map((assignment: any) => ({
         id: assignment.id,
         isActive: assignment.isActive,
+        source: assignment.source,
         note: assignment.note,
         startsAt: assignment.startsAt ? assignment.startsAt.toISOString() : null,
         endsAt: assignment.endsAt ? assignment.endsAt.toISOString() : null,
@@ -217,21 +219,19 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       },
     });
 
-    await db.rbacAudit.create({
-      data: {
-        tenantId,
-        actorUserId: session.id,
-        action: "ASSIGNMENT_CREATED",
-        note: note?.trim() || null,
-        payload: {
-          assignmentId: created.id,
-          userId,
-          roleKey,
-          requestingServiceId: requestingServiceId ?? null,
-          startsAt: startsAtDate ? startsAtDate.toISOString() : null,
-          endsAt: endsAtDate ? endsAtDate.toISOString() : null,
-          isActive: isActive ?? true,
-        },
+    await recordRbacAudit(db, {
+      tenantId,
+      actorUserId: session.id,
+      action: "ASSIGNMENT_CREATED",
+      note: note?.trim() || null,
+      payload: {
+        assignmentId: created.id,
+        userId,
+        roleKey,
+        requestingServiceId: requestingServiceId ?? null,
+        startsAt: startsAtDate ? startsAtDate.toISOString() : null,
+        endsAt: endsAtDate ? endsAtDate.toISOString() : null,
+        isActive: isActive ?? true,
       },
     });
 
@@ -326,18 +326,16 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       },
     });
 
-    await db.rbacAudit.create({
-      data: {
-        tenantId,
-        actorUserId: session.id,
-        action: "ASSIGNMENT_UPDATED",
-        note: data.note ?? null,
-        payload: {
-          assignmentId: updated.id,
-          isActive: updated.isActive,
-          startsAt: updated.startsAt ? updated.startsAt.toISOString() : null,
-          endsAt: updated.endsAt ? updated.endsAt.toISOString() : null,
-        },
+    await recordRbacAudit(db, {
+      tenantId,
+      actorUserId: session.id,
+      action: "ASSIGNMENT_UPDATED",
+      note: data.note ?? null,
+      payload: {
+        assignmentId: updated.id,
+        isActive: updated.isActive,
+        startsAt: updated.startsAt ? updated.startsAt.toISOString() : null,
+        endsAt: updated.endsAt ? updated.endsAt.toISOString() : null,
       },
     });
 
@@ -379,16 +377,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       where: { id: parsed.data.assignmentId },
     });
 
-    await db.rbacAudit.create({
-      data: {
-        tenantId,
-        actorUserId: session.id,
-        action: "ASSIGNMENT_DELETED",
-        payload: {
-          assignmentId: current.id,
-          userId: current.userId,
-          roleKey: current.role.key,
-        },
+    await recordRbacAudit(db, {
+      tenantId,
+      actorUserId: session.id,
+      action: "ASSIGNMENT_DELETED",
+      payload: {
+        assignmentId: current.id,
+        userId: current.userId,
+        roleKey: current.role.key,
       },
     });
 
@@ -0,0 +1,44 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/prisma/client";
+import { requireAdminOrPermission } from "@/pages/api/admin/_admin";
+import { revokeApprovalDelegation } from "@/utils/approvalDelegations";
+import { recordRbacAudit } from "@/utils/auditLog";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdminOrPermission(req, res, "users.manage");
+  if (!session) return;
+  const tenantId = session.tenantId;
+
+  const id = req.query.id;
+  if (typeof id !== "string") {
+    return res.status(400).json({ error: "Invalid delegation id" });
+  }
+
+  if (req.method !== "DELETE") {
+    res.setHeader("Allow", ["DELETE"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  try {
+    const revoked = await revokeApprovalDelegation({ id, tenantId }, session.id);
+    if (!revoked) {
+      return res.status(404).json({ error: "Delegation not found" });
+    }
+
+    await recordRbacAudit(prisma as any, {
+      tenantId,
+      actorUserId: session.id,
+      action: "DELEGATION_REVOKED",
+      payload: {
+        delegationId: revoked.id,
+        delegatorUserId: revoked.delegatorUserId,
+        delegateUserId: revoked.delegateUserId,
+      },
+    });
+
+    return res.status(204).end();
+  } catch (error) {
+    console.error("DELETE /api/admin/rbac/delegations/[id] error:", error);
+    return res.status(500).json({ error: "Failed to revoke delegation" });
+  }
+}
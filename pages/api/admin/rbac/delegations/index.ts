@@ -0,0 +1,95 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { prisma } from "@/prisma/client";
+import { requireAdminOrPermission } from "@/pages/api/admin/_admin";
+import {
+  approvalDelegationCreateSchema,
+  createApprovalDelegation,
+  listApprovalDelegations,
+} from "@/utils/approvalDelegations";
+import { recordRbacAudit } from "@/utils/auditLog";
+
+const querySchema = z.object({
+  userId: z.string().uuid().optional(),
+});
+
+const createSchema = approvalDelegationCreateSchema.extend({
+  delegatorUserId: z.string().uuid(),
+});
+
+const ERROR_STATUS: Record<string, number> = {
+  INVALID_PERMISSIONS: 400,
+  SELF_DELEGATION: 400,
+  INVALID_PERIOD: 400,
+  INVALID_SERVICE: 400,
+  NOT_HELD: 400,
+  DELEGATOR_NOT_FOUND: 404,
+  DELEGATE_NOT_FOUND: 404,
+};
+
+// Every approval delegation in the tenant (GET), and setting one up for an absent approver (POST).
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdminOrPermission(req, res, "users.manage");
+  if (!session) return;
+  const tenantId = session.tenantId;
+
+  if (req.method === "GET") {
+    const parsedQuery = querySchema.safeParse(req.query);
+    if (!parsedQuery.success) {
+      return res.status(400).json({ error: "Invalid query", details: parsedQuery.error.flatten() });
+    }
+    try {
+      return res.status(200).json(await listApprovalDelegations({ tenantId, userId: parsedQuery.data.userId }));
+    } catch (error) {
+      console.error("GET /api/admin/rbac/delegations error:", error);
+      return res.status(500).json({ error: "Failed to load delegations" });
+    }
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["GET", "POST"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const parsed = createSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request body", details: parsed.error.flatten() });
+  }
+
+  try {
+    const created = await createApprovalDelegation({
+      tenantId,
+      delegatorUserId: parsed.data.delegatorUserId,
+      delegateUserId: parsed.data.delegateUserId,
+      createdByUserId: session.id,
+      permissionKeys: parsed.data.permissionKeys,
+      requestingServiceId: parsed.data.requestingServiceId ?? null,
+      startsAt: parsed.data.startsAt ? new Date(parsed.data.startsAt) : null,
+      endsAt: new Date(parsed.data.endsAt),
+      note: parsed.data.note ?? null,
+    });
+
+    await recordRbacAudit(prisma as any, {
+      tenantId,
+      actorUserId: session.id,
+      action: "DELEGATION_CREATED",
+      note: parsed.data.note?.trim() || null,
+      payload: {
+        delegationId: created.id,
+        delegatorUserId: created.delegator.id,
+        delegateUserId: created.delegate.id,
+        permissionKeys: created.permissionKeys,
+        requestingServiceId: created.requestingServiceId,
+        startsAt: created.startsAt,
+        endsAt: created.endsAt,
+      },
+    });
+
+    return res.status(201).json(created);
+  } catch (error: any) {
+    const status = ERROR_STATUS[error?.code as string];
+    if (status) return res.status(status).json({ error: error.message });
+    console.error("POST /api/admin/rbac/delegations error:", error);
+    return res.status(500).json({ error: "Failed to create delegation" });
+  }
+}
@@ -4,6 +4,7 @@ import { z } from "zod";
 import { prisma } from "@/prisma/client";
 import { ensureTenantRbacBootstrap } from "@/utils/rbac";
 import { requireAdminOrPermission } from "@/pages/api/admin/_admin";
+import { recordRbacAudit } from "@/utils/auditLog";
 
 const createSchema = z.object({
   key: z
@@ -114,14 +115,12 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return role;
     });
 
-    await db.rbacAudit.create({
-      data: {
-        tenantId,
-        actorUserId: session.id,
-        action: "ROLE_CREATED",
-        note: `Role ${created.key} criado`,
-        payload: { roleKey: created.key, cloneFromRoleKey: cloneFromRoleKey ?? null },
-      },
+    await recordRbacAudit(db, {
+      tenantId,
+      actorUserId: session.id,
+      action: "ROLE_CREATED",
+      note: `Role ${created.key} criado`,
+      payload: { roleKey: created.key, cloneFromRoleKey: cloneFromRoleKey ?? null },
     });
 
     return res.status(201).json(created);
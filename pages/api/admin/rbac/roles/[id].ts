@@ -4,6 +4,7 @@ import { z } from "zod";
 import { prisma } from "@/prisma/client";
 import { ensureTenantRbacBootstrap } from "@/utils/rbac";
 import { requireAdminOrPermission } from "@/pages/api/admin/_admin";
+import { recordRbacAudit } from "@/utils/auditLog";
 
 const updateSchema = z.object({
   name: z.string().trim().min(2).max(120).optional(),
@@ -44,13 +45,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       select: { id: true, key: true, name: true, description: true, isSystem: true },
     });
 
-    await db.rbacAudit.create({
-      data: {
-        tenantId,
-        actorUserId: session.id,
-        action: "ROLE_UPDATED",
-        payload: { roleId: role.id, roleKey: role.key },
-      },
+    await recordRbacAudit(db, {
+      tenantId,
+      actorUserId: session.id,
+      action: "ROLE_UPDATED",
+      payload: { roleId: role.id, roleKey: role.key },
     });
 
     return res.status(200).json(updated);
@@ -71,13 +70,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       await tx.accessRole.delete({ where: { id: role.id } });
     });
 
-    await db.rbacAudit.create({
-      data: {
-        tenantId,
-        actorUserId: session.id,
-        action: "ROLE_DELETED",
-        payload: { roleId: role.id, roleKey: role.key },
-      },
+    await recordRbacAudit(db, {
+      tenantId,
+      actorUserId: session.id,
+      action: "ROLE_DELETED",
+      payload: { roleId: role.id, roleKey: role.key },
     });
 
     return res.status(204).end();
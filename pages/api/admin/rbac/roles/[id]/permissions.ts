@@ -4,6 +4,7 @@ import { z } from "zod";
 import { prisma } from "@/prisma/client";
 import { ensureTenantRbacBootstrap } from "@/utils/rbac";
 import { requireAdminOrPermission } from "@/pages/api/admin/_admin";
+import { recordRbacAudit } from "@/utils/auditLog";
 
 const patchSchema = z.object({
   permissionKey: z.string().trim().min(2).max(120),
@@ -56,13 +57,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 
-  await db.rbacAudit.create({
-    data: {
-      tenantId,
-      actorUserId: session.id,
-      action: "ROLE_PERMISSION_CHANGED",
-      payload: { roleId: role.id, roleKey: role.key, permissionKey: permission.key, enabled: parsed.data.enabled },
-    },
+  await recordRbacAudit(db, {
+    tenantId,
+    actorUserId: session.id,
+    action: "ROLE_PERMISSION_CHANGED",
+    payload: { roleId: role.id, roleKey: role.key, permissionKey: permission.key, enabled: parsed.data.enabled },
   });
 
   return res.status(200).json({ ok: true });
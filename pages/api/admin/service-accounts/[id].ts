@@ -0,0 +1,62 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { prisma } from "@/prisma/client";
+import { requireAdmin } from "@/pages/api/admin/_admin";
+import { logUserAdminAction } from "@/utils/adminAudit";
+
+const updateSchema = z.object({
+  name: z.string().trim().min(2).max(120).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdmin(req, res);
+  if (!session) return;
+  const tenantId = session.tenantId as string;
+
+  const id = req.query.id;
+  if (typeof id !== "string") {
+    return res.status(400).json({ error: "Invalid service account id" });
+  }
+
+  if (req.method !== "PATCH") {
+    res.setHeader("Allow", ["PATCH"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const parsed = updateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request body", details: parsed.error.flatten() });
+  }
+
+  try {
+    const existing = await prisma.user.findFirst({
+      where: { id, tenantId, isServiceAccount: true },
+      select: { id: true, name: true, isActive: true },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: "Service account not found" });
+    }
+
+    // Deactivating the account is enough to stop every token it holds.
+    const updated = await prisma.user.update({
+      where: { id },
+      data: parsed.data,
+      select: { id: true, name: true, isActive: true },
+    });
+
+    await logUserAdminAction({
+      tenantId,
+      actorUserId: session.id,
+      targetUserId: id,
+      action: "SERVICE_ACCOUNT_UPDATED",
+      note: `Conta de serviço "${updated.name}" atualizada`,
+      payload: { before: existing, after: updated },
+    });
+
+    return res.status(200).json(updated);
+  } catch (error) {
+    console.error("PATCH /api/admin/service-accounts/[id] error:", error);
+    return res.status(500).json({ error: "Failed to update service account" });
+  }
+}
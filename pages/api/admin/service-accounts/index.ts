@@ -0,0 +1,99 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import bcrypt from "bcryptjs";
+import crypto from "crypto";
+import { z } from "zod";
+import { prisma } from "@/prisma/client";
+import { requireAdmin } from "@/pages/api/admin/_admin";
+import { logUserAdminAction } from "@/utils/adminAudit";
+
+const createSchema = z.object({
+  name: z.string().trim().min(2).max(120),
+  requestingServiceId: z.number().int().nullable().optional(),
+});
+
+const serviceAccountSelect = {
+  id: true,
+  name: true,
+  email: true,
+  isActive: true,
+  createdAt: true,
+  requestingService: { select: { id: true, codigo: true, designacao: true } },
+  _count: { select: { apiTokens: { where: { revokedAt: null } } } },
+} as const;
+
+function toRow(account: any) {
+  const { _count, ...rest } = account;
+  return { ...rest, createdAt: account.createdAt.toISOString(), activeTokens: _count.apiTokens };
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdmin(req, res);
+  if (!session) return;
+  const tenantId = session.tenantId as string;
+
+  if (req.method === "GET") {
+    try {
+      const accounts = await prisma.user.findMany({
+        where: { tenantId, isServiceAccount: true },
+        orderBy: { name: "asc" },
+        select: serviceAccountSelect,
+      });
+      return res.status(200).json(accounts.map(toRow));
+    } catch (error) {
+      console.error("GET /api/admin/service-accounts error:", error);
+      return res.status(500).json({ error: "Failed to load service accounts" });
+    }
+  }
+
+  if (req.method === "POST") {
+    const parsed = createSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid request body", details: parsed.error.flatten() });
+    }
+
+    try {
+      if (parsed.data.requestingServiceId != null) {
+        const svc = await prisma.requestingService.findUnique({
+          where: { id: parsed.data.requestingServiceId },
+          select: { id: true },
+        });
+        if (!svc) return res.status(400).json({ error: "Invalid requestingServiceId" });
+      }
+
+      // Service accounts never log in: placeholder address and an unguessable password.
+      const slug = parsed.data.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "svc";
+      const email = `${slug}-${crypto.randomBytes(3).toString("hex")}@service-account.invalid`;
+      const passwordHash = await bcrypt.hash(crypto.randomBytes(32).toString("base64url"), 10);
+
+      const created = await prisma.user.create({
+        data: {
+          tenantId,
+          name: parsed.data.name,
+          email,
+          passwordHash,
+          isServiceAccount: true,
+          requestingServiceId: parsed.data.requestingServiceId ?? null,
+          createdByUserId: session.id,
+        },
+        select: serviceAccountSelect,
+      });
+
+      await logUserAdminAction({
+        tenantId,
+        actorUserId: session.id,
+        targetUserId: created.id,
+        action: "SERVICE_ACCOUNT_CREATED",
+        note: `Conta de serviço "${created.name}" criada`,
+        payload: { requestingServiceId: parsed.data.requestingServiceId ?? null },
+      });
+
+      return res.status(201).json(toRow(created));
+    } catch (error) {
+      console.error("POST /api/admin/service-accounts error:", error);
+      return res.status(500).json({ error: "Failed to create service account" });
+    }
+  }
+
+  res.setHeader("Allow", ["GET", "POST"]);
+  return res.status(405).json({ error: "Method Not Allowed" });
+}
@@ -389,7 +389,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       }
     }
 
-    publishRealtimeEvent({
+    await publishRealtimeEvent({
       type: "storage.reorg.done",
       tenantId,
       audience: "ADMIN",
@@ -53,11 +53,15 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           requestingServiceId: true,
           mustChangePassword: true,
           email: true,
+          anonymisedAt: true,
         },
       });
       if (!existing) {
         return res.status(404).json({ error: "User not found" });
       }
+      if (existing.anonymisedAt) {
+        return res.status(409).json({ error: "Utilizadores anonimizados não podem ser alterados" });
+      }
 
       const updated = await prisma.user.update({
         where: { id },
@@ -80,6 +84,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           updatedAt: true,
           requestingServiceId: true,
           requestingService: { select: { id: true, codigo: true, designacao: true } },
+          authProvider: true,
+          isServiceAccount: true,
+          anonymisedAt: true,
+          mfa: { select: { enabledAt: true } },
         },
       });
 
@@ -110,7 +118,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       const roleChanged = existing.role !== updated.role;
       const deactivated = existing.isActive && !updated.isActive;
       if (roleChanged || deactivated) {
-        publishRealtimeEvent({
+        await publishRealtimeEvent({
           type: "auth.force_logout",
           tenantId: session.tenantId,
           audience: "USER",
@@ -122,8 +130,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         });
       }
 
+      const { mfa, ...rest } = updated;
       return res.status(200).json({
-        ...updated,
+        ...rest,
+        mfaEnabled: Boolean(mfa?.enabledAt),
         createdAt: updated.createdAt.toISOString(),
         updatedAt: updated.updatedAt.toISOString(),
       });
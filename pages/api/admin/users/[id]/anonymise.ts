@@ -0,0 +1,48 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireAdmin } from "../../_admin";
+import { applyRateLimit } from "@/utils/rateLimit";
+import { anonymiseUser } from "@/utils/gdpr";
+
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  SELF: 400,
+  SERVICE_ACCOUNT: 400,
+  ALREADY_ANONYMISED: 409,
+};
+
+// RGPD erasure: irreversible pseudonymisation, see utils/gdpr.ts for what is kept.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdmin(req, res);
+  if (!session) return;
+
+  const rl = await applyRateLimit(req, res, {
+    windowMs: 60_000,
+    max: 10,
+    keyPrefix: "admin-users-anonymise",
+  });
+  if (!rl.ok) {
+    return res.status(429).json({ error: "Too many requests. Please try again later." });
+  }
+
+  const id = req.query.id;
+  if (typeof id !== "string") {
+    return res.status(400).json({ error: "Invalid user id" });
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  try {
+    const summary = await anonymiseUser({ tenantId: session.tenantId, userId: id, actorUserId: session.id });
+    return res.status(200).json(summary);
+  } catch (error: any) {
+    const status = ERROR_STATUS[error?.code];
+    if (status) {
+      return res.status(status).json({ error: error.message });
+    }
+    console.error("POST /api/admin/users/[id]/anonymise error:", error);
+    return res.status(500).json({ error: "Failed to anonymise user" });
+  }
+}
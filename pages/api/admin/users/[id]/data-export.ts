@@ -0,0 +1,53 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireAdmin } from "../../_admin";
+import { applyRateLimit } from "@/utils/rateLimit";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { buildUserDataExport } from "@/utils/gdpr";
+
+// RGPD subject access: downloads everything held about the user as one JSON bundle.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdmin(req, res);
+  if (!session) return;
+
+  const rl = await applyRateLimit(req, res, {
+    windowMs: 60_000,
+    max: 10,
+    keyPrefix: "admin-users-data-export",
+  });
+  if (!rl.ok) {
+    return res.status(429).json({ error: "Too many requests. Please try again later." });
+  }
+
+  const id = req.query.id;
+  if (typeof id !== "string") {
+    return res.status(400).json({ error: "Invalid user id" });
+  }
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  try {
+    const bundle = await buildUserDataExport(session.tenantId, id);
+    if (!bundle) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    await logUserAdminAction({
+      tenantId: session.tenantId,
+      actorUserId: session.id,
+      targetUserId: id,
+      action: "USER_DATA_EXPORTED",
+      note: "Exportação de dados pessoais (RGPD)",
+    });
+
+    res.setHeader("Content-Type", "application/json; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="rgpd-${id}.json"`);
+    res.setHeader("Cache-Control", "no-store");
+    return res.status(200).send(JSON.stringify(bundle, null, 2));
+  } catch (error) {
+    console.error("GET /api/admin/users/[id]/data-export error:", error);
+    return res.status(500).json({ error: "Failed to export user data" });
+  }
+}
@@ -0,0 +1,58 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/prisma/client";
+import { requireAdmin } from "../../_admin";
+import { applyRateLimit } from "@/utils/rateLimit";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { removeMfa } from "@/utils/mfa";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdmin(req, res);
+  if (!session) return;
+
+  const rl = await applyRateLimit(req, res, {
+    windowMs: 60_000,
+    max: 30,
+    keyPrefix: "admin-users-mfa-reset",
+  });
+  if (!rl.ok) {
+    return res.status(429).json({ error: "Too many requests. Please try again later." });
+  }
+
+  const id = req.query.id;
+  if (typeof id !== "string") {
+    return res.status(400).json({ error: "Invalid user id" });
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  try {
+    const existing = await prisma.user.findFirst({
+      where: { id, tenantId: session.tenantId },
+      select: { id: true },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const removed = await removeMfa(id);
+    if (!removed) {
+      return res.status(409).json({ error: "O utilizador não tem autenticação de dois fatores configurada" });
+    }
+
+    await logUserAdminAction({
+      tenantId: session.tenantId,
+      actorUserId: session.id,
+      targetUserId: id,
+      action: "MFA_RESET",
+      note: "Two-factor authentication reset by admin",
+    });
+
+    return res.status(204).end();
+  } catch (error) {
+    console.error("POST /api/admin/users/[id]/mfa-reset error:", error);
+    return res.status(500).json({ error: "Failed to reset MFA" });
+  }
+}
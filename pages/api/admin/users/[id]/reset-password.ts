@@ -42,11 +42,17 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   try {
     const existing = await prisma.user.findFirst({
       where: { id, tenantId: session.tenantId },
-      select: { id: true },
+      select: { id: true, authProvider: true, anonymisedAt: true },
     });
     if (!existing) {
       return res.status(404).json({ error: "User not found" });
     }
+    if (existing.anonymisedAt) {
+      return res.status(409).json({ error: "Utilizadores anonimizados não podem ser alterados" });
+    }
+    if (existing.authProvider === "LDAP") {
+      return res.status(409).json({ error: "A password deste utilizador é gerida pelo diretório (LDAP)" });
+    }
 
     const passwordHash = await bcrypt.hash(parsed.data.password, 10);
     await prisma.user.update({
@@ -54,7 +60,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       data: { passwordHash, mustChangePassword: true },
     });
 
-    publishRealtimeEvent({
+    await publishRealtimeEvent({
       type: "auth.force_logout",
       tenantId: session.tenantId,
       audience: "USER",
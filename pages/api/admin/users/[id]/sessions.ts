@@ -0,0 +1,71 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/prisma/client";
+import { requireAdmin } from "../../_admin";
+import { applyRateLimit } from "@/utils/rateLimit";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { listActiveSessions, revokeUserSessions } from "@/utils/sessions";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdmin(req, res);
+  if (!session) return;
+
+  const rl = await applyRateLimit(req, res, {
+    windowMs: 60_000,
+    max: 60,
+    keyPrefix: "admin-users-sessions",
+  });
+  if (!rl.ok) {
+    return res.status(429).json({ error: "Too many requests. Please try again later." });
+  }
+
+  const id = req.query.id;
+  if (typeof id !== "string") {
+    return res.status(400).json({ error: "Invalid user id" });
+  }
+
+  if (req.method !== "GET" && req.method !== "DELETE") {
+    res.setHeader("Allow", ["GET", "DELETE"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  try {
+    const existing = await prisma.user.findFirst({
+      where: { id, tenantId: session.tenantId },
+      select: { id: true, email: true },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    if (req.method === "GET") {
+      return res.status(200).json(await listActiveSessions(session.tenantId, id));
+    }
+
+    // ?sessionId=... revokes a single device; without it every session of the user is closed.
+    const sessionId = typeof req.query.sessionId === "string" && req.query.sessionId ? req.query.sessionId : undefined;
+    const revoked = await revokeUserSessions({
+      tenantId: session.tenantId,
+      userId: id,
+      sessionId,
+      reason: "admin",
+      revokedByUserId: session.id,
+    });
+    if (sessionId && !revoked.length) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    await logUserAdminAction({
+      tenantId: session.tenantId,
+      actorUserId: session.id,
+      targetUserId: id,
+      action: sessionId ? "USER_SESSION_REVOKED" : "USER_SESSIONS_REVOKED",
+      note: sessionId ? `Session revoked for ${existing.email}` : `All sessions revoked for ${existing.email}`,
+      payload: { sessionIds: revoked },
+    });
+
+    return res.status(200).json({ revoked: revoked.length });
+  } catch (error) {
+    console.error(`${req.method} /api/admin/users/[id]/sessions error:`, error);
+    return res.status(500).json({ error: "Failed to manage user sessions" });
+  }
+}
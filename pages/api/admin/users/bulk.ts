@@ -44,7 +44,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   const users = await prisma.user.findMany({
-    where: { tenantId: session.tenantId, id: { in: ids } },
+    // Anonymised users stay inactive and untouched.
+    where: { tenantId: session.tenantId, id: { in: ids }, anonymisedAt: null },
     select: { id: true },
   });
   const existingIds = new Set(users.map((u) => u.id));
@@ -67,7 +68,12 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   const updated = await prisma.user.updateMany({
-    where: { tenantId: session.tenantId, id: { in: Array.from(existingIds) } },
+    where: {
+      tenantId: session.tenantId,
+      id: { in: Array.from(existingIds) },
+      // Directory accounts have no local password to change.
+      ...(action === "SET_MUST_CHANGE_PASSWORD" ? { authProvider: "LOCAL" as const } : {}),
+    },
     data,
   });
 
@@ -82,7 +88,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   if (action === "SET_ROLE" || (action === "SET_ACTIVE" && parsed.data.isActive === false)) {
     const reason = action === "SET_ROLE" ? "role_changed" : "deactivated";
     for (const userId of Array.from(existingIds)) {
-      publishRealtimeEvent({
+      await publishRealtimeEvent({
         type: "auth.force_logout",
         tenantId: session.tenantId,
         audience: "USER",
@@ -107,13 +107,18 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             createdAt: true,
             updatedAt: true,
             createdByUserId: true,
+            authProvider: true,
+            isServiceAccount: true,
+            anonymisedAt: true,
+            mfa: { select: { enabledAt: true } },
           },
         }),
         paged ? prisma.user.count({ where }) : Promise.resolve(0),
       ]);
 
-      const mapped = users.map((u) => ({
+      const mapped = users.map(({ mfa, ...u }) => ({
           ...u,
+          mfaEnabled: Boolean(mfa?.enabledAt),
           createdAt: u.createdAt.toISOString(),
           updatedAt: u.updatedAt.toISOString(),
         }));
@@ -0,0 +1,58 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireAdmin } from "../_admin";
+import { SYSTEM_PERMISSIONS } from "@/utils/rbac";
+import {
+  discardWorkflowDraft,
+  getWorkflowDefinition,
+  saveWorkflowDraft,
+  workflowGraphSchema,
+} from "@/utils/workflowDesigner";
+
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  NOT_DRAFT: 409,
+  INVALID_GRAPH: 400,
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdmin(req, res);
+  if (!session) return;
+
+  const id = req.query.id;
+  if (typeof id !== "string") {
+    return res.status(400).json({ error: "Invalid workflow id" });
+  }
+
+  try {
+    if (req.method === "GET") {
+      const definition = await getWorkflowDefinition(session.tenantId, id);
+      if (!definition) return res.status(404).json({ error: "Workflow not found" });
+      const permissions = SYSTEM_PERMISSIONS.map((p) => ({ key: p.key, name: p.name }));
+      return res.status(200).json({ ...definition, permissions });
+    }
+
+    if (req.method === "PUT") {
+      const parsed = workflowGraphSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid request body", details: parsed.error.flatten() });
+      }
+      const validation = await saveWorkflowDraft(session.tenantId, id, parsed.data, session.id);
+      return res.status(200).json({ ok: true, validation });
+    }
+
+    if (req.method === "DELETE") {
+      await discardWorkflowDraft(session.tenantId, id, session.id);
+      return res.status(204).end();
+    }
+  } catch (error: any) {
+    const status = ERROR_STATUS[error?.code];
+    if (status) {
+      return res.status(status).json({ error: error.message, issues: error.issues });
+    }
+    console.error(`${req.method} /api/admin/workflows/[id] error:`, error);
+    return res.status(500).json({ error: "Failed to process workflow" });
+  }
+
+  res.setHeader("Allow", ["GET", "PUT", "DELETE"]);
+  return res.status(405).json({ error: "Method Not Allowed" });
+}
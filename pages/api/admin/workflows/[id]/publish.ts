@@ -0,0 +1,43 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireAdmin } from "../../_admin";
+import { publishWorkflowDraft, publishWorkflowSchema } from "@/utils/workflowDesigner";
+
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  NOT_DRAFT: 409,
+  INVALID_GRAPH: 400,
+  UNMAPPED_STATES: 400,
+};
+
+// Publishing activates the draft for new instances; in-flight ones are pinned or migrated.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdmin(req, res);
+  if (!session) return;
+
+  const id = req.query.id;
+  if (typeof id !== "string") {
+    return res.status(400).json({ error: "Invalid workflow id" });
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const parsed = publishWorkflowSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request body", details: parsed.error.flatten() });
+  }
+
+  try {
+    const result = await publishWorkflowDraft(session.tenantId, id, parsed.data, session.id);
+    return res.status(200).json(result);
+  } catch (error: any) {
+    const status = ERROR_STATUS[error?.code];
+    if (status) {
+      return res.status(status).json({ error: error.message, issues: error.issues, unmapped: error.unmapped });
+    }
+    console.error("POST /api/admin/workflows/[id]/publish error:", error);
+    return res.status(500).json({ error: "Failed to publish workflow" });
+  }
+}
@@ -0,0 +1,54 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { requireAdmin } from "../_admin";
+import { prisma } from "@/prisma/client";
+import { ensureWorkflowDefinition } from "@/utils/workflow";
+import { createWorkflowDraft, listWorkflowDefinitions } from "@/utils/workflowDesigner";
+
+const createSchema = z.object({
+  fromDefinitionId: z.string().uuid(),
+});
+
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  DRAFT_EXISTS: 409,
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdmin(req, res);
+  if (!session) return;
+
+  if (req.method === "GET") {
+    try {
+      for (const targetType of ["REQUEST", "MUNICIPAL_ASSET", "FINANCE_PROCESS"] as const) {
+        await ensureWorkflowDefinition(prisma, session.tenantId, targetType);
+      }
+      const definitions = await listWorkflowDefinitions(session.tenantId);
+      return res.status(200).json({ definitions });
+    } catch (error) {
+      console.error("GET /api/admin/workflows error:", error);
+      return res.status(500).json({ error: "Failed to list workflows" });
+    }
+  }
+
+  if (req.method === "POST") {
+    const parsed = createSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid request body", details: parsed.error.flatten() });
+    }
+    try {
+      const draft = await createWorkflowDraft(session.tenantId, parsed.data.fromDefinitionId, session.id);
+      return res.status(201).json({ id: draft.id, version: draft.version });
+    } catch (error: any) {
+      const status = ERROR_STATUS[error?.code];
+      if (status) {
+        return res.status(status).json({ error: error.message, draftId: error.draftId });
+      }
+      console.error("POST /api/admin/workflows error:", error);
+      return res.status(500).json({ error: "Failed to create draft" });
+    }
+  }
+
+  res.setHeader("Allow", ["GET", "POST"]);
+  return res.status(405).json({ error: "Method Not Allowed" });
+}
@@ -0,0 +1,213 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { AuditSource } from "@prisma/client";
+import { z } from "zod";
+
+import { prisma } from "@/prisma/client";
+import { requireAdmin } from "@/pages/api/admin/_admin";
+import {
+  AUDIT_SOURCES,
+  AUDIT_TIMELINE_MAX_WINDOW,
+  formatAuditDetails,
+  resolveAuditEntity,
+  searchAuditTimeline,
+  type AuditTimelineFilters,
+} from "@/utils/auditTimeline";
+import { renderAuditTimelineReportHtml } from "@/utils/auditTimelineReportTemplate";
+import { renderHtmlToPdf } from "@/utils/puppeteer";
+import { applyRateLimit } from "@/utils/rateLimit";
+
+const PDF_MAX_ROWS = 1000;
+
+const querySchema = z.object({
+  tenantId: z.string().uuid().optional(),
+  entity: z.string().trim().max(120).optional(),
+  includeRelated: z.enum(["true", "false"]).default("true"),
+  actorUserId: z.string().uuid().optional(),
+  action: z.string().trim().max(80).optional(),
+  source: z
+    .string()
+    .optional()
+    .transform((v) => (v ? v.split(",").map((s) => s.trim()).filter(Boolean) : []))
+    .pipe(z.array(z.enum(AUDIT_SOURCES as [AuditSource, ...AuditSource[]]))),
+  from: z.string().optional(),
+  to: z.string().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
+  format: z.enum(["json", "csv", "pdf"]).default("json"),
+});
+
+function parseDate(raw: string | undefined, endOfDay: boolean) {
+  if (!raw) return null;
+  // Plain dates cover the whole day, so "to=2025-03-31" includes entries from that day.
+  const value = /^\d{4}-\d{2}-\d{2}$/.test(raw) ? `${raw}T${endOfDay ? "23:59:59.999" : "00:00:00.000"}` : raw;
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? undefined : d;
+}
+
+function csvEscape(value: unknown) {
+  const s = value == null ? "" : String(value);
+  if (/[",\n]/.test(s)) return `"${s.replace(/"/g, '""')}"`;
+  return s;
+}
+
+// Merged timeline over the legacy audit tables (user admin, RBAC, tickets, request status, assets,
+// finance processes, workflows). `entity` accepts a GTMI number, a ticket/asset/finance code, a user
+// e-mail or an id; for requests the timeline also covers the linked assets, finance processes,
+// tickets and workflow instance unless includeRelated=false.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const session = await requireAdmin(req, res);
+  if (!session) return;
+  const tenantId = session.tenantId as string;
+
+  const parsed = querySchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid query", details: parsed.error.flatten() });
+  const q = parsed.data;
+
+  if (q.tenantId && q.tenantId !== tenantId) return res.status(403).json({ error: "Forbidden" });
+
+  const from = parseDate(q.from, false);
+  const to = parseDate(q.to, true);
+  if (from === undefined || to === undefined) return res.status(400).json({ error: "Invalid date" });
+
+  const offset = (q.page - 1) * q.pageSize;
+  if (q.format === "json" && offset >= AUDIT_TIMELINE_MAX_WINDOW) {
+    return res.status(400).json({ error: `Only the newest ${AUDIT_TIMELINE_MAX_WINDOW} entries can be paged; narrow the filters` });
+  }
+
+  if (q.format === "pdf") {
+    const rl = await applyRateLimit(req, res, {
+      windowMs: 60_000,
+      max: 6,
+      keyPrefix: "audit-export",
+    });
+    if (!rl.ok) {
+      return res.status(429).json({ error: "Too many requests. Please try again later." });
+    }
+  }
+
+  try {
+    let scope = null;
+    if (q.entity) {
+      scope = await resolveAuditEntity(tenantId, q.entity, q.includeRelated === "true");
+      if (!scope) return res.status(404).json({ error: "Entity not found" });
+    }
+
+    const filters: AuditTimelineFilters = {
+      tenantId,
+      actorUserId: q.actorUserId,
+      action: q.action || undefined,
+      from,
+      to,
+      sources: q.source,
+      scope,
+    };
+
+    if (q.format === "json") {
+      const { items, total } = await searchAuditTimeline(filters, { offset, limit: q.pageSize });
+      return res.status(200).json({
+        items,
+        total,
+        page: q.page,
+        pageSize: q.pageSize,
+        maxWindow: AUDIT_TIMELINE_MAX_WINDOW,
+        entity: scope ? { ...scope.root, related: scope.related } : null,
+      });
+    }
+
+    const limit = q.format === "pdf" ? PDF_MAX_ROWS : AUDIT_TIMELINE_MAX_WINDOW;
+    const { items, total } = await searchAuditTimeline(filters, { offset: 0, limit });
+    const stamp = new Date().toISOString().slice(0, 10);
+
+    if (q.format === "csv") {
+      const header = [
+        "createdAt",
+        "chainSeq",
+        "source",
+        "action",
+        "entityType",
+        "entityId",
+        "entity",
+        "actorId",
+        "actorName",
+        "actorEmail",
+        "details",
+        "note",
+        "id",
+      ];
+      const lines = [header.join(",")];
+      for (const e of items) {
+        lines.push(
+          [
+            e.createdAt,
+            e.chainSeq,
+            e.source,
+            e.action,
+            e.entityType,
+            e.entityId,
+            e.entityLabel,
+            e.actor?.id,
+            e.actor?.name,
+            e.actor?.email,
+            formatAuditDetails(e),
+            e.note,
+            e.id,
+          ]
+            .map(csvEscape)
+            .join(",")
+        );
+      }
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="audit-${stamp}.csv"`);
+      res.setHeader("X-Total-Count", String(total));
+      return res.status(200).send(lines.join("\n"));
+    }
+
+    const [tenant, actor] = await Promise.all([
+      prisma.tenant.findUnique({ where: { id: tenantId }, select: { name: true } }),
+      q.actorUserId
+        ? prisma.user.findFirst({ where: { id: q.actorUserId, tenantId }, select: { name: true, email: true } })
+        : null,
+    ]);
+    const filterLabels: Array<[string, string]> = [];
+    if (scope) filterLabels.push(["Entidade", `${scope.root.type} ${scope.root.label}`]);
+    if (q.actorUserId) filterLabels.push(["Ator", actor ? `${actor.name} (${actor.email})` : q.actorUserId]);
+    if (q.action) filterLabels.push(["Ação", q.action]);
+    if (q.source.length) filterLabels.push(["Origem", q.source.join(", ")]);
+    if (from || to) filterLabels.push(["Período", `${from?.toISOString().slice(0, 10) ?? "…"} - ${to?.toISOString().slice(0, 10) ?? "…"}`]);
+
+    const html = renderAuditTimelineReportHtml({
+      tenantName: tenant?.name ?? "",
+      generatedAt: new Date().toISOString(),
+      generatedBy: { name: session.name, email: session.email },
+      filters: filterLabels,
+      entity: scope,
+      items,
+      total,
+    });
+
+    const pdf = await renderHtmlToPdf(html, {
+      format: "A4",
+      landscape: true,
+      printBackground: true,
+      displayHeaderFooter: true,
+      headerTemplate: "<div></div>",
+      footerTemplate: `
+        <div style="font-size:9px;color:#6b7280;width:100%;padding:0 16px;text-align:right;">
+          Página <span class="pageNumber"></span> / <span class="totalPages"></span>
+        </div>`,
+      margin: { top: "12mm", right: "8mm", bottom: "14mm", left: "8mm" },
+    });
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="audit-${stamp}.pdf"`);
+    return res.status(200).send(pdf);
+  } catch (error) {
+    console.error("GET /api/audit error:", error);
+    return res.status(500).json({ error: "Failed to load audit timeline" });
+  }
+}
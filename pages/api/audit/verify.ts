@@ -0,0 +1,33 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireAdmin } from "@/pages/api/admin/_admin";
+import { verifyAuditChain } from "@/utils/auditLog";
+import { applyRateLimit } from "@/utils/rateLimit";
+
+// Recomputes the tenant's audit hash chain. Keep the returned headSeq/headHash somewhere outside the
+// database (e.g. the monthly report) so truncating the tail of the log is detectable too.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const session = await requireAdmin(req, res);
+  if (!session) return;
+
+  const rl = await applyRateLimit(req, res, {
+    windowMs: 60_000,
+    max: 6,
+    keyPrefix: "audit-verify",
+  });
+  if (!rl.ok) {
+    return res.status(429).json({ error: "Too many requests. Please try again later." });
+  }
+
+  try {
+    const result = await verifyAuditChain(session.tenantId as string);
+    return res.status(200).json({ ...result, verifiedAt: new Date().toISOString() });
+  } catch (error) {
+    console.error("GET /api/audit/verify error:", error);
+    return res.status(500).json({ error: "Failed to verify audit log" });
+  }
+}
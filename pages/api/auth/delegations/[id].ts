@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/prisma/client";
+import { getSessionServer } from "@/utils/auth";
+import { revokeApprovalDelegation } from "@/utils/approvalDelegations";
+import { recordRbacAudit } from "@/utils/auditLog";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getSessionServer(req, res);
+  if (!session) return res.status(401).json({ error: "Unauthorized" });
+  if (session.apiToken) return res.status(403).json({ error: "Forbidden" });
+
+  const id = req.query.id;
+  if (typeof id !== "string") {
+    return res.status(400).json({ error: "Invalid delegation id" });
+  }
+
+  if (req.method !== "DELETE") {
+    res.setHeader("Allow", ["DELETE"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  try {
+    const revoked = await revokeApprovalDelegation(
+      { id, tenantId: session.tenantId, delegatorUserId: session.id },
+      session.id
+    );
+    if (!revoked) {
+      return res.status(404).json({ error: "Delegation not found" });
+    }
+
+    await recordRbacAudit(prisma as any, {
+      tenantId: session.tenantId,
+      actorUserId: session.id,
+      action: "DELEGATION_REVOKED",
+      payload: {
+        delegationId: revoked.id,
+        delegatorUserId: revoked.delegatorUserId,
+        delegateUserId: revoked.delegateUserId,
+      },
+    });
+
+    return res.status(204).end();
+  } catch (error) {
+    console.error("DELETE /api/auth/delegations/[id] error:", error);
+    return res.status(500).json({ error: "Failed to revoke delegation" });
+  }
+}
@@ -0,0 +1,112 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/prisma/client";
+import { getSessionServer } from "@/utils/auth";
+import {
+  approvalDelegationCreateSchema,
+  createApprovalDelegation,
+  listApprovalDelegations,
+  listDelegablePermissions,
+} from "@/utils/approvalDelegations";
+import { recordRbacAudit } from "@/utils/auditLog";
+import { applyRateLimit } from "@/utils/rateLimit";
+
+const ERROR_STATUS: Record<string, number> = {
+  INVALID_PERMISSIONS: 400,
+  SELF_DELEGATION: 400,
+  INVALID_PERIOD: 400,
+  INVALID_SERVICE: 400,
+  NOT_HELD: 400,
+  DELEGATOR_NOT_FOUND: 404,
+  DELEGATE_NOT_FOUND: 404,
+};
+
+// Approval delegations the signed-in user gave or received; new ones always lend the user's own permissions.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getSessionServer(req, res);
+  if (!session) return res.status(401).json({ error: "Unauthorized" });
+  if (session.apiToken) return res.status(403).json({ error: "Forbidden" });
+
+  const rl = await applyRateLimit(req, res, {
+    windowMs: 60_000,
+    max: 30,
+    keyPrefix: "auth-delegations",
+  });
+  if (!rl.ok) {
+    return res.status(429).json({ error: "Too many requests. Please try again later." });
+  }
+
+  if (req.method === "GET") {
+    try {
+      const [delegations, delegablePermissions] = await Promise.all([
+        listApprovalDelegations({ tenantId: session.tenantId, userId: session.id }),
+        listDelegablePermissions(session),
+      ]);
+      // Only approvers get the pickers; everyone else just sees what was delegated to them.
+      const [users, requestingServices] = delegablePermissions.length
+        ? await Promise.all([
+            prisma.user.findMany({
+              where: { tenantId: session.tenantId, isActive: true, isServiceAccount: false, id: { not: session.id } },
+              orderBy: [{ name: "asc" }],
+              select: { id: true, name: true, email: true },
+            }),
+            prisma.requestingService.findMany({
+              where: { ativo: true },
+              orderBy: [{ codigo: "asc" }],
+              select: { id: true, codigo: true, designacao: true },
+            }),
+          ])
+        : [[], []];
+      return res.status(200).json({ delegations, delegablePermissions, users, requestingServices });
+    } catch (error) {
+      console.error("GET /api/auth/delegations error:", error);
+      return res.status(500).json({ error: "Failed to load delegations" });
+    }
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["GET", "POST"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const parsed = approvalDelegationCreateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request body", details: parsed.error.flatten() });
+  }
+
+  try {
+    const created = await createApprovalDelegation({
+      tenantId: session.tenantId,
+      delegatorUserId: session.id,
+      delegateUserId: parsed.data.delegateUserId,
+      createdByUserId: session.id,
+      permissionKeys: parsed.data.permissionKeys,
+      requestingServiceId: parsed.data.requestingServiceId ?? null,
+      startsAt: parsed.data.startsAt ? new Date(parsed.data.startsAt) : null,
+      endsAt: new Date(parsed.data.endsAt),
+      note: parsed.data.note ?? null,
+    });
+
+    await recordRbacAudit(prisma as any, {
+      tenantId: session.tenantId,
+      actorUserId: session.id,
+      action: "DELEGATION_CREATED",
+      note: parsed.data.note?.trim() || null,
+      payload: {
+        delegationId: created.id,
+        delegatorUserId: session.id,
+        delegateUserId: created.delegate.id,
+        permissionKeys: created.permissionKeys,
+        requestingServiceId: created.requestingServiceId,
+        startsAt: created.startsAt,
+        endsAt: created.endsAt,
+      },
+    });
+
+    return res.status(201).json(created);
+  } catch (error: any) {
+    const status = ERROR_STATUS[error?.code as string];
+    if (status) return res.status(status).json({ error: error.message });
+    console.error("POST /api/auth/delegations error:", error);
+    return res.status(500).json({ error: "Failed to create delegation" });
+  }
+}
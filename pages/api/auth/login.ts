@@ -1,9 +1,6 @@
 import { NextApiRequest, NextApiResponse } from "next";
 import { prisma } from "@/prisma/client";
-import bcrypt from "bcryptjs";
-import crypto from "crypto";
-import { generateToken } from "../../../utils/auth";
-import Cookies from "cookies";
+import { generateMfaToken, setSessionCookies, verifyCredentials } from "../../../utils/auth";
 import { applyRateLimit } from "@/utils/rateLimit";
 import { getClientIp, ipMatches } from "@/utils/ip";
 import { notifyAdmin } from "@/utils/notifications";
@@ -11,6 +8,7 @@ import { checkLoginLockout, clearLoginFailures, registerLoginFailure } from "@/u
 import { logError, logInfo, logWarn } from "@/utils/logger";
 import { ensureTenantRbacBootstrap } from "@/utils/rbac";
 import { ensureRequestWorkflowDefinition } from "@/utils/workflow";
+import { isMfaRequired } from "@/utils/mfa";
 
 function resolveTenantSlug(req: NextApiRequest): string {
   const header = req.headers["x-tenant-slug"];
@@ -129,29 +127,18 @@ export default async function login(req: NextApiRequest, res: NextApiResponse) {
       });
     }
 
-    const user = await prisma.user.findUnique({
-      where: {
-        tenantId_email: {
-          tenantId: tenant.id,
-          email,
-        },
-      },
-    });
+    // Local accounts check the bcrypt hash; LDAP accounts bind against the directory.
+    const credentials = await verifyCredentials(tenant.id, email, password);
 
-    if (!user || !user.isActive) {
+    if (!credentials.user) {
       const retryAfter = await registerLoginFailure(tenant.id, email, clientIp);
       if (retryAfter) res.setHeader("Retry-After", String(retryAfter));
-      logWarn("Login denied: invalid user or inactive", { tenantId: tenant.id, email, clientIp }, req);
+      const reason = credentials.failure === "invalid_password" ? "invalid password" : "invalid user or inactive";
+      logWarn(`Login denied: ${reason}`, { tenantId: tenant.id, email, clientIp }, req);
       return res.status(401).json({ error: "Invalid email or password" });
     }
 
-    const isPasswordValid = await bcrypt.compare(password, user.passwordHash);
-    if (!isPasswordValid) {
-      const retryAfter = await registerLoginFailure(tenant.id, email, clientIp);
-      if (retryAfter) res.setHeader("Retry-After", String(retryAfter));
-      logWarn("Login denied: invalid password", { tenantId: tenant.id, userId: user.id, clientIp }, req);
-      return res.status(401).json({ error: "Invalid email or password" });
-    }
+    const user = credentials.user;
 
     await ensureTenantRbacBootstrap(prisma, tenant.id);
     await ensureRequestWorkflowDefinition(prisma, tenant.id);
@@ -263,9 +250,22 @@ export default async function login(req: NextApiRequest, res: NextApiResponse) {
       return res.status(500).json({ error: "User data corrupted: id missing" });
     }
 
+    // Second factor: the session is only issued by /api/auth/mfa/verify. Failures are kept
+    // until then so wrong codes count towards the same lockout as wrong passwords.
+    const mfa = await prisma.userMfa.findUnique({ where: { userId: user.id }, select: { enabledAt: true } });
+    const mfaEnabled = Boolean(mfa?.enabledAt);
+    if (mfaEnabled || (await isMfaRequired(user))) {
+      logInfo("Login pending second factor", { tenantId: tenant.id, userId: user.id, clientIp, mfaEnabled }, req);
+      return res.status(200).json({
+        mfaRequired: true,
+        enrollmentRequired: !mfaEnabled,
+        mfaToken: generateMfaToken(user.id, user.updatedAt.getTime()),
+      });
+    }
+
     await clearLoginFailures(tenant.id, email, clientIp);
 
-    const token = generateToken(user.id, user.role, user.updatedAt.getTime());
+    const token = await setSessionCookies(req, res, user);
 
     if (!token) {
       logError("Login error: failed generating token", { userId: user.id }, req);
@@ -274,39 +274,6 @@ export default async function login(req: NextApiRequest, res: NextApiResponse) {
         .json({ error: "Failed to generate session token" });
     }
 
-    // Determine if the connection is secure (HTTPS)
-    // Avoid relying on NODE_ENV: running `next start` locally over http would otherwise set Secure cookies that browsers drop.
-    const forwardedProto = String(req.headers["x-forwarded-proto"] ?? "");
-    const isSecure = forwardedProto === "https" || Boolean((req.socket as any)?.encrypted);
-
-    const cookies = new Cookies(req, res, { secure: isSecure });
-    cookies.set("session_id", token, {
-      httpOnly: true,
-      secure: isSecure, // Browsers require Secure when SameSite=None
-      sameSite: isSecure ? "none" : "lax",
-      path: "/",
-      maxAge: 60 * 60 * 1000, // 1 hour
-    });
-    // Also expose a non-httpOnly cookie with the user's role so middleware can enforce route-level access
-    try {
-      cookies.set("user_role", user.role ?? "", {
-        httpOnly: false,
-        secure: isSecure,
-        sameSite: isSecure ? "none" : "lax",
-        path: "/",
-        maxAge: 60 * 60 * 1000,
-      });
-      cookies.set("csrf_token", crypto.randomBytes(32).toString("base64url"), {
-        httpOnly: false,
-        secure: isSecure,
-        sameSite: isSecure ? "none" : "lax",
-        path: "/",
-        maxAge: 60 * 60 * 1000,
-      });
-    } catch (e) {
-      // ignore cookie set failures
-    }
-
     res.status(200).json({
       userId: user.id,
       userName: user.name,
@@ -314,6 +281,10 @@ export default async function login(req: NextApiRequest, res: NextApiResponse) {
     });
     logInfo("Login success", { tenantId: tenant.id, userId: user.id, clientIp }, req);
   } catch (error) {
+    if ((error as any)?.code === "LDAP_UNAVAILABLE") {
+      logError("Login error: directory unavailable", { error: String((error as any).cause ?? error) }, req);
+      return res.status(503).json({ error: "Serviço de diretório indisponível. Tente novamente mais tarde." });
+    }
     logError("Login error", { error: error instanceof Error ? error.message : String(error) }, req);
     res.status(500).json({ error: "Internal server error" });
   }
@@ -1,5 +1,7 @@
 import { NextApiRequest, NextApiResponse } from "next";
 import Cookies from "cookies";
+import { getCurrentSessionId } from "@/utils/auth";
+import { prisma } from "@/prisma/client";
 
 export default async function handler(
   req: NextApiRequest,
@@ -9,6 +11,14 @@ export default async function handler(
     return res.status(405).json({ error: "Method Not Allowed" });
   }
 
+  // Close the registry row so the token cannot be replayed after logout.
+  const sessionId = getCurrentSessionId(req);
+  if (sessionId) {
+    await prisma.userSession
+      .updateMany({ where: { id: sessionId, revokedAt: null }, data: { revokedAt: new Date(), revokedReason: "logout" } })
+      .catch((error) => console.error("POST /api/auth/logout error:", error));
+  }
+
   const forwardedProto = String(req.headers["x-forwarded-proto"] ?? "");
   const isSecure = forwardedProto === "https" || Boolean((req.socket as any)?.encrypted);
 
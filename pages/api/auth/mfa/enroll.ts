@@ -0,0 +1,48 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { verifyMfaToken } from "@/utils/auth";
+import { applyRateLimit } from "@/utils/rateLimit";
+import { startEnrollment } from "@/utils/mfa";
+
+const bodySchema = z.object({
+  mfaToken: z.string().min(1),
+});
+
+// Login-time enrolment for users the policy requires to have a second factor; the code is then
+// confirmed through /api/auth/mfa/verify. Signed-in users enrol through /api/auth/mfa instead.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const rl = await applyRateLimit(req, res, {
+    windowMs: 15 * 60 * 1000,
+    max: 10,
+    keyPrefix: "login-mfa-enroll",
+  });
+  if (!rl.ok) {
+    return res.status(429).json({ error: "Too many requests. Please try again later." });
+  }
+
+  const parsed = bodySchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid body" });
+  }
+
+  const user = await verifyMfaToken(parsed.data.mfaToken);
+  if (!user) {
+    return res.status(401).json({ code: "MFA_TOKEN_EXPIRED", error: "Sessão de autenticação expirada. Inicie sessão novamente." });
+  }
+
+  try {
+    const enrollment = await startEnrollment(user);
+    return res.status(200).json(enrollment);
+  } catch (error: any) {
+    if (error?.code === "MFA_ALREADY_ENABLED") {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error("POST /api/auth/mfa/enroll error:", error);
+    return res.status(500).json({ error: "Failed to start enrollment" });
+  }
+}
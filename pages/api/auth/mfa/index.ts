@@ -0,0 +1,95 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { getSessionServer } from "@/utils/auth";
+import { applyRateLimit } from "@/utils/rateLimit";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import {
+  confirmEnrollment,
+  getMfaStatus,
+  isMfaRequired,
+  removeMfa,
+  startEnrollment,
+  verifyMfaChallenge,
+} from "@/utils/mfa";
+
+const confirmSchema = z.object({
+  code: z.string().trim().min(6).max(12),
+});
+
+const disableSchema = z
+  .object({
+    code: z.string().trim().max(12).optional(),
+    recoveryCode: z.string().trim().max(20).optional(),
+  })
+  .refine((v) => Boolean(v.code) !== Boolean(v.recoveryCode), { message: "code or recoveryCode is required" });
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getSessionServer(req, res);
+  if (!session) return res.status(401).json({ error: "Unauthorized" });
+
+  const rl = await applyRateLimit(req, res, {
+    windowMs: 60_000,
+    max: 30,
+    keyPrefix: "auth-mfa",
+  });
+  if (!rl.ok) {
+    return res.status(429).json({ error: "Too many requests. Please try again later." });
+  }
+
+  try {
+    if (req.method === "GET") {
+      return res.status(200).json(await getMfaStatus(session));
+    }
+
+    if (req.method === "POST") {
+      const enrollment = await startEnrollment(session);
+      return res.status(200).json(enrollment);
+    }
+
+    if (req.method === "PUT") {
+      const parsed = confirmSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid body" });
+
+      const recoveryCodes = await confirmEnrollment(session.id, parsed.data.code);
+      await logUserAdminAction({
+        tenantId: session.tenantId,
+        actorUserId: session.id,
+        targetUserId: session.id,
+        action: "MFA_ENROLLED",
+        note: "Autenticação de dois fatores ativada",
+      });
+      return res.status(200).json({ recoveryCodes });
+    }
+
+    if (req.method === "DELETE") {
+      const parsed = disableSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid body" });
+
+      if (await isMfaRequired(session)) {
+        return res.status(409).json({ error: "A política da entidade exige dois fatores para este utilizador" });
+      }
+      const method = await verifyMfaChallenge(session.id, parsed.data);
+      if (!method) return res.status(400).json({ code: "MFA_INVALID_CODE", error: "Código inválido" });
+
+      await removeMfa(session.id);
+      await logUserAdminAction({
+        tenantId: session.tenantId,
+        actorUserId: session.id,
+        targetUserId: session.id,
+        action: "MFA_DISABLED",
+        note: "Autenticação de dois fatores desativada pelo próprio",
+        payload: { method },
+      });
+      return res.status(204).end();
+    }
+
+    res.setHeader("Allow", ["GET", "POST", "PUT", "DELETE"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  } catch (error: any) {
+    if (error?.code === "MFA_ALREADY_ENABLED") return res.status(409).json({ error: error.message });
+    if (error?.code === "MFA_NOT_ENROLLING") return res.status(409).json({ error: error.message });
+    if (error?.code === "MFA_INVALID_CODE") return res.status(400).json({ code: error.code, error: error.message });
+    console.error(`${req.method} /api/auth/mfa error:`, error);
+    return res.status(500).json({ error: "Failed to update two-factor authentication" });
+  }
+}
@@ -0,0 +1,52 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { getSessionServer } from "@/utils/auth";
+import { applyRateLimit } from "@/utils/rateLimit";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { regenerateRecoveryCodes, verifyMfaChallenge } from "@/utils/mfa";
+
+const bodySchema = z.object({
+  code: z.string().trim().min(6).max(12),
+});
+
+// Replaces all recovery codes; requires a current authenticator code.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getSessionServer(req, res);
+  if (!session) return res.status(401).json({ error: "Unauthorized" });
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const rl = await applyRateLimit(req, res, {
+    windowMs: 60_000,
+    max: 10,
+    keyPrefix: "auth-mfa-recovery",
+  });
+  if (!rl.ok) {
+    return res.status(429).json({ error: "Too many requests. Please try again later." });
+  }
+
+  const parsed = bodySchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid body" });
+
+  try {
+    const method = await verifyMfaChallenge(session.id, { code: parsed.data.code });
+    if (!method) return res.status(400).json({ code: "MFA_INVALID_CODE", error: "Código inválido" });
+
+    const recoveryCodes = await regenerateRecoveryCodes(session.id);
+    await logUserAdminAction({
+      tenantId: session.tenantId,
+      actorUserId: session.id,
+      targetUserId: session.id,
+      action: "MFA_RECOVERY_CODES_REGENERATED",
+      note: "Códigos de recuperação gerados de novo",
+    });
+    return res.status(200).json({ recoveryCodes });
+  } catch (error: any) {
+    if (error?.code === "MFA_NOT_ENABLED") return res.status(409).json({ error: error.message });
+    console.error("POST /api/auth/mfa/recovery-codes error:", error);
+    return res.status(500).json({ error: "Failed to regenerate recovery codes" });
+  }
+}
@@ -0,0 +1,116 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { setSessionCookies, verifyMfaToken } from "@/utils/auth";
+import { applyRateLimit } from "@/utils/rateLimit";
+import { getClientIp } from "@/utils/ip";
+import { checkLoginLockout, clearLoginFailures, registerLoginFailure } from "@/utils/loginLockout";
+import { logInfo, logWarn } from "@/utils/logger";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { confirmEnrollment, verifyMfaChallenge } from "@/utils/mfa";
+import { prisma } from "@/prisma/client";
+
+const bodySchema = z
+  .object({
+    mfaToken: z.string().min(1),
+    code: z.string().trim().max(12).optional(),
+    recoveryCode: z.string().trim().max(20).optional(),
+  })
+  .refine((v) => Boolean(v.code) !== Boolean(v.recoveryCode), { message: "code or recoveryCode is required" });
+
+// Second login step: exchanges the mfaToken from /api/auth/login plus a code for the session.
+// A user the policy forces to enrol confirms the new authenticator here as well.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const rl = await applyRateLimit(req, res, {
+    windowMs: 15 * 60 * 1000,
+    max: 30,
+    keyPrefix: "login-mfa",
+  });
+  if (!rl.ok) {
+    return res.status(429).json({
+      error: "Too many login attempts. Please try again later.",
+      retryAfterSeconds: rl.retryAfterSeconds,
+    });
+  }
+
+  const parsed = bodySchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid body", details: parsed.error.flatten() });
+  }
+
+  const user = await verifyMfaToken(parsed.data.mfaToken);
+  if (!user) {
+    return res.status(401).json({ code: "MFA_TOKEN_EXPIRED", error: "Sessão de autenticação expirada. Inicie sessão novamente." });
+  }
+
+  const clientIp = getClientIp(req) || "unknown";
+  try {
+    const lockoutSeconds = await checkLoginLockout(user.tenantId, user.email, clientIp);
+    if (lockoutSeconds) {
+      res.setHeader("Retry-After", String(lockoutSeconds));
+      return res.status(429).json({
+        error: "Too many failed login attempts. Try again later.",
+        retryAfterSeconds: lockoutSeconds,
+      });
+    }
+
+    const mfa = await prisma.userMfa.findUnique({ where: { userId: user.id }, select: { enabledAt: true } });
+    let recoveryCodes: string[] | undefined;
+    let method: "TOTP" | "RECOVERY" | null = null;
+
+    if (mfa?.enabledAt) {
+      method = await verifyMfaChallenge(user.id, parsed.data);
+    } else if (parsed.data.code) {
+      try {
+        recoveryCodes = await confirmEnrollment(user.id, parsed.data.code);
+        method = "TOTP";
+      } catch (error: any) {
+        if (error?.code !== "MFA_INVALID_CODE" && error?.code !== "MFA_NOT_ENROLLING") throw error;
+      }
+    }
+
+    if (!method) {
+      const retryAfter = await registerLoginFailure(user.tenantId, user.email, clientIp);
+      if (retryAfter) res.setHeader("Retry-After", String(retryAfter));
+      logWarn("Login denied: invalid second factor", { tenantId: user.tenantId, userId: user.id, clientIp }, req);
+      return res.status(401).json({ code: "MFA_INVALID_CODE", error: "Código inválido" });
+    }
+
+    await clearLoginFailures(user.tenantId, user.email, clientIp);
+    await setSessionCookies(req, res, user);
+
+    if (recoveryCodes) {
+      await logUserAdminAction({
+        tenantId: user.tenantId,
+        actorUserId: user.id,
+        targetUserId: user.id,
+        action: "MFA_ENROLLED",
+        note: "Autenticação de dois fatores ativada no início de sessão",
+      });
+    } else if (method === "RECOVERY") {
+      await logUserAdminAction({
+        tenantId: user.tenantId,
+        actorUserId: user.id,
+        targetUserId: user.id,
+        action: "MFA_RECOVERY_CODE_USED",
+        note: "Início de sessão com código de recuperação",
+        payload: { clientIp },
+      });
+    }
+
+    logInfo("Login success", { tenantId: user.tenantId, userId: user.id, clientIp, mfa: method }, req);
+    return res.status(200).json({
+      userId: user.id,
+      userName: user.name,
+      userEmail: user.email,
+      ...(recoveryCodes ? { recoveryCodes } : {}),
+    });
+  } catch (error) {
+    console.error("POST /api/auth/mfa/verify error:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextApiRequest, NextApiResponse } from "next";
-import { getSessionServer } from "@/utils/auth";
+import { getCurrentSessionId, getSessionServer } from "@/utils/auth";
+import { SESSION_IDLE_MS } from "@/utils/sessions";
 import Cookies from "cookies";
 import crypto from "crypto";
 import { prisma } from "@/prisma/client";
@@ -50,7 +51,7 @@ export default async function handler(
       secure: isSecure,
       sameSite: isSecure ? "none" : "lax",
       path: "/",
-      maxAge: 60 * 60 * 1000,
+      maxAge: SESSION_IDLE_MS,
     });
     if (!req.cookies["csrf_token"]) {
       cookies.set("csrf_token", crypto.randomBytes(32).toString("base64url"), {
@@ -58,7 +59,7 @@ export default async function handler(
         secure: isSecure,
         sameSite: isSecure ? "none" : "lax",
         path: "/",
-        maxAge: 60 * 60 * 1000,
+        maxAge: SESSION_IDLE_MS,
       });
     }
 
@@ -68,6 +69,7 @@ export default async function handler(
       id: user.id,
       tenantId: (user as any).tenantId,
       role: user.role,
+      apiToken: user.apiToken,
     });
     const permissions = Array.from(
       new Set(permissionGrants.map((grant) => grant.key).filter((key) => key !== "*"))
@@ -85,6 +87,7 @@ export default async function handler(
       requestingServiceId: (user as any).requestingServiceId || null,
       permissions,
       permissionGrants,
+      sessionId: getCurrentSessionId(req),
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
     });
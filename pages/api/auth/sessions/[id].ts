@@ -0,0 +1,45 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getSessionServer } from "@/utils/auth";
+import { applyRateLimit } from "@/utils/rateLimit";
+import { revokeUserSessions } from "@/utils/sessions";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getSessionServer(req, res);
+  if (!session) return res.status(401).json({ error: "Unauthorized" });
+
+  const rl = await applyRateLimit(req, res, {
+    windowMs: 60_000,
+    max: 60,
+    keyPrefix: "auth-sessions",
+  });
+  if (!rl.ok) {
+    return res.status(429).json({ error: "Too many requests. Please try again later." });
+  }
+
+  const id = req.query.id;
+  if (typeof id !== "string") {
+    return res.status(400).json({ error: "Invalid session id" });
+  }
+
+  if (req.method !== "DELETE") {
+    res.setHeader("Allow", ["DELETE"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  try {
+    const revoked = await revokeUserSessions({
+      tenantId: session.tenantId,
+      userId: session.id,
+      sessionId: id,
+      reason: "user",
+      revokedByUserId: session.id,
+    });
+    if (!revoked.length) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+    return res.status(204).end();
+  } catch (error) {
+    console.error("DELETE /api/auth/sessions/[id] error:", error);
+    return res.status(500).json({ error: "Failed to revoke session" });
+  }
+}
@@ -0,0 +1,45 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getCurrentSessionId, getSessionServer } from "@/utils/auth";
+import { applyRateLimit } from "@/utils/rateLimit";
+import { listActiveSessions, revokeUserSessions } from "@/utils/sessions";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getSessionServer(req, res);
+  if (!session) return res.status(401).json({ error: "Unauthorized" });
+
+  const rl = await applyRateLimit(req, res, {
+    windowMs: 60_000,
+    max: 60,
+    keyPrefix: "auth-sessions",
+  });
+  if (!rl.ok) {
+    return res.status(429).json({ error: "Too many requests. Please try again later." });
+  }
+
+  const currentSessionId = getCurrentSessionId(req);
+
+  try {
+    if (req.method === "GET") {
+      const sessions = await listActiveSessions(session.tenantId, session.id);
+      return res.status(200).json(sessions.map((s) => ({ ...s, current: s.id === currentSessionId })));
+    }
+
+    // Sign out everywhere else, keeping the session making the request.
+    if (req.method === "DELETE") {
+      const revoked = await revokeUserSessions({
+        tenantId: session.tenantId,
+        userId: session.id,
+        exceptSessionId: currentSessionId,
+        reason: "user",
+        revokedByUserId: session.id,
+      });
+      return res.status(200).json({ revoked: revoked.length });
+    }
+
+    res.setHeader("Allow", ["GET", "DELETE"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  } catch (error) {
+    console.error(`${req.method} /api/auth/sessions error:`, error);
+    return res.status(500).json({ error: "Failed to manage sessions" });
+  }
+}
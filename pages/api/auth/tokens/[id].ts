@@ -0,0 +1,41 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getSessionServer } from "@/utils/auth";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { revokeApiToken } from "@/utils/apiTokens";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getSessionServer(req, res);
+  if (!session) return res.status(401).json({ error: "Unauthorized" });
+  if (session.apiToken) return res.status(403).json({ error: "Forbidden" });
+
+  const id = req.query.id;
+  if (typeof id !== "string") {
+    return res.status(400).json({ error: "Invalid token id" });
+  }
+
+  if (req.method !== "DELETE") {
+    res.setHeader("Allow", ["DELETE"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  try {
+    const revoked = await revokeApiToken({ id, tenantId: session.tenantId, userId: session.id }, session.id);
+    if (!revoked) {
+      return res.status(404).json({ error: "Token not found" });
+    }
+
+    await logUserAdminAction({
+      tenantId: session.tenantId,
+      actorUserId: session.id,
+      targetUserId: session.id,
+      action: "API_TOKEN_REVOKED",
+      note: "Token de API revogado",
+      payload: { tokenId: id },
+    });
+
+    return res.status(204).end();
+  } catch (error) {
+    console.error("DELETE /api/auth/tokens/[id] error:", error);
+    return res.status(500).json({ error: "Failed to revoke API token" });
+  }
+}
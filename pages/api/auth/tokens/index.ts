@@ -0,0 +1,100 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { User } from "@prisma/client";
+import { prisma } from "@/prisma/client";
+import { getSessionServer } from "@/utils/auth";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { apiTokenCreateSchema, createApiToken, listApiTokens } from "@/utils/apiTokens";
+import { applyRateLimit } from "@/utils/rateLimit";
+import { getUserPermissionGrants, SYSTEM_PERMISSIONS } from "@/utils/rbac";
+
+/** Permission keys the user holds, or null when they hold everything. */
+async function getHeldPermissionKeys(session: Pick<User, "id" | "tenantId" | "role">) {
+  const grants = await getUserPermissionGrants(prisma, {
+    id: session.id,
+    tenantId: session.tenantId,
+    role: session.role,
+  });
+  if (grants.some((grant) => grant.key === "*")) return null;
+  return new Set(grants.map((grant) => grant.key));
+}
+
+// Personal API tokens of the signed-in user.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getSessionServer(req, res);
+  if (!session) return res.status(401).json({ error: "Unauthorized" });
+  if (session.apiToken) return res.status(403).json({ error: "Forbidden" });
+
+  const rl = await applyRateLimit(req, res, {
+    windowMs: 60_000,
+    max: 30,
+    keyPrefix: "auth-tokens",
+  });
+  if (!rl.ok) {
+    return res.status(429).json({ error: "Too many requests. Please try again later." });
+  }
+
+  if (req.method === "GET") {
+    try {
+      const [tokens, held] = await Promise.all([
+        listApiTokens({ tenantId: session.tenantId, userId: session.id }),
+        getHeldPermissionKeys(session),
+      ]);
+      const availableScopes = SYSTEM_PERMISSIONS.filter((p) => !held || held.has(p.key)).map(({ key, name }) => ({
+        key,
+        name,
+      }));
+      return res.status(200).json({ tokens, availableScopes });
+    } catch (error) {
+      console.error("GET /api/auth/tokens error:", error);
+      return res.status(500).json({ error: "Failed to load API tokens" });
+    }
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["GET", "POST"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const parsed = apiTokenCreateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request body", details: parsed.error.flatten() });
+  }
+
+  try {
+    // A personal token can only be scoped to permissions its owner holds today.
+    const held = await getHeldPermissionKeys(session);
+    if (held) {
+      const missing = parsed.data.scopes.filter((key) => !held.has(key));
+      if (missing.length) {
+        return res.status(400).json({ error: `Não tem as permissões: ${missing.join(", ")}` });
+      }
+    }
+
+    const created = await createApiToken({
+      tenantId: session.tenantId,
+      userId: session.id,
+      createdByUserId: session.id,
+      name: parsed.data.name,
+      scopes: parsed.data.scopes,
+      expiresAt: parsed.data.expiresAt ? new Date(parsed.data.expiresAt) : null,
+      allowedIpIds: parsed.data.allowedIpIds,
+    });
+
+    await logUserAdminAction({
+      tenantId: session.tenantId,
+      actorUserId: session.id,
+      targetUserId: session.id,
+      action: "API_TOKEN_CREATED",
+      note: `Token de API "${created.name}" criado`,
+      payload: { tokenId: created.id, scopes: created.scopes, expiresAt: created.expiresAt },
+    });
+
+    return res.status(201).json(created);
+  } catch (error: any) {
+    if (["INVALID_SCOPES", "INVALID_EXPIRY", "INVALID_ALLOWED_IPS"].includes(error?.code)) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("POST /api/auth/tokens error:", error);
+    return res.status(500).json({ error: "Failed to create API token" });
+  }
+}
@@ -2,6 +2,15 @@ import { NextApiRequest, NextApiResponse } from "next";
 import { Prisma } from "@prisma/client";
 import { prisma } from "@/prisma/client";
 import { getSessionServer } from "@/utils/auth";
+import { refreshCategoryProductsStockStatus, stockLevelInputSchema } from "@/utils/stockLevels";
+
+function parseCategoryStockLevels(body: any) {
+  return stockLevelInputSchema.safeParse({
+    minStock: body?.defaultMinStock,
+    maxStock: body?.defaultMaxStock,
+    reorderPoint: body?.defaultReorderPoint,
+  });
+}
 
 export default async function handler(
   req: NextApiRequest,
@@ -27,9 +36,16 @@ export default async function handler(
         if (!name) {
           return res.status(400).json({ error: "Name is required" });
         }
+        const levels = parseCategoryStockLevels(req.body);
+        if (!levels.success) {
+          return res.status(400).json({ error: "Invalid stock levels" });
+        }
         const category = await prisma.category.create({
           data: {
             name,
+            defaultMinStock: levels.data.minStock ?? null,
+            defaultMaxStock: levels.data.maxStock ?? null,
+            defaultReorderPoint: levels.data.reorderPoint ?? null,
             tenantId,
           },
         });
@@ -64,15 +80,33 @@ export default async function handler(
 
         const normalizedName = String(name).trim();
 
+        const levels = parseCategoryStockLevels(req.body);
+        if (!levels.success) {
+          return res.status(400).json({ error: "Invalid stock levels" });
+        }
+        const levelsChanged =
+          levels.data.minStock !== undefined ||
+          levels.data.maxStock !== undefined ||
+          levels.data.reorderPoint !== undefined;
+
         const updated = await prisma.category.updateMany({
           where: { id, tenantId },
-          data: { name: normalizedName },
+          data: {
+            name: normalizedName,
+            ...(levels.data.minStock !== undefined ? { defaultMinStock: levels.data.minStock } : {}),
+            ...(levels.data.maxStock !== undefined ? { defaultMaxStock: levels.data.maxStock } : {}),
+            ...(levels.data.reorderPoint !== undefined ? { defaultReorderPoint: levels.data.reorderPoint } : {}),
+          },
         });
 
         if (updated.count === 0) {
           return res.status(404).json({ error: "Category not found" });
         }
 
+        if (levelsChanged) {
+          await refreshCategoryProductsStockStatus(tenantId, id);
+        }
+
         const updatedCategory = await prisma.category.findFirst({
           where: { id, tenantId },
         });
@@ -64,7 +64,7 @@ function parseStatuses(raw: string | undefined) {
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["assets.view", "assets.manage"] });
   if (!session) {
     return res.status(401).json({ error: "Unauthorized" });
   }
@@ -93,6 +93,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       id: session.id,
       tenantId,
       role: session.role,
+      apiToken: session.apiToken,
     });
 
     const canViewAny =
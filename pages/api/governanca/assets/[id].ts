@@ -4,6 +4,7 @@ import { z } from "zod";
 import { prisma } from "@/prisma/client";
 import { getSessionServer } from "@/utils/auth";
 import { getUserPermissionGrants, hasPermission } from "@/utils/rbac";
+import { recordMunicipalAssetEvent } from "@/utils/auditLog";
 
 const updateSchema = z.object({
   code: z.string().min(2).max(60).optional(),
@@ -49,14 +50,14 @@ const updateSchema = z.object({
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   const db = prisma as any;
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["assets.manage", "assets.view", "assets.audit_view", "assets.move", "assets.dispose"] });
   if (!session) return res.status(401).json({ error: "Unauthorized" });
 
   const id = typeof req.query.id === "string" ? req.query.id : "";
   if (!id) return res.status(400).json({ error: "Invalid asset id" });
 
   const tenantId = session.tenantId;
-  const grants = await getUserPermissionGrants(prisma, { id: session.id, tenantId, role: session.role });
+  const grants = await getUserPermissionGrants(prisma, { id: session.id, tenantId, role: session.role, apiToken: session.apiToken });
   const canManage = session.role === "ADMIN" || hasPermission(grants, "assets.manage");
   const canView = canManage || hasPermission(grants, "assets.view") || hasPermission(grants, "assets.audit_view");
   const canMove = canManage || hasPermission(grants, "assets.move");
@@ -237,15 +238,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         });
 
         if (payload.status && payload.status !== current.status) {
-          await txAny.municipalAssetEvent.create({
-            data: {
-              tenantId,
-              assetId: id,
-              fromStatus: current.status,
-              toStatus: payload.status,
-              note: payload.note?.trim() || null,
-              actorUserId: session.id,
-            },
+          await recordMunicipalAssetEvent(txAny, {
+            tenantId,
+            assetId: id,
+            fromStatus: current.status,
+            toStatus: payload.status,
+            note: payload.note?.trim() || null,
+            actorUserId: session.id,
           });
 
           await txAny.municipalAssetMovement.create({
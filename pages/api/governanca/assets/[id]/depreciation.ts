@@ -0,0 +1,60 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+
+import { prisma } from "@/prisma/client";
+import { getSessionServer } from "@/utils/auth";
+import { buildDepreciationSchedule, computeAssetDepreciation, loadDepreciableAssets } from "@/utils/assetDepreciation";
+import { getUserPermissionGrants, hasPermission } from "@/utils/rbac";
+
+// GET /api/governanca/assets/[id]/depreciation -> net book value today, monthly schedule and posted yearly entries
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["assets.manage", "assets.view", "assets.audit_view"] });
+  if (!session) return res.status(401).json({ error: "Unauthorized" });
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const id = typeof req.query.id === "string" ? req.query.id : "";
+  if (!id) return res.status(400).json({ error: "Invalid asset id" });
+
+  const tenantId = session.tenantId;
+  const grants = await getUserPermissionGrants(prisma, { id: session.id, tenantId, role: session.role, apiToken: session.apiToken });
+  const canView =
+    session.role === "ADMIN" ||
+    hasPermission(grants, "assets.manage") ||
+    hasPermission(grants, "assets.view") ||
+    hasPermission(grants, "assets.audit_view");
+  if (!canView) return res.status(403).json({ error: "Forbidden" });
+
+  try {
+    const [asset] = await loadDepreciableAssets(tenantId, { assetIds: [id] });
+    if (!asset) return res.status(404).json({ error: "Not found" });
+
+    const entries = await (prisma as any).municipalAssetDepreciationEntry.findMany({
+      where: { tenantId, assetId: id, run: { status: "POSTED" } },
+      orderBy: { run: { year: "asc" } },
+      include: { run: { select: { id: true, year: true, createdAt: true } } },
+    });
+
+    return res.status(200).json({
+      assetId: asset.id,
+      code: asset.code,
+      ...computeAssetDepreciation(asset),
+      schedule: buildDepreciationSchedule(asset),
+      postedEntries: entries.map((entry: any) => ({
+        ...entry,
+        run: { ...entry.run, createdAt: entry.run.createdAt.toISOString() },
+      })),
+    });
+  } catch (error) {
+    console.error("GET /api/governanca/assets/[id]/depreciation error:", error);
+    return res.status(500).json({ error: "Failed to compute depreciation" });
+  }
+}
+
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+};
@@ -49,11 +49,11 @@ const createSchema = z.discriminatedUnion("kind", [classSchema, modelSchema, loc
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   const db = prisma as any;
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["assets.manage", "assets.view", "assets.audit_view"] });
   if (!session) return res.status(401).json({ error: "Unauthorized" });
 
   const tenantId = session.tenantId;
-  const grants = await getUserPermissionGrants(prisma, { id: session.id, tenantId, role: session.role });
+  const grants = await getUserPermissionGrants(prisma, { id: session.id, tenantId, role: session.role, apiToken: session.apiToken });
   const canManage = session.role === "ADMIN" || hasPermission(grants, "assets.manage");
   const canView = canManage || hasPermission(grants, "assets.view") || hasPermission(grants, "assets.audit_view");
 
@@ -0,0 +1,102 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+
+import { prisma } from "@/prisma/client";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { getSessionServer } from "@/utils/auth";
+import { runDepreciationYear, serializeDepreciationRun } from "@/utils/assetDepreciation";
+import { getUserPermissionGrants, hasPermission } from "@/utils/rbac";
+
+const runSchema = z.object({
+  year: z.number().int().min(1990).max(2100),
+  notes: z.string().trim().max(1000).optional().nullable(),
+});
+
+// GET  /api/governanca/assets/depreciation-runs[?year=][&id=]  -> run history, or one run with its entries
+// POST /api/governanca/assets/depreciation-runs { year }      -> post (or re-post) the year's depreciation
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const db = prisma as any;
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["assets.manage", "assets.view", "assets.audit_view", "reports.view"] });
+  if (!session) return res.status(401).json({ error: "Unauthorized" });
+
+  const tenantId = session.tenantId;
+  const grants = await getUserPermissionGrants(prisma, { id: session.id, tenantId, role: session.role, apiToken: session.apiToken });
+  const canManage = session.role === "ADMIN" || hasPermission(grants, "assets.manage");
+  const canView =
+    canManage ||
+    hasPermission(grants, "assets.view") ||
+    hasPermission(grants, "assets.audit_view") ||
+    hasPermission(grants, "reports.view");
+
+  if (req.method === "GET") {
+    if (!canView) return res.status(403).json({ error: "Forbidden" });
+
+    const runId = typeof req.query.id === "string" ? req.query.id : "";
+    if (runId) {
+      const run = await db.municipalAssetDepreciationRun.findFirst({
+        where: { id: runId, tenantId },
+        include: {
+          createdBy: { select: { id: true, name: true } },
+          entries: {
+            include: { asset: { select: { id: true, code: true, name: true } } },
+            orderBy: { asset: { code: "asc" } },
+          },
+        },
+      });
+      if (!run) return res.status(404).json({ error: "Not found" });
+      return res.status(200).json(serializeDepreciationRun(run));
+    }
+
+    const year = Number(req.query.year);
+    const runs = await db.municipalAssetDepreciationRun.findMany({
+      where: { tenantId, ...(Number.isInteger(year) && year > 0 ? { year } : {}) },
+      orderBy: [{ year: "desc" }, { createdAt: "desc" }],
+      take: 50,
+      include: { createdBy: { select: { id: true, name: true } } },
+    });
+    return res.status(200).json(runs.map(serializeDepreciationRun));
+  }
+
+  if (req.method === "POST") {
+    if (!canManage) return res.status(403).json({ error: "Forbidden" });
+
+    const parsed = runSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid request body", details: parsed.error.flatten() });
+    }
+
+    try {
+      const run = await runDepreciationYear({
+        tenantId,
+        year: parsed.data.year,
+        userId: session.id,
+        notes: parsed.data.notes,
+      });
+
+      await logUserAdminAction({
+        tenantId,
+        actorUserId: session.id,
+        action: "ASSET_DEPRECIATION_RUN",
+        note: `Amortizações ${run.year}: ${run.assetCount} bem(ns), ${run.depreciationTotal.toFixed(2)} €`,
+        payload: { runId: run.id, year: run.year, depreciationTotal: run.depreciationTotal },
+      });
+
+      return res.status(201).json(serializeDepreciationRun(run));
+    } catch (error: any) {
+      if (error?.code === "INVALID_YEAR") {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("POST /api/governanca/assets/depreciation-runs error:", error);
+      return res.status(500).json({ error: "Failed to run depreciation" });
+    }
+  }
+
+  res.setHeader("Allow", ["GET", "POST"]);
+  return res.status(405).json({ error: "Method Not Allowed" });
+}
+
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+};
@@ -3,7 +3,14 @@ import { z } from "zod";
 
 import { prisma } from "@/prisma/client";
 import { getSessionServer } from "@/utils/auth";
-import { getUserPermissionGrants, hasPermission } from "@/utils/rbac";
+import { getUserPermissionGrants, hasPermission, type PermissionGrant } from "@/utils/rbac";
+import { recordMunicipalAssetEvent } from "@/utils/auditLog";
+import {
+  ensureWorkflowDefinition,
+  explainWorkflowGuardBlock,
+  resolveWorkflowTransitionTx,
+  transitionWorkflowByActionTx,
+} from "@/utils/workflow";
 
 const openSchema = z.object({
   action: z.literal("OPEN"),
@@ -53,6 +60,49 @@ async function userHasActiveRoleKey(db: any, tenantId: string, userId: string, r
   return Boolean(assignment);
 }
 
+// Where an asset without a workflow instance yet stands in the built-in disposal workflow.
+function disposalWorkflowStateCode(assetStatus: string | null, disposalStatus: string | null) {
+  if (assetStatus === "DISPOSED" || disposalStatus === "COMPLETED") return "DISPOSED";
+  if (disposalStatus === "APPROVED") return "DISPOSAL_APPROVED";
+  if (disposalStatus === "DRAFT" || disposalStatus === "UNDER_REVIEW") return "DISPOSAL_UNDER_REVIEW";
+  return "IN_SERVICE";
+}
+
+async function moveAssetDisposalWorkflow(txAny: any, args: {
+  tenantId: string;
+  assetId: string;
+  action: string;
+  initialStateCode: string;
+  actorUserId: string;
+  note: string | null;
+  canManage: boolean;
+  grants: PermissionGrant[];
+}) {
+  const target = { type: "MUNICIPAL_ASSET" as const, id: args.assetId };
+  const resolved = await resolveWorkflowTransitionTx(txAny, {
+    tenantId: args.tenantId,
+    target,
+    action: args.action,
+    initialStateCode: args.initialStateCode,
+  });
+  if (!resolved.ok) throw new Error(explainWorkflowGuardBlock(args.action, resolved.blocked));
+
+  const required = resolved.transition.requiredPermission as string | null;
+  if (required && !args.canManage && !hasPermission(args.grants, required)) {
+    throw Object.assign(new Error("Forbidden"), { code: "FORBIDDEN" });
+  }
+
+  const moved = await transitionWorkflowByActionTx(txAny, {
+    tenantId: args.tenantId,
+    target,
+    action: args.action,
+    actorUserId: args.actorUserId,
+    note: args.note,
+  });
+  if (!moved.moved) throw new Error(explainWorkflowGuardBlock(args.action, moved.blocked));
+  return moved;
+}
+
 async function generateDisposalCode(tx: any, tenantId: string) {
   const year = new Date().getFullYear();
   const prefix = `ABT-${year}`;
@@ -62,11 +112,11 @@ async function generateDisposalCode(tx: any, tenantId: string) {
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   const db = prisma as any;
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["assets.manage", "assets.view", "assets.audit_view", "assets.dispose"] });
   if (!session) return res.status(401).json({ error: "Unauthorized" });
 
   const tenantId = session.tenantId;
-  const grants = await getUserPermissionGrants(prisma, { id: session.id, tenantId, role: session.role });
+  const grants = await getUserPermissionGrants(prisma, { id: session.id, tenantId, role: session.role, apiToken: session.apiToken });
   const canManage = session.role === "ADMIN" || hasPermission(grants, "assets.manage");
   const canView = canManage || hasPermission(grants, "assets.view") || hasPermission(grants, "assets.audit_view");
   const canDispose = canManage || hasPermission(grants, "assets.dispose");
@@ -110,6 +160,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     try {
       const payload = parsed.data;
+      await ensureWorkflowDefinition(prisma, tenantId, "MUNICIPAL_ASSET");
       const policy = await db.assetPolicy.findFirst({ where: { tenantId } });
 
       const requirePolicyApproval =
@@ -158,17 +209,25 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             },
           });
 
-          await txAny.municipalAsset.update({ where: { id: payload.assetId }, data: { status: "TO_DISPOSE" } });
+          const moved = await moveAssetDisposalWorkflow(txAny, {
+            tenantId,
+            assetId: payload.assetId,
+            action: "OPEN_DISPOSAL",
+            initialStateCode: disposalWorkflowStateCode(asset.status, null),
+            actorUserId: session.id,
+            note: `Processo de abate ${code} aberto`,
+            canManage,
+            grants,
+          });
+          const nextAssetStatus = moved.toState.targetStatus ?? asset.status;
 
-          await txAny.municipalAssetEvent.create({
-            data: {
-              tenantId,
-              assetId: payload.assetId,
-              fromStatus: asset.status,
-              toStatus: "TO_DISPOSE",
-              note: `Processo de abate ${code} aberto`,
-              actorUserId: session.id,
-            },
+          await recordMunicipalAssetEvent(txAny, {
+            tenantId,
+            assetId: payload.assetId,
+            fromStatus: asset.status,
+            toStatus: nextAssetStatus,
+            note: `Processo de abate ${code} aberto`,
+            actorUserId: session.id,
           });
 
           await txAny.municipalAssetMovement.create({
@@ -177,7 +236,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
               assetId: payload.assetId,
               type: "DISPOSAL_INIT",
               statusFrom: asset.status,
-              statusTo: "TO_DISPOSE",
+              statusTo: nextAssetStatus,
               note: `Processo ${code} aberto`,
               reason: payload.reasonCode,
               documentRef: payload.documentRef?.trim() || null,
@@ -211,8 +270,18 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           if (!current) throw new Error("Disposal process not found");
           if (current.status === "COMPLETED") throw new Error("Process already completed");
 
-          const nextAssetStatus = payload.status === "APPROVED" ? "TO_DISPOSE" : "IN_SERVICE";
           const asset = await txAny.municipalAsset.findUnique({ where: { id: current.assetId }, select: { status: true } });
+          const moved = await moveAssetDisposalWorkflow(txAny, {
+            tenantId,
+            assetId: current.assetId,
+            action: payload.status === "APPROVED" ? "APPROVE_DISPOSAL" : "REJECT_DISPOSAL",
+            initialStateCode: disposalWorkflowStateCode(asset?.status ?? null, current.status),
+            actorUserId: session.id,
+            note: payload.decisionNote?.trim() || null,
+            canManage,
+            grants,
+          });
+          const nextAssetStatus = moved.toState.targetStatus ?? asset?.status ?? null;
 
           const process = await txAny.municipalAssetDisposalProcess.update({
             where: { id: payload.disposalId },
@@ -226,8 +295,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             },
           });
 
-          await txAny.municipalAsset.update({ where: { id: current.assetId }, data: { status: nextAssetStatus } });
-
           await txAny.municipalAssetMovement.create({
             data: {
               tenantId,
@@ -242,15 +309,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             },
           });
 
-          await txAny.municipalAssetEvent.create({
-            data: {
-              tenantId,
-              assetId: current.assetId,
-              fromStatus: asset?.status ?? null,
-              toStatus: nextAssetStatus,
-              note: payload.decisionNote?.trim() || `Decisão do processo de abate: ${payload.status}`,
-              actorUserId: session.id,
-            },
+          await recordMunicipalAssetEvent(txAny, {
+            tenantId,
+            assetId: current.assetId,
+            fromStatus: asset?.status ?? null,
+            toStatus: nextAssetStatus,
+            note: payload.decisionNote?.trim() || `Decisão do processo de abate: ${payload.status}`,
+            actorUserId: session.id,
           });
 
           return process;
@@ -278,6 +343,17 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         if (current.status !== "APPROVED") throw new Error("Only approved disposals can be completed");
 
         const asset = await txAny.municipalAsset.findUnique({ where: { id: current.assetId }, select: { status: true } });
+        const moved = await moveAssetDisposalWorkflow(txAny, {
+          tenantId,
+          assetId: current.assetId,
+          action: "COMPLETE_DISPOSAL",
+          initialStateCode: disposalWorkflowStateCode(asset?.status ?? null, current.status),
+          actorUserId: session.id,
+          note: payload.note?.trim() || null,
+          canManage,
+          grants,
+        });
+        const nextAssetStatus = moved.toState.targetStatus ?? asset?.status ?? null;
 
         const process = await txAny.municipalAssetDisposalProcess.update({
           where: { id: payload.disposalId },
@@ -292,15 +368,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           },
         });
 
-        await txAny.municipalAsset.update({ where: { id: current.assetId }, data: { status: "DISPOSED" } });
-
         await txAny.municipalAssetMovement.create({
           data: {
             tenantId,
             assetId: current.assetId,
             type: "DISPOSED",
             statusFrom: asset?.status ?? null,
-            statusTo: "DISPOSED",
+            statusTo: nextAssetStatus,
             note: payload.note?.trim() || "Ativo abatido e concluído",
             documentRef: payload.documentRef?.trim() || null,
             attachments: payload.attachments?.length ? payload.attachments : null,
@@ -308,15 +382,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           },
         });
 
-        await txAny.municipalAssetEvent.create({
-          data: {
-            tenantId,
-            assetId: current.assetId,
-            fromStatus: asset?.status ?? null,
-            toStatus: "DISPOSED",
-            note: payload.note?.trim() || "Processo de abate concluído",
-            actorUserId: session.id,
-          },
+        await recordMunicipalAssetEvent(txAny, {
+          tenantId,
+          assetId: current.assetId,
+          fromStatus: asset?.status ?? null,
+          toStatus: nextAssetStatus,
+          note: payload.note?.trim() || "Processo de abate concluído",
+          actorUserId: session.id,
         });
 
         return process;
@@ -330,6 +402,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         updatedAt: result.updatedAt.toISOString(),
       });
     } catch (error: any) {
+      if (error?.code === "FORBIDDEN") return res.status(403).json({ error: "Forbidden" });
       return res.status(400).json({ error: error?.message || "Failed to process disposal" });
     }
   }
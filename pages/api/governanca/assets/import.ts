@@ -0,0 +1,132 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import fs from "fs";
+import { IncomingForm } from "formidable";
+import { requireAdminOrPermission } from "@/pages/api/admin/_admin";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { MAX_IMPORT_ROWS, parseImportFile } from "@/utils/bulkImport";
+import {
+  ASSET_IMPORT_FIELDS,
+  assetImportOptionsSchema,
+  commitAssetImport,
+  validateAssetImport,
+} from "@/utils/assetImport";
+
+export const config = {
+  api: {
+    bodyParser: false,
+    externalResolver: true,
+  },
+};
+
+const fieldValue = (fields: any, key: string) => {
+  const value = Array.isArray(fields[key]) ? fields[key][0] : fields[key];
+  return typeof value === "string" ? value : undefined;
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await requireAdminOrPermission(req, res, "assets.manage");
+  if (!session) return;
+  const tenantId = session.tenantId as string;
+
+  if (req.method === "GET") {
+    return res.status(200).json({
+      maxRows: MAX_IMPORT_ROWS,
+      fields: ASSET_IMPORT_FIELDS.map(({ key, label, required }) => ({ key, label, required: Boolean(required) })),
+    });
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["GET", "POST"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const form = new IncomingForm({
+    multiples: false,
+    maxFileSize: 10 * 1024 * 1024, // 10MB
+  });
+
+  let tempPath: string | null = null;
+  try {
+    const { fields, files } = await new Promise<{ fields: any; files: any }>((resolve, reject) => {
+      form.parse(req, (err, fields, files) => {
+        if (err) return reject(err);
+        resolve({ fields, files });
+      });
+    });
+
+    const upload = (files.file ?? files.upload) as any;
+    const file = Array.isArray(upload) ? upload[0] : upload;
+    if (!file?.filepath || !fs.existsSync(file.filepath)) {
+      return res.status(400).json({ error: "file is required" });
+    }
+    tempPath = file.filepath as string;
+
+    let mapping: unknown = undefined;
+    const rawMapping = fieldValue(fields, "mapping");
+    if (rawMapping) {
+      try {
+        mapping = JSON.parse(rawMapping);
+      } catch {
+        return res.status(400).json({ error: "Invalid mapping" });
+      }
+    }
+    const parsed = assetImportOptionsSchema.safeParse({ mapping });
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid import options", details: parsed.error.flatten() });
+    }
+    const dryRun = fieldValue(fields, "dryRun") !== "0" && fieldValue(fields, "dryRun") !== "false";
+
+    const originalName: string = file.originalFilename || "import.csv";
+    const sheet = await parseImportFile(await fs.promises.readFile(tempPath), originalName);
+    if (!sheet.rows.length) {
+      return res.status(400).json({ error: "O ficheiro não tem linhas para importar" });
+    }
+
+    if (dryRun) {
+      const report = await validateAssetImport(tenantId, sheet, parsed.data);
+      return res.status(200).json({ dryRun: true, ...report });
+    }
+
+    const result = await commitAssetImport(tenantId, sheet, {
+      ...parsed.data,
+      actorUserId: session.id,
+      fileName: originalName,
+    });
+
+    await logUserAdminAction({
+      tenantId,
+      actorUserId: session.id,
+      action: "ASSET_BULK_IMPORT",
+      note: `Importação de cadastro patrimonial: ${result.toCreate} bem(ns)`,
+      payload: {
+        fileName: originalName,
+        totalRows: result.totalRows,
+        created: result.toCreate,
+        newLocations: result.newLocations,
+      },
+    });
+
+    const { assetIds: _assetIds, ...report } = result;
+    return res.status(200).json({ dryRun: false, ...report });
+  } catch (error: any) {
+    if (error?.code === "IMPORT_HAS_ERRORS") {
+      return res.status(422).json({ error: error.message, dryRun: false, ...error.report });
+    }
+    if (error?.code === "MISSING_COLUMNS") {
+      return res.status(400).json({ error: error.message, mapping: error.mapping });
+    }
+    if (["UNSUPPORTED_FORMAT", "INVALID_FILE", "TOO_MANY_ROWS"].includes(error?.code)) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error?.code === "P2002") {
+      return res.status(409).json({ error: "Código, série ou etiqueta duplicados; repetir a validação" });
+    }
+    if (error?.httpCode === 413 || /maxFileSize/i.test(String(error?.message))) {
+      return res.status(413).json({ error: "Ficheiro demasiado grande" });
+    }
+    console.error("POST /api/governanca/assets/import error:", error);
+    return res.status(500).json({ error: "Failed to import assets" });
+  } finally {
+    if (tempPath) await fs.promises.unlink(tempPath).catch(() => undefined);
+  }
+}
@@ -4,6 +4,7 @@ import { z } from "zod";
 import { prisma } from "@/prisma/client";
 import { getSessionServer } from "@/utils/auth";
 import { getUserPermissionGrants, hasPermission } from "@/utils/rbac";
+import { recordMunicipalAssetEvent } from "@/utils/auditLog";
 
 const createSchema = z.object({
   code: z.string().min(2).max(60).optional(),
@@ -60,11 +61,11 @@ async function generateAssetCode(tx: any, tenantId: string) {
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   const db = prisma as any;
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["assets.manage", "assets.view", "assets.audit_view", "assets.create"] });
   if (!session) return res.status(401).json({ error: "Unauthorized" });
 
   const tenantId = session.tenantId;
-  const grants = await getUserPermissionGrants(prisma, { id: session.id, tenantId, role: session.role });
+  const grants = await getUserPermissionGrants(prisma, { id: session.id, tenantId, role: session.role, apiToken: session.apiToken });
   const canManage = session.role === "ADMIN" || hasPermission(grants, "assets.manage");
   const canView = canManage || hasPermission(grants, "assets.view") || hasPermission(grants, "assets.audit_view");
   const canCreate = canManage || hasPermission(grants, "assets.create");
@@ -315,15 +316,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           },
         });
 
-        await txAny.municipalAssetEvent.create({
-          data: {
-            tenantId,
-            assetId: asset.id,
-            fromStatus: null,
-            toStatus: status,
-            note: "Ativo registado",
-            actorUserId: session.id,
-          },
+        await recordMunicipalAssetEvent(txAny, {
+          tenantId,
+          assetId: asset.id,
+          fromStatus: null,
+          toStatus: status,
+          note: "Ativo registado",
+          actorUserId: session.id,
         });
 
         await txAny.municipalAssetMovement.create({
@@ -4,6 +4,7 @@ import { z } from "zod";
 import { prisma } from "@/prisma/client";
 import { getSessionServer } from "@/utils/auth";
 import { getUserPermissionGrants, hasPermission } from "@/utils/rbac";
+import { recordMunicipalAssetEvent } from "@/utils/auditLog";
 
 const createSchema = z.object({
   assetId: z.string().uuid(),
@@ -86,11 +87,11 @@ async function userHasActiveRoleKey(db: any, tenantId: string, userId: string, r
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   const db = prisma as any;
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["assets.manage", "assets.view", "assets.audit_view", "assets.move"] });
   if (!session) return res.status(401).json({ error: "Unauthorized" });
 
   const tenantId = session.tenantId;
-  const grants = await getUserPermissionGrants(prisma, { id: session.id, tenantId, role: session.role });
+  const grants = await getUserPermissionGrants(prisma, { id: session.id, tenantId, role: session.role, apiToken: session.apiToken });
   const canManage = session.role === "ADMIN" || hasPermission(grants, "assets.manage");
   const canView = canManage || hasPermission(grants, "assets.view") || hasPermission(grants, "assets.audit_view");
   const canMove = canManage || hasPermission(grants, "assets.move");
@@ -214,15 +215,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         });
 
         if (nextStatus !== asset.status) {
-          await txAny.municipalAssetEvent.create({
-            data: {
-              tenantId,
-              assetId: payload.assetId,
-              fromStatus: asset.status,
-              toStatus: nextStatus,
-              note: payload.note?.trim() || payload.reason?.trim() || `Movimento ${payload.type}`,
-              actorUserId: session.id,
-            },
+          await recordMunicipalAssetEvent(txAny, {
+            tenantId,
+            assetId: payload.assetId,
+            fromStatus: asset.status,
+            toStatus: nextStatus,
+            note: payload.note?.trim() || payload.reason?.trim() || `Movimento ${payload.type}`,
+            actorUserId: session.id,
           });
         }
 
@@ -1,11 +1,12 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 
 import { prisma } from "@/prisma/client";
+import { buildPatrimonialBalance } from "@/utils/assetDepreciation";
 import { getSessionServer } from "@/utils/auth";
 import { getUserPermissionGrants, hasPermission } from "@/utils/rbac";
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["assets.view", "assets.audit_view", "reports.view"] });
   if (!session) return res.status(401).json({ error: "Unauthorized" });
 
   if (req.method !== "GET") {
@@ -14,7 +15,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   const tenantId = session.tenantId;
-  const grants = await getUserPermissionGrants(prisma, { id: session.id, tenantId, role: session.role });
+  const grants = await getUserPermissionGrants(prisma, { id: session.id, tenantId, role: session.role, apiToken: session.apiToken });
   const canView =
     session.role === "ADMIN" ||
     hasPermission(grants, "assets.view") ||
@@ -37,6 +38,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     inventoryByService,
     inventoryByClass,
     disposalMap,
+    patrimonialBalance,
   ] = await Promise.all([
     (prisma as any).municipalAsset.count({ where: { tenantId } }),
     (prisma as any).municipalAsset.count({ where: { tenantId, assignedToUserId: null } }),
@@ -68,6 +70,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       where: { tenantId, openedAt: { gte: yearStart, lt: yearEnd } },
       _count: { _all: true },
     }),
+    buildPatrimonialBalance(tenantId, year),
   ]);
 
   const serviceIds = inventoryByService.map((r: any) => r.requestingServiceId).filter(Boolean);
@@ -113,5 +116,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       year,
       rows: disposalMap.map((r: any) => ({ status: r.status, count: r._count?._all ?? 0 })),
     },
+    patrimonialBalance,
   });
 }
@@ -4,8 +4,19 @@ import { z } from "zod";
 import { prisma } from "@/prisma/client";
 import { getSessionServer } from "@/utils/auth";
 import { getUserPermissionGrants, hasPermission } from "@/utils/rbac";
+import { recordFinanceProcessEvent } from "@/utils/auditLog";
+import {
+  ensureWorkflowDefinition,
+  explainWorkflowGuardBlock,
+  findWorkflowActionToStatusTx,
+  resolveWorkflowTransitionTx,
+  transitionWorkflowByActionTx,
+} from "@/utils/workflow";
 
 const updateSchema = z.object({
+  // Status changes go through the FINANCE_PROCESS workflow: either name the action, or give the
+  // target status and the transition leading to it is used.
+  action: z.string().regex(/^[A-Z][A-Z0-9_]{1,79}$/).optional(),
   status: z.enum(["DRAFT", "CABIMENTO", "COMPROMISSO", "APPROVED", "PAYMENT_AUTHORIZED", "PAID", "REJECTED"]).optional(),
   note: z.string().max(1000).optional().nullable(),
   budgetLine: z.string().max(120).optional().nullable(),
@@ -13,14 +24,14 @@ const updateSchema = z.object({
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   const db = prisma as any;
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["finance.manage"] });
   if (!session) return res.status(401).json({ error: "Unauthorized" });
 
   const id = typeof req.query.id === "string" ? req.query.id : "";
   if (!id) return res.status(400).json({ error: "Invalid id" });
 
   const tenantId = session.tenantId;
-  const grants = await getUserPermissionGrants(prisma, { id: session.id, tenantId, role: session.role });
+  const grants = await getUserPermissionGrants(prisma, { id: session.id, tenantId, role: session.role, apiToken: session.apiToken });
   const canManage = session.role === "ADMIN" || hasPermission(grants, "finance.manage");
 
   if (req.method === "GET") {
@@ -52,35 +63,77 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const parsed = updateSchema.safeParse(req.body);
     if (!parsed.success) return res.status(400).json({ error: "Invalid body", details: parsed.error.flatten() });
 
-    const current = await db.financeProcess.findFirst({ where: { id, tenantId }, select: { status: true } });
+    const current = await db.financeProcess.findFirst({
+      where: { id, tenantId },
+      select: { status: true, requestingServiceId: true },
+    });
     if (!current) return res.status(404).json({ error: "Not found" });
 
-    const updated = await prisma.$transaction(async (tx) => {
-      const txAny = tx as any;
-      const row = await txAny.financeProcess.update({
-        where: { id },
-        data: {
-          ...(Object.prototype.hasOwnProperty.call(parsed.data, "status") ? { status: parsed.data.status } : {}),
-          ...(Object.prototype.hasOwnProperty.call(parsed.data, "budgetLine") ? { budgetLine: parsed.data.budgetLine?.trim() || null } : {}),
-          ...(Object.prototype.hasOwnProperty.call(parsed.data, "note") ? { note: parsed.data.note?.trim() || null } : {}),
-        },
-      });
+    const wantsTransition = Boolean(parsed.data.action) || (parsed.data.status && parsed.data.status !== current.status);
+    if (wantsTransition) await ensureWorkflowDefinition(prisma, tenantId, "FINANCE_PROCESS");
 
-      if (parsed.data.status && parsed.data.status !== current.status) {
-        await txAny.financeProcessEvent.create({
-          data: {
+    let updated: any;
+    try {
+      updated = await prisma.$transaction(async (tx) => {
+        const txAny = tx as any;
+        const target = { type: "FINANCE_PROCESS" as const, id };
+
+        if (wantsTransition) {
+          const action =
+            parsed.data.action ??
+            (await findWorkflowActionToStatusTx(txAny, { tenantId, target, status: parsed.data.status as string }));
+          if (!action) {
+            throw Object.assign(new Error(`Transição não permitida: ${current.status} → ${parsed.data.status}`), {
+              code: "TRANSITION_NOT_ALLOWED",
+            });
+          }
+
+          const resolved = await resolveWorkflowTransitionTx(txAny, { tenantId, target, action });
+          if (!resolved.ok) {
+            throw Object.assign(new Error(explainWorkflowGuardBlock(action, resolved.blocked)), { code: "TRANSITION_NOT_ALLOWED" });
+          }
+          const required = resolved.transition.requiredPermission as string | null;
+          if (required && !hasPermission(grants, required, current.requestingServiceId ?? null)) {
+            throw Object.assign(new Error("Forbidden"), { code: "FORBIDDEN" });
+          }
+
+          const moved = await transitionWorkflowByActionTx(txAny, {
             tenantId,
-            financeProcessId: row.id,
-            fromStatus: current.status,
-            toStatus: parsed.data.status,
-            note: parsed.data.note?.trim() || null,
+            target,
+            action,
             actorUserId: session.id,
+            note: parsed.data.note?.trim() || null,
+          });
+          if (!moved.moved) {
+            throw Object.assign(new Error(explainWorkflowGuardBlock(action, moved.blocked)), { code: "TRANSITION_NOT_ALLOWED" });
+          }
+
+          const toStatus = moved.toState.targetStatus ?? current.status;
+          if (toStatus !== current.status) {
+            await recordFinanceProcessEvent(txAny, {
+              tenantId,
+              financeProcessId: id,
+              fromStatus: current.status,
+              toStatus,
+              note: parsed.data.note?.trim() || null,
+              actorUserId: session.id,
+            });
+          }
+        }
+
+        return txAny.financeProcess.update({
+          where: { id },
+          data: {
+            ...(Object.prototype.hasOwnProperty.call(parsed.data, "budgetLine") ? { budgetLine: parsed.data.budgetLine?.trim() || null } : {}),
+            ...(Object.prototype.hasOwnProperty.call(parsed.data, "note") ? { note: parsed.data.note?.trim() || null } : {}),
           },
         });
-      }
-
-      return row;
-    });
+      });
+    } catch (error: any) {
+      if (error?.code === "FORBIDDEN") return res.status(403).json({ error: "Forbidden" });
+      if (error?.code === "TRANSITION_NOT_ALLOWED") return res.status(409).json({ error: error.message });
+      throw error;
+    }
 
     return res.status(200).json({
       ...updated,
@@ -4,6 +4,8 @@ import { z } from "zod";
 import { prisma } from "@/prisma/client";
 import { getSessionServer } from "@/utils/auth";
 import { getUserPermissionGrants, hasPermission } from "@/utils/rbac";
+import { recordFinanceProcessEvent } from "@/utils/auditLog";
+import { ensureWorkflowDefinition, ensureWorkflowInstance } from "@/utils/workflow";
 
 const createSchema = z.object({
   code: z.string().min(2).max(60),
@@ -17,11 +19,11 @@ const createSchema = z.object({
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   const db = prisma as any;
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["finance.manage"] });
   if (!session) return res.status(401).json({ error: "Unauthorized" });
 
   const tenantId = session.tenantId;
-  const grants = await getUserPermissionGrants(prisma, { id: session.id, tenantId, role: session.role });
+  const grants = await getUserPermissionGrants(prisma, { id: session.id, tenantId, role: session.role, apiToken: session.apiToken });
   const canManage = session.role === "ADMIN" || hasPermission(grants, "finance.manage");
 
   if (req.method === "GET") {
@@ -48,6 +50,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const parsed = createSchema.safeParse(req.body);
     if (!parsed.success) return res.status(400).json({ error: "Invalid body", details: parsed.error.flatten() });
 
+    await ensureWorkflowDefinition(prisma, tenantId, "FINANCE_PROCESS");
     const created = await prisma.$transaction(async (tx) => {
       const txAny = tx as any;
       const row = await txAny.financeProcess.create({
@@ -64,17 +67,17 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         },
       });
 
-      await txAny.financeProcessEvent.create({
-        data: {
-          tenantId,
-          financeProcessId: row.id,
-          fromStatus: null,
-          toStatus: "DRAFT",
-          note: "Processo financeiro criado",
-          actorUserId: session.id,
-        },
+      await recordFinanceProcessEvent(txAny, {
+        tenantId,
+        financeProcessId: row.id,
+        fromStatus: null,
+        toStatus: "DRAFT",
+        note: "Processo financeiro criado",
+        actorUserId: session.id,
       });
 
+      await ensureWorkflowInstance(txAny, { tenantId, target: { type: "FINANCE_PROCESS", id: row.id } });
+
       return row;
     });
 
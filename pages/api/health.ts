@@ -2,6 +2,7 @@ import type { NextApiRequest, NextApiResponse } from "next";
 
 import { prisma } from "@/prisma/client";
 import { logError } from "@/utils/logger";
+import { getRealtimeStatus } from "@/utils/realtime";
 
 type HealthResponse =
   | {
@@ -10,6 +11,7 @@ type HealthResponse =
       uptimeSeconds: number;
       requestId?: string;
       db: { ok: true; latencyMs: number };
+      realtime?: { transport: string; connected: boolean };
       version?: string;
       commitSha?: string;
     }
@@ -19,6 +21,7 @@ type HealthResponse =
       uptimeSeconds: number;
       requestId?: string;
       db: { ok: false; error: string };
+      realtime?: { transport: string; connected: boolean };
       version?: string;
       commitSha?: string;
     };
@@ -75,6 +78,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
       uptimeSeconds: Math.round(process.uptime()),
       requestId,
       db: { ok: true, latencyMs },
+      realtime: getRealtimeStatus(),
       version: process.env.NEXT_PUBLIC_APP_VERSION,
       commitSha: process.env.VERCEL_GIT_COMMIT_SHA ?? process.env.GIT_SHA,
     });
@@ -86,6 +90,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
       uptimeSeconds: Math.round(process.uptime()),
       requestId,
       db: { ok: false, error: "db_unhealthy" },
+      realtime: getRealtimeStatus(),
       version: process.env.NEXT_PUBLIC_APP_VERSION,
       commitSha: process.env.VERCEL_GIT_COMMIT_SHA ?? process.env.GIT_SHA,
     });
@@ -0,0 +1,74 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { getSessionServer } from "@/utils/auth";
+import { getDemandForecast } from "@/utils/demandForecast";
+import { getCached, setCached } from "@/utils/cache";
+import { logError, logInfo } from "@/utils/logger";
+
+const optionalNumber = z
+  .string()
+  .optional()
+  .transform((v) => {
+    const n = typeof v === "string" ? Number(v) : NaN;
+    return Number.isFinite(n) ? n : undefined;
+  })
+  .optional();
+
+const querySchema = z.object({
+  months: optionalNumber,
+  horizon: optionalNumber,
+  top: optionalNumber,
+  requestingServiceId: optionalNumber,
+  productId: z.string().uuid().optional(),
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getSessionServer(req, res);
+  if (!session) return res.status(401).json({ error: "Unauthorized" });
+  if (!session.tenantId) return res.status(500).json({ error: "Session missing tenant" });
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const parsed = querySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid query" });
+  }
+
+  try {
+    const cacheKey = [
+      "insights.forecast",
+      session.tenantId,
+      String(parsed.data.months ?? ""),
+      String(parsed.data.horizon ?? ""),
+      String(parsed.data.top ?? ""),
+      String(parsed.data.requestingServiceId ?? ""),
+      parsed.data.productId ?? "",
+    ].join(":");
+    const cached = getCached<any>(cacheKey);
+    if (cached) {
+      res.setHeader("X-Cache", "HIT");
+      return res.status(200).json(cached);
+    }
+
+    const forecast = await getDemandForecast({
+      tenantId: session.tenantId,
+      historyMonths: parsed.data.months,
+      horizonMonths: parsed.data.horizon,
+      topLimit: parsed.data.top,
+      requestingServiceId: parsed.data.requestingServiceId,
+      productId: parsed.data.productId,
+    });
+    // History only covers complete months, so a few minutes of staleness is harmless.
+    setCached(cacheKey, forecast, 5 * 60_000);
+    res.setHeader("X-Cache", "MISS");
+    logInfo("Demand forecast computed", { tenantId: session.tenantId, cacheKey }, req);
+
+    return res.status(200).json(forecast);
+  } catch (error) {
+    logError("GET /api/insights/forecast error", { error: error instanceof Error ? error.message : String(error) }, req);
+    return res.status(500).json({ error: "Failed to compute forecast" });
+  }
+}
@@ -3,6 +3,11 @@ import { z } from "zod";
 import crypto from "crypto";
 import { prisma } from "@/prisma/client";
 import { getSessionServer } from "@/utils/auth";
+import { applyWarehouseStockDeltaTx, resolveWarehouse, resolveWarehouseBin } from "@/utils/warehouseStock";
+import { computeProductStatus, refreshProductStockStatusTx } from "@/utils/stockLevels";
+import { publishNotifications, type NotificationOutbox } from "@/utils/notifications";
+import { recordPurchaseOrderReceiptTx, resolvePurchaseOrderLineForReceiptTx } from "@/utils/purchaseOrders";
+import { receiveLotTx, serializeLot } from "@/utils/productLots";
 
 const createIntakeSchema = z.object({
   asUserId: z.string().uuid().optional(),
@@ -14,9 +19,25 @@ const createIntakeSchema = z.object({
   reqDate: z.string().datetime().optional(),
   notes: z.string().max(500).optional(),
 
+  // Receiving location; defaults to the tenant's default warehouse
+  warehouseId: z.string().uuid().optional(),
+  binId: z.string().uuid().optional(),
+
+  // Receive against a purchase order line; the product (and request, if any) come from the order
+  purchaseOrderLineId: z.string().uuid().optional(),
+
   quantity: z.number().int().positive(),
   unitPrice: z.number().nonnegative().optional(),
 
+  // Consumables: receive into a lot (no per-unit QR codes are generated)
+  lot: z
+    .object({
+      lotNumber: z.string().trim().min(1).max(80),
+      expiresAt: z.string().datetime().optional().nullable(),
+      manufacturedAt: z.string().datetime().optional().nullable(),
+    })
+    .optional(),
+
   // Either create a new product or add stock to an existing one
   productId: z.string().uuid().optional(),
   product: z
@@ -32,12 +53,6 @@ const createIntakeSchema = z.object({
     .optional(),
 });
 
-function calculateStatus(quantity: number): string {
-  if (quantity > 20) return "Available";
-  if (quantity > 0 && quantity <= 20) return "Stock Low";
-  return "Stock Out";
-}
-
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   const session = await getSessionServer(req, res);
   if (!session) {
@@ -64,22 +79,47 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     issuedAt,
     reqDate,
     notes,
+    warehouseId,
+    binId,
+    purchaseOrderLineId,
     quantity,
     unitPrice,
     productId,
     product,
+    lot,
   } = parsed.data;
 
-  if (!productId && !product) {
+  if (!productId && !product && !purchaseOrderLineId) {
     return res.status(400).json({ error: "Either productId or product is required" });
   }
 
+  if (purchaseOrderLineId && product) {
+    return res.status(400).json({ error: "New products cannot be received against a purchase order" });
+  }
+
   try {
+    const outbox: NotificationOutbox = [];
     const result = await prisma.$transaction(async (tx) => {
       let targetProductId = productId;
       let targetSupplierName: string | null = null;
       let targetRequest: { id: string; gtmiNumber: string; requestedAt: Date } | null = null;
 
+      const warehouse = await resolveWarehouse(tx, tenantId, warehouseId);
+      const bin = await resolveWarehouseBin(tx, tenantId, warehouse.id, binId);
+
+      const purchaseOrderLine = purchaseOrderLineId
+        ? await resolvePurchaseOrderLineForReceiptTx(tx, { tenantId, lineId: purchaseOrderLineId, quantity })
+        : null;
+      if (purchaseOrderLine) {
+        if (targetProductId && targetProductId !== purchaseOrderLine.productId) {
+          throw Object.assign(new Error("Product does not match the purchase order line"), {
+            code: "PURCHASE_ORDER_PRODUCT_MISMATCH",
+          });
+        }
+        targetProductId = purchaseOrderLine.productId;
+      }
+      const orderRequestId = requestId ?? purchaseOrderLine?.purchaseOrder.requestId ?? undefined;
+
       if (typeof requestingServiceId === "number") {
         const svc = await tx.requestingService.findUnique({
           where: { id: requestingServiceId },
@@ -120,7 +160,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             sku: product!.sku,
             price: product!.price,
             quantity: BigInt(0) as any,
-            status: calculateStatus(0),
+            status: computeProductStatus(0),
             isPatrimonializable: Boolean(product!.isPatrimonializable),
             categoryId: product!.categoryId,
             supplierId: product!.supplierId,
@@ -148,15 +188,16 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       }
 
       // Resolve request linking:
-      // - If requestId is provided, validate and use it.
+      // - If requestId is provided (or comes from the purchase order), validate and use it.
       // - Else if reqNumber is provided, try to match that GTMI number.
       // - Else attempt a conservative auto-link if there is exactly one recent matching request for this product.
-      if (requestId) {
+      if (orderRequestId) {
         const request = await tx.request.findFirst({
           where: {
-            id: requestId,
+            id: orderRequestId,
             tenantId,
-            items: { some: { productId: targetProductId! } },
+            // The order already ties the request to this receipt, whatever products it listed.
+            ...(requestId ? { items: { some: { productId: targetProductId! } } } : {}),
           },
           select: { id: true, gtmiNumber: true, requestedAt: true },
         });
@@ -178,7 +219,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         if (request) {
           targetRequest = { id: request.id, gtmiNumber: request.gtmiNumber, requestedAt: request.requestedAt };
         }
-      } else {
+      } else if (!purchaseOrderLine) {
         const candidates = await tx.request.findMany({
           where: {
             tenantId,
@@ -217,7 +258,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         data: {
           tenantId,
           productId: targetProductId!,
-          requestId: targetRequest?.id ?? requestId ?? null,
+          requestId: targetRequest?.id ?? orderRequestId ?? null,
           invoiceNumber,
           reqNumber: effectiveReqNumber,
           reqDate: effectiveReqDate,
@@ -260,32 +301,62 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         }
       }
 
-      // Create per-unit QR codes
-      const unitsToCreate = Array.from({ length: quantity }).map(() => ({
-        id: crypto.randomUUID(),
-        tenantId,
-        productId: targetProductId!,
-        invoiceId: createdInvoice.id,
-        code: crypto.randomUUID(),
-        status: "IN_STOCK" as const,
-      }));
+      // Lots are for consumables counted in bulk; serialised products keep their per-unit codes.
+      if (lot) {
+        const unitCount = await (tx as any).productUnit.count({ where: { tenantId, productId: targetProductId! } });
+        if (unitCount > 0) {
+          throw Object.assign(new Error("Este produto é controlado por unidades e não por lotes"), {
+            code: "LOT_ON_UNIT_TRACKED_PRODUCT",
+          });
+        }
+      }
+
+      const receivedLot = lot
+        ? await receiveLotTx(tx, {
+            tenantId,
+            productId: targetProductId!,
+            warehouseId: warehouse.id,
+            lotNumber: lot.lotNumber,
+            expiresAt: lot.expiresAt === undefined ? undefined : lot.expiresAt ? new Date(lot.expiresAt) : null,
+            manufacturedAt: lot.manufacturedAt ? new Date(lot.manufacturedAt) : null,
+            quantity,
+            invoiceId: createdInvoice.id,
+          })
+        : null;
 
-      await (tx as any).productUnit.createMany({ data: unitsToCreate });
+      // Create per-unit QR codes
+      const unitsToCreate = receivedLot
+        ? []
+        : Array.from({ length: quantity }).map(() => ({
+            id: crypto.randomUUID(),
+            tenantId,
+            productId: targetProductId!,
+            invoiceId: createdInvoice.id,
+            code: crypto.randomUUID(),
+            status: "IN_STOCK" as const,
+            warehouseId: warehouse.id,
+            binId: bin?.id ?? null,
+          }));
+
+      if (unitsToCreate.length) {
+        await (tx as any).productUnit.createMany({ data: unitsToCreate });
+      }
 
       // Update product aggregate quantity & status
-      const updatedProduct = await tx.product.update({
+      await tx.product.update({
         where: { id: targetProductId! },
         data: {
           quantity: { increment: BigInt(quantity) as any },
         },
       });
+      await refreshProductStockStatusTx(tx, { tenantId, productId: targetProductId!, outbox });
+      const finalProduct = await tx.product.findUniqueOrThrow({ where: { id: targetProductId! } });
 
-      const finalQuantity = Number(updatedProduct.quantity);
-      const finalStatus = calculateStatus(finalQuantity);
-
-      const finalProduct = await tx.product.update({
-        where: { id: targetProductId! },
-        data: { status: finalStatus },
+      const warehouseStock = await applyWarehouseStockDeltaTx(tx, {
+        tenantId,
+        productId: targetProductId!,
+        warehouseId: warehouse.id,
+        delta: quantity,
       });
 
       // Audit trail
@@ -296,14 +367,27 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           tenantId,
           productId: targetProductId!,
           invoiceId: createdInvoice.id,
-          requestId: requestId ?? null,
+          lotId: receivedLot?.id ?? null,
+          requestId: orderRequestId ?? null,
+          warehouseId: warehouse.id,
           performedByUserId: session.id,
-          reason: "Intake",
+          reason: purchaseOrderLine ? `Intake ${purchaseOrderLine.purchaseOrder.number}` : "Intake",
           notes: notes ?? null,
         },
         select: { id: true },
       });
 
+      const purchaseOrderReceipt = purchaseOrderLine
+        ? await recordPurchaseOrderReceiptTx(tx, {
+            tenantId,
+            line: purchaseOrderLine,
+            quantity,
+            invoiceId: createdInvoice.id,
+            warehouseId: warehouse.id,
+            receivedByUserId: session.id,
+          })
+        : null;
+
       return {
         product: {
           ...finalProduct,
@@ -319,13 +403,32 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           createdAt: createdInvoice.createdAt.toISOString(),
           updatedAt: createdInvoice.updatedAt.toISOString(),
         },
+        warehouse: {
+          id: warehouse.id,
+          code: warehouse.code,
+          name: warehouse.name,
+          binId: bin?.id ?? null,
+          quantity: warehouseStock.quantity,
+          status: warehouseStock.status,
+        },
+        purchaseOrder: purchaseOrderLine
+          ? {
+              id: purchaseOrderLine.purchaseOrder.id,
+              number: purchaseOrderLine.purchaseOrder.number,
+              lineId: purchaseOrderLine.id,
+              receiptId: purchaseOrderReceipt!.receiptId,
+              status: purchaseOrderReceipt!.purchaseOrderStatus,
+            }
+          : null,
+        lot: receivedLot ? serializeLot(receivedLot) : null,
         units: {
-          count: quantity,
+          count: unitsToCreate.length,
           // Return a preview only; full list can be fetched via /api/units
           previewCodes: unitsToCreate.slice(0, 24).map((u) => u.code),
         },
       };
     });
+    await publishNotifications(outbox);
 
     return res.status(201).json(result);
   } catch (error: any) {
@@ -356,6 +459,26 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(400).json({ error: "Invalid supplier" });
     }
 
+    if (error?.code === "INVALID_WAREHOUSE" || error?.code === "INVALID_BIN") {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (error?.code === "LOT_EXPIRY_MISMATCH" || error?.code === "LOT_ON_UNIT_TRACKED_PRODUCT") {
+      return res.status(409).json({ error: error.message });
+    }
+
+    if (error?.code === "PURCHASE_ORDER_LINE_NOT_FOUND") {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (
+      error?.code === "PURCHASE_ORDER_NOT_RECEIVABLE" ||
+      error?.code === "PURCHASE_ORDER_OVER_RECEIPT" ||
+      error?.code === "PURCHASE_ORDER_PRODUCT_MISMATCH"
+    ) {
+      return res.status(409).json({ error: error.message });
+    }
+
     console.error("POST /api/intake error:", error);
     return res.status(500).json({ error: "Failed to create intake" });
   }
@@ -0,0 +1,46 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { requireAdminOrPermission } from "@/pages/api/admin/_admin";
+import { getExpiringLots } from "@/utils/productLots";
+
+const querySchema = z.object({
+  days: z.coerce.number().int().min(0).max(365).optional(),
+  warehouseId: z.string().uuid().optional(),
+  productId: z.string().uuid().optional(),
+  includeExpired: z.enum(["0", "1"]).optional(),
+});
+
+// GET /api/lots/expiring?days=30  -> expired and soon-to-expire lots still in stock
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const session = await requireAdminOrPermission(req, res, "assets.view");
+  if (!session) return;
+
+  const parsed = querySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid query", details: parsed.error.flatten() });
+  }
+
+  try {
+    const report = await getExpiringLots(session.tenantId, {
+      days: parsed.data.days,
+      warehouseId: parsed.data.warehouseId,
+      productId: parsed.data.productId,
+      includeExpired: parsed.data.includeExpired !== "0",
+    });
+    return res.status(200).json(report);
+  } catch (error) {
+    console.error("GET /api/lots/expiring error:", error);
+    return res.status(500).json({ error: "Failed to load expiring lots" });
+  }
+}
+
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+};
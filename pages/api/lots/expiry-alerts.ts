@@ -0,0 +1,53 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { requireAdmin } from "@/pages/api/admin/_admin";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { runLotExpiryJob } from "@/utils/productLots";
+
+const bodySchema = z.object({
+  days: z.number().int().min(0).max(365).optional(),
+});
+
+// POST /api/lots/expiry-alerts  -> notify admins about lots not yet alerted (cron-friendly)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const session = await requireAdmin(req, res);
+  if (!session) return;
+
+  const parsed = bodySchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request body", details: parsed.error.flatten() });
+  }
+
+  try {
+    const run = await runLotExpiryJob(session.tenantId, { days: parsed.data.days });
+
+    await logUserAdminAction({
+      tenantId: session.tenantId,
+      actorUserId: session.id,
+      action: "LOT_EXPIRY_RUN",
+      note: `Validade de lotes: ${run.expiredCount} expirado(s), ${run.expiringCount} a expirar`,
+      payload: { days: run.days, alerted: run.alerted },
+    });
+
+    return res.status(200).json({
+      days: run.days,
+      expiredCount: run.expiredCount,
+      expiringCount: run.expiringCount,
+      alerted: run.alerted,
+    });
+  } catch (error) {
+    console.error("POST /api/lots/expiry-alerts error:", error);
+    return res.status(500).json({ error: "Failed to run lot expiry alerts" });
+  }
+}
+
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+};
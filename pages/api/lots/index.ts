@@ -0,0 +1,56 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { requireAdminOrPermission } from "@/pages/api/admin/_admin";
+import { prisma } from "@/prisma/client";
+import { serializeLot } from "@/utils/productLots";
+
+const querySchema = z.object({
+  productId: z.string().uuid().optional(),
+  warehouseId: z.string().uuid().optional(),
+  includeEmpty: z.enum(["0", "1"]).optional(),
+});
+
+// GET /api/lots?productId=&warehouseId=  -> lots with stock, earliest expiry first
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const session = await requireAdminOrPermission(req, res, "assets.view");
+  if (!session) return;
+
+  const parsed = querySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid query", details: parsed.error.flatten() });
+  }
+
+  try {
+    const { productId, warehouseId, includeEmpty } = parsed.data;
+    const lots = await (prisma as any).productLot.findMany({
+      where: {
+        tenantId: session.tenantId,
+        ...(productId ? { productId } : {}),
+        ...(warehouseId ? { warehouseId } : {}),
+        ...(includeEmpty === "1" ? {} : { quantity: { gt: 0 } }),
+      },
+      orderBy: [{ expiresAt: { sort: "asc", nulls: "last" } }, { createdAt: "asc" }],
+      take: 500,
+      include: {
+        product: { select: { id: true, name: true, sku: true } },
+        warehouse: { select: { id: true, code: true, name: true } },
+      },
+    });
+
+    return res.status(200).json({ items: lots.map(serializeLot) });
+  } catch (error) {
+    console.error("GET /api/lots error:", error);
+    return res.status(500).json({ error: "Failed to list lots" });
+  }
+}
+
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+};
@@ -19,11 +19,16 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   const parsed = bodySchema.safeParse(req.body ?? {});
   if (!parsed.success) return res.status(400).json({ error: "Invalid request body" });
 
-  touchPresence({
-    tenantId: session.tenantId,
-    userId: session.id,
-    active: Boolean(parsed.data.active),
-  });
+  try {
+    await touchPresence({
+      tenantId: session.tenantId,
+      userId: session.id,
+      active: Boolean(parsed.data.active),
+    });
+  } catch (error) {
+    console.error("POST /api/presence/heartbeat error:", error);
+    return res.status(500).json({ error: "Failed to record presence" });
+  }
 
   return res.status(200).json({ ok: true });
 }
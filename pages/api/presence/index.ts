@@ -2,7 +2,7 @@ import type { NextApiRequest, NextApiResponse } from "next";
 import { z } from "zod";
 import { prisma } from "@/prisma/client";
 import { getSessionServer } from "@/utils/auth";
-import { derivePresenceStatus, getPresenceRecord, setManualPresence, touchPresence } from "@/utils/presenceStore";
+import { derivePresenceStatus, listPresenceRecords, setManualPresence, touchPresence } from "@/utils/presenceStore";
 
 const patchSchema = z.object({
   manualStatus: z.enum(["AUTO", "ONLINE", "BUSY", "MEETING"]),
@@ -17,7 +17,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   if (req.method === "GET") {
     try {
-      touchPresence({ tenantId, userId: session.id, active: false, now });
+      await touchPresence({ tenantId, userId: session.id, active: false, now });
 
       const users = await prisma.user.findMany({
         where: { tenantId, isActive: true },
@@ -36,13 +36,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         },
         _count: { _all: true },
       });
+      const records = await listPresenceRecords(tenantId);
       const slaByUser = new Map<string, number>();
       for (const row of slaCritical) {
         if (row.assignedToUserId) slaByUser.set(row.assignedToUserId, row._count._all);
       }
 
       const list = users.map((u) => {
-        const rec = getPresenceRecord(tenantId, u.id);
+        const rec = records.get(u.id) ?? null;
         const status = derivePresenceStatus(rec, now);
         const criticalCount = slaByUser.get(u.id) || 0;
         return {
@@ -60,7 +61,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(200).json({
         me: {
           id: session.id,
-          manualStatus: getPresenceRecord(tenantId, session.id)?.manualStatus ?? null,
+          manualStatus: records.get(session.id)?.manualStatus ?? null,
         },
         users: list,
       });
@@ -75,9 +76,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     if (!parsed.success) return res.status(400).json({ error: "Invalid request body", details: parsed.error.flatten() });
 
     const manualStatus = parsed.data.manualStatus === "AUTO" ? null : parsed.data.manualStatus;
-    setManualPresence({ tenantId, userId: session.id, manualStatus, now });
-    touchPresence({ tenantId, userId: session.id, active: true, now });
-    return res.status(200).json({ ok: true, manualStatus });
+    try {
+      await setManualPresence({ tenantId, userId: session.id, manualStatus, now });
+      await touchPresence({ tenantId, userId: session.id, active: true, now });
+      return res.status(200).json({ ok: true, manualStatus });
+    } catch (error) {
+      console.error("PATCH /api/presence error:", error);
+      return res.status(500).json({ error: "Failed to update presence" });
+    }
   }
 
   res.setHeader("Allow", ["GET", "PATCH"]);
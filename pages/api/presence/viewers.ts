@@ -0,0 +1,82 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { prisma } from "@/prisma/client";
+import { getSessionServer, type SessionUser } from "@/utils/auth";
+import { getUserPermissionGrants } from "@/utils/rbac";
+import { canViewRequest } from "@/pages/api/requests/_access";
+import { canAccessTicketWithParticipants, isTicketManager } from "@/pages/api/tickets/_utils";
+import {
+  leaveResourceView,
+  listResourceViewers,
+  PRESENCE_RESOURCE_PATTERN,
+  touchResourceView,
+} from "@/utils/presenceStore";
+
+const resourceSchema = z.string().trim().regex(PRESENCE_RESOURCE_PATTERN);
+
+// Presence is only shown to (and recorded for) users who may open the record itself.
+async function canViewResource(session: SessionUser, resource: string): Promise<"OK" | "NOT_FOUND" | "FORBIDDEN"> {
+  const [kind, id] = resource.split(":");
+  const tenantId = session.tenantId;
+  const grants = () =>
+    getUserPermissionGrants(prisma, { id: session.id, tenantId, role: session.role, apiToken: session.apiToken });
+
+  if (kind === "request") {
+    const request = await prisma.request.findFirst({
+      where: { id, tenantId },
+      select: { userId: true, createdByUserId: true, requestingServiceId: true },
+    });
+    if (!request) return "NOT_FOUND";
+    return canViewRequest(await grants(), session.id, request) ? "OK" : "FORBIDDEN";
+  }
+
+  if (kind === "ticket") {
+    const ticket = await prisma.ticket.findFirst({
+      where: { id, tenantId },
+      select: { createdByUserId: true, assignedToUserId: true, participants: { select: { userId: true } } },
+    });
+    if (!ticket) return "NOT_FOUND";
+    const participantUserIds = ticket.participants.map((p) => p.userId);
+    const manager = isTicketManager(await grants());
+    return canAccessTicketWithParticipants(session, ticket, participantUserIds, { isManager: manager }) ? "OK" : "FORBIDDEN";
+  }
+
+  return "NOT_FOUND";
+}
+
+// Who else has a record page open. POST is the page's heartbeat and returns the current viewers.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getSessionServer(req, res);
+  if (!session) return res.status(401).json({ error: "Unauthorized" });
+  const tenantId = session.tenantId;
+
+  if (!["GET", "POST", "DELETE"].includes(req.method ?? "")) {
+    res.setHeader("Allow", ["GET", "POST", "DELETE"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const parsed = resourceSchema.safeParse(req.method === "POST" ? req.body?.resource : req.query.resource);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid resource" });
+  const resource = parsed.data.toLowerCase();
+
+  try {
+    if (req.method === "DELETE") {
+      await leaveResourceView({ tenantId, userId: session.id, resource });
+      return res.status(204).end();
+    }
+
+    const access = await canViewResource(session, resource);
+    if (access === "NOT_FOUND") return res.status(404).json({ error: "Not found" });
+    if (access === "FORBIDDEN") return res.status(403).json({ error: "Forbidden" });
+
+    if (req.method === "POST") {
+      await touchResourceView({ tenantId, userId: session.id, resource });
+    }
+
+    const viewers = await listResourceViewers(tenantId, resource);
+    return res.status(200).json({ resource, viewers: viewers.filter((v) => v.id !== session.id) });
+  } catch (error) {
+    console.error(`${req.method} /api/presence/viewers error:`, error);
+    return res.status(500).json({ error: "Failed to update viewers" });
+  }
+}
@@ -1,6 +1,9 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { prisma } from "@/prisma/client";
 import { getSessionServer } from "@/utils/auth";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { refreshProductStockStatusTx, resolveStockLevels, stockLevelInputSchema } from "@/utils/stockLevels";
+import { publishNotifications, type NotificationOutbox } from "@/utils/notifications";
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   const session = await getSessionServer(req, res);
@@ -15,8 +18,58 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(400).json({ error: "Invalid product id" });
   }
 
+  if (req.method === "PATCH") {
+    if (session.role !== "ADMIN") {
+      return res.status(403).json({ error: "Forbidden" });
+    }
+
+    const parsed = stockLevelInputSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid request body" });
+    }
+
+    try {
+      const existing = await prisma.product.findFirst({ where: { id, tenantId }, select: { id: true, sku: true } });
+      if (!existing) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+
+      const outbox: NotificationOutbox = [];
+      const result = await prisma.$transaction(async (tx) => {
+        await tx.product.update({
+          where: { id },
+          data: {
+            ...(parsed.data.minStock !== undefined ? { minStock: parsed.data.minStock } : {}),
+            ...(parsed.data.maxStock !== undefined ? { maxStock: parsed.data.maxStock } : {}),
+            ...(parsed.data.reorderPoint !== undefined ? { reorderPoint: parsed.data.reorderPoint } : {}),
+          },
+        });
+        return refreshProductStockStatusTx(tx, { tenantId, productId: id, outbox });
+      });
+      await publishNotifications(outbox);
+
+      await logUserAdminAction({
+        tenantId,
+        actorUserId: session.id,
+        action: "PRODUCT_STOCK_LEVELS_UPDATE",
+        note: `Níveis de reposição atualizados: ${existing.sku}`,
+        payload: { productId: id, changes: parsed.data },
+      });
+
+      return res.status(200).json({
+        productId: id,
+        quantity: result.quantity,
+        status: result.status,
+        stockLevels: result.levels,
+      });
+    } catch (error) {
+      console.error("PATCH /api/products/[id] error:", error);
+      return res.status(500).json({ error: "Failed to update stock levels" });
+    }
+  }
+
   if (req.method !== "GET") {
-    res.setHeader("Allow", ["GET"]);
+    res.setHeader("Allow", ["GET", "PATCH"]);
     return res.status(405).json({ error: "Method Not Allowed" });
   }
 
@@ -26,6 +79,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       include: {
         category: true,
         supplier: true,
+        stocks: {
+          include: { warehouse: { select: { id: true, code: true, name: true, isDefault: true } } },
+          orderBy: { warehouse: { name: "asc" } },
+        },
       },
     });
 
@@ -40,6 +97,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       updatedAt: product.updatedAt.toISOString(),
       category: product.category?.name || "Unknown",
       supplier: product.supplier?.name || "Unknown",
+      stockLevels: resolveStockLevels(product),
+      stocks: product.stocks.map((s) => ({
+        warehouseId: s.warehouseId,
+        warehouse: s.warehouse,
+        quantity: Number(s.quantity),
+        status: s.status,
+        updatedAt: s.updatedAt.toISOString(),
+      })),
     });
   } catch (error) {
     console.error("GET /api/products/[id] error:", error);
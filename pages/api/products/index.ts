@@ -1,6 +1,9 @@
 import { NextApiRequest, NextApiResponse } from "next";
 import { prisma } from "@/prisma/client";
 import { getSessionServer } from "@/utils/auth";
+import { syncDefaultWarehouseToTotalTx } from "@/utils/warehouseStock";
+import { refreshProductStockStatusTx, stockLevelInputSchema } from "@/utils/stockLevels";
+import { publishNotifications, type NotificationOutbox } from "@/utils/notifications";
 
 export default async function handler(
   req: NextApiRequest,
@@ -20,6 +23,15 @@ export default async function handler(
         const { name, description, sku, price, quantity, status, categoryId, supplierId, isPatrimonializable } =
           req.body;
 
+        const levels = stockLevelInputSchema.safeParse({
+          minStock: req.body?.minStock,
+          maxStock: req.body?.maxStock,
+          reorderPoint: req.body?.reorderPoint,
+        });
+        if (!levels.success) {
+          return res.status(400).json({ error: "Invalid stock levels" });
+        }
+
         // Check if SKU already exists
         const existingProduct = await prisma.product.findUnique({
           where: { sku },
@@ -43,21 +55,35 @@ export default async function handler(
         }
 
         // Use Prisma for product creation to ensure consistency
-        const product = await prisma.product.create({
-          data: {
-            name,
-            description: description ?? null,
-            sku,
-            price,
-            quantity: BigInt(quantity) as any,
-            status,
-            isPatrimonializable: Boolean(isPatrimonializable),
+        const outbox: NotificationOutbox = [];
+        const product = await prisma.$transaction(async (tx) => {
+          const created = await tx.product.create({
+            data: {
+              name,
+              description: description ?? null,
+              sku,
+              price,
+              quantity: BigInt(quantity) as any,
+              status,
+              isPatrimonializable: Boolean(isPatrimonializable),
+              minStock: levels.data.minStock ?? null,
+              maxStock: levels.data.maxStock ?? null,
+              reorderPoint: levels.data.reorderPoint ?? null,
+              tenantId,
+              categoryId,
+              supplierId,
+              createdAt: new Date(),
+            },
+          });
+          await syncDefaultWarehouseToTotalTx(tx, {
             tenantId,
-            categoryId,
-            supplierId,
-            createdAt: new Date(),
-          },
+            productId: created.id,
+            totalQuantity: Number(created.quantity),
+          });
+          const { status: computedStatus } = await refreshProductStockStatusTx(tx, { tenantId, productId: created.id, outbox });
+          return { ...created, status: computedStatus };
         });
+        await publishNotifications(outbox);
 
         // Return the created product data with category and supplier names
         res.status(201).json({
@@ -69,6 +95,9 @@ export default async function handler(
           quantity: Number(product.quantity),
           status: product.status,
           isPatrimonializable: product.isPatrimonializable,
+          minStock: product.minStock,
+          maxStock: product.maxStock,
+          reorderPoint: product.reorderPoint,
           tenantId: product.tenantId,
           categoryId: product.categoryId,
           supplierId: product.supplierId,
@@ -122,6 +151,15 @@ export default async function handler(
           isPatrimonializable,
         } = req.body;
 
+        const levels = stockLevelInputSchema.safeParse({
+          minStock: req.body?.minStock,
+          maxStock: req.body?.maxStock,
+          reorderPoint: req.body?.reorderPoint,
+        });
+        if (!levels.success) {
+          return res.status(400).json({ error: "Invalid stock levels" });
+        }
+
         const existing = await prisma.product.findFirst({
           where: { id, tenantId },
           select: { id: true },
@@ -144,20 +182,34 @@ export default async function handler(
           return res.status(400).json({ error: "Invalid supplier" });
         }
 
-        const updatedProduct = await prisma.product.update({
-          where: { id },
-          data: {
-            name,
-            description: description ?? null,
-            sku,
-            price,
-            quantity: BigInt(quantity) as any, // Convert to BigInt for database
-            status,
-            isPatrimonializable: Boolean(isPatrimonializable),
-            categoryId,
-            supplierId,
-          },
+        const outbox: NotificationOutbox = [];
+        const updatedProduct = await prisma.$transaction(async (tx) => {
+          const updated = await tx.product.update({
+            where: { id },
+            data: {
+              name,
+              description: description ?? null,
+              sku,
+              price,
+              quantity: BigInt(quantity) as any, // Convert to BigInt for database
+              status,
+              isPatrimonializable: Boolean(isPatrimonializable),
+              ...(levels.data.minStock !== undefined ? { minStock: levels.data.minStock } : {}),
+              ...(levels.data.maxStock !== undefined ? { maxStock: levels.data.maxStock } : {}),
+              ...(levels.data.reorderPoint !== undefined ? { reorderPoint: levels.data.reorderPoint } : {}),
+              categoryId,
+              supplierId,
+            },
+          });
+          await syncDefaultWarehouseToTotalTx(tx, {
+            tenantId,
+            productId: updated.id,
+            totalQuantity: Number(updated.quantity),
+          });
+          const { status: computedStatus } = await refreshProductStockStatusTx(tx, { tenantId, productId: updated.id, outbox });
+          return { ...updated, status: computedStatus };
         });
+        await publishNotifications(outbox);
 
         // Return the updated product data with category and supplier names
         res.status(200).json({
@@ -169,6 +221,9 @@ export default async function handler(
           quantity: Number(updatedProduct.quantity), // Convert BigInt to Number
           status: updatedProduct.status,
           isPatrimonializable: updatedProduct.isPatrimonializable,
+          minStock: updatedProduct.minStock,
+          maxStock: updatedProduct.maxStock,
+          reorderPoint: updatedProduct.reorderPoint,
           tenantId: updatedProduct.tenantId,
           categoryId: updatedProduct.categoryId,
           supplierId: updatedProduct.supplierId,
@@ -0,0 +1,140 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { prisma } from "@/prisma/client";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { purchaseOrderInclude, serializePurchaseOrder } from "@/utils/purchaseOrders";
+import { getPurchasingAccess } from "./_access";
+
+const lineSchema = z.object({
+  productId: z.string().uuid(),
+  quantity: z.number().int().positive().max(1_000_000),
+  unitPrice: z.number().nonnegative(),
+  requestItemId: z.string().uuid().optional().nullable(),
+  expectedAt: z.string().datetime().optional().nullable(),
+  notes: z.string().trim().max(500).optional().nullable(),
+});
+
+const updateSchema = z.object({
+  // SEND: DRAFT -> SENT; CANCEL: nothing received yet; CLOSE: stop waiting for outstanding quantities.
+  action: z.enum(["SEND", "CANCEL", "CLOSE"]).optional(),
+  expectedAt: z.string().datetime().optional().nullable(),
+  notes: z.string().trim().max(2000).optional().nullable(),
+  // Replaces all lines; only while the order is still a draft.
+  lines: z.array(lineSchema).min(1).max(200).optional(),
+});
+
+const ACTION_FROM: Record<"SEND" | "CANCEL" | "CLOSE", string[]> = {
+  SEND: ["DRAFT"],
+  CANCEL: ["DRAFT", "SENT"],
+  CLOSE: ["SENT", "PARTIALLY_RECEIVED", "RECEIVED"],
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const access = await getPurchasingAccess(req, res);
+  if (!access) return;
+  const { session, canManage, canView } = access;
+  const tenantId = session.tenantId;
+
+  const id = typeof req.query.id === "string" ? req.query.id : "";
+  if (!id) return res.status(400).json({ error: "Invalid id" });
+
+  const db = prisma as any;
+
+  if (req.method === "GET") {
+    if (!canView) return res.status(403).json({ error: "Forbidden" });
+
+    const row = await db.purchaseOrder.findFirst({ where: { id, tenantId }, include: purchaseOrderInclude });
+    if (!row) return res.status(404).json({ error: "Not found" });
+
+    return res.status(200).json(serializePurchaseOrder(row));
+  }
+
+  if (req.method === "PATCH") {
+    if (!canManage) return res.status(403).json({ error: "Forbidden" });
+
+    const parsed = updateSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: "Invalid body", details: parsed.error.flatten() });
+    const { action, lines } = parsed.data;
+
+    const current = await db.purchaseOrder.findFirst({
+      where: { id, tenantId },
+      select: { id: true, number: true, status: true },
+    });
+    if (!current) return res.status(404).json({ error: "Not found" });
+
+    if (current.status === "CLOSED" || current.status === "CANCELLED") {
+      return res.status(409).json({ error: "Encomenda já encerrada" });
+    }
+    if (action && !ACTION_FROM[action].includes(current.status)) {
+      return res.status(409).json({ error: `Ação ${action} inválida no estado ${current.status}` });
+    }
+    if (lines && current.status !== "DRAFT") {
+      return res.status(409).json({ error: "Só é possível alterar linhas em rascunho" });
+    }
+
+    if (lines) {
+      const productIds = Array.from(new Set(lines.map((l) => l.productId)));
+      const count = await prisma.product.count({ where: { tenantId, id: { in: productIds } } });
+      if (count !== productIds.length) return res.status(400).json({ error: "Produto inválido" });
+    }
+
+    try {
+      const updated = await prisma.$transaction(async (tx) => {
+        const txAny = tx as any;
+        const now = new Date();
+
+        if (lines) {
+          await txAny.purchaseOrderLine.deleteMany({ where: { purchaseOrderId: id } });
+          await txAny.purchaseOrderLine.createMany({
+            data: lines.map((line) => ({
+              tenantId,
+              purchaseOrderId: id,
+              productId: line.productId,
+              quantity: line.quantity,
+              unitPrice: line.unitPrice,
+              requestItemId: line.requestItemId ?? null,
+              expectedAt: line.expectedAt ? new Date(line.expectedAt) : null,
+              notes: line.notes || null,
+            })),
+          });
+        }
+
+        return txAny.purchaseOrder.update({
+          where: { id },
+          data: {
+            ...(action === "SEND" ? { status: "SENT", sentAt: now } : {}),
+            ...(action === "CANCEL" ? { status: "CANCELLED", cancelledAt: now } : {}),
+            ...(action === "CLOSE" ? { status: "CLOSED", closedAt: now } : {}),
+            ...(Object.prototype.hasOwnProperty.call(parsed.data, "expectedAt")
+              ? { expectedAt: parsed.data.expectedAt ? new Date(parsed.data.expectedAt) : null }
+              : {}),
+            ...(Object.prototype.hasOwnProperty.call(parsed.data, "notes") ? { notes: parsed.data.notes || null } : {}),
+          },
+          include: purchaseOrderInclude,
+        });
+      });
+
+      await logUserAdminAction({
+        tenantId,
+        actorUserId: session.id,
+        action: action ? `PURCHASE_ORDER_${action}` : "PURCHASE_ORDER_UPDATE",
+        note: `Encomenda ${current.number}: ${action ? `${current.status} -> ${updated.status}` : "atualizada"}`,
+        payload: { purchaseOrderId: id, fromStatus: current.status, toStatus: updated.status, linesReplaced: Boolean(lines) },
+      });
+
+      return res.status(200).json(serializePurchaseOrder(updated));
+    } catch (error) {
+      console.error("PATCH /api/purchase-orders/[id] error:", error);
+      return res.status(500).json({ error: "Failed to update purchase order" });
+    }
+  }
+
+  res.setHeader("Allow", ["GET", "PATCH"]);
+  return res.status(405).json({ error: "Method Not Allowed" });
+}
+
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+};
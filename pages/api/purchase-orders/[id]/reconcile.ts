@@ -0,0 +1,68 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { reconcilePurchaseOrder } from "@/utils/purchaseOrders";
+import { getPurchasingAccess } from "../_access";
+
+const bodySchema = z.object({
+  // Invoices recorded without the PO (e.g. older intakes) to attach before matching.
+  links: z
+    .array(z.object({ invoiceId: z.string().uuid(), lineId: z.string().uuid() }))
+    .max(200)
+    .optional(),
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const access = await getPurchasingAccess(req, res);
+  if (!access) return;
+  const { session, canManage } = access;
+  if (!canManage) return res.status(403).json({ error: "Forbidden" });
+
+  const id = typeof req.query.id === "string" ? req.query.id : "";
+  if (!id) return res.status(400).json({ error: "Invalid id" });
+
+  const parsed = bodySchema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: "Invalid body", details: parsed.error.flatten() });
+
+  try {
+    const result = await reconcilePurchaseOrder(session.tenantId, id, { links: parsed.data.links });
+
+    await logUserAdminAction({
+      tenantId: session.tenantId,
+      actorUserId: session.id,
+      action: "PURCHASE_ORDER_RECONCILE",
+      note: `Conciliação da encomenda ${result.number}: ${result.matchStatus}`,
+      payload: { purchaseOrderId: id, matchStatus: result.matchStatus, linkedInvoices: parsed.data.links?.length ?? 0 },
+    });
+
+    return res.status(200).json(result);
+  } catch (error: any) {
+    if (
+      error?.code === "PURCHASE_ORDER_NOT_FOUND" ||
+      error?.code === "PURCHASE_ORDER_LINE_NOT_FOUND" ||
+      error?.code === "INVOICE_NOT_FOUND"
+    ) {
+      return res.status(404).json({ error: error.message });
+    }
+    if (
+      error?.code === "PURCHASE_ORDER_NOT_RECONCILABLE" ||
+      error?.code === "INVOICE_PRODUCT_MISMATCH" ||
+      error?.code === "INVOICE_ALREADY_LINKED"
+    ) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error("POST /api/purchase-orders/[id]/reconcile error:", error);
+    return res.status(500).json({ error: "Failed to reconcile purchase order" });
+  }
+}
+
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+};
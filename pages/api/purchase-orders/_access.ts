@@ -0,0 +1,29 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/prisma/client";
+import { getSessionServer } from "@/utils/auth";
+import { getUserPermissionGrants, hasPermission } from "@/utils/rbac";
+
+// Shared session + permission lookup for the purchase order routes.
+export async function getPurchasingAccess(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["purchasing.manage", "purchasing.view"] });
+  if (!session) {
+    res.status(401).json({ error: "Unauthorized" });
+    return null;
+  }
+
+  const grants = await getUserPermissionGrants(prisma, {
+    id: session.id,
+    tenantId: session.tenantId,
+    role: session.role,
+    apiToken: session.apiToken,
+  });
+  const canManage = session.role === "ADMIN" || hasPermission(grants, "purchasing.manage");
+  const canView = canManage || hasPermission(grants, "purchasing.view");
+
+  return { session, canManage, canView };
+}
+
+// This file is also treated as an API route by Next.js because it's under pages/api.
+export default function handler(_req: NextApiRequest, res: NextApiResponse) {
+  return res.status(404).end();
+}
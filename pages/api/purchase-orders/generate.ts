@@ -0,0 +1,89 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import {
+  buildPurchaseOrderDraftsFromReplenishment,
+  buildPurchaseOrderDraftsFromRequest,
+  createPurchaseOrders,
+} from "@/utils/purchaseOrders";
+import { getPurchasingAccess } from "./_access";
+
+const bodySchema = z.discriminatedUnion("source", [
+  z.object({
+    source: z.literal("REQUEST"),
+    requestId: z.string().uuid(),
+  }),
+  z.object({
+    source: z.literal("REPLENISHMENT"),
+    // Omit to use the live plan instead of a stored run.
+    replenishmentRunId: z.string().uuid().optional().nullable(),
+    supplierIds: z.array(z.string().uuid()).max(200).optional().nullable(),
+  }),
+]);
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const access = await getPurchasingAccess(req, res);
+  if (!access) return;
+  const { session, canManage } = access;
+  if (!canManage) return res.status(403).json({ error: "Forbidden" });
+
+  const parsed = bodySchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid body", details: parsed.error.flatten() });
+
+  const tenantId = session.tenantId;
+  const body = parsed.data;
+
+  try {
+    const drafts =
+      body.source === "REQUEST"
+        ? await buildPurchaseOrderDraftsFromRequest(tenantId, body.requestId)
+        : await buildPurchaseOrderDraftsFromReplenishment(tenantId, {
+            replenishmentRunId: body.replenishmentRunId ?? null,
+            supplierIds: body.supplierIds ?? null,
+          });
+
+    if (!drafts.length) {
+      return res.status(409).json({ error: "Nada por encomendar: as quantidades já estão cobertas por encomendas abertas" });
+    }
+
+    const created = await createPurchaseOrders(tenantId, drafts, { createdByUserId: session.id });
+
+    await logUserAdminAction({
+      tenantId,
+      actorUserId: session.id,
+      action: "PURCHASE_ORDER_GENERATE",
+      note: `${created.length} encomenda(s) gerada(s) (${body.source === "REQUEST" ? "requisição" : "reposição"})`,
+      payload: {
+        source: body.source,
+        requestId: body.source === "REQUEST" ? body.requestId : null,
+        replenishmentRunId: body.source === "REPLENISHMENT" ? body.replenishmentRunId ?? null : null,
+        purchaseOrderIds: created.map((po: any) => po.id),
+      },
+    });
+
+    return res.status(201).json({ count: created.length, purchaseOrders: created });
+  } catch (error: any) {
+    if (error?.code === "REQUEST_NOT_FOUND" || error?.code === "REPLENISHMENT_RUN_NOT_FOUND") {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error?.code === "REQUEST_NOT_APPROVED") {
+      return res.status(409).json({ error: error.message });
+    }
+    if (["INVALID_SUPPLIER", "INACTIVE_SUPPLIER", "INVALID_PRODUCT"].includes(error?.code)) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("POST /api/purchase-orders/generate error:", error);
+    return res.status(500).json({ error: "Failed to generate purchase orders" });
+  }
+}
+
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+};
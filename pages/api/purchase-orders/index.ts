@@ -0,0 +1,124 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { prisma } from "@/prisma/client";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { createPurchaseOrders, purchaseOrderInclude, serializePurchaseOrder } from "@/utils/purchaseOrders";
+import { getPurchasingAccess } from "./_access";
+
+const statusSchema = z.enum(["DRAFT", "SENT", "PARTIALLY_RECEIVED", "RECEIVED", "CLOSED", "CANCELLED"]);
+
+const lineSchema = z.object({
+  productId: z.string().uuid(),
+  quantity: z.number().int().positive().max(1_000_000),
+  unitPrice: z.number().nonnegative(),
+  expectedAt: z.string().datetime().optional().nullable(),
+  notes: z.string().trim().max(500).optional().nullable(),
+});
+
+const createSchema = z.object({
+  supplierId: z.string().uuid(),
+  requestId: z.string().uuid().optional().nullable(),
+  expectedAt: z.string().datetime().optional().nullable(),
+  notes: z.string().trim().max(2000).optional().nullable(),
+  lines: z.array(lineSchema).min(1).max(200),
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const access = await getPurchasingAccess(req, res);
+  if (!access) return;
+  const { session, canManage, canView } = access;
+  const tenantId = session.tenantId;
+
+  if (req.method === "GET") {
+    if (!canView) return res.status(403).json({ error: "Forbidden" });
+
+    const status = typeof req.query.status === "string" ? statusSchema.safeParse(req.query.status) : null;
+    if (status && !status.success) return res.status(400).json({ error: "Invalid status" });
+    const supplierId = typeof req.query.supplierId === "string" ? req.query.supplierId : undefined;
+    const requestId = typeof req.query.requestId === "string" ? req.query.requestId : undefined;
+    const productId = typeof req.query.productId === "string" ? req.query.productId : undefined;
+    const matchStatus = typeof req.query.matchStatus === "string" ? req.query.matchStatus : undefined;
+
+    try {
+      const rows = await (prisma as any).purchaseOrder.findMany({
+        where: {
+          tenantId,
+          ...(status ? { status: status.data } : {}),
+          ...(supplierId ? { supplierId } : {}),
+          ...(requestId ? { requestId } : {}),
+          ...(productId ? { lines: { some: { productId } } } : {}),
+          ...(matchStatus === "PENDING" || matchStatus === "MATCHED" || matchStatus === "DISCREPANCY" ? { matchStatus } : {}),
+        },
+        orderBy: [{ createdAt: "desc" }],
+        take: 200,
+        include: purchaseOrderInclude,
+      });
+
+      return res.status(200).json(rows.map(serializePurchaseOrder));
+    } catch (error) {
+      console.error("GET /api/purchase-orders error:", error);
+      return res.status(500).json({ error: "Failed to list purchase orders" });
+    }
+  }
+
+  if (req.method === "POST") {
+    if (!canManage) return res.status(403).json({ error: "Forbidden" });
+
+    const parsed = createSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: "Invalid body", details: parsed.error.flatten() });
+
+    const data = parsed.data;
+    if (data.requestId) {
+      const request = await prisma.request.findFirst({ where: { id: data.requestId, tenantId }, select: { id: true } });
+      if (!request) return res.status(404).json({ error: "Request not found" });
+    }
+
+    try {
+      const [created] = await createPurchaseOrders(
+        tenantId,
+        [
+          {
+            supplierId: data.supplierId,
+            source: "MANUAL",
+            requestId: data.requestId ?? null,
+            expectedAt: data.expectedAt ? new Date(data.expectedAt) : null,
+            notes: data.notes || null,
+            lines: data.lines.map((line) => ({
+              productId: line.productId,
+              quantity: line.quantity,
+              unitPrice: line.unitPrice,
+              expectedAt: line.expectedAt ? new Date(line.expectedAt) : null,
+              notes: line.notes || null,
+            })),
+          },
+        ],
+        { createdByUserId: session.id }
+      );
+
+      await logUserAdminAction({
+        tenantId,
+        actorUserId: session.id,
+        action: "PURCHASE_ORDER_CREATE",
+        note: `Encomenda criada: ${created.number}`,
+        payload: { purchaseOrderId: created.id, supplierId: data.supplierId, lineCount: data.lines.length },
+      });
+
+      return res.status(201).json(created);
+    } catch (error: any) {
+      if (["INVALID_SUPPLIER", "INACTIVE_SUPPLIER", "INVALID_PRODUCT"].includes(error?.code)) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("POST /api/purchase-orders error:", error);
+      return res.status(500).json({ error: "Failed to create purchase order" });
+    }
+  }
+
+  res.setHeader("Allow", ["GET", "POST"]);
+  return res.status(405).json({ error: "Method Not Allowed" });
+}
+
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+};
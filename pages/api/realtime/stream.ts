@@ -1,6 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { getSessionServer } from "@/utils/auth";
-import { RealtimeEnvelope, subscribeRealtimeEvents } from "@/utils/realtime";
+import { listRealtimeEventsSince, RealtimeEnvelope, subscribeRealtimeEvents } from "@/utils/realtime";
 
 export const config = {
   api: {
@@ -20,6 +20,32 @@ function shouldDeliver(session: any, event: RealtimeEnvelope) {
   return event.userId === session.id;
 }
 
+const MAX_TOPICS = 20;
+
+// `?topics=request:<id>,ticket:<id>` narrows the stream to events about those entities.
+function parseTopics(raw: unknown): string[] | null {
+  const value = Array.isArray(raw) ? raw.join(",") : typeof raw === "string" ? raw : "";
+  const topics = value
+    .split(",")
+    .map((t) => t.trim())
+    .filter((t) => /^[a-z-]+:[A-Za-z0-9_-]{1,64}$/.test(t))
+    .slice(0, MAX_TOPICS);
+  return topics.length ? topics : null;
+}
+
+function matchesTopics(topics: string[] | null, event: RealtimeEnvelope) {
+  if (!topics) return true;
+  return (event.topics ?? []).some((t) => topics.includes(t));
+}
+
+function getLastEventId(req: NextApiRequest) {
+  const header = req.headers["last-event-id"];
+  const fromHeader = Array.isArray(header) ? header[0] : header;
+  const fromQuery = typeof req.query.lastEventId === "string" ? req.query.lastEventId : undefined;
+  const value = (fromHeader || fromQuery || "").trim();
+  return value || null;
+}
+
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== "GET") {
     res.setHeader("Allow", ["GET"]);
@@ -38,13 +64,25 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     "X-Accel-Buffering": "no",
   });
 
-  res.write(`event: ready\n`);
-  res.write(`data: ${JSON.stringify({ ok: true, now: new Date().toISOString() })}\n\n`);
+  const topics = parseTopics(req.query.topics);
+  const lastEventId = getLastEventId(req);
+  let closed = false;
 
-  const unsubscribe = subscribeRealtimeEvents((event) => {
-    if (!shouldDeliver(session, event)) return;
+  const send = (event: RealtimeEnvelope) => {
+    if (closed || !shouldDeliver(session, event) || !matchesTopics(topics, event)) return;
+    res.write(`id: ${event.id}\n`);
     res.write(`event: ${event.type}\n`);
     res.write(`data: ${JSON.stringify(event)}\n\n`);
+  };
+
+  res.write(`event: ready\n`);
+  res.write(`data: ${JSON.stringify({ ok: true, now: new Date().toISOString(), topics })}\n\n`);
+
+  // Live events arriving while the backlog is replayed are held back so the order is preserved.
+  let pending: RealtimeEnvelope[] | null = lastEventId ? [] : null;
+  const unsubscribe = subscribeRealtimeEvents((event) => {
+    if (pending) pending.push(event);
+    else send(event);
   });
 
   const keepAlive = setInterval(() => {
@@ -53,6 +91,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }, 25000);
 
   const cleanup = () => {
+    closed = true;
     clearInterval(keepAlive);
     unsubscribe();
     try {
@@ -64,4 +103,31 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   req.on("close", cleanup);
   req.on("aborted", cleanup);
+
+  if (lastEventId) {
+    let missed: RealtimeEnvelope[] | null = null;
+    try {
+      missed = await listRealtimeEventsSince(session.tenantId, lastEventId);
+    } catch (error) {
+      console.error("GET /api/realtime/stream replay error:", error);
+    }
+
+    const replayed = new Set<string>();
+    if (missed) {
+      for (const event of missed) {
+        replayed.add(event.id);
+        send(event);
+      }
+    } else if (!closed) {
+      // Backlog pruned or too long: the client must reload its state instead.
+      res.write(`event: reset\n`);
+      res.write(`data: ${JSON.stringify({ lastEventId })}\n\n`);
+    }
+
+    const held = pending ?? [];
+    pending = null;
+    for (const event of held) {
+      if (!replayed.has(event.id)) send(event);
+    }
+  }
 }
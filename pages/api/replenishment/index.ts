@@ -0,0 +1,45 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireAdminOrPermission } from "@/pages/api/admin/_admin";
+import { prisma } from "@/prisma/client";
+import { buildReplenishmentPlan } from "@/utils/replenishment";
+
+// GET /api/replenishment            -> live draft purchase list
+// GET /api/replenishment?runs=1     -> recent job snapshots
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const session = await requireAdminOrPermission(req, res, "reports.view");
+  if (!session) return;
+
+  try {
+    if (req.query.runs === "1") {
+      const runs = await prisma.replenishmentRun.findMany({
+        where: { tenantId: session.tenantId },
+        orderBy: { createdAt: "desc" },
+        take: 20,
+        include: { triggeredBy: { select: { id: true, name: true } } },
+      });
+      return res.status(200).json(
+        runs.map((r) => ({
+          ...r,
+          createdAt: r.createdAt.toISOString(),
+        }))
+      );
+    }
+
+    const { pendingAlerts, ...plan } = await buildReplenishmentPlan(session.tenantId);
+    return res.status(200).json({ ...plan, pendingAlertCount: pendingAlerts.length });
+  } catch (error) {
+    console.error("GET /api/replenishment error:", error);
+    return res.status(500).json({ error: "Failed to build replenishment plan" });
+  }
+}
+
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+};
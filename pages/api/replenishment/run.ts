@@ -0,0 +1,37 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireAdmin } from "@/pages/api/admin/_admin";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { runReplenishmentJob } from "@/utils/replenishment";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const session = await requireAdmin(req, res);
+  if (!session) return;
+
+  try {
+    const run = await runReplenishmentJob(session.tenantId, { triggeredByUserId: session.id });
+
+    await logUserAdminAction({
+      tenantId: session.tenantId,
+      actorUserId: session.id,
+      action: "REPLENISHMENT_RUN",
+      note: `Lista de reposição: ${run.productCount} produto(s), ${run.supplierCount} fornecedor(es)`,
+      payload: { replenishmentRunId: run.id, alertsSent: run.alertsSent },
+    });
+
+    return res.status(201).json(run);
+  } catch (error) {
+    console.error("POST /api/replenishment/run error:", error);
+    return res.status(500).json({ error: "Failed to run replenishment" });
+  }
+}
+
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+};
@@ -25,7 +25,7 @@ function csvEscape(value: unknown) {
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["reports.view"] });
   if (!session) return res.status(401).json({ error: "Unauthorized" });
   if (req.method !== "GET") {
     res.setHeader("Allow", ["GET"]);
@@ -47,6 +47,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     id: session.id,
     tenantId,
     role: session.role,
+    apiToken: session.apiToken,
   });
 
   const hasWildcard = grants.some((g) => g.key === "*");
@@ -30,7 +30,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   const [totalProducts, outOfStockItems, lowStockItems] = await Promise.all([
     prisma.product.count({ where: { tenantId } }),
     prisma.product.count({ where: { tenantId, quantity: { equals: BigInt(0) } } }),
-    prisma.product.count({ where: { tenantId, quantity: { gt: BigInt(0), lte: BigInt(20) } } }),
+    prisma.product.count({ where: { tenantId, status: "Stock Low" } }),
   ]);
 
   const quantityAgg = await prisma.product.aggregate({
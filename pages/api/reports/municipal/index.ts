@@ -6,6 +6,7 @@ import {
   toIsoRange,
   type MunicipalReportData,
 } from "@/utils/municipalReports";
+import { resolveStockLevels } from "@/utils/stockLevels";
 
 function toNumberBigint(value: any): number {
   if (typeof value === "bigint") return Number(value);
@@ -56,7 +57,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         sku: true,
         price: true,
         quantity: true,
-        category: { select: { name: true } },
+        minStock: true,
+        maxStock: true,
+        reorderPoint: true,
+        category: { select: { name: true, defaultMinStock: true, defaultMaxStock: true, defaultReorderPoint: true } },
         supplier: { select: { name: true } },
       },
       orderBy: { name: "asc" },
@@ -78,7 +82,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       totalValue += value;
 
       if (qty === 0) outOfStockCount += 1;
-      if (qty > 0 && qty <= 20) lowStockCount += 1;
+      const { reorderPoint } = resolveStockLevels(p);
+      if (qty > 0 && qty <= reorderPoint) lowStockCount += 1;
 
       const cat = p.category?.name ?? "Sem categoria";
       const sup = p.supplier?.name ?? "Sem fornecedor";
@@ -94,6 +99,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         name: p.name,
         sku: p.sku,
         quantity: qty,
+        reorderPoint,
         unitPrice: Number(p.price || 0),
         value,
       };
@@ -106,7 +112,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     const lowStock = clampTop(
       stockRows
-        .filter((r) => r.quantity > 0 && r.quantity <= 20)
+        .filter((r) => r.quantity > 0 && r.quantity <= r.reorderPoint)
         .sort((a, b) => a.quantity - b.quantity)
         .map((r) => ({ productId: r.productId, name: r.name, sku: r.sku, quantity: r.quantity })),
       10
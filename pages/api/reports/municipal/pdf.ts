@@ -11,6 +11,7 @@ import {
   type MunicipalReportData,
 } from "@/utils/municipalReports";
 import { buildMunicipalReportPdfBytes } from "@/utils/municipalReportPdf";
+import { resolveStockLevels } from "@/utils/stockLevels";
 
 const ensureDir = async (dir: string) => {
   await fs.promises.mkdir(dir, { recursive: true });
@@ -60,7 +61,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         sku: true,
         price: true,
         quantity: true,
-        category: { select: { name: true } },
+        minStock: true,
+        maxStock: true,
+        reorderPoint: true,
+        category: { select: { name: true, defaultMinStock: true, defaultMaxStock: true, defaultReorderPoint: true } },
         supplier: { select: { name: true } },
       },
     });
@@ -80,7 +84,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       totalValue += value;
 
       if (qty === 0) outOfStockCount += 1;
-      if (qty > 0 && qty <= 20) lowStockCount += 1;
+      const { reorderPoint } = resolveStockLevels(p);
+      if (qty > 0 && qty <= reorderPoint) lowStockCount += 1;
 
       const cat = p.category?.name ?? "Sem categoria";
       const sup = p.supplier?.name ?? "Sem fornecedor";
@@ -96,6 +101,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         name: p.name,
         sku: p.sku,
         quantity: qty,
+        reorderPoint,
         unitPrice: Number(p.price || 0),
         value,
       };
@@ -103,7 +109,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     const topByValue = [...stockRows].sort((a, b) => b.value - a.value).slice(0, 10);
     const lowStock = stockRows
-      .filter((r) => r.quantity > 0 && r.quantity <= 20)
+      .filter((r) => r.quantity > 0 && r.quantity <= r.reorderPoint)
       .sort((a, b) => a.quantity - b.quantity)
       .slice(0, 10)
       .map((r) => ({ productId: r.productId, name: r.name, sku: r.sku, quantity: r.quantity }));
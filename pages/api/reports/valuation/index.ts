@@ -0,0 +1,42 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireAdminOrPermission } from "@/pages/api/admin/_admin";
+import { buildInventoryValuation, inventoryValuationQuerySchema } from "@/utils/inventoryValuation";
+import { toIsoRange } from "@/utils/municipalReports";
+
+// GET /api/reports/valuation?from=&to=&method=WAC|FIFO&categoryId=
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const session = await requireAdminOrPermission(req, res, "reports.view");
+  if (!session) return;
+
+  const parsed = inventoryValuationQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid query" });
+  }
+
+  const { fromDate, toDate } = toIsoRange(parsed.data.from, parsed.data.to);
+
+  try {
+    const data = await buildInventoryValuation({
+      tenantId: session.tenantId,
+      method: parsed.data.method,
+      from: fromDate,
+      to: toDate,
+      categoryId: parsed.data.categoryId,
+    });
+    return res.status(200).json(data);
+  } catch (error) {
+    console.error("GET /api/reports/valuation error:", error);
+    return res.status(500).json({ error: "Failed to build inventory valuation" });
+  }
+}
+
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+};
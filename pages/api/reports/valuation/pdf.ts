@@ -0,0 +1,101 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import path from "path";
+import fs from "fs";
+import crypto from "crypto";
+
+import { requireAdminOrPermission } from "@/pages/api/admin/_admin";
+import { prisma } from "@/prisma/client";
+import { buildInventoryValuation, inventoryValuationQuerySchema } from "@/utils/inventoryValuation";
+import { toIsoRange } from "@/utils/municipalReports";
+import { buildInventoryValuationPdfBytes } from "@/utils/municipalReportPdf";
+
+const ensureDir = async (dir: string) => {
+  await fs.promises.mkdir(dir, { recursive: true });
+};
+
+function safeFileBase(input: string) {
+  return input.replace(/[^a-zA-Z0-9._-]/g, "_").slice(0, 120) || "report";
+}
+
+// GET downloads the PDF; POST also archives it in the document repository (ADMIN only).
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", ["GET", "POST"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const session = await requireAdminOrPermission(req, res, "reports.view");
+  if (!session) return;
+
+  const archive = req.method === "POST";
+  if (archive && session.role !== "ADMIN") {
+    return res.status(403).json({ error: "Forbidden" });
+  }
+
+  const parsed = inventoryValuationQuerySchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid query" });
+
+  const { fromDate, toDate } = toIsoRange(parsed.data.from, parsed.data.to);
+  const tenantId = session.tenantId;
+
+  try {
+    const data = await buildInventoryValuation({
+      tenantId,
+      method: parsed.data.method,
+      from: fromDate,
+      to: toDate,
+      categoryId: parsed.data.categoryId,
+    });
+
+    const tenant = await prisma.tenant.findUnique({ where: { id: tenantId }, select: { name: true } });
+    const pdfBytes = await buildInventoryValuationPdfBytes({ tenantName: tenant?.name ?? null, data });
+
+    if (archive) {
+      const asOf = new Date(data.meta.to);
+      const storageRoot = path.join(process.cwd(), "storage", tenantId, String(asOf.getFullYear()), "OUTROS");
+      await ensureDir(storageRoot);
+
+      const id = crypto.randomUUID();
+      const fileBase = safeFileBase(`Valorizacao_Inventario_${data.meta.method}_${data.meta.to.slice(0, 10)}`);
+      const fileName = `${fileBase}-${id}.pdf`;
+      const absPath = path.join(storageRoot, fileName);
+
+      await fs.promises.writeFile(absPath, Buffer.from(pdfBytes));
+
+      const stored = await prisma.storedFile.create({
+        data: {
+          id,
+          tenantId,
+          kind: "OTHER",
+          originalName: `${fileBase}.pdf`,
+          fileName,
+          mimeType: "application/pdf",
+          sizeBytes: Buffer.byteLength(Buffer.from(pdfBytes)),
+          storagePath: path.relative(process.cwd(), absPath),
+        },
+      });
+
+      return res.status(200).json({
+        archived: {
+          ...stored,
+          createdAt: stored.createdAt.toISOString(),
+          updatedAt: stored.updatedAt.toISOString(),
+        },
+        pdfBase64: Buffer.from(pdfBytes).toString("base64"),
+      });
+    }
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", "attachment; filename=Valorizacao_Inventario.pdf");
+    return res.status(200).send(Buffer.from(pdfBytes));
+  } catch (error) {
+    console.error("/api/reports/valuation/pdf error:", error);
+    return res.status(500).json({ error: "Failed to generate PDF" });
+  }
+}
+
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+};
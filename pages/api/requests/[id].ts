@@ -5,21 +5,29 @@ import path from "path";
 import crypto from "crypto";
 import { prisma } from "@/prisma/client";
 import { getSessionServer } from "@/utils/auth";
-import { createRequestStatusAudit, notifyAdmin, notifyUser } from "@/utils/notifications";
+import {
+  createRequestStatusAudit,
+  notifyAdmin,
+  notifyUser,
+  publishNotifications,
+  type NotificationOutbox,
+} from "@/utils/notifications";
 import { publishRealtimeEvent } from "@/utils/realtime";
 import { createTicketAudit } from "@/pages/api/tickets/_utils";
-import { getUserPermissionGrants, hasPermission } from "@/utils/rbac";
-import { ensureRequestWorkflowDefinition, transitionRequestWorkflowByAction } from "@/utils/workflow";
+import { canViewRequest } from "@/pages/api/requests/_access";
+import { findPermissionGrant, getUserPermissionGrants, hasPermission, REQUEST_API_TOKEN_SCOPES } from "@/utils/rbac";
+import { applyWarehouseStockDeltaTx, ensureDefaultWarehouse } from "@/utils/warehouseStock";
+import { allocateLotsFefoTx, returnLotsTx } from "@/utils/productLots";
+import { refreshProductStockStatusTx } from "@/utils/stockLevels";
+import { ensureRequestWorkflowDefinition, explainWorkflowGuardBlock, transitionRequestWorkflowByAction } from "@/utils/workflow";
+import { QUORUM_INVALID_MESSAGE } from "@/utils/workflowQuorum";
 import { buildSignedRequestPdfBuffer } from "@/utils/requestPdf";
 import {
   buildRequestFolderName,
   buildStoredFileName,
   getRequestStorageDir,
 } from "@/utils/storageLayout";
-
-function computeProductStatus(quantity: number) {
-  return quantity > 20 ? "Available" : quantity > 0 ? "Stock Low" : "Stock Out";
-}
+import { recordMunicipalAssetEvent } from "@/utils/auditLog";
 
 function getClientIp(req: NextApiRequest) {
   const xf = req.headers["x-forwarded-for"];
@@ -29,6 +37,18 @@ function getClientIp(req: NextApiRequest) {
   return typeof ra === "string" ? ra : undefined;
 }
 
+const APPROVAL_SIGNATURE_FIELDS = [
+  "signedAt",
+  "signedByName",
+  "signedByTitle",
+  "signedByUserId",
+  "signedIp",
+  "signedUserAgent",
+  "signedVoidedAt",
+  "signedVoidedReason",
+  "signedVoidedByUserId",
+] as const;
+
 const ensureDir = async (dir: string) => {
   await fs.promises.mkdir(dir, { recursive: true });
 };
@@ -345,7 +365,7 @@ const updateSchema = z.object({
 });
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: REQUEST_API_TOKEN_SCOPES });
   if (!session) {
     return res.status(401).json({ error: "Unauthorized" });
   }
@@ -375,6 +395,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       id: session.id,
       tenantId,
       role: session.role,
+      apiToken: session.apiToken,
     });
     const serviceScopeId = row.requestingServiceId ?? null;
     const can = (key: string) => hasPermission(permissionGrants, key, serviceScopeId);
@@ -442,18 +463,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         id: session.id,
         tenantId,
         role: session.role,
+        apiToken: session.apiToken,
       });
-      const serviceScopeId = (request as any).requestingServiceId ?? null;
-      const canView =
-        request.userId === session.id ||
-        (request as any).createdByUserId === session.id ||
-        hasPermission(permissionGrants, "requests.view", serviceScopeId) ||
-        hasPermission(permissionGrants, "requests.change_status", serviceScopeId) ||
-        hasPermission(permissionGrants, "requests.approve", serviceScopeId) ||
-        hasPermission(permissionGrants, "requests.reject", serviceScopeId) ||
-        hasPermission(permissionGrants, "presidency.approve", serviceScopeId);
-
-      if (!canView) {
+      if (!canViewRequest(permissionGrants, session.id, request)) {
         return res.status(403).json({ error: "Forbidden" });
       }
 
@@ -564,6 +576,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         id: session.id,
         tenantId,
         role: session.role,
+        apiToken: session.apiToken,
       });
       const serviceScopeId = existingBefore.requestingServiceId ?? null;
       const can = (key: string) => hasPermission(permissionGrants, key, serviceScopeId);
@@ -581,18 +594,29 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         return res.status(403).json({ error: "Sem permissão para anular assinatura de levantamento." });
       }
 
+      // Own grants win; a delegated one means the decision is taken on behalf of the delegator.
+      const decidingGrant = (keys: string[]) => {
+        const found = keys
+          .map((key) => findPermissionGrant(permissionGrants, key, serviceScopeId))
+          .filter((grant): grant is NonNullable<typeof grant> => grant !== null);
+        return found.find((grant) => !grant.onBehalfOfUserId) ?? found[0] ?? null;
+      };
+      let onBehalfOfUserId: string | null = null;
+
       if (Object.prototype.hasOwnProperty.call(updateData, "status")) {
         const nextStatus = updateData.status;
-        const canApprove = can("requests.approve") || can("requests.final_approve") || can("presidency.approve");
-        const canReject = can("requests.reject") || can("requests.final_reject") || can("presidency.approve");
+        const approveGrant = decidingGrant(["requests.approve", "requests.final_approve", "presidency.approve"]);
+        const rejectGrant = decidingGrant(["requests.reject", "requests.final_reject", "presidency.approve"]);
         const canChangeStatus = can("requests.change_status");
 
-        if (nextStatus === "APPROVED" && !canApprove) {
+        if (nextStatus === "APPROVED" && !approveGrant) {
           return res.status(403).json({ error: "Sem permissão para aprovar requisição." });
         }
-        if (nextStatus === "REJECTED" && !canReject) {
+        if (nextStatus === "REJECTED" && !rejectGrant) {
           return res.status(403).json({ error: "Sem permissão para rejeitar requisição." });
         }
+        if (nextStatus === "APPROVED") onBehalfOfUserId = approveGrant?.onBehalfOfUserId ?? null;
+        if (nextStatus === "REJECTED") onBehalfOfUserId = rejectGrant?.onBehalfOfUserId ?? null;
         if (nextStatus !== "APPROVED" && nextStatus !== "REJECTED" && !canChangeStatus) {
           return res.status(403).json({ error: "Sem permissão para alterar estado da requisição." });
         }
@@ -775,6 +799,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         updateData.pickupVoidedByUserId = null;
       }
 
+      let quorumPending = false;
       if (
         Object.prototype.hasOwnProperty.call(updateData, "status") &&
         updateData.status &&
@@ -800,18 +825,43 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           requestId: id,
           action,
           actorUserId: session.id,
+          onBehalfOfUserId,
           note: "api/requests/[id]:PATCH",
         });
 
         if (transitioned.moved) {
           delete updateData.status;
+        } else if (transitioned.reason === "QUORUM_PENDING") {
+          // A quorum vote is recorded on the workflow; the request keeps its status, and the
+          // approval signature waits for the vote that completes the quorum.
+          quorumPending = true;
+          delete updateData.status;
+          if (sign) {
+            for (const field of APPROVAL_SIGNATURE_FIELDS) delete updateData[field];
+          }
         } else {
+          if (transitioned.reason === "QUORUM_INVALID") {
+            return res.status(409).json({ error: QUORUM_INVALID_MESSAGE, reason: transitioned.reason });
+          }
+          if (transitioned.reason === "ALREADY_VOTED") {
+            return res.status(409).json({ error: "Já votou neste passo de aprovação." });
+          }
+          if (transitioned.reason === "NOT_A_QUORUM_APPROVER") {
+            return res.status(403).json({ error: "Não é um dos aprovadores deste passo." });
+          }
+          if (transitioned.reason === "GUARD_BLOCKED") {
+            return res.status(409).json({
+              error: explainWorkflowGuardBlock(action, transitioned.blocked),
+              blocked: transitioned.blocked,
+            });
+          }
           return res.status(400).json({
             error: "Transição de workflow inválida para o estado pretendido.",
           });
         }
       }
 
+      const outbox: NotificationOutbox = [];
       const updated = await prisma.$transaction(async (tx) => {
         const txAny = tx as any;
         const updatedRequest = await tx.request.updateMany({
@@ -961,7 +1011,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
               const unit = await txAny.productUnit.findFirst({
                 where: { tenantId, productId: it.productId, code },
-                select: { id: true, status: true, invoiceId: true, assignedToUserId: true },
+                select: { id: true, status: true, invoiceId: true, assignedToUserId: true, warehouseId: true },
               });
 
               if (!unit || unit.status !== "ACQUIRED") {
@@ -974,12 +1024,20 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                 select: { id: true },
               });
 
+              const warehouseStock = await applyWarehouseStockDeltaTx(tx, {
+                tenantId,
+                productId: it.productId,
+                warehouseId: unit.warehouseId ?? null,
+                delta: 1,
+              });
+
               await txAny.stockMovement.create({
                 data: {
                   type: "RETURN",
                   quantity: BigInt(1) as any,
                   tenantId,
                   productId: it.productId,
+                  warehouseId: warehouseStock.warehouseId,
                   unitId: unit.id,
                   invoiceId: unit.invoiceId ?? null,
                   requestId: existingRequest.id,
@@ -990,39 +1048,51 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                 select: { id: true },
               });
 
-              const productAfter = await tx.product.update({
-                where: { id: it.productId },
-                data: { quantity: { increment: BigInt(1) as any } },
-                select: { quantity: true },
-              });
               await tx.product.update({
                 where: { id: it.productId },
-                data: { status: computeProductStatus(Number(productAfter.quantity)) },
+                data: { quantity: { increment: BigInt(1) as any } },
               });
+              await refreshProductStockStatusTx(tx, { tenantId, productId: it.productId, outbox });
             } else {
-              await txAny.stockMovement.create({
-                data: {
-                  type: "IN",
-                  quantity: BigInt(qty) as any,
-                  tenantId,
-                  productId: it.productId,
-                  requestId: existingRequest.id,
-                  performedByUserId: performerUserId,
-                  assignedToUserId,
-                  reason: editReason,
-                },
-                select: { id: true },
+              // Goes back into the lots this request took it from; the rest re-enters unlotted.
+              const warehouse = await ensureDefaultWarehouse(tx, tenantId);
+              const allocations = await returnLotsTx(tx, {
+                tenantId,
+                productId: it.productId,
+                warehouseId: warehouse.id,
+                requestId: existingRequest.id,
+                quantity: qty,
               });
+              for (const allocation of allocations) {
+                await txAny.stockMovement.create({
+                  data: {
+                    type: "IN",
+                    quantity: BigInt(allocation.quantity) as any,
+                    tenantId,
+                    productId: it.productId,
+                    warehouseId: warehouse.id,
+                    lotId: allocation.lotId,
+                    requestId: existingRequest.id,
+                    performedByUserId: performerUserId,
+                    assignedToUserId,
+                    reason: allocation.lotNumber ? `${editReason} (lote ${allocation.lotNumber})` : editReason,
+                  },
+                  select: { id: true },
+                });
+              }
 
-              const productAfter = await tx.product.update({
-                where: { id: it.productId },
-                data: { quantity: { increment: BigInt(qty) as any } },
-                select: { quantity: true },
+              await applyWarehouseStockDeltaTx(tx, {
+                tenantId,
+                productId: it.productId,
+                warehouseId: warehouse.id,
+                delta: qty,
               });
+
               await tx.product.update({
                 where: { id: it.productId },
-                data: { status: computeProductStatus(Number(productAfter.quantity)) },
+                data: { quantity: { increment: BigInt(qty) as any } },
               });
+              await refreshProductStockStatusTx(tx, { tenantId, productId: it.productId, outbox });
             }
           }
 
@@ -1072,7 +1142,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                       code: requestedCode,
                       status: "IN_STOCK",
                     },
-                    select: { id: true, code: true, invoiceId: true },
+                    select: { id: true, code: true, invoiceId: true, warehouseId: true },
                   })
                 : await txAny.productUnit.findFirst({
                     where: {
@@ -1081,7 +1151,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                       status: "IN_STOCK",
                     },
                     orderBy: { createdAt: "asc" },
-                    select: { id: true, code: true, invoiceId: true },
+                    select: { id: true, code: true, invoiceId: true, warehouseId: true },
                   });
 
               if (!unit) {
@@ -1099,12 +1169,20 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                 },
               });
 
+              const warehouseStock = await applyWarehouseStockDeltaTx(tx, {
+                tenantId,
+                productId: item.productId,
+                warehouseId: unit.warehouseId ?? null,
+                delta: -1,
+              });
+
               await txAny.stockMovement.create({
                 data: {
                   type: "OUT",
                   quantity: BigInt(1) as any,
                   tenantId,
                   productId: item.productId,
+                  warehouseId: warehouseStock.warehouseId,
                   unitId: unit.id,
                   invoiceId: unit.invoiceId ?? null,
                   requestId: existingRequest.id,
@@ -1115,15 +1193,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                 select: { id: true },
               });
 
-              const productAfter = await tx.product.update({
-                where: { id: item.productId },
-                data: { quantity: { decrement: BigInt(1) as any } },
-                select: { quantity: true },
-              });
               await tx.product.update({
                 where: { id: item.productId },
-                data: { status: computeProductStatus(Number(productAfter.quantity)) },
+                data: { quantity: { decrement: BigInt(1) as any } },
               });
+              await refreshProductStockStatusTx(tx, { tenantId, productId: item.productId, outbox });
 
               createdItems.push({
                 productId: item.productId,
@@ -1142,29 +1216,44 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                 throw new Error("Stock insuficiente para um dos produtos selecionados.");
               }
 
-              await txAny.stockMovement.create({
-                data: {
-                  type: "OUT",
-                  quantity: BigInt(qty) as any,
-                  tenantId,
-                  productId: item.productId,
-                  requestId: existingRequest.id,
-                  performedByUserId: performerUserId,
-                  assignedToUserId,
-                  reason: stockReason,
-                },
-                select: { id: true },
+              // Lot-tracked consumables leave first-expiry-first-out, one movement per lot picked.
+              const warehouse = await ensureDefaultWarehouse(tx, tenantId);
+              const allocations = await allocateLotsFefoTx(tx, {
+                tenantId,
+                productId: item.productId,
+                warehouseId: warehouse.id,
+                quantity: qty,
               });
+              for (const allocation of allocations) {
+                await txAny.stockMovement.create({
+                  data: {
+                    type: "OUT",
+                    quantity: BigInt(allocation.quantity) as any,
+                    tenantId,
+                    productId: item.productId,
+                    warehouseId: warehouse.id,
+                    lotId: allocation.lotId,
+                    requestId: existingRequest.id,
+                    performedByUserId: performerUserId,
+                    assignedToUserId,
+                    reason: allocation.lotNumber ? `${stockReason} (lote ${allocation.lotNumber})` : stockReason,
+                  },
+                  select: { id: true },
+                });
+              }
 
-              const productAfter = await tx.product.update({
-                where: { id: item.productId },
-                data: { quantity: { decrement: BigInt(qty) as any } },
-                select: { quantity: true },
+              await applyWarehouseStockDeltaTx(tx, {
+                tenantId,
+                productId: item.productId,
+                warehouseId: warehouse.id,
+                delta: -qty,
               });
+
               await tx.product.update({
                 where: { id: item.productId },
-                data: { status: computeProductStatus(Number(productAfter.quantity)) },
+                data: { quantity: { decrement: BigInt(qty) as any } },
               });
+              await refreshProductStockStatusTx(tx, { tenantId, productId: item.productId, outbox });
 
               createdItems.push({
                 productId: item.productId,
@@ -1247,7 +1336,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
                 const unit = await txAny.productUnit.findFirst({
                   where: { tenantId, productId: it.productId, code },
-                  select: { id: true, status: true, invoiceId: true, assignedToUserId: true },
+                  select: { id: true, status: true, invoiceId: true, assignedToUserId: true, warehouseId: true },
                 });
                 if (!unit) {
                   throw new Error("Unidade devolvida não encontrada para reposição de stock.");
@@ -1271,12 +1360,20 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                     select: { id: true },
                   });
 
+                  const warehouseStock = await applyWarehouseStockDeltaTx(tx, {
+                    tenantId,
+                    productId: it.productId,
+                    warehouseId: unit.warehouseId ?? null,
+                    delta: 1,
+                  });
+
                   await txAny.stockMovement.create({
                     data: {
                       type: "RETURN",
                       quantity: BigInt(1) as any,
                       tenantId,
                       productId: it.productId,
+                      warehouseId: warehouseStock.warehouseId,
                       unitId: unit.id,
                       invoiceId: unit.invoiceId ?? null,
                       requestId: finalized.id,
@@ -1287,23 +1384,29 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                     select: { id: true },
                   });
 
-                  const productAfter = await tx.product.update({
-                    where: { id: it.productId },
-                    data: { quantity: { increment: BigInt(1) as any } },
-                    select: { quantity: true },
-                  });
                   await tx.product.update({
                     where: { id: it.productId },
-                    data: { status: computeProductStatus(Number(productAfter.quantity)) },
+                    data: { quantity: { increment: BigInt(1) as any } },
                   });
+                  await refreshProductStockStatusTx(tx, { tenantId, productId: it.productId, outbox });
                 }
               } else {
+                // A return request does not say which delivery (and so which lot) the goods came
+                // from, so they re-enter as unlotted stock and FEFO picks them after the lots.
+                const warehouseStock = await applyWarehouseStockDeltaTx(tx, {
+                  tenantId,
+                  productId: it.productId,
+                  warehouseId: null,
+                  delta: qty,
+                });
+
                 await txAny.stockMovement.create({
                   data: {
                     type: "RETURN",
                     quantity: BigInt(qty) as any,
                     tenantId,
                     productId: it.productId,
+                    warehouseId: warehouseStock.warehouseId,
                     requestId: finalized.id,
                     performedByUserId: session.id,
                     assignedToUserId: finalized.userId,
@@ -1312,15 +1415,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                   select: { id: true },
                 });
 
-                const productAfter = await tx.product.update({
-                  where: { id: it.productId },
-                  data: { quantity: { increment: BigInt(qty) as any } },
-                  select: { quantity: true },
-                });
                 await tx.product.update({
                   where: { id: it.productId },
-                  data: { status: computeProductStatus(Number(productAfter.quantity)) },
+                  data: { quantity: { increment: BigInt(qty) as any } },
                 });
+                await refreshProductStockStatusTx(tx, { tenantId, productId: it.productId, outbox });
               }
             }
           }
@@ -1434,15 +1533,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                 });
                 assetId = createdAsset.id;
 
-                await txAny.municipalAssetEvent.create({
-                  data: {
-                    tenantId,
-                    assetId,
-                    fromStatus: null,
-                    toStatus: nextStatus,
-                    note: `Ativo criado automaticamente no fulfillment da requisição ${finalized.gtmiNumber}`,
-                    actorUserId: session.id,
-                  },
+                await recordMunicipalAssetEvent(txAny, {
+                  tenantId,
+                  assetId: createdAsset.id,
+                  fromStatus: null,
+                  toStatus: nextStatus,
+                  note: `Ativo criado automaticamente no fulfillment da requisição ${finalized.gtmiNumber}`,
+                  actorUserId: session.id,
                 });
               } else {
                 await txAny.municipalAsset.update({
@@ -1460,15 +1557,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                 });
 
                 if (existingAsset.status !== nextStatus) {
-                  await txAny.municipalAssetEvent.create({
-                    data: {
-                      tenantId,
-                      assetId: existingAsset.id,
-                      fromStatus: existingAsset.status,
-                      toStatus: nextStatus,
-                      note: `Estado atualizado automaticamente no fulfillment da requisição ${finalized.gtmiNumber}`,
-                      actorUserId: session.id,
-                    },
+                  await recordMunicipalAssetEvent(txAny, {
+                    tenantId,
+                    assetId: existingAsset.id,
+                    fromStatus: existingAsset.status,
+                    toStatus: nextStatus,
+                    note: `Estado atualizado automaticamente no fulfillment da requisição ${finalized.gtmiNumber}`,
+                    actorUserId: session.id,
                   });
                 }
               }
@@ -1511,6 +1606,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
         return { updatedCount: updatedRequest.count };
       });
+      await publishNotifications(outbox);
 
       if (updated.updatedCount === 0) {
         return res.status(404).json({ error: "Request not found" });
@@ -1569,7 +1665,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           pdfGeneratedApproval = false;
         }
 
-        if (sign) {
+        if (sign && !quorumPending) {
           await deleteSystemRequestApprovalPdfs({
             tenantId,
             requestId: request.id,
@@ -1638,7 +1734,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             });
           }
 
-          publishRealtimeEvent({
+          await publishRealtimeEvent({
             type: "request.status_changed",
             tenantId,
             audience: "ALL",
@@ -1691,13 +1787,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
               const notifyUserIds = Array.from(
                 new Set([linkedTicket.createdByUserId, linkedTicket.assignedToUserId].filter(Boolean) as string[])
               );
-              publishRealtimeEvent({
+              await publishRealtimeEvent({
                 type: "ticket.updated",
                 tenantId,
                 audience: "ADMIN",
                 payload: { ticketId: linkedTicket.id, code: linkedTicket.code, requestId: request.id },
               });
-              publishRealtimeEvent({
+              await publishRealtimeEvent({
                 type: "ticket.message_created",
                 tenantId,
                 audience: "ADMIN",
@@ -1709,14 +1805,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                 },
               });
               for (const uid of notifyUserIds) {
-                publishRealtimeEvent({
+                await publishRealtimeEvent({
                   type: "ticket.updated",
                   tenantId,
                   audience: "USER",
                   userId: uid,
                   payload: { ticketId: linkedTicket.id, code: linkedTicket.code, requestId: request.id },
                 });
-                publishRealtimeEvent({
+                await publishRealtimeEvent({
                   type: "ticket.message_created",
                   tenantId,
                   audience: "USER",
@@ -1740,7 +1836,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             requestId: request.id,
             data: { requestId: request.id, gtmiNumber: request.gtmiNumber },
           });
-          publishRealtimeEvent({
+          await publishRealtimeEvent({
             type: "request.updated",
             tenantId,
             audience: "ALL",
@@ -1783,6 +1879,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         })),
       });
     } catch (error: any) {
+      if (
+        error?.code === "INSUFFICIENT_WAREHOUSE_STOCK" ||
+        error?.code === "INSUFFICIENT_UNEXPIRED_STOCK" ||
+        error?.code === "LOT_CONFLICT"
+      ) {
+        return res.status(409).json({ error: error.message });
+      }
       if (typeof error?.message === "string") {
         if (error.message === "One or more request items were not found") {
           return res.status(400).json({ error: "One or more request items were not found" });
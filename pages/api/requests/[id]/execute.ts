@@ -3,9 +3,24 @@ import { z } from "zod";
 
 import { prisma } from "@/prisma/client";
 import { getSessionServer } from "@/utils/auth";
-import { createRequestStatusAudit, notifyAdmin, notifyUser } from "@/utils/notifications";
+import {
+  createRequestStatusAudit,
+  notifyAdmin,
+  notifyUser,
+  publishNotifications,
+  type NotificationOutbox,
+} from "@/utils/notifications";
 import { publishRealtimeEvent } from "@/utils/realtime";
 import { getUserPermissionGrants, hasPermission } from "@/utils/rbac";
+import {
+  applyWarehouseStockDeltaTx,
+  ensureDefaultWarehouse,
+  getWarehouseStockQuantity,
+  resolveWarehouse,
+} from "@/utils/warehouseStock";
+import { allocateLotsFefoTx } from "@/utils/productLots";
+import { refreshProductStockStatusTx } from "@/utils/stockLevels";
+import { recordMunicipalAssetEvent } from "@/utils/auditLog";
 
 const executeSchema = z.object({
   idempotencyKey: z.string().min(8).max(120),
@@ -13,6 +28,8 @@ const executeSchema = z.object({
   note: z.string().max(1000).optional().nullable(),
   receivedByName: z.string().min(2).max(120).optional().nullable(),
   receivedByTitle: z.string().max(120).optional().nullable(),
+  // Warehouse the goods leave from; defaults to the tenant's default warehouse
+  warehouseId: z.string().uuid().optional().nullable(),
   lines: z
     .array(
       z.object({
@@ -23,10 +40,6 @@ const executeSchema = z.object({
     .optional(),
 });
 
-function computeProductStatus(quantity: number) {
-  return quantity > 20 ? "Available" : quantity > 0 ? "Stock Low" : "Stock Out";
-}
-
 async function generateMunicipalAssetCode(txAny: any, tenantId: string) {
   const year = new Date().getFullYear();
   for (let attempt = 0; attempt < 8; attempt += 1) {
@@ -39,7 +52,7 @@ async function generateMunicipalAssetCode(txAny: any, tenantId: string) {
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["requests.pickup_sign", "requests.change_status", "assets.move"] });
   if (!session) return res.status(401).json({ error: "Unauthorized" });
 
   const requestId = typeof req.query.id === "string" ? req.query.id : "";
@@ -52,6 +65,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     id: session.id,
     tenantId,
     role: session.role,
+    apiToken: session.apiToken,
   });
   const canExecute =
     isAdmin ||
@@ -164,6 +178,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     const lineMap = new Map((payload.lines || []).map((line) => [line.requestItemId, line]));
 
+    const outbox: NotificationOutbox = [];
     const result = await prisma.$transaction(async (tx) => {
       const txAny = tx as any;
 
@@ -182,6 +197,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
       if (!request) throw new Error("Request not found");
 
+      const warehouse = await resolveWarehouse(tx, tenantId, payload.warehouseId);
+      const defaultWarehouse = await ensureDefaultWarehouse(tx, tenantId);
+      const warehouseUnitWhere =
+        warehouse.id === defaultWarehouse.id
+          ? { OR: [{ warehouseId: warehouse.id }, { warehouseId: null }] }
+          : { warehouseId: warehouse.id };
+
       let resolvedLocationId: string | null = null;
       const normalizedDeliveryLocation = request.deliveryLocation?.trim() || null;
       if (normalizedDeliveryLocation) {
@@ -215,21 +237,39 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                   productId: item.productId,
                   code: requestedCode,
                   status: "IN_STOCK",
+                  ...warehouseUnitWhere,
+                },
+                select: {
+                  id: true,
+                  code: true,
+                  status: true,
+                  invoiceId: true,
+                  serialNumber: true,
+                  assetTag: true,
+                  warehouseId: true,
                 },
-                select: { id: true, code: true, status: true, invoiceId: true, serialNumber: true, assetTag: true },
               })
             : await txAny.productUnit.findFirst({
                 where: {
                   tenantId,
                   productId: item.productId,
                   status: "IN_STOCK",
+                  ...warehouseUnitWhere,
                 },
                 orderBy: { createdAt: "asc" },
-                select: { id: true, code: true, status: true, invoiceId: true, serialNumber: true, assetTag: true },
+                select: {
+                  id: true,
+                  code: true,
+                  status: true,
+                  invoiceId: true,
+                  serialNumber: true,
+                  assetTag: true,
+                  warehouseId: true,
+                },
               });
 
           if (!unit) {
-            throw new Error(`Sem unidade em stock para ${item.product.name}`);
+            throw new Error(`Sem unidade em stock para ${item.product.name} no armazém ${warehouse.name}`);
           }
 
           const lockUpdate = await txAny.productUnit.updateMany({
@@ -257,6 +297,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
               unitId: unit.id,
               invoiceId: unit.invoiceId ?? null,
               requestId: request.id,
+              warehouseId: warehouse.id,
               performedByUserId: session.id,
               assignedToUserId: request.userId,
               reason: `Execução armazém ${request.gtmiNumber}`,
@@ -264,15 +305,18 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             },
           });
 
-          const productAfter = await tx.product.update({
-            where: { id: item.productId },
-            data: { quantity: { decrement: BigInt(1) as any } },
-            select: { quantity: true },
+          await applyWarehouseStockDeltaTx(tx, {
+            tenantId,
+            productId: item.productId,
+            warehouseId: warehouse.id,
+            delta: -1,
           });
+
           await tx.product.update({
             where: { id: item.productId },
-            data: { status: computeProductStatus(Number(productAfter.quantity)) },
+            data: { quantity: { decrement: BigInt(1) as any } },
           });
+          await refreshProductStockStatusTx(tx, { tenantId, productId: item.productId, outbox });
 
           if (item.product.isPatrimonializable) {
             const mappedClass = item.product.categoryId
@@ -318,15 +362,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
               });
               assetId = createdAsset.id;
 
-              await txAny.municipalAssetEvent.create({
-                data: {
-                  tenantId,
-                  assetId,
-                  fromStatus: null,
-                  toStatus: nextStatus,
-                  note: `Criação automática via execução de armazém ${request.gtmiNumber}`,
-                  actorUserId: session.id,
-                },
+              await recordMunicipalAssetEvent(txAny, {
+                tenantId,
+                assetId: createdAsset.id,
+                fromStatus: null,
+                toStatus: nextStatus,
+                note: `Criação automática via execução de armazém ${request.gtmiNumber}`,
+                actorUserId: session.id,
               });
             } else {
               await txAny.municipalAsset.update({
@@ -344,15 +386,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
               });
 
               if (existingAsset.status !== nextStatus) {
-                await txAny.municipalAssetEvent.create({
-                  data: {
-                    tenantId,
-                    assetId: existingAsset.id,
-                    fromStatus: existingAsset.status,
-                    toStatus: nextStatus,
-                    note: `Mudança de estado via execução ${request.gtmiNumber}`,
-                    actorUserId: session.id,
-                  },
+                await recordMunicipalAssetEvent(txAny, {
+                  tenantId,
+                  assetId: existingAsset.id,
+                  fromStatus: existingAsset.status,
+                  toStatus: nextStatus,
+                  note: `Mudança de estado via execução ${request.gtmiNumber}`,
+                  actorUserId: session.id,
                 });
               }
             }
@@ -391,35 +431,53 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             }
           }
         } else {
-          const product = await tx.product.findUnique({ where: { id: item.productId }, select: { quantity: true } });
-          const currentQty = Number(product?.quantity ?? BigInt(0));
+          const currentQty = await getWarehouseStockQuantity(tx, {
+            productId: item.productId,
+            warehouseId: warehouse.id,
+          });
           if (currentQty < qty) {
-            throw new Error(`Stock insuficiente para ${item.product.name}`);
+            throw new Error(`Stock insuficiente para ${item.product.name} no armazém ${warehouse.name}`);
           }
 
-          await txAny.stockMovement.create({
-            data: {
-              type: "OUT",
-              quantity: BigInt(qty) as any,
-              tenantId,
-              productId: item.productId,
-              requestId: request.id,
-              performedByUserId: session.id,
-              assignedToUserId: request.userId,
-              reason: `Execução armazém ${request.gtmiNumber}`,
-              notes: payload.documentRef,
-            },
+          // Lot-tracked consumables leave first-expiry-first-out, one movement per lot picked.
+          const allocations = await allocateLotsFefoTx(tx, {
+            tenantId,
+            productId: item.productId,
+            warehouseId: warehouse.id,
+            quantity: qty,
           });
+          for (const allocation of allocations) {
+            await txAny.stockMovement.create({
+              data: {
+                type: "OUT",
+                quantity: BigInt(allocation.quantity) as any,
+                tenantId,
+                productId: item.productId,
+                requestId: request.id,
+                warehouseId: warehouse.id,
+                lotId: allocation.lotId,
+                performedByUserId: session.id,
+                assignedToUserId: request.userId,
+                reason: allocation.lotNumber
+                  ? `Execução armazém ${request.gtmiNumber} (lote ${allocation.lotNumber})`
+                  : `Execução armazém ${request.gtmiNumber}`,
+                notes: payload.documentRef,
+              },
+            });
+          }
 
-          const productAfter = await tx.product.update({
-            where: { id: item.productId },
-            data: { quantity: { decrement: BigInt(qty) as any } },
-            select: { quantity: true },
+          await applyWarehouseStockDeltaTx(tx, {
+            tenantId,
+            productId: item.productId,
+            warehouseId: warehouse.id,
+            delta: -qty,
           });
+
           await tx.product.update({
             where: { id: item.productId },
-            data: { status: computeProductStatus(Number(productAfter.quantity)) },
+            data: { quantity: { decrement: BigInt(qty) as any } },
           });
+          await refreshProductStockStatusTx(tx, { tenantId, productId: item.productId, outbox });
         }
       }
 
@@ -454,6 +512,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
       return { request, executionId: execution.id };
     });
+    await publishNotifications(outbox);
 
     await createRequestStatusAudit({
       tenantId,
@@ -486,7 +545,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       });
     }
 
-    publishRealtimeEvent({
+    await publishRealtimeEvent({
       type: "request.status_changed",
       tenantId,
       audience: "ALL",
@@ -3,8 +3,9 @@ import { z } from "zod";
 
 import { prisma } from "@/prisma/client";
 import { getSessionServer } from "@/utils/auth";
-import { getUserPermissionGrants, hasPermission } from "@/utils/rbac";
-import { transitionRequestWorkflowByAction } from "@/utils/workflow";
+import { findPermissionGrant, getUserPermissionGrants } from "@/utils/rbac";
+import { explainWorkflowGuardBlock, transitionRequestWorkflowByAction } from "@/utils/workflow";
+import { describeWorkflowQuorumProgress, QUORUM_INVALID_MESSAGE } from "@/utils/workflowQuorum";
 
 const schema = z.object({
   decision: z.enum(["APPROVE", "REJECT"]),
@@ -13,7 +14,7 @@ const schema = z.object({
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   const db = prisma as any;
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["presidency.approve"] });
   if (!session) return res.status(401).json({ error: "Unauthorized" });
 
   const requestId = typeof req.query.id === "string" ? req.query.id : "";
@@ -31,9 +32,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     id: session.id,
     tenantId: session.tenantId,
     role: session.role,
+    apiToken: session.apiToken,
   });
-  const canDecide = session.role === "ADMIN" || hasPermission(grants, "presidency.approve");
-  if (!canDecide) return res.status(403).json({ error: "Forbidden" });
+  const grant = session.role === "ADMIN" ? null : findPermissionGrant(grants, "presidency.approve");
+  if (session.role !== "ADMIN" && !grant) return res.status(403).json({ error: "Forbidden" });
+  const onBehalfOfUserId = grant?.onBehalfOfUserId ?? null;
 
   const dispatch = await db.presidencyDispatch.findFirst({
     where: { requestId, tenantId: session.tenantId },
@@ -47,9 +50,32 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     requestId,
     action,
     actorUserId: session.id,
+    onBehalfOfUserId,
     note: parsed.data.note ?? null,
   });
   if (!transition.moved) {
+    if (transition.reason === "QUORUM_PENDING") {
+      // The dispatch is only decided once the quorum is complete.
+      return res.status(202).json({
+        id: dispatch.id,
+        status: dispatch.status,
+        pending: true,
+        message: describeWorkflowQuorumProgress(transition.quorum),
+        quorum: transition.quorum,
+      });
+    }
+    if (transition.reason === "QUORUM_INVALID") {
+      return res.status(409).json({ error: QUORUM_INVALID_MESSAGE, reason: transition.reason });
+    }
+    if (transition.reason === "ALREADY_VOTED") {
+      return res.status(409).json({ error: "Já votou neste passo de aprovação." });
+    }
+    if (transition.reason === "NOT_A_QUORUM_APPROVER") {
+      return res.status(403).json({ error: "Não é um dos aprovadores deste passo." });
+    }
+    if (transition.reason === "GUARD_BLOCKED") {
+      return res.status(409).json({ error: explainWorkflowGuardBlock(action, transition.blocked), blocked: transition.blocked });
+    }
     return res.status(400).json({ error: "Transition not allowed" });
   }
 
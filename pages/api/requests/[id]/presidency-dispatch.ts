@@ -11,7 +11,7 @@ const schema = z.object({
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   const db = prisma as any;
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["requests.approve", "finance.manage", "presidency.approve"] });
   if (!session) return res.status(401).json({ error: "Unauthorized" });
 
   const requestId = typeof req.query.id === "string" ? req.query.id : "";
@@ -29,6 +29,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     id: session.id,
     tenantId: session.tenantId,
     role: session.role,
+    apiToken: session.apiToken,
   });
   const canDispatch =
     session.role === "ADMIN" ||
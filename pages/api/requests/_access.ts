@@ -0,0 +1,25 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { hasPermission, type PermissionGrant } from "@/utils/rbac";
+
+// Who may open a request: its owner or creator, or anyone allowed to review it in its service.
+export function canViewRequest(
+  grants: PermissionGrant[],
+  userId: string,
+  request: { userId: string; createdByUserId: string; requestingServiceId: number | null }
+) {
+  const serviceScopeId = request.requestingServiceId ?? null;
+  return (
+    request.userId === userId ||
+    request.createdByUserId === userId ||
+    hasPermission(grants, "requests.view", serviceScopeId) ||
+    hasPermission(grants, "requests.change_status", serviceScopeId) ||
+    hasPermission(grants, "requests.approve", serviceScopeId) ||
+    hasPermission(grants, "requests.reject", serviceScopeId) ||
+    hasPermission(grants, "presidency.approve", serviceScopeId)
+  );
+}
+
+// This file is also treated as an API route by Next.js because it's under pages/api.
+export default function handler(_req: NextApiRequest, res: NextApiResponse) {
+  return res.status(404).end();
+}
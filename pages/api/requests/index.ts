@@ -202,7 +202,7 @@ async function createRequestWithGtmiSeq(args: {
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["requests.view", "requests.create"] });
   if (!session) {
     return res.status(401).json({ error: "Unauthorized" });
   }
@@ -219,6 +219,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     id: session.id,
     tenantId,
     role: session.role,
+    apiToken: session.apiToken,
   });
 
   // By default, requests are tenant-wide (visible to all users in the tenant).
@@ -575,13 +576,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           data: { requestId: created.id, gtmiNumber: created.gtmiNumber },
         });
 
-        publishRealtimeEvent({
+        await publishRealtimeEvent({
           type: "ticket.updated",
           tenantId,
           audience: "ALL",
           payload: { ticketId: ticket.id, code: ticket.code, requestId: created.id },
         });
-        publishRealtimeEvent({
+        await publishRealtimeEvent({
           type: "ticket.message_created",
           tenantId,
           audience: "ALL",
@@ -629,7 +630,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           });
         }
 
-        publishRealtimeEvent({
+        await publishRealtimeEvent({
           type: "request.created",
           tenantId,
           audience: "ALL",
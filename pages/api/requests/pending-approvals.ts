@@ -1,9 +1,11 @@
 import type { NextApiRequest, NextApiResponse } from "next";
+import { Prisma } from "@prisma/client";
 
 import { prisma } from "@/prisma/client";
 import { getSessionServer } from "@/utils/auth";
 import { getUserPermissionGrants, hasPermission } from "@/utils/rbac";
 import { ensureRequestWorkflowDefinition } from "@/utils/workflow";
+import { loadCurrentWorkflowQuorum, quorumVoterCandidates } from "@/utils/workflowQuorum";
 
 function getAllowedServiceIdsForPermission(args: {
   grants: Array<{ key: string; requestingServiceId: number | null }>;
@@ -24,7 +26,7 @@ function getAllowedServiceIdsForPermission(args: {
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["requests.approve"] });
   if (!session) return res.status(401).json({ error: "Unauthorized" });
   if (req.method !== "GET") {
     res.setHeader("Allow", ["GET"]);
@@ -38,58 +40,97 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     id: session.id,
     tenantId,
     role: session.role,
+    apiToken: session.apiToken,
   });
 
   const approvalScope = getAllowedServiceIdsForPermission({ grants, permissionKey: "requests.approve" });
-  const canApproveAnything = approvalScope.all || approvalScope.ids.length > 0;
-  if (!canApproveAnything && !hasPermission(grants, "requests.approve", null)) {
-    return res.status(403).json({ error: "Forbidden" });
-  }
+  const canApproveAnything =
+    approvalScope.all || approvalScope.ids.length > 0 || hasPermission(grants, "requests.approve", null);
 
-  const instances = await (prisma as any).workflowInstance.findMany({
-    where: {
-      tenantId,
-      requestId: { not: null },
-      currentState: { is: { code: "SUBMITTED" } },
-      request: {
-        is: {
-          tenantId,
-          status: "SUBMITTED",
-          ...(approvalScope.all ? {} : { requestingServiceId: { in: approvalScope.ids } }),
-        },
-      },
-    },
-    orderBy: [{ updatedAt: "asc" }],
-    take: 200,
-    select: {
-      request: {
-        select: {
-          id: true,
-          gtmiNumber: true,
-          status: true,
-          title: true,
-          priority: true,
-          dueAt: true,
-          requestedAt: true,
-          requesterName: true,
-          requestingService: true,
-          requestingServiceId: true,
-          userId: true,
-          createdByUserId: true,
-        },
+  const requestSelect = {
+    id: true,
+    gtmiNumber: true,
+    status: true,
+    title: true,
+    priority: true,
+    dueAt: true,
+    requestedAt: true,
+    requesterName: true,
+    requestingService: true,
+    requestingServiceId: true,
+    userId: true,
+    createdByUserId: true,
+  };
+  const instanceSelect = {
+    id: true,
+    currentStateId: true,
+    currentState: { select: { quorum: true } },
+    request: { select: requestSelect },
+  };
+
+  const [scoped, quorumStates] = await Promise.all([
+    canApproveAnything
+      ? (prisma as any).workflowInstance.findMany({
+          where: {
+            tenantId,
+            requestId: { not: null },
+            currentState: { is: { code: "SUBMITTED" } },
+            request: {
+              is: {
+                tenantId,
+                status: "SUBMITTED",
+                ...(approvalScope.all ? {} : { requestingServiceId: { in: approvalScope.ids } }),
+              },
+            },
+          },
+          orderBy: [{ updatedAt: "asc" }],
+          take: 200,
+          select: instanceSelect,
+        })
+      : [],
+    // Quorum steps name their approvers, who may sit outside the requesting service's scope.
+    (prisma as any).workflowInstance.findMany({
+      where: {
+        tenantId,
+        requestId: { not: null },
+        currentState: { is: { quorum: { not: Prisma.AnyNull } } },
+        request: { is: { tenantId, status: "SUBMITTED" } },
       },
-    },
-  });
+      orderBy: [{ updatedAt: "asc" }],
+      take: 200,
+      select: instanceSelect,
+    }),
+  ]);
+
+  const candidates = quorumVoterCandidates(session.id, grants);
+  const rows: any[] = [];
+  const seen = new Set<string>();
+  const entries = [
+    ...scoped.map((instance: any) => ({ instance, named: false })),
+    ...quorumStates.map((instance: any) => ({ instance, named: true })),
+  ];
+  for (const { instance, named } of entries) {
+    if (!instance.request || seen.has(instance.id)) continue;
+    seen.add(instance.id);
+    const quorum = await loadCurrentWorkflowQuorum(prisma, {
+      tenantId,
+      requestId: instance.request.id,
+      instance,
+      candidates,
+    });
+    if (named && !(quorum && (quorum.voter || quorum.alreadyVoted))) continue;
+    rows.push({ ...instance.request, quorum });
+  }
+
+  if (!canApproveAnything && !rows.length) {
+    return res.status(403).json({ error: "Forbidden" });
+  }
 
   return res.status(200).json(
-    instances
-      .map((i: any) => i.request)
-      .filter(Boolean)
-      .map((r: any) => ({
-        ...r,
-        requestedAt: r.requestedAt.toISOString(),
-        dueAt: r.dueAt ? r.dueAt.toISOString() : null,
-      })),
+    rows.map((r: any) => ({
+      ...r,
+      requestedAt: r.requestedAt.toISOString(),
+      dueAt: r.dueAt ? r.dueAt.toISOString() : null,
+    })),
   );
 }
-
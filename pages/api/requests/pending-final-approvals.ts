@@ -6,7 +6,7 @@ import { getUserPermissionGrants, hasPermission } from "@/utils/rbac";
 import { ensureRequestWorkflowDefinition } from "@/utils/workflow";
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["requests.final_approve", "requests.final_reject"] });
   if (!session) return res.status(401).json({ error: "Unauthorized" });
   if (req.method !== "GET") {
     res.setHeader("Allow", ["GET"]);
@@ -20,6 +20,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     id: session.id,
     tenantId,
     role: session.role,
+    apiToken: session.apiToken,
   });
 
   // Final approvals are global (not scoped by requestingServiceId).
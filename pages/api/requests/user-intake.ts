@@ -190,13 +190,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             data: { requestId: reqRow.id, gtmiNumber: reqRow.gtmiNumber },
           });
 
-          publishRealtimeEvent({
+          await publishRealtimeEvent({
             type: "ticket.updated",
             tenantId,
             audience: "ALL",
             payload: { ticketId: ticket.id, code: ticket.code, requestId: reqRow.id },
           });
-          publishRealtimeEvent({
+          await publishRealtimeEvent({
             type: "ticket.message_created",
             tenantId,
             audience: "ALL",
@@ -260,7 +260,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       },
     });
 
-    publishRealtimeEvent({
+    await publishRealtimeEvent({
       type: "request.created",
       tenantId,
       audience: "ALL",
@@ -7,8 +7,11 @@ const querySchema = z
   .object({
     productId: z.string().uuid().optional(),
     unitId: z.string().uuid().optional(),
+    warehouseId: z.string().uuid().optional(),
+    transferId: z.string().uuid().optional(),
+    stocktakeSessionId: z.string().uuid().optional(),
     type: z
-      .enum(["IN", "OUT", "RETURN", "REPAIR_OUT", "REPAIR_IN", "SCRAP", "LOST"])
+      .enum(["IN", "OUT", "RETURN", "REPAIR_OUT", "REPAIR_IN", "SCRAP", "LOST", "TRANSFER_OUT", "TRANSFER_IN", "ADJUSTMENT"])
       .optional(),
     performedByUserId: z.string().uuid().optional(),
     assignedToUserId: z.string().uuid().optional(),
@@ -59,6 +62,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       tenantId,
       ...(parsed.data.productId ? { productId: parsed.data.productId } : {}),
       ...(parsed.data.unitId ? { unitId: parsed.data.unitId } : {}),
+      ...(parsed.data.warehouseId ? { warehouseId: parsed.data.warehouseId } : {}),
+      ...(parsed.data.transferId ? { transferId: parsed.data.transferId } : {}),
+      ...(parsed.data.stocktakeSessionId ? { stocktakeSessionId: parsed.data.stocktakeSessionId } : {}),
       ...(parsed.data.type ? { type: parsed.data.type } : {}),
       ...(parsed.data.performedByUserId ? { performedByUserId: parsed.data.performedByUserId } : {}),
       ...(parsed.data.assignedToUserId ? { assignedToUserId: parsed.data.assignedToUserId } : {}),
@@ -89,6 +95,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
               { assignedTo: { is: { name: contains(q) } } },
               { assignedTo: { is: { email: contains(q) } } },
               { unit: { is: { code: contains(q) } } },
+              { warehouse: { is: { name: contains(q) } } },
+              { warehouse: { is: { code: contains(q) } } },
             ],
           }
         : {}),
@@ -118,12 +126,19 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         unitId: true,
         invoiceId: true,
         requestId: true,
+        warehouseId: true,
+        counterpartWarehouseId: true,
+        transferId: true,
+        stocktakeSessionId: true,
         product: { select: { id: true, name: true, sku: true } },
         unit: { select: { code: true } },
         invoice: { select: { id: true, invoiceNumber: true, reqNumber: true } },
         request: { select: { id: true, title: true } },
         performedBy: { select: { id: true, name: true, email: true } },
         assignedTo: { select: { id: true, name: true, email: true } },
+        warehouse: { select: { id: true, code: true, name: true } },
+        counterpartWarehouse: { select: { id: true, code: true, name: true } },
+        stocktakeSession: { select: { id: true, number: true } },
       },
     });
 
@@ -0,0 +1,265 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import crypto from "crypto";
+import { prisma } from "@/prisma/client";
+import { getSessionServer } from "@/utils/auth";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { logInfo } from "@/utils/logger";
+import { allocateLotsFefoTx, receiveLotTx } from "@/utils/productLots";
+import { getUserPermissionGrants, hasPermission } from "@/utils/rbac";
+import {
+  applyWarehouseStockDeltaTx,
+  ensureDefaultWarehouse,
+  resolveWarehouse,
+  resolveWarehouseBin,
+} from "@/utils/warehouseStock";
+
+const bodySchema = z
+  .object({
+    productId: z.string().uuid(),
+    fromWarehouseId: z.string().uuid(),
+    toWarehouseId: z.string().uuid(),
+    toBinId: z.string().uuid().optional().nullable(),
+    quantity: z.number().int().positive().optional(),
+    unitCodes: z.array(z.string().uuid()).min(1).max(500).optional(),
+    reason: z.string().trim().max(200).optional().nullable(),
+    notes: z.string().trim().max(2000).optional().nullable(),
+  })
+  .refine((v) => Boolean(v.quantity) || Boolean(v.unitCodes?.length), {
+    message: "quantity or unitCodes is required",
+  });
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["assets.move"] });
+  if (!session) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const tenantId = session.tenantId;
+  const grants = await getUserPermissionGrants(prisma, { id: session.id, tenantId, role: session.role, apiToken: session.apiToken });
+  if (session.role !== "ADMIN" && !hasPermission(grants, "assets.move")) {
+    return res.status(403).json({ error: "Forbidden" });
+  }
+
+  const parsed = bodySchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request body" });
+  }
+
+  const { productId, fromWarehouseId, toWarehouseId, toBinId, unitCodes, reason, notes } = parsed.data;
+  if (fromWarehouseId === toWarehouseId) {
+    return res.status(400).json({ error: "Origem e destino têm de ser armazéns diferentes" });
+  }
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const txAny = tx as any;
+
+      const product = await tx.product.findFirst({
+        where: { id: productId, tenantId },
+        select: { id: true, name: true, sku: true },
+      });
+      if (!product) {
+        throw Object.assign(new Error("Product not found"), { code: "PRODUCT_NOT_FOUND" });
+      }
+
+      const [from, to, defaultWarehouse] = await Promise.all([
+        resolveWarehouse(tx, tenantId, fromWarehouseId),
+        resolveWarehouse(tx, tenantId, toWarehouseId),
+        ensureDefaultWarehouse(tx, tenantId),
+      ]);
+      const bin = await resolveWarehouseBin(tx, tenantId, to.id, toBinId);
+
+      // Units without a warehouse predate multi-warehouse and live in the default one.
+      const fromUnitWhere =
+        from.id === defaultWarehouse.id
+          ? { OR: [{ warehouseId: from.id }, { warehouseId: null }] }
+          : { warehouseId: from.id };
+
+      const unitCount = Number(await txAny.productUnit.count({ where: { tenantId, productId } }));
+      let units: Array<{ id: string; code: string; invoiceId: string | null }> = [];
+
+      if (unitCodes?.length) {
+        units = await txAny.productUnit.findMany({
+          where: { tenantId, productId, code: { in: unitCodes }, status: "IN_STOCK", ...fromUnitWhere },
+          select: { id: true, code: true, invoiceId: true },
+        });
+        if (units.length !== new Set(unitCodes).size) {
+          throw Object.assign(new Error("Algumas unidades não estão em stock no armazém de origem"), {
+            code: "UNITS_NOT_AVAILABLE",
+          });
+        }
+      } else if (unitCount > 0) {
+        units = await txAny.productUnit.findMany({
+          where: { tenantId, productId, status: "IN_STOCK", ...fromUnitWhere },
+          orderBy: { createdAt: "asc" },
+          take: parsed.data.quantity,
+          select: { id: true, code: true, invoiceId: true },
+        });
+        if (units.length < (parsed.data.quantity ?? 0)) {
+          throw Object.assign(new Error("Unidades insuficientes no armazém de origem"), {
+            code: "UNITS_NOT_AVAILABLE",
+          });
+        }
+      }
+
+      const quantity = units.length || parsed.data.quantity!;
+      const transferId = crypto.randomUUID();
+
+      // Lots travel with bulk stock, expired ones included (e.g. moving them to quarantine).
+      const allocations = units.length
+        ? []
+        : await allocateLotsFefoTx(tx, {
+            tenantId,
+            productId,
+            warehouseId: from.id,
+            quantity,
+            includeExpired: true,
+          });
+
+      const fromBalance = await applyWarehouseStockDeltaTx(tx, {
+        tenantId,
+        productId,
+        warehouseId: from.id,
+        delta: -quantity,
+      });
+      const toBalance = await applyWarehouseStockDeltaTx(tx, {
+        tenantId,
+        productId,
+        warehouseId: to.id,
+        delta: quantity,
+      });
+
+      const baseMovement = {
+        tenantId,
+        productId,
+        transferId,
+        performedByUserId: session.id,
+        reason: reason || `Transferência ${from.code} → ${to.code}`,
+        notes: notes ?? null,
+      };
+
+      if (units.length) {
+        await txAny.productUnit.updateMany({
+          where: { id: { in: units.map((u) => u.id) } },
+          data: { warehouseId: to.id, binId: bin?.id ?? null },
+        });
+
+        for (const unit of units) {
+          await txAny.stockMovement.createMany({
+            data: [
+              {
+                ...baseMovement,
+                type: "TRANSFER_OUT",
+                quantity: BigInt(1) as any,
+                unitId: unit.id,
+                invoiceId: unit.invoiceId,
+                warehouseId: from.id,
+                counterpartWarehouseId: to.id,
+              },
+              {
+                ...baseMovement,
+                type: "TRANSFER_IN",
+                quantity: BigInt(1) as any,
+                unitId: unit.id,
+                invoiceId: unit.invoiceId,
+                warehouseId: to.id,
+                counterpartWarehouseId: from.id,
+              },
+            ],
+          });
+        }
+      } else {
+        for (const allocation of allocations) {
+          const toLot = allocation.lotNumber
+            ? await receiveLotTx(tx, {
+                tenantId,
+                productId,
+                warehouseId: to.id,
+                lotNumber: allocation.lotNumber,
+                expiresAt: allocation.expiresAt,
+                quantity: allocation.quantity,
+              })
+            : null;
+
+          await txAny.stockMovement.createMany({
+            data: [
+              {
+                ...baseMovement,
+                type: "TRANSFER_OUT",
+                quantity: BigInt(allocation.quantity) as any,
+                lotId: allocation.lotId,
+                warehouseId: from.id,
+                counterpartWarehouseId: to.id,
+              },
+              {
+                ...baseMovement,
+                type: "TRANSFER_IN",
+                quantity: BigInt(allocation.quantity) as any,
+                lotId: toLot?.id ?? null,
+                warehouseId: to.id,
+                counterpartWarehouseId: from.id,
+              },
+            ],
+          });
+        }
+      }
+
+      return {
+        transferId,
+        product,
+        quantity,
+        unitCodes: units.map((u) => u.code),
+        from: { ...from, quantity: fromBalance.quantity, status: fromBalance.status },
+        to: { ...to, quantity: toBalance.quantity, status: toBalance.status },
+      };
+    });
+
+    await logUserAdminAction({
+      tenantId,
+      actorUserId: session.id,
+      action: "STOCK_TRANSFER",
+      note: `Transferência de ${result.quantity} x ${result.product.sku}: ${result.from.code} → ${result.to.code}`,
+      payload: {
+        transferId: result.transferId,
+        productId,
+        quantity: result.quantity,
+        fromWarehouseId: result.from.id,
+        toWarehouseId: result.to.id,
+        unitCount: result.unitCodes.length,
+      },
+    });
+    logInfo("Stock transferred", { tenantId, userId: session.id, transferId: result.transferId }, req);
+
+    return res.status(201).json(result);
+  } catch (error: any) {
+    if (error?.code === "PRODUCT_NOT_FOUND") {
+      return res.status(404).json({ error: "Product not found" });
+    }
+    if (
+      error?.code === "INVALID_WAREHOUSE" ||
+      error?.code === "INVALID_BIN" ||
+      error?.code === "UNITS_NOT_AVAILABLE" ||
+      error?.code === "INSUFFICIENT_WAREHOUSE_STOCK" ||
+      error?.code === "INSUFFICIENT_UNEXPIRED_STOCK"
+    ) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error?.code === "LOT_EXPIRY_MISMATCH" || error?.code === "LOT_CONFLICT") {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error("POST /api/stock-movements/transfer error:", error);
+    return res.status(500).json({ error: "Failed to transfer stock" });
+  }
+}
+
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+};
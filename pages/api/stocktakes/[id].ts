@@ -0,0 +1,70 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { getStocktakeSession, transitionStocktakeSession } from "@/utils/stocktake";
+import { getStocktakeAccess } from "./_access";
+
+const updateSchema = z.object({
+  // SUBMIT: OPEN -> SUBMITTED for approval; REOPEN: back to counting; CANCEL: discard without adjustments.
+  action: z.enum(["SUBMIT", "REOPEN", "CANCEL"]),
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const access = await getStocktakeAccess(req, res);
+  if (!access) return;
+  const { session, canCount, canApprove, canView } = access;
+  const tenantId = session.tenantId;
+
+  const id = typeof req.query.id === "string" ? req.query.id : "";
+  if (!id) return res.status(400).json({ error: "Invalid id" });
+
+  if (req.method === "GET") {
+    if (!canView) return res.status(403).json({ error: "Forbidden" });
+
+    const row = await getStocktakeSession(tenantId, id);
+    if (!row) return res.status(404).json({ error: "Not found" });
+
+    return res.status(200).json(row);
+  }
+
+  if (req.method === "PATCH") {
+    const parsed = updateSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: "Invalid body", details: parsed.error.flatten() });
+    const { action } = parsed.data;
+
+    // Approvers may send a submitted count back for recounting.
+    if (!canCount && !(action === "REOPEN" && canApprove)) return res.status(403).json({ error: "Forbidden" });
+
+    try {
+      const updated = await transitionStocktakeSession(tenantId, id, action, { userId: session.id });
+
+      await logUserAdminAction({
+        tenantId,
+        actorUserId: session.id,
+        action: `STOCKTAKE_${action}`,
+        note: `Inventário ${updated.number}: ${updated.status}`,
+        payload: { stocktakeId: id, toStatus: updated.status, summary: updated.summary },
+      });
+
+      return res.status(200).json(updated);
+    } catch (error: any) {
+      if (error?.code === "STOCKTAKE_NOT_FOUND") {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error?.code === "INVALID_STOCKTAKE_TRANSITION" || error?.code === "STOCKTAKE_INCOMPLETE") {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("PATCH /api/stocktakes/[id] error:", error);
+      return res.status(500).json({ error: "Failed to update stocktake" });
+    }
+  }
+
+  res.setHeader("Allow", ["GET", "PATCH"]);
+  return res.status(405).json({ error: "Method Not Allowed" });
+}
+
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+};
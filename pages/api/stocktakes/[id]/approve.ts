@@ -0,0 +1,60 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { logInfo } from "@/utils/logger";
+import { approveStocktakeSession } from "@/utils/stocktake";
+import { getStocktakeAccess } from "../_access";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const access = await getStocktakeAccess(req, res);
+  if (!access) return;
+  const { session, canApprove } = access;
+  if (!canApprove) return res.status(403).json({ error: "Forbidden" });
+
+  const id = typeof req.query.id === "string" ? req.query.id : "";
+  if (!id) return res.status(400).json({ error: "Invalid id" });
+
+  try {
+    const result = await approveStocktakeSession(session.tenantId, id, { approvedByUserId: session.id });
+
+    await logUserAdminAction({
+      tenantId: session.tenantId,
+      actorUserId: session.id,
+      action: "STOCKTAKE_APPROVE",
+      note: `Inventário ${result.number} aprovado: ${result.movementCount} ajuste(s) lançados`,
+      payload: {
+        stocktakeId: id,
+        movementCount: result.movementCount,
+        adjustments: result.adjustments,
+        summary: result.session.summary,
+      },
+    });
+    logInfo("Stocktake approved", { tenantId: session.tenantId, userId: session.id, stocktakeId: id }, req);
+
+    return res.status(200).json(result);
+  } catch (error: any) {
+    if (error?.code === "STOCKTAKE_NOT_FOUND") {
+      return res.status(404).json({ error: error.message });
+    }
+    if (
+      error?.code === "INVALID_STOCKTAKE_TRANSITION" ||
+      error?.code === "INSUFFICIENT_WAREHOUSE_STOCK" ||
+      error?.code === "INSUFFICIENT_UNEXPIRED_STOCK" ||
+      error?.code === "LOT_CONFLICT"
+    ) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error("POST /api/stocktakes/[id]/approve error:", error);
+    return res.status(500).json({ error: "Failed to approve stocktake" });
+  }
+}
+
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+};
@@ -0,0 +1,70 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { recordStocktakeCounts } from "@/utils/stocktake";
+import { getStocktakeAccess } from "../_access";
+
+const entrySchema = z.union([
+  z.object({
+    unitCode: z.string().uuid(),
+    // false undoes a mistaken scan.
+    counted: z.boolean().optional(),
+  }),
+  z.object({
+    productId: z.string().uuid(),
+    quantity: z.number().int().min(0).max(1_000_000),
+    notes: z.string().trim().max(500).optional().nullable(),
+  }),
+]);
+
+const bodySchema = z.object({
+  entries: z.array(entrySchema).min(1).max(500),
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const access = await getStocktakeAccess(req, res);
+  if (!access) return;
+  const { session, canCount } = access;
+  if (!canCount) return res.status(403).json({ error: "Forbidden" });
+
+  const id = typeof req.query.id === "string" ? req.query.id : "";
+  if (!id) return res.status(400).json({ error: "Invalid id" });
+
+  const parsed = bodySchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid body", details: parsed.error.flatten() });
+
+  try {
+    const updated = await recordStocktakeCounts(session.tenantId, id, parsed.data.entries, {
+      countedByUserId: session.id,
+    });
+    return res.status(200).json(updated);
+  } catch (error: any) {
+    if (error?.code === "STOCKTAKE_NOT_FOUND" || error?.code === "UNIT_NOT_FOUND") {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error?.code === "INVALID_PRODUCT") {
+      return res.status(400).json({ error: error.message });
+    }
+    if (
+      error?.code === "STOCKTAKE_NOT_OPEN" ||
+      error?.code === "UNIT_OUT_OF_SCOPE" ||
+      error?.code === "UNIT_NOT_COUNTABLE" ||
+      error?.code === "PRODUCT_OUT_OF_SCOPE" ||
+      error?.code === "STOCKTAKE_LINE_TRACKS_UNITS"
+    ) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error("POST /api/stocktakes/[id]/counts error:", error);
+    return res.status(500).json({ error: "Failed to record counts" });
+  }
+}
+
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+};
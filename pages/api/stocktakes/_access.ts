@@ -0,0 +1,31 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "@/prisma/client";
+import { getSessionServer } from "@/utils/auth";
+import { getUserPermissionGrants, hasPermission } from "@/utils/rbac";
+
+// Shared session + permission lookup for the stocktake routes.
+export async function getStocktakeAccess(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["stocktake.count", "stocktake.approve", "assets.view", "assets.manage"] });
+  if (!session) {
+    res.status(401).json({ error: "Unauthorized" });
+    return null;
+  }
+
+  const grants = await getUserPermissionGrants(prisma, {
+    id: session.id,
+    tenantId: session.tenantId,
+    role: session.role,
+    apiToken: session.apiToken,
+  });
+  const canCount = session.role === "ADMIN" || hasPermission(grants, "stocktake.count");
+  const canApprove = session.role === "ADMIN" || hasPermission(grants, "stocktake.approve");
+  const canView =
+    canCount || canApprove || hasPermission(grants, "assets.view") || hasPermission(grants, "assets.manage");
+
+  return { session, canCount, canApprove, canView };
+}
+
+// This file is also treated as an API route by Next.js because it's under pages/api.
+export default function handler(_req: NextApiRequest, res: NextApiResponse) {
+  return res.status(404).end();
+}
@@ -0,0 +1,107 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { prisma } from "@/prisma/client";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { createStocktakeSession } from "@/utils/stocktake";
+import { getStocktakeAccess } from "./_access";
+
+const createSchema = z.object({
+  warehouseId: z.string().uuid().optional().nullable(),
+  categoryId: z.string().uuid().optional().nullable(),
+  title: z.string().trim().max(200).optional().nullable(),
+  notes: z.string().trim().max(2000).optional().nullable(),
+});
+
+const STATUSES = ["OPEN", "SUBMITTED", "APPROVED", "CANCELLED"] as const;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const access = await getStocktakeAccess(req, res);
+  if (!access) return;
+  const { session, canCount, canView } = access;
+  const tenantId = session.tenantId;
+
+  if (req.method === "GET") {
+    if (!canView) return res.status(403).json({ error: "Forbidden" });
+
+    const status = typeof req.query.status === "string" ? req.query.status : "";
+    const warehouseId = typeof req.query.warehouseId === "string" ? req.query.warehouseId : "";
+
+    const rows = await (prisma as any).stocktakeSession.findMany({
+      where: {
+        tenantId,
+        ...((STATUSES as readonly string[]).includes(status) ? { status } : {}),
+        ...(warehouseId ? { warehouseId } : {}),
+      },
+      orderBy: { createdAt: "desc" },
+      take: 200,
+      include: {
+        warehouse: { select: { id: true, code: true, name: true } },
+        category: { select: { id: true, name: true } },
+        createdBy: { select: { id: true, name: true } },
+        approvedBy: { select: { id: true, name: true } },
+        _count: { select: { lines: true } },
+      },
+    });
+
+    return res.status(200).json(
+      rows.map((row: any) => ({
+        id: row.id,
+        number: row.number,
+        status: row.status,
+        title: row.title,
+        warehouse: row.warehouse,
+        category: row.category,
+        createdBy: row.createdBy,
+        approvedBy: row.approvedBy,
+        lineCount: row._count.lines,
+        createdAt: row.createdAt.toISOString(),
+        submittedAt: row.submittedAt ? row.submittedAt.toISOString() : null,
+        approvedAt: row.approvedAt ? row.approvedAt.toISOString() : null,
+      }))
+    );
+  }
+
+  if (req.method === "POST") {
+    if (!canCount) return res.status(403).json({ error: "Forbidden" });
+
+    const parsed = createSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: "Invalid body", details: parsed.error.flatten() });
+
+    try {
+      const created = await createStocktakeSession(tenantId, parsed.data, { createdByUserId: session.id });
+
+      await logUserAdminAction({
+        tenantId,
+        actorUserId: session.id,
+        action: "STOCKTAKE_CREATE",
+        note: `Inventário ${created.number} aberto em ${created.warehouse.name}`,
+        payload: {
+          stocktakeId: created.id,
+          warehouseId: created.warehouse.id,
+          categoryId: created.category?.id ?? null,
+          lineCount: created.summary.lineCount,
+        },
+      });
+
+      return res.status(201).json(created);
+    } catch (error: any) {
+      if (error?.code === "INVALID_WAREHOUSE" || error?.code === "INVALID_CATEGORY") {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error?.code === "STOCKTAKE_ALREADY_OPEN") {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("POST /api/stocktakes error:", error);
+      return res.status(500).json({ error: "Failed to create stocktake" });
+    }
+  }
+
+  res.setHeader("Allow", ["GET", "POST"]);
+  return res.status(405).json({ error: "Method Not Allowed" });
+}
+
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+};
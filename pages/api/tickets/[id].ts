@@ -71,7 +71,7 @@ function serializeTicket(t: any) {
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["tickets.manage"] });
   if (!session) return res.status(401).json({ error: "Unauthorized" });
 
   const id = typeof req.query.id === "string" ? req.query.id : "";
@@ -341,14 +341,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       }
 
       const notifyUserIds = Array.from(new Set([updated.createdBy?.id, updated.assignedTo?.id].filter(Boolean) as string[]));
-      publishRealtimeEvent({
+      await publishRealtimeEvent({
         type: "ticket.updated",
         tenantId: session.tenantId,
         audience: "ADMIN",
         payload: { ticketId: updated.id, code: current.code },
       });
       for (const uid of notifyUserIds) {
-        publishRealtimeEvent({
+        await publishRealtimeEvent({
           type: "ticket.updated",
           tenantId: session.tenantId,
           audience: "USER",
@@ -21,7 +21,7 @@ function extractMentions(body: string): string[] {
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["tickets.manage"] });
   if (!session) return res.status(401).json({ error: "Unauthorized" });
 
   await applyTicketSlaEscalations(session.tenantId);
@@ -162,14 +162,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       const notifyUserIds = Array.from(
         new Set([ticket.createdByUserId, ticket.assignedToUserId, ...participantRows.map((p) => p.userId)].filter(Boolean) as string[])
       );
-      publishRealtimeEvent({
+      await publishRealtimeEvent({
         type: "ticket.message_created",
         tenantId: session.tenantId,
         audience: "ADMIN",
         payload: { ticketId: ticket.id, messageId: message.id, code: ticket.code, authorUserId: session.id },
       });
       for (const uid of notifyUserIds) {
-        publishRealtimeEvent({
+        await publishRealtimeEvent({
           type: "ticket.message_created",
           tenantId: session.tenantId,
           audience: "USER",
@@ -13,7 +13,7 @@ const removeSchema = z.object({
 });
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["tickets.manage"] });
   if (!session) return res.status(401).json({ error: "Unauthorized" });
 
   const ticketId = typeof req.query.id === "string" ? req.query.id : "";
@@ -117,14 +117,14 @@ export async function applyTicketSlaEscalations(tenantId: string) {
     });
 
     const notifyUserIds = Array.from(new Set([ticket.createdByUserId, ticket.assignedToUserId].filter(Boolean) as string[]));
-    publishRealtimeEvent({
+    await publishRealtimeEvent({
       type: "ticket.escalated",
       tenantId: ticket.tenantId,
       audience: "ADMIN",
       payload: { ticketId: ticket.id, ticketCode: ticket.code, level: newLevel, reason },
     });
     for (const uid of notifyUserIds) {
-      publishRealtimeEvent({
+      await publishRealtimeEvent({
         type: "ticket.escalated",
         tenantId: ticket.tenantId,
         audience: "USER",
@@ -1,7 +1,9 @@
 import { prisma } from "@/prisma/client";
 import type { TicketLevel, TicketPriority } from "@prisma/client";
 import type { NextApiRequest, NextApiResponse } from "next";
+import type { ApiTokenContext } from "@/utils/apiTokens";
 import { getUserPermissionGrants, hasPermission } from "@/utils/rbac";
+import { recordTicketAudit } from "@/utils/auditLog";
 
 export function inferLevelFromPriority(priority: TicketPriority): TicketLevel {
   if (priority === "CRITICAL") return "L3";
@@ -31,8 +33,18 @@ export function canAccessTicket(session: { role?: string; id: string }, ticket:
   return ticket.createdByUserId === session.id || ticket.assignedToUserId === session.id;
 }
 
-export async function getTicketPermissionGrants(session: { id: string; tenantId: string; role?: any }) {
-  return getUserPermissionGrants(prisma, { id: session.id, tenantId: session.tenantId, role: session.role });
+export async function getTicketPermissionGrants(session: {
+  id: string;
+  tenantId: string;
+  role?: any;
+  apiToken?: ApiTokenContext | null;
+}) {
+  return getUserPermissionGrants(prisma, {
+    id: session.id,
+    tenantId: session.tenantId,
+    role: session.role,
+    apiToken: session.apiToken,
+  });
 }
 
 export function isTicketManager(grants: Array<{ key: string; requestingServiceId: number | null }>) {
@@ -59,15 +71,13 @@ export async function createTicketAudit(args: {
   note?: string | null;
   data?: Record<string, unknown> | null;
 }) {
-  return prisma.ticketAudit.create({
-    data: {
-      tenantId: args.tenantId,
-      ticketId: args.ticketId,
-      actorUserId: args.actorUserId ?? null,
-      action: args.action,
-      note: args.note ?? null,
-      data: (args.data as any) ?? undefined,
-    },
+  return recordTicketAudit(prisma, {
+    tenantId: args.tenantId,
+    ticketId: args.ticketId,
+    actorUserId: args.actorUserId ?? null,
+    action: args.action,
+    note: args.note ?? null,
+    data: (args.data as any) ?? undefined,
   });
 }
 
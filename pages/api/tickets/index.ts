@@ -22,7 +22,7 @@ const createTicketSchema = z.object({
 });
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["tickets.manage"] });
   if (!session) return res.status(401).json({ error: "Unauthorized" });
 
   const tenantId = session.tenantId;
@@ -195,14 +195,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       });
 
       const targetUserIds = Array.from(new Set([session.id, assignedToUserId].filter(Boolean) as string[]));
-      publishRealtimeEvent({
+      await publishRealtimeEvent({
         type: "ticket.created",
         tenantId,
         audience: "ADMIN",
         payload: { ticketId: ticket.id, code: ticket.code, createdByUserId: session.id, assignedToUserId: assignedToUserId ?? null },
       });
       for (const uid of targetUserIds) {
-        publishRealtimeEvent({
+        await publishRealtimeEvent({
           type: "ticket.created",
           tenantId,
           audience: "USER",
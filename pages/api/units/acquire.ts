@@ -4,6 +4,9 @@ import { prisma } from "@/prisma/client";
 import { getSessionServer } from "@/utils/auth";
 import { logUserAdminAction } from "@/utils/adminAudit";
 import { logInfo } from "@/utils/logger";
+import { applyWarehouseStockDeltaTx } from "@/utils/warehouseStock";
+import { refreshProductStockStatusTx } from "@/utils/stockLevels";
+import { publishNotifications, type NotificationOutbox } from "@/utils/notifications";
 
 const bodySchema = z.object({
   code: z.string().uuid(),
@@ -35,6 +38,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   const { code, assignedToUserId, reason, costCenter, notes } = parsed.data;
 
   try {
+    const outbox: NotificationOutbox = [];
     const updated = await prisma.$transaction(async (tx) => {
       const txAny = tx as any;
       const unit = await txAny.productUnit.findFirst({
@@ -45,6 +49,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           productId: true,
           tenantId: true,
           invoiceId: true,
+          warehouseId: true,
           invoice: {
             select: {
               requestId: true,
@@ -92,6 +97,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         },
       });
 
+      const warehouseStock = await applyWarehouseStockDeltaTx(tx, {
+        tenantId,
+        productId: unit.productId,
+        warehouseId: unit.warehouseId,
+        delta: -1,
+      });
+
       // Audit trail
       await txAny.stockMovement.create({
         data: {
@@ -102,6 +114,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           unitId: unit.id,
           invoiceId: unit.invoiceId,
           requestId: unit.invoice?.requestId ?? null,
+          warehouseId: warehouseStock.warehouseId,
           performedByUserId: requestingUserId,
           assignedToUserId: assignedToUserId ?? null,
           reason: reason ?? null,
@@ -112,7 +125,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       });
 
       // Decrement aggregate stock
-      const product = await tx.product.update({
+      await tx.product.update({
         where: { id: unit.productId },
         data: {
           quantity: { decrement: BigInt(1) as any },
@@ -120,12 +133,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         select: { id: true, quantity: true },
       });
 
-      const finalQuantity = Number(product.quantity);
-      const finalStatus = finalQuantity > 20 ? "Available" : finalQuantity > 0 ? "Stock Low" : "Stock Out";
-
-      await tx.product.update({
-        where: { id: unit.productId },
-        data: { status: finalStatus },
+      const { quantity: finalQuantity, status: finalStatus } = await refreshProductStockStatusTx(tx, {
+        tenantId,
+        productId: unit.productId,
+        outbox,
       });
 
       return {
@@ -135,8 +146,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           acquiredAt: unitUpdated.acquiredAt ? unitUpdated.acquiredAt.toISOString() : null,
         },
         product: { id: unit.productId, quantity: finalQuantity, status: finalStatus },
+        warehouse: warehouseStock,
       };
     });
+    await publishNotifications(outbox);
 
     if (updated.kind === "not_found") return res.status(404).json({ error: "Unit not found" });
     if (updated.kind === "forbidden") return res.status(403).json({ error: "Forbidden" });
@@ -158,7 +171,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     logInfo("Unit acquired", { tenantId: session.tenantId, userId: session.id, code }, req);
 
     return res.status(200).json(updated);
-  } catch (error) {
+  } catch (error: any) {
+    if (error?.code === "INSUFFICIENT_WAREHOUSE_STOCK") {
+      return res.status(409).json({ error: error.message });
+    }
     console.error("POST /api/units/acquire error:", error);
     return res.status(500).json({ error: "Failed to acquire unit" });
   }
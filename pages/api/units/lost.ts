@@ -4,6 +4,9 @@ import { prisma } from "@/prisma/client";
 import { getSessionServer } from "@/utils/auth";
 import { logUserAdminAction } from "@/utils/adminAudit";
 import { logInfo, logWarn } from "@/utils/logger";
+import { applyWarehouseStockDeltaTx } from "@/utils/warehouseStock";
+import { refreshProductStockStatusTx } from "@/utils/stockLevels";
+import { publishNotifications, type NotificationOutbox } from "@/utils/notifications";
 
 const bodySchema = z.object({
   code: z.string().uuid(),
@@ -13,9 +16,6 @@ const bodySchema = z.object({
   notes: z.string().trim().max(2000).optional().nullable(),
 });
 
-const computeProductStatus = (quantity: number) =>
-  quantity > 20 ? "Available" : quantity > 0 ? "Stock Low" : "Stock Out";
-
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   const session = await getSessionServer(req, res);
   if (!session) {
@@ -49,6 +49,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   const { code, reason, costCenter, notes } = parsed.data;
 
   try {
+    const outbox: NotificationOutbox = [];
     const result = await prisma.$transaction(async (tx) => {
       const txAny = tx as any;
       const unit = await txAny.productUnit.findFirst({
@@ -59,6 +60,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           tenantId: true,
           productId: true,
           invoiceId: true,
+          warehouseId: true,
           assignedToUserId: true,
           invoice: { select: { requestId: true } },
         },
@@ -90,6 +92,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           unitId: unit.id,
           invoiceId: unit.invoiceId,
           requestId: unit.invoice?.requestId ?? null,
+          warehouseId: unit.warehouseId ?? null,
           performedByUserId,
           assignedToUserId: unit.assignedToUserId ?? null,
           reason: reason ?? null,
@@ -100,18 +103,23 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       });
 
       if (shouldDecrement) {
-        const product = await tx.product.update({
+        await applyWarehouseStockDeltaTx(tx, {
+          tenantId,
+          productId: unit.productId,
+          warehouseId: unit.warehouseId,
+          delta: -1,
+        });
+
+        await tx.product.update({
           where: { id: unit.productId },
           data: { quantity: { decrement: BigInt(1) as any } },
           select: { id: true, quantity: true },
         });
 
-        const finalQuantity = Number(product.quantity);
-        const finalStatus = computeProductStatus(finalQuantity);
-
-        await tx.product.update({
-          where: { id: unit.productId },
-          data: { status: finalStatus },
+        const { quantity: finalQuantity, status: finalStatus } = await refreshProductStockStatusTx(tx, {
+          tenantId,
+          productId: unit.productId,
+          outbox,
         });
 
         return {
@@ -134,6 +142,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           : { id: unit.productId, quantity: 0, status: "" },
       };
     });
+    await publishNotifications(outbox);
 
     if (result.kind === "not_found") return res.status(404).json({ error: "Unit not found" });
     if (result.kind === "forbidden") return res.status(403).json({ error: "Forbidden" });
@@ -5,6 +5,7 @@ import { getSessionServer } from "@/utils/auth";
 import { logUserAdminAction } from "@/utils/adminAudit";
 import { logInfo } from "@/utils/logger";
 import { ensureRequestWorkflowDefinition, ensureRequestWorkflowInstance, transitionRequestWorkflowByActionTx } from "@/utils/workflow";
+import { recordRequestStatusAudit } from "@/utils/auditLog";
 
 const bodySchema = z.object({
   code: z.string().uuid(),
@@ -14,9 +15,6 @@ const bodySchema = z.object({
   notes: z.string().trim().max(2000).optional().nullable(),
 });
 
-const computeProductStatus = (quantity: number) =>
-  quantity > 20 ? "Available" : quantity > 0 ? "Stock Low" : "Stock Out";
-
 function formatGtmiNumber(gtmiYear: number, gtmiSeq: number) {
   return `GTMI-${gtmiYear}-${String(gtmiSeq).padStart(6, "0")}`;
 }
@@ -138,16 +136,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         note: "auto-submit (unit return)",
       });
 
-      await tx.requestStatusAudit.create({
-        data: {
-          tenantId,
-          requestId: linkedRequest.id,
-          fromStatus: null,
-          toStatus: "SUBMITTED",
-          changedByUserId: performedByUserId,
-          source: "api/units/return:POST",
-          note: `Criada automaticamente por devolução da unidade ${unit.code}`,
-        },
+      await recordRequestStatusAudit(tx, {
+        tenantId,
+        requestId: linkedRequest.id,
+        fromStatus: null,
+        toStatus: "SUBMITTED",
+        changedByUserId: performedByUserId,
+        source: "api/units/return:POST",
+        note: `Criada automaticamente por devolução da unidade ${unit.code}`,
       });
 
       const product = await tx.product.findUnique({
@@ -157,7 +153,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       if (!product) return { kind: "not_found" as const };
 
       const finalQuantity = Number(product.quantity);
-      const finalStatus = product.status ?? computeProductStatus(finalQuantity);
+      const finalStatus = product.status;
 
       return {
         kind: "ok" as const,
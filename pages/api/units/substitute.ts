@@ -6,6 +6,10 @@ import { getSessionServer } from "@/utils/auth";
 import { logUserAdminAction } from "@/utils/adminAudit";
 import { logInfo, logWarn } from "@/utils/logger";
 import { ensureRequestWorkflowDefinition, ensureRequestWorkflowInstance, transitionRequestWorkflowByActionTx } from "@/utils/workflow";
+import { applyWarehouseStockDeltaTx } from "@/utils/warehouseStock";
+import { refreshProductStockStatusTx } from "@/utils/stockLevels";
+import { recordRequestStatusAudit } from "@/utils/auditLog";
+import { publishNotifications, type NotificationOutbox } from "@/utils/notifications";
 
 const bodySchema = z.object({
   oldCode: z.string().uuid(),
@@ -21,9 +25,6 @@ const bodySchema = z.object({
   compatibilityOverrideReason: z.string().trim().max(300).optional().nullable(),
 });
 
-const computeProductStatus = (quantity: number) =>
-  quantity > 20 ? "Available" : quantity > 0 ? "Stock Low" : "Stock Out";
-
 function formatGtmiNumber(gtmiYear: number, gtmiSeq: number) {
   return `GTMI-${gtmiYear}-${String(gtmiSeq).padStart(6, "0")}`;
 }
@@ -123,6 +124,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   await ensureRequestWorkflowDefinition(prisma, session.tenantId);
 
   try {
+    const outbox: NotificationOutbox = [];
     const result = await prisma.$transaction(async (tx) => {
       const txAny = tx as any;
       const oldUnit = await txAny.productUnit.findFirst({
@@ -134,6 +136,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           tenantId: true,
           productId: true,
           invoiceId: true,
+          warehouseId: true,
           assignedToUserId: true,
           product: { select: { id: true, name: true, sku: true } },
           invoice: { select: { requestId: true } },
@@ -149,6 +152,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           tenantId: true,
           productId: true,
           invoiceId: true,
+          warehouseId: true,
           product: { select: { id: true, name: true, sku: true } },
           invoice: { select: { requestId: true } },
         },
@@ -261,16 +265,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         note: "auto-submit (unit substitute)",
       });
 
-      await tx.requestStatusAudit.create({
-        data: {
-          tenantId: session.tenantId,
-          requestId: linkedRequest.id,
-          fromStatus: null,
-          toStatus: "SUBMITTED",
-          changedByUserId: session.id,
-          source: "api/units/substitute:POST",
-          note: `Criada automaticamente por substituição ${substitutionId}`,
-        },
+      await recordRequestStatusAudit(tx, {
+        tenantId: session.tenantId,
+        requestId: linkedRequest.id,
+        fromStatus: null,
+        toStatus: "SUBMITTED",
+        changedByUserId: session.id,
+        source: "api/units/substitute:POST",
+        note: `Criada automaticamente por substituição ${substitutionId}`,
       });
 
       const movementNotes = composeNotes(notes ?? null, substitutionId, oldUnit.code, newUnit.code, ticketNumber ?? null);
@@ -297,6 +299,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             unitId: oldUnit.id,
             invoiceId: oldUnit.invoiceId,
             requestId: linkedRequest.id,
+            warehouseId: oldUnit.warehouseId ?? null,
             performedByUserId: session.id,
             assignedToUserId: oldUnit.assignedToUserId ?? null,
             reason: reasonText,
@@ -306,6 +309,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           select: { id: true },
         });
 
+        await applyWarehouseStockDeltaTx(tx, {
+          tenantId: session.tenantId,
+          productId: oldUnit.productId,
+          warehouseId: oldUnit.warehouseId,
+          delta: 1,
+        });
+
         await tx.product.update({
           where: { id: oldUnit.productId },
           data: { quantity: { increment: BigInt(1) as any } },
@@ -410,6 +420,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           unitId: newUnit.id,
           invoiceId: newUnit.invoiceId,
           requestId: linkedRequest.id,
+          warehouseId: newUnit.warehouseId ?? null,
           performedByUserId: session.id,
           assignedToUserId: effectiveAssignedTo,
           reason: reasonText,
@@ -419,6 +430,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         select: { id: true },
       });
 
+      await applyWarehouseStockDeltaTx(tx, {
+        tenantId: session.tenantId,
+        productId: newUnit.productId,
+        warehouseId: newUnit.warehouseId,
+        delta: -1,
+      });
+
       await tx.product.update({
         where: { id: newUnit.productId },
         data: { quantity: { decrement: BigInt(1) as any } },
@@ -427,13 +445,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       touchedProducts.add(newUnit.productId);
 
       for (const productId of touchedProducts) {
-        const p = await tx.product.findUnique({ where: { id: productId }, select: { quantity: true } });
-        if (!p) continue;
-        await tx.product.update({
-          where: { id: productId },
-          data: { status: computeProductStatus(Number(p.quantity)) },
-          select: { id: true },
-        });
+        await refreshProductStockStatusTx(tx, { tenantId: session.tenantId, productId, outbox });
       }
 
       return {
@@ -476,6 +488,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         },
       };
     });
+    await publishNotifications(outbox);
 
     if (result.kind === "not_found") return res.status(404).json({ error: "Unit not found" });
     if (result.kind === "forbidden") return res.status(403).json({ error: "Forbidden" });
@@ -97,7 +97,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       const roleChanged = existing.role !== user.role;
       const deactivated = existing.isActive && !user.isActive;
       if (roleChanged || deactivated) {
-        publishRealtimeEvent({
+        await publishRealtimeEvent({
           type: "auth.force_logout",
           tenantId: session.tenantId,
           audience: "USER",
@@ -135,7 +135,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         return res.status(404).json({ error: "User not found" });
       }
 
-      publishRealtimeEvent({
+      await publishRealtimeEvent({
         type: "auth.force_logout",
         tenantId: session.tenantId,
         audience: "USER",
@@ -18,6 +18,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   try {
     const user = await getSessionServer(req, res);
     if (!user) return res.status(401).json({ error: "Unauthorized" });
+    if (user.authProvider === "LDAP") {
+      return res.status(409).json({ error: "A password desta conta é gerida pelo diretório (LDAP)" });
+    }
 
     const parsed = bodySchema.safeParse(req.body);
     if (!parsed.success) return res.status(400).json({ error: "Invalid request body" });
@@ -28,7 +31,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       data: { passwordHash, mustChangePassword: false },
     });
 
-    publishRealtimeEvent({
+    await publishRealtimeEvent({
       type: "auth.force_logout",
       tenantId: user.tenantId,
       audience: "USER",
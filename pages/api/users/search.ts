@@ -10,7 +10,7 @@ const querySchema = z.object({
 });
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: ["tickets.manage", "users.manage"] });
   if (!session) return res.status(401).json({ error: "Unauthorized" });
 
   if (req.method !== "GET") {
@@ -25,7 +25,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   const q = parsed.data.q;
   const limit = parsed.data.limit ?? 20;
 
-  const grants = await getUserPermissionGrants(prisma, { id: session.id, tenantId, role: session.role });
+  const grants = await getUserPermissionGrants(prisma, { id: session.id, tenantId, role: session.role, apiToken: session.apiToken });
   const canSeeAll = hasPermission(grants, "tickets.manage") || hasPermission(grants, "users.manage");
   const requestingServiceId = (session as any).requestingServiceId ?? null;
 
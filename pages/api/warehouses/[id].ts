@@ -0,0 +1,170 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/prisma/client";
+import { getSessionServer } from "@/utils/auth";
+import { logUserAdminAction } from "@/utils/adminAudit";
+
+const patchSchema = z.object({
+  name: z.string().trim().min(2).max(120).optional(),
+  address: z.string().trim().max(500).optional().nullable(),
+  notes: z.string().trim().max(2000).optional().nullable(),
+  isDefault: z.literal(true).optional(),
+  isActive: z.boolean().optional(),
+});
+
+const binSchema = z.object({
+  code: z.string().trim().min(1).max(40),
+  name: z.string().trim().max(120).optional().nullable(),
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getSessionServer(req, res);
+  if (!session) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  const id = req.query.id;
+  if (typeof id !== "string") {
+    return res.status(400).json({ error: "Invalid warehouse id" });
+  }
+
+  const tenantId = session.tenantId;
+  const isAdmin = session.role === "ADMIN";
+
+  const warehouse = await prisma.warehouse.findFirst({ where: { id, tenantId } });
+  if (!warehouse) {
+    return res.status(404).json({ error: "Warehouse not found" });
+  }
+
+  if (req.method === "GET") {
+    try {
+      const [bins, stocks] = await Promise.all([
+        prisma.warehouseBin.findMany({
+          where: { warehouseId: id, tenantId },
+          orderBy: { code: "asc" },
+        }),
+        prisma.productStock.findMany({
+          where: { warehouseId: id, tenantId },
+          orderBy: [{ quantity: "asc" }],
+          include: { product: { select: { id: true, name: true, sku: true } } },
+        }),
+      ]);
+
+      return res.status(200).json({
+        ...warehouse,
+        createdAt: warehouse.createdAt.toISOString(),
+        updatedAt: warehouse.updatedAt.toISOString(),
+        bins: bins.map((b) => ({ ...b, createdAt: b.createdAt.toISOString(), updatedAt: b.updatedAt.toISOString() })),
+        stocks: stocks.map((s) => ({
+          productId: s.productId,
+          product: s.product,
+          quantity: Number(s.quantity),
+          status: s.status,
+          updatedAt: s.updatedAt.toISOString(),
+        })),
+      });
+    } catch (error) {
+      console.error("GET /api/warehouses/[id] error:", error);
+      return res.status(500).json({ error: "Failed to fetch warehouse" });
+    }
+  }
+
+  if (!isAdmin) {
+    return res.status(403).json({ error: "Forbidden" });
+  }
+
+  if (req.method === "PATCH") {
+    const parsed = patchSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid request body" });
+    }
+    const data = parsed.data;
+
+    if (data.isActive === false && warehouse.isDefault) {
+      return res.status(400).json({ error: "Não é possível desativar o armazém predefinido." });
+    }
+    if (data.isActive === false) {
+      const remaining = await prisma.productStock.aggregate({
+        where: { warehouseId: id, tenantId },
+        _sum: { quantity: true },
+      });
+      if (Number(remaining._sum.quantity ?? 0) > 0) {
+        return res.status(409).json({ error: "O armazém ainda tem stock. Transfira-o antes de desativar." });
+      }
+    }
+
+    try {
+      const updated = await prisma.$transaction(async (tx) => {
+        if (data.isDefault) {
+          await tx.warehouse.updateMany({ where: { tenantId, isDefault: true }, data: { isDefault: false } });
+        }
+        return tx.warehouse.update({
+          where: { id },
+          data: {
+            ...(data.name !== undefined ? { name: data.name } : {}),
+            ...(data.address !== undefined ? { address: data.address || null } : {}),
+            ...(data.notes !== undefined ? { notes: data.notes || null } : {}),
+            ...(data.isDefault ? { isDefault: true, isActive: true } : {}),
+            ...(data.isActive !== undefined && !data.isDefault ? { isActive: data.isActive } : {}),
+          },
+        });
+      });
+
+      await logUserAdminAction({
+        tenantId,
+        actorUserId: session.id,
+        action: "WAREHOUSE_UPDATE",
+        note: `Armazém atualizado: ${updated.code}`,
+        payload: { warehouseId: id, changes: data },
+      });
+
+      return res.status(200).json({
+        ...updated,
+        createdAt: updated.createdAt.toISOString(),
+        updatedAt: updated.updatedAt.toISOString(),
+      });
+    } catch (error) {
+      console.error("PATCH /api/warehouses/[id] error:", error);
+      return res.status(500).json({ error: "Failed to update warehouse" });
+    }
+  }
+
+  if (req.method === "POST") {
+    const parsed = binSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid request body" });
+    }
+
+    try {
+      const bin = await prisma.warehouseBin.create({
+        data: {
+          tenantId,
+          warehouseId: id,
+          code: parsed.data.code.toUpperCase(),
+          name: parsed.data.name || null,
+        },
+      });
+      return res.status(201).json({
+        ...bin,
+        createdAt: bin.createdAt.toISOString(),
+        updatedAt: bin.updatedAt.toISOString(),
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        return res.status(409).json({ error: "Já existe uma localização com esse código neste armazém." });
+      }
+      console.error("POST /api/warehouses/[id] error:", error);
+      return res.status(500).json({ error: "Failed to create bin" });
+    }
+  }
+
+  res.setHeader("Allow", ["GET", "PATCH", "POST"]);
+  return res.status(405).json({ error: "Method Not Allowed" });
+}
+
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+};
@@ -0,0 +1,137 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/prisma/client";
+import { getSessionServer } from "@/utils/auth";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { ensureDefaultWarehouse } from "@/utils/warehouseStock";
+
+const createSchema = z.object({
+  code: z.string().trim().min(1).max(40),
+  name: z.string().trim().min(2).max(120),
+  address: z.string().trim().max(500).optional().nullable(),
+  notes: z.string().trim().max(2000).optional().nullable(),
+  isDefault: z.boolean().optional(),
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getSessionServer(req, res);
+  if (!session) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  const tenantId = session.tenantId;
+  const isAdmin = session.role === "ADMIN";
+
+  if (req.method === "GET") {
+    try {
+      await ensureDefaultWarehouse(prisma, tenantId);
+
+      const includeInactive = req.query.includeInactive === "1";
+      const warehouses = await prisma.warehouse.findMany({
+        where: { tenantId, ...(includeInactive ? {} : { isActive: true }) },
+        orderBy: [{ isDefault: "desc" }, { name: "asc" }],
+        include: {
+          bins: {
+            where: { isActive: true },
+            orderBy: { code: "asc" },
+            select: { id: true, code: true, name: true },
+          },
+          _count: { select: { stocks: true } },
+        },
+      });
+
+      const totals = await prisma.productStock.groupBy({
+        by: ["warehouseId"],
+        where: { tenantId },
+        _sum: { quantity: true },
+      });
+      const lowStock = await prisma.productStock.groupBy({
+        by: ["warehouseId"],
+        where: { tenantId, status: { in: ["Stock Low", "Stock Out"] } },
+        _count: { _all: true },
+      });
+      const totalByWarehouse = new Map(totals.map((t) => [t.warehouseId, Number(t._sum.quantity ?? 0)]));
+      const lowByWarehouse = new Map(lowStock.map((t) => [t.warehouseId, t._count._all]));
+
+      return res.status(200).json(
+        warehouses.map((w) => ({
+          id: w.id,
+          code: w.code,
+          name: w.name,
+          address: w.address,
+          notes: w.notes,
+          isDefault: w.isDefault,
+          isActive: w.isActive,
+          bins: w.bins,
+          productCount: w._count.stocks,
+          totalQuantity: totalByWarehouse.get(w.id) ?? 0,
+          lowStockCount: lowByWarehouse.get(w.id) ?? 0,
+          createdAt: w.createdAt.toISOString(),
+          updatedAt: w.updatedAt.toISOString(),
+        }))
+      );
+    } catch (error) {
+      console.error("GET /api/warehouses error:", error);
+      return res.status(500).json({ error: "Failed to fetch warehouses" });
+    }
+  }
+
+  if (req.method === "POST") {
+    if (!isAdmin) {
+      return res.status(403).json({ error: "Forbidden" });
+    }
+
+    const parsed = createSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid request body" });
+    }
+
+    try {
+      const created = await prisma.$transaction(async (tx) => {
+        if (parsed.data.isDefault) {
+          await tx.warehouse.updateMany({ where: { tenantId, isDefault: true }, data: { isDefault: false } });
+        }
+        return tx.warehouse.create({
+          data: {
+            tenantId,
+            code: parsed.data.code.toUpperCase(),
+            name: parsed.data.name,
+            address: parsed.data.address || null,
+            notes: parsed.data.notes || null,
+            isDefault: Boolean(parsed.data.isDefault),
+          },
+        });
+      });
+
+      await logUserAdminAction({
+        tenantId,
+        actorUserId: session.id,
+        action: "WAREHOUSE_CREATE",
+        note: `Armazém criado: ${created.code}`,
+        payload: { warehouseId: created.id, code: created.code, name: created.name },
+      });
+
+      return res.status(201).json({
+        ...created,
+        createdAt: created.createdAt.toISOString(),
+        updatedAt: created.updatedAt.toISOString(),
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        return res.status(409).json({ error: "Já existe um armazém com esse código." });
+      }
+      console.error("POST /api/warehouses error:", error);
+      return res.status(500).json({ error: "Failed to create warehouse" });
+    }
+  }
+
+  res.setHeader("Allow", ["GET", "POST"]);
+  return res.status(405).json({ error: "Method Not Allowed" });
+}
+
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+};
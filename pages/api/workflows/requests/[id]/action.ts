@@ -3,12 +3,26 @@ import { z } from "zod";
 
 import { prisma } from "@/prisma/client";
 import { getSessionServer } from "@/utils/auth";
-import { getUserPermissionGrants, hasPermission } from "@/utils/rbac";
-import { ensureRequestWorkflowDefinition, ensureRequestWorkflowInstance, transitionRequestWorkflowByAction } from "@/utils/workflow";
+import { findPermissionGrant, getUserPermissionGrants, hasPermission, REQUEST_API_TOKEN_SCOPES } from "@/utils/rbac";
+import {
+  ensureRequestWorkflowDefinition,
+  explainWorkflowGuardBlock,
+  resolveRequestWorkflowTransitionTx,
+  transitionRequestWorkflowByAction,
+} from "@/utils/workflow";
+import {
+  describeWorkflowQuorumProgress,
+  QUORUM_INVALID_MESSAGE,
+  loadCurrentWorkflowQuorum,
+  loadWorkflowQuorumStatus,
+  quorumVoterCandidates,
+  resolveWorkflowQuorum,
+} from "@/utils/workflowQuorum";
 
 const schema = z.union([
   z.object({
-    action: z.enum(["SUBMIT", "APPROVE", "REJECT", "FULFILL", "PRESIDENCY_APPROVE", "PRESIDENCY_REJECT"]),
+    // Any action code: tenants can add their own transitions in the workflow designer.
+    action: z.string().regex(/^[A-Z][A-Z0-9_]{1,79}$/),
     note: z.string().max(500).optional(),
   }),
   z.object({
@@ -19,7 +33,7 @@ const schema = z.union([
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   const db = prisma as any;
-  const session = await getSessionServer(req, res);
+  const session = await getSessionServer(req, res, { apiTokenScopes: REQUEST_API_TOKEN_SCOPES });
   if (!session) return res.status(401).json({ error: "Unauthorized" });
 
   const id = typeof req.query.id === "string" ? req.query.id : "";
@@ -35,6 +49,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     id: session.id,
     tenantId: session.tenantId,
     role: session.role,
+    apiToken: session.apiToken,
   });
 
   const serviceScope = request.requestingServiceId ?? null;
@@ -69,12 +84,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             code: true,
             name: true,
             requestStatus: true,
+            quorum: true,
           },
         },
         events: {
           orderBy: [{ createdAt: "desc" }],
           include: {
             actor: { select: { id: true, name: true, email: true } },
+            onBehalfOf: { select: { id: true, name: true, email: true } },
             fromState: { select: { code: true, name: true, requestStatus: true } },
             toState: { select: { code: true, name: true, requestStatus: true } },
           },
@@ -86,17 +103,27 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(404).json({ error: "Workflow instance not found" });
     }
 
+    const quorum = await loadCurrentWorkflowQuorum(prisma, {
+      tenantId: session.tenantId,
+      requestId: id,
+      instance,
+      candidates: quorumVoterCandidates(session.id, grants),
+    });
+    const { quorum: _quorumConfig, ...currentState } = instance.currentState ?? {};
+
     return res.status(200).json({
       id: instance.id,
       completedAt: instance.completedAt ? instance.completedAt.toISOString() : null,
       definition: instance.definition,
-      currentState: instance.currentState,
+      currentState: instance.currentState ? currentState : null,
+      quorum,
       events: instance.events.map((event: any) => ({
         id: event.id,
         action: event.action,
         note: event.note,
         createdAt: event.createdAt.toISOString(),
         actor: event.actor,
+        onBehalfOf: event.onBehalfOf,
         fromState: event.fromState,
         toState: event.toState,
       })),
@@ -114,11 +141,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   await ensureRequestWorkflowDefinition(prisma, session.tenantId);
-  const instance = await ensureRequestWorkflowInstance(prisma as any, {
-    tenantId: session.tenantId,
-    requestId: id,
-  });
-  const currentStateCode = (instance as any)?.currentState?.code ?? null;
 
   const note = "note" in parsed.data ? (parsed.data.note ?? null) : null;
 
@@ -126,13 +148,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     if ("action" in parsed.data) return parsed.data.action;
     switch (parsed.data.targetStatus) {
       case "SUBMITTED":
-        return "SUBMIT" as const;
+        return "SUBMIT";
       case "APPROVED":
-        return "APPROVE" as const;
+        return "APPROVE";
       case "REJECTED":
-        return "REJECT" as const;
+        return "REJECT";
       case "FULFILLED":
-        return "FULFILL" as const;
+        return "FULFILL";
       default:
         return null;
     }
@@ -142,33 +164,62 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(400).json({ error: "Invalid action" });
   }
 
+  // Guards decide which route the action takes, and the route decides the permission needed.
+  const resolved = await resolveRequestWorkflowTransitionTx(prisma, { tenantId: session.tenantId, requestId: id, action });
+  if (!resolved.ok) {
+    if (resolved.reason === "GUARD_BLOCKED") {
+      return res.status(409).json({
+        error: explainWorkflowGuardBlock(action, resolved.blocked),
+        reason: resolved.reason,
+        blocked: resolved.blocked,
+      });
+    }
+    return res.status(400).json({ error: "Transition not allowed" });
+  }
+  const currentStateCode = resolved.instance.currentState?.code ?? null;
+
   // Authorization:
   // - SUBMIT: owner/creator can submit their draft, or ops can force via requests.change_status.
-  // - Other actions: validate required permission from the transition definition.
-  if (action === "SUBMIT") {
+  // - Quorum actions: the state's named approvers vote, possibly through a delegation.
+  // - Other actions: validate required permission from the transition definition. When only a
+  //   delegation grants it, the event records the delegator as "on behalf of".
+  let onBehalfOfUserId: string | null = null;
+  const required = resolved.transition.requiredPermission as string | null;
+  const quorum = await resolveWorkflowQuorum(prisma, {
+    tenantId: session.tenantId,
+    target: { type: "REQUEST", id },
+    state: resolved.instance.currentState,
+    action: resolved.transition.action,
+  });
+  if (quorum === "INVALID") {
+    return res.status(409).json({ error: QUORUM_INVALID_MESSAGE, reason: "QUORUM_INVALID" });
+  }
+  if (quorum) {
+    const status = await loadWorkflowQuorumStatus(prisma, {
+      tenantId: session.tenantId,
+      instanceId: resolved.instance.id,
+      requestId: id,
+      stateId: resolved.instance.currentStateId,
+      quorum,
+      candidates: quorumVoterCandidates(session.id, grants, required),
+    });
+    if (!status.voter) {
+      return status.alreadyVoted
+        ? res.status(409).json({ error: "Já votou neste passo de aprovação.", reason: "ALREADY_VOTED", quorum: status })
+        : res.status(403).json({ error: "Não é um dos aprovadores deste passo.", reason: "NOT_A_QUORUM_APPROVER" });
+    }
+    onBehalfOfUserId = status.voter === session.id ? null : status.voter;
+  } else if (action === "SUBMIT") {
     const isOwner = request.userId === session.id || request.createdByUserId === session.id;
     if (!isOwner && !can("requests.change_status")) {
       return res.status(403).json({ error: "Forbidden" });
     }
   } else {
-    const transitions = await db.workflowTransitionDefinition.findMany({
-      where: {
-        tenantId: session.tenantId,
-        workflowId: instance.definitionId,
-        fromStateId: instance.currentStateId,
-      },
-      select: { action: true, requiredPermission: true },
-    });
-    const transition = transitions.find((t: any) => t.action === action);
-    if (!transition) {
-      return res.status(400).json({ error: "Transition not allowed" });
-    }
-
-    const required = transition.requiredPermission as string | null;
     if (required) {
       const isFinal = required.startsWith("requests.final_");
-      const allowed = isFinal ? hasPermission(grants, required, null) : hasPermission(grants, required, serviceScope);
-      if (!allowed) return res.status(403).json({ error: "Forbidden" });
+      const grant = findPermissionGrant(grants, required, isFinal ? null : serviceScope);
+      if (!grant) return res.status(403).json({ error: "Forbidden" });
+      onBehalfOfUserId = grant.onBehalfOfUserId ?? null;
     }
   }
 
@@ -177,10 +228,36 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     requestId: id,
     action,
     actorUserId: session.id,
+    onBehalfOfUserId,
     note,
   });
 
-  if (!moved.moved) return res.status(400).json({ error: "Transition not allowed" });
+  if (!moved.moved) {
+    if (moved.reason === "QUORUM_PENDING") {
+      return res.status(202).json({
+        ok: true,
+        pending: true,
+        action,
+        message: describeWorkflowQuorumProgress(moved.quorum),
+        quorum: moved.quorum,
+        onBehalfOfUserId,
+      });
+    }
+    if (moved.reason === "QUORUM_INVALID") {
+      return res.status(409).json({ error: QUORUM_INVALID_MESSAGE, reason: moved.reason });
+    }
+    if (moved.reason === "ALREADY_VOTED" || moved.reason === "NOT_A_QUORUM_APPROVER") {
+      return res.status(409).json({ error: "O voto não conta para o quórum deste passo.", reason: moved.reason });
+    }
+    if (moved.reason === "GUARD_BLOCKED") {
+      return res.status(409).json({
+        error: explainWorkflowGuardBlock(action, moved.blocked),
+        reason: moved.reason,
+        blocked: moved.blocked,
+      });
+    }
+    return res.status(400).json({ error: "Transition not allowed" });
+  }
 
   return res.status(200).json({
     ok: true,
@@ -188,5 +265,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     from: currentStateCode,
     to: moved.toState.code,
     status: moved.toState.requestStatus,
+    onBehalfOfUserId,
   });
 }
@@ -0,0 +1,114 @@
+-- Multi-warehouse stock: warehouses/bins, per-location balances and transfer movements
+
+-- AlterEnum
+ALTER TYPE "StockMovementType" ADD VALUE 'TRANSFER_OUT';
+ALTER TYPE "StockMovementType" ADD VALUE 'TRANSFER_IN';
+
+-- CreateTable
+CREATE TABLE "Warehouse" (
+    "id" UUID NOT NULL,
+    "code" VARCHAR(40) NOT NULL,
+    "name" VARCHAR(120) NOT NULL,
+    "address" TEXT,
+    "notes" TEXT,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tenantId" UUID NOT NULL,
+
+    CONSTRAINT "Warehouse_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WarehouseBin" (
+    "id" UUID NOT NULL,
+    "code" VARCHAR(40) NOT NULL,
+    "name" VARCHAR(120),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tenantId" UUID NOT NULL,
+    "warehouseId" UUID NOT NULL,
+
+    CONSTRAINT "WarehouseBin_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProductStock" (
+    "id" UUID NOT NULL,
+    "quantity" BIGINT NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tenantId" UUID NOT NULL,
+    "productId" UUID NOT NULL,
+    "warehouseId" UUID NOT NULL,
+
+    CONSTRAINT "ProductStock_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "ProductUnit" ADD COLUMN "warehouseId" UUID,
+ADD COLUMN "binId" UUID;
+
+-- AlterTable
+ALTER TABLE "StockMovement" ADD COLUMN "warehouseId" UUID,
+ADD COLUMN "counterpartWarehouseId" UUID,
+ADD COLUMN "transferId" UUID;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Warehouse_tenantId_code_key" ON "Warehouse"("tenantId", "code");
+CREATE INDEX "Warehouse_tenantId_idx" ON "Warehouse"("tenantId");
+CREATE INDEX "Warehouse_isActive_idx" ON "Warehouse"("isActive");
+
+CREATE UNIQUE INDEX "WarehouseBin_warehouseId_code_key" ON "WarehouseBin"("warehouseId", "code");
+CREATE INDEX "WarehouseBin_tenantId_idx" ON "WarehouseBin"("tenantId");
+CREATE INDEX "WarehouseBin_warehouseId_idx" ON "WarehouseBin"("warehouseId");
+
+CREATE UNIQUE INDEX "ProductStock_productId_warehouseId_key" ON "ProductStock"("productId", "warehouseId");
+CREATE INDEX "ProductStock_tenantId_idx" ON "ProductStock"("tenantId");
+CREATE INDEX "ProductStock_warehouseId_idx" ON "ProductStock"("warehouseId");
+
+CREATE INDEX "ProductUnit_warehouseId_idx" ON "ProductUnit"("warehouseId");
+CREATE INDEX "ProductUnit_binId_idx" ON "ProductUnit"("binId");
+
+CREATE INDEX "StockMovement_warehouseId_idx" ON "StockMovement"("warehouseId");
+CREATE INDEX "StockMovement_transferId_idx" ON "StockMovement"("transferId");
+
+-- AddForeignKey
+ALTER TABLE "Warehouse" ADD CONSTRAINT "Warehouse_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "WarehouseBin" ADD CONSTRAINT "WarehouseBin_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "WarehouseBin" ADD CONSTRAINT "WarehouseBin_warehouseId_fkey" FOREIGN KEY ("warehouseId") REFERENCES "Warehouse"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ProductStock" ADD CONSTRAINT "ProductStock_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "ProductStock" ADD CONSTRAINT "ProductStock_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "ProductStock" ADD CONSTRAINT "ProductStock_warehouseId_fkey" FOREIGN KEY ("warehouseId") REFERENCES "Warehouse"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ProductUnit" ADD CONSTRAINT "ProductUnit_warehouseId_fkey" FOREIGN KEY ("warehouseId") REFERENCES "Warehouse"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "ProductUnit" ADD CONSTRAINT "ProductUnit_binId_fkey" FOREIGN KEY ("binId") REFERENCES "WarehouseBin"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_warehouseId_fkey" FOREIGN KEY ("warehouseId") REFERENCES "Warehouse"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_counterpartWarehouseId_fkey" FOREIGN KEY ("counterpartWarehouseId") REFERENCES "Warehouse"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: every tenant gets a default central warehouse that holds all existing stock.
+INSERT INTO "Warehouse" ("id", "code", "name", "isDefault", "tenantId")
+SELECT gen_random_uuid(), 'CENTRAL', 'Armazém Central', true, t."id"
+FROM "Tenant" t
+WHERE NOT EXISTS (SELECT 1 FROM "Warehouse" w WHERE w."tenantId" = t."id");
+
+INSERT INTO "ProductStock" ("id", "quantity", "status", "tenantId", "productId", "warehouseId")
+SELECT gen_random_uuid(), p."quantity", p."status", p."userId", p."id", w."id"
+FROM "Product" p
+JOIN "Warehouse" w ON w."tenantId" = p."userId" AND w."isDefault" = true;
+
+UPDATE "ProductUnit" u
+SET "warehouseId" = w."id"
+FROM "Warehouse" w
+WHERE w."tenantId" = u."userId" AND w."isDefault" = true AND u."warehouseId" IS NULL;
+
+UPDATE "StockMovement" m
+SET "warehouseId" = w."id"
+FROM "Warehouse" w
+WHERE w."tenantId" = m."userId" AND w."isDefault" = true AND m."warehouseId" IS NULL;
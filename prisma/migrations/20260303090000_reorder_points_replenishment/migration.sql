@@ -0,0 +1,41 @@
+-- Configurable reorder points (per product, with per-category defaults) and replenishment runs.
+ALTER TYPE "NotificationKind" ADD VALUE IF NOT EXISTS 'STOCK_REORDER';
+
+ALTER TABLE "Category"
+ADD COLUMN "defaultMinStock" INTEGER,
+ADD COLUMN "defaultMaxStock" INTEGER,
+ADD COLUMN "defaultReorderPoint" INTEGER;
+
+ALTER TABLE "Product"
+ADD COLUMN "minStock" INTEGER,
+ADD COLUMN "maxStock" INTEGER,
+ADD COLUMN "reorderPoint" INTEGER,
+ADD COLUMN "reorderAlertedAt" TIMESTAMP(3);
+
+CREATE TABLE "ReplenishmentRun" (
+    "id" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "productCount" INTEGER NOT NULL DEFAULT 0,
+    "supplierCount" INTEGER NOT NULL DEFAULT 0,
+    "alertsSent" INTEGER NOT NULL DEFAULT 0,
+    "suppliers" JSONB NOT NULL,
+    "tenantId" UUID NOT NULL,
+    "triggeredByUserId" UUID,
+
+    CONSTRAINT "ReplenishmentRun_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "ReplenishmentRun_tenantId_createdAt_idx" ON "ReplenishmentRun"("tenantId", "createdAt");
+
+ALTER TABLE "ReplenishmentRun"
+ADD CONSTRAINT "ReplenishmentRun_tenantId_fkey"
+FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ReplenishmentRun"
+ADD CONSTRAINT "ReplenishmentRun_triggeredByUserId_fkey"
+FOREIGN KEY ("triggeredByUserId") REFERENCES "User"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Products already at or below the legacy threshold should not raise a burst of alerts on the first run.
+UPDATE "Product" SET "reorderAlertedAt" = CURRENT_TIMESTAMP WHERE "quantity" <= 20;
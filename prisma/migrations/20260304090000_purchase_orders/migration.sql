@@ -0,0 +1,165 @@
+-- Purchase orders with lines and partial receipts, linked to suppliers, requests, replenishment runs and invoices.
+CREATE TYPE "PurchaseOrderStatus" AS ENUM ('DRAFT', 'SENT', 'PARTIALLY_RECEIVED', 'RECEIVED', 'CLOSED', 'CANCELLED');
+CREATE TYPE "PurchaseOrderSource" AS ENUM ('MANUAL', 'REQUEST', 'REPLENISHMENT');
+CREATE TYPE "PurchaseOrderMatchStatus" AS ENUM ('PENDING', 'MATCHED', 'DISCREPANCY');
+
+ALTER TYPE "NotificationKind" ADD VALUE IF NOT EXISTS 'PURCHASE_ORDER_DISCREPANCY';
+
+CREATE TABLE "PurchaseOrder" (
+    "id" UUID NOT NULL,
+    "poYear" INTEGER NOT NULL,
+    "poSeq" INTEGER NOT NULL,
+    "number" TEXT NOT NULL,
+    "status" "PurchaseOrderStatus" NOT NULL DEFAULT 'DRAFT',
+    "source" "PurchaseOrderSource" NOT NULL DEFAULT 'MANUAL',
+    "expectedAt" TIMESTAMP(3),
+    "notes" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "closedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "matchStatus" "PurchaseOrderMatchStatus" NOT NULL DEFAULT 'PENDING',
+    "matchCheckedAt" TIMESTAMP(3),
+    "matchSummary" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tenantId" UUID NOT NULL,
+    "supplierId" UUID NOT NULL,
+    "requestId" UUID,
+    "replenishmentRunId" UUID,
+    "createdByUserId" UUID,
+
+    CONSTRAINT "PurchaseOrder_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "PurchaseOrderLine" (
+    "id" UUID NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "unitPrice" DOUBLE PRECISION NOT NULL,
+    "receivedQuantity" INTEGER NOT NULL DEFAULT 0,
+    "expectedAt" TIMESTAMP(3),
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tenantId" UUID NOT NULL,
+    "purchaseOrderId" UUID NOT NULL,
+    "productId" UUID NOT NULL,
+    "requestItemId" UUID,
+
+    CONSTRAINT "PurchaseOrderLine_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "PurchaseOrderReceipt" (
+    "id" UUID NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tenantId" UUID NOT NULL,
+    "purchaseOrderId" UUID NOT NULL,
+    "lineId" UUID NOT NULL,
+    "invoiceId" UUID,
+    "warehouseId" UUID,
+    "receivedByUserId" UUID,
+
+    CONSTRAINT "PurchaseOrderReceipt_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "ProductInvoice" ADD COLUMN "purchaseOrderLineId" UUID;
+
+CREATE UNIQUE INDEX "PurchaseOrder_tenantId_number_key" ON "PurchaseOrder"("tenantId", "number");
+CREATE UNIQUE INDEX "PurchaseOrder_tenantId_poYear_poSeq_key" ON "PurchaseOrder"("tenantId", "poYear", "poSeq");
+CREATE INDEX "PurchaseOrder_tenantId_status_idx" ON "PurchaseOrder"("tenantId", "status");
+CREATE INDEX "PurchaseOrder_supplierId_idx" ON "PurchaseOrder"("supplierId");
+CREATE INDEX "PurchaseOrder_requestId_idx" ON "PurchaseOrder"("requestId");
+CREATE INDEX "PurchaseOrder_replenishmentRunId_idx" ON "PurchaseOrder"("replenishmentRunId");
+
+CREATE INDEX "PurchaseOrderLine_tenantId_idx" ON "PurchaseOrderLine"("tenantId");
+CREATE INDEX "PurchaseOrderLine_purchaseOrderId_idx" ON "PurchaseOrderLine"("purchaseOrderId");
+CREATE INDEX "PurchaseOrderLine_productId_idx" ON "PurchaseOrderLine"("productId");
+CREATE INDEX "PurchaseOrderLine_requestItemId_idx" ON "PurchaseOrderLine"("requestItemId");
+
+CREATE INDEX "PurchaseOrderReceipt_tenantId_idx" ON "PurchaseOrderReceipt"("tenantId");
+CREATE INDEX "PurchaseOrderReceipt_purchaseOrderId_idx" ON "PurchaseOrderReceipt"("purchaseOrderId");
+CREATE INDEX "PurchaseOrderReceipt_lineId_idx" ON "PurchaseOrderReceipt"("lineId");
+CREATE INDEX "PurchaseOrderReceipt_invoiceId_idx" ON "PurchaseOrderReceipt"("invoiceId");
+
+CREATE INDEX "ProductInvoice_purchaseOrderLineId_idx" ON "ProductInvoice"("purchaseOrderLineId");
+
+ALTER TABLE "PurchaseOrder"
+ADD CONSTRAINT "PurchaseOrder_tenantId_fkey"
+FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "PurchaseOrder"
+ADD CONSTRAINT "PurchaseOrder_supplierId_fkey"
+FOREIGN KEY ("supplierId") REFERENCES "Supplier"("id")
+ON DELETE RESTRICT ON UPDATE CASCADE;
+
+ALTER TABLE "PurchaseOrder"
+ADD CONSTRAINT "PurchaseOrder_requestId_fkey"
+FOREIGN KEY ("requestId") REFERENCES "Request"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "PurchaseOrder"
+ADD CONSTRAINT "PurchaseOrder_replenishmentRunId_fkey"
+FOREIGN KEY ("replenishmentRunId") REFERENCES "ReplenishmentRun"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "PurchaseOrder"
+ADD CONSTRAINT "PurchaseOrder_createdByUserId_fkey"
+FOREIGN KEY ("createdByUserId") REFERENCES "User"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "PurchaseOrderLine"
+ADD CONSTRAINT "PurchaseOrderLine_tenantId_fkey"
+FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "PurchaseOrderLine"
+ADD CONSTRAINT "PurchaseOrderLine_purchaseOrderId_fkey"
+FOREIGN KEY ("purchaseOrderId") REFERENCES "PurchaseOrder"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "PurchaseOrderLine"
+ADD CONSTRAINT "PurchaseOrderLine_productId_fkey"
+FOREIGN KEY ("productId") REFERENCES "Product"("id")
+ON DELETE RESTRICT ON UPDATE CASCADE;
+
+ALTER TABLE "PurchaseOrderLine"
+ADD CONSTRAINT "PurchaseOrderLine_requestItemId_fkey"
+FOREIGN KEY ("requestItemId") REFERENCES "RequestItem"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "PurchaseOrderReceipt"
+ADD CONSTRAINT "PurchaseOrderReceipt_tenantId_fkey"
+FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "PurchaseOrderReceipt"
+ADD CONSTRAINT "PurchaseOrderReceipt_purchaseOrderId_fkey"
+FOREIGN KEY ("purchaseOrderId") REFERENCES "PurchaseOrder"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "PurchaseOrderReceipt"
+ADD CONSTRAINT "PurchaseOrderReceipt_lineId_fkey"
+FOREIGN KEY ("lineId") REFERENCES "PurchaseOrderLine"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "PurchaseOrderReceipt"
+ADD CONSTRAINT "PurchaseOrderReceipt_invoiceId_fkey"
+FOREIGN KEY ("invoiceId") REFERENCES "ProductInvoice"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "PurchaseOrderReceipt"
+ADD CONSTRAINT "PurchaseOrderReceipt_warehouseId_fkey"
+FOREIGN KEY ("warehouseId") REFERENCES "Warehouse"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "PurchaseOrderReceipt"
+ADD CONSTRAINT "PurchaseOrderReceipt_receivedByUserId_fkey"
+FOREIGN KEY ("receivedByUserId") REFERENCES "User"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "ProductInvoice"
+ADD CONSTRAINT "ProductInvoice_purchaseOrderLineId_fkey"
+FOREIGN KEY ("purchaseOrderLineId") REFERENCES "PurchaseOrderLine"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,151 @@
+-- Stocktake (physical inventory count) sessions and the ADJUSTMENT movement type they post on approval.
+ALTER TYPE "StockMovementType" ADD VALUE IF NOT EXISTS 'ADJUSTMENT';
+
+CREATE TYPE "StocktakeStatus" AS ENUM ('OPEN', 'SUBMITTED', 'APPROVED', 'CANCELLED');
+
+CREATE TABLE "StocktakeSession" (
+    "id" UUID NOT NULL,
+    "year" INTEGER NOT NULL,
+    "seq" INTEGER NOT NULL,
+    "number" TEXT NOT NULL,
+    "status" "StocktakeStatus" NOT NULL DEFAULT 'OPEN',
+    "title" TEXT,
+    "notes" TEXT,
+    "submittedAt" TIMESTAMP(3),
+    "approvedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tenantId" UUID NOT NULL,
+    "warehouseId" UUID NOT NULL,
+    "categoryId" UUID,
+    "createdByUserId" UUID,
+    "submittedByUserId" UUID,
+    "approvedByUserId" UUID,
+
+    CONSTRAINT "StocktakeSession_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "StocktakeLine" (
+    "id" UUID NOT NULL,
+    "tracksUnits" BOOLEAN NOT NULL DEFAULT false,
+    "expectedQuantity" INTEGER NOT NULL,
+    "countedQuantity" INTEGER,
+    "adjustedQuantity" INTEGER,
+    "notes" TEXT,
+    "countedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tenantId" UUID NOT NULL,
+    "sessionId" UUID NOT NULL,
+    "productId" UUID NOT NULL,
+    "countedByUserId" UUID,
+
+    CONSTRAINT "StocktakeLine_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "StocktakeUnit" (
+    "id" UUID NOT NULL,
+    "expected" BOOLEAN NOT NULL DEFAULT false,
+    "counted" BOOLEAN NOT NULL DEFAULT false,
+    "countedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tenantId" UUID NOT NULL,
+    "sessionId" UUID NOT NULL,
+    "unitId" UUID NOT NULL,
+    "countedByUserId" UUID,
+
+    CONSTRAINT "StocktakeUnit_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "StockMovement" ADD COLUMN "stocktakeSessionId" UUID;
+
+CREATE UNIQUE INDEX "StocktakeSession_tenantId_number_key" ON "StocktakeSession"("tenantId", "number");
+CREATE UNIQUE INDEX "StocktakeSession_tenantId_year_seq_key" ON "StocktakeSession"("tenantId", "year", "seq");
+CREATE INDEX "StocktakeSession_tenantId_status_idx" ON "StocktakeSession"("tenantId", "status");
+CREATE INDEX "StocktakeSession_warehouseId_idx" ON "StocktakeSession"("warehouseId");
+
+CREATE UNIQUE INDEX "StocktakeLine_sessionId_productId_key" ON "StocktakeLine"("sessionId", "productId");
+CREATE INDEX "StocktakeLine_tenantId_idx" ON "StocktakeLine"("tenantId");
+CREATE INDEX "StocktakeLine_productId_idx" ON "StocktakeLine"("productId");
+
+CREATE UNIQUE INDEX "StocktakeUnit_sessionId_unitId_key" ON "StocktakeUnit"("sessionId", "unitId");
+CREATE INDEX "StocktakeUnit_tenantId_idx" ON "StocktakeUnit"("tenantId");
+CREATE INDEX "StocktakeUnit_unitId_idx" ON "StocktakeUnit"("unitId");
+
+CREATE INDEX "StockMovement_stocktakeSessionId_idx" ON "StockMovement"("stocktakeSessionId");
+
+ALTER TABLE "StocktakeSession"
+ADD CONSTRAINT "StocktakeSession_tenantId_fkey"
+FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "StocktakeSession"
+ADD CONSTRAINT "StocktakeSession_warehouseId_fkey"
+FOREIGN KEY ("warehouseId") REFERENCES "Warehouse"("id")
+ON DELETE RESTRICT ON UPDATE CASCADE;
+
+ALTER TABLE "StocktakeSession"
+ADD CONSTRAINT "StocktakeSession_categoryId_fkey"
+FOREIGN KEY ("categoryId") REFERENCES "Category"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "StocktakeSession"
+ADD CONSTRAINT "StocktakeSession_createdByUserId_fkey"
+FOREIGN KEY ("createdByUserId") REFERENCES "User"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "StocktakeSession"
+ADD CONSTRAINT "StocktakeSession_submittedByUserId_fkey"
+FOREIGN KEY ("submittedByUserId") REFERENCES "User"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "StocktakeSession"
+ADD CONSTRAINT "StocktakeSession_approvedByUserId_fkey"
+FOREIGN KEY ("approvedByUserId") REFERENCES "User"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "StocktakeLine"
+ADD CONSTRAINT "StocktakeLine_tenantId_fkey"
+FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "StocktakeLine"
+ADD CONSTRAINT "StocktakeLine_sessionId_fkey"
+FOREIGN KEY ("sessionId") REFERENCES "StocktakeSession"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "StocktakeLine"
+ADD CONSTRAINT "StocktakeLine_productId_fkey"
+FOREIGN KEY ("productId") REFERENCES "Product"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "StocktakeLine"
+ADD CONSTRAINT "StocktakeLine_countedByUserId_fkey"
+FOREIGN KEY ("countedByUserId") REFERENCES "User"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "StocktakeUnit"
+ADD CONSTRAINT "StocktakeUnit_tenantId_fkey"
+FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "StocktakeUnit"
+ADD CONSTRAINT "StocktakeUnit_sessionId_fkey"
+FOREIGN KEY ("sessionId") REFERENCES "StocktakeSession"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "StocktakeUnit"
+ADD CONSTRAINT "StocktakeUnit_unitId_fkey"
+FOREIGN KEY ("unitId") REFERENCES "ProductUnit"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "StocktakeUnit"
+ADD CONSTRAINT "StocktakeUnit_countedByUserId_fkey"
+FOREIGN KEY ("countedByUserId") REFERENCES "User"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "StockMovement"
+ADD CONSTRAINT "StockMovement_stocktakeSessionId_fkey"
+FOREIGN KEY ("stocktakeSessionId") REFERENCES "StocktakeSession"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,53 @@
+-- Lot/batch and expiry tracking for consumables, with FEFO picking and expiry alerts.
+ALTER TYPE "NotificationKind" ADD VALUE IF NOT EXISTS 'LOT_EXPIRY';
+
+CREATE TABLE "ProductLot" (
+    "id" UUID NOT NULL,
+    "lotNumber" VARCHAR(80) NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "manufacturedAt" TIMESTAMP(3),
+    "receivedQuantity" INTEGER NOT NULL DEFAULT 0,
+    "quantity" INTEGER NOT NULL DEFAULT 0,
+    "expiryAlertedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tenantId" UUID NOT NULL,
+    "productId" UUID NOT NULL,
+    "warehouseId" UUID NOT NULL,
+    "invoiceId" UUID,
+
+    CONSTRAINT "ProductLot_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "StockMovement" ADD COLUMN "lotId" UUID;
+
+CREATE UNIQUE INDEX "ProductLot_productId_warehouseId_lotNumber_key" ON "ProductLot"("productId", "warehouseId", "lotNumber");
+CREATE INDEX "ProductLot_tenantId_expiresAt_idx" ON "ProductLot"("tenantId", "expiresAt");
+CREATE INDEX "ProductLot_warehouseId_idx" ON "ProductLot"("warehouseId");
+
+CREATE INDEX "StockMovement_lotId_idx" ON "StockMovement"("lotId");
+
+ALTER TABLE "ProductLot"
+ADD CONSTRAINT "ProductLot_tenantId_fkey"
+FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ProductLot"
+ADD CONSTRAINT "ProductLot_productId_fkey"
+FOREIGN KEY ("productId") REFERENCES "Product"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ProductLot"
+ADD CONSTRAINT "ProductLot_warehouseId_fkey"
+FOREIGN KEY ("warehouseId") REFERENCES "Warehouse"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ProductLot"
+ADD CONSTRAINT "ProductLot_invoiceId_fkey"
+FOREIGN KEY ("invoiceId") REFERENCES "ProductInvoice"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "StockMovement"
+ADD CONSTRAINT "StockMovement_lotId_fkey"
+FOREIGN KEY ("lotId") REFERENCES "ProductLot"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
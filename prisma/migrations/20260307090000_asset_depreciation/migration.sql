@@ -0,0 +1,68 @@
+-- Yearly depreciation runs for municipal assets (straight-line), kept for auditability.
+CREATE TYPE "MunicipalAssetDepreciationRunStatus" AS ENUM ('POSTED', 'SUPERSEDED');
+
+CREATE TABLE "MunicipalAssetDepreciationRun" (
+    "id" UUID NOT NULL,
+    "year" INTEGER NOT NULL,
+    "status" "MunicipalAssetDepreciationRunStatus" NOT NULL DEFAULT 'POSTED',
+    "assetCount" INTEGER NOT NULL,
+    "acquisitionValueTotal" DOUBLE PRECISION NOT NULL,
+    "depreciationTotal" DOUBLE PRECISION NOT NULL,
+    "accumulatedTotal" DOUBLE PRECISION NOT NULL,
+    "netBookValueTotal" DOUBLE PRECISION NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "supersededAt" TIMESTAMP(3),
+    "tenantId" UUID NOT NULL,
+    "createdByUserId" UUID,
+
+    CONSTRAINT "MunicipalAssetDepreciationRun_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "MunicipalAssetDepreciationEntry" (
+    "id" UUID NOT NULL,
+    "acquisitionValue" DOUBLE PRECISION NOT NULL,
+    "usefulLifeMonths" INTEGER NOT NULL,
+    "monthsDepreciated" INTEGER NOT NULL,
+    "openingBookValue" DOUBLE PRECISION NOT NULL,
+    "depreciation" DOUBLE PRECISION NOT NULL,
+    "accumulatedDepreciation" DOUBLE PRECISION NOT NULL,
+    "closingBookValue" DOUBLE PRECISION NOT NULL,
+    "tenantId" UUID NOT NULL,
+    "runId" UUID NOT NULL,
+    "assetId" UUID NOT NULL,
+
+    CONSTRAINT "MunicipalAssetDepreciationEntry_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "MunicipalAssetDepreciationRun_tenantId_year_idx" ON "MunicipalAssetDepreciationRun"("tenantId", "year");
+CREATE INDEX "MunicipalAssetDepreciationRun_createdByUserId_idx" ON "MunicipalAssetDepreciationRun"("createdByUserId");
+
+CREATE UNIQUE INDEX "MunicipalAssetDepreciationEntry_runId_assetId_key" ON "MunicipalAssetDepreciationEntry"("runId", "assetId");
+CREATE INDEX "MunicipalAssetDepreciationEntry_tenantId_idx" ON "MunicipalAssetDepreciationEntry"("tenantId");
+CREATE INDEX "MunicipalAssetDepreciationEntry_assetId_idx" ON "MunicipalAssetDepreciationEntry"("assetId");
+
+ALTER TABLE "MunicipalAssetDepreciationRun"
+ADD CONSTRAINT "MunicipalAssetDepreciationRun_tenantId_fkey"
+FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "MunicipalAssetDepreciationRun"
+ADD CONSTRAINT "MunicipalAssetDepreciationRun_createdByUserId_fkey"
+FOREIGN KEY ("createdByUserId") REFERENCES "User"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "MunicipalAssetDepreciationEntry"
+ADD CONSTRAINT "MunicipalAssetDepreciationEntry_tenantId_fkey"
+FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "MunicipalAssetDepreciationEntry"
+ADD CONSTRAINT "MunicipalAssetDepreciationEntry_runId_fkey"
+FOREIGN KEY ("runId") REFERENCES "MunicipalAssetDepreciationRun"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "MunicipalAssetDepreciationEntry"
+ADD CONSTRAINT "MunicipalAssetDepreciationEntry_assetId_fkey"
+FOREIGN KEY ("assetId") REFERENCES "MunicipalAsset"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,59 @@
+-- TOTP second factor: per-user enrolment, single-use recovery codes and a tenant enforcement policy.
+CREATE TABLE "UserMfa" (
+    "id" UUID NOT NULL,
+    "secret" VARCHAR(255) NOT NULL,
+    "enabledAt" TIMESTAMP(3),
+    "lastUsedStep" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tenantId" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+
+    CONSTRAINT "UserMfa_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "UserMfaRecoveryCode" (
+    "id" UUID NOT NULL,
+    "codeHash" VARCHAR(128) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "mfaId" UUID NOT NULL,
+
+    CONSTRAINT "UserMfaRecoveryCode_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "MfaPolicy" (
+    "id" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tenantId" UUID NOT NULL,
+    "requireForAdmins" BOOLEAN NOT NULL DEFAULT false,
+    "requiredRoleKeys" TEXT[] DEFAULT ARRAY[]::TEXT[],
+
+    CONSTRAINT "MfaPolicy_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "UserMfa_userId_key" ON "UserMfa"("userId");
+CREATE INDEX "UserMfa_tenantId_idx" ON "UserMfa"("tenantId");
+CREATE INDEX "UserMfaRecoveryCode_mfaId_idx" ON "UserMfaRecoveryCode"("mfaId");
+CREATE UNIQUE INDEX "MfaPolicy_tenantId_key" ON "MfaPolicy"("tenantId");
+
+ALTER TABLE "UserMfa"
+ADD CONSTRAINT "UserMfa_tenantId_fkey"
+FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "UserMfa"
+ADD CONSTRAINT "UserMfa_userId_fkey"
+FOREIGN KEY ("userId") REFERENCES "User"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "UserMfaRecoveryCode"
+ADD CONSTRAINT "UserMfaRecoveryCode_mfaId_fkey"
+FOREIGN KEY ("mfaId") REFERENCES "UserMfa"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "MfaPolicy"
+ADD CONSTRAINT "MfaPolicy_tenantId_fkey"
+FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
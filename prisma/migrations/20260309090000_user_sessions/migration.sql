@@ -0,0 +1,30 @@
+-- Server-side session registry: one row per login, referenced by the "sid" claim of the session JWT.
+CREATE TABLE "UserSession" (
+    "id" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "revokedReason" VARCHAR(60),
+    "revokedByUserId" UUID,
+    "ip" VARCHAR(64),
+    "userAgent" VARCHAR(512),
+    "device" VARCHAR(120),
+    "tenantId" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+
+    CONSTRAINT "UserSession_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "UserSession_tenantId_idx" ON "UserSession"("tenantId");
+CREATE INDEX "UserSession_userId_revokedAt_idx" ON "UserSession"("userId", "revokedAt");
+
+ALTER TABLE "UserSession"
+ADD CONSTRAINT "UserSession_tenantId_fkey"
+FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "UserSession"
+ADD CONSTRAINT "UserSession_userId_fkey"
+FOREIGN KEY ("userId") REFERENCES "User"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
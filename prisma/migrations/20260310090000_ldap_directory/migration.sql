@@ -0,0 +1,44 @@
+-- LDAP / Active Directory: per-user auth provider, directory identity and group/OU mappings.
+CREATE TYPE "UserAuthProvider" AS ENUM ('LOCAL', 'LDAP');
+CREATE TYPE "RoleAssignmentSource" AS ENUM ('MANUAL', 'DIRECTORY');
+CREATE TYPE "DirectoryMappingKind" AS ENUM ('GROUP', 'OU');
+
+ALTER TABLE "User"
+ADD COLUMN "authProvider" "UserAuthProvider" NOT NULL DEFAULT 'LOCAL',
+ADD COLUMN "externalId" VARCHAR(255);
+
+CREATE UNIQUE INDEX "User_tenantId_externalId_key" ON "User"("tenantId", "externalId");
+
+ALTER TABLE "UserRoleAssignment"
+ADD COLUMN "source" "RoleAssignmentSource" NOT NULL DEFAULT 'MANUAL';
+
+CREATE TABLE "DirectoryMapping" (
+    "id" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tenantId" UUID NOT NULL,
+    "kind" "DirectoryMappingKind" NOT NULL,
+    "dn" VARCHAR(500) NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 100,
+    "requestingServiceId" INTEGER,
+    "roleId" UUID,
+
+    CONSTRAINT "DirectoryMapping_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "DirectoryMapping_tenantId_idx" ON "DirectoryMapping"("tenantId");
+
+ALTER TABLE "DirectoryMapping"
+ADD CONSTRAINT "DirectoryMapping_tenantId_fkey"
+FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "DirectoryMapping"
+ADD CONSTRAINT "DirectoryMapping_requestingServiceId_fkey"
+FOREIGN KEY ("requestingServiceId") REFERENCES "RequestingService"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "DirectoryMapping"
+ADD CONSTRAINT "DirectoryMapping_roleId_fkey"
+FOREIGN KEY ("roleId") REFERENCES "AccessRole"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,60 @@
+-- Personal API tokens and service accounts: hashed bearer secrets scoped to permission keys.
+ALTER TABLE "User"
+ADD COLUMN "isServiceAccount" BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE "ApiToken" (
+    "id" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tenantId" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+    "createdByUserId" UUID,
+    "name" VARCHAR(120) NOT NULL,
+    "tokenHash" VARCHAR(64) NOT NULL,
+    "tokenPrefix" VARCHAR(16) NOT NULL,
+    "scopes" TEXT[],
+    "expiresAt" TIMESTAMP(3),
+    "lastUsedAt" TIMESTAMP(3),
+    "lastUsedIp" VARCHAR(64),
+    "revokedAt" TIMESTAMP(3),
+    "revokedByUserId" UUID,
+
+    CONSTRAINT "ApiToken_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "ApiTokenAllowedIp" (
+    "tokenId" UUID NOT NULL,
+    "allowedIpId" UUID NOT NULL,
+
+    CONSTRAINT "ApiTokenAllowedIp_pkey" PRIMARY KEY ("tokenId", "allowedIpId")
+);
+
+CREATE UNIQUE INDEX "ApiToken_tokenHash_key" ON "ApiToken"("tokenHash");
+CREATE INDEX "ApiToken_tenantId_idx" ON "ApiToken"("tenantId");
+CREATE INDEX "ApiToken_userId_idx" ON "ApiToken"("userId");
+CREATE INDEX "ApiTokenAllowedIp_allowedIpId_idx" ON "ApiTokenAllowedIp"("allowedIpId");
+
+ALTER TABLE "ApiToken"
+ADD CONSTRAINT "ApiToken_tenantId_fkey"
+FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ApiToken"
+ADD CONSTRAINT "ApiToken_userId_fkey"
+FOREIGN KEY ("userId") REFERENCES "User"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ApiToken"
+ADD CONSTRAINT "ApiToken_createdByUserId_fkey"
+FOREIGN KEY ("createdByUserId") REFERENCES "User"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "ApiTokenAllowedIp"
+ADD CONSTRAINT "ApiTokenAllowedIp_tokenId_fkey"
+FOREIGN KEY ("tokenId") REFERENCES "ApiToken"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ApiTokenAllowedIp"
+ADD CONSTRAINT "ApiTokenAllowedIp_allowedIpId_fkey"
+FOREIGN KEY ("allowedIpId") REFERENCES "AllowedIp"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
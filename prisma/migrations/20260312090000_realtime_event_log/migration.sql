@@ -0,0 +1,18 @@
+-- Bounded realtime event log used to replay missed SSE events (Last-Event-ID).
+CREATE TABLE "RealtimeEvent" (
+    "id" UUID NOT NULL,
+    "seq" BIGSERIAL NOT NULL,
+    "tenantId" UUID NOT NULL,
+    "type" VARCHAR(120) NOT NULL,
+    "audience" VARCHAR(16) NOT NULL,
+    "userId" UUID,
+    "topics" TEXT[],
+    "payload" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RealtimeEvent_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "RealtimeEvent_seq_key" ON "RealtimeEvent"("seq");
+CREATE INDEX "RealtimeEvent_tenantId_seq_idx" ON "RealtimeEvent"("tenantId", "seq");
+CREATE INDEX "RealtimeEvent_createdAt_idx" ON "RealtimeEvent"("createdAt");
@@ -0,0 +1,46 @@
+-- Presence stored in the database so all app instances agree, plus per-record "viewing" presence.
+CREATE TYPE "PresenceManualStatus" AS ENUM ('ONLINE', 'BUSY', 'MEETING');
+
+CREATE TABLE "UserPresence" (
+    "userId" UUID NOT NULL,
+    "tenantId" UUID NOT NULL,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastActiveAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "manualStatus" "PresenceManualStatus",
+
+    CONSTRAINT "UserPresence_pkey" PRIMARY KEY ("userId")
+);
+
+CREATE TABLE "PresenceView" (
+    "userId" UUID NOT NULL,
+    "resource" VARCHAR(80) NOT NULL,
+    "tenantId" UUID NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PresenceView_pkey" PRIMARY KEY ("userId", "resource")
+);
+
+CREATE INDEX "UserPresence_tenantId_lastSeenAt_idx" ON "UserPresence"("tenantId", "lastSeenAt");
+CREATE INDEX "PresenceView_tenantId_resource_lastSeenAt_idx" ON "PresenceView"("tenantId", "resource", "lastSeenAt");
+CREATE INDEX "PresenceView_lastSeenAt_idx" ON "PresenceView"("lastSeenAt");
+
+ALTER TABLE "UserPresence"
+ADD CONSTRAINT "UserPresence_userId_fkey"
+FOREIGN KEY ("userId") REFERENCES "User"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "UserPresence"
+ADD CONSTRAINT "UserPresence_tenantId_fkey"
+FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "PresenceView"
+ADD CONSTRAINT "PresenceView_userId_fkey"
+FOREIGN KEY ("userId") REFERENCES "User"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "PresenceView"
+ADD CONSTRAINT "PresenceView_tenantId_fkey"
+FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
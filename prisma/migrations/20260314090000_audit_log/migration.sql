@@ -0,0 +1,36 @@
+-- Unified hash-chained audit log. Rows are append-only: UPDATE and DELETE are rejected.
+CREATE TYPE "AuditSource" AS ENUM ('USER_ADMIN', 'RBAC', 'TICKET', 'REQUEST_STATUS', 'MUNICIPAL_ASSET', 'FINANCE_PROCESS', 'WORKFLOW');
+
+CREATE TABLE "AuditLog" (
+    "id" UUID NOT NULL,
+    "tenantId" UUID NOT NULL,
+    "seq" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "source" "AuditSource" NOT NULL,
+    "sourceId" UUID,
+    "action" VARCHAR(80) NOT NULL,
+    "entityType" VARCHAR(40) NOT NULL,
+    "entityId" VARCHAR(64),
+    "actorUserId" UUID,
+    "note" TEXT,
+    "payload" JSONB,
+    "prevHash" VARCHAR(64) NOT NULL,
+    "hash" VARCHAR(64) NOT NULL,
+
+    CONSTRAINT "AuditLog_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "AuditLog_tenantId_seq_key" ON "AuditLog"("tenantId", "seq");
+CREATE INDEX "AuditLog_tenantId_createdAt_idx" ON "AuditLog"("tenantId", "createdAt");
+CREATE INDEX "AuditLog_tenantId_entityType_entityId_idx" ON "AuditLog"("tenantId", "entityType", "entityId");
+CREATE INDEX "AuditLog_tenantId_actorUserId_idx" ON "AuditLog"("tenantId", "actorUserId");
+
+CREATE FUNCTION "audit_log_reject_change"() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'AuditLog is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "AuditLog_append_only"
+BEFORE UPDATE OR DELETE ON "AuditLog"
+FOR EACH ROW EXECUTE FUNCTION "audit_log_reject_change"();
@@ -0,0 +1,2 @@
+-- Lets the audit explorer tag legacy audit rows with their position in the unified chain.
+CREATE INDEX "AuditLog_tenantId_sourceId_idx" ON "AuditLog"("tenantId", "sourceId");
@@ -0,0 +1,2 @@
+-- RGPD: marks users whose personal data was pseudonymised.
+ALTER TABLE "User" ADD COLUMN "anonymisedAt" TIMESTAMP(3);
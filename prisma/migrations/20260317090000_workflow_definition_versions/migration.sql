@@ -0,0 +1,4 @@
+-- Workflow designer: draft versions have no publishedAt. Existing definitions count as published.
+ALTER TABLE "WorkflowDefinition" ADD COLUMN "publishedAt" TIMESTAMP(3);
+
+UPDATE "WorkflowDefinition" SET "publishedAt" = "createdAt";
@@ -0,0 +1,6 @@
+-- Conditional transitions: an action may have several guarded routes from the same state, tried by priority.
+ALTER TABLE "WorkflowTransitionDefinition" ADD COLUMN "priority" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "WorkflowTransitionDefinition" ADD COLUMN "guard" JSONB;
+
+DROP INDEX "WorkflowTransitionDefinition_workflowId_fromStateId_action_key";
+CREATE UNIQUE INDEX "WorkflowTransitionDefinition_workflowId_fromStateId_action_priority_key" ON "WorkflowTransitionDefinition"("workflowId", "fromStateId", "action", "priority");
@@ -0,0 +1,2 @@
+-- Municipal asset and finance process workflows: states carry the entity status they apply.
+ALTER TABLE "WorkflowStateDefinition" ADD COLUMN "targetStatus" VARCHAR(40);
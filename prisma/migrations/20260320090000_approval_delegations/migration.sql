@@ -0,0 +1,61 @@
+-- Time-bounded approval delegations, and the "on behalf of" user recorded on workflow events.
+CREATE TABLE "ApprovalDelegation" (
+    "id" UUID NOT NULL,
+    "permissionKeys" TEXT[],
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "note" TEXT,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tenantId" UUID NOT NULL,
+    "delegatorUserId" UUID NOT NULL,
+    "delegateUserId" UUID NOT NULL,
+    "requestingServiceId" INTEGER,
+    "createdByUserId" UUID,
+    "revokedByUserId" UUID,
+
+    CONSTRAINT "ApprovalDelegation_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "ApprovalDelegation_tenantId_idx" ON "ApprovalDelegation"("tenantId");
+CREATE INDEX "ApprovalDelegation_delegatorUserId_idx" ON "ApprovalDelegation"("delegatorUserId");
+CREATE INDEX "ApprovalDelegation_delegateUserId_startsAt_endsAt_idx" ON "ApprovalDelegation"("delegateUserId", "startsAt", "endsAt");
+CREATE INDEX "ApprovalDelegation_requestingServiceId_idx" ON "ApprovalDelegation"("requestingServiceId");
+
+ALTER TABLE "ApprovalDelegation"
+ADD CONSTRAINT "ApprovalDelegation_tenantId_fkey"
+FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ApprovalDelegation"
+ADD CONSTRAINT "ApprovalDelegation_delegatorUserId_fkey"
+FOREIGN KEY ("delegatorUserId") REFERENCES "User"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ApprovalDelegation"
+ADD CONSTRAINT "ApprovalDelegation_delegateUserId_fkey"
+FOREIGN KEY ("delegateUserId") REFERENCES "User"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ApprovalDelegation"
+ADD CONSTRAINT "ApprovalDelegation_requestingServiceId_fkey"
+FOREIGN KEY ("requestingServiceId") REFERENCES "RequestingService"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ApprovalDelegation"
+ADD CONSTRAINT "ApprovalDelegation_createdByUserId_fkey"
+FOREIGN KEY ("createdByUserId") REFERENCES "User"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "ApprovalDelegation"
+ADD CONSTRAINT "ApprovalDelegation_revokedByUserId_fkey"
+FOREIGN KEY ("revokedByUserId") REFERENCES "User"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "WorkflowEvent" ADD COLUMN "onBehalfOfUserId" UUID;
+
+ALTER TABLE "WorkflowEvent"
+ADD CONSTRAINT "WorkflowEvent_onBehalfOfUserId_fkey"
+FOREIGN KEY ("onBehalfOfUserId") REFERENCES "User"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
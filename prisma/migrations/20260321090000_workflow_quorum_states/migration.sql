@@ -0,0 +1,2 @@
+-- Workflow states that collect N-of-M approvals before the quorum action moves on.
+ALTER TABLE "WorkflowStateDefinition" ADD COLUMN "quorum" JSONB;
@@ -0,0 +1,5 @@
+-- At most one POSTED depreciation run per tenant and year; earlier runs are SUPERSEDED.
+-- Partial indexes cannot be declared in schema.prisma, so this one only lives here.
+CREATE UNIQUE INDEX "MunicipalAssetDepreciationRun_tenantId_year_posted_key"
+ON "MunicipalAssetDepreciationRun"("tenantId", "year")
+WHERE "status" = 'POSTED';
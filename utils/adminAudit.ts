@@ -1,4 +1,5 @@
 import { prisma } from "@/prisma/client";
+import { recordUserAdminAudit } from "@/utils/auditLog";
 
 export async function logUserAdminAction(args: {
   tenantId: string;
@@ -9,15 +10,13 @@ export async function logUserAdminAction(args: {
   payload?: Record<string, any> | null;
 }) {
   try {
-    await prisma.userAdminAudit.create({
-      data: {
-        tenantId: args.tenantId,
-        action: args.action,
-        actorUserId: args.actorUserId ?? null,
-        targetUserId: args.targetUserId ?? null,
-        note: args.note ?? null,
-        payload: args.payload ?? undefined,
-      },
+    await recordUserAdminAudit(prisma, {
+      tenantId: args.tenantId,
+      action: args.action,
+      actorUserId: args.actorUserId ?? null,
+      targetUserId: args.targetUserId ?? null,
+      note: args.note ?? null,
+      payload: args.payload ?? undefined,
     });
   } catch (error) {
     console.error("logUserAdminAction error:", error);
@@ -0,0 +1,201 @@
+import crypto from "crypto";
+import type { NextApiRequest } from "next";
+import type { User } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/prisma/client";
+import { getClientIp, ipMatches } from "@/utils/ip";
+import { SYSTEM_PERMISSIONS } from "@/utils/rbac";
+
+const TOKEN_PREFIX = "cmh_";
+// lastUsedAt/lastUsedIp only move once per interval so busy integrations do not write on every call.
+const TOKEN_TOUCH_INTERVAL_MS = 60_000;
+const SYSTEM_PERMISSION_KEYS = new Set<string>(SYSTEM_PERMISSIONS.map((p) => p.key));
+
+/** What a bearer-authenticated request may do; attached to the session user by getSessionServer. */
+export type ApiTokenContext = {
+  id: string;
+  name: string;
+  scopes: string[];
+  // ADMIN owners and service accounts get the scopes outright; other owners keep the intersection
+  // with their own live grants.
+  grantsScopesDirectly: boolean;
+};
+
+export const apiTokenCreateSchema = z.object({
+  name: z.string().trim().min(2).max(120),
+  scopes: z.array(z.string().trim().min(2).max(120)).min(1).max(SYSTEM_PERMISSIONS.length),
+  expiresAt: z.string().datetime().nullable().optional(),
+  allowedIpIds: z.array(z.string().uuid()).max(50).optional(),
+});
+
+export function isKnownPermissionKey(key: string) {
+  return SYSTEM_PERMISSION_KEYS.has(key);
+}
+
+export function hashApiToken(secret: string) {
+  return crypto.createHash("sha256").update(secret).digest("hex");
+}
+
+/** New secret; shown to the caller once, only its hash and display prefix are kept. */
+export function generateApiTokenSecret() {
+  const secret = `${TOKEN_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+  return { secret, tokenHash: hashApiToken(secret), tokenPrefix: secret.slice(0, 12) };
+}
+
+export function getBearerToken(req: NextApiRequest) {
+  const header = req.headers.authorization;
+  if (typeof header !== "string") return null;
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(header);
+  return match ? match[1] : null;
+}
+
+/**
+ * Resolves a bearer secret to the principal it acts as. Tokens are refused when revoked, expired,
+ * owned by an inactive user, or used from outside their IP restriction.
+ */
+export async function authenticateApiToken(
+  req: NextApiRequest,
+  secret: string
+): Promise<(User & { apiToken: ApiTokenContext }) | null> {
+  if (!secret.startsWith(TOKEN_PREFIX)) return null;
+
+  const token = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(secret) },
+    include: {
+      user: true,
+      allowedIps: { select: { allowedIp: { select: { ipOrCidr: true, isActive: true, expiresAt: true } } } },
+    },
+  });
+  if (!token || token.revokedAt) return null;
+  if (token.expiresAt && token.expiresAt.getTime() <= Date.now()) return null;
+  if (!token.user.isActive || token.user.tenantId !== token.tenantId) return null;
+
+  const clientIp = getClientIp(req);
+  if (token.allowedIps.length) {
+    const now = Date.now();
+    const allowed = token.allowedIps.some(
+      ({ allowedIp }) =>
+        allowedIp.isActive &&
+        (!allowedIp.expiresAt || allowedIp.expiresAt.getTime() > now) &&
+        Boolean(clientIp) &&
+        ipMatches(allowedIp.ipOrCidr, clientIp as string)
+    );
+    if (!allowed) return null;
+  }
+
+  if (!token.lastUsedAt || Date.now() - token.lastUsedAt.getTime() >= TOKEN_TOUCH_INTERVAL_MS) {
+    await prisma.apiToken.update({
+      where: { id: token.id },
+      data: { lastUsedAt: new Date(), lastUsedIp: clientIp?.slice(0, 64) ?? null },
+    });
+  }
+
+  const { user, ...rest } = token;
+  return {
+    ...user,
+    // Tokens never carry ADMIN: admin-only routes stay cookie-only and `role === "ADMIN"` shortcuts
+    // fall through to the scoped grants.
+    role: "USER",
+    apiToken: {
+      id: rest.id,
+      name: rest.name,
+      scopes: rest.scopes,
+      grantsScopesDirectly: user.role === "ADMIN" || user.isServiceAccount,
+    },
+  };
+}
+
+export async function listApiTokens(where: { tenantId: string; userId?: string; serviceAccountsOnly?: boolean }) {
+  const rows = await prisma.apiToken.findMany({
+    where: {
+      tenantId: where.tenantId,
+      ...(where.userId ? { userId: where.userId } : {}),
+      ...(where.serviceAccountsOnly ? { user: { isServiceAccount: true } } : {}),
+    },
+    orderBy: [{ revokedAt: { sort: "desc", nulls: "first" } }, { createdAt: "desc" }],
+    select: {
+      id: true,
+      name: true,
+      tokenPrefix: true,
+      scopes: true,
+      createdAt: true,
+      expiresAt: true,
+      lastUsedAt: true,
+      lastUsedIp: true,
+      revokedAt: true,
+      user: { select: { id: true, name: true, isServiceAccount: true } },
+      allowedIps: { select: { allowedIp: { select: { id: true, ipOrCidr: true, note: true } } } },
+    },
+  });
+
+  return rows.map((row) => ({
+    ...row,
+    allowedIps: row.allowedIps.map((link) => link.allowedIp),
+    createdAt: row.createdAt.toISOString(),
+    expiresAt: row.expiresAt ? row.expiresAt.toISOString() : null,
+    lastUsedAt: row.lastUsedAt ? row.lastUsedAt.toISOString() : null,
+    revokedAt: row.revokedAt ? row.revokedAt.toISOString() : null,
+  }));
+}
+
+/**
+ * Creates a token for `userId`. Unknown scope keys and allowlist ids from another tenant are
+ * rejected. Returns the plaintext secret, which is not stored.
+ */
+export async function createApiToken(args: {
+  tenantId: string;
+  userId: string;
+  createdByUserId: string;
+  name: string;
+  scopes: string[];
+  expiresAt?: Date | null;
+  allowedIpIds?: string[];
+}) {
+  const scopes = Array.from(new Set(args.scopes));
+  const unknown = scopes.filter((key) => !isKnownPermissionKey(key));
+  if (unknown.length) {
+    throw Object.assign(new Error(`Permissões desconhecidas: ${unknown.join(", ")}`), { code: "INVALID_SCOPES" });
+  }
+  if (args.expiresAt && args.expiresAt.getTime() <= Date.now()) {
+    throw Object.assign(new Error("A data de expiração tem de ser futura"), { code: "INVALID_EXPIRY" });
+  }
+
+  const allowedIpIds = Array.from(new Set(args.allowedIpIds ?? []));
+  if (allowedIpIds.length) {
+    const found = await prisma.allowedIp.count({ where: { tenantId: args.tenantId, id: { in: allowedIpIds } } });
+    if (found !== allowedIpIds.length) {
+      throw Object.assign(new Error("Entrada da allowlist de IP inválida"), { code: "INVALID_ALLOWED_IPS" });
+    }
+  }
+
+  const { secret, tokenHash, tokenPrefix } = generateApiTokenSecret();
+  const token = await prisma.apiToken.create({
+    data: {
+      tenantId: args.tenantId,
+      userId: args.userId,
+      createdByUserId: args.createdByUserId,
+      name: args.name,
+      tokenHash,
+      tokenPrefix,
+      scopes,
+      expiresAt: args.expiresAt ?? null,
+      allowedIps: { create: allowedIpIds.map((allowedIpId) => ({ allowedIpId })) },
+    },
+    select: { id: true, name: true, tokenPrefix: true, scopes: true, expiresAt: true, createdAt: true },
+  });
+
+  return {
+    ...token,
+    createdAt: token.createdAt.toISOString(),
+    expiresAt: token.expiresAt ? token.expiresAt.toISOString() : null,
+    token: secret,
+  };
+}
+
+export async function revokeApiToken(where: { id: string; tenantId: string; userId?: string }, revokedByUserId: string) {
+  const revoked = await prisma.apiToken.updateMany({
+    where: { ...where, revokedAt: null },
+    data: { revokedAt: new Date(), revokedByUserId },
+  });
+  return revoked.count > 0;
+}
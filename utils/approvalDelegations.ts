@@ -0,0 +1,182 @@
+import type { User } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/prisma/client";
+import { DELEGABLE_PERMISSION_KEYS, resolveDelegatedGrants, SYSTEM_PERMISSIONS } from "@/utils/rbac";
+
+// Long absences are better covered by a role assignment than by an open-ended delegation.
+const MAX_DELEGATION_DAYS = 180;
+
+export const approvalDelegationCreateSchema = z.object({
+  delegateUserId: z.string().uuid(),
+  permissionKeys: z.array(z.string().trim().min(2).max(120)).min(1).max(DELEGABLE_PERMISSION_KEYS.length),
+  requestingServiceId: z.number().int().nullable().optional(),
+  startsAt: z.string().datetime().nullable().optional(),
+  endsAt: z.string().datetime(),
+  note: z.string().trim().max(500).nullable().optional(),
+});
+
+export type ApprovalDelegationStatus = "SCHEDULED" | "ACTIVE" | "EXPIRED" | "REVOKED";
+
+export function approvalDelegationStatus(
+  row: { startsAt: Date; endsAt: Date; revokedAt: Date | null },
+  now = new Date()
+): ApprovalDelegationStatus {
+  if (row.revokedAt) return "REVOKED";
+  if (row.endsAt <= now) return "EXPIRED";
+  if (row.startsAt > now) return "SCHEDULED";
+  return "ACTIVE";
+}
+
+/** Delegable permissions the user could lend today, with their display names. */
+export async function listDelegablePermissions(user: Pick<User, "id" | "tenantId" | "role">) {
+  const lent = await resolveDelegatedGrants(prisma, user, {
+    permissionKeys: DELEGABLE_PERMISSION_KEYS,
+    requestingServiceId: null,
+  });
+  const held = new Set(lent.map((grant) => grant.key));
+  return SYSTEM_PERMISSIONS.filter((p) => held.has(p.key)).map(({ key, name }) => ({ key, name }));
+}
+
+/** Delegations in the tenant; with `userId`, only those the user gave or received. */
+export async function listApprovalDelegations(where: { tenantId: string; userId?: string }) {
+  const rows = await prisma.approvalDelegation.findMany({
+    where: {
+      tenantId: where.tenantId,
+      ...(where.userId ? { OR: [{ delegatorUserId: where.userId }, { delegateUserId: where.userId }] } : {}),
+    },
+    orderBy: [{ revokedAt: { sort: "desc", nulls: "first" } }, { endsAt: "desc" }],
+    take: 500,
+    select: {
+      id: true,
+      permissionKeys: true,
+      startsAt: true,
+      endsAt: true,
+      note: true,
+      revokedAt: true,
+      createdAt: true,
+      delegator: { select: { id: true, name: true, email: true } },
+      delegate: { select: { id: true, name: true, email: true } },
+      requestingService: { select: { id: true, codigo: true, designacao: true } },
+      createdBy: { select: { id: true, name: true } },
+      revokedBy: { select: { id: true, name: true } },
+    },
+  });
+
+  const now = new Date();
+  return rows.map((row) => ({
+    ...row,
+    status: approvalDelegationStatus(row, now),
+    startsAt: row.startsAt.toISOString(),
+    endsAt: row.endsAt.toISOString(),
+    revokedAt: row.revokedAt ? row.revokedAt.toISOString() : null,
+    createdAt: row.createdAt.toISOString(),
+  }));
+}
+
+/**
+ * Lends some of `delegatorUserId`'s approval permissions to another user for a bounded period.
+ * The delegator must hold every requested key for the chosen scope at the time of creation; at
+ * use time the grants are recomputed, so a delegation never outlives the delegator's own access.
+ */
+export async function createApprovalDelegation(args: {
+  tenantId: string;
+  delegatorUserId: string;
+  delegateUserId: string;
+  createdByUserId: string;
+  permissionKeys: string[];
+  requestingServiceId?: number | null;
+  startsAt?: Date | null;
+  endsAt: Date;
+  note?: string | null;
+}) {
+  const permissionKeys = Array.from(new Set(args.permissionKeys));
+  const notDelegable = permissionKeys.filter((key) => !(DELEGABLE_PERMISSION_KEYS as string[]).includes(key));
+  if (notDelegable.length) {
+    throw Object.assign(new Error(`Permissões não delegáveis: ${notDelegable.join(", ")}`), {
+      code: "INVALID_PERMISSIONS",
+    });
+  }
+  if (args.delegatorUserId === args.delegateUserId) {
+    throw Object.assign(new Error("Não é possível delegar em si próprio"), { code: "SELF_DELEGATION" });
+  }
+
+  const now = new Date();
+  const startsAt = args.startsAt ?? now;
+  if (args.endsAt <= startsAt || args.endsAt <= now) {
+    throw Object.assign(new Error("O fim da delegação tem de ser futuro e posterior ao início"), {
+      code: "INVALID_PERIOD",
+    });
+  }
+  if (args.endsAt.getTime() - startsAt.getTime() > MAX_DELEGATION_DAYS * 86_400_000) {
+    throw Object.assign(new Error(`Uma delegação não pode exceder ${MAX_DELEGATION_DAYS} dias`), {
+      code: "INVALID_PERIOD",
+    });
+  }
+
+  const [delegator, delegate] = await Promise.all([
+    prisma.user.findFirst({
+      where: { id: args.delegatorUserId, tenantId: args.tenantId, isActive: true },
+      select: { id: true, tenantId: true, role: true, name: true },
+    }),
+    prisma.user.findFirst({
+      where: { id: args.delegateUserId, tenantId: args.tenantId, isActive: true, isServiceAccount: false },
+      select: { id: true, name: true },
+    }),
+  ]);
+  if (!delegator) throw Object.assign(new Error("Delegante não encontrado"), { code: "DELEGATOR_NOT_FOUND" });
+  if (!delegate) throw Object.assign(new Error("Delegado não encontrado"), { code: "DELEGATE_NOT_FOUND" });
+
+  const requestingServiceId = args.requestingServiceId ?? null;
+  if (requestingServiceId != null) {
+    const svc = await prisma.requestingService.findUnique({ where: { id: requestingServiceId }, select: { id: true } });
+    if (!svc) throw Object.assign(new Error("Serviço requisitante inválido"), { code: "INVALID_SERVICE" });
+  }
+
+  const lent = await resolveDelegatedGrants(prisma, delegator, { permissionKeys, requestingServiceId }, now);
+  const missing = permissionKeys.filter((key) => !lent.some((grant) => grant.key === key));
+  if (missing.length) {
+    throw Object.assign(new Error(`${delegator.name} não tem as permissões: ${missing.join(", ")}`), {
+      code: "NOT_HELD",
+    });
+  }
+
+  const created = await prisma.approvalDelegation.create({
+    data: {
+      tenantId: args.tenantId,
+      delegatorUserId: delegator.id,
+      delegateUserId: delegate.id,
+      createdByUserId: args.createdByUserId,
+      permissionKeys,
+      requestingServiceId,
+      startsAt,
+      endsAt: args.endsAt,
+      note: args.note?.trim() || null,
+    },
+    select: { id: true, permissionKeys: true, startsAt: true, endsAt: true, requestingServiceId: true },
+  });
+
+  return {
+    ...created,
+    delegator: { id: delegator.id, name: delegator.name },
+    delegate,
+    status: approvalDelegationStatus({ ...created, revokedAt: null }, now),
+    startsAt: created.startsAt.toISOString(),
+    endsAt: created.endsAt.toISOString(),
+  };
+}
+
+/** Ends a delegation early. Returns the revoked row, or null when none matched or it was already revoked. */
+export async function revokeApprovalDelegation(
+  where: { id: string; tenantId: string; delegatorUserId?: string },
+  revokedByUserId: string
+) {
+  const revoked = await prisma.approvalDelegation.updateMany({
+    where: { ...where, revokedAt: null },
+    data: { revokedAt: new Date(), revokedByUserId },
+  });
+  if (!revoked.count) return null;
+  return prisma.approvalDelegation.findUnique({
+    where: { id: where.id },
+    select: { id: true, delegatorUserId: true, delegateUserId: true, permissionKeys: true },
+  });
+}
@@ -0,0 +1,392 @@
+import { prisma } from "@/prisma/client";
+
+// Statuses that take an asset off the balance; depreciation stops the month it reached one.
+const DISPOSED_STATUSES = ["DISPOSED", "SCRAPPED", "DONATED", "TRANSFERRED_OUT"];
+
+export type DepreciableAsset = {
+  id: string;
+  code: string;
+  name: string;
+  status: string;
+  acquisitionValue: number | null;
+  acquisitionDate: Date | null;
+  usefulLifeMonths: number | null;
+  depreciationMethod: string;
+  classId: string | null;
+  requestingServiceId: number | null;
+  class: { id: string; name: string; defaultUsefulLifeMonths: number | null } | null;
+  requestingService: { id: number; codigo: string; designacao: string } | null;
+  disposedAt: Date | null;
+};
+
+export type DepreciationScheduleRow = {
+  month: string;
+  depreciation: number;
+  accumulatedDepreciation: number;
+  netBookValue: number;
+};
+
+export type AssetDepreciation = {
+  method: "NONE" | "STRAIGHT_LINE";
+  // Why the asset is not being depreciated even though it should be; null when the data is complete.
+  issue: "NO_VALUE" | "NO_ACQUISITION_DATE" | "NO_USEFUL_LIFE" | null;
+  acquisitionValue: number | null;
+  usefulLifeMonths: number | null;
+  monthlyDepreciation: number;
+  monthsDepreciated: number;
+  accumulatedDepreciation: number;
+  netBookValue: number | null;
+  fullyDepreciatedAt: string | null;
+  disposedAt: string | null;
+};
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function monthIndex(date: Date) {
+  return date.getUTCFullYear() * 12 + date.getUTCMonth();
+}
+
+function monthLabel(index: number) {
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, "0")}`;
+}
+
+type StraightLine = { value: number; lifeMonths: number; startIndex: number; stopIndex: number | null };
+
+function resolveStraightLine(asset: DepreciableAsset): { plan: StraightLine | null; issue: AssetDepreciation["issue"] } {
+  const lifeMonths = asset.usefulLifeMonths ?? asset.class?.defaultUsefulLifeMonths ?? null;
+  if (asset.depreciationMethod !== "STRAIGHT_LINE") return { plan: null, issue: null };
+  if (!asset.acquisitionValue || asset.acquisitionValue <= 0) return { plan: null, issue: "NO_VALUE" };
+  if (!asset.acquisitionDate) return { plan: null, issue: "NO_ACQUISITION_DATE" };
+  if (!lifeMonths || lifeMonths <= 0) return { plan: null, issue: "NO_USEFUL_LIFE" };
+
+  return {
+    plan: {
+      value: asset.acquisitionValue,
+      lifeMonths,
+      // Full-month convention: depreciation starts in the month of acquisition and stops the month before disposal.
+      startIndex: monthIndex(asset.acquisitionDate),
+      stopIndex: asset.disposedAt ? monthIndex(asset.disposedAt) : null,
+    },
+    issue: null,
+  };
+}
+
+// Months depreciated up to and including month `index`.
+function monthsThrough(plan: StraightLine, index: number) {
+  const last = plan.stopIndex === null ? index : Math.min(index, plan.stopIndex - 1);
+  return Math.max(0, Math.min(plan.lifeMonths, last - plan.startIndex + 1));
+}
+
+// Accumulated depreciation after `months` months; rounded per total so the schedule always sums to the value.
+function accumulatedAfter(plan: StraightLine, months: number) {
+  if (months >= plan.lifeMonths) return round2(plan.value);
+  return round2((plan.value / plan.lifeMonths) * months);
+}
+
+export function buildDepreciationSchedule(asset: DepreciableAsset): DepreciationScheduleRow[] {
+  const { plan } = resolveStraightLine(asset);
+  if (!plan) return [];
+
+  const total = monthsThrough(plan, plan.startIndex + plan.lifeMonths - 1);
+  const rows: DepreciationScheduleRow[] = [];
+  for (let i = 1; i <= total; i += 1) {
+    const accumulated = accumulatedAfter(plan, i);
+    rows.push({
+      month: monthLabel(plan.startIndex + i - 1),
+      depreciation: round2(accumulated - accumulatedAfter(plan, i - 1)),
+      accumulatedDepreciation: accumulated,
+      netBookValue: round2(plan.value - accumulated),
+    });
+  }
+  return rows;
+}
+
+export function computeAssetDepreciation(asset: DepreciableAsset, asOf: Date = new Date()): AssetDepreciation {
+  const { plan, issue } = resolveStraightLine(asset);
+  const acquisitionValue = asset.acquisitionValue ?? null;
+  const base = {
+    issue,
+    acquisitionValue,
+    usefulLifeMonths: asset.usefulLifeMonths ?? asset.class?.defaultUsefulLifeMonths ?? null,
+    disposedAt: asset.disposedAt ? asset.disposedAt.toISOString() : null,
+  };
+
+  if (!plan) {
+    return {
+      ...base,
+      method: asset.depreciationMethod === "STRAIGHT_LINE" ? "STRAIGHT_LINE" : "NONE",
+      monthlyDepreciation: 0,
+      monthsDepreciated: 0,
+      accumulatedDepreciation: 0,
+      netBookValue: acquisitionValue,
+      fullyDepreciatedAt: null,
+    };
+  }
+
+  const months = monthsThrough(plan, monthIndex(asOf));
+  const accumulated = accumulatedAfter(plan, months);
+  return {
+    ...base,
+    method: "STRAIGHT_LINE",
+    monthlyDepreciation: round2(plan.value / plan.lifeMonths),
+    monthsDepreciated: months,
+    accumulatedDepreciation: accumulated,
+    netBookValue: round2(plan.value - accumulated),
+    fullyDepreciatedAt: monthLabel(plan.startIndex + plan.lifeMonths - 1),
+  };
+}
+
+/**
+ * Depreciation for one calendar year: book value at the start of the year (0 for assets acquired
+ * during it), the year's charge, and the accumulated/net values at year end.
+ */
+export function computeYearDepreciation(asset: DepreciableAsset, year: number) {
+  const { plan } = resolveStraightLine(asset);
+  const value = asset.acquisitionValue ?? 0;
+  const acquiredBefore = Boolean(asset.acquisitionDate && asset.acquisitionDate.getUTCFullYear() < year);
+
+  if (!plan) {
+    return {
+      openingBookValue: acquiredBefore ? value : 0,
+      depreciation: 0,
+      monthsDepreciated: 0,
+      accumulatedDepreciation: 0,
+      closingBookValue: value,
+    };
+  }
+
+  const monthsBefore = monthsThrough(plan, year * 12 - 1);
+  const monthsAtEnd = monthsThrough(plan, year * 12 + 11);
+  const accumulatedBefore = accumulatedAfter(plan, monthsBefore);
+  const accumulatedAtEnd = accumulatedAfter(plan, monthsAtEnd);
+
+  return {
+    openingBookValue: acquiredBefore ? round2(value - accumulatedBefore) : 0,
+    depreciation: round2(accumulatedAtEnd - accumulatedBefore),
+    monthsDepreciated: monthsAtEnd - monthsBefore,
+    accumulatedDepreciation: accumulatedAtEnd,
+    closingBookValue: round2(value - accumulatedAtEnd),
+  };
+}
+
+export async function loadDepreciableAssets(tenantId: string, opts?: { assetIds?: string[] }): Promise<DepreciableAsset[]> {
+  const db = prisma as any;
+  const assets = await db.municipalAsset.findMany({
+    where: { tenantId, ...(opts?.assetIds ? { id: { in: opts.assetIds } } : {}) },
+    select: {
+      id: true,
+      code: true,
+      name: true,
+      status: true,
+      acquisitionValue: true,
+      acquisitionDate: true,
+      usefulLifeMonths: true,
+      depreciationMethod: true,
+      classId: true,
+      requestingServiceId: true,
+      updatedAt: true,
+      class: { select: { id: true, name: true, defaultUsefulLifeMonths: true } },
+      requestingService: { select: { id: true, codigo: true, designacao: true } },
+    },
+    orderBy: { code: "asc" },
+  });
+
+  const disposedIds = assets.filter((a: any) => DISPOSED_STATUSES.includes(a.status)).map((a: any) => a.id);
+  const disposalEvents = disposedIds.length
+    ? await db.municipalAssetEvent.groupBy({
+        by: ["assetId"],
+        where: { tenantId, assetId: { in: disposedIds }, toStatus: { in: DISPOSED_STATUSES } },
+        _max: { createdAt: true },
+      })
+    : [];
+  const disposedAtById = new Map<string, Date>(disposalEvents.map((row: any) => [row.assetId, row._max.createdAt]));
+
+  return assets.map((asset: any) => {
+    const { updatedAt, ...rest } = asset;
+    return {
+      ...rest,
+      disposedAt: DISPOSED_STATUSES.includes(asset.status) ? (disposedAtById.get(asset.id) ?? updatedAt) : null,
+    };
+  });
+}
+
+type BalanceGroup = {
+  key: string;
+  label: string;
+  assetCount: number;
+  acquisitionValue: number;
+  depreciation: number;
+  accumulatedDepreciation: number;
+  netBookValue: number;
+};
+
+/**
+ * Patrimonial balance at 31 December of `year`: assets held at year end (acquired by then and not
+ * disposed of), with gross value, the year's depreciation, accumulated depreciation and net book
+ * value, grouped by asset class and requesting service.
+ */
+export async function buildPatrimonialBalance(tenantId: string, year: number) {
+  const yearEnd = new Date(Date.UTC(year + 1, 0, 1));
+  const assets = await loadDepreciableAssets(tenantId);
+  const held = assets.filter(
+    (asset) =>
+      (!asset.acquisitionDate || asset.acquisitionDate < yearEnd) && (!asset.disposedAt || asset.disposedAt >= yearEnd)
+  );
+
+  const totals = {
+    assetCount: held.length,
+    acquisitionValue: 0,
+    depreciation: 0,
+    accumulatedDepreciation: 0,
+    netBookValue: 0,
+    unvaluedAssets: 0,
+    incompleteAssets: 0,
+  };
+  const byClass = new Map<string, BalanceGroup>();
+  const byService = new Map<string, BalanceGroup>();
+
+  const addTo = (map: Map<string, BalanceGroup>, key: string, label: string, row: ReturnType<typeof computeYearDepreciation>, value: number) => {
+    const agg = map.get(key) ?? {
+      key,
+      label,
+      assetCount: 0,
+      acquisitionValue: 0,
+      depreciation: 0,
+      accumulatedDepreciation: 0,
+      netBookValue: 0,
+    };
+    agg.assetCount += 1;
+    agg.acquisitionValue += value;
+    agg.depreciation += row.depreciation;
+    agg.accumulatedDepreciation += row.accumulatedDepreciation;
+    agg.netBookValue += row.closingBookValue;
+    map.set(key, agg);
+  };
+
+  for (const asset of held) {
+    if (!asset.acquisitionValue) totals.unvaluedAssets += 1;
+    if (resolveStraightLine(asset).issue) totals.incompleteAssets += 1;
+
+    const value = asset.acquisitionValue ?? 0;
+    const row = computeYearDepreciation(asset, year);
+    totals.acquisitionValue += value;
+    totals.depreciation += row.depreciation;
+    totals.accumulatedDepreciation += row.accumulatedDepreciation;
+    totals.netBookValue += row.closingBookValue;
+
+    addTo(byClass, asset.classId ?? "none", asset.class?.name ?? "Sem classe", row, value);
+    addTo(
+      byService,
+      asset.requestingServiceId ? String(asset.requestingServiceId) : "none",
+      asset.requestingService ? `${asset.requestingService.codigo} - ${asset.requestingService.designacao}` : "Sem serviço",
+      row,
+      value
+    );
+  }
+
+  const finish = (map: Map<string, BalanceGroup>) =>
+    Array.from(map.values())
+      .map((g) => ({
+        ...g,
+        acquisitionValue: round2(g.acquisitionValue),
+        depreciation: round2(g.depreciation),
+        accumulatedDepreciation: round2(g.accumulatedDepreciation),
+        netBookValue: round2(g.netBookValue),
+      }))
+      .sort((a, b) => b.netBookValue - a.netBookValue);
+
+  const run = await (prisma as any).municipalAssetDepreciationRun.findFirst({
+    where: { tenantId, year, status: "POSTED" },
+    orderBy: { createdAt: "desc" },
+    select: { id: true, createdAt: true, depreciationTotal: true, netBookValueTotal: true },
+  });
+
+  return {
+    year,
+    asOf: new Date(yearEnd.getTime() - 1).toISOString(),
+    totals: {
+      ...totals,
+      acquisitionValue: round2(totals.acquisitionValue),
+      depreciation: round2(totals.depreciation),
+      accumulatedDepreciation: round2(totals.accumulatedDepreciation),
+      netBookValue: round2(totals.netBookValue),
+    },
+    byClass: finish(byClass),
+    byService: finish(byService),
+    postedRun: run ? { ...run, createdAt: run.createdAt.toISOString() } : null,
+  };
+}
+
+/**
+ * Posts the depreciation of `year` for every asset held at year end. Runs are immutable: a new run
+ * for the same year marks the previous one SUPERSEDED instead of changing it.
+ */
+export async function runDepreciationYear(args: { tenantId: string; year: number; userId: string; notes?: string | null }) {
+  const currentYear = new Date().getUTCFullYear();
+  if (args.year > currentYear) {
+    throw Object.assign(new Error("Não é possível lançar amortizações de anos futuros"), { code: "INVALID_YEAR" });
+  }
+
+  const yearEnd = new Date(Date.UTC(args.year + 1, 0, 1));
+  const assets = (await loadDepreciableAssets(args.tenantId)).filter(
+    (asset) =>
+      asset.acquisitionValue &&
+      asset.acquisitionDate &&
+      asset.acquisitionDate < yearEnd &&
+      (!asset.disposedAt || asset.disposedAt >= yearEnd)
+  );
+
+  const entries = assets.map((asset) => {
+    const row = computeYearDepreciation(asset, args.year);
+    return {
+      assetId: asset.id,
+      acquisitionValue: asset.acquisitionValue ?? 0,
+      usefulLifeMonths: asset.usefulLifeMonths ?? asset.class?.defaultUsefulLifeMonths ?? 0,
+      ...row,
+    };
+  });
+  const sum = (pick: (entry: (typeof entries)[number]) => number) =>
+    round2(entries.reduce((total, entry) => total + pick(entry), 0));
+
+  return prisma.$transaction(async (tx) => {
+    const txAny = tx as any;
+    // Runs for the same year queue up here, so each one supersedes the run posted before it.
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`asset-depreciation:${args.tenantId}:${args.year}`}))`;
+    await txAny.municipalAssetDepreciationRun.updateMany({
+      where: { tenantId: args.tenantId, year: args.year, status: "POSTED" },
+      data: { status: "SUPERSEDED", supersededAt: new Date() },
+    });
+
+    const run = await txAny.municipalAssetDepreciationRun.create({
+      data: {
+        tenantId: args.tenantId,
+        year: args.year,
+        createdByUserId: args.userId,
+        notes: args.notes ?? null,
+        assetCount: entries.length,
+        acquisitionValueTotal: sum((e) => e.acquisitionValue),
+        depreciationTotal: sum((e) => e.depreciation),
+        accumulatedTotal: sum((e) => e.accumulatedDepreciation),
+        netBookValueTotal: sum((e) => e.closingBookValue),
+      },
+    });
+
+    if (entries.length) {
+      await txAny.municipalAssetDepreciationEntry.createMany({
+        data: entries.map((entry) => ({ ...entry, tenantId: args.tenantId, runId: run.id })),
+      });
+    }
+
+    return run;
+  });
+}
+
+export function serializeDepreciationRun(run: any) {
+  return {
+    ...run,
+    createdAt: run.createdAt.toISOString(),
+    supersededAt: run.supersededAt ? run.supersededAt.toISOString() : null,
+  };
+}
@@ -0,0 +1,452 @@
+import { z } from "zod";
+import { prisma } from "@/prisma/client";
+import {
+  MAX_IMPORT_ROWS,
+  parseImportNumber,
+  resolveColumnMapping,
+  type ImportField,
+  type ImportRowResult,
+  type ParsedSheet,
+} from "@/utils/bulkImport";
+import { recordMunicipalAssetEvent } from "@/utils/auditLog";
+
+const ASSET_STATUSES = [
+  "REGISTERED",
+  "IN_SERVICE",
+  "IN_REPAIR",
+  "LOANED",
+  "LOST",
+  "STOLEN",
+  "TO_DISPOSE",
+  "TRANSFERRED_OUT",
+  "DONATED",
+  "ACTIVE",
+  "ASSIGNED",
+  "MAINTENANCE",
+  "SCRAPPED",
+  "DISPOSED",
+] as const;
+
+const CRITICALITY_LABELS: Record<string, "OPERATIONAL" | "SECURITY" | "ESSENTIAL"> = {
+  operational: "OPERATIONAL",
+  operacional: "OPERATIONAL",
+  security: "SECURITY",
+  seguranca: "SECURITY",
+  essential: "ESSENTIAL",
+  essencial: "ESSENTIAL",
+};
+
+export const ASSET_IMPORT_FIELDS: ImportField[] = [
+  { key: "code", label: "Código", aliases: ["code", "codigo", "n inventario", "numero inventario", "inventario"] },
+  { key: "name", label: "Designação", required: true, aliases: ["name", "nome", "designacao", "descricao do bem", "bem"] },
+  { key: "description", label: "Descrição", aliases: ["description", "descricao", "observacoes do bem"] },
+  { key: "classKey", label: "Classe (código)", aliases: ["class", "classe", "codigo classe", "classkey", "cibe", "cc"] },
+  { key: "brand", label: "Marca", aliases: ["brand", "marca", "fabricante"] },
+  { key: "model", label: "Modelo", aliases: ["model", "modelo"] },
+  {
+    key: "locationPath",
+    label: "Localização",
+    aliases: ["location", "localizacao", "local", "locationpath", "caminho localizacao"],
+  },
+  { key: "serviceCode", label: "Serviço (código)", aliases: ["service", "servico", "codigo servico", "servicecode", "unidade organica"] },
+  { key: "serialNumber", label: "Número de série", aliases: ["serialnumber", "serial", "n serie", "numero de serie", "numero serie"] },
+  { key: "assetTag", label: "Etiqueta", aliases: ["assettag", "etiqueta", "etiqueta patrimonial", "tag"] },
+  { key: "status", label: "Estado", aliases: ["status", "estado"] },
+  { key: "criticality", label: "Criticidade", aliases: ["criticality", "criticidade"] },
+  { key: "acquisitionDate", label: "Data de aquisição", aliases: ["acquisitiondate", "data aquisicao", "data de aquisicao"] },
+  {
+    key: "acquisitionValue",
+    label: "Valor de aquisição",
+    aliases: ["acquisitionvalue", "valor aquisicao", "valor de aquisicao", "valor"],
+  },
+  { key: "usefulLifeMonths", label: "Vida útil (meses)", aliases: ["usefullifemonths", "vida util", "vida util meses"] },
+  { key: "notes", label: "Notas", aliases: ["notes", "notas", "observacoes"] },
+];
+
+export const assetImportOptionsSchema = z.object({
+  mapping: z.record(z.string(), z.string()).optional(),
+});
+
+export type AssetImportOptions = z.infer<typeof assetImportOptionsSchema>;
+
+export type AssetImportReport = {
+  headers: string[];
+  mapping: Record<string, string>;
+  totalRows: number;
+  validRows: number;
+  errorRows: number;
+  toCreate: number;
+  newLocations: string[];
+  rows: ImportRowResult[];
+};
+
+type LocationNode = { id: string; code: string | null; name: string; parentId: string | null; level: number };
+
+type PlannedAsset = ImportRowResult & {
+  data: Record<string, any>;
+  locationSegments: string[];
+};
+
+const codeKey = (value: string) => value.trim().toLocaleLowerCase("pt-PT");
+
+// Legacy registers separate levels with ">", "/" or "\", e.g. "Paços do Concelho > Piso 1 > Sala 3".
+export function splitLocationPath(raw: string) {
+  return raw
+    .split(/\s*[>/\\]\s*/)
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+}
+
+export function parseImportDate(raw: string) {
+  const value = raw.trim();
+  if (!value) return null;
+  const pt = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (pt) {
+    const [day, month, year] = [Number(pt[1]), Number(pt[2]), Number(pt[3])];
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : undefined;
+  }
+  if (/^\d{4}-\d{2}-\d{2}/.test(value)) {
+    const date = new Date(value.length === 10 ? `${value}T00:00:00.000Z` : value);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+  }
+  return undefined;
+}
+
+/**
+ * Matches each path segment against the children of the previous level, by code or by name.
+ * Returns the deepest existing location and the segments that still have to be created.
+ */
+function resolveLocationPath(locations: LocationNode[], segments: string[]) {
+  let parentId: string | null = null;
+  let matched: LocationNode | null = null;
+  for (let index = 0; index < segments.length; index += 1) {
+    const key = codeKey(segments[index]);
+    const next = locations.find(
+      (loc) => loc.parentId === parentId && (codeKey(loc.name) === key || (loc.code && codeKey(loc.code) === key))
+    );
+    if (!next) return { matched, missing: segments.slice(index) };
+    matched = next;
+    parentId = next.id;
+  }
+  return { matched, missing: [] as string[] };
+}
+
+async function planAssetImport(tenantId: string, sheet: ParsedSheet, options: AssetImportOptions) {
+  if (sheet.rows.length > MAX_IMPORT_ROWS) {
+    throw Object.assign(new Error(`O ficheiro excede o limite de ${MAX_IMPORT_ROWS} linhas`), {
+      code: "TOO_MANY_ROWS",
+    });
+  }
+
+  const mapping = resolveColumnMapping(ASSET_IMPORT_FIELDS, sheet.headers, options.mapping);
+  const missingColumns = ASSET_IMPORT_FIELDS.filter((field) => field.required && !mapping[field.key]);
+  if (missingColumns.length) {
+    throw Object.assign(
+      new Error(`Colunas obrigatórias sem correspondência: ${missingColumns.map((field) => field.label).join(", ")}`),
+      { code: "MISSING_COLUMNS", mapping }
+    );
+  }
+
+  const db = prisma as any;
+  const [classes, models, locations, services, existingAssets] = await Promise.all([
+    db.municipalAssetClass.findMany({
+      where: { tenantId },
+      select: {
+        id: true,
+        key: true,
+        name: true,
+        isActive: true,
+        requiresSerialNumber: true,
+        defaultUsefulLifeMonths: true,
+        defaultDepreciationMethod: true,
+      },
+    }),
+    db.municipalAssetModel.findMany({
+      where: { tenantId },
+      select: { id: true, brand: true, model: true, classId: true, isActive: true },
+    }),
+    db.municipalAssetLocation.findMany({
+      where: { tenantId },
+      select: { id: true, code: true, name: true, parentId: true, level: true },
+    }),
+    db.requestingService.findMany({ select: { id: true, codigo: true, ativo: true } }),
+    db.municipalAsset.findMany({
+      where: { tenantId },
+      select: { code: true, serialNumber: true, assetTag: true },
+    }),
+  ]);
+
+  const classByKey = new Map<string, any>(classes.map((c: any) => [codeKey(c.key), c]));
+  const modelByName = new Map<string, any>(models.map((m: any) => [`${codeKey(m.brand)}|${codeKey(m.model)}`, m]));
+  const serviceByCode = new Map<string, any>(services.map((s: any) => [codeKey(s.codigo), s]));
+  const usedCodes = new Set<string>(existingAssets.map((a: any) => codeKey(a.code)));
+  const usedSerials = new Set<string>(existingAssets.filter((a: any) => a.serialNumber).map((a: any) => codeKey(a.serialNumber)));
+  const usedTags = new Set<string>(existingAssets.filter((a: any) => a.assetTag).map((a: any) => codeKey(a.assetTag)));
+  const newLocations = new Map<string, string>();
+
+  const planned: PlannedAsset[] = sheet.rows.map((source, index) => {
+    const row: Record<string, string> = {};
+    for (const [key, header] of Object.entries(mapping)) row[key] = source[header] ?? "";
+
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const data: Record<string, any> = {};
+    let locationSegments: string[] = [];
+
+    if (!row.name) errors.push("Designação em falta");
+    else if (row.name.length > 160) errors.push("Designação demasiado longa");
+    else data.name = row.name;
+    if (row.description) data.description = row.description;
+    if (row.notes) data.notes = row.notes;
+
+    if (row.code) {
+      if (row.code.length > 60) errors.push("Código demasiado longo");
+      else if (usedCodes.has(codeKey(row.code))) errors.push(`Código ${row.code} já existe`);
+      else data.code = row.code;
+      usedCodes.add(codeKey(row.code));
+    }
+
+    let assetClass: any = null;
+    if (row.classKey) {
+      assetClass = classByKey.get(codeKey(row.classKey));
+      if (!assetClass) errors.push(`Classe "${row.classKey}" não existe`);
+      else if (!assetClass.isActive) errors.push(`Classe "${row.classKey}" está inativa`);
+      else {
+        data.classId = assetClass.id;
+        data.category = assetClass.name;
+        data.usefulLifeMonths = assetClass.defaultUsefulLifeMonths ?? null;
+        data.depreciationMethod = assetClass.defaultDepreciationMethod ?? "NONE";
+      }
+    }
+
+    if (row.brand || row.model) {
+      const model = modelByName.get(`${codeKey(row.brand ?? "")}|${codeKey(row.model ?? "")}`);
+      if (!row.brand || !row.model) errors.push("Marca e modelo devem ser indicados em conjunto");
+      else if (!model) errors.push(`Modelo "${row.brand} ${row.model}" não existe`);
+      else if (!model.isActive) errors.push(`Modelo "${row.brand} ${row.model}" está inativo`);
+      else if (assetClass && model.classId && model.classId !== assetClass.id) {
+        errors.push(`Modelo "${row.brand} ${row.model}" pertence a outra classe`);
+      } else data.modelId = model.id;
+    }
+
+    if (row.locationPath) {
+      locationSegments = splitLocationPath(row.locationPath);
+      const { matched, missing } = resolveLocationPath(locations, locationSegments);
+      if (missing.length) {
+        newLocations.set(locationSegments.map(codeKey).join(">"), locationSegments.join(" > "));
+      } else if (matched) {
+        data.locationId = matched.id;
+      }
+      data.location = locationSegments[locationSegments.length - 1] ?? null;
+    }
+
+    if (row.serviceCode) {
+      const service = serviceByCode.get(codeKey(row.serviceCode));
+      if (!service) errors.push(`Serviço "${row.serviceCode}" não existe`);
+      else {
+        if (!service.ativo) warnings.push(`Serviço "${row.serviceCode}" está inativo`);
+        data.requestingServiceId = service.id;
+      }
+    }
+
+    if (row.serialNumber) {
+      if (row.serialNumber.length > 160) errors.push("Número de série demasiado longo");
+      else if (usedSerials.has(codeKey(row.serialNumber))) errors.push(`Número de série ${row.serialNumber} já registado`);
+      else data.serialNumber = row.serialNumber;
+      usedSerials.add(codeKey(row.serialNumber));
+    } else if (assetClass?.requiresSerialNumber) {
+      errors.push("A classe exige número de série");
+    }
+
+    if (row.assetTag) {
+      if (row.assetTag.length > 160) errors.push("Etiqueta demasiado longa");
+      else if (usedTags.has(codeKey(row.assetTag))) errors.push(`Etiqueta ${row.assetTag} já registada`);
+      else data.assetTag = row.assetTag;
+      usedTags.add(codeKey(row.assetTag));
+    }
+
+    if (row.status) {
+      const status = row.status.trim().toUpperCase();
+      if ((ASSET_STATUSES as readonly string[]).includes(status)) data.status = status;
+      else errors.push(`Estado "${row.status}" inválido`);
+    }
+
+    if (row.criticality) {
+      const criticality = CRITICALITY_LABELS[codeKey(row.criticality).normalize("NFD").replace(/[\u0300-\u036f]/g, "")];
+      if (criticality) data.criticality = criticality;
+      else errors.push(`Criticidade "${row.criticality}" inválida`);
+    }
+
+    if (row.acquisitionDate) {
+      const date = parseImportDate(row.acquisitionDate);
+      if (!date) errors.push("Data de aquisição inválida (usar dd/mm/aaaa)");
+      else if (date > new Date()) errors.push("Data de aquisição no futuro");
+      else data.acquisitionDate = date;
+    }
+
+    if (row.acquisitionValue) {
+      const value = parseImportNumber(row.acquisitionValue);
+      if (value === null || Number.isNaN(value) || value < 0) errors.push("Valor de aquisição inválido");
+      else data.acquisitionValue = value;
+    }
+
+    if (row.usefulLifeMonths) {
+      const months = parseImportNumber(row.usefulLifeMonths);
+      if (months === null || Number.isNaN(months) || !Number.isInteger(months) || months <= 0) {
+        errors.push("Vida útil inválida");
+      } else {
+        data.usefulLifeMonths = months;
+        if (!assetClass?.defaultDepreciationMethod) data.depreciationMethod = "STRAIGHT_LINE";
+      }
+    }
+    if (data.depreciationMethod === "STRAIGHT_LINE" && (data.acquisitionValue == null || !data.acquisitionDate)) {
+      warnings.push("Sem valor ou data de aquisição: o bem não será amortizado");
+    }
+
+    return {
+      row: index + 2,
+      key: row.code || row.name || "",
+      action: errors.length ? "SKIP" : "CREATE",
+      errors,
+      warnings,
+      data,
+      locationSegments,
+    };
+  });
+
+  const report: AssetImportReport = {
+    headers: sheet.headers,
+    mapping,
+    totalRows: planned.length,
+    validRows: planned.filter((row) => !row.errors.length).length,
+    errorRows: planned.filter((row) => row.errors.length).length,
+    toCreate: planned.filter((row) => row.action === "CREATE").length,
+    newLocations: Array.from(newLocations.values()),
+    rows: planned.map(({ data: _data, locationSegments: _segments, ...row }) => row),
+  };
+
+  return { report, planned, locations: locations as LocationNode[] };
+}
+
+export async function validateAssetImport(tenantId: string, sheet: ParsedSheet, options: AssetImportOptions) {
+  const { report } = await planAssetImport(tenantId, sheet, options);
+  return report;
+}
+
+/**
+ * Creates every asset of the sheet in one transaction, with the same REGISTER event, movement
+ * and initial assignment as a single registration. Missing location levels are created on the
+ * way. Nothing is written when any row has errors.
+ */
+export async function commitAssetImport(
+  tenantId: string,
+  sheet: ParsedSheet,
+  options: AssetImportOptions & { actorUserId: string; fileName?: string }
+) {
+  const { report, planned, locations } = await planAssetImport(tenantId, sheet, options);
+  if (report.errorRows > 0) {
+    throw Object.assign(new Error("O ficheiro tem linhas com erros"), { code: "IMPORT_HAS_ERRORS", report });
+  }
+
+  const year = new Date().getFullYear();
+  const batch = String(Date.now()).slice(-6);
+  const movementNote = options.fileName ? `Importação de cadastro (${options.fileName})` : "Importação de cadastro";
+
+  const assetIds = await prisma.$transaction(
+    async (tx) => {
+      const txAny = tx as any;
+      const tree = [...locations];
+      const ids: string[] = [];
+
+      const ensureLocation = async (segments: string[]) => {
+        const { matched, missing } = resolveLocationPath(tree, segments);
+        let parent = matched;
+        for (const name of missing) {
+          const created = await txAny.municipalAssetLocation.create({
+            data: { tenantId, name, parentId: parent?.id ?? null, level: parent ? parent.level + 1 : 0 },
+            select: { id: true, code: true, name: true, parentId: true, level: true },
+          });
+          tree.push(created);
+          parent = created;
+        }
+        return parent;
+      };
+
+      for (const [index, row] of planned.entries()) {
+        const data = { ...row.data };
+        if (row.locationSegments.length && !data.locationId) {
+          data.locationId = (await ensureLocation(row.locationSegments))?.id ?? null;
+        }
+        const status = data.status ?? "REGISTERED";
+
+        const asset = await txAny.municipalAsset.create({
+          data: {
+            tenantId,
+            code: data.code ?? `AST-${year}-${batch}-${index + 1}`,
+            name: data.name,
+            description: data.description ?? null,
+            category: data.category ?? null,
+            status,
+            location: data.location ?? null,
+            serialNumber: data.serialNumber ?? null,
+            assetTag: data.assetTag ?? null,
+            criticality: data.criticality ?? "OPERATIONAL",
+            usefulLifeMonths: data.usefulLifeMonths ?? null,
+            depreciationMethod: data.depreciationMethod ?? "NONE",
+            notes: data.notes ?? null,
+            acquisitionDate: data.acquisitionDate ?? null,
+            acquisitionValue: data.acquisitionValue ?? null,
+            requestingServiceId: data.requestingServiceId ?? null,
+            classId: data.classId ?? null,
+            modelId: data.modelId ?? null,
+            locationId: data.locationId ?? null,
+          },
+          select: { id: true },
+        });
+
+        await recordMunicipalAssetEvent(txAny, {
+          tenantId,
+          assetId: asset.id,
+          fromStatus: null,
+          toStatus: status,
+          note: "Ativo registado por importação",
+          actorUserId: options.actorUserId,
+        });
+
+        await txAny.municipalAssetMovement.create({
+          data: {
+            tenantId,
+            assetId: asset.id,
+            type: "REGISTER",
+            statusFrom: null,
+            statusTo: status,
+            actorUserId: options.actorUserId,
+            note: movementNote,
+            toRequestingServiceId: data.requestingServiceId ?? null,
+            toLocationId: data.locationId ?? null,
+          },
+        });
+
+        if (data.requestingServiceId) {
+          await txAny.municipalAssetAssignment.create({
+            data: {
+              tenantId,
+              assetId: asset.id,
+              requestingServiceId: data.requestingServiceId,
+              note: "Atribuição inicial",
+            },
+          });
+        }
+
+        ids.push(asset.id);
+      }
+
+      return ids;
+    },
+    // Registers of a few thousand assets need more than the default 5s interactive window.
+    { timeout: 120_000, maxWait: 10_000 }
+  );
+
+  return { ...report, assetIds };
+}
@@ -0,0 +1,283 @@
+import crypto from "crypto";
+import type { AuditSource, Prisma, PrismaClient } from "@prisma/client";
+import { prisma } from "@/prisma/client";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export const AUDIT_GENESIS_HASH = "0".repeat(64);
+const VERIFY_BATCH_SIZE = 1000;
+
+export type AuditEntryInput = {
+  tenantId: string;
+  source: AuditSource;
+  sourceId?: string | null;
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  actorUserId?: string | null;
+  note?: string | null;
+  payload?: unknown;
+};
+
+type ChainedFields = {
+  tenantId: string;
+  seq: number;
+  prevHash: string;
+  createdAt: Date;
+  source: string;
+  sourceId: string | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  actorUserId: string | null;
+  note: string | null;
+  payload: unknown;
+};
+
+/** JSON with object keys sorted, so the hash does not depend on key order or jsonb normalisation. */
+function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== "object") return JSON.stringify(value ?? null);
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+}
+
+export function computeAuditHash(entry: ChainedFields) {
+  const material = canonicalJson({
+    v: 1,
+    tenantId: entry.tenantId,
+    seq: entry.seq,
+    prevHash: entry.prevHash,
+    createdAt: entry.createdAt.toISOString(),
+    source: entry.source,
+    sourceId: entry.sourceId,
+    action: entry.action,
+    entityType: entry.entityType,
+    entityId: entry.entityId,
+    actorUserId: entry.actorUserId,
+    note: entry.note,
+    payload: entry.payload ?? null,
+  });
+  return crypto.createHash("sha256").update(material).digest("hex");
+}
+
+async function inTransaction<T>(db: Db, fn: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+  // Interactive transaction clients hide $transaction, so this tells a root client from a tx.
+  if (typeof (db as any).$transaction === "function") return (db as PrismaClient).$transaction(fn);
+  return fn(db);
+}
+
+/**
+ * Appends to the tenant's chain. Writers of the same tenant are serialised with a transaction-scoped
+ * advisory lock, so when called inside a caller's transaction the entry commits or rolls back with it.
+ */
+export async function appendAuditLog(db: Db, input: AuditEntryInput) {
+  return inTransaction(db, async (tx) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`audit-log:${input.tenantId}`}))`;
+    const last = await tx.auditLog.findFirst({
+      where: { tenantId: input.tenantId },
+      orderBy: { seq: "desc" },
+      select: { seq: true, hash: true },
+    });
+
+    // Round-trip through JSON so what is hashed is exactly what jsonb stores (no Dates/undefined).
+    const payload = input.payload == null ? null : JSON.parse(JSON.stringify(input.payload));
+    const fields: ChainedFields = {
+      tenantId: input.tenantId,
+      seq: (last?.seq ?? 0) + 1,
+      prevHash: last?.hash ?? AUDIT_GENESIS_HASH,
+      createdAt: new Date(),
+      source: input.source,
+      sourceId: input.sourceId ?? null,
+      action: input.action,
+      entityType: input.entityType,
+      entityId: input.entityId ?? null,
+      actorUserId: input.actorUserId ?? null,
+      note: input.note ?? null,
+      payload,
+    };
+
+    return tx.auditLog.create({
+      data: {
+        ...fields,
+        source: input.source,
+        payload: payload ?? undefined,
+        hash: computeAuditHash(fields),
+      },
+    });
+  });
+}
+
+// Adapters: each legacy audit table keeps its row and the same fact lands in the unified chain.
+
+export async function recordUserAdminAudit(db: Db, data: Prisma.UserAdminAuditUncheckedCreateInput) {
+  return inTransaction(db, async (tx) => {
+    const row = await tx.userAdminAudit.create({ data });
+    await appendAuditLog(tx, {
+      tenantId: row.tenantId,
+      source: "USER_ADMIN",
+      sourceId: row.id,
+      action: row.action,
+      entityType: row.targetType,
+      entityId: row.targetUserId,
+      actorUserId: row.actorUserId,
+      note: row.note,
+      payload: row.payload,
+    });
+    return row;
+  });
+}
+
+export async function recordRbacAudit(db: Db, data: Prisma.RbacAuditUncheckedCreateInput) {
+  return inTransaction(db, async (tx) => {
+    const row = await tx.rbacAudit.create({ data });
+    const payload = (row.payload ?? {}) as Record<string, any>;
+    await appendAuditLog(tx, {
+      tenantId: row.tenantId,
+      source: "RBAC",
+      sourceId: row.id,
+      action: row.action,
+      entityType: payload.roleId && !payload.userId ? "ACCESS_ROLE" : "USER",
+      entityId: payload.userId ?? payload.roleId ?? null,
+      actorUserId: row.actorUserId,
+      note: row.note,
+      payload: row.payload,
+    });
+    return row;
+  });
+}
+
+export async function recordTicketAudit(db: Db, data: Prisma.TicketAuditUncheckedCreateInput) {
+  return inTransaction(db, async (tx) => {
+    const row = await tx.ticketAudit.create({ data });
+    await appendAuditLog(tx, {
+      tenantId: row.tenantId,
+      source: "TICKET",
+      sourceId: row.id,
+      action: row.action,
+      entityType: "TICKET",
+      entityId: row.ticketId,
+      actorUserId: row.actorUserId,
+      note: row.note,
+      payload: row.data,
+    });
+    return row;
+  });
+}
+
+export async function recordRequestStatusAudit(db: Db, data: Prisma.RequestStatusAuditUncheckedCreateInput) {
+  return inTransaction(db, async (tx) => {
+    const row = await tx.requestStatusAudit.create({ data });
+    await appendAuditLog(tx, {
+      tenantId: row.tenantId,
+      source: "REQUEST_STATUS",
+      sourceId: row.id,
+      action: "STATUS_CHANGED",
+      entityType: "REQUEST",
+      entityId: row.requestId,
+      actorUserId: row.changedByUserId,
+      note: row.note,
+      payload: { fromStatus: row.fromStatus, toStatus: row.toStatus, source: row.source },
+    });
+    return row;
+  });
+}
+
+export async function recordMunicipalAssetEvent(db: Db, data: Prisma.MunicipalAssetEventUncheckedCreateInput) {
+  return inTransaction(db, async (tx) => {
+    const row = await tx.municipalAssetEvent.create({ data });
+    await appendAuditLog(tx, {
+      tenantId: row.tenantId,
+      source: "MUNICIPAL_ASSET",
+      sourceId: row.id,
+      action: row.fromStatus ? "STATUS_CHANGED" : "CREATED",
+      entityType: "MUNICIPAL_ASSET",
+      entityId: row.assetId,
+      actorUserId: row.actorUserId,
+      note: row.note,
+      payload: { fromStatus: row.fromStatus, toStatus: row.toStatus },
+    });
+    return row;
+  });
+}
+
+export async function recordFinanceProcessEvent(db: Db, data: Prisma.FinanceProcessEventUncheckedCreateInput) {
+  return inTransaction(db, async (tx) => {
+    const row = await tx.financeProcessEvent.create({ data });
+    await appendAuditLog(tx, {
+      tenantId: row.tenantId,
+      source: "FINANCE_PROCESS",
+      sourceId: row.id,
+      action: row.fromStatus ? "STATUS_CHANGED" : "CREATED",
+      entityType: "FINANCE_PROCESS",
+      entityId: row.financeProcessId,
+      actorUserId: row.actorUserId,
+      note: row.note,
+      payload: { fromStatus: row.fromStatus, toStatus: row.toStatus },
+    });
+    return row;
+  });
+}
+
+export async function recordWorkflowEvent(db: Db, data: Prisma.WorkflowEventUncheckedCreateInput) {
+  return inTransaction(db, async (tx) => {
+    const row = await tx.workflowEvent.create({ data });
+    await appendAuditLog(tx, {
+      tenantId: row.tenantId,
+      source: "WORKFLOW",
+      sourceId: row.id,
+      action: row.action,
+      entityType: "WORKFLOW_INSTANCE",
+      entityId: row.instanceId,
+      actorUserId: row.actorUserId,
+      note: row.note,
+      payload: {
+        fromStateId: row.fromStateId,
+        toStateId: row.toStateId,
+        ...(row.onBehalfOfUserId ? { onBehalfOfUserId: row.onBehalfOfUserId } : {}),
+      },
+    });
+    return row;
+  });
+}
+
+export type AuditChainBreak = {
+  seq: number;
+  id: string | null;
+  reason: "MISSING_ENTRY" | "PREV_HASH_MISMATCH" | "HASH_MISMATCH";
+};
+
+/** Recomputes the tenant's chain from the start and reports the first entry that does not fit. */
+export async function verifyAuditChain(tenantId: string) {
+  let expectedSeq = 1;
+  let prevHash = AUDIT_GENESIS_HASH;
+  let checked = 0;
+
+  for (;;) {
+    const rows = await prisma.auditLog.findMany({
+      where: { tenantId, seq: { gte: expectedSeq } },
+      orderBy: { seq: "asc" },
+      take: VERIFY_BATCH_SIZE,
+    });
+    if (!rows.length) break;
+
+    for (const row of rows) {
+      let failure: AuditChainBreak | null = null;
+      if (row.seq !== expectedSeq) failure = { seq: expectedSeq, id: null, reason: "MISSING_ENTRY" };
+      else if (row.prevHash !== prevHash) failure = { seq: row.seq, id: row.id, reason: "PREV_HASH_MISMATCH" };
+      else if (computeAuditHash({ ...row, payload: row.payload }) !== row.hash) {
+        failure = { seq: row.seq, id: row.id, reason: "HASH_MISMATCH" };
+      }
+      if (failure) {
+        return { ok: false as const, checked, headSeq: expectedSeq - 1, headHash: prevHash, firstBreak: failure };
+      }
+      checked += 1;
+      prevHash = row.hash;
+      expectedSeq += 1;
+    }
+  }
+
+  return { ok: true as const, checked, headSeq: expectedSeq - 1, headHash: prevHash, firstBreak: null };
+}
@@ -0,0 +1,488 @@
+import type { AuditSource, Prisma } from "@prisma/client";
+import { prisma } from "@/prisma/client";
+
+// Merging happens in memory, so deep pages and exports are bounded.
+export const AUDIT_TIMELINE_MAX_WINDOW = 5000;
+
+export const AUDIT_SOURCES: AuditSource[] = [
+  "USER_ADMIN",
+  "RBAC",
+  "TICKET",
+  "REQUEST_STATUS",
+  "MUNICIPAL_ASSET",
+  "FINANCE_PROCESS",
+  "WORKFLOW",
+];
+
+export type AuditTimelineFilters = {
+  tenantId: string;
+  actorUserId?: string;
+  action?: string;
+  from?: Date | null;
+  to?: Date | null;
+  sources?: AuditSource[];
+  scope?: AuditEntityScope | null;
+};
+
+export type AuditEntityRef = { type: string; id: string; label: string };
+
+/** An entity plus everything hanging off it (e.g. a request's assets, finance processes and tickets). */
+export type AuditEntityScope = {
+  root: AuditEntityRef;
+  requestIds: string[];
+  ticketIds: string[];
+  assetIds: string[];
+  financeProcessIds: string[];
+  workflowInstanceIds: string[];
+  userIds: string[];
+  related: AuditEntityRef[];
+};
+
+export type AuditTimelineEntry = {
+  id: string;
+  source: AuditSource;
+  createdAt: string;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  entityLabel: string | null;
+  actor: { id: string; name: string; email: string } | null;
+  note: string | null;
+  details: unknown;
+  chainSeq: number | null;
+};
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const actorSelect = { select: { id: true, name: true, email: true } } as const;
+
+function emptyScope(root: AuditEntityRef): AuditEntityScope {
+  return {
+    root,
+    requestIds: [],
+    ticketIds: [],
+    assetIds: [],
+    financeProcessIds: [],
+    workflowInstanceIds: [],
+    userIds: [],
+    related: [],
+  };
+}
+
+async function expandRequest(tenantId: string, scope: AuditEntityScope, requestId: string) {
+  const [assets, finance, links] = await Promise.all([
+    prisma.municipalAsset.findMany({ where: { tenantId, requestId }, select: { id: true, code: true } }),
+    prisma.financeProcess.findMany({ where: { tenantId, requestId }, select: { id: true, code: true } }),
+    prisma.ticketRequestLink.findMany({
+      where: { tenantId, requestId },
+      select: { ticket: { select: { id: true, code: true } } },
+    }),
+  ]);
+  scope.requestIds.push(requestId);
+  for (const a of assets) {
+    scope.assetIds.push(a.id);
+    scope.related.push({ type: "MUNICIPAL_ASSET", id: a.id, label: a.code });
+  }
+  for (const f of finance) {
+    scope.financeProcessIds.push(f.id);
+    scope.related.push({ type: "FINANCE_PROCESS", id: f.id, label: f.code });
+  }
+  for (const l of links) {
+    scope.ticketIds.push(l.ticket.id);
+    scope.related.push({ type: "TICKET", id: l.ticket.id, label: l.ticket.code });
+  }
+}
+
+async function collectWorkflowInstances(tenantId: string, scope: AuditEntityScope) {
+  const or: Prisma.WorkflowInstanceWhereInput[] = [];
+  if (scope.requestIds.length) or.push({ requestId: { in: scope.requestIds } });
+  if (scope.assetIds.length) or.push({ municipalAssetId: { in: scope.assetIds } });
+  if (scope.financeProcessIds.length) or.push({ financeProcessId: { in: scope.financeProcessIds } });
+  if (!or.length) return;
+  const instances = await prisma.workflowInstance.findMany({ where: { tenantId, OR: or }, select: { id: true } });
+  scope.workflowInstanceIds.push(...instances.map((i) => i.id));
+}
+
+/**
+ * Resolves what an auditor types (GTMI number, ticket/asset/finance code, user e-mail or a raw id)
+ * to the entity and, when `includeRelated`, the records linked to it. Returns null when nothing matches.
+ */
+export async function resolveAuditEntity(
+  tenantId: string,
+  ref: string,
+  includeRelated = true
+): Promise<AuditEntityScope | null> {
+  const term = ref.trim();
+  if (!term) return null;
+  const isId = UUID_RE.test(term);
+  const code = { equals: term, mode: "insensitive" as const };
+
+  const request = await prisma.request.findFirst({
+    where: { tenantId, ...(isId ? { id: term } : { gtmiNumber: code }) },
+    select: { id: true, gtmiNumber: true },
+  });
+  if (request) {
+    const scope = emptyScope({ type: "REQUEST", id: request.id, label: request.gtmiNumber });
+    if (!includeRelated) {
+      scope.requestIds.push(request.id);
+      return scope;
+    }
+    await expandRequest(tenantId, scope, request.id);
+    await collectWorkflowInstances(tenantId, scope);
+    return scope;
+  }
+
+  const ticket = await prisma.ticket.findFirst({
+    where: { tenantId, ...(isId ? { id: term } : { code }) },
+    select: { id: true, code: true },
+  });
+  if (ticket) {
+    const scope = emptyScope({ type: "TICKET", id: ticket.id, label: ticket.code });
+    scope.ticketIds.push(ticket.id);
+    return scope;
+  }
+
+  const asset = await prisma.municipalAsset.findFirst({
+    where: { tenantId, ...(isId ? { id: term } : { code }) },
+    select: { id: true, code: true },
+  });
+  if (asset) {
+    const scope = emptyScope({ type: "MUNICIPAL_ASSET", id: asset.id, label: asset.code });
+    scope.assetIds.push(asset.id);
+    if (includeRelated) await collectWorkflowInstances(tenantId, scope);
+    return scope;
+  }
+
+  const finance = await prisma.financeProcess.findFirst({
+    where: { tenantId, ...(isId ? { id: term } : { code }) },
+    select: { id: true, code: true },
+  });
+  if (finance) {
+    const scope = emptyScope({ type: "FINANCE_PROCESS", id: finance.id, label: finance.code });
+    scope.financeProcessIds.push(finance.id);
+    if (includeRelated) await collectWorkflowInstances(tenantId, scope);
+    return scope;
+  }
+
+  const user = await prisma.user.findFirst({
+    where: { tenantId, ...(isId ? { id: term } : { email: code }) },
+    select: { id: true, name: true },
+  });
+  if (user) {
+    const scope = emptyScope({ type: "USER", id: user.id, label: user.name });
+    scope.userIds.push(user.id);
+    return scope;
+  }
+
+  return null;
+}
+
+/**
+ * Status tables have no action column; the timeline names them the same way the unified audit log
+ * does ("CREATED" for the first event of an asset/finance process, "STATUS_CHANGED" otherwise).
+ * Returns undefined when the action filter matches every row, null when it matches none.
+ */
+function syntheticActionWhere(action: string | undefined, withCreated: boolean) {
+  if (!action) return undefined;
+  const term = action.toUpperCase();
+  const changed = "STATUS_CHANGED".includes(term);
+  const created = withCreated && "CREATED".includes(term);
+  if (changed && (created || !withCreated)) return undefined;
+  if (changed) return { fromStatus: { not: null } };
+  if (created) return { fromStatus: null };
+  return null;
+}
+
+function dateWhere(filters: AuditTimelineFilters) {
+  if (!filters.from && !filters.to) return undefined;
+  return { gte: filters.from ?? undefined, lte: filters.to ?? undefined };
+}
+
+function wants(filters: AuditTimelineFilters, source: AuditSource) {
+  return !filters.sources?.length || filters.sources.includes(source);
+}
+
+/** Runs one query per legacy table, each limited to `take` newest rows, and returns the rows plus totals. */
+async function querySources(filters: AuditTimelineFilters, take: number) {
+  const { tenantId, actorUserId, scope } = filters;
+  const createdAt = dateWhere(filters);
+  const action = filters.action ? { contains: filters.action, mode: "insensitive" as const } : undefined;
+  const base = { tenantId, ...(createdAt ? { createdAt } : {}) };
+  const jobs: Array<Promise<{ rows: AuditTimelineEntry[]; total: number }>> = [];
+
+  const run = <T>(
+    findMany: () => Promise<T[]>,
+    count: () => Promise<number>,
+    map: (row: T) => AuditTimelineEntry
+  ) => jobs.push(Promise.all([findMany(), count()]).then(([rows, total]) => ({ rows: rows.map(map), total })));
+
+  if (wants(filters, "USER_ADMIN") && (!scope || scope.userIds.length)) {
+    const where: Prisma.UserAdminAuditWhereInput = {
+      ...base,
+      ...(actorUserId ? { actorUserId } : {}),
+      ...(action ? { action } : {}),
+      ...(scope ? { targetUserId: { in: scope.userIds } } : {}),
+    };
+    run(
+      () =>
+        prisma.userAdminAudit.findMany({
+          where,
+          orderBy: { createdAt: "desc" },
+          take,
+          include: { actor: actorSelect, targetUser: { select: { name: true, email: true } } },
+        }),
+      () => prisma.userAdminAudit.count({ where }),
+      (r) => ({
+        id: r.id,
+        source: "USER_ADMIN",
+        createdAt: r.createdAt.toISOString(),
+        action: r.action,
+        entityType: r.targetType,
+        entityId: r.targetUserId,
+        entityLabel: r.targetUser ? r.targetUser.name || r.targetUser.email : null,
+        actor: r.actor,
+        note: r.note,
+        details: r.payload,
+        chainSeq: null,
+      })
+    );
+  }
+
+  if (wants(filters, "RBAC") && (!scope || scope.userIds.length)) {
+    const where: Prisma.RbacAuditWhereInput = {
+      ...base,
+      ...(actorUserId ? { actorUserId } : {}),
+      ...(action ? { action } : {}),
+      ...(scope ? { OR: scope.userIds.map((id) => ({ payload: { path: ["userId"], equals: id } })) } : {}),
+    };
+    run(
+      () =>
+        prisma.rbacAudit.findMany({ where, orderBy: { createdAt: "desc" }, take, include: { actor: actorSelect } }),
+      () => prisma.rbacAudit.count({ where }),
+      (r) => {
+        const payload = (r.payload ?? {}) as Record<string, any>;
+        const isRole = Boolean(payload.roleId && !payload.userId);
+        return {
+          id: r.id,
+          source: "RBAC",
+          createdAt: r.createdAt.toISOString(),
+          action: r.action,
+          entityType: isRole ? "ACCESS_ROLE" : "USER",
+          entityId: (payload.userId ?? payload.roleId ?? null) as string | null,
+          entityLabel: null,
+          actor: r.actor,
+          note: r.note,
+          details: r.payload,
+          chainSeq: null,
+        };
+      }
+    );
+  }
+
+  if (wants(filters, "TICKET") && (!scope || scope.ticketIds.length)) {
+    const where: Prisma.TicketAuditWhereInput = {
+      ...base,
+      ...(actorUserId ? { actorUserId } : {}),
+      ...(action ? { action } : {}),
+      ...(scope ? { ticketId: { in: scope.ticketIds } } : {}),
+    };
+    run(
+      () =>
+        prisma.ticketAudit.findMany({
+          where,
+          orderBy: { createdAt: "desc" },
+          take,
+          include: { actor: actorSelect, ticket: { select: { code: true } } },
+        }),
+      () => prisma.ticketAudit.count({ where }),
+      (r) => ({
+        id: r.id,
+        source: "TICKET",
+        createdAt: r.createdAt.toISOString(),
+        action: r.action,
+        entityType: "TICKET",
+        entityId: r.ticketId,
+        entityLabel: r.ticket.code,
+        actor: r.actor,
+        note: r.note,
+        details: r.data,
+        chainSeq: null,
+      })
+    );
+  }
+
+  const requestAction = syntheticActionWhere(filters.action, false);
+  if (wants(filters, "REQUEST_STATUS") && requestAction !== null && (!scope || scope.requestIds.length)) {
+    const where: Prisma.RequestStatusAuditWhereInput = {
+      ...base,
+      ...(actorUserId ? { changedByUserId: actorUserId } : {}),
+      ...(scope ? { requestId: { in: scope.requestIds } } : {}),
+    };
+    run(
+      () =>
+        prisma.requestStatusAudit.findMany({
+          where,
+          orderBy: { createdAt: "desc" },
+          take,
+          include: { changedBy: actorSelect, request: { select: { gtmiNumber: true } } },
+        }),
+      () => prisma.requestStatusAudit.count({ where }),
+      (r) => ({
+        id: r.id,
+        source: "REQUEST_STATUS",
+        createdAt: r.createdAt.toISOString(),
+        action: "STATUS_CHANGED",
+        entityType: "REQUEST",
+        entityId: r.requestId,
+        entityLabel: r.request.gtmiNumber,
+        actor: r.changedBy,
+        note: r.note,
+        details: { fromStatus: r.fromStatus, toStatus: r.toStatus, source: r.source },
+        chainSeq: null,
+      })
+    );
+  }
+
+  const assetAction = syntheticActionWhere(filters.action, true);
+  if (wants(filters, "MUNICIPAL_ASSET") && assetAction !== null && (!scope || scope.assetIds.length)) {
+    const where: Prisma.MunicipalAssetEventWhereInput = {
+      ...base,
+      ...(assetAction ?? {}),
+      ...(actorUserId ? { actorUserId } : {}),
+      ...(scope ? { assetId: { in: scope.assetIds } } : {}),
+    };
+    run(
+      () =>
+        prisma.municipalAssetEvent.findMany({
+          where,
+          orderBy: { createdAt: "desc" },
+          take,
+          include: { actor: actorSelect, asset: { select: { code: true } } },
+        }),
+      () => prisma.municipalAssetEvent.count({ where }),
+      (r) => ({
+        id: r.id,
+        source: "MUNICIPAL_ASSET",
+        createdAt: r.createdAt.toISOString(),
+        action: r.fromStatus ? "STATUS_CHANGED" : "CREATED",
+        entityType: "MUNICIPAL_ASSET",
+        entityId: r.assetId,
+        entityLabel: r.asset.code,
+        actor: r.actor,
+        note: r.note,
+        details: { fromStatus: r.fromStatus, toStatus: r.toStatus },
+        chainSeq: null,
+      })
+    );
+  }
+
+  if (wants(filters, "FINANCE_PROCESS") && assetAction !== null && (!scope || scope.financeProcessIds.length)) {
+    const where: Prisma.FinanceProcessEventWhereInput = {
+      ...base,
+      ...(assetAction ?? {}),
+      ...(actorUserId ? { actorUserId } : {}),
+      ...(scope ? { financeProcessId: { in: scope.financeProcessIds } } : {}),
+    };
+    run(
+      () =>
+        prisma.financeProcessEvent.findMany({
+          where,
+          orderBy: { createdAt: "desc" },
+          take,
+          include: { actor: actorSelect, financeProcess: { select: { code: true } } },
+        }),
+      () => prisma.financeProcessEvent.count({ where }),
+      (r) => ({
+        id: r.id,
+        source: "FINANCE_PROCESS",
+        createdAt: r.createdAt.toISOString(),
+        action: r.fromStatus ? "STATUS_CHANGED" : "CREATED",
+        entityType: "FINANCE_PROCESS",
+        entityId: r.financeProcessId,
+        entityLabel: r.financeProcess.code,
+        actor: r.actor,
+        note: r.note,
+        details: { fromStatus: r.fromStatus, toStatus: r.toStatus },
+        chainSeq: null,
+      })
+    );
+  }
+
+  if (wants(filters, "WORKFLOW") && (!scope || scope.workflowInstanceIds.length)) {
+    const where: Prisma.WorkflowEventWhereInput = {
+      ...base,
+      ...(actorUserId ? { actorUserId } : {}),
+      ...(action ? { action } : {}),
+      ...(scope ? { instanceId: { in: scope.workflowInstanceIds } } : {}),
+    };
+    run(
+      () =>
+        prisma.workflowEvent.findMany({
+          where,
+          orderBy: { createdAt: "desc" },
+          take,
+          include: {
+            actor: actorSelect,
+            fromState: { select: { name: true } },
+            toState: { select: { name: true } },
+            instance: {
+              select: {
+                request: { select: { gtmiNumber: true } },
+                municipalAsset: { select: { code: true } },
+                financeProcess: { select: { code: true } },
+              },
+            },
+          },
+        }),
+      () => prisma.workflowEvent.count({ where }),
+      (r) => ({
+        id: r.id,
+        source: "WORKFLOW",
+        createdAt: r.createdAt.toISOString(),
+        action: r.action,
+        entityType: "WORKFLOW_INSTANCE",
+        entityId: r.instanceId,
+        entityLabel:
+          r.instance.request?.gtmiNumber ?? r.instance.municipalAsset?.code ?? r.instance.financeProcess?.code ?? null,
+        actor: r.actor,
+        note: r.note,
+        details: { fromState: r.fromState?.name ?? null, toState: r.toState.name },
+        chainSeq: null,
+      })
+    );
+  }
+
+  return Promise.all(jobs);
+}
+
+/** Merges the legacy audit tables into one newest-first timeline, tagged with their unified log sequence. */
+export async function searchAuditTimeline(filters: AuditTimelineFilters, page: { offset: number; limit: number }) {
+  const offset = Math.max(0, page.offset);
+  const limit = Math.max(1, Math.min(page.limit, AUDIT_TIMELINE_MAX_WINDOW - offset));
+  const results = await querySources(filters, offset + limit);
+
+  const total = results.reduce((sum, r) => sum + r.total, 0);
+  const items = results
+    .flatMap((r) => r.rows)
+    .sort((a, b) => (a.createdAt < b.createdAt ? 1 : a.createdAt > b.createdAt ? -1 : b.id.localeCompare(a.id)))
+    .slice(offset, offset + limit);
+
+  if (items.length) {
+    const chained = await prisma.auditLog.findMany({
+      where: { tenantId: filters.tenantId, sourceId: { in: items.map((i) => i.id) } },
+      select: { sourceId: true, seq: true },
+    });
+    const seqBySource = new Map(chained.map((c) => [c.sourceId, c.seq]));
+    for (const item of items) item.chainSeq = seqBySource.get(item.id) ?? null;
+  }
+
+  return { items, total };
+}
+
+/** One-line rendering of an entry's details for CSV/PDF exports. */
+export function formatAuditDetails(entry: AuditTimelineEntry) {
+  const d = entry.details as Record<string, any> | null;
+  if (!d || typeof d !== "object") return "";
+  if ("toStatus" in d) return `${d.fromStatus ?? "—"} → ${d.toStatus}`;
+  if ("toState" in d) return `${d.fromState ?? "—"} → ${d.toState}`;
+  return JSON.stringify(d);
+}
@@ -0,0 +1,100 @@
+import { formatAuditDetails, type AuditEntityScope, type AuditTimelineEntry } from "@/utils/auditTimeline";
+
+export type AuditTimelineReportData = {
+  tenantName: string;
+  generatedAt: string;
+  generatedBy: { name: string; email: string };
+  filters: Array<[string, string]>;
+  entity: AuditEntityScope | null;
+  items: AuditTimelineEntry[];
+  total: number;
+};
+
+function esc(value: unknown): string {
+  return String(value ?? "")
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+function fmtDateTime(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return d.toLocaleString("pt-PT");
+}
+
+export function renderAuditTimelineReportHtml(report: AuditTimelineReportData) {
+  const filterRows = report.filters.length
+    ? report.filters.map(([k, v]) => `<div><strong>${esc(k)}:</strong> ${esc(v)}</div>`).join("")
+    : `<div class="muted">Sem filtros</div>`;
+
+  const related = report.entity?.related.length
+    ? `<p class="muted">Inclui registos relacionados: ${report.entity.related.map((r) => esc(r.label)).join(", ")}</p>`
+    : "";
+
+  const rows = report.items
+    .map(
+      (e) => `<tr>
+        <td>${esc(fmtDateTime(e.createdAt))}</td>
+        <td>${e.chainSeq ?? "—"}</td>
+        <td>${esc(e.source)}</td>
+        <td>${esc(e.action)}</td>
+        <td>${esc(e.entityType)}<br /><span class="muted">${esc(e.entityLabel ?? e.entityId ?? "—")}</span></td>
+        <td>${esc(e.actor ? e.actor.name : "Sistema")}</td>
+        <td>${esc(formatAuditDetails(e))}${e.note ? `<br /><span class="muted">${esc(e.note)}</span>` : ""}</td>
+      </tr>`
+    )
+    .join("\n");
+
+  const truncated =
+    report.total > report.items.length
+      ? `<p class="muted">Mostrados ${report.items.length} de ${report.total} registos; refine os filtros para exportar o restante.</p>`
+      : "";
+
+  return `<!doctype html>
+<html lang="pt-PT">
+<head>
+  <meta charset="utf-8" />
+  <title>Stockly - Auditoria</title>
+  <style>
+    * { box-sizing: border-box; }
+    body { margin: 0; font-family: Arial, Helvetica, sans-serif; background: #fff; color: #111827; }
+    .page { width: 100%; margin: 0 auto; padding: 20px; }
+    .header { border-bottom: 2px solid #e5e7eb; padding-bottom: 12px; margin-bottom: 14px; }
+    .brand { font-size: 22px; font-weight: 800; }
+    .subhead { margin-top: 8px; color: #374151; font-size: 12px; display: grid; grid-template-columns: repeat(2, minmax(0,1fr)); gap: 6px; }
+    .muted { color: #6b7280; font-size: 11px; }
+    table { width: 100%; border-collapse: collapse; font-size: 10px; }
+    th, td { border: 1px solid #e5e7eb; padding: 5px 6px; text-align: left; vertical-align: top; word-break: break-word; }
+    th { background: #f3f4f6; font-weight: 700; }
+    tr { page-break-inside: avoid; }
+  </style>
+</head>
+<body>
+  <div class="page">
+    <header class="header">
+      <div class="brand">Stockly · Registo de auditoria</div>
+      <div class="subhead">
+        <div><strong>Tenant:</strong> ${esc(report.tenantName)}</div>
+        <div><strong>Gerado em:</strong> ${esc(fmtDateTime(report.generatedAt))}</div>
+        <div><strong>Gerado por:</strong> ${esc(report.generatedBy.name)} (${esc(report.generatedBy.email)})</div>
+        <div><strong>Registos:</strong> ${report.total}</div>
+        ${filterRows}
+      </div>
+      ${related}
+    </header>
+    ${truncated}
+    <table>
+      <thead>
+        <tr><th>Data</th><th>Seq.</th><th>Origem</th><th>Ação</th><th>Entidade</th><th>Ator</th><th>Detalhes</th></tr>
+      </thead>
+      <tbody>
+        ${rows || `<tr><td colspan="7">Sem registos.</td></tr>`}
+      </tbody>
+    </table>
+  </div>
+</body>
+</html>`;
+}
@@ -1,9 +1,14 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 import bcrypt from "bcryptjs";
+import crypto from "crypto";
 import jwt from "jsonwebtoken";
+import Cookies from "cookies";
 import { User as PrismaUser } from "@prisma/client";
 import { NextApiRequest, NextApiResponse } from "next";
 import { prisma } from "@/prisma/client";
+import { createUserSession, findActiveSession, SESSION_MAX_AGE_MS, touchUserSession } from "@/utils/sessions";
+import { authenticateApiToken, getBearerToken, type ApiTokenContext } from "@/utils/apiTokens";
+import { findDirectoryUser, isLdapEnabledForTenant, provisionDirectoryUser, verifyDirectoryPassword } from "@/utils/ldap";
 
 const JWT_SECRET = process.env.JWT_SECRET;
 if (!JWT_SECRET) {
@@ -16,17 +21,100 @@ if (!JWT_SECRET) {
 const EFFECTIVE_JWT_SECRET = JWT_SECRET || "dev_insecure_secret";
 
 type User = PrismaUser;
+/** Session principal; `apiToken` is set when the request authenticated with a bearer token. */
+export type SessionUser = User & { apiToken?: ApiTokenContext | null };
 type TokenRole = "USER" | "ADMIN";
-type TokenPayload = { userId: string; role?: TokenRole; uv?: number };
+type TokenPayload = { userId: string; role?: TokenRole; uv?: number; sid?: string; purpose?: "mfa" };
 
 // Check if we're on the server side
 const isServer = typeof window === 'undefined';
 
-export const generateToken = (userId: string, role: TokenRole, userVersion: number): string => {
-  const token = jwt.sign({ userId, role, uv: userVersion }, EFFECTIVE_JWT_SECRET, { expiresIn: "1h" });
+// The JWT only lives as long as the absolute session cap; idle expiry and revocation are
+// enforced through the UserSession row referenced by `sid`.
+export const generateToken = (userId: string, role: TokenRole, userVersion: number, sessionId: string): string => {
+  const token = jwt.sign({ userId, role, uv: userVersion, sid: sessionId }, EFFECTIVE_JWT_SECRET, {
+    expiresIn: Math.floor(SESSION_MAX_AGE_MS / 1000),
+  });
   return token;
 };
 
+// Short-lived proof that the password step passed; only accepted by the MFA endpoints.
+export const generateMfaToken = (userId: string, userVersion: number): string => {
+  return jwt.sign({ userId, uv: userVersion, purpose: "mfa" }, EFFECTIVE_JWT_SECRET, { expiresIn: "5m" });
+};
+
+export const verifyMfaToken = async (token: unknown): Promise<User | null> => {
+  if (typeof token !== "string" || !token || !isServer) return null;
+  try {
+    const decoded = jwt.verify(token, EFFECTIVE_JWT_SECRET) as TokenPayload;
+    if (decoded.purpose !== "mfa") return null;
+    const user = await prisma.user.findUnique({ where: { id: decoded.userId } });
+    if (!user || !user.isActive || decoded.uv !== user.updatedAt.getTime()) return null;
+    return user;
+  } catch {
+    return null;
+  }
+};
+
+const writeSessionCookies = (
+  req: NextApiRequest,
+  res: NextApiResponse,
+  args: { token: string; role: string; maxAge: number; csrfToken?: string }
+) => {
+  // Determine if the connection is secure (HTTPS)
+  // Avoid relying on NODE_ENV: running `next start` locally over http would otherwise set Secure cookies that browsers drop.
+  const forwardedProto = String(req.headers["x-forwarded-proto"] ?? "");
+  const isSecure = forwardedProto === "https" || Boolean((req.socket as any)?.encrypted);
+
+  const cookies = new Cookies(req, res, { secure: isSecure });
+  cookies.set("session_id", args.token, {
+    httpOnly: true,
+    secure: isSecure, // Browsers require Secure when SameSite=None
+    sameSite: isSecure ? "none" : "lax",
+    path: "/",
+    maxAge: args.maxAge,
+  });
+  // Also expose a non-httpOnly cookie with the user's role so middleware can enforce route-level access
+  try {
+    cookies.set("user_role", args.role, {
+      httpOnly: false,
+      secure: isSecure,
+      sameSite: isSecure ? "none" : "lax",
+      path: "/",
+      maxAge: args.maxAge,
+    });
+    cookies.set("csrf_token", args.csrfToken || crypto.randomBytes(32).toString("base64url"), {
+      httpOnly: false,
+      secure: isSecure,
+      sameSite: isSecure ? "none" : "lax",
+      path: "/",
+      maxAge: args.maxAge,
+    });
+  } catch (e) {
+    // ignore cookie set failures
+  }
+};
+
+/** Registers a server-side session and sets the session, role and CSRF cookies after a completed login. */
+export const setSessionCookies = async (req: NextApiRequest, res: NextApiResponse, user: User) => {
+  const session = await createUserSession(req, user);
+  const token = generateToken(user.id, user.role, user.updatedAt.getTime(), session.id);
+  writeSessionCookies(req, res, {
+    token,
+    role: user.role ?? "",
+    maxAge: session.expiresAt.getTime() - Date.now(),
+  });
+  return token;
+};
+
+/** Id of the registry row behind the request's session cookie, without checking that it is still valid. */
+export const getCurrentSessionId = (req: NextApiRequest): string | null => {
+  const token = req.cookies["session_id"];
+  if (!token) return null;
+  const decoded = verifyToken(token);
+  return decoded && !decoded.purpose && decoded.sid ? decoded.sid : null;
+};
+
 export const verifyToken = (token: string): TokenPayload | null => {
   if (!token || token === "null" || token === "undefined") {
     return null;
@@ -56,22 +144,43 @@ export const verifyToken = (token: string): TokenPayload | null => {
   }
 };
 
+/**
+ * Bearer tokens are only accepted by routes that pass `apiTokenScopes`: the token must carry at
+ * least one of them, and the route must still check the exact permission through the token's
+ * grants. Routes that only require "someone signed in" stay cookie-only.
+ */
+export type SessionOptions = { apiTokenScopes?: readonly string[] };
+
 export const getSessionServer = async (
   req: NextApiRequest,
-  res: NextApiResponse
-): Promise<User | null> => {
+  res: NextApiResponse,
+  options: SessionOptions = {}
+): Promise<SessionUser | null> => {
+  // Integrations authenticate with `Authorization: Bearer`; the cookie is then ignored entirely.
+  const bearer = getBearerToken(req);
+  if (bearer) {
+    const scopes = options.apiTokenScopes ?? [];
+    if (!scopes.length) return null;
+    const user = await authenticateApiToken(req, bearer);
+    if (!user || !user.apiToken.scopes.some((scope) => scopes.includes(scope))) return null;
+    return user;
+  }
+
   const token = req.cookies["session_id"];
   if (!token) {
     return null;
   }
 
   const decoded = verifyToken(token);
-  if (!decoded) {
+  if (!decoded || decoded.purpose || !decoded.sid) {
     return null;
   }
 
-  const user = await prisma.user.findUnique({ where: { id: decoded.userId } });
-  if (!user || !user.isActive) {
+  const [user, session] = await Promise.all([
+    prisma.user.findUnique({ where: { id: decoded.userId } }),
+    findActiveSession(decoded.sid, decoded.userId),
+  ]);
+  if (!user || !user.isActive || !session) {
     return null;
   }
 
@@ -86,6 +195,17 @@ export const getSessionServer = async (
     return null;
   }
 
+  // Sliding refresh: activity extends the idle expiry and the cookies follow it.
+  const expiresAt = await touchUserSession(session, req);
+  if (expiresAt && !res.headersSent) {
+    writeSessionCookies(req, res, {
+      token,
+      role: user.role ?? "",
+      maxAge: expiresAt.getTime() - Date.now(),
+      csrfToken: req.cookies["csrf_token"],
+    });
+  }
+
   return user;
 };
 
@@ -116,6 +236,49 @@ export const getSessionClient = async (): Promise<User | null> => {
   }
 };
 
+export type CredentialCheck =
+  | { user: User; failure?: undefined }
+  | { user?: undefined; failure: "unknown_user" | "inactive" | "invalid_password" };
+
+/**
+ * Password step of the login. LOCAL users are checked against their bcrypt hash; LDAP users (and
+ * unknown logins when LDAP is enabled for the tenant) bind against the directory, and the account
+ * is created or refreshed from the directory entry on success.
+ */
+export const verifyCredentials = async (tenantId: string, login: string, password: string): Promise<CredentialCheck> => {
+  const local = await prisma.user.findUnique({ where: { tenantId_email: { tenantId, email: login } } });
+
+  if (local?.isServiceAccount) return { failure: "inactive" };
+
+  if (local && local.authProvider === "LOCAL") {
+    if (!local.isActive) return { failure: "inactive" };
+    const valid = await bcrypt.compare(password, local.passwordHash);
+    return valid ? { user: local } : { failure: "invalid_password" };
+  }
+
+  if (!(await isLdapEnabledForTenant(tenantId))) {
+    return { failure: local ? "inactive" : "unknown_user" };
+  }
+
+  let entry: Awaited<ReturnType<typeof findDirectoryUser>>;
+  let valid = false;
+  try {
+    entry = await findDirectoryUser(login);
+    if (entry && !entry.disabled) valid = await verifyDirectoryPassword(entry.dn, password);
+  } catch (error) {
+    throw Object.assign(new Error("Directory unavailable"), { code: "LDAP_UNAVAILABLE", cause: error });
+  }
+  if (!entry) return { failure: "unknown_user" };
+  if (entry.disabled) return { failure: "inactive" };
+  if (!valid) return { failure: "invalid_password" };
+
+  const userId = await provisionDirectoryUser(tenantId, entry);
+  const user = userId ? await prisma.user.findUnique({ where: { id: userId } }) : null;
+  if (!user) return { failure: "unknown_user" };
+  if (!user.isActive) return { failure: "inactive" };
+  return { user };
+};
+
 export const hashPassword = async (password: string): Promise<string> => {
   const salt = await bcrypt.genSalt(10);
   return bcrypt.hash(password, salt);
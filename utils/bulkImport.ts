@@ -0,0 +1,629 @@
+import * as ExcelJS from "exceljs";
+import Papa from "papaparse";
+import { z } from "zod";
+import { prisma } from "@/prisma/client";
+import { syncDefaultWarehouseToTotalTx } from "@/utils/warehouseStock";
+import { refreshProductStockStatusTx, stockLevelInputSchema } from "@/utils/stockLevels";
+import { publishNotifications, type NotificationOutbox } from "@/utils/notifications";
+
+export const IMPORT_ENTITIES = ["products", "suppliers", "categories"] as const;
+export type ImportEntity = (typeof IMPORT_ENTITIES)[number];
+
+// Larger files should be split; the whole import runs in one transaction.
+export const MAX_IMPORT_ROWS = 5000;
+
+export type ImportField = {
+  key: string;
+  label: string;
+  required?: boolean;
+  // Header spellings recognised when no explicit mapping is given (compared normalised).
+  aliases: string[];
+};
+
+export const IMPORT_FIELDS: Record<ImportEntity, ImportField[]> = {
+  products: [
+    { key: "sku", label: "SKU", required: true, aliases: ["sku", "codigo", "referencia", "ref"] },
+    { key: "name", label: "Nome", required: true, aliases: ["name", "nome", "nome do produto", "produto"] },
+    { key: "price", label: "Preço", required: true, aliases: ["price", "preco", "preco unitario", "valor"] },
+    { key: "quantity", label: "Quantidade", aliases: ["quantity", "quantidade", "qtd", "stock"] },
+    { key: "category", label: "Categoria", required: true, aliases: ["category", "categoria"] },
+    { key: "supplier", label: "Fornecedor", required: true, aliases: ["supplier", "fornecedor"] },
+    { key: "description", label: "Descrição", aliases: ["description", "descricao"] },
+    { key: "minStock", label: "Stock mínimo", aliases: ["minstock", "stock minimo", "minimo"] },
+    { key: "maxStock", label: "Stock máximo", aliases: ["maxstock", "stock maximo", "maximo"] },
+    { key: "reorderPoint", label: "Ponto de encomenda", aliases: ["reorderpoint", "ponto de encomenda"] },
+    {
+      key: "isPatrimonializable",
+      label: "Patrimonializável",
+      aliases: ["ispatrimonializable", "patrimonializavel", "patrimonio"],
+    },
+  ],
+  suppliers: [
+    { key: "name", label: "Nome", required: true, aliases: ["name", "nome", "fornecedor"] },
+    { key: "nif", label: "NIF", aliases: ["nif", "nipc", "contribuinte", "vat"] },
+    { key: "email", label: "Email", aliases: ["email", "e-mail"] },
+    { key: "phone", label: "Telefone", aliases: ["phone", "telefone", "telemovel", "contacto telefonico"] },
+    { key: "contactName", label: "Pessoa de contacto", aliases: ["contactname", "contacto", "pessoa de contacto"] },
+    { key: "address", label: "Morada", aliases: ["address", "morada", "endereco"] },
+    { key: "notes", label: "Notas", aliases: ["notes", "notas", "observacoes"] },
+    { key: "isActive", label: "Ativo", aliases: ["isactive", "ativo", "activo"] },
+  ],
+  categories: [
+    { key: "name", label: "Nome", required: true, aliases: ["name", "nome", "categoria"] },
+    { key: "defaultMinStock", label: "Stock mínimo", aliases: ["defaultminstock", "minstock", "stock minimo"] },
+    { key: "defaultMaxStock", label: "Stock máximo", aliases: ["defaultmaxstock", "maxstock", "stock maximo"] },
+    {
+      key: "defaultReorderPoint",
+      label: "Ponto de encomenda",
+      aliases: ["defaultreorderpoint", "reorderpoint", "ponto de encomenda"],
+    },
+  ],
+};
+
+export const importOptionsSchema = z.object({
+  entity: z.enum(IMPORT_ENTITIES),
+  // field key -> column header in the file
+  mapping: z.record(z.string(), z.string()).optional(),
+  // "create" rejects rows that already exist; "upsert" updates them instead.
+  mode: z.enum(["create", "upsert"]).default("create"),
+  // Products only: categories and suppliers referenced by name are created when missing.
+  createMissing: z.boolean().default(false),
+});
+
+export type ImportOptions = z.infer<typeof importOptionsSchema>;
+
+export type ImportRowAction = "CREATE" | "UPDATE" | "SKIP";
+
+export type ImportRowResult = {
+  row: number;
+  key: string;
+  action: ImportRowAction;
+  errors: string[];
+  warnings: string[];
+};
+
+export type ImportReport = {
+  entity: ImportEntity;
+  mode: ImportOptions["mode"];
+  headers: string[];
+  mapping: Record<string, string>;
+  totalRows: number;
+  validRows: number;
+  errorRows: number;
+  toCreate: number;
+  toUpdate: number;
+  newCategories: string[];
+  newSuppliers: string[];
+  rows: ImportRowResult[];
+};
+
+export type ParsedSheet = { headers: string[]; rows: Array<Record<string, string>> };
+
+type PlannedRow = ImportRowResult & { data: Record<string, any>; existingId: string | null };
+
+function normalizeHeader(value: string) {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+const nameKey = (value: string) => value.trim().toLocaleLowerCase("pt-PT");
+
+export function parseImportFile(buffer: Buffer, fileName: string): Promise<ParsedSheet> | ParsedSheet {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith(".xlsx")) return parseXlsx(buffer);
+  if (lower.endsWith(".csv") || lower.endsWith(".txt")) return parseCsv(buffer);
+  throw Object.assign(new Error("Formato não suportado (usar CSV ou XLSX)"), { code: "UNSUPPORTED_FORMAT" });
+}
+
+function parseCsv(buffer: Buffer): ParsedSheet {
+  const text = buffer.toString("utf8").replace(/^\uFEFF/, "");
+  // Delimiter is auto-detected, so both "," and the ";" exported by PT-locale Excel work.
+  const parsed = Papa.parse<Record<string, string>>(text, {
+    header: true,
+    skipEmptyLines: "greedy",
+    transformHeader: (header) => header.trim(),
+  });
+  const headers = (parsed.meta.fields ?? []).filter(Boolean);
+  const rows = parsed.data.map((row) => {
+    const clean: Record<string, string> = {};
+    for (const header of headers) clean[header] = String(row[header] ?? "").trim();
+    return clean;
+  });
+  return { headers, rows };
+}
+
+async function parseXlsx(buffer: Buffer): Promise<ParsedSheet> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer as any);
+  } catch {
+    throw Object.assign(new Error("Ficheiro XLSX inválido"), { code: "INVALID_FILE" });
+  }
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return { headers: [], rows: [] };
+
+  const headerRow = sheet.getRow(1);
+  const columns: Array<{ index: number; header: string }> = [];
+  headerRow.eachCell((cell, index) => {
+    const header = String(cell.text ?? "").trim();
+    if (header) columns.push({ index, header });
+  });
+
+  const rows: Array<Record<string, string>> = [];
+  sheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    const record: Record<string, string> = {};
+    let hasValue = false;
+    for (const column of columns) {
+      const cell = row.getCell(column.index);
+      // Date cells are read as ISO days so they do not depend on the server locale.
+      const value = cell.value instanceof Date ? cell.value.toISOString().slice(0, 10) : String(cell.text ?? "").trim();
+      record[column.header] = value;
+      if (value) hasValue = true;
+    }
+    if (hasValue) rows.push(record);
+  });
+
+  return { headers: columns.map((column) => column.header), rows };
+}
+
+/**
+ * Resolves which file column feeds each field: explicit mapping first, then header aliases.
+ * Mapped columns that do not exist in the file are dropped.
+ */
+export function resolveColumnMapping(
+  fields: ImportField[],
+  headers: string[],
+  mapping?: Record<string, string>
+): Record<string, string> {
+  const byNormalized = new Map(headers.map((header) => [normalizeHeader(header), header]));
+  const resolved: Record<string, string> = {};
+  for (const field of fields) {
+    const explicit = mapping?.[field.key];
+    if (explicit !== undefined) {
+      if (explicit && headers.includes(explicit)) resolved[field.key] = explicit;
+      continue;
+    }
+    const candidates = [field.key, field.label, ...field.aliases].map(normalizeHeader);
+    const match = candidates.map((candidate) => byNormalized.get(candidate)).find(Boolean);
+    if (match) resolved[field.key] = match;
+  }
+  return resolved;
+}
+
+export function parseImportNumber(raw: string) {
+  const cleaned = raw.replace(/[€\s]/g, "");
+  if (!cleaned) return null;
+  // "1.234,56" and "1234,56" (pt-PT) as well as "1234.56".
+  const normalized = cleaned.includes(",") ? cleaned.replace(/\./g, "").replace(",", ".") : cleaned;
+  const value = Number(normalized);
+  return Number.isFinite(value) ? value : NaN;
+}
+
+export function parseImportBoolean(raw: string) {
+  const value = normalizeHeader(raw);
+  if (!value) return null;
+  if (["1", "sim", "s", "true", "yes", "y", "x"].includes(value)) return true;
+  if (["0", "nao", "n", "false", "no"].includes(value)) return false;
+  return undefined;
+}
+
+function readInt(raw: string, label: string, errors: string[]) {
+  const value = parseImportNumber(raw);
+  if (value === null) return null;
+  if (Number.isNaN(value) || !Number.isInteger(value) || value < 0) {
+    errors.push(`${label} deve ser um inteiro não negativo`);
+    return null;
+  }
+  return value;
+}
+
+function readBoolean(raw: string, label: string, errors: string[]) {
+  const value = parseImportBoolean(raw);
+  if (value === undefined) {
+    errors.push(`${label} inválido (usar sim/não)`);
+    return null;
+  }
+  return value;
+}
+
+function readLevels(values: Record<string, number | null>, errors: string[]) {
+  const levels = stockLevelInputSchema.safeParse(values);
+  if (!levels.success) errors.push(levels.error.issues[0]?.message ?? "Níveis de stock inválidos");
+}
+
+async function planProducts(
+  tenantId: string,
+  rows: Array<Record<string, string>>,
+  options: ImportOptions
+) {
+  const [categories, suppliers] = await Promise.all([
+    prisma.category.findMany({ where: { tenantId }, select: { id: true, name: true } }),
+    prisma.supplier.findMany({ where: { tenantId }, select: { id: true, name: true, isActive: true } }),
+  ]);
+  const categoryByName = new Map(categories.map((c) => [nameKey(c.name), c]));
+  const supplierByName = new Map(suppliers.map((s) => [nameKey(s.name), s]));
+
+  const skus = Array.from(new Set(rows.map((row) => row.sku).filter(Boolean)));
+  const existing = skus.length
+    ? await prisma.product.findMany({ where: { sku: { in: skus } }, select: { id: true, sku: true, tenantId: true } })
+    : [];
+  const existingBySku = new Map(existing.map((p) => [p.sku, p]));
+
+  const newCategories = new Map<string, string>();
+  const newSuppliers = new Map<string, string>();
+  const seen = new Set<string>();
+
+  const planned: PlannedRow[] = rows.map((row, index) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const sku = row.sku ?? "";
+    const data: Record<string, any> = {};
+
+    if (!sku) errors.push("SKU em falta");
+    else if (sku.length > 100) errors.push("SKU demasiado longo");
+    else if (seen.has(sku)) errors.push("SKU repetido no ficheiro");
+    if (sku) seen.add(sku);
+
+    const match = sku ? existingBySku.get(sku) : undefined;
+    let action: ImportRowAction = "CREATE";
+    if (match && match.tenantId !== tenantId) {
+      errors.push("SKU já utilizado noutra entidade");
+    } else if (match) {
+      if (options.mode === "upsert") action = "UPDATE";
+      else errors.push("SKU já existe");
+    }
+
+    const name = row.name ?? "";
+    if (name) data.name = name;
+    else if (action === "CREATE") errors.push("Nome em falta");
+
+    if (row.price) {
+      const price = parseImportNumber(row.price);
+      if (price === null || Number.isNaN(price) || price < 0) errors.push("Preço inválido");
+      else data.price = price;
+    } else if (action === "CREATE") {
+      errors.push("Preço em falta");
+    }
+
+    if (row.quantity) {
+      const quantity = readInt(row.quantity, "Quantidade", errors);
+      // Stock on existing products only changes through movements.
+      if (action === "UPDATE") warnings.push("Quantidade ignorada em produtos existentes");
+      else if (quantity !== null) data.quantity = quantity;
+    }
+
+    if (row.description) data.description = row.description;
+
+    const levels: Record<string, number | null> = {};
+    for (const [key, label] of [
+      ["minStock", "Stock mínimo"],
+      ["maxStock", "Stock máximo"],
+      ["reorderPoint", "Ponto de encomenda"],
+    ] as const) {
+      if (!row[key]) continue;
+      levels[key] = readInt(row[key], label, errors);
+      if (levels[key] !== null) data[key] = levels[key];
+    }
+    readLevels(levels, errors);
+
+    if (row.isPatrimonializable) {
+      const flag = readBoolean(row.isPatrimonializable, "Patrimonializável", errors);
+      if (flag !== null) data.isPatrimonializable = flag;
+    }
+
+    if (row.category) {
+      const category = categoryByName.get(nameKey(row.category));
+      if (category) data.categoryId = category.id;
+      else if (options.createMissing) {
+        newCategories.set(nameKey(row.category), row.category);
+        data.categoryName = row.category;
+      } else errors.push(`Categoria "${row.category}" não existe`);
+    } else if (action === "CREATE") {
+      errors.push("Categoria em falta");
+    }
+
+    if (row.supplier) {
+      const supplier = supplierByName.get(nameKey(row.supplier));
+      if (supplier && !supplier.isActive) errors.push(`Fornecedor "${row.supplier}" está inativo`);
+      else if (supplier) data.supplierId = supplier.id;
+      else if (options.createMissing) {
+        newSuppliers.set(nameKey(row.supplier), row.supplier);
+        data.supplierName = row.supplier;
+      } else errors.push(`Fornecedor "${row.supplier}" não existe`);
+    } else if (action === "CREATE") {
+      errors.push("Fornecedor em falta");
+    }
+
+    return {
+      row: index + 2,
+      key: sku,
+      action: errors.length ? "SKIP" : action,
+      errors,
+      warnings,
+      data,
+      existingId: match && match.tenantId === tenantId ? match.id : null,
+    };
+  });
+
+  return {
+    planned,
+    newCategories: Array.from(newCategories.values()),
+    newSuppliers: Array.from(newSuppliers.values()),
+  };
+}
+
+async function planSuppliers(tenantId: string, rows: Array<Record<string, string>>, options: ImportOptions) {
+  const suppliers = await prisma.supplier.findMany({ where: { tenantId }, select: { id: true, name: true, nif: true } });
+  const byNif = new Map(suppliers.filter((s) => s.nif).map((s) => [String(s.nif).replace(/\s/g, ""), s]));
+  const byName = new Map(suppliers.map((s) => [nameKey(s.name), s]));
+  const seen = new Set<string>();
+
+  const planned: PlannedRow[] = rows.map((row, index) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const data: Record<string, any> = {};
+    const name = row.name ?? "";
+    const nif = (row.nif ?? "").replace(/\s/g, "");
+
+    if (!name) errors.push("Nome em falta");
+    else if (name.length > 200) errors.push("Nome demasiado longo");
+    else data.name = name;
+
+    if (nif) {
+      if (nif.length > 30) errors.push("NIF demasiado longo");
+      else data.nif = nif;
+    }
+    if (row.email) {
+      if (!z.string().email().max(255).safeParse(row.email).success) errors.push("Email inválido");
+      else data.email = row.email;
+    }
+    if (row.phone) {
+      if (row.phone.length > 60) errors.push("Telefone demasiado longo");
+      else data.phone = row.phone;
+    }
+    if (row.contactName) {
+      if (row.contactName.length > 120) errors.push("Pessoa de contacto demasiado longa");
+      else data.contactName = row.contactName;
+    }
+    if (row.address) data.address = row.address;
+    if (row.notes) data.notes = row.notes;
+    if (row.isActive) {
+      const flag = readBoolean(row.isActive, "Ativo", errors);
+      if (flag !== null) data.isActive = flag;
+    }
+
+    // Suppliers are matched by NIF when present, otherwise by name.
+    const identity = nif ? `nif:${nif}` : `name:${nameKey(name)}`;
+    if (name && seen.has(identity)) errors.push("Fornecedor repetido no ficheiro");
+    if (name) seen.add(identity);
+
+    const match = (nif ? byNif.get(nif) : undefined) ?? (name ? byName.get(nameKey(name)) : undefined);
+    let action: ImportRowAction = "CREATE";
+    if (match) {
+      if (options.mode === "upsert") action = "UPDATE";
+      else errors.push("Fornecedor já existe");
+    }
+
+    return {
+      row: index + 2,
+      key: name,
+      action: errors.length ? "SKIP" : action,
+      errors,
+      warnings,
+      data,
+      existingId: match?.id ?? null,
+    };
+  });
+
+  return { planned, newCategories: [], newSuppliers: [] };
+}
+
+async function planCategories(tenantId: string, rows: Array<Record<string, string>>, options: ImportOptions) {
+  const categories = await prisma.category.findMany({ where: { tenantId }, select: { id: true, name: true } });
+  const byName = new Map(categories.map((c) => [nameKey(c.name), c]));
+  const seen = new Set<string>();
+
+  const planned: PlannedRow[] = rows.map((row, index) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const data: Record<string, any> = {};
+    const name = row.name ?? "";
+
+    if (!name) errors.push("Nome em falta");
+    else if (seen.has(nameKey(name))) errors.push("Categoria repetida no ficheiro");
+    else data.name = name;
+    if (name) seen.add(nameKey(name));
+
+    const levels: Record<string, number | null> = {};
+    for (const [key, levelKey, label] of [
+      ["defaultMinStock", "minStock", "Stock mínimo"],
+      ["defaultMaxStock", "maxStock", "Stock máximo"],
+      ["defaultReorderPoint", "reorderPoint", "Ponto de encomenda"],
+    ] as const) {
+      if (!row[key]) continue;
+      levels[levelKey] = readInt(row[key], label, errors);
+      if (levels[levelKey] !== null) data[key] = levels[levelKey];
+    }
+    readLevels(levels, errors);
+
+    const match = name ? byName.get(nameKey(name)) : undefined;
+    let action: ImportRowAction = "CREATE";
+    if (match) {
+      if (options.mode === "upsert") action = "UPDATE";
+      else errors.push("Categoria já existe");
+    }
+
+    return {
+      row: index + 2,
+      key: name,
+      action: errors.length ? "SKIP" : action,
+      errors,
+      warnings,
+      data,
+      existingId: match?.id ?? null,
+    };
+  });
+
+  return { planned, newCategories: [], newSuppliers: [] };
+}
+
+async function planImport(tenantId: string, sheet: ParsedSheet, options: ImportOptions) {
+  if (sheet.rows.length > MAX_IMPORT_ROWS) {
+    throw Object.assign(new Error(`O ficheiro excede o limite de ${MAX_IMPORT_ROWS} linhas`), {
+      code: "TOO_MANY_ROWS",
+    });
+  }
+
+  const mapping = resolveColumnMapping(IMPORT_FIELDS[options.entity], sheet.headers, options.mapping);
+  const missing = IMPORT_FIELDS[options.entity].filter((field) => field.required && !mapping[field.key]);
+  // In upsert mode a file may carry only the key column plus the fields to change.
+  const keyField = options.entity === "products" ? "sku" : "name";
+  const blocking = options.mode === "upsert" ? missing.filter((field) => field.key === keyField) : missing;
+  if (blocking.length) {
+    throw Object.assign(
+      new Error(`Colunas obrigatórias sem correspondência: ${blocking.map((field) => field.label).join(", ")}`),
+      { code: "MISSING_COLUMNS", mapping }
+    );
+  }
+
+  const rows = sheet.rows.map((source) => {
+    const row: Record<string, string> = {};
+    for (const [key, header] of Object.entries(mapping)) row[key] = source[header] ?? "";
+    return row;
+  });
+
+  const plan =
+    options.entity === "products"
+      ? await planProducts(tenantId, rows, options)
+      : options.entity === "suppliers"
+        ? await planSuppliers(tenantId, rows, options)
+        : await planCategories(tenantId, rows, options);
+
+  // A new product row missing a required column in upsert mode cannot be created.
+  if (options.mode === "upsert" && missing.length) {
+    for (const row of plan.planned) {
+      if (row.action !== "CREATE") continue;
+      row.errors.push(`Colunas em falta para criar: ${missing.map((field) => field.label).join(", ")}`);
+      row.action = "SKIP";
+    }
+  }
+
+  const report: ImportReport = {
+    entity: options.entity,
+    mode: options.mode,
+    headers: sheet.headers,
+    mapping,
+    totalRows: plan.planned.length,
+    validRows: plan.planned.filter((row) => !row.errors.length).length,
+    errorRows: plan.planned.filter((row) => row.errors.length).length,
+    toCreate: plan.planned.filter((row) => row.action === "CREATE").length,
+    toUpdate: plan.planned.filter((row) => row.action === "UPDATE").length,
+    newCategories: plan.newCategories,
+    newSuppliers: plan.newSuppliers,
+    rows: plan.planned.map(({ data: _data, existingId: _existingId, ...row }) => row),
+  };
+
+  return { report, planned: plan.planned };
+}
+
+/** Validates a parsed file against the tenant without writing anything. */
+export async function validateImport(tenantId: string, sheet: ParsedSheet, options: ImportOptions) {
+  const { report } = await planImport(tenantId, sheet, options);
+  return report;
+}
+
+/**
+ * Validates and writes the import in a single transaction. Nothing is written when any row
+ * has errors; the report is attached to the thrown error so the caller can return it.
+ */
+export async function commitImport(tenantId: string, sheet: ParsedSheet, options: ImportOptions) {
+  const { report, planned } = await planImport(tenantId, sheet, options);
+  if (report.errorRows > 0) {
+    throw Object.assign(new Error("O ficheiro tem linhas com erros"), { code: "IMPORT_HAS_ERRORS", report });
+  }
+
+  const outbox: NotificationOutbox = [];
+  await prisma.$transaction(
+    async (tx) => {
+      if (options.entity === "categories") {
+        for (const row of planned) {
+          if (row.action === "UPDATE") {
+            await tx.category.update({ where: { id: row.existingId! }, data: row.data });
+          } else {
+            await tx.category.create({ data: { ...row.data, name: row.data.name, tenantId } });
+          }
+        }
+        return;
+      }
+
+      if (options.entity === "suppliers") {
+        for (const row of planned) {
+          if (row.action === "UPDATE") {
+            await tx.supplier.update({ where: { id: row.existingId! }, data: row.data });
+          } else {
+            await tx.supplier.create({ data: { ...row.data, name: row.data.name, tenantId } });
+          }
+        }
+        return;
+      }
+
+      const categoryIds = new Map<string, string>();
+      for (const name of report.newCategories) {
+        const created = await tx.category.create({ data: { name, tenantId }, select: { id: true } });
+        categoryIds.set(nameKey(name), created.id);
+      }
+      const supplierIds = new Map<string, string>();
+      for (const name of report.newSuppliers) {
+        const created = await tx.supplier.create({ data: { name, tenantId }, select: { id: true } });
+        supplierIds.set(nameKey(name), created.id);
+      }
+
+      for (const row of planned) {
+        const { categoryName, supplierName, quantity, ...fields } = row.data;
+        if (categoryName) fields.categoryId = categoryIds.get(nameKey(categoryName));
+        if (supplierName) fields.supplierId = supplierIds.get(nameKey(supplierName));
+
+        if (row.action === "UPDATE") {
+          await tx.product.update({ where: { id: row.existingId! }, data: fields });
+          await refreshProductStockStatusTx(tx, { tenantId, productId: row.existingId!, outbox });
+          continue;
+        }
+
+        const created = await tx.product.create({
+          data: {
+            name: fields.name,
+            description: fields.description ?? null,
+            sku: row.key,
+            price: fields.price,
+            quantity: BigInt(quantity ?? 0) as any,
+            status: "Available",
+            isPatrimonializable: Boolean(fields.isPatrimonializable),
+            minStock: fields.minStock ?? null,
+            maxStock: fields.maxStock ?? null,
+            reorderPoint: fields.reorderPoint ?? null,
+            tenantId,
+            categoryId: fields.categoryId,
+            supplierId: fields.supplierId,
+            createdAt: new Date(),
+          },
+        });
+        await syncDefaultWarehouseToTotalTx(tx, {
+          tenantId,
+          productId: created.id,
+          totalQuantity: Number(created.quantity),
+        });
+        await refreshProductStockStatusTx(tx, { tenantId, productId: created.id, outbox });
+      }
+    },
+    // Imports of a few thousand rows need more than the default 5s interactive window.
+    { timeout: 120_000, maxWait: 10_000 }
+  );
+  await publishNotifications(outbox);
+
+  return report;
+}
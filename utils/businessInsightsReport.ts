@@ -1,5 +1,6 @@
 import crypto from "crypto";
 import { prisma } from "@/prisma/client";
+import { resolveStockLevels, stockLevelSelect, suggestedOrderQuantity } from "@/utils/stockLevels";
 
 type Period = "7d" | "30d" | "90d" | "12m" | "custom";
 
@@ -217,7 +218,7 @@ export async function buildBusinessInsightsReportData(args: {
     prisma.tenant.findUnique({ where: { id: tenantId }, select: { id: true, name: true } }),
     prisma.product.count({ where: categoryProductWhere }),
     prisma.product.count({ where: { ...categoryProductWhere, quantity: { equals: BigInt(0) } } }),
-    prisma.product.count({ where: { ...categoryProductWhere, quantity: { gt: BigInt(0), lte: BigInt(20) } } }),
+    prisma.product.count({ where: { ...categoryProductWhere, status: "Stock Low" } }),
     prisma.product.aggregate({ where: categoryProductWhere, _sum: { quantity: true } }),
   ]);
 
@@ -382,7 +383,7 @@ export async function buildBusinessInsightsReportData(args: {
 
   const productsForInactivity = await prisma.product.findMany({
     where: categoryProductWhere,
-    select: { id: true, name: true, sku: true, quantity: true },
+    select: { id: true, name: true, sku: true, quantity: true, ...stockLevelSelect },
   });
   const productIdsForInactivity = productsForInactivity.map((p) => p.id);
 
@@ -439,13 +440,14 @@ export async function buildBusinessInsightsReportData(args: {
       name: p.name,
       sku: p.sku,
       currentQty: toNumberBigint(p.quantity),
+      levels: resolveStockLevels(p),
     }))
-    .filter((p) => p.currentQty <= 20)
+    .filter((p) => p.currentQty <= p.levels.reorderPoint)
     .sort((a, b) => a.currentQty - b.currentQty)
     .slice(0, 20)
-    .map((p) => ({
+    .map(({ levels, ...p }) => ({
       ...p,
-      suggestedQty: Math.max(0, 30 - p.currentQty),
+      suggestedQty: suggestedOrderQuantity(p.currentQty, levels),
     }));
 
   const byStatus = requestsByStatusRows.map((r) => ({ status: String(r.status), count: r._count.status }));
@@ -0,0 +1,318 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/prisma/client";
+import { resolveStockLevels, stockLevelSelect } from "@/utils/stockLevels";
+
+export type ForecastMethod = "moving_average" | "exponential_smoothing" | "seasonal_exponential_smoothing";
+
+export type SeriesForecast = {
+  method: ForecastMethod;
+  // Forecast for each month of the horizon, starting with the current month.
+  forecast: number[];
+  movingAverage: number;
+  // 0-100, from the in-sample one-step-ahead error (100 - weighted MAPE).
+  confidence: number;
+};
+
+export type DemandForecast = {
+  meta: {
+    generatedAt: string;
+    historyMonths: number;
+    horizonMonths: number;
+    from: string;
+    to: string;
+    alpha: number;
+  };
+  monthly: Array<{ month: string; demand: number; isForecast: boolean }>;
+  seasonality: Array<{ month: number; averageDemand: number; index: number }>;
+  total: SeriesForecast;
+  products: Array<
+    SeriesForecast & {
+      productId: string;
+      name: string;
+      sku: string;
+      category: string;
+      quantity: number;
+      reorderPoint: number;
+      historyTotal: number;
+      forecastTotal: number;
+      // Months of stock left at the forecast rate; null when no demand is expected.
+      monthsOfCover: number | null;
+      stockoutRisk: "high" | "medium" | "low";
+    }
+  >;
+  categories: Array<{ category: string; currentStock: number; predictedDemand: number; confidence: number }>;
+  services: Array<
+    SeriesForecast & {
+      requestingServiceId: number | null;
+      code: string | null;
+      name: string;
+      historyTotal: number;
+      forecastTotal: number;
+    }
+  >;
+};
+
+const SEASON_LENGTH = 12;
+const DEFAULT_ALPHA = 0.3;
+const MOVING_AVERAGE_WINDOW = 3;
+
+function round1(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
+function monthKey(date: Date) {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+function addMonths(date: Date, months: number) {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+}
+
+/**
+ * Forecasts a monthly demand series (oldest first). Uses simple exponential smoothing, on
+ * deseasonalised data when there are at least two full years of history, and falls back to a
+ * moving average for very short series.
+ */
+export function forecastSeries(series: number[], opts?: { horizon?: number; alpha?: number }): SeriesForecast {
+  const horizon = Math.max(1, opts?.horizon ?? 3);
+  const alpha = opts?.alpha ?? DEFAULT_ALPHA;
+  const values = series.map((v) => Math.max(0, v));
+  const n = values.length;
+
+  const recent = values.slice(-MOVING_AVERAGE_WINDOW);
+  const movingAverage = recent.length ? recent.reduce((a, b) => a + b, 0) / recent.length : 0;
+  const sum = values.reduce((a, b) => a + b, 0);
+
+  if (n < MOVING_AVERAGE_WINDOW || sum === 0) {
+    return {
+      method: "moving_average",
+      forecast: Array.from({ length: horizon }, () => round1(movingAverage)),
+      movingAverage: round1(movingAverage),
+      confidence: sum === 0 ? 0 : 30,
+    };
+  }
+
+  // Seasonal indices per position in the year, relative to the overall mean.
+  const seasonal = n >= SEASON_LENGTH * 2;
+  const mean = sum / n;
+  const indices = Array.from({ length: SEASON_LENGTH }, (_, pos) => {
+    if (!seasonal) return 1;
+    const bucket = values.filter((_, i) => i % SEASON_LENGTH === pos);
+    const avg = bucket.reduce((a, b) => a + b, 0) / bucket.length;
+    return Math.min(3, Math.max(0.2, avg / mean));
+  });
+  const seasonAt = (i: number) => indices[i % SEASON_LENGTH];
+
+  let level = values[0] / seasonAt(0);
+  let absError = 0;
+  let actualTotal = 0;
+  for (let i = 1; i < n; i++) {
+    const predicted = level * seasonAt(i);
+    absError += Math.abs(values[i] - predicted);
+    actualTotal += values[i];
+    level = alpha * (values[i] / seasonAt(i)) + (1 - alpha) * level;
+  }
+
+  const wmape = actualTotal > 0 ? (absError / actualTotal) * 100 : 100;
+
+  return {
+    method: seasonal ? "seasonal_exponential_smoothing" : "exponential_smoothing",
+    forecast: Array.from({ length: horizon }, (_, h) => round1(Math.max(0, level * seasonAt(n + h)))),
+    movingAverage: round1(movingAverage),
+    confidence: Math.round(Math.min(95, Math.max(5, 100 - wmape))),
+  };
+}
+
+type MonthlyDemandRow = {
+  productId: string;
+  requestingServiceId: number | null;
+  month: string;
+  demand: bigint | number;
+};
+
+/**
+ * Demand forecast from stock movement history: OUT movements minus RETURNs, bucketed per
+ * calendar month, per product and per requesting service (through the linked request).
+ * History covers complete months only; the horizon starts with the current month.
+ */
+export async function getDemandForecast(args: {
+  tenantId: string;
+  historyMonths?: number;
+  horizonMonths?: number;
+  productId?: string;
+  requestingServiceId?: number;
+  topLimit?: number;
+}): Promise<DemandForecast> {
+  const historyMonths = Math.min(60, Math.max(3, args.historyMonths ?? 24));
+  const horizonMonths = Math.min(12, Math.max(1, args.horizonMonths ?? 3));
+  const topLimit = Math.min(200, Math.max(1, args.topLimit ?? 20));
+  const tenantId = args.tenantId;
+
+  const now = new Date();
+  const to = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const from = addMonths(to, -historyMonths);
+  const monthKeys = Array.from({ length: historyMonths }, (_, i) => monthKey(addMonths(from, i)));
+  const monthIndex = new Map(monthKeys.map((k, i) => [k, i]));
+
+  const rows = await prisma.$queryRaw<MonthlyDemandRow[]>`
+    SELECT
+      sm."productId" AS "productId",
+      r."requestingServiceId" AS "requestingServiceId",
+      to_char(date_trunc('month', sm."createdAt"), 'YYYY-MM') AS "month",
+      SUM(CASE WHEN sm."type" = 'OUT' THEN sm."quantity" ELSE -sm."quantity" END)::bigint AS "demand"
+    FROM "StockMovement" sm
+    LEFT JOIN "Request" r ON r."id" = sm."requestId"
+    WHERE sm."userId" = ${tenantId}::uuid
+      AND sm."type" IN ('OUT', 'RETURN')
+      AND sm."createdAt" >= ${from}
+      AND sm."createdAt" < ${to}
+      ${args.productId ? Prisma.sql`AND sm."productId" = ${args.productId}::uuid` : Prisma.empty}
+      ${
+        typeof args.requestingServiceId === "number"
+          ? Prisma.sql`AND r."requestingServiceId" = ${args.requestingServiceId}`
+          : Prisma.empty
+      }
+    GROUP BY 1, 2, 3
+  `;
+
+  const emptySeries = () => Array.from({ length: historyMonths }, () => 0);
+  const totalSeries = emptySeries();
+  const byProduct = new Map<string, number[]>();
+  const byService = new Map<number | null, number[]>();
+
+  for (const row of rows) {
+    const i = monthIndex.get(row.month);
+    if (i === undefined) continue;
+    const demand = Number(row.demand);
+
+    totalSeries[i] += demand;
+
+    const productSeries = byProduct.get(row.productId) ?? emptySeries();
+    productSeries[i] += demand;
+    byProduct.set(row.productId, productSeries);
+
+    const serviceKey = row.requestingServiceId ?? null;
+    const serviceSeries = byService.get(serviceKey) ?? emptySeries();
+    serviceSeries[i] += demand;
+    byService.set(serviceKey, serviceSeries);
+  }
+
+  const forecastOpts = { horizon: horizonMonths, alpha: DEFAULT_ALPHA };
+  const total = forecastSeries(totalSeries, forecastOpts);
+
+  const products = await prisma.product.findMany({
+    where: { tenantId, ...(args.productId ? { id: args.productId } : {}) },
+    select: {
+      id: true,
+      name: true,
+      sku: true,
+      quantity: true,
+      ...stockLevelSelect,
+      category: { select: { name: true, ...stockLevelSelect.category.select } },
+    },
+  });
+
+  const productForecasts = products.map((product) => {
+    const series = byProduct.get(product.id) ?? emptySeries();
+    const f = forecastSeries(series, forecastOpts);
+    const quantity = Number(product.quantity);
+    const levels = resolveStockLevels(product);
+    const nextMonth = f.forecast[0] ?? 0;
+    const forecastTotal = round1(f.forecast.reduce((a, b) => a + b, 0));
+    const monthsOfCover = nextMonth > 0 ? round1(quantity / nextMonth) : null;
+    const stockoutRisk: "high" | "medium" | "low" =
+      quantity <= 0 || (monthsOfCover !== null && monthsOfCover < 1)
+        ? "high"
+        : (monthsOfCover !== null && monthsOfCover < horizonMonths) || quantity <= levels.reorderPoint
+          ? "medium"
+          : "low";
+
+    return {
+      ...f,
+      productId: product.id,
+      name: product.name,
+      sku: product.sku,
+      category: product.category?.name ?? "Desconhecida",
+      quantity,
+      reorderPoint: levels.reorderPoint,
+      historyTotal: series.reduce((a, b) => a + b, 0),
+      forecastTotal,
+      monthsOfCover,
+      stockoutRisk,
+    };
+  });
+
+  const categoryMap = new Map<string, { currentStock: number; predictedDemand: number; weighted: number }>();
+  for (const p of productForecasts) {
+    const entry = categoryMap.get(p.category) ?? { currentStock: 0, predictedDemand: 0, weighted: 0 };
+    entry.currentStock += p.quantity;
+    entry.predictedDemand += p.forecastTotal;
+    entry.weighted += p.confidence * p.forecastTotal;
+    categoryMap.set(p.category, entry);
+  }
+
+  const serviceIds = Array.from(byService.keys()).filter((k): k is number => typeof k === "number");
+  const services = serviceIds.length
+    ? await prisma.requestingService.findMany({
+        where: { id: { in: serviceIds } },
+        select: { id: true, codigo: true, designacao: true },
+      })
+    : [];
+  const serviceById = new Map(services.map((s) => [s.id, s] as const));
+
+  // Calendar-month profile over the history window (1 = January).
+  const seasonality = Array.from({ length: SEASON_LENGTH }, (_, m) => {
+    const values = monthKeys
+      .map((k, i) => ({ k, v: totalSeries[i] }))
+      .filter(({ k }) => Number(k.slice(5, 7)) === m + 1)
+      .map(({ v }) => v);
+    const averageDemand = values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+    return { month: m + 1, averageDemand: round1(averageDemand), index: 0 };
+  });
+  const seasonalMean = seasonality.reduce((a, s) => a + s.averageDemand, 0) / SEASON_LENGTH;
+  for (const s of seasonality) s.index = seasonalMean > 0 ? Math.round((s.averageDemand / seasonalMean) * 100) / 100 : 0;
+
+  return {
+    meta: {
+      generatedAt: now.toISOString(),
+      historyMonths,
+      horizonMonths,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      alpha: DEFAULT_ALPHA,
+    },
+    monthly: [
+      ...monthKeys.map((month, i) => ({ month, demand: totalSeries[i], isForecast: false })),
+      ...total.forecast.map((demand, h) => ({ month: monthKey(addMonths(to, h)), demand, isForecast: true })),
+    ],
+    seasonality,
+    total,
+    products: productForecasts
+      .filter((p) => p.historyTotal > 0 || p.quantity <= p.reorderPoint)
+      .sort((a, b) => b.forecastTotal - a.forecastTotal || a.quantity - b.quantity)
+      .slice(0, topLimit),
+    categories: Array.from(categoryMap.entries())
+      .map(([category, e]) => ({
+        category,
+        currentStock: e.currentStock,
+        predictedDemand: Math.round(e.predictedDemand),
+        confidence: e.predictedDemand > 0 ? Math.round(e.weighted / e.predictedDemand) : 0,
+      }))
+      .sort((a, b) => b.predictedDemand - a.predictedDemand),
+    services: Array.from(byService.entries())
+      .map(([serviceId, series]) => {
+        const f = forecastSeries(series, forecastOpts);
+        const meta = typeof serviceId === "number" ? serviceById.get(serviceId) : undefined;
+        return {
+          ...f,
+          requestingServiceId: serviceId,
+          code: meta?.codigo ?? null,
+          name: meta?.designacao ?? "Sem serviço requisitante",
+          historyTotal: series.reduce((a, b) => a + b, 0),
+          forecastTotal: round1(f.forecast.reduce((a, b) => a + b, 0)),
+        };
+      })
+      .sort((a, b) => b.forecastTotal - a.forecastTotal)
+      .slice(0, topLimit),
+  };
+}
@@ -0,0 +1,331 @@
+import crypto from "crypto";
+import bcrypt from "bcryptjs";
+import { prisma } from "@/prisma/client";
+import { recordUserAdminAudit } from "@/utils/auditLog";
+import { revokeUserSessions } from "@/utils/sessions";
+
+export const GDPR_EXPORT_VERSION = 1;
+
+export function anonymisedUserName(userId: string) {
+  return `Utilizador anonimizado ${userId.slice(0, 8)}`;
+}
+
+function anonymisedUserEmail(userId: string) {
+  return `anon-${userId}@anonymised.invalid`;
+}
+
+/**
+ * Everything the tenant holds about one person (RGPD art. 15/20), as plain JSON. Secrets are
+ * never included: no password hash, MFA secret, recovery codes or token hashes.
+ */
+export async function buildUserDataExport(tenantId: string, userId: string) {
+  const user = await prisma.user.findFirst({
+    where: { id: userId, tenantId },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      username: true,
+      role: true,
+      isActive: true,
+      mustChangePassword: true,
+      authProvider: true,
+      externalId: true,
+      isServiceAccount: true,
+      anonymisedAt: true,
+      createdAt: true,
+      updatedAt: true,
+      requestingService: { select: { codigo: true, designacao: true } },
+      tenant: { select: { name: true, slug: true } },
+      mfa: { select: { enabledAt: true } },
+      presence: { select: { lastSeenAt: true, lastActiveAt: true, manualStatus: true } },
+    },
+  });
+  if (!user) return null;
+
+  const requestSummary = {
+    id: true,
+    gtmiNumber: true,
+    title: true,
+    status: true,
+    requestedAt: true,
+  } as const;
+
+  const [
+    sessions,
+    apiTokens,
+    roleAssignments,
+    ipAccessRequests,
+    ownedRequests,
+    signedRequests,
+    pickupRecordedRequests,
+    publicRequests,
+    createdTickets,
+    assignedTickets,
+    ticketParticipations,
+    ticketMessages,
+    notifications,
+    assetsInCustody,
+    assetAssignments,
+    presenceViews,
+    auditTrail,
+  ] = await Promise.all([
+    prisma.userSession.findMany({
+      where: { tenantId, userId },
+      orderBy: { createdAt: "desc" },
+      select: {
+        createdAt: true,
+        lastSeenAt: true,
+        expiresAt: true,
+        revokedAt: true,
+        revokedReason: true,
+        ip: true,
+        userAgent: true,
+        device: true,
+      },
+    }),
+    prisma.apiToken.findMany({
+      where: { tenantId, userId },
+      orderBy: { createdAt: "desc" },
+      select: {
+        name: true,
+        tokenPrefix: true,
+        scopes: true,
+        createdAt: true,
+        expiresAt: true,
+        lastUsedAt: true,
+        lastUsedIp: true,
+        revokedAt: true,
+      },
+    }),
+    prisma.userRoleAssignment.findMany({
+      where: { tenantId, userId },
+      select: {
+        isActive: true,
+        startsAt: true,
+        endsAt: true,
+        source: true,
+        createdAt: true,
+        role: { select: { key: true, name: true } },
+        requestingService: { select: { codigo: true, designacao: true } },
+      },
+    }),
+    prisma.ipAccessRequest.findMany({
+      where: { tenantId, userId },
+      select: { email: true, ip: true, userAgent: true, status: true, createdAt: true, reviewedAt: true, note: true },
+    }),
+    prisma.request.findMany({
+      where: { tenantId, userId },
+      orderBy: { requestedAt: "desc" },
+      select: {
+        ...requestSummary,
+        requesterName: true,
+        requesterEmployeeNo: true,
+        deliveryLocation: true,
+        pickupSignedAt: true,
+        pickupSignedByName: true,
+        pickupSignedByTitle: true,
+        pickupSignatureDataUrl: true,
+        pickupSignedIp: true,
+        pickupSignedUserAgent: true,
+      },
+    }),
+    prisma.request.findMany({
+      where: { tenantId, signedByUserId: userId },
+      orderBy: { signedAt: "desc" },
+      select: {
+        ...requestSummary,
+        signedAt: true,
+        signedByName: true,
+        signedByTitle: true,
+        signedIp: true,
+        signedUserAgent: true,
+      },
+    }),
+    prisma.request.findMany({
+      where: { tenantId, pickupRecordedByUserId: userId },
+      orderBy: { requestedAt: "desc" },
+      select: { ...requestSummary, pickupSignedAt: true },
+    }),
+    prisma.publicRequest.findMany({
+      where: { tenantId, requesterUserId: userId },
+      orderBy: { createdAt: "desc" },
+      select: { id: true, createdAt: true, status: true, requesterName: true, requesterIp: true, title: true, notes: true },
+    }),
+    prisma.ticket.findMany({
+      where: { tenantId, createdByUserId: userId },
+      select: { id: true, code: true, title: true, status: true, createdAt: true },
+    }),
+    prisma.ticket.findMany({
+      where: { tenantId, assignedToUserId: userId },
+      select: { id: true, code: true, title: true, status: true, createdAt: true },
+    }),
+    prisma.ticketParticipant.findMany({
+      where: { tenantId, userId },
+      select: { createdAt: true, ticket: { select: { code: true, title: true } } },
+    }),
+    prisma.ticketMessage.findMany({
+      where: { tenantId, authorUserId: userId },
+      orderBy: { createdAt: "asc" },
+      select: { id: true, createdAt: true, body: true, ticket: { select: { code: true } } },
+    }),
+    prisma.notification.findMany({
+      where: { tenantId, recipientUserId: userId },
+      orderBy: { createdAt: "desc" },
+      select: { kind: true, title: true, message: true, createdAt: true, readAt: true },
+    }),
+    prisma.municipalAsset.findMany({
+      where: { tenantId, assignedToUserId: userId },
+      select: { code: true, name: true, status: true },
+    }),
+    prisma.municipalAssetAssignment.findMany({
+      where: { tenantId, userId },
+      select: { startAt: true, endAt: true, note: true, asset: { select: { code: true, name: true } } },
+    }),
+    prisma.presenceView.findMany({
+      where: { tenantId, userId },
+      select: { resource: true, startedAt: true, lastSeenAt: true },
+    }),
+    prisma.auditLog.findMany({
+      where: { tenantId, OR: [{ actorUserId: userId }, { entityType: "USER", entityId: userId }] },
+      orderBy: { seq: "asc" },
+      select: { seq: true, createdAt: true, source: true, action: true, entityType: true, entityId: true, note: true },
+    }),
+  ]);
+
+  const { tenant, mfa, presence, ...profile } = user;
+
+  return {
+    format: "stockly-rgpd-export",
+    version: GDPR_EXPORT_VERSION,
+    generatedAt: new Date().toISOString(),
+    tenant,
+    subject: { ...profile, mfaEnabled: Boolean(mfa?.enabledAt) },
+    security: { sessions, apiTokens, ipAccessRequests },
+    access: { roleAssignments },
+    presence: { status: presence, recordViews: presenceViews },
+    requests: { owned: ownedRequests, signed: signedRequests, pickupRecorded: pickupRecordedRequests },
+    publicRequests,
+    tickets: {
+      created: createdTickets,
+      assigned: assignedTickets,
+      participating: ticketParticipations,
+      messages: ticketMessages,
+    },
+    notifications,
+    assets: { inCustody: assetsInCustody, assignments: assetAssignments },
+    auditTrail,
+  };
+}
+
+/**
+ * Pseudonymises a user (RGPD art. 17) while keeping the records the municipality must retain:
+ * requests, signatures' dates and titles, ticket history, stock movements and every audit trail
+ * still point at the same user row, which now carries a pseudonym. Personal data that is not part
+ * of those records (sessions, tokens, MFA, presence, notifications, IP/user agent, signature image)
+ * is removed. The hash-chained audit log is append-only and is left untouched.
+ */
+export async function anonymiseUser(args: { tenantId: string; userId: string; actorUserId: string }) {
+  const { tenantId, userId, actorUserId } = args;
+  const user = await prisma.user.findFirst({
+    where: { id: userId, tenantId },
+    select: { id: true, name: true, isServiceAccount: true, anonymisedAt: true },
+  });
+  if (!user) throw Object.assign(new Error("Utilizador não encontrado"), { code: "NOT_FOUND" });
+  if (userId === actorUserId) {
+    throw Object.assign(new Error("Não pode anonimizar a sua própria conta"), { code: "SELF" });
+  }
+  if (user.isServiceAccount) {
+    throw Object.assign(new Error("Contas de serviço não têm dados pessoais a anonimizar"), { code: "SERVICE_ACCOUNT" });
+  }
+  if (user.anonymisedAt) {
+    throw Object.assign(new Error("O utilizador já foi anonimizado"), { code: "ALREADY_ANONYMISED" });
+  }
+
+  // Drop live sessions first so open browsers are told to log out.
+  await revokeUserSessions({ tenantId, userId, reason: "admin", revokedByUserId: actorUserId });
+
+  const pseudonym = anonymisedUserName(userId);
+  const passwordHash = await bcrypt.hash(crypto.randomBytes(32).toString("base64url"), 10);
+
+  return prisma.$transaction(async (tx) => {
+    const ownedRequests = await tx.request.updateMany({
+      where: { tenantId, userId, requesterName: { not: null } },
+      data: { requesterName: pseudonym, requesterEmployeeNo: null },
+    });
+    // The pickup signer is only recorded by name, so only the user's own requests signed under
+    // their name are touched.
+    const pickupSignatures = await tx.request.updateMany({
+      where: { tenantId, userId, pickupSignedByName: { equals: user.name, mode: "insensitive" } },
+      data: {
+        pickupSignedByName: pseudonym,
+        pickupSignatureDataUrl: null,
+        pickupSignedIp: null,
+        pickupSignedUserAgent: null,
+      },
+    });
+    const approvalSignatures = await tx.request.updateMany({
+      where: { tenantId, signedByUserId: userId },
+      data: { signedByName: pseudonym, signedIp: null, signedUserAgent: null },
+    });
+    const publicRequests = await tx.publicRequest.updateMany({
+      where: { tenantId, requesterUserId: userId },
+      data: { requesterName: pseudonym, requesterIp: null },
+    });
+
+    // Delegations are ended rather than deleted: past approvals still name them, but nobody may
+    // keep acting on behalf of (or as a delegate of) an erased account.
+    const approvalDelegations = await tx.approvalDelegation.updateMany({
+      where: { tenantId, revokedAt: null, OR: [{ delegatorUserId: userId }, { delegateUserId: userId }] },
+      data: { revokedAt: new Date(), revokedByUserId: actorUserId },
+    });
+
+    const removed = {
+      sessions: (await tx.userSession.deleteMany({ where: { tenantId, userId } })).count,
+      apiTokens: (await tx.apiToken.deleteMany({ where: { tenantId, userId } })).count,
+      mfa: (await tx.userMfa.deleteMany({ where: { tenantId, userId } })).count,
+      roleAssignments: (await tx.userRoleAssignment.deleteMany({ where: { tenantId, userId } })).count,
+      ipAccessRequests: (await tx.ipAccessRequest.deleteMany({ where: { tenantId, userId } })).count,
+      notifications: (await tx.notification.deleteMany({ where: { tenantId, recipientUserId: userId } })).count,
+      presence: (await tx.userPresence.deleteMany({ where: { tenantId, userId } })).count,
+      presenceViews: (await tx.presenceView.deleteMany({ where: { tenantId, userId } })).count,
+    };
+
+    await tx.user.update({
+      where: { id: userId },
+      data: {
+        name: pseudonym,
+        email: anonymisedUserEmail(userId),
+        username: null,
+        externalId: null,
+        passwordHash,
+        isActive: false,
+        mustChangePassword: false,
+        anonymisedAt: new Date(),
+      },
+    });
+
+    const summary = {
+      pseudonymised: {
+        ownedRequests: ownedRequests.count,
+        pickupSignatures: pickupSignatures.count,
+        approvalSignatures: approvalSignatures.count,
+        publicRequests: publicRequests.count,
+      },
+      removed,
+      revoked: { approvalDelegations: approvalDelegations.count },
+    };
+
+    // The payload holds counts only; repeating the old name here would defeat the purpose.
+    await recordUserAdminAudit(tx, {
+      tenantId,
+      action: "USER_ANONYMISED",
+      actorUserId,
+      targetUserId: userId,
+      note: "Dados pessoais anonimizados (RGPD)",
+      payload: summary,
+    });
+
+    return summary;
+  });
+}
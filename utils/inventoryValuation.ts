@@ -0,0 +1,385 @@
+import { z } from "zod";
+import { prisma } from "@/prisma/client";
+
+export type ValuationMethod = "WAC" | "FIFO";
+
+export const inventoryValuationQuerySchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  method: z.enum(["WAC", "FIFO"]).optional(),
+  categoryId: z.string().uuid().optional(),
+});
+
+export type InventoryValuationData = {
+  meta: {
+    generatedAt: string;
+    method: ValuationMethod;
+    from: string | null;
+    to: string;
+  };
+  totals: {
+    products: number;
+    quantity: number;
+    value: number;
+    // Same stock priced at Product.price, and the gap to the cost-based value.
+    listValue: number;
+    variance: number;
+    openingValue: number | null;
+    receivedValue: number;
+    issuedValue: number;
+    // Products whose current quantity is not fully explained by their movement history.
+    unreconciledProducts: number;
+  };
+  products: Array<{
+    productId: string;
+    name: string;
+    sku: string;
+    categoryId: string;
+    category: string;
+    quantity: number;
+    unitCost: number;
+    value: number;
+    listPrice: number;
+    listValue: number;
+    variance: number;
+    lastPurchasePrice: number | null;
+    // Stock that predates the movement history, valued at Product.price.
+    unreconciledQuantity: number;
+    openingQuantity: number | null;
+    openingValue: number | null;
+    receivedQuantity: number;
+    receivedValue: number;
+    issuedQuantity: number;
+    issuedValue: number;
+  }>;
+  categories: Array<{
+    categoryId: string;
+    category: string;
+    products: number;
+    quantity: number;
+    value: number;
+    listValue: number;
+    issuedValue: number;
+  }>;
+  services: Array<{
+    requestingServiceId: number | null;
+    code: string | null;
+    name: string;
+    issuedQuantity: number;
+    issuedValue: number;
+  }>;
+};
+
+type Ledger = {
+  quantity: () => number;
+  value: () => number;
+  unitCost: () => number;
+  receive: (quantity: number, unitCost: number) => void;
+  issue: (quantity: number) => number;
+};
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function round4(value: number) {
+  return Math.round(value * 10_000) / 10_000;
+}
+
+// Moving weighted average: every receipt re-averages the unit cost, issues leave it unchanged.
+function createWacLedger(fallbackCost: number): Ledger {
+  let quantity = 0;
+  let value = 0;
+  let lastCost = fallbackCost;
+
+  const unitCost = () => (quantity > 0 ? value / quantity : lastCost);
+
+  return {
+    quantity: () => quantity,
+    value: () => (quantity > 0 ? value : 0),
+    unitCost,
+    receive(q, cost) {
+      // Stock issued beyond the balance is settled by the next receipt.
+      if (quantity < 0) {
+        const settled = Math.min(-quantity, q);
+        quantity += settled;
+        q -= settled;
+        value = 0;
+      }
+      lastCost = cost;
+      quantity += q;
+      value += q * cost;
+      if (quantity > 0) lastCost = value / quantity;
+    },
+    issue(q) {
+      const cost = unitCost() * q;
+      lastCost = unitCost();
+      quantity -= q;
+      value = quantity > 0 ? value - cost : 0;
+      return cost;
+    },
+  };
+}
+
+// FIFO: receipts form cost layers and issues consume the oldest layers first.
+function createFifoLedger(fallbackCost: number): Ledger {
+  const layers: Array<{ quantity: number; unitCost: number }> = [];
+  let shortfall = 0;
+  let lastCost = fallbackCost;
+
+  const quantity = () => layers.reduce((sum, layer) => sum + layer.quantity, 0) - shortfall;
+  const value = () => layers.reduce((sum, layer) => sum + layer.quantity * layer.unitCost, 0);
+
+  return {
+    quantity,
+    value,
+    unitCost: () => {
+      const q = quantity();
+      return q > 0 ? value() / q : lastCost;
+    },
+    receive(q, cost) {
+      // Stock issued beyond the known layers is settled by the next receipt.
+      const settled = Math.min(shortfall, q);
+      shortfall -= settled;
+      if (q - settled > 0) layers.push({ quantity: q - settled, unitCost: cost });
+      lastCost = cost;
+    },
+    issue(q) {
+      let remaining = q;
+      let cost = 0;
+      while (remaining > 0 && layers.length) {
+        const layer = layers[0];
+        const take = Math.min(remaining, layer.quantity);
+        cost += take * layer.unitCost;
+        lastCost = layer.unitCost;
+        layer.quantity -= take;
+        remaining -= take;
+        if (layer.quantity <= 0) layers.shift();
+      }
+      if (remaining > 0) {
+        cost += remaining * lastCost;
+        shortfall += remaining;
+      }
+      return cost;
+    },
+  };
+}
+
+const INBOUND_TYPES = new Set(["IN", "RETURN", "REPAIR_IN"]);
+const OUTBOUND_TYPES = new Set(["OUT", "REPAIR_OUT", "SCRAP", "LOST"]);
+
+// Signed effect of a movement on the tenant-wide quantity; transfers only move stock between warehouses.
+function movementDelta(type: string, quantity: number) {
+  if (type === "ADJUSTMENT") return quantity;
+  if (INBOUND_TYPES.has(type)) return quantity;
+  if (OUTBOUND_TYPES.has(type)) return -quantity;
+  return 0;
+}
+
+/**
+ * Values stock at `to` (default now) from the movement history: receipts linked to an invoice are
+ * costed at ProductInvoice.unitPrice, returns and positive adjustments re-enter at the running
+ * cost, and issues leave at weighted average cost (or FIFO layers). Quantity that the history does
+ * not explain is treated as opening stock at Product.price. When `from` is given the report also
+ * carries the opening value and the period's receipts and issues (issues grouped by requesting
+ * service).
+ */
+export async function buildInventoryValuation(args: {
+  tenantId: string;
+  method?: ValuationMethod;
+  from?: Date | null;
+  to?: Date | null;
+  categoryId?: string | null;
+}): Promise<InventoryValuationData> {
+  const method = args.method ?? "WAC";
+  const to = args.to ?? new Date();
+  const from = args.from ?? null;
+
+  const products = await prisma.product.findMany({
+    where: { tenantId: args.tenantId, ...(args.categoryId ? { categoryId: args.categoryId } : {}) },
+    select: {
+      id: true,
+      name: true,
+      sku: true,
+      price: true,
+      quantity: true,
+      categoryId: true,
+      category: { select: { name: true } },
+    },
+    orderBy: { name: "asc" },
+  });
+  const productIds = products.map((p) => p.id);
+
+  const movements = productIds.length
+    ? await prisma.stockMovement.findMany({
+        where: { tenantId: args.tenantId, productId: { in: productIds } },
+        select: {
+          productId: true,
+          type: true,
+          quantity: true,
+          createdAt: true,
+          invoice: { select: { unitPrice: true } },
+          request: { select: { requestingServiceId: true } },
+        },
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      })
+    : [];
+
+  const movementsByProduct = new Map<string, typeof movements>();
+  for (const movement of movements) {
+    const rows = movementsByProduct.get(movement.productId) ?? [];
+    rows.push(movement);
+    movementsByProduct.set(movement.productId, rows);
+  }
+
+  const serviceIssues = new Map<number | null, { quantity: number; value: number }>();
+
+  const productRows = products.map((product) => {
+    const history = movementsByProduct.get(product.id) ?? [];
+    const listPrice = Number(product.price || 0);
+    const currentQuantity = Number(product.quantity);
+    const netHistory = history.reduce((sum, m) => sum + movementDelta(String(m.type), Number(m.quantity)), 0);
+    const unreconciledQuantity = currentQuantity - netHistory;
+
+    const ledger = method === "FIFO" ? createFifoLedger(listPrice) : createWacLedger(listPrice);
+    if (unreconciledQuantity > 0) ledger.receive(unreconciledQuantity, listPrice);
+    else if (unreconciledQuantity < 0) ledger.issue(-unreconciledQuantity);
+
+    let opening: { quantity: number; value: number } | null = null;
+    let lastPurchasePrice: number | null = null;
+    let receivedQuantity = 0;
+    let receivedValue = 0;
+    let issuedQuantity = 0;
+    let issuedValue = 0;
+
+    for (const movement of history) {
+      if (movement.createdAt > to) break;
+      const inPeriod = !from || movement.createdAt >= from;
+      if (from && inPeriod && !opening) opening = { quantity: ledger.quantity(), value: ledger.value() };
+
+      const delta = movementDelta(String(movement.type), Number(movement.quantity));
+      if (delta > 0) {
+        const purchasePrice = movement.type === "IN" && movement.invoice ? Number(movement.invoice.unitPrice) : null;
+        const cost = purchasePrice ?? ledger.unitCost();
+        ledger.receive(delta, cost);
+        if (purchasePrice !== null) {
+          lastPurchasePrice = purchasePrice;
+          if (inPeriod) {
+            receivedQuantity += delta;
+            receivedValue += delta * purchasePrice;
+          }
+        }
+      } else if (delta < 0) {
+        const cost = ledger.issue(-delta);
+        if (inPeriod) {
+          issuedQuantity += -delta;
+          issuedValue += cost;
+          if (movement.type === "OUT") {
+            const key = movement.request?.requestingServiceId ?? null;
+            const agg = serviceIssues.get(key) ?? { quantity: 0, value: 0 };
+            serviceIssues.set(key, { quantity: agg.quantity + -delta, value: agg.value + cost });
+          }
+        }
+      }
+    }
+    if (from && !opening) opening = { quantity: ledger.quantity(), value: ledger.value() };
+
+    const quantity = Math.max(0, ledger.quantity());
+    const value = quantity > 0 ? ledger.value() : 0;
+    const listValue = quantity * listPrice;
+
+    return {
+      productId: product.id,
+      name: product.name,
+      sku: product.sku,
+      categoryId: product.categoryId,
+      category: product.category?.name ?? "Sem categoria",
+      quantity,
+      unitCost: round4(quantity > 0 ? value / quantity : ledger.unitCost()),
+      value: round2(value),
+      listPrice,
+      listValue: round2(listValue),
+      variance: round2(value - listValue),
+      lastPurchasePrice,
+      unreconciledQuantity,
+      openingQuantity: opening ? Math.max(0, opening.quantity) : null,
+      openingValue: opening ? round2(opening.value) : null,
+      receivedQuantity,
+      receivedValue: round2(receivedValue),
+      issuedQuantity,
+      issuedValue: round2(issuedValue),
+    };
+  });
+
+  const categoryMap = new Map<string, InventoryValuationData["categories"][number]>();
+  for (const row of productRows) {
+    const agg = categoryMap.get(row.categoryId) ?? {
+      categoryId: row.categoryId,
+      category: row.category,
+      products: 0,
+      quantity: 0,
+      value: 0,
+      listValue: 0,
+      issuedValue: 0,
+    };
+    agg.products += 1;
+    agg.quantity += row.quantity;
+    agg.value += row.value;
+    agg.listValue += row.listValue;
+    agg.issuedValue += row.issuedValue;
+    categoryMap.set(row.categoryId, agg);
+  }
+
+  const serviceIds = Array.from(serviceIssues.keys()).filter((id): id is number => typeof id === "number");
+  const serviceMeta = serviceIds.length
+    ? await prisma.requestingService.findMany({
+        where: { id: { in: serviceIds } },
+        select: { id: true, codigo: true, designacao: true },
+      })
+    : [];
+  const serviceMetaMap = new Map(serviceMeta.map((s) => [s.id, s] as const));
+
+  const sum = (pick: (row: (typeof productRows)[number]) => number) =>
+    round2(productRows.reduce((total, row) => total + pick(row), 0));
+
+  return {
+    meta: {
+      generatedAt: new Date().toISOString(),
+      method,
+      from: from ? from.toISOString() : null,
+      to: to.toISOString(),
+    },
+    totals: {
+      products: productRows.length,
+      quantity: productRows.reduce((total, row) => total + row.quantity, 0),
+      value: sum((row) => row.value),
+      listValue: sum((row) => row.listValue),
+      variance: sum((row) => row.variance),
+      openingValue: from ? sum((row) => row.openingValue ?? 0) : null,
+      receivedValue: sum((row) => row.receivedValue),
+      issuedValue: sum((row) => row.issuedValue),
+      unreconciledProducts: productRows.filter((row) => row.unreconciledQuantity !== 0).length,
+    },
+    products: productRows.sort((a, b) => b.value - a.value),
+    categories: Array.from(categoryMap.values())
+      .map((row) => ({
+        ...row,
+        value: round2(row.value),
+        listValue: round2(row.listValue),
+        issuedValue: round2(row.issuedValue),
+      }))
+      .sort((a, b) => b.value - a.value),
+    services: Array.from(serviceIssues.entries())
+      .map(([id, agg]) => {
+        const meta = typeof id === "number" ? serviceMetaMap.get(id) : undefined;
+        return {
+          requestingServiceId: id,
+          code: meta?.codigo ?? null,
+          name: meta?.designacao ?? "Sem serviço",
+          issuedQuantity: agg.quantity,
+          issuedValue: round2(agg.value),
+        };
+      })
+      .sort((a, b) => b.issuedValue - a.issuedValue),
+  };
+}
@@ -0,0 +1,572 @@
+import bcrypt from "bcryptjs";
+import crypto from "crypto";
+import { z } from "zod";
+import { Client, escapeFilter, InvalidCredentialsError, SizeLimitExceededError, type Entry } from "ldapts";
+import { prisma } from "@/prisma/client";
+import { logUserAdminAction } from "@/utils/adminAudit";
+import { revokeUserSessions } from "@/utils/sessions";
+import { recordRbacAudit } from "@/utils/auditLog";
+
+type LdapConfig = {
+  url: string;
+  bindDn: string;
+  bindPassword: string;
+  baseDn: string;
+  userFilter: string;
+  loginAttributes: string[];
+  startTls: boolean;
+  rejectUnauthorized: boolean;
+  tenantSlug: string;
+};
+
+export type DirectoryUser = {
+  dn: string;
+  externalId: string;
+  email: string | null;
+  name: string | null;
+  username: string | null;
+  groups: string[];
+  disabled: boolean;
+};
+
+type DirectoryMappingRow = {
+  id: string;
+  kind: "GROUP" | "OU";
+  dn: string;
+  priority: number;
+  requestingServiceId: number | null;
+  roleId: string | null;
+};
+
+export type DirectorySyncAction = "created" | "linked" | "updated" | "unchanged" | "skipped";
+
+export type DirectorySyncReport = {
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt: string;
+  directoryEntries: number;
+  created: number;
+  linked: number;
+  updated: number;
+  unchanged: number;
+  deactivated: number;
+  roleChanges: number;
+  skipped: Array<{ dn: string; reason: string }>;
+};
+
+// Attributes requested from the directory; AD and OpenLDAP names side by side.
+const USER_ATTRIBUTES = [
+  "objectGUID",
+  "entryUUID",
+  "mail",
+  "userPrincipalName",
+  "displayName",
+  "cn",
+  "sAMAccountName",
+  "uid",
+  "memberOf",
+  "userAccountControl",
+];
+// AD userAccountControl flag for disabled accounts.
+const UAC_ACCOUNTDISABLE = 0x2;
+
+export function getLdapConfig(): LdapConfig | null {
+  const url = process.env.LDAP_URL?.trim();
+  const baseDn = process.env.LDAP_BASE_DN?.trim();
+  if (!url || !baseDn) return null;
+
+  const loginAttributes = (process.env.LDAP_LOGIN_ATTRIBUTES || "mail,userPrincipalName,sAMAccountName,uid")
+    .split(",")
+    .map((attr) => attr.trim())
+    .filter((attr) => /^[A-Za-z][A-Za-z0-9-]*$/.test(attr));
+
+  return {
+    url,
+    baseDn,
+    bindDn: process.env.LDAP_BIND_DN || "",
+    bindPassword: process.env.LDAP_BIND_PASSWORD || "",
+    userFilter: process.env.LDAP_USER_FILTER || "(&(objectClass=person)(mail=*))",
+    loginAttributes: loginAttributes.length ? loginAttributes : ["mail"],
+    startTls: process.env.LDAP_STARTTLS === "true",
+    rejectUnauthorized: process.env.LDAP_TLS_REJECT_UNAUTHORIZED !== "false",
+    tenantSlug: (process.env.LDAP_TENANT_SLUG || process.env.DEFAULT_TENANT_SLUG || "default").trim(),
+  };
+}
+
+/** LDAP only serves one tenant (LDAP_TENANT_SLUG); other tenants keep local accounts only. */
+export async function isLdapEnabledForTenant(tenantId: string) {
+  const config = getLdapConfig();
+  if (!config) return false;
+  const tenant = await prisma.tenant.findUnique({ where: { slug: config.tenantSlug }, select: { id: true } });
+  return tenant?.id === tenantId;
+}
+
+/** Lowercases and strips the optional spaces around separators so DNs compare reliably. */
+export function normalizeDn(dn: string) {
+  return dn
+    .trim()
+    .replace(/\s*([,=+])\s*/g, "$1")
+    .toLowerCase();
+}
+
+async function connect(config: LdapConfig) {
+  const tlsOptions = { rejectUnauthorized: config.rejectUnauthorized };
+  const client = new Client({ url: config.url, timeout: 10_000, connectTimeout: 5_000, tlsOptions });
+  if (config.startTls) await client.startTLS(tlsOptions);
+  return client;
+}
+
+async function withServiceBind<T>(config: LdapConfig, fn: (client: Client) => Promise<T>) {
+  const client = await connect(config);
+  try {
+    if (config.bindDn) await client.bind(config.bindDn, config.bindPassword);
+    return await fn(client);
+  } finally {
+    await client.unbind().catch(() => undefined);
+  }
+}
+
+const firstString = (value: Entry[string] | undefined) => {
+  const item = Array.isArray(value) ? value[0] : value;
+  if (item == null) return null;
+  const text = Buffer.isBuffer(item) ? item.toString("utf8") : String(item);
+  return text.trim() || null;
+};
+
+const allStrings = (value: Entry[string] | undefined) => {
+  const items = Array.isArray(value) ? value : value == null ? [] : [value];
+  return items.map((item) => (Buffer.isBuffer(item) ? item.toString("utf8") : String(item))).filter(Boolean);
+};
+
+function toDirectoryUser(entry: Entry): DirectoryUser {
+  const guid = Array.isArray(entry.objectGUID) ? entry.objectGUID[0] : entry.objectGUID;
+  const externalId =
+    Buffer.isBuffer(guid) && guid.length
+      ? `guid:${guid.toString("hex")}`
+      : firstString(entry.entryUUID)
+        ? `uuid:${firstString(entry.entryUUID)!.toLowerCase()}`
+        : `dn:${normalizeDn(entry.dn)}`;
+
+  const uac = Number(firstString(entry.userAccountControl));
+  const email = firstString(entry.mail);
+
+  return {
+    dn: entry.dn,
+    externalId,
+    email: email ? email.toLowerCase() : null,
+    name: firstString(entry.displayName) ?? firstString(entry.cn),
+    username: firstString(entry.sAMAccountName) ?? firstString(entry.uid),
+    groups: allStrings(entry.memberOf),
+    disabled: Number.isFinite(uac) && (uac & UAC_ACCOUNTDISABLE) !== 0,
+  };
+}
+
+/** Looks a login name up against LDAP_LOGIN_ATTRIBUTES. Ambiguous matches are refused. */
+export async function findDirectoryUser(login: string) {
+  const config = getLdapConfig();
+  if (!config) return null;
+  const trimmed = login.trim();
+  if (!trimmed) return null;
+  const value = escapeFilter`${trimmed}`;
+
+  const byLogin = config.loginAttributes.map((attr) => `(${attr}=${value})`).join("");
+  const filter = `(&${config.userFilter}(|${byLogin}))`;
+
+  try {
+    const { searchEntries } = await withServiceBind(config, (client) =>
+      client.search(config.baseDn, {
+        scope: "sub",
+        filter,
+        attributes: USER_ATTRIBUTES,
+        explicitBufferAttributes: ["objectGUID"],
+        sizeLimit: 2,
+      })
+    );
+    return searchEntries.length === 1 ? toDirectoryUser(searchEntries[0]) : null;
+  } catch (error) {
+    if (error instanceof SizeLimitExceededError) return null;
+    throw error;
+  }
+}
+
+/** Simple bind as the user. Empty passwords are refused: most servers treat them as anonymous binds. */
+export async function verifyDirectoryPassword(dn: string, password: string) {
+  const config = getLdapConfig();
+  if (!config || !password) return false;
+
+  const client = await connect(config);
+  try {
+    await client.bind(dn, password);
+    return true;
+  } catch (error) {
+    if (error instanceof InvalidCredentialsError) return false;
+    throw error;
+  } finally {
+    await client.unbind().catch(() => undefined);
+  }
+}
+
+export async function listDirectoryUsers() {
+  const config = getLdapConfig();
+  if (!config) throw Object.assign(new Error("LDAP não está configurado"), { code: "LDAP_NOT_CONFIGURED" });
+
+  const { searchEntries } = await withServiceBind(config, (client) =>
+    client.search(config.baseDn, {
+      scope: "sub",
+      filter: config.userFilter,
+      attributes: USER_ATTRIBUTES,
+      explicitBufferAttributes: ["objectGUID"],
+      paged: { pageSize: 500 },
+    })
+  );
+  return searchEntries.map(toDirectoryUser);
+}
+
+export const directoryMappingSchema = z
+  .object({
+    kind: z.enum(["GROUP", "OU"]),
+    dn: z.string().trim().min(3).max(500),
+    priority: z.number().int().min(0).max(10_000).optional(),
+    requestingServiceId: z.number().int().nullable().optional(),
+    roleKey: z.string().trim().min(2).max(120).nullable().optional(),
+  })
+  .refine((data) => data.requestingServiceId != null || Boolean(data.roleKey), {
+    message: "Indique um serviço requisitante e/ou um perfil",
+  });
+
+export const directoryMappingSelect = {
+  id: true,
+  kind: true,
+  dn: true,
+  priority: true,
+  createdAt: true,
+  updatedAt: true,
+  requestingService: { select: { id: true, codigo: true, designacao: true } },
+  role: { select: { id: true, key: true, name: true } },
+} as const;
+
+/** Resolves the role key and checks the service; returns an error message when either is unknown. */
+export async function resolveMappingTargets(
+  tenantId: string,
+  data: { requestingServiceId?: number | null; roleKey?: string | null }
+) {
+  let roleId: string | null = null;
+  if (data.roleKey) {
+    const role = await prisma.accessRole.findFirst({ where: { tenantId, key: data.roleKey }, select: { id: true } });
+    if (!role) return { error: "Perfil desconhecido" } as const;
+    roleId = role.id;
+  }
+  if (data.requestingServiceId != null) {
+    const svc = await prisma.requestingService.findUnique({ where: { id: data.requestingServiceId }, select: { id: true } });
+    if (!svc) return { error: "Serviço requisitante desconhecido" } as const;
+  }
+  return { roleId, requestingServiceId: data.requestingServiceId ?? null } as const;
+}
+
+function matchingMappings(user: DirectoryUser, mappings: DirectoryMappingRow[]) {
+  const dn = normalizeDn(user.dn);
+  const groups = new Set(user.groups.map(normalizeDn));
+  return mappings
+    .filter((m) => {
+      const target = normalizeDn(m.dn);
+      return m.kind === "GROUP" ? groups.has(target) : dn.endsWith(`,${target}`);
+    })
+    .sort((a, b) => a.priority - b.priority);
+}
+
+async function loadMappings(tenantId: string): Promise<DirectoryMappingRow[]> {
+  return prisma.directoryMapping.findMany({
+    where: { tenantId },
+    select: { id: true, kind: true, dn: true, priority: true, requestingServiceId: true, roleId: true },
+    orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+  });
+}
+
+/**
+ * Keeps the user's directory-owned role assignment in line with the mappings. The app allows a
+ * single assignment per user, so a manual assignment always wins and is never touched.
+ */
+async function syncDirectoryRole(
+  tenantId: string,
+  userId: string,
+  matches: DirectoryMappingRow[],
+  requestingServiceId: number | null,
+  dryRun: boolean
+) {
+  const wanted = matches.find((m) => m.roleId);
+  const current = await prisma.userRoleAssignment.findFirst({
+    where: { tenantId, userId },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, source: true, roleId: true, requestingServiceId: true, isActive: true },
+  });
+  if (current && current.source !== "DIRECTORY") return false;
+
+  const scope = wanted ? (wanted.requestingServiceId ?? requestingServiceId) : null;
+  let action: string | null = null;
+  let data: Record<string, unknown> = {};
+
+  if (!wanted) {
+    if (!current?.isActive) return false;
+    action = "ASSIGNMENT_UPDATED";
+    data = { isActive: false };
+  } else if (!current) {
+    action = "ASSIGNMENT_CREATED";
+  } else if (current.roleId !== wanted.roleId || current.requestingServiceId !== scope || !current.isActive) {
+    action = "ASSIGNMENT_UPDATED";
+    data = { roleId: wanted.roleId, requestingServiceId: scope, isActive: true };
+  }
+  if (!action || dryRun) return Boolean(action);
+
+  const assignment = current
+    ? await prisma.userRoleAssignment.update({ where: { id: current.id }, data, select: { id: true, isActive: true } })
+    : await prisma.userRoleAssignment.create({
+        data: {
+          tenantId,
+          userId,
+          roleId: wanted!.roleId!,
+          requestingServiceId: scope,
+          source: "DIRECTORY",
+          note: "Atribuído pela sincronização LDAP",
+        },
+        select: { id: true, isActive: true },
+      });
+
+  await recordRbacAudit(prisma, {
+    tenantId,
+    actorUserId: null,
+    action,
+    note: "Sincronização LDAP",
+    payload: {
+      assignmentId: assignment.id,
+      userId,
+      roleId: wanted?.roleId ?? current?.roleId ?? null,
+      requestingServiceId: scope,
+      isActive: assignment.isActive,
+      mappingId: wanted?.id ?? null,
+    },
+  });
+  return true;
+}
+
+type ApplyResult = {
+  action: DirectorySyncAction;
+  reason?: string;
+  roleChanged?: boolean;
+  userId?: string;
+};
+
+async function applyDirectoryUser(
+  tenantId: string,
+  entry: DirectoryUser,
+  mappings: DirectoryMappingRow[],
+  dryRun: boolean
+): Promise<ApplyResult> {
+  if (!entry.email) return { action: "skipped", reason: "Sem endereço de email no diretório" };
+
+  const existing =
+    (await prisma.user.findFirst({ where: { tenantId, externalId: entry.externalId } })) ??
+    (await prisma.user.findFirst({
+      where: { tenantId, email: { equals: entry.email, mode: "insensitive" } },
+    }));
+  if (existing && existing.externalId && existing.externalId !== entry.externalId) {
+    return { action: "skipped", reason: "O email já pertence a outro utilizador do diretório" };
+  }
+  if (!existing && entry.disabled) return { action: "skipped", reason: "Conta desativada no diretório" };
+
+  const matches = matchingMappings(entry, mappings);
+  const mappedService = matches.find((m) => m.requestingServiceId != null)?.requestingServiceId ?? null;
+
+  let username = entry.username ?? existing?.username ?? null;
+  if (username && username !== existing?.username) {
+    const taken = await prisma.user.findFirst({
+      where: { tenantId, username, ...(existing ? { NOT: { id: existing.id } } : {}) },
+      select: { id: true },
+    });
+    if (taken) username = existing?.username ?? null;
+  }
+
+  const desired = {
+    email: entry.email,
+    name: entry.name || entry.email,
+    username,
+    isActive: !entry.disabled,
+    authProvider: "LDAP" as const,
+    externalId: entry.externalId,
+    // Mappings only set the service when one applies; otherwise the admin's choice stays.
+    requestingServiceId: mappedService ?? existing?.requestingServiceId ?? null,
+  };
+
+  let action: DirectorySyncAction;
+  let userId = existing?.id;
+  if (!existing) {
+    action = "created";
+    if (!dryRun) {
+      // Directory users never log in with a local password; store an unguessable one.
+      const passwordHash = await bcrypt.hash(crypto.randomBytes(32).toString("base64url"), 10);
+      const created = await prisma.user.create({ data: { tenantId, passwordHash, ...desired }, select: { id: true } });
+      userId = created.id;
+    }
+  } else {
+    const changed = (Object.keys(desired) as Array<keyof typeof desired>).filter(
+      (key) => (existing as any)[key] !== desired[key]
+    );
+    action = !changed.length ? "unchanged" : existing.authProvider === "LOCAL" ? "linked" : "updated";
+    // Every User write invalidates the user's sessions, so only write real changes.
+    if (changed.length && !dryRun) {
+      await prisma.user.update({
+        where: { id: existing.id },
+        data: Object.fromEntries(changed.map((key) => [key, desired[key]])),
+      });
+      if (existing.isActive && !desired.isActive) {
+        await revokeUserSessions({ tenantId, userId: existing.id, reason: "directory" });
+      }
+    }
+  }
+
+  const roleChanged = userId
+    ? await syncDirectoryRole(tenantId, userId, matches, desired.requestingServiceId, dryRun)
+    : matches.some((m) => m.roleId);
+  return { action, roleChanged, userId };
+}
+
+/**
+ * Called after a successful bind: creates the account on first login (JIT) or refreshes it from
+ * the directory entry. Returns the local user id, or null when the entry cannot be used.
+ */
+export async function provisionDirectoryUser(tenantId: string, entry: DirectoryUser) {
+  const mappings = await loadMappings(tenantId);
+  const result = await applyDirectoryUser(tenantId, entry, mappings, false);
+  return result.userId ?? null;
+}
+
+const runningSyncs = new Set<string>();
+
+/**
+ * Full directory sync: creates and updates users found by LDAP_USER_FILTER and deactivates LDAP
+ * users that disappeared from the directory or are disabled there. With `dryRun` nothing is written.
+ */
+export async function runDirectorySync(tenantId: string, opts: { dryRun?: boolean } = {}): Promise<DirectorySyncReport> {
+  if (runningSyncs.has(tenantId)) {
+    throw Object.assign(new Error("Já existe uma sincronização em curso"), { code: "LDAP_SYNC_RUNNING" });
+  }
+  runningSyncs.add(tenantId);
+
+  const dryRun = Boolean(opts.dryRun);
+  const startedAt = new Date();
+  const report: DirectorySyncReport = {
+    dryRun,
+    startedAt: startedAt.toISOString(),
+    finishedAt: startedAt.toISOString(),
+    directoryEntries: 0,
+    created: 0,
+    linked: 0,
+    updated: 0,
+    unchanged: 0,
+    deactivated: 0,
+    roleChanges: 0,
+    skipped: [],
+  };
+
+  try {
+    const [entries, mappings] = await Promise.all([listDirectoryUsers(), loadMappings(tenantId)]);
+    report.directoryEntries = entries.length;
+
+    const seen = new Set<string>();
+    for (const entry of entries) {
+      seen.add(entry.externalId);
+      const result = await applyDirectoryUser(tenantId, entry, mappings, dryRun);
+      if (result.action === "skipped") report.skipped.push({ dn: entry.dn, reason: result.reason || "" });
+      else report[result.action] += 1;
+      if (result.roleChanged) report.roleChanges += 1;
+    }
+
+    // An empty result is far more likely a bad filter or base DN than an empty directory.
+    if (entries.length) {
+      const missing = await prisma.user.findMany({
+        where: { tenantId, authProvider: "LDAP", isActive: true },
+        select: { id: true, externalId: true },
+      });
+      const toDeactivate = missing.filter((u) => !u.externalId || !seen.has(u.externalId));
+      report.deactivated = toDeactivate.length;
+
+      if (!dryRun) {
+        for (const user of toDeactivate) {
+          await prisma.user.update({ where: { id: user.id }, data: { isActive: false } });
+          await revokeUserSessions({ tenantId, userId: user.id, reason: "directory" });
+        }
+      }
+    }
+
+    report.finishedAt = new Date().toISOString();
+    return report;
+  } finally {
+    runningSyncs.delete(tenantId);
+  }
+}
+
+export async function getLdapStatus(tenantId: string) {
+  const config = getLdapConfig();
+  const lastRun = await prisma.userAdminAudit.findFirst({
+    where: { tenantId, action: "LDAP_SYNC" },
+    orderBy: { createdAt: "desc" },
+    select: { createdAt: true, note: true, payload: true },
+  });
+  return {
+    configured: Boolean(config),
+    enabledForTenant: await isLdapEnabledForTenant(tenantId),
+    url: config?.url ?? null,
+    baseDn: config?.baseDn ?? null,
+    userFilter: config?.userFilter ?? null,
+    syncIntervalMinutes: syncIntervalMinutes(),
+    lastSync: lastRun
+      ? { at: lastRun.createdAt.toISOString(), note: lastRun.note, report: lastRun.payload }
+      : null,
+  };
+}
+
+function syncIntervalMinutes() {
+  const value = Number(process.env.LDAP_SYNC_INTERVAL_MINUTES);
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Runs the directory sync every LDAP_SYNC_INTERVAL_MINUTES inside the server process. Started from
+ * instrumentation.ts; with several instances, leave the interval unset and call
+ * POST /api/admin/ldap/sync from an external cron instead.
+ */
+export function startDirectorySyncScheduler() {
+  const config = getLdapConfig();
+  const minutes = syncIntervalMinutes();
+  if (!config || !minutes || schedulerTimer) return;
+
+  const tick = async () => {
+    try {
+      const tenant = await prisma.tenant.findUnique({ where: { slug: config.tenantSlug }, select: { id: true } });
+      if (!tenant) return;
+      const report = await runDirectorySync(tenant.id);
+      await logUserAdminAction({
+        tenantId: tenant.id,
+        actorUserId: null,
+        action: "LDAP_SYNC",
+        note: describeSyncReport(report, "agendada"),
+        payload: { ...report, skipped: report.skipped.slice(0, 50) },
+      });
+    } catch (error: any) {
+      if (error?.code === "LDAP_SYNC_RUNNING") return;
+      console.error("LDAP directory sync error:", error);
+    }
+  };
+
+  schedulerTimer = setInterval(() => void tick(), minutes * 60_000);
+  schedulerTimer.unref?.();
+}
+
+export function describeSyncReport(report: DirectorySyncReport, trigger: "manual" | "agendada") {
+  return (
+    `Sincronização LDAP ${trigger}${report.dryRun ? " (simulação)" : ""}: ` +
+    `${report.created} criado(s), ${report.linked} associado(s), ${report.updated} atualizado(s), ` +
+    `${report.deactivated} desativado(s), ${report.skipped.length} ignorado(s)`
+  );
+}
@@ -0,0 +1,257 @@
+import crypto from "crypto";
+import QRCode from "qrcode";
+import { prisma } from "@/prisma/client";
+
+// RFC 6238 defaults, which is what authenticator apps assume when the URI omits them.
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept one step either side to absorb clock drift on phones.
+const TOTP_WINDOW = 1;
+const RECOVERY_CODE_COUNT = 10;
+const ISSUER = process.env.MFA_ISSUER || "CMCHUB";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(buffer: Buffer) {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+function base32Decode(input: string) {
+  const clean = input.toUpperCase().replace(/=+$/, "").replace(/\s/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function hotp(secret: Buffer, counter: number) {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = crypto.createHmac("sha1", secret).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+function currentStep(now = Date.now()) {
+  return Math.floor(now / 1000 / TOTP_STEP_SECONDS);
+}
+
+/**
+ * Returns the time step the code belongs to, or null. Steps at or before `lastUsedStep` are
+ * refused so an observed code cannot be replayed.
+ */
+export function verifyTotpCode(secretBase32: string, code: string, lastUsedStep?: number | null) {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+  const secret = base32Decode(secretBase32);
+  const step = currentStep();
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset += 1) {
+    const candidate = step + offset;
+    if (lastUsedStep != null && candidate <= lastUsedStep) continue;
+    const expected = hotp(secret, candidate);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) return candidate;
+  }
+  return null;
+}
+
+function encryptionKey() {
+  const material = process.env.MFA_ENCRYPTION_KEY || process.env.JWT_SECRET || "dev_insecure_secret";
+  return crypto.createHash("sha256").update(`mfa:${material}`).digest();
+}
+
+function encryptSecret(secret: string) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return ["v1", iv.toString("base64url"), cipher.getAuthTag().toString("base64url"), encrypted.toString("base64url")].join(":");
+}
+
+function decryptSecret(stored: string) {
+  const [version, iv, tag, data] = stored.split(":");
+  if (version !== "v1" || !iv || !tag || !data) throw new Error("Unsupported MFA secret format");
+  const decipher = crypto.createDecipheriv("aes-256-gcm", encryptionKey(), Buffer.from(iv, "base64url"));
+  decipher.setAuthTag(Buffer.from(tag, "base64url"));
+  return Buffer.concat([decipher.update(Buffer.from(data, "base64url")), decipher.final()]).toString("utf8");
+}
+
+function hashRecoveryCode(code: string) {
+  const normalized = code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  return crypto.createHmac("sha256", encryptionKey()).update(normalized).digest("hex");
+}
+
+function generateRecoveryCodes() {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(crypto.randomBytes(5));
+    return `${raw.slice(0, 4)}-${raw.slice(4, 8)}`;
+  });
+}
+
+async function replaceRecoveryCodes(tx: any, mfaId: string) {
+  const codes = generateRecoveryCodes();
+  await tx.userMfaRecoveryCode.deleteMany({ where: { mfaId } });
+  await tx.userMfaRecoveryCode.createMany({
+    data: codes.map((code) => ({ mfaId, codeHash: hashRecoveryCode(code) })),
+  });
+  return codes;
+}
+
+export async function getMfaPolicy(tenantId: string) {
+  const policy = await prisma.mfaPolicy.findUnique({ where: { tenantId } });
+  return {
+    requireForAdmins: policy?.requireForAdmins ?? false,
+    requiredRoleKeys: policy?.requiredRoleKeys ?? [],
+    updatedAt: policy?.updatedAt ? policy.updatedAt.toISOString() : null,
+  };
+}
+
+/** Whether the tenant policy forces this user to use a second factor. */
+export async function isMfaRequired(user: { id: string; tenantId: string; role: string }) {
+  const policy = await getMfaPolicy(user.tenantId);
+  if (user.role === "ADMIN" && policy.requireForAdmins) return true;
+  if (!policy.requiredRoleKeys.length) return false;
+
+  const now = new Date();
+  const match = await prisma.userRoleAssignment.findFirst({
+    where: {
+      tenantId: user.tenantId,
+      userId: user.id,
+      isActive: true,
+      role: { key: { in: policy.requiredRoleKeys } },
+      OR: [{ startsAt: null }, { startsAt: { lte: now } }],
+      AND: [{ OR: [{ endsAt: null }, { endsAt: { gt: now } }] }],
+    },
+    select: { id: true },
+  });
+  return Boolean(match);
+}
+
+export async function getMfaStatus(user: { id: string; tenantId: string; role: string }) {
+  const [mfa, required] = await Promise.all([
+    prisma.userMfa.findUnique({
+      where: { userId: user.id },
+      select: {
+        enabledAt: true,
+        recoveryCodes: { where: { usedAt: null }, select: { id: true } },
+      },
+    }),
+    isMfaRequired(user),
+  ]);
+  return {
+    enabled: Boolean(mfa?.enabledAt),
+    enabledAt: mfa?.enabledAt ? mfa.enabledAt.toISOString() : null,
+    required,
+    remainingRecoveryCodes: mfa?.enabledAt ? mfa.recoveryCodes.length : 0,
+  };
+}
+
+/**
+ * Starts (or restarts) enrolment with a fresh secret. The factor stays inactive until
+ * confirmEnrollment succeeds with a code from the authenticator app.
+ */
+export async function startEnrollment(user: { id: string; tenantId: string; email: string }) {
+  const existing = await prisma.userMfa.findUnique({ where: { userId: user.id }, select: { enabledAt: true } });
+  if (existing?.enabledAt) {
+    throw Object.assign(new Error("A autenticação de dois fatores já está ativa"), { code: "MFA_ALREADY_ENABLED" });
+  }
+
+  const secret = base32Encode(crypto.randomBytes(20));
+  await prisma.userMfa.upsert({
+    where: { userId: user.id },
+    create: { tenantId: user.tenantId, userId: user.id, secret: encryptSecret(secret) },
+    update: { secret: encryptSecret(secret), lastUsedStep: null },
+  });
+
+  const label = encodeURIComponent(`${ISSUER}:${user.email}`);
+  const otpauthUrl =
+    `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}` +
+    `&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+  const qrDataUrl = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 220 });
+  return { secret, otpauthUrl, qrDataUrl };
+}
+
+/** Activates a pending enrolment and returns the recovery codes (shown once, stored hashed). */
+export async function confirmEnrollment(userId: string, code: string) {
+  const mfa = await prisma.userMfa.findUnique({ where: { userId }, select: { id: true, secret: true, enabledAt: true } });
+  if (!mfa) throw Object.assign(new Error("Não existe inscrição pendente"), { code: "MFA_NOT_ENROLLING" });
+  if (mfa.enabledAt) {
+    throw Object.assign(new Error("A autenticação de dois fatores já está ativa"), { code: "MFA_ALREADY_ENABLED" });
+  }
+
+  const step = verifyTotpCode(decryptSecret(mfa.secret), code);
+  if (step == null) throw Object.assign(new Error("Código inválido"), { code: "MFA_INVALID_CODE" });
+
+  return prisma.$transaction(async (tx) => {
+    await tx.userMfa.update({ where: { id: mfa.id }, data: { enabledAt: new Date(), lastUsedStep: step } });
+    return replaceRecoveryCodes(tx, mfa.id);
+  });
+}
+
+/**
+ * Checks a TOTP code or a single-use recovery code for an enrolled user. Returns which one
+ * matched, or null.
+ */
+export async function verifyMfaChallenge(userId: string, input: { code?: string; recoveryCode?: string }) {
+  const mfa = await prisma.userMfa.findUnique({
+    where: { userId },
+    select: { id: true, secret: true, enabledAt: true, lastUsedStep: true },
+  });
+  if (!mfa?.enabledAt) return null;
+
+  if (input.code) {
+    const step = verifyTotpCode(decryptSecret(mfa.secret), input.code, mfa.lastUsedStep);
+    if (step == null) return null;
+    // Conditional update so two concurrent logins cannot both spend the same step.
+    const claimed = await prisma.userMfa.updateMany({
+      where: { id: mfa.id, OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }] },
+      data: { lastUsedStep: step },
+    });
+    return claimed.count ? ("TOTP" as const) : null;
+  }
+
+  if (input.recoveryCode) {
+    const claimed = await prisma.userMfaRecoveryCode.updateMany({
+      where: { mfaId: mfa.id, codeHash: hashRecoveryCode(input.recoveryCode), usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    return claimed.count ? ("RECOVERY" as const) : null;
+  }
+
+  return null;
+}
+
+export async function regenerateRecoveryCodes(userId: string) {
+  const mfa = await prisma.userMfa.findUnique({ where: { userId }, select: { id: true, enabledAt: true } });
+  if (!mfa?.enabledAt) {
+    throw Object.assign(new Error("A autenticação de dois fatores não está ativa"), { code: "MFA_NOT_ENABLED" });
+  }
+  return prisma.$transaction((tx) => replaceRecoveryCodes(tx, mfa.id));
+}
+
+/** Removes the factor (own disable or admin reset); the user enrols again from scratch. */
+export async function removeMfa(userId: string) {
+  const deleted = await prisma.userMfa.deleteMany({ where: { userId } });
+  return deleted.count > 0;
+}
@@ -1,5 +1,6 @@
 import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
 import type { MunicipalReportData } from "@/utils/municipalReports";
+import type { InventoryValuationData } from "@/utils/inventoryValuation";
 
 function safe(value: unknown): string {
   if (typeof value === "number" && Number.isFinite(value)) return String(value);
@@ -21,10 +22,8 @@ function eur(amount: number): string {
   return `${n.toFixed(2)} €`;
 }
 
-export async function buildMunicipalReportPdfBytes(args: {
-  tenantName?: string | null;
-  data: MunicipalReportData;
-}): Promise<Uint8Array> {
+// A4 text layout shared by the report PDFs: flowing lines, section titles and label/value rows.
+async function createReportPdf() {
   const doc = await PDFDocument.create();
   const font = await doc.embedFont(StandardFonts.Helvetica);
   const fontBold = await doc.embedFont(StandardFonts.HelveticaBold);
@@ -84,6 +83,19 @@ export async function buildMunicipalReportPdfBytes(args: {
     y -= size + 5;
   };
 
+  const gap = (amount: number) => {
+    y -= amount;
+  };
+
+  return { doc, drawText, divider, title, tableRow, gap };
+}
+
+export async function buildMunicipalReportPdfBytes(args: {
+  tenantName?: string | null;
+  data: MunicipalReportData;
+}): Promise<Uint8Array> {
+  const { doc, drawText, divider, title, tableRow, gap } = await createReportPdf();
+
   // Header
   drawText("RELATÓRIO MUNICIPAL • STOCKLY", { size: 16, bold: true });
   drawText(`Entidade: ${safe(args.tenantName ?? "-")}`, { size: 11, bold: true });
@@ -106,7 +118,7 @@ export async function buildMunicipalReportPdfBytes(args: {
   tableRow("Artigos em baixo stock (≤ 20)", safe(args.data.stock.lowStockCount));
   tableRow("Artigos sem stock", safe(args.data.stock.outOfStockCount));
 
-  y -= 6;
+  gap(6);
   drawText("Top produtos por valor:", { bold: true, size: 11 });
   for (const [i, p] of args.data.stock.topByValue.slice(0, 10).entries()) {
     drawText(`${i + 1}. ${p.name} (${p.sku}) — ${p.quantity} × ${eur(p.unitPrice)} = ${eur(p.value)}`, {
@@ -122,13 +134,13 @@ export async function buildMunicipalReportPdfBytes(args: {
   tableRow("Quantidade total recebida", safe(args.data.purchases.totalQuantity));
   tableRow("Total gasto", eur(args.data.purchases.totalSpend));
 
-  y -= 6;
+  gap(6);
   drawText("Top fornecedores por gasto:", { bold: true, size: 11 });
   for (const [i, s] of args.data.purchases.bySupplier.slice(0, 8).entries()) {
     drawText(`${i + 1}. ${s.supplier} — ${eur(s.spend)} (${s.quantity} un.; ${s.invoices} linhas)`, { size: 10 });
   }
 
-  y -= 6;
+  gap(6);
   drawText("Top produtos por gasto:", { bold: true, size: 11 });
   for (const [i, p] of args.data.purchases.topProducts.slice(0, 8).entries()) {
     drawText(`${i + 1}. ${p.name} (${p.sku}) — ${p.quantity} un.; ${eur(p.spend)}`, { size: 10 });
@@ -149,19 +161,19 @@ export async function buildMunicipalReportPdfBytes(args: {
     tableRow("Conformidade (levantamento assinado)", `${pickupPct.toFixed(0)}%`);
   }
 
-  y -= 6;
+  gap(6);
   drawText("Por estado:", { bold: true, size: 11 });
   for (const row of args.data.requests.byStatus.slice(0, 10)) {
     drawText(`- ${row.status}: ${row.count}`, { size: 10 });
   }
 
-  y -= 6;
+  gap(6);
   drawText("Top serviços por consumo:", { bold: true, size: 11 });
   for (const [i, s] of args.data.requests.byService.slice(0, 8).entries()) {
     drawText(`${i + 1}. ${s.service} — ${s.items} itens (${s.requests} req.)`, { size: 10 });
   }
 
-  y -= 6;
+  gap(6);
   drawText("Top produtos requisitados:", { bold: true, size: 11 });
   for (const [i, p] of args.data.requests.topProducts.slice(0, 8).entries()) {
     drawText(`${i + 1}. ${p.name} (${p.sku}) — ${p.quantity}`, { size: 10 });
@@ -172,7 +184,7 @@ export async function buildMunicipalReportPdfBytes(args: {
   // Movements
   title("4) Movimentos / Auditoria");
   tableRow("Total de movimentos (recentes)", safe(args.data.movements.totalMovements));
-  y -= 6;
+  gap(6);
   drawText("Por tipo:", { bold: true, size: 11 });
   for (const row of args.data.movements.byType.slice(0, 10)) {
     drawText(`- ${row.type}: ${row.count} movimentos; ${row.quantity} un.`, { size: 10 });
@@ -183,13 +195,13 @@ export async function buildMunicipalReportPdfBytes(args: {
   // Units
   title("5) Unidades / Ativos (QR)");
   tableRow("Total de unidades", safe(args.data.units.totalUnits));
-  y -= 6;
+  gap(6);
   drawText("Por estado:", { bold: true, size: 11 });
   for (const row of args.data.units.byStatus) {
     drawText(`- ${row.status}: ${row.count}`, { size: 10 });
   }
 
-  y -= 6;
+  gap(6);
   drawText("Top produtos por nº de unidades:", { bold: true, size: 11 });
   for (const [i, p] of args.data.units.topProducts.slice(0, 8).entries()) {
     drawText(`${i + 1}. ${p.name} (${p.sku}) — ${p.units}`, { size: 10 });
@@ -197,3 +209,71 @@ export async function buildMunicipalReportPdfBytes(args: {
 
   return await doc.save();
 }
+
+export async function buildInventoryValuationPdfBytes(args: {
+  tenantName?: string | null;
+  data: InventoryValuationData;
+}): Promise<Uint8Array> {
+  const { doc, drawText, divider, title, tableRow, gap } = await createReportPdf();
+  const { meta, totals } = args.data;
+
+  drawText("VALORIZAÇÃO DE INVENTÁRIO • STOCKLY", { size: 16, bold: true });
+  drawText(`Entidade: ${safe(args.tenantName ?? "-")}`, { size: 11, bold: true });
+  drawText(`Período: ${formatDatePt(meta.from)} → ${formatDatePt(meta.to)}`, {
+    size: 10,
+    color: rgb(0.25, 0.25, 0.25),
+  });
+  drawText(`Método: ${meta.method === "FIFO" ? "FIFO" : "Custo médio ponderado"} • Gerado em: ${formatDatePt(meta.generatedAt)}`, {
+    size: 10,
+    color: rgb(0.25, 0.25, 0.25),
+  });
+
+  divider();
+
+  title("1) Resumo");
+  tableRow("Produtos", safe(totals.products));
+  tableRow("Quantidade em stock", safe(totals.quantity));
+  if (totals.openingValue !== null) tableRow("Valor inicial do período", eur(totals.openingValue));
+  tableRow("Entradas valorizadas (faturas)", eur(totals.receivedValue));
+  tableRow("Saídas valorizadas", eur(totals.issuedValue));
+  tableRow("Valor final do inventário", eur(totals.value));
+  tableRow("Valor ao preço de tabela", eur(totals.listValue));
+  tableRow("Diferença custo vs. tabela", eur(totals.variance));
+  if (totals.unreconciledProducts > 0) {
+    tableRow("Produtos com stock sem histórico", safe(totals.unreconciledProducts));
+  }
+
+  divider();
+
+  title("2) Por categoria");
+  for (const row of args.data.categories) {
+    tableRow(`${row.category} (${row.products} prod.; ${row.quantity} un.)`, eur(row.value));
+  }
+
+  divider();
+
+  title("3) Consumo por serviço");
+  if (!args.data.services.length) drawText("Sem saídas no período.", { size: 10 });
+  for (const row of args.data.services.slice(0, 20)) {
+    tableRow(`${row.code ? `${row.code} • ` : ""}${row.name} (${row.issuedQuantity} un.)`, eur(row.issuedValue));
+  }
+
+  divider();
+
+  title("4) Produtos por valor");
+  for (const [i, p] of args.data.products.slice(0, 40).entries()) {
+    drawText(`${i + 1}. ${p.name} (${p.sku}) — ${p.quantity} × ${eur(p.unitCost)} = ${eur(p.value)}`, { size: 10 });
+    if (p.variance !== 0) {
+      drawText(`    Preço de tabela ${eur(p.listPrice)}; diferença ${eur(p.variance)}`, {
+        size: 9,
+        color: rgb(0.35, 0.35, 0.35),
+      });
+    }
+  }
+  if (args.data.products.length > 40) {
+    gap(4);
+    drawText(`+ ${args.data.products.length - 40} produto(s) na exportação JSON.`, { size: 9 });
+  }
+
+  return await doc.save();
+}
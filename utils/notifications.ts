@@ -1,6 +1,7 @@
 import { NotificationKind, UserRole } from "@prisma/client";
 import { prisma } from "@/prisma/client";
 import { publishRealtimeEvent } from "@/utils/realtime";
+import { recordRequestStatusAudit } from "@/utils/auditLog";
 
 type BaseNotificationInput = {
   tenantId: string;
@@ -16,8 +17,28 @@ type NotificationTargets = {
   recipientUserId?: string | null;
 };
 
-async function createAndEmit(input: BaseNotificationInput & NotificationTargets) {
-  const created = await prisma.notification.create({
+type CreatedNotification = {
+  id: string;
+  tenantId: string;
+  kind: NotificationKind;
+  title: string;
+  message: string;
+  requestId: string | null;
+  data: unknown;
+  recipientRole: UserRole | null;
+  recipientUserId: string | null;
+  createdAt: Date;
+  readAt: Date | null;
+};
+
+/** Notifications written inside a transaction; publish them with publishNotifications once it commits. */
+export type NotificationOutbox = CreatedNotification[];
+
+async function createNotification(
+  input: BaseNotificationInput & NotificationTargets,
+  client: any = prisma
+): Promise<CreatedNotification> {
+  return client.notification.create({
     data: {
       tenantId: input.tenantId,
       kind: input.kind,
@@ -29,12 +50,14 @@ async function createAndEmit(input: BaseNotificationInput & NotificationTargets)
       recipientUserId: input.recipientUserId ?? null,
     },
   });
+}
 
-  publishRealtimeEvent({
+async function emitNotification(created: CreatedNotification) {
+  await publishRealtimeEvent({
     type: "notification.created",
-    tenantId: input.tenantId,
-    audience: input.recipientRole === "ADMIN" ? "ADMIN" : input.recipientUserId ? "USER" : "ALL",
-    userId: input.recipientUserId ?? null,
+    tenantId: created.tenantId,
+    audience: created.recipientRole === "ADMIN" ? "ADMIN" : created.recipientUserId ? "USER" : "ALL",
+    userId: created.recipientUserId ?? null,
     payload: {
       id: created.id,
       kind: created.kind,
@@ -46,7 +69,11 @@ async function createAndEmit(input: BaseNotificationInput & NotificationTargets)
       data: created.data,
     },
   });
+}
 
+async function createAndEmit(input: BaseNotificationInput & NotificationTargets) {
+  const created = await createNotification(input);
+  await emitNotification(created);
   return created;
 }
 
@@ -54,6 +81,23 @@ export async function notifyAdmin(input: BaseNotificationInput) {
   return createAndEmit({ ...input, recipientRole: "ADMIN" });
 }
 
+// Same as notifyAdmin but writes the row inside the caller's transaction, so the alert only
+// persists if the stock change that raised it commits. The realtime event waits in `outbox`
+// until the caller has committed and calls publishNotifications.
+export async function notifyAdminTx(tx: any, outbox: NotificationOutbox, input: BaseNotificationInput) {
+  const created = await createNotification({ ...input, recipientRole: "ADMIN" }, tx);
+  outbox.push(created);
+  return created;
+}
+
+// Runs after the commit, so a failed push must not fail the request: the rows are saved and the
+// bell still lists them, and publishRealtimeEvent has already logged the failure.
+export async function publishNotifications(outbox: NotificationOutbox) {
+  for (const created of outbox.splice(0)) {
+    await emitNotification(created).catch(() => undefined);
+  }
+}
+
 export async function notifyUser(input: BaseNotificationInput & { recipientUserId: string }) {
   return createAndEmit({ ...input, recipientUserId: input.recipientUserId });
 }
@@ -67,15 +111,13 @@ export async function createRequestStatusAudit(args: {
   note?: string | null;
   source?: string | null;
 }) {
-  return prisma.requestStatusAudit.create({
-    data: {
-      tenantId: args.tenantId,
-      requestId: args.requestId,
-      fromStatus: args.fromStatus,
-      toStatus: args.toStatus,
-      changedByUserId: args.changedByUserId ?? null,
-      note: args.note ?? null,
-      source: args.source ?? null,
-    },
+  return recordRequestStatusAudit(prisma, {
+    tenantId: args.tenantId,
+    requestId: args.requestId,
+    fromStatus: args.fromStatus,
+    toStatus: args.toStatus,
+    changedByUserId: args.changedByUserId ?? null,
+    note: args.note ?? null,
+    source: args.source ?? null,
   });
 }
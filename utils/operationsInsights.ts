@@ -1,5 +1,6 @@
 import { prisma } from "@/prisma/client";
 import type { RequestStatus } from "@prisma/client";
+import { getDemandForecast, type ForecastMethod } from "@/utils/demandForecast";
 
 export type OperationsInsights = {
   meta: {
@@ -81,6 +82,24 @@ export type OperationsInsights = {
     totalUnits: number;
     byStatus: Array<{ status: string; count: number }>;
   };
+
+  // Movement-history forecast (see utils/demandForecast.ts); independent of the `days` window.
+  forecast: {
+    method: ForecastMethod;
+    confidence: number;
+    horizonMonths: number;
+    nextMonthDemand: number;
+    horizonDemand: number;
+    atRisk: Array<{
+      productId: string;
+      name: string;
+      sku: string;
+      quantity: number;
+      forecastNextMonth: number;
+      monthsOfCover: number | null;
+      stockoutRisk: "high" | "medium";
+    }>;
+  };
 };
 
 function toNumberBigint(value: unknown): number {
@@ -115,7 +134,7 @@ export async function getOperationsInsights(args: {
   ] = await Promise.all([
     prisma.product.count({ where: { tenantId } }),
     prisma.product.count({ where: { tenantId, quantity: { equals: BigInt(0) } } }),
-    prisma.product.count({ where: { tenantId, quantity: { gt: BigInt(0), lte: BigInt(20) } } }),
+    prisma.product.count({ where: { tenantId, status: "Stock Low" } }),
     prisma.product.aggregate({ where: { tenantId }, _sum: { quantity: true } }),
     prisma.productUnit.count({ where: { tenantId } }),
     prisma.productUnit.groupBy({
@@ -426,6 +445,21 @@ export async function getOperationsInsights(args: {
       daysSinceMove: r.daysSinceMove,
     }));
 
+  const demandForecast = await getDemandForecast({ tenantId, topLimit: 200 });
+  const forecastAtRisk = demandForecast.products
+    .filter((p) => p.stockoutRisk !== "low" && p.forecastTotal > 0)
+    .sort((a, b) => (a.monthsOfCover ?? Infinity) - (b.monthsOfCover ?? Infinity))
+    .slice(0, topLimit)
+    .map((p) => ({
+      productId: p.productId,
+      name: p.name,
+      sku: p.sku,
+      quantity: p.quantity,
+      forecastNextMonth: p.forecast[0] ?? 0,
+      monthsOfCover: p.monthsOfCover,
+      stockoutRisk: p.stockoutRisk as "high" | "medium",
+    }));
+
   return {
     meta: {
       generatedAt: now.toISOString(),
@@ -485,5 +519,13 @@ export async function getOperationsInsights(args: {
       totalUnits: unitsTotal,
       byStatus: unitsByStatus.map((r) => ({ status: String(r.status), count: r._count.status })),
     },
+    forecast: {
+      method: demandForecast.total.method,
+      confidence: demandForecast.total.confidence,
+      horizonMonths: demandForecast.meta.horizonMonths,
+      nextMonthDemand: demandForecast.total.forecast[0] ?? 0,
+      horizonDemand: Math.round(demandForecast.total.forecast.reduce((a, b) => a + b, 0)),
+      atRisk: forecastAtRisk,
+    },
   };
 }
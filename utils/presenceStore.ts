@@ -1,3 +1,6 @@
+import { prisma } from "@/prisma/client";
+import { publishRealtimeEvent } from "@/utils/realtime";
+
 type PresenceStatus = "ONLINE" | "AWAY" | "BUSY" | "MEETING" | "OFFLINE";
 type PresenceManualStatus = "ONLINE" | "BUSY" | "MEETING" | null;
 
@@ -9,46 +12,58 @@ type PresenceRecord = {
 
 const OFFLINE_AFTER_MS = 3 * 60 * 1000;
 const AWAY_AFTER_MS = 60 * 1000;
+// Record pages ping every 20s; a viewer is gone once a few pings are missed.
+const VIEW_STALE_AFTER_MS = 60 * 1000;
+const VIEW_PRUNE_INTERVAL_MS = 5 * 60 * 1000;
+
+export const PRESENCE_RESOURCE_PATTERN = /^(request|ticket):[0-9a-f-]{36}$/i;
 
-const globalKey = "__stockly_presence_store_v1__";
-const store: Map<string, PresenceRecord> = (globalThis as any)[globalKey] ?? new Map<string, PresenceRecord>();
-(globalThis as any)[globalKey] = store;
+const globalKey = "__stockly_presence_store_v2__";
+const state: { lastViewPruneAt: number } = (globalThis as any)[globalKey] ?? { lastViewPruneAt: 0 };
+(globalThis as any)[globalKey] = state;
 
-function keyOf(tenantId: string, userId: string) {
-  return `${tenantId}:${userId}`;
+function toRecord(row: { lastSeenAt: Date; lastActiveAt: Date; manualStatus: PresenceManualStatus }): PresenceRecord {
+  return {
+    lastSeenAt: row.lastSeenAt.getTime(),
+    lastActiveAt: row.lastActiveAt.getTime(),
+    manualStatus: row.manualStatus,
+  };
 }
 
-export function touchPresence(params: { tenantId: string; userId: string; active?: boolean; now?: number }) {
+export async function touchPresence(params: { tenantId: string; userId: string; active?: boolean; now?: number }) {
   const { tenantId, userId, active = false, now = Date.now() } = params;
-  const key = keyOf(tenantId, userId);
-  const prev = store.get(key);
-  const next: PresenceRecord = {
-    lastSeenAt: now,
-    lastActiveAt: active ? now : prev?.lastActiveAt ?? now,
-    manualStatus: prev?.manualStatus ?? null,
-  };
-  store.set(key, next);
-  return next;
+  const at = new Date(now);
+  const row = await prisma.userPresence.upsert({
+    where: { userId },
+    create: { tenantId, userId, lastSeenAt: at, lastActiveAt: at },
+    update: { lastSeenAt: at, ...(active ? { lastActiveAt: at } : {}) },
+  });
+  return toRecord(row);
 }
 
-export function setManualPresence(params: {
+export async function setManualPresence(params: {
   tenantId: string;
   userId: string;
   manualStatus: PresenceManualStatus;
   now?: number;
 }) {
   const { tenantId, userId, manualStatus, now = Date.now() } = params;
-  const key = keyOf(tenantId, userId);
-  const prev = store.get(key);
-  store.set(key, {
-    lastSeenAt: prev?.lastSeenAt ?? now,
-    lastActiveAt: prev?.lastActiveAt ?? now,
-    manualStatus,
+  const at = new Date(now);
+  await prisma.userPresence.upsert({
+    where: { userId },
+    create: { tenantId, userId, lastSeenAt: at, lastActiveAt: at, manualStatus },
+    update: { manualStatus },
   });
 }
 
-export function getPresenceRecord(tenantId: string, userId: string) {
-  return store.get(keyOf(tenantId, userId)) ?? null;
+export async function getPresenceRecord(tenantId: string, userId: string) {
+  const row = await prisma.userPresence.findFirst({ where: { tenantId, userId } });
+  return row ? toRecord(row) : null;
+}
+
+export async function listPresenceRecords(tenantId: string) {
+  const rows = await prisma.userPresence.findMany({ where: { tenantId } });
+  return new Map(rows.map((row) => [row.userId, toRecord(row)]));
 }
 
 export function derivePresenceStatus(rec: PresenceRecord | null, now = Date.now()): PresenceStatus {
@@ -61,3 +76,50 @@ export function derivePresenceStatus(rec: PresenceRecord | null, now = Date.now(
   return "ONLINE";
 }
 
+async function publishViewersChanged(tenantId: string, resource: string) {
+  await publishRealtimeEvent({
+    type: "presence.viewers_changed",
+    tenantId,
+    audience: "ALL",
+    userId: null,
+    topics: [resource],
+    payload: { resource },
+  });
+}
+
+export async function listResourceViewers(tenantId: string, resource: string, now = Date.now()) {
+  const rows = await prisma.presenceView.findMany({
+    where: { tenantId, resource, lastSeenAt: { gt: new Date(now - VIEW_STALE_AFTER_MS) } },
+    orderBy: { startedAt: "asc" },
+    select: { startedAt: true, user: { select: { id: true, name: true } } },
+  });
+  return rows.map((row) => ({ id: row.user.id, name: row.user.name, since: row.startedAt.toISOString() }));
+}
+
+/** Marks the user as viewing `resource`; other viewers are told when someone arrives. */
+export async function touchResourceView(params: { tenantId: string; userId: string; resource: string; now?: number }) {
+  const { tenantId, userId, resource, now = Date.now() } = params;
+  const at = new Date(now);
+  const previous = await prisma.presenceView.findUnique({
+    where: { userId_resource: { userId, resource } },
+    select: { lastSeenAt: true },
+  });
+  const arrived = !previous || now - previous.lastSeenAt.getTime() > VIEW_STALE_AFTER_MS;
+  await prisma.presenceView.upsert({
+    where: { userId_resource: { userId, resource } },
+    create: { tenantId, userId, resource, startedAt: at, lastSeenAt: at },
+    update: { lastSeenAt: at, ...(arrived ? { startedAt: at } : {}) },
+  });
+  if (arrived) await publishViewersChanged(tenantId, resource);
+
+  if (now - state.lastViewPruneAt >= VIEW_PRUNE_INTERVAL_MS) {
+    state.lastViewPruneAt = now;
+    await prisma.presenceView.deleteMany({ where: { lastSeenAt: { lt: new Date(now - VIEW_PRUNE_INTERVAL_MS) } } });
+  }
+}
+
+export async function leaveResourceView(params: { tenantId: string; userId: string; resource: string }) {
+  const { tenantId, userId, resource } = params;
+  const removed = await prisma.presenceView.deleteMany({ where: { tenantId, userId, resource } });
+  if (removed.count) await publishViewersChanged(tenantId, resource);
+}
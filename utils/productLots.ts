@@ -0,0 +1,297 @@
+import { prisma } from "@/prisma/client";
+import { notifyAdmin } from "@/utils/notifications";
+import { getWarehouseStockQuantity } from "@/utils/warehouseStock";
+
+// Lots expiring within this many days are reported as "expiring soon" and alerted once.
+export const DEFAULT_EXPIRY_WARNING_DAYS = 30;
+
+export type LotAllocation = {
+  lotId: string | null;
+  lotNumber: string | null;
+  expiresAt: Date | null;
+  quantity: number;
+};
+
+function startOfToday() {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+export function serializeLot(lot: any) {
+  const today = startOfToday();
+  const expiresAt: Date | null = lot.expiresAt ?? null;
+  return {
+    id: lot.id,
+    lotNumber: lot.lotNumber,
+    expiresAt: expiresAt ? expiresAt.toISOString() : null,
+    manufacturedAt: lot.manufacturedAt ? lot.manufacturedAt.toISOString() : null,
+    receivedQuantity: lot.receivedQuantity,
+    quantity: lot.quantity,
+    expired: Boolean(expiresAt && expiresAt < today),
+    daysToExpiry: expiresAt ? Math.floor((expiresAt.getTime() - today.getTime()) / 86_400_000) : null,
+    product: lot.product ?? undefined,
+    warehouse: lot.warehouse ?? undefined,
+    createdAt: lot.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Adds received quantity to a lot in a warehouse, creating it on first receipt. A lot number
+ * received again must carry the same expiry date.
+ */
+export async function receiveLotTx(
+  tx: any,
+  args: {
+    tenantId: string;
+    productId: string;
+    warehouseId: string;
+    lotNumber: string;
+    expiresAt?: Date | null;
+    manufacturedAt?: Date | null;
+    quantity: number;
+    invoiceId?: string | null;
+  }
+) {
+  const txAny = tx as any;
+  const existing = await txAny.productLot.findUnique({
+    where: {
+      productId_warehouseId_lotNumber: {
+        productId: args.productId,
+        warehouseId: args.warehouseId,
+        lotNumber: args.lotNumber,
+      },
+    },
+    select: { id: true, expiresAt: true },
+  });
+
+  if (existing) {
+    const sameExpiry = (existing.expiresAt?.getTime() ?? null) === (args.expiresAt?.getTime() ?? null);
+    if (args.expiresAt !== undefined && !sameExpiry) {
+      throw Object.assign(new Error(`O lote ${args.lotNumber} já existe com outra data de validade`), {
+        code: "LOT_EXPIRY_MISMATCH",
+      });
+    }
+    return txAny.productLot.update({
+      where: { id: existing.id },
+      data: {
+        quantity: { increment: args.quantity },
+        receivedQuantity: { increment: args.quantity },
+      },
+    });
+  }
+
+  return txAny.productLot.create({
+    data: {
+      tenantId: args.tenantId,
+      productId: args.productId,
+      warehouseId: args.warehouseId,
+      lotNumber: args.lotNumber,
+      expiresAt: args.expiresAt ?? null,
+      manufacturedAt: args.manufacturedAt ?? null,
+      quantity: args.quantity,
+      receivedQuantity: args.quantity,
+      invoiceId: args.invoiceId ?? null,
+    },
+  });
+}
+
+/**
+ * Picks `quantity` of a product from a warehouse first-expiry-first-out and decrements the lots.
+ * Expired lots are never picked (unless `includeExpired`, for moving stock between warehouses);
+ * lots without an expiry go after dated ones, and stock that was received without a lot
+ * (warehouse balance minus all lot balances) is used last, returned as an allocation with lotId
+ * null. The warehouse balance itself is left to the caller.
+ */
+export async function allocateLotsFefoTx(
+  tx: any,
+  args: { tenantId: string; productId: string; warehouseId: string; quantity: number; includeExpired?: boolean }
+): Promise<LotAllocation[]> {
+  const txAny = tx as any;
+  const today = startOfToday();
+
+  const lots: Array<{ id: string; lotNumber: string; expiresAt: Date | null; quantity: number }> =
+    await txAny.productLot.findMany({
+      where: { tenantId: args.tenantId, productId: args.productId, warehouseId: args.warehouseId, quantity: { gt: 0 } },
+      orderBy: [{ expiresAt: { sort: "asc", nulls: "last" } }, { createdAt: "asc" }],
+      select: { id: true, lotNumber: true, expiresAt: true, quantity: true },
+    });
+  if (!lots.length) {
+    return [{ lotId: null, lotNumber: null, expiresAt: null, quantity: args.quantity }];
+  }
+
+  const balance = await getWarehouseStockQuantity(tx, { productId: args.productId, warehouseId: args.warehouseId });
+  const unlotted = Math.max(0, balance - lots.reduce((sum, lot) => sum + lot.quantity, 0));
+
+  const allocations: LotAllocation[] = [];
+  let remaining = args.quantity;
+  for (const lot of lots) {
+    if (remaining <= 0) break;
+    if (!args.includeExpired && lot.expiresAt && lot.expiresAt < today) continue;
+
+    const take = Math.min(remaining, lot.quantity);
+    const claimed = await txAny.productLot.updateMany({
+      where: { id: lot.id, quantity: { gte: take } },
+      data: { quantity: { decrement: take } },
+    });
+    if (!claimed.count) {
+      throw Object.assign(new Error(`Lote ${lot.lotNumber} alterado em simultâneo`), { code: "LOT_CONFLICT" });
+    }
+    allocations.push({ lotId: lot.id, lotNumber: lot.lotNumber, expiresAt: lot.expiresAt, quantity: take });
+    remaining -= take;
+  }
+
+  if (remaining > 0) {
+    if (remaining > unlotted) {
+      throw Object.assign(
+        new Error(args.includeExpired ? "Stock insuficiente no armazém" : "Stock dentro da validade insuficiente"),
+        { code: "INSUFFICIENT_UNEXPIRED_STOCK" }
+      );
+    }
+    allocations.push({ lotId: null, lotNumber: null, expiresAt: null, quantity: remaining });
+  }
+
+  return allocations;
+}
+
+/**
+ * Puts stock a request gave out of a warehouse back into the lots it came from. Per lot, only what
+ * the request still holds (its OUT movements minus earlier returns) is restored, latest expiry
+ * first so an edit undoes the FEFO pick in reverse. Anything beyond that was unlotted stock and
+ * comes back as an allocation with lotId null. The warehouse balance is left to the caller.
+ */
+export async function returnLotsTx(
+  tx: any,
+  args: { tenantId: string; productId: string; warehouseId: string; requestId: string; quantity: number }
+): Promise<LotAllocation[]> {
+  const txAny = tx as any;
+  const movements: Array<{ lotId: string; type: string; _sum: { quantity: bigint | null } }> =
+    await txAny.stockMovement.groupBy({
+      by: ["lotId", "type"],
+      where: {
+        tenantId: args.tenantId,
+        productId: args.productId,
+        warehouseId: args.warehouseId,
+        requestId: args.requestId,
+        lotId: { not: null },
+        type: { in: ["OUT", "IN", "RETURN"] },
+      },
+      _sum: { quantity: true },
+    });
+
+  const held = new Map<string, number>();
+  for (const row of movements) {
+    const quantity = Number(row._sum.quantity ?? 0);
+    held.set(row.lotId, (held.get(row.lotId) ?? 0) + (row.type === "OUT" ? quantity : -quantity));
+  }
+  const lotIds = Array.from(held.entries())
+    .filter(([, quantity]) => quantity > 0)
+    .map(([lotId]) => lotId);
+
+  const lots: Array<{ id: string; lotNumber: string; expiresAt: Date | null }> = lotIds.length
+    ? await txAny.productLot.findMany({
+        where: { id: { in: lotIds } },
+        orderBy: [{ expiresAt: { sort: "desc", nulls: "first" } }, { createdAt: "desc" }],
+        select: { id: true, lotNumber: true, expiresAt: true },
+      })
+    : [];
+
+  const allocations: LotAllocation[] = [];
+  let remaining = args.quantity;
+  for (const lot of lots) {
+    if (remaining <= 0) break;
+    const give = Math.min(remaining, held.get(lot.id) ?? 0);
+    await txAny.productLot.update({
+      where: { id: lot.id },
+      data: { quantity: { increment: give } },
+      select: { id: true },
+    });
+    allocations.push({ lotId: lot.id, lotNumber: lot.lotNumber, expiresAt: lot.expiresAt, quantity: give });
+    remaining -= give;
+  }
+
+  if (remaining > 0) {
+    allocations.push({ lotId: null, lotNumber: null, expiresAt: null, quantity: remaining });
+  }
+  return allocations;
+}
+
+export async function getExpiringLots(
+  tenantId: string,
+  opts?: { days?: number; warehouseId?: string | null; productId?: string | null; includeExpired?: boolean }
+) {
+  const days = opts?.days ?? DEFAULT_EXPIRY_WARNING_DAYS;
+  const today = startOfToday();
+  const until = new Date(today.getTime() + (days + 1) * 86_400_000);
+
+  const lots = await (prisma as any).productLot.findMany({
+    where: {
+      tenantId,
+      quantity: { gt: 0 },
+      expiresAt: { not: null, lt: until, ...(opts?.includeExpired === false ? { gte: today } : {}) },
+      ...(opts?.warehouseId ? { warehouseId: opts.warehouseId } : {}),
+      ...(opts?.productId ? { productId: opts.productId } : {}),
+    },
+    orderBy: [{ expiresAt: "asc" }, { lotNumber: "asc" }],
+    take: 500,
+    include: {
+      product: { select: { id: true, name: true, sku: true } },
+      warehouse: { select: { id: true, code: true, name: true } },
+    },
+  });
+
+  const items = lots.map(serializeLot);
+  return {
+    days,
+    generatedAt: new Date().toISOString(),
+    expiredCount: items.filter((lot: any) => lot.expired).length,
+    expiringCount: items.filter((lot: any) => !lot.expired).length,
+    expiredQuantity: items.filter((lot: any) => lot.expired).reduce((sum: number, lot: any) => sum + lot.quantity, 0),
+    items,
+  };
+}
+
+/**
+ * Expiry job: alerts admins once per lot that is expired or expires within the warning window
+ * and still has stock. Lots are claimed via expiryAlertedAt so repeated runs stay quiet.
+ */
+export async function runLotExpiryJob(tenantId: string, opts?: { days?: number }) {
+  const report = await getExpiringLots(tenantId, { days: opts?.days });
+  const ids = report.items.map((lot: any) => lot.id as string);
+
+  const unalerted = ids.length
+    ? await (prisma as any).productLot.findMany({
+        where: { id: { in: ids }, expiryAlertedAt: null },
+        select: { id: true },
+      })
+    : [];
+  const alertIds = new Set<string>(unalerted.map((row: any) => row.id));
+  if (alertIds.size) {
+    await (prisma as any).productLot.updateMany({
+      where: { id: { in: Array.from(alertIds) }, expiryAlertedAt: null },
+      data: { expiryAlertedAt: new Date() },
+    });
+
+    const alerted = report.items.filter((lot: any) => alertIds.has(lot.id));
+    const expired = alerted.filter((lot: any) => lot.expired);
+    await notifyAdmin({
+      tenantId,
+      kind: "LOT_EXPIRY",
+      title: expired.length ? "Lotes expirados em stock" : "Lotes a expirar",
+      message: `${alerted.length} lote(s) com validade até ${report.days} dia(s)${
+        expired.length ? `, ${expired.length} já expirado(s)` : ""
+      }.`,
+      data: {
+        days: report.days,
+        lots: alerted.slice(0, 50).map((lot: any) => ({
+          lotId: lot.id,
+          lotNumber: lot.lotNumber,
+          productId: lot.product?.id ?? null,
+          expiresAt: lot.expiresAt,
+          quantity: lot.quantity,
+        })),
+      },
+    });
+  }
+
+  return { ...report, alerted: alertIds.size };
+}
@@ -43,3 +43,22 @@ export async function launchPdfBrowser(): Promise<BrowserLike> {
 
   return puppeteer.launch(launchOptions) as Promise<BrowserLike>;
 }
+
+/** Renders a self-contained HTML document to PDF, closing the page and browser afterwards. */
+export async function renderHtmlToPdf(html: string, pdfOptions: Record<string, unknown>) {
+  const browser = await launchPdfBrowser();
+  try {
+    const page = await browser.newPage();
+    try {
+      await page.setContent(html, { waitUntil: ["domcontentloaded", "networkidle0"] });
+      if (page.emulateMediaType) {
+        await page.emulateMediaType("print");
+      }
+      return Buffer.from(await page.pdf(pdfOptions));
+    } finally {
+      await page.close().catch(() => {});
+    }
+  } finally {
+    await browser.close().catch(() => {});
+  }
+}
@@ -0,0 +1,581 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/prisma/client";
+import { notifyAdmin } from "@/utils/notifications";
+import { buildReplenishmentPlan, getOnOrderQuantities } from "@/utils/replenishment";
+
+// Invoice unit prices may drift this much (relative) from the ordered price before it counts as a discrepancy.
+export const PRICE_TOLERANCE_RATIO = 0.02;
+
+export const RECEIVABLE_PURCHASE_ORDER_STATUSES = ["SENT", "PARTIALLY_RECEIVED"] as const;
+
+export type PurchaseOrderLineDraft = {
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+  requestItemId?: string | null;
+  expectedAt?: Date | null;
+  notes?: string | null;
+};
+
+export type PurchaseOrderDraft = {
+  supplierId: string;
+  source: "MANUAL" | "REQUEST" | "REPLENISHMENT";
+  requestId?: string | null;
+  replenishmentRunId?: string | null;
+  expectedAt?: Date | null;
+  notes?: string | null;
+  lines: PurchaseOrderLineDraft[];
+};
+
+export const purchaseOrderInclude = {
+  supplier: { select: { id: true, name: true, email: true } },
+  request: { select: { id: true, gtmiNumber: true, status: true, title: true } },
+  createdBy: { select: { id: true, name: true, email: true } },
+  lines: {
+    orderBy: { createdAt: "asc" },
+    include: {
+      product: { select: { id: true, name: true, sku: true } },
+      invoices: { select: { id: true, invoiceNumber: true, quantity: true, unitPrice: true, issuedAt: true } },
+    },
+  },
+  receipts: {
+    orderBy: { receivedAt: "desc" },
+    include: {
+      invoice: { select: { id: true, invoiceNumber: true } },
+      warehouse: { select: { id: true, code: true, name: true } },
+      receivedBy: { select: { id: true, name: true, email: true } },
+    },
+  },
+} as const;
+
+function roundMoney(value: number) {
+  return Number(value.toFixed(2));
+}
+
+export function formatPurchaseOrderNumber(poYear: number, poSeq: number) {
+  return `PO-${poYear}-${String(poSeq).padStart(6, "0")}`;
+}
+
+function iso(value: Date | null | undefined) {
+  return value ? value.toISOString() : null;
+}
+
+export function serializePurchaseOrder(row: any) {
+  const lines = (row.lines ?? []).map((line: any) => ({
+    ...line,
+    expectedAt: iso(line.expectedAt),
+    createdAt: iso(line.createdAt),
+    updatedAt: iso(line.updatedAt),
+    outstandingQuantity: Math.max(0, line.quantity - line.receivedQuantity),
+    invoices: (line.invoices ?? []).map((inv: any) => ({
+      ...inv,
+      quantity: Number(inv.quantity),
+      issuedAt: iso(inv.issuedAt),
+    })),
+  }));
+
+  return {
+    ...row,
+    expectedAt: iso(row.expectedAt),
+    sentAt: iso(row.sentAt),
+    closedAt: iso(row.closedAt),
+    cancelledAt: iso(row.cancelledAt),
+    matchCheckedAt: iso(row.matchCheckedAt),
+    createdAt: iso(row.createdAt),
+    updatedAt: iso(row.updatedAt),
+    totalAmount: roundMoney(lines.reduce((acc: number, l: any) => acc + l.quantity * l.unitPrice, 0)),
+    lines,
+    receipts: (row.receipts ?? []).map((receipt: any) => ({
+      ...receipt,
+      receivedAt: iso(receipt.receivedAt),
+      createdAt: iso(receipt.createdAt),
+    })),
+  };
+}
+
+async function createPurchaseOrderTx(
+  tx: Prisma.TransactionClient,
+  args: { tenantId: string; createdByUserId: string | null; poYear: number; draft: PurchaseOrderDraft }
+) {
+  const txAny = tx as any;
+  const { tenantId, draft } = args;
+
+  const maxSeq = await txAny.purchaseOrder.aggregate({
+    where: { tenantId, poYear: args.poYear },
+    _max: { poSeq: true },
+  });
+  const poSeq = (maxSeq._max.poSeq ?? 0) + 1;
+
+  return txAny.purchaseOrder.create({
+    data: {
+      tenantId,
+      poYear: args.poYear,
+      poSeq,
+      number: formatPurchaseOrderNumber(args.poYear, poSeq),
+      status: "DRAFT",
+      source: draft.source,
+      supplierId: draft.supplierId,
+      requestId: draft.requestId ?? null,
+      replenishmentRunId: draft.replenishmentRunId ?? null,
+      expectedAt: draft.expectedAt ?? null,
+      notes: draft.notes ?? null,
+      createdByUserId: args.createdByUserId,
+      lines: {
+        create: draft.lines.map((line) => ({
+          tenantId,
+          productId: line.productId,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice,
+          requestItemId: line.requestItemId ?? null,
+          expectedAt: line.expectedAt ?? null,
+          notes: line.notes ?? null,
+        })),
+      },
+    },
+    include: purchaseOrderInclude,
+  });
+}
+
+/**
+ * Creates one DRAFT purchase order per draft in a single transaction, allocating PO numbers
+ * per tenant and year (retried on a numbering race, like GTMI request numbers).
+ */
+export async function createPurchaseOrders(
+  tenantId: string,
+  drafts: PurchaseOrderDraft[],
+  opts?: { createdByUserId?: string | null }
+) {
+  const supplierIds = Array.from(new Set(drafts.map((d) => d.supplierId)));
+  const productIds = Array.from(new Set(drafts.flatMap((d) => d.lines.map((l) => l.productId))));
+
+  const [suppliers, products] = await Promise.all([
+    prisma.supplier.findMany({ where: { tenantId, id: { in: supplierIds } }, select: { id: true, isActive: true } }),
+    prisma.product.findMany({ where: { tenantId, id: { in: productIds } }, select: { id: true } }),
+  ]);
+  if (suppliers.length !== supplierIds.length) {
+    throw Object.assign(new Error("Fornecedor inválido"), { code: "INVALID_SUPPLIER" });
+  }
+  if (suppliers.some((s) => !s.isActive)) {
+    throw Object.assign(new Error("Fornecedor inativo"), { code: "INACTIVE_SUPPLIER" });
+  }
+  if (products.length !== productIds.length) {
+    throw Object.assign(new Error("Produto inválido"), { code: "INVALID_PRODUCT" });
+  }
+
+  const poYear = new Date().getFullYear();
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    try {
+      const created = await prisma.$transaction(async (tx) => {
+        const rows = [];
+        for (const draft of drafts) {
+          rows.push(
+            await createPurchaseOrderTx(tx, {
+              tenantId,
+              createdByUserId: opts?.createdByUserId ?? null,
+              poYear,
+              draft,
+            })
+          );
+        }
+        return rows;
+      });
+      return created.map(serializePurchaseOrder);
+    } catch (error: any) {
+      // P2002 = Unique constraint violation (race on poSeq or number)
+      if (error?.code === "P2002" && attempt < 4) {
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  throw new Error("Failed to allocate purchase order number");
+}
+
+/**
+ * Drafts for an approved request: one order per product supplier, covering whatever the request
+ * items still need after purchase orders already raised for them (cancelled ones excluded).
+ */
+export async function buildPurchaseOrderDraftsFromRequest(tenantId: string, requestId: string) {
+  const request = await prisma.request.findFirst({
+    where: { id: requestId, tenantId },
+    select: {
+      id: true,
+      status: true,
+      gtmiNumber: true,
+      expectedDeliveryTo: true,
+      items: {
+        select: {
+          id: true,
+          quantity: true,
+          notes: true,
+          product: { select: { id: true, price: true, supplierId: true } },
+        },
+        orderBy: { createdAt: "asc" },
+      },
+    },
+  });
+
+  if (!request) {
+    throw Object.assign(new Error("Requisição não encontrada"), { code: "REQUEST_NOT_FOUND" });
+  }
+  if (request.status !== "APPROVED") {
+    throw Object.assign(new Error("Só é possível gerar encomendas a partir de requisições aprovadas"), {
+      code: "REQUEST_NOT_APPROVED",
+    });
+  }
+
+  const ordered = await (prisma as any).purchaseOrderLine.groupBy({
+    by: ["requestItemId"],
+    where: {
+      tenantId,
+      requestItemId: { in: request.items.map((i) => i.id) },
+      purchaseOrder: { status: { not: "CANCELLED" } },
+    },
+    _sum: { quantity: true },
+  });
+  const orderedByItem = new Map<string, number>(
+    ordered.map((row: any) => [row.requestItemId as string, Number(row._sum.quantity ?? 0)])
+  );
+
+  const bySupplier = new Map<string, PurchaseOrderDraft>();
+  for (const item of request.items) {
+    const remaining = Number(item.quantity) - (orderedByItem.get(item.id) ?? 0);
+    if (remaining <= 0) continue;
+
+    const draft = bySupplier.get(item.product.supplierId) ?? {
+      supplierId: item.product.supplierId,
+      source: "REQUEST" as const,
+      requestId: request.id,
+      expectedAt: request.expectedDeliveryTo ?? null,
+      notes: `Gerada a partir da requisição ${request.gtmiNumber}`,
+      lines: [],
+    };
+    draft.lines.push({
+      productId: item.product.id,
+      quantity: remaining,
+      unitPrice: Number(item.product.price || 0),
+      requestItemId: item.id,
+      notes: item.notes ?? null,
+    });
+    bySupplier.set(item.product.supplierId, draft);
+  }
+
+  return Array.from(bySupplier.values());
+}
+
+/**
+ * Drafts from reorder suggestions: either a stored replenishment run or the live plan. Quantities
+ * already on order are subtracted again so re-using an older run does not double-order.
+ */
+export async function buildPurchaseOrderDraftsFromReplenishment(
+  tenantId: string,
+  opts: { replenishmentRunId?: string | null; supplierIds?: string[] | null }
+) {
+  let groups: Array<{ supplierId: string; lines: Array<{ productId: string; suggestedQuantity: number; unitPrice: number }> }>;
+
+  if (opts.replenishmentRunId) {
+    const run = await prisma.replenishmentRun.findFirst({
+      where: { id: opts.replenishmentRunId, tenantId },
+      select: { suppliers: true },
+    });
+    if (!run) {
+      throw Object.assign(new Error("Execução de reposição não encontrada"), { code: "REPLENISHMENT_RUN_NOT_FOUND" });
+    }
+    groups = Array.isArray(run.suppliers) ? (run.suppliers as any[]) : [];
+
+    const onOrder = await getOnOrderQuantities(
+      prisma,
+      tenantId,
+      groups.flatMap((g) => g.lines.map((l) => l.productId))
+    );
+    groups = groups.map((g) => ({
+      ...g,
+      lines: g.lines.map((l) => ({
+        ...l,
+        suggestedQuantity: Math.max(0, l.suggestedQuantity - (onOrder.get(l.productId) ?? 0)),
+      })),
+    }));
+  } else {
+    const plan = await buildReplenishmentPlan(tenantId);
+    groups = plan.suppliers;
+  }
+
+  const wanted = opts.supplierIds?.length ? new Set(opts.supplierIds) : null;
+
+  return groups
+    .filter((g) => !wanted || wanted.has(g.supplierId))
+    .map((g) => ({
+      supplierId: g.supplierId,
+      source: "REPLENISHMENT" as const,
+      replenishmentRunId: opts.replenishmentRunId ?? null,
+      notes: "Gerada a partir das sugestões de reposição",
+      lines: g.lines
+        .filter((l) => l.suggestedQuantity > 0)
+        .map((l) => ({ productId: l.productId, quantity: l.suggestedQuantity, unitPrice: Number(l.unitPrice || 0) })),
+    }))
+    .filter((d) => d.lines.length > 0);
+}
+
+/**
+ * Loads a purchase order line for intake and checks it can take `quantity` more units.
+ * Over-receipts are rejected: the supplier has to issue a new order for the excess.
+ */
+export async function resolvePurchaseOrderLineForReceiptTx(
+  tx: Prisma.TransactionClient,
+  args: { tenantId: string; lineId: string; quantity: number }
+) {
+  const line = await (tx as any).purchaseOrderLine.findFirst({
+    where: { id: args.lineId, tenantId: args.tenantId },
+    select: {
+      id: true,
+      productId: true,
+      quantity: true,
+      receivedQuantity: true,
+      purchaseOrder: { select: { id: true, number: true, status: true, requestId: true } },
+    },
+  });
+
+  if (!line) {
+    throw Object.assign(new Error("Linha de encomenda não encontrada"), { code: "PURCHASE_ORDER_LINE_NOT_FOUND" });
+  }
+  if (!(RECEIVABLE_PURCHASE_ORDER_STATUSES as readonly string[]).includes(line.purchaseOrder.status)) {
+    throw Object.assign(new Error(`Encomenda ${line.purchaseOrder.number} não está aberta para receção`), {
+      code: "PURCHASE_ORDER_NOT_RECEIVABLE",
+    });
+  }
+
+  const outstanding = line.quantity - line.receivedQuantity;
+  if (args.quantity > outstanding) {
+    throw Object.assign(new Error(`Quantidade excede o pendente da encomenda (${outstanding})`), {
+      code: "PURCHASE_ORDER_OVER_RECEIPT",
+    });
+  }
+
+  return line as {
+    id: string;
+    productId: string;
+    quantity: number;
+    receivedQuantity: number;
+    purchaseOrder: { id: string; number: string; status: string; requestId: string | null };
+  };
+}
+
+export async function refreshPurchaseOrderStatusTx(tx: Prisma.TransactionClient, purchaseOrderId: string) {
+  const txAny = tx as any;
+  const lines = await txAny.purchaseOrderLine.findMany({
+    where: { purchaseOrderId },
+    select: { quantity: true, receivedQuantity: true },
+  });
+
+  const anyReceived = lines.some((l: any) => l.receivedQuantity > 0);
+  const allReceived = lines.length > 0 && lines.every((l: any) => l.receivedQuantity >= l.quantity);
+  const status = allReceived ? "RECEIVED" : anyReceived ? "PARTIALLY_RECEIVED" : "SENT";
+
+  await txAny.purchaseOrder.updateMany({
+    where: { id: purchaseOrderId, status: { in: [...RECEIVABLE_PURCHASE_ORDER_STATUSES] } },
+    data: { status },
+  });
+  return status;
+}
+
+/** Records an intake against a purchase order line: receipt row, received quantity, invoice link and PO status. */
+export async function recordPurchaseOrderReceiptTx(
+  tx: Prisma.TransactionClient,
+  args: {
+    tenantId: string;
+    line: { id: string; purchaseOrder: { id: string } };
+    quantity: number;
+    invoiceId: string;
+    warehouseId: string;
+    receivedByUserId: string;
+  }
+) {
+  const txAny = tx as any;
+
+  // The outstanding check in resolvePurchaseOrderLineForReceiptTx ran without a lock, so the
+  // increment re-checks it atomically: a concurrent intake may have taken the remaining units.
+  const incremented = await tx.$executeRaw`
+    UPDATE "PurchaseOrderLine"
+    SET "receivedQuantity" = "receivedQuantity" + ${args.quantity}, "updatedAt" = now()
+    WHERE id = ${args.line.id}::uuid AND "receivedQuantity" + ${args.quantity} <= quantity`;
+  if (!incremented) {
+    const line = await txAny.purchaseOrderLine.findUnique({
+      where: { id: args.line.id },
+      select: { quantity: true, receivedQuantity: true },
+    });
+    const outstanding = line ? Math.max(0, line.quantity - line.receivedQuantity) : 0;
+    throw Object.assign(new Error(`Quantidade excede o pendente da encomenda (${outstanding})`), {
+      code: "PURCHASE_ORDER_OVER_RECEIPT",
+    });
+  }
+
+  const receipt = await txAny.purchaseOrderReceipt.create({
+    data: {
+      tenantId: args.tenantId,
+      purchaseOrderId: args.line.purchaseOrder.id,
+      lineId: args.line.id,
+      invoiceId: args.invoiceId,
+      warehouseId: args.warehouseId,
+      receivedByUserId: args.receivedByUserId,
+      quantity: args.quantity,
+    },
+    select: { id: true },
+  });
+
+  await txAny.productInvoice.update({
+    where: { id: args.invoiceId },
+    data: { purchaseOrderLineId: args.line.id },
+    select: { id: true },
+  });
+
+  const status = await refreshPurchaseOrderStatusTx(tx, args.line.purchaseOrder.id);
+  return { receiptId: receipt.id, purchaseOrderStatus: status };
+}
+
+export type PurchaseOrderLineMatch = {
+  lineId: string;
+  productId: string;
+  sku: string;
+  orderedQuantity: number;
+  orderedUnitPrice: number;
+  receivedQuantity: number;
+  invoicedQuantity: number;
+  invoicedAmount: number;
+  invoicedUnitPrice: number | null;
+  issues: Array<"NOT_RECEIVED" | "NOT_INVOICED" | "OVER_RECEIVED" | "INVOICE_QUANTITY_MISMATCH" | "PRICE_MISMATCH">;
+};
+
+// Issues that only mean "still in progress"; everything else is a real discrepancy.
+const PENDING_ISSUES = new Set(["NOT_RECEIVED", "NOT_INVOICED"]);
+
+// On a closed order the outstanding quantity was given up, so a short receipt is not pending anymore.
+function matchLine(line: any, closed: boolean): PurchaseOrderLineMatch {
+  const receivedQuantity = (line.receipts ?? []).reduce((acc: number, r: any) => acc + r.quantity, 0);
+  const invoicedQuantity = (line.invoices ?? []).reduce((acc: number, inv: any) => acc + Number(inv.quantity), 0);
+  const invoicedAmount = roundMoney(
+    (line.invoices ?? []).reduce((acc: number, inv: any) => acc + Number(inv.quantity) * Number(inv.unitPrice || 0), 0)
+  );
+  const invoicedUnitPrice = invoicedQuantity > 0 ? roundMoney(invoicedAmount / invoicedQuantity) : null;
+
+  const issues: PurchaseOrderLineMatch["issues"] = [];
+  if (receivedQuantity < line.quantity && !closed) issues.push("NOT_RECEIVED");
+  if (receivedQuantity > line.quantity) issues.push("OVER_RECEIVED");
+  if (invoicedQuantity === 0 && receivedQuantity > 0) issues.push("NOT_INVOICED");
+  if (invoicedQuantity > 0 && invoicedQuantity !== receivedQuantity) issues.push("INVOICE_QUANTITY_MISMATCH");
+  if (
+    invoicedUnitPrice !== null &&
+    Math.abs(invoicedUnitPrice - line.unitPrice) > Math.max(0.01, line.unitPrice * PRICE_TOLERANCE_RATIO)
+  ) {
+    issues.push("PRICE_MISMATCH");
+  }
+
+  return {
+    lineId: line.id,
+    productId: line.productId,
+    sku: line.product?.sku ?? "",
+    orderedQuantity: line.quantity,
+    orderedUnitPrice: line.unitPrice,
+    receivedQuantity,
+    invoicedQuantity,
+    invoicedAmount,
+    invoicedUnitPrice,
+    issues,
+  };
+}
+
+/**
+ * Three-way match: compares each line's order (quantity, price) with what intake received and
+ * what the linked invoices bill. Optional `links` attach invoices recorded outside the PO flow.
+ * Stores the result on the order and alerts admins the first time a discrepancy shows up.
+ */
+export async function reconcilePurchaseOrder(
+  tenantId: string,
+  purchaseOrderId: string,
+  opts?: { links?: Array<{ invoiceId: string; lineId: string }> }
+) {
+  const result = await prisma.$transaction(async (tx) => {
+    const txAny = tx as any;
+
+    const order = await txAny.purchaseOrder.findFirst({
+      where: { id: purchaseOrderId, tenantId },
+      select: { id: true, number: true, status: true, matchStatus: true },
+    });
+    if (!order) {
+      throw Object.assign(new Error("Encomenda não encontrada"), { code: "PURCHASE_ORDER_NOT_FOUND" });
+    }
+    if (order.status === "DRAFT" || order.status === "CANCELLED") {
+      throw Object.assign(new Error("Encomenda não pode ser conciliada neste estado"), {
+        code: "PURCHASE_ORDER_NOT_RECONCILABLE",
+      });
+    }
+
+    for (const link of opts?.links ?? []) {
+      const line = await txAny.purchaseOrderLine.findFirst({
+        where: { id: link.lineId, purchaseOrderId, tenantId },
+        select: { id: true, productId: true },
+      });
+      if (!line) {
+        throw Object.assign(new Error("Linha de encomenda não encontrada"), { code: "PURCHASE_ORDER_LINE_NOT_FOUND" });
+      }
+      const invoice = await tx.productInvoice.findFirst({
+        where: { id: link.invoiceId, tenantId },
+        select: { id: true, productId: true, purchaseOrderLineId: true },
+      });
+      if (!invoice) {
+        throw Object.assign(new Error("Fatura não encontrada"), { code: "INVOICE_NOT_FOUND" });
+      }
+      if (invoice.productId !== line.productId) {
+        throw Object.assign(new Error("A fatura é de outro produto"), { code: "INVOICE_PRODUCT_MISMATCH" });
+      }
+      if (invoice.purchaseOrderLineId && invoice.purchaseOrderLineId !== line.id) {
+        throw Object.assign(new Error("A fatura já está associada a outra encomenda"), { code: "INVOICE_ALREADY_LINKED" });
+      }
+      await tx.productInvoice.update({ where: { id: invoice.id }, data: { purchaseOrderLineId: line.id } });
+    }
+
+    const lines = await txAny.purchaseOrderLine.findMany({
+      where: { purchaseOrderId },
+      orderBy: { createdAt: "asc" },
+      include: {
+        product: { select: { sku: true } },
+        receipts: { select: { quantity: true } },
+        invoices: { select: { quantity: true, unitPrice: true } },
+      },
+    });
+
+    const matches: PurchaseOrderLineMatch[] = lines.map((line: any) => matchLine(line, order.status === "CLOSED"));
+    const hasDiscrepancy = matches.some((m) => m.issues.some((i) => !PENDING_ISSUES.has(i)));
+    const complete = matches.every((m) => m.issues.length === 0);
+    const matchStatus = hasDiscrepancy ? "DISCREPANCY" : complete ? "MATCHED" : "PENDING";
+    const checkedAt = new Date();
+
+    await txAny.purchaseOrder.update({
+      where: { id: purchaseOrderId },
+      data: { matchStatus, matchCheckedAt: checkedAt, matchSummary: matches },
+    });
+
+    return {
+      purchaseOrderId,
+      number: order.number as string,
+      previousMatchStatus: order.matchStatus as string,
+      matchStatus,
+      checkedAt: checkedAt.toISOString(),
+      lines: matches,
+    };
+  });
+
+  if (result.matchStatus === "DISCREPANCY" && result.previousMatchStatus !== "DISCREPANCY") {
+    await notifyAdmin({
+      tenantId,
+      kind: "PURCHASE_ORDER_DISCREPANCY",
+      title: `Divergência na encomenda ${result.number}`,
+      message: "A conciliação encomenda/receção/fatura encontrou diferenças de quantidade ou preço.",
+      data: { purchaseOrderId: result.purchaseOrderId },
+    });
+  }
+
+  const { previousMatchStatus, ...rest } = result;
+  return rest;
+}
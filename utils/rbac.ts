@@ -1,4 +1,5 @@
 import { PrismaClient, User } from "@prisma/client";
+import type { ApiTokenContext } from "@/utils/apiTokens";
 
 export type SystemPermissionKey =
   | "requests.create"
@@ -19,8 +20,12 @@ export type SystemPermissionKey =
   | "assets.move"
   | "assets.dispose"
   | "assets.audit_view"
+  | "stocktake.count"
+  | "stocktake.approve"
   | "finance.manage"
   | "finance.view"
+  | "purchasing.manage"
+  | "purchasing.view"
   | "presidency.approve"
   | "public_requests.view"
   | "public_requests.handle"
@@ -31,6 +36,8 @@ export type SystemPermissionKey =
 export type PermissionGrant = {
   key: string;
   requestingServiceId: number | null;
+  /** Present when the grant is lent through an ApprovalDelegation; the delegator's user id. */
+  onBehalfOfUserId?: string;
 };
 
 export const SYSTEM_PERMISSIONS: Array<{ key: SystemPermissionKey; name: string; description: string }> = [
@@ -52,8 +59,12 @@ export const SYSTEM_PERMISSIONS: Array<{ key: SystemPermissionKey; name: string;
   { key: "assets.move", name: "Movimentar ativos", description: "Permite transferências, afetações e movimentos patrimoniais." },
   { key: "assets.dispose", name: "Abater ativos", description: "Permite abrir e decidir processos de abate patrimonial." },
   { key: "assets.audit_view", name: "Consultar auditoria patrimonial", description: "Permite consultar trilho de movimentos e auditoria patrimonial." },
+  { key: "stocktake.count", name: "Contar inventário", description: "Permite abrir sessões de inventário físico e registar contagens." },
+  { key: "stocktake.approve", name: "Aprovar inventário", description: "Permite aprovar inventários e lançar os ajustes de stock." },
   { key: "finance.manage", name: "Gerir financiamento", description: "Permite gerir financiamento e compromissos." },
   { key: "finance.view", name: "Consultar financiamento", description: "Permite consultar processos financeiros." },
+  { key: "purchasing.manage", name: "Gerir encomendas", description: "Permite criar, enviar e conciliar encomendas a fornecedores." },
+  { key: "purchasing.view", name: "Consultar encomendas", description: "Permite consultar encomendas a fornecedores e receções." },
   { key: "presidency.approve", name: "Aprovação da presidência", description: "Permite aprovações de nível presidência." },
   { key: "public_requests.view", name: "Consultar requerimentos externos", description: "Permite visualizar requerimentos externos." },
   { key: "public_requests.handle", name: "Tratar requerimentos externos", description: "Permite aceitar/rejeitar requerimentos externos." },
@@ -62,6 +73,34 @@ export const SYSTEM_PERMISSIONS: Array<{ key: SystemPermissionKey; name: string;
   { key: "reports.view", name: "Consultar relatórios", description: "Permite aceder a relatórios operacionais e executivos." },
 ];
 
+/** Permissions an approver may lend to a substitute while absent. */
+export const DELEGABLE_PERMISSION_KEYS: SystemPermissionKey[] = [
+  "requests.approve",
+  "requests.reject",
+  "requests.final_approve",
+  "requests.final_reject",
+  "requests.sign_approval",
+  "presidency.approve",
+  "stocktake.approve",
+];
+
+/** Scopes that let an API token reach the request and request-workflow routes. */
+export const REQUEST_API_TOKEN_SCOPES: SystemPermissionKey[] = [
+  "requests.create",
+  "requests.view",
+  "requests.change_status",
+  "requests.approve",
+  "requests.reject",
+  "requests.final_approve",
+  "requests.final_reject",
+  "requests.sign_approval",
+  "requests.void_sign",
+  "requests.pickup_sign",
+  "requests.void_pickup_sign",
+  "requests.dispatch_presidency",
+  "presidency.approve",
+];
+
 const PLATFORM_ADMIN_ALL_ACCESS =
   process.env.RBAC_PLATFORM_ADMIN_ALL_ACCESS === "false" ? false : true;
 const ALL_SYSTEM_PERMISSION_KEYS = SYSTEM_PERMISSIONS.map((permission) => permission.key) as SystemPermissionKey[];
@@ -160,6 +199,7 @@ const SYSTEM_ROLES: Array<{
       "requests.final_reject",
       "finance.view",
       "finance.manage",
+      "purchasing.view",
       "reports.view",
     ],
   },
@@ -171,6 +211,7 @@ const SYSTEM_ROLES: Array<{
       "requests.view",
       "finance.view",
       "finance.manage",
+      "purchasing.view",
     ],
   },
   {
@@ -188,6 +229,9 @@ const SYSTEM_ROLES: Array<{
       "assets.create",
       "assets.move",
       "assets.dispose",
+      "stocktake.count",
+      "stocktake.approve",
+      "purchasing.view",
       "reports.view",
     ],
   },
@@ -200,7 +244,10 @@ const SYSTEM_ROLES: Array<{
       "requests.view",
       "assets.view",
       "assets.audit_view",
+      "stocktake.count",
       "finance.view",
+      "purchasing.manage",
+      "purchasing.view",
     ],
   },
   {
@@ -246,7 +293,7 @@ const SYSTEM_ROLES: Array<{
     key: "AUDITOR",
     name: "Auditor",
     description: "Perfil de consulta e verificação sem permissões de alteração.",
-    permissions: ["requests.view", "assets.view", "finance.view", "public_requests.view", "reports.view"],
+    permissions: ["requests.view", "assets.view", "finance.view", "purchasing.view", "public_requests.view", "reports.view"],
   },
   {
     key: "SUPPORT_ADMIN",
@@ -322,12 +369,61 @@ export async function ensureTenantRbacBootstrap(prisma: PrismaClient, tenantId:
   });
 }
 
-export async function getUserPermissionGrants(prisma: PrismaClient, user: Pick<User, "id" | "tenantId" | "role">) {
-  if (user.role === "ADMIN") {
-    return [{ key: "*", requestingServiceId: null }];
+/** Narrows grants to the scopes of the API token the request authenticated with. */
+function restrictToTokenScopes(grants: PermissionGrant[], apiToken: ApiTokenContext): PermissionGrant[] {
+  const scopes = new Set(apiToken.scopes);
+  if (grants.some((grant) => grant.key === "*")) {
+    return apiToken.scopes.map((key) => ({ key, requestingServiceId: null }));
+  }
+  return grants.filter((grant) => scopes.has(grant.key));
+}
+
+export async function getUserPermissionGrants(
+  prisma: PrismaClient,
+  user: Pick<User, "id" | "tenantId" | "role"> & { apiToken?: ApiTokenContext | null }
+) {
+  if (user.apiToken) {
+    const { apiToken, ...owner } = user;
+    const grants: PermissionGrant[] = apiToken.grantsScopesDirectly
+      ? [{ key: "*", requestingServiceId: null }]
+      : await getUserPermissionGrants(prisma, owner);
+    return restrictToTokenScopes(grants, apiToken);
   }
 
   const now = new Date();
+  const grants = await getOwnPermissionGrants(prisma, user, now);
+  if (grants.some((grant) => grant.key === "*")) return grants;
+
+  // Delegations are only honoured inside their window and until revoked, so they lapse on their own.
+  const delegations = await prisma.approvalDelegation.findMany({
+    where: {
+      tenantId: user.tenantId,
+      delegateUserId: user.id,
+      revokedAt: null,
+      startsAt: { lte: now },
+      endsAt: { gt: now },
+      delegator: { isActive: true },
+    },
+    select: {
+      permissionKeys: true,
+      requestingServiceId: true,
+      delegator: { select: { id: true, tenantId: true, role: true } },
+    },
+  });
+
+  for (const delegation of delegations) {
+    grants.push(...(await resolveDelegatedGrants(prisma, delegation.delegator, delegation, now)));
+  }
+
+  return grants;
+}
+
+/** Grants a user holds in their own right: ADMIN, or active role assignments. Never follows delegations. */
+async function getOwnPermissionGrants(prisma: PrismaClient, user: Pick<User, "id" | "tenantId" | "role">, now: Date) {
+  if (user.role === "ADMIN") {
+    return [{ key: "*", requestingServiceId: null }] as PermissionGrant[];
+  }
+
   const assignments = await prisma.userRoleAssignment.findMany({
     where: {
       tenantId: user.tenantId,
@@ -371,13 +467,62 @@ export async function getUserPermissionGrants(prisma: PrismaClient, user: Pick<U
   return grants;
 }
 
+/**
+ * The part of the delegator's own grants that a delegation lends: only delegable keys listed on the
+ * delegation and, when it is scoped to a service, only grants that cover that service. Delegations
+ * are not transitive — a delegate cannot pass on what was lent to them.
+ */
+export async function resolveDelegatedGrants(
+  prisma: PrismaClient,
+  delegator: Pick<User, "id" | "tenantId" | "role">,
+  scope: { permissionKeys: string[]; requestingServiceId: number | null },
+  now = new Date()
+) {
+  const keys = new Set(scope.permissionKeys.filter((key) => (DELEGABLE_PERMISSION_KEYS as string[]).includes(key)));
+  const own = await getOwnPermissionGrants(prisma, delegator, now);
+
+  if (own.some((grant) => grant.key === "*")) {
+    return Array.from(keys).map((key) => ({
+      key,
+      requestingServiceId: scope.requestingServiceId,
+      onBehalfOfUserId: delegator.id,
+    }));
+  }
+
+  return own
+    .filter((grant) => keys.has(grant.key))
+    .filter(
+      (grant) =>
+        scope.requestingServiceId == null ||
+        grant.requestingServiceId == null ||
+        grant.requestingServiceId === scope.requestingServiceId
+    )
+    .map((grant) => ({
+      key: grant.key,
+      requestingServiceId: scope.requestingServiceId ?? grant.requestingServiceId,
+      onBehalfOfUserId: delegator.id,
+    }));
+}
+
 export function hasPermission(grants: PermissionGrant[], permissionKey: string, requestingServiceId?: number | null) {
+  return findPermissionGrant(grants, permissionKey, requestingServiceId) !== null;
+}
+
+/**
+ * The grant that satisfies a permission check. A user's own grant wins over a delegated one, so
+ * `onBehalfOfUserId` on the result is only set when the delegation is what made the action possible.
+ */
+export function findPermissionGrant(grants: PermissionGrant[], permissionKey: string, requestingServiceId?: number | null) {
+  let delegated: PermissionGrant | null = null;
   for (const grant of grants) {
-    if (grant.key === "*") return true;
-    if (grant.key !== permissionKey) continue;
-    if (grant.requestingServiceId == null) return true;
-    if (requestingServiceId == null) continue;
-    if (grant.requestingServiceId === requestingServiceId) return true;
+    const matches =
+      grant.key === "*" ||
+      (grant.key === permissionKey &&
+        (grant.requestingServiceId == null ||
+          (requestingServiceId != null && grant.requestingServiceId === requestingServiceId)));
+    if (!matches) continue;
+    if (!grant.onBehalfOfUserId) return grant;
+    delegated ??= grant;
   }
-  return false;
+  return delegated;
 }
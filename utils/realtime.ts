@@ -1,5 +1,8 @@
 import { EventEmitter } from "events";
 import crypto from "crypto";
+import { Client } from "pg";
+import { prisma } from "@/prisma/client";
+import { logError, logInfo, logWarn } from "@/utils/logger";
 
 export type RealtimeAudience = "ADMIN" | "USER" | "ALL";
 
@@ -9,38 +12,268 @@ export type RealtimeEnvelope<T = any> = {
   tenantId: string;
   audience: RealtimeAudience;
   userId?: string | null;
+  // e.g. "request:<id>", "ticket:<id>"; lets SSE clients follow a single entity.
+  topics?: string[];
   createdAt: string;
   payload: T;
 };
 
+/**
+ * Carries envelopes between app instances. Events are always delivered to local subscribers
+ * directly; the transport only fans them out to the other nodes.
+ */
+export type RealtimeTransport = {
+  name: string;
+  start(onMessage: (raw: string) => void): void;
+  publish(raw: string): Promise<void>;
+  status(): { connected: boolean };
+};
+
 const GLOBAL_KEY = "__stocklyRealtimeBus__";
+const PG_CHANNEL = "stockly_realtime";
+// NOTIFY payloads are capped at 8000 bytes by Postgres.
+const PG_MAX_PAYLOAD_BYTES = 7900;
+const PG_RECONNECT_MAX_MS = 30_000;
+const EVENT_LOG_PRUNE_INTERVAL_MS = 60_000;
+const REPLAY_MAX_EVENTS = 500;
+
+type WireMessage = { origin: string; event: RealtimeEnvelope };
 
 type BusShape = {
   emitter: EventEmitter;
+  nodeId: string;
+  transport: RealtimeTransport | null;
+  started: boolean;
+  lastPruneAt: number;
 };
 
+function createPostgresTransport(connectionString: string): RealtimeTransport {
+  let client: Client | null = null;
+  let connected = false;
+  let attempt = 0;
+  let onMessage: (raw: string) => void = () => {};
+
+  const scheduleReconnect = () => {
+    const delay = Math.min(PG_RECONNECT_MAX_MS, 1000 * 2 ** attempt);
+    attempt += 1;
+    setTimeout(() => void connect(), delay).unref?.();
+  };
+
+  const connect = async () => {
+    const next = new Client({ connectionString, application_name: "stockly-realtime" });
+    client = next;
+    let failed = false;
+    const fail = (error: unknown) => {
+      if (failed) return;
+      failed = true;
+      connected = false;
+      logWarn("realtime_listen_disconnected", { err: String(error), attempt });
+      next.removeAllListeners();
+      next.on("error", () => {});
+      next.end().catch(() => {});
+      scheduleReconnect();
+    };
+
+    next.on("error", fail);
+    next.on("end", () => fail("connection ended"));
+    next.on("notification", (msg) => {
+      if (msg.channel === PG_CHANNEL && msg.payload) onMessage(msg.payload);
+    });
+
+    try {
+      await next.connect();
+      await next.query(`LISTEN ${PG_CHANNEL}`);
+      connected = true;
+      attempt = 0;
+      logInfo("realtime_listen_connected", { channel: PG_CHANNEL });
+    } catch (error) {
+      fail(error);
+    }
+  };
+
+  return {
+    name: "postgres",
+    start(handler) {
+      onMessage = handler;
+      void connect();
+    },
+    async publish(raw) {
+      if (Buffer.byteLength(raw, "utf8") > PG_MAX_PAYLOAD_BYTES) {
+        logWarn("realtime_payload_too_large", { bytes: Buffer.byteLength(raw, "utf8") });
+        return;
+      }
+      // Publishing goes through the Prisma pool so it works even while the LISTEN connection
+      // is reconnecting.
+      await prisma.$executeRaw`SELECT pg_notify(${PG_CHANNEL}, ${raw})`;
+    },
+    status() {
+      return { connected: connected && client !== null };
+    },
+  };
+}
+
+/** `REALTIME_TRANSPORT=postgres` fans events out across instances; the default keeps them in-process. */
+function createTransport(): RealtimeTransport | null {
+  const kind = (process.env.REALTIME_TRANSPORT || "memory").trim().toLowerCase();
+  if (kind === "memory") return null;
+  if (kind === "postgres" || kind === "postgresql" || kind === "db") {
+    const url = process.env.REALTIME_DATABASE_URL || process.env.DATABASE_URL;
+    if (!url) {
+      logError("realtime_transport_misconfigured", { transport: "postgres", reason: "DATABASE_URL missing" });
+      return null;
+    }
+    return createPostgresTransport(url);
+  }
+  logError("realtime_transport_misconfigured", { transport: kind, reason: "unknown transport" });
+  return null;
+}
+
 function getBus(): BusShape {
   const g = globalThis as any;
   if (!g[GLOBAL_KEY]) {
     const emitter = new EventEmitter();
     emitter.setMaxListeners(200);
-    g[GLOBAL_KEY] = { emitter } satisfies BusShape;
+    g[GLOBAL_KEY] = {
+      emitter,
+      nodeId: crypto.randomUUID(),
+      transport: createTransport(),
+      started: false,
+      lastPruneAt: 0,
+    } satisfies BusShape;
   }
   return g[GLOBAL_KEY] as BusShape;
 }
 
-export function publishRealtimeEvent<T = any>(event: Omit<RealtimeEnvelope<T>, "id" | "createdAt">) {
+// Only instances with SSE subscribers need to listen; publishers just NOTIFY.
+function ensureListening(bus: BusShape) {
+  if (bus.started || !bus.transport) return;
+  bus.started = true;
+  bus.transport.start((raw) => {
+    try {
+      const message = JSON.parse(raw) as WireMessage;
+      if (message.origin === bus.nodeId || !message.event?.id) return;
+      bus.emitter.emit("event", message.event);
+    } catch (error) {
+      logWarn("realtime_message_invalid", { err: String(error) });
+    }
+  });
+}
+
+function getEventLogRetentionMs() {
+  const raw = process.env.REALTIME_EVENT_RETENTION_MINUTES;
+  const minutes = raw === undefined || raw === "" ? 60 : Number(raw);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes * 60_000 : 0;
+}
+
+/** Topics implied by the ids the payload carries (notifications nest them under `data`). */
+function deriveTopics(payload: any): string[] {
+  const topics: string[] = [];
+  for (const source of [payload, payload?.data]) {
+    if (!source || typeof source !== "object") continue;
+    if (typeof source.requestId === "string") topics.push(`request:${source.requestId}`);
+    if (typeof source.ticketId === "string") topics.push(`ticket:${source.ticketId}`);
+    if (typeof source.publicRequestId === "string") topics.push(`public-request:${source.publicRequestId}`);
+  }
+  return topics;
+}
+
+async function appendToEventLog(bus: BusShape, envelope: RealtimeEnvelope, retentionMs: number) {
+  await prisma.realtimeEvent.create({
+    data: {
+      id: envelope.id,
+      tenantId: envelope.tenantId,
+      type: envelope.type,
+      audience: envelope.audience,
+      userId: envelope.userId ?? null,
+      topics: envelope.topics ?? [],
+      payload: envelope.payload ?? {},
+      createdAt: new Date(envelope.createdAt),
+    },
+  });
+
+  if (Date.now() - bus.lastPruneAt >= EVENT_LOG_PRUNE_INTERVAL_MS) {
+    bus.lastPruneAt = Date.now();
+    // The event is already logged; a failed prune is retried on a later publish.
+    await prisma.realtimeEvent
+      .deleteMany({ where: { createdAt: { lt: new Date(Date.now() - retentionMs) } } })
+      .catch((error) => logWarn("realtime_log_prune_failed", { err: String(error) }));
+  }
+}
+
+/**
+ * Logs the event for replay, then delivers it. Delivery waits for the log so that a client
+ * resuming from this event's id normally finds it. Callers publish after their transaction has
+ * committed, so a failed append is only logged: the event is still sent, and a client resuming
+ * from its id gets a reset (see listRealtimeEventsSince) and reloads its state.
+ */
+export async function publishRealtimeEvent<T = any>(event: Omit<RealtimeEnvelope<T>, "id" | "createdAt">) {
+  const topics = Array.from(new Set([...(event.topics ?? []), ...deriveTopics(event.payload)]));
   const envelope: RealtimeEnvelope<T> = {
     id: crypto.randomUUID(),
     createdAt: new Date().toISOString(),
     ...event,
+    topics,
   };
-  getBus().emitter.emit("event", envelope);
+  const bus = getBus();
+  const retentionMs = getEventLogRetentionMs();
+  if (retentionMs) {
+    try {
+      await appendToEventLog(bus, envelope, retentionMs);
+    } catch (error) {
+      logError("realtime_log_append_failed", { err: String(error), type: envelope.type });
+    }
+  }
+  bus.emitter.emit("event", envelope);
+  if (bus.transport) {
+    const raw = JSON.stringify({ origin: bus.nodeId, event: envelope } satisfies WireMessage);
+    bus.transport.publish(raw).catch((error) => {
+      logError("realtime_publish_failed", { err: String(error), type: envelope.type });
+    });
+  }
   return envelope;
 }
 
 export function subscribeRealtimeEvents(listener: (event: RealtimeEnvelope) => void) {
-  const { emitter } = getBus();
-  emitter.on("event", listener);
-  return () => emitter.off("event", listener);
+  const bus = getBus();
+  ensureListening(bus);
+  bus.emitter.on("event", listener);
+  return () => bus.emitter.off("event", listener);
+}
+
+export function getRealtimeStatus() {
+  const { transport } = getBus();
+  if (!transport) return { transport: "memory", connected: true };
+  return { transport: transport.name, ...transport.status() };
+}
+
+/**
+ * Events of the tenant published after `lastEventId`, oldest first. Returns null when the id is
+ * unknown (pruned or never logged) or more than the replay limit was missed; the client should then
+ * reload its state instead of replaying.
+ */
+export async function listRealtimeEventsSince(
+  tenantId: string,
+  lastEventId: string
+): Promise<RealtimeEnvelope[] | null> {
+  if (!/^[0-9a-f-]{36}$/i.test(lastEventId)) return null;
+  const last = await prisma.realtimeEvent.findUnique({ where: { id: lastEventId }, select: { seq: true, tenantId: true } });
+  if (!last || last.tenantId !== tenantId) return null;
+
+  const rows = await prisma.realtimeEvent.findMany({
+    where: { tenantId, seq: { gt: last.seq } },
+    orderBy: { seq: "asc" },
+    take: REPLAY_MAX_EVENTS + 1,
+  });
+  if (rows.length > REPLAY_MAX_EVENTS) return null;
+
+  return rows.map((row) => ({
+    id: row.id,
+    type: row.type,
+    tenantId: row.tenantId,
+    audience: row.audience as RealtimeAudience,
+    userId: row.userId,
+    topics: row.topics,
+    createdAt: row.createdAt.toISOString(),
+    payload: row.payload,
+  }));
 }
@@ -0,0 +1,203 @@
+import { prisma } from "@/prisma/client";
+import { notifyAdmin, publishNotifications, type NotificationOutbox } from "@/utils/notifications";
+import {
+  notifyReorderPointTx,
+  resolveStockLevels,
+  stockLevelSelect,
+  suggestedOrderQuantity,
+} from "@/utils/stockLevels";
+
+export type ReplenishmentLine = {
+  productId: string;
+  sku: string;
+  name: string;
+  quantity: number;
+  minStock: number | null;
+  maxStock: number | null;
+  reorderPoint: number;
+  onOrder: number;
+  suggestedQuantity: number;
+  unitPrice: number;
+  estimatedCost: number;
+  belowMinimum: boolean;
+};
+
+export type ReplenishmentSupplierGroup = {
+  supplierId: string;
+  supplierName: string;
+  supplierEmail: string | null;
+  supplierActive: boolean;
+  totalQuantity: number;
+  estimatedCost: number;
+  lines: ReplenishmentLine[];
+};
+
+function roundMoney(value: number) {
+  return Number(value.toFixed(2));
+}
+
+// Purchase order statuses whose outstanding lines still count as incoming stock.
+export const OPEN_PURCHASE_ORDER_STATUSES = ["DRAFT", "SENT", "PARTIALLY_RECEIVED"] as const;
+
+/** Quantity ordered but not yet received, per product, across open purchase orders. */
+export async function getOnOrderQuantities(client: any, tenantId: string, productIds?: string[]) {
+  const lines = await client.purchaseOrderLine.findMany({
+    where: {
+      tenantId,
+      ...(productIds ? { productId: { in: productIds } } : {}),
+      purchaseOrder: { status: { in: [...OPEN_PURCHASE_ORDER_STATUSES] } },
+    },
+    select: { productId: true, quantity: true, receivedQuantity: true },
+  });
+
+  const onOrder = new Map<string, number>();
+  for (const line of lines) {
+    const outstanding = Math.max(0, line.quantity - line.receivedQuantity);
+    onOrder.set(line.productId, (onOrder.get(line.productId) ?? 0) + outstanding);
+  }
+  return onOrder;
+}
+
+/**
+ * Builds the draft purchase list: every product at or below its reorder point, with the quantity
+ * needed to get back to its max level (minus what open purchase orders already bring), grouped by
+ * the product's supplier.
+ */
+export async function buildReplenishmentPlan(tenantId: string) {
+  const products = await prisma.product.findMany({
+    where: { tenantId },
+    select: {
+      id: true,
+      name: true,
+      sku: true,
+      price: true,
+      quantity: true,
+      reorderAlertedAt: true,
+      ...stockLevelSelect,
+      supplier: { select: { id: true, name: true, email: true, isActive: true } },
+    },
+    orderBy: { name: "asc" },
+  });
+  const onOrderByProduct = await getOnOrderQuantities(prisma, tenantId);
+
+  const groups = new Map<string, ReplenishmentSupplierGroup>();
+  const pendingAlerts: Array<{ line: ReplenishmentLine; levels: ReturnType<typeof resolveStockLevels> }> = [];
+
+  for (const product of products) {
+    const quantity = Number(product.quantity);
+    const levels = resolveStockLevels(product);
+    if (quantity > levels.reorderPoint) continue;
+
+    const onOrder = onOrderByProduct.get(product.id) ?? 0;
+    const suggestedQuantity = Math.max(0, suggestedOrderQuantity(quantity, levels) - onOrder);
+    const unitPrice = Number(product.price || 0);
+    const line: ReplenishmentLine = {
+      productId: product.id,
+      sku: product.sku,
+      name: product.name,
+      quantity,
+      minStock: levels.minStock,
+      maxStock: levels.maxStock,
+      reorderPoint: levels.reorderPoint,
+      onOrder,
+      suggestedQuantity,
+      unitPrice,
+      estimatedCost: roundMoney(unitPrice * suggestedQuantity),
+      belowMinimum: levels.minStock !== null && quantity < levels.minStock,
+    };
+
+    const group = groups.get(product.supplier.id) ?? {
+      supplierId: product.supplier.id,
+      supplierName: product.supplier.name,
+      supplierEmail: product.supplier.email ?? null,
+      supplierActive: product.supplier.isActive,
+      totalQuantity: 0,
+      estimatedCost: 0,
+      lines: [],
+    };
+    group.lines.push(line);
+    group.totalQuantity += suggestedQuantity;
+    group.estimatedCost = roundMoney(group.estimatedCost + line.estimatedCost);
+    groups.set(product.supplier.id, group);
+
+    if (!product.reorderAlertedAt) pendingAlerts.push({ line, levels });
+  }
+
+  const suppliers = Array.from(groups.values())
+    .map((g) => ({
+      ...g,
+      // Items already below their safety minimum first.
+      lines: g.lines.sort((a, b) => Number(b.belowMinimum) - Number(a.belowMinimum) || a.quantity - b.quantity),
+    }))
+    .sort((a, b) => b.estimatedCost - a.estimatedCost);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    productCount: suppliers.reduce((acc, g) => acc + g.lines.length, 0),
+    supplierCount: suppliers.length,
+    estimatedCost: roundMoney(suppliers.reduce((acc, g) => acc + g.estimatedCost, 0)),
+    suppliers,
+    pendingAlerts,
+  };
+}
+
+/**
+ * Replenishment job: stores a draft purchase list snapshot and alerts admins about products
+ * that reached their reorder point without a stock movement noticing it (e.g. after a threshold
+ * was raised).
+ */
+export async function runReplenishmentJob(tenantId: string, opts?: { triggeredByUserId?: string | null }) {
+  const plan = await buildReplenishmentPlan(tenantId);
+
+  let alertsSent = 0;
+  for (const { line, levels } of plan.pendingAlerts) {
+    const outbox: NotificationOutbox = [];
+    await prisma.$transaction(async (tx) => {
+      const claimed = await tx.product.updateMany({
+        where: { id: line.productId, tenantId, reorderAlertedAt: null },
+        data: { reorderAlertedAt: new Date() },
+      });
+      if (!claimed.count) return;
+      await notifyReorderPointTx(tx, {
+        tenantId,
+        outbox,
+        product: { id: line.productId, name: line.name, sku: line.sku },
+        quantity: line.quantity,
+        levels,
+      });
+      alertsSent += 1;
+    });
+    await publishNotifications(outbox);
+  }
+
+  const run = await prisma.replenishmentRun.create({
+    data: {
+      tenantId,
+      triggeredByUserId: opts?.triggeredByUserId ?? null,
+      productCount: plan.productCount,
+      supplierCount: plan.supplierCount,
+      alertsSent,
+      suppliers: plan.suppliers as any,
+    },
+  });
+
+  if (plan.productCount > 0) {
+    await notifyAdmin({
+      tenantId,
+      kind: "STOCK_REORDER",
+      title: "Lista de reposição gerada",
+      message: `${plan.productCount} produto(s) de ${plan.supplierCount} fornecedor(es) atingiram o ponto de encomenda.`,
+      data: { replenishmentRunId: run.id, estimatedCost: plan.estimatedCost },
+    });
+  }
+
+  return {
+    id: run.id,
+    createdAt: run.createdAt.toISOString(),
+    productCount: run.productCount,
+    supplierCount: run.supplierCount,
+    alertsSent: run.alertsSent,
+    estimatedCost: plan.estimatedCost,
+    suppliers: plan.suppliers,
+  };
+}
@@ -0,0 +1,188 @@
+import type { NextApiRequest } from "next";
+import { prisma } from "@/prisma/client";
+import { getClientIp } from "@/utils/ip";
+import { publishRealtimeEvent } from "@/utils/realtime";
+
+const minutesFromEnv = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// A session dies after this much inactivity; every authenticated request pushes it forward.
+export const SESSION_IDLE_MS = minutesFromEnv("SESSION_IDLE_MINUTES", 60) * 60_000;
+// Hard cap since login, regardless of activity.
+export const SESSION_MAX_AGE_MS = minutesFromEnv("SESSION_MAX_MINUTES", 12 * 60) * 60_000;
+// Avoid a write on every request: lastSeenAt/expiresAt only move once per interval.
+const SESSION_TOUCH_INTERVAL_MS = 60_000;
+
+export type SessionRevokeReason = "user" | "admin" | "directory";
+
+type SessionRow = {
+  id: string;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  userId: string;
+};
+
+/** Short human label such as "Chrome em Windows" for the device list. */
+export function describeUserAgent(userAgent?: string | null) {
+  const ua = String(userAgent || "");
+  if (!ua) return null;
+
+  const browser = /Edg\//.test(ua)
+    ? "Edge"
+    : /OPR\/|Opera/.test(ua)
+      ? "Opera"
+      : /Firefox\//.test(ua)
+        ? "Firefox"
+        : /Chrome\//.test(ua)
+          ? "Chrome"
+          : /Safari\//.test(ua)
+            ? "Safari"
+            : /curl|python|node|axios/i.test(ua)
+              ? "Cliente API"
+              : "Navegador";
+
+  const os = /Windows/.test(ua)
+    ? "Windows"
+    : /Android/.test(ua)
+      ? "Android"
+      : /iPhone|iPad|iPod/.test(ua)
+        ? "iOS"
+        : /Mac OS X|Macintosh/.test(ua)
+          ? "macOS"
+          : /Linux/.test(ua)
+            ? "Linux"
+            : null;
+
+  return os ? `${browser} em ${os}` : browser;
+}
+
+function cappedExpiry(createdAt: Date, now: Date) {
+  return new Date(Math.min(now.getTime() + SESSION_IDLE_MS, createdAt.getTime() + SESSION_MAX_AGE_MS));
+}
+
+export async function createUserSession(req: NextApiRequest, user: { id: string; tenantId: string }) {
+  const now = new Date();
+  const userAgent = typeof req.headers["user-agent"] === "string" ? req.headers["user-agent"].slice(0, 512) : null;
+
+  // Opportunistic cleanup so the table does not grow with every login.
+  await prisma.userSession.deleteMany({
+    where: { userId: user.id, expiresAt: { lt: new Date(now.getTime() - 30 * 24 * 60 * 60_000) } },
+  });
+
+  return prisma.userSession.create({
+    data: {
+      tenantId: user.tenantId,
+      userId: user.id,
+      createdAt: now,
+      lastSeenAt: now,
+      expiresAt: cappedExpiry(now, now),
+      ip: getClientIp(req)?.slice(0, 64) ?? null,
+      userAgent,
+      device: describeUserAgent(userAgent),
+    },
+    select: { id: true, createdAt: true, expiresAt: true },
+  });
+}
+
+export async function findActiveSession(sessionId: string, userId: string) {
+  if (!/^[0-9a-f-]{36}$/i.test(sessionId)) return null;
+  const session = await prisma.userSession.findUnique({
+    where: { id: sessionId },
+    select: { id: true, createdAt: true, lastSeenAt: true, expiresAt: true, revokedAt: true, userId: true },
+  });
+  if (!session || session.userId !== userId || session.revokedAt) return null;
+  if (session.expiresAt.getTime() <= Date.now()) return null;
+  return session;
+}
+
+/**
+ * Slides the idle expiry forward. Returns the new expiry when the row was updated, or null when
+ * the last touch was recent enough to skip the write.
+ */
+export async function touchUserSession(session: SessionRow, req: NextApiRequest) {
+  const now = new Date();
+  if (now.getTime() - session.lastSeenAt.getTime() < SESSION_TOUCH_INTERVAL_MS) return null;
+
+  const expiresAt = cappedExpiry(session.createdAt, now);
+  await prisma.userSession.update({
+    where: { id: session.id },
+    data: { lastSeenAt: now, expiresAt, ip: getClientIp(req)?.slice(0, 64) ?? undefined },
+  });
+  return expiresAt;
+}
+
+/**
+ * Active sessions of a user. Rows created before the user's last update are left out: the
+ * `uv` check in getSessionServer already refuses their tokens.
+ */
+export async function listActiveSessions(tenantId: string, userId: string) {
+  const user = await prisma.user.findFirst({ where: { id: userId, tenantId }, select: { updatedAt: true } });
+  if (!user) return [];
+
+  const rows = await prisma.userSession.findMany({
+    where: {
+      tenantId,
+      userId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+      createdAt: { gte: user.updatedAt },
+    },
+    orderBy: { lastSeenAt: "desc" },
+    select: { id: true, createdAt: true, lastSeenAt: true, expiresAt: true, ip: true, userAgent: true, device: true },
+  });
+
+  return rows.map((row) => ({
+    ...row,
+    createdAt: row.createdAt.toISOString(),
+    lastSeenAt: row.lastSeenAt.toISOString(),
+    expiresAt: row.expiresAt.toISOString(),
+  }));
+}
+
+/**
+ * Revokes one session, every session, or every session except `exceptSessionId`, and tells the
+ * affected browsers to drop their state. Returns the revoked ids.
+ */
+export async function revokeUserSessions(args: {
+  tenantId: string;
+  userId: string;
+  sessionId?: string;
+  exceptSessionId?: string | null;
+  reason: SessionRevokeReason;
+  revokedByUserId?: string | null;
+}) {
+  const where = {
+    tenantId: args.tenantId,
+    userId: args.userId,
+    revokedAt: null,
+    ...(args.sessionId ? { id: args.sessionId } : {}),
+    ...(args.exceptSessionId ? { NOT: { id: args.exceptSessionId } } : {}),
+  };
+
+  const targets = await prisma.userSession.findMany({ where, select: { id: true } });
+  if (!targets.length) return [];
+  const sessionIds = targets.map((t) => t.id);
+
+  await prisma.userSession.updateMany({
+    where: { id: { in: sessionIds }, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: args.reason, revokedByUserId: args.revokedByUserId ?? null },
+  });
+
+  await publishRealtimeEvent({
+    type: "auth.force_logout",
+    tenantId: args.tenantId,
+    audience: "USER",
+    userId: args.userId,
+    payload: {
+      reason: "session_revoked",
+      sessionIds,
+      changedByUserId: args.revokedByUserId ?? null,
+    },
+  });
+
+  return sessionIds;
+}
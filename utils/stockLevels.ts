@@ -0,0 +1,176 @@
+import { z } from "zod";
+import { prisma } from "@/prisma/client";
+import { notifyAdminTx, publishNotifications, type NotificationOutbox } from "@/utils/notifications";
+
+// Threshold used before reorder points were configurable: more than 20 units is "Available".
+export const DEFAULT_REORDER_POINT = 20;
+
+export type StockLevelSource = {
+  minStock?: number | null;
+  maxStock?: number | null;
+  reorderPoint?: number | null;
+  category?: {
+    defaultMinStock?: number | null;
+    defaultMaxStock?: number | null;
+    defaultReorderPoint?: number | null;
+  } | null;
+};
+
+export type StockLevels = {
+  minStock: number | null;
+  maxStock: number | null;
+  reorderPoint: number;
+};
+
+export const stockLevelSelect = {
+  minStock: true,
+  maxStock: true,
+  reorderPoint: true,
+  category: { select: { defaultMinStock: true, defaultMaxStock: true, defaultReorderPoint: true } },
+} as const;
+
+const levelValue = z.number().int().min(0).max(1_000_000).nullable().optional();
+
+// Shared by product and category endpoints; null clears a level so the fallback applies again.
+export const stockLevelInputSchema = z
+  .object({
+    minStock: levelValue,
+    maxStock: levelValue,
+    reorderPoint: levelValue,
+  })
+  .refine((v) => v.minStock == null || v.reorderPoint == null || v.minStock <= v.reorderPoint, {
+    message: "minStock must not exceed reorderPoint",
+  })
+  .refine((v) => v.maxStock == null || v.reorderPoint == null || v.maxStock > v.reorderPoint, {
+    message: "maxStock must be greater than reorderPoint",
+  });
+
+// Product values win over the category defaults; the legacy threshold is the last fallback.
+export function resolveStockLevels(source?: StockLevelSource | null): StockLevels {
+  const pick = (own?: number | null, fallback?: number | null) =>
+    typeof own === "number" ? own : typeof fallback === "number" ? fallback : null;
+
+  return {
+    minStock: pick(source?.minStock, source?.category?.defaultMinStock),
+    maxStock: pick(source?.maxStock, source?.category?.defaultMaxStock),
+    reorderPoint: pick(source?.reorderPoint, source?.category?.defaultReorderPoint) ?? DEFAULT_REORDER_POINT,
+  };
+}
+
+export function computeProductStatus(quantity: number, reorderPoint: number = DEFAULT_REORDER_POINT) {
+  return quantity > reorderPoint ? "Available" : quantity > 0 ? "Stock Low" : "Stock Out";
+}
+
+// Order up to maxStock when configured, otherwise to twice the reorder point.
+export function suggestedOrderQuantity(quantity: number, levels: StockLevels) {
+  const target = levels.maxStock ?? levels.reorderPoint * 2;
+  return Math.max(target - quantity, levels.reorderPoint + 1 - quantity, 0);
+}
+
+/**
+ * Recomputes Product.status (and each warehouse balance's status) from the current quantity and
+ * reorder point. When the product drops to its reorder point for the first time since it was
+ * last restocked, admins are notified inside the same transaction; the realtime alert is queued
+ * in `outbox` for after the commit.
+ */
+export async function refreshProductStockStatusTx(
+  tx: any,
+  args: { tenantId: string; productId: string; outbox: NotificationOutbox }
+) {
+  const txAny = tx as any;
+  const product = await txAny.product.findFirst({
+    where: { id: args.productId, tenantId: args.tenantId },
+    select: {
+      id: true,
+      name: true,
+      sku: true,
+      quantity: true,
+      status: true,
+      reorderAlertedAt: true,
+      ...stockLevelSelect,
+    },
+  });
+  if (!product) {
+    throw Object.assign(new Error("Product not found"), { code: "PRODUCT_NOT_FOUND" });
+  }
+
+  const quantity = Number(product.quantity);
+  const levels = resolveStockLevels(product);
+  const status = computeProductStatus(quantity, levels.reorderPoint);
+  const atReorderPoint = quantity <= levels.reorderPoint;
+  const shouldAlert = atReorderPoint && !product.reorderAlertedAt;
+
+  const data: Record<string, unknown> = {};
+  if (status !== product.status) data.status = status;
+  if (shouldAlert) data.reorderAlertedAt = new Date();
+  if (!atReorderPoint && product.reorderAlertedAt) data.reorderAlertedAt = null;
+  if (Object.keys(data).length) {
+    await txAny.product.update({ where: { id: product.id }, data });
+  }
+
+  // Per-warehouse balances follow the same reorder point, which may just have changed.
+  const balances = await txAny.productStock.findMany({
+    where: { productId: product.id },
+    select: { id: true, quantity: true, status: true },
+  });
+  for (const balance of balances) {
+    const balanceStatus = computeProductStatus(Number(balance.quantity), levels.reorderPoint);
+    if (balanceStatus !== balance.status) {
+      await txAny.productStock.update({ where: { id: balance.id }, data: { status: balanceStatus } });
+    }
+  }
+
+  if (shouldAlert) {
+    await notifyReorderPointTx(tx, {
+      tenantId: args.tenantId,
+      outbox: args.outbox,
+      product: { id: product.id, name: product.name, sku: product.sku },
+      quantity,
+      levels,
+    });
+  }
+
+  return { quantity, status, levels, alerted: shouldAlert };
+}
+
+export async function notifyReorderPointTx(
+  tx: any,
+  args: {
+    tenantId: string;
+    outbox: NotificationOutbox;
+    product: { id: string; name: string; sku: string };
+    quantity: number;
+    levels: StockLevels;
+  }
+) {
+  const belowMinimum = args.levels.minStock !== null && args.quantity < args.levels.minStock;
+  return notifyAdminTx(tx, args.outbox, {
+    tenantId: args.tenantId,
+    kind: "STOCK_REORDER",
+    title: belowMinimum ? "Stock abaixo do mínimo" : "Ponto de encomenda atingido",
+    message: `${args.product.name} (${args.product.sku}) tem ${args.quantity} unidade(s); ponto de encomenda: ${args.levels.reorderPoint}.`,
+    data: {
+      productId: args.product.id,
+      sku: args.product.sku,
+      quantity: args.quantity,
+      reorderPoint: args.levels.reorderPoint,
+      minStock: args.levels.minStock,
+      maxStock: args.levels.maxStock,
+      suggestedQuantity: suggestedOrderQuantity(args.quantity, args.levels),
+    },
+  });
+}
+
+// Category defaults changed: re-evaluate every product that inherits them.
+export async function refreshCategoryProductsStockStatus(tenantId: string, categoryId: string) {
+  const products = await prisma.product.findMany({
+    where: { tenantId, categoryId },
+    select: { id: true },
+  });
+  for (const product of products) {
+    const outbox: NotificationOutbox = [];
+    await prisma.$transaction((tx) => refreshProductStockStatusTx(tx, { tenantId, productId: product.id, outbox }));
+    await publishNotifications(outbox);
+  }
+  return products.length;
+}
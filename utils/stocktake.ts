@@ -0,0 +1,707 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/prisma/client";
+import { refreshProductStockStatusTx } from "@/utils/stockLevels";
+import { publishNotifications, type NotificationOutbox } from "@/utils/notifications";
+import { applyWarehouseStockDeltaTx, ensureDefaultWarehouse, resolveWarehouse } from "@/utils/warehouseStock";
+import { allocateLotsFefoTx } from "@/utils/productLots";
+
+export type StocktakeCountEntry =
+  | { unitCode: string; counted?: boolean }
+  | { productId: string; quantity: number; notes?: string | null };
+
+export const stocktakeSessionInclude = {
+  warehouse: { select: { id: true, code: true, name: true } },
+  category: { select: { id: true, name: true } },
+  createdBy: { select: { id: true, name: true, email: true } },
+  submittedBy: { select: { id: true, name: true, email: true } },
+  approvedBy: { select: { id: true, name: true, email: true } },
+  lines: {
+    orderBy: { createdAt: "asc" },
+    include: {
+      product: { select: { id: true, name: true, sku: true } },
+      countedBy: { select: { id: true, name: true } },
+    },
+  },
+  units: {
+    include: {
+      unit: { select: { id: true, code: true, productId: true, status: true, serialNumber: true } },
+    },
+  },
+} as const;
+
+export function formatStocktakeNumber(year: number, seq: number) {
+  return `INV-${year}-${String(seq).padStart(4, "0")}`;
+}
+
+function iso(value: Date | null | undefined) {
+  return value ? value.toISOString() : null;
+}
+
+function lineVariance(line: { expectedQuantity: number; countedQuantity: number | null }) {
+  return line.countedQuantity === null ? null : line.countedQuantity - line.expectedQuantity;
+}
+
+// Units without a warehouse predate multi-warehouse and live in the default one.
+async function unitWarehouseWhere(tx: any, tenantId: string, warehouseId: string) {
+  const defaultWarehouse = await ensureDefaultWarehouse(tx, tenantId);
+  return defaultWarehouse.id === warehouseId
+    ? { OR: [{ warehouseId }, { warehouseId: null }] }
+    : { warehouseId };
+}
+
+/**
+ * Session detail plus the variance report: per product expected vs counted, and for
+ * unit-tracked products the codes that were expected but not scanned (missing) or scanned
+ * without being expected (found).
+ */
+export function serializeStocktakeSession(session: any) {
+  const unitsByProduct = new Map<string, { missing: string[]; found: string[] }>();
+  for (const row of session.units ?? []) {
+    const bucket = unitsByProduct.get(row.unit.productId) ?? { missing: [], found: [] };
+    if (row.expected && !row.counted) bucket.missing.push(row.unit.code);
+    if (!row.expected && row.counted) bucket.found.push(row.unit.code);
+    unitsByProduct.set(row.unit.productId, bucket);
+  }
+
+  const lines = (session.lines ?? []).map((line: any) => {
+    const variance = lineVariance(line);
+    const units = unitsByProduct.get(line.productId) ?? { missing: [], found: [] };
+    return {
+      id: line.id,
+      product: line.product,
+      tracksUnits: line.tracksUnits,
+      expectedQuantity: line.expectedQuantity,
+      countedQuantity: line.countedQuantity,
+      variance,
+      adjustedQuantity: line.adjustedQuantity,
+      missingUnitCodes: units.missing,
+      foundUnitCodes: units.found,
+      notes: line.notes,
+      countedAt: iso(line.countedAt),
+      countedBy: line.countedBy ?? null,
+    };
+  });
+
+  const counted = lines.filter((l: any) => l.countedQuantity !== null);
+  const withVariance = counted.filter((l: any) => l.variance !== 0 || l.missingUnitCodes.length || l.foundUnitCodes.length);
+
+  return {
+    id: session.id,
+    number: session.number,
+    status: session.status,
+    title: session.title,
+    notes: session.notes,
+    warehouse: session.warehouse,
+    category: session.category ?? null,
+    createdBy: session.createdBy ?? null,
+    submittedBy: session.submittedBy ?? null,
+    approvedBy: session.approvedBy ?? null,
+    createdAt: iso(session.createdAt),
+    submittedAt: iso(session.submittedAt),
+    approvedAt: iso(session.approvedAt),
+    cancelledAt: iso(session.cancelledAt),
+    summary: {
+      lineCount: lines.length,
+      countedLineCount: counted.length,
+      varianceLineCount: withVariance.length,
+      shortage: counted.reduce((sum: number, l: any) => sum + Math.min(0, l.variance ?? 0), 0),
+      surplus: counted.reduce((sum: number, l: any) => sum + Math.max(0, l.variance ?? 0), 0),
+    },
+    lines,
+  };
+}
+
+export async function getStocktakeSession(tenantId: string, id: string) {
+  const session = await (prisma as any).stocktakeSession.findFirst({
+    where: { id, tenantId },
+    include: stocktakeSessionInclude,
+  });
+  return session ? serializeStocktakeSession(session) : null;
+}
+
+async function createStocktakeSessionTx(
+  tx: Prisma.TransactionClient,
+  args: {
+    tenantId: string;
+    year: number;
+    warehouseId: string;
+    categoryId: string | null;
+    title: string | null;
+    notes: string | null;
+    createdByUserId: string | null;
+  }
+) {
+  const txAny = tx as any;
+  const { tenantId, warehouseId, categoryId } = args;
+
+  const maxSeq = await txAny.stocktakeSession.aggregate({
+    where: { tenantId, year: args.year },
+    _max: { seq: true },
+  });
+  const seq = (maxSeq._max.seq ?? 0) + 1;
+
+  const session = await txAny.stocktakeSession.create({
+    data: {
+      tenantId,
+      year: args.year,
+      seq,
+      number: formatStocktakeNumber(args.year, seq),
+      warehouseId,
+      categoryId,
+      title: args.title,
+      notes: args.notes,
+      createdByUserId: args.createdByUserId,
+    },
+    select: { id: true },
+  });
+
+  const productWhere = { tenantId, ...(categoryId ? { categoryId } : {}) };
+  const unitWhere = await unitWarehouseWhere(tx, tenantId, warehouseId);
+
+  const [balances, inStockUnits, trackedProducts] = await Promise.all([
+    txAny.productStock.findMany({
+      where: { warehouseId, product: productWhere },
+      select: { productId: true, quantity: true },
+    }),
+    txAny.productUnit.findMany({
+      where: { tenantId, status: "IN_STOCK", ...unitWhere, product: productWhere },
+      select: { id: true, productId: true },
+    }),
+    txAny.productUnit.groupBy({
+      by: ["productId"],
+      where: { tenantId, product: productWhere },
+    }),
+  ]);
+
+  const tracked = new Set<string>(trackedProducts.map((row: any) => row.productId));
+  const expected = new Map<string, number>();
+  for (const row of balances) {
+    if (!tracked.has(row.productId)) expected.set(row.productId, Number(row.quantity));
+  }
+  for (const productId of tracked) {
+    expected.set(productId, 0);
+  }
+  for (const unit of inStockUnits) {
+    expected.set(unit.productId, (expected.get(unit.productId) ?? 0) + 1);
+  }
+  // A tracked product with no units here and no balance row is not part of this location.
+  const balanceProducts = new Set<string>(balances.map((row: any) => row.productId));
+  for (const productId of tracked) {
+    if (!expected.get(productId) && !balanceProducts.has(productId)) expected.delete(productId);
+  }
+
+  if (expected.size) {
+    await txAny.stocktakeLine.createMany({
+      data: Array.from(expected.entries()).map(([productId, quantity]) => ({
+        tenantId,
+        sessionId: session.id,
+        productId,
+        tracksUnits: tracked.has(productId),
+        expectedQuantity: quantity,
+      })),
+    });
+  }
+  if (inStockUnits.length) {
+    await txAny.stocktakeUnit.createMany({
+      data: inStockUnits.map((unit: any) => ({
+        tenantId,
+        sessionId: session.id,
+        unitId: unit.id,
+        expected: true,
+      })),
+    });
+  }
+
+  return session.id as string;
+}
+
+/**
+ * Opens a count session for one warehouse (default when omitted), optionally limited to a
+ * category, snapshotting expected balances and in-stock units. Numbers are allocated per
+ * tenant and year and retried on a numbering race, like purchase orders.
+ */
+export async function createStocktakeSession(
+  tenantId: string,
+  input: { warehouseId?: string | null; categoryId?: string | null; title?: string | null; notes?: string | null },
+  opts?: { createdByUserId?: string | null }
+) {
+  if (input.categoryId) {
+    const category = await prisma.category.findFirst({ where: { id: input.categoryId, tenantId }, select: { id: true } });
+    if (!category) {
+      throw Object.assign(new Error("Categoria inválida"), { code: "INVALID_CATEGORY" });
+    }
+  }
+
+  const year = new Date().getFullYear();
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    try {
+      const id = await prisma.$transaction(async (tx) => {
+        const warehouse = await resolveWarehouse(tx, tenantId, input.warehouseId);
+        const open = await (tx as any).stocktakeSession.findFirst({
+          where: { tenantId, warehouseId: warehouse.id, status: { in: ["OPEN", "SUBMITTED"] } },
+          select: { number: true, categoryId: true },
+        });
+        // Overlapping counts of the same stock would post the same variance twice.
+        if (open && (!open.categoryId || !input.categoryId || open.categoryId === input.categoryId)) {
+          throw Object.assign(new Error(`Já existe um inventário em curso neste armazém (${open.number})`), {
+            code: "STOCKTAKE_ALREADY_OPEN",
+          });
+        }
+
+        return createStocktakeSessionTx(tx, {
+          tenantId,
+          year,
+          warehouseId: warehouse.id,
+          categoryId: input.categoryId ?? null,
+          title: input.title ?? null,
+          notes: input.notes ?? null,
+          createdByUserId: opts?.createdByUserId ?? null,
+        });
+      });
+      return (await getStocktakeSession(tenantId, id))!;
+    } catch (error: any) {
+      // P2002 = Unique constraint violation (race on seq or number)
+      if (error?.code === "P2002" && attempt < 4) {
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  throw new Error("Failed to allocate stocktake number");
+}
+
+async function loadOpenSessionTx(tx: any, tenantId: string, sessionId: string) {
+  const session = await tx.stocktakeSession.findFirst({
+    where: { id: sessionId, tenantId },
+    select: { id: true, status: true, warehouseId: true, categoryId: true },
+  });
+  if (!session) {
+    throw Object.assign(new Error("Inventário não encontrado"), { code: "STOCKTAKE_NOT_FOUND" });
+  }
+  if (session.status !== "OPEN") {
+    throw Object.assign(new Error("O inventário não está aberto para contagem"), { code: "STOCKTAKE_NOT_OPEN" });
+  }
+  return session;
+}
+
+async function ensureStocktakeLineTx(
+  tx: any,
+  session: { id: string; warehouseId: string },
+  args: { tenantId: string; productId: string; tracksUnits: boolean }
+) {
+  const existing = await tx.stocktakeLine.findUnique({
+    where: { sessionId_productId: { sessionId: session.id, productId: args.productId } },
+    select: { id: true, tracksUnits: true },
+  });
+  if (existing) return existing;
+
+  // Products found during the count were not in the snapshot; expect their current balance here.
+  const balance = await tx.productStock.findUnique({
+    where: { productId_warehouseId: { productId: args.productId, warehouseId: session.warehouseId } },
+    select: { quantity: true },
+  });
+  return tx.stocktakeLine.create({
+    data: {
+      tenantId: args.tenantId,
+      sessionId: session.id,
+      productId: args.productId,
+      tracksUnits: args.tracksUnits,
+      expectedQuantity: args.tracksUnits ? 0 : Number(balance?.quantity ?? 0),
+    },
+    select: { id: true, tracksUnits: true },
+  });
+}
+
+async function refreshUnitLineCountTx(
+  tx: any,
+  args: { sessionId: string; productId: string; countedByUserId: string | null }
+) {
+  const counted = await tx.stocktakeUnit.count({
+    where: { sessionId: args.sessionId, counted: true, unit: { productId: args.productId } },
+  });
+  await tx.stocktakeLine.update({
+    where: { sessionId_productId: { sessionId: args.sessionId, productId: args.productId } },
+    data: { countedQuantity: counted, countedAt: new Date(), countedByUserId: args.countedByUserId },
+  });
+}
+
+/**
+ * Records scans (unit codes) and keyed bulk quantities against an OPEN session. Keyed quantities
+ * replace the previous count for the product; unit scans are idempotent and `counted: false`
+ * undoes a mistaken scan.
+ */
+export async function recordStocktakeCounts(
+  tenantId: string,
+  sessionId: string,
+  entries: StocktakeCountEntry[],
+  opts: { countedByUserId: string | null }
+) {
+  await prisma.$transaction(async (tx) => {
+    const txAny = tx as any;
+    const session = await loadOpenSessionTx(txAny, tenantId, sessionId);
+
+    for (const entry of entries) {
+      if ("unitCode" in entry) {
+        const unit = await txAny.productUnit.findFirst({
+          where: { code: entry.unitCode, tenantId },
+          select: { id: true, code: true, status: true, productId: true, product: { select: { categoryId: true } } },
+        });
+        if (!unit) {
+          throw Object.assign(new Error(`Unidade ${entry.unitCode} não encontrada`), { code: "UNIT_NOT_FOUND" });
+        }
+        if (session.categoryId && unit.product.categoryId !== session.categoryId) {
+          throw Object.assign(new Error(`Unidade ${unit.code} fora da categoria deste inventário`), {
+            code: "UNIT_OUT_OF_SCOPE",
+          });
+        }
+        // Assigned, in repair or scrapped units must go through their own flows (return, repair-in).
+        if (entry.counted !== false && unit.status !== "IN_STOCK" && unit.status !== "LOST") {
+          throw Object.assign(new Error(`Unidade ${unit.code} não está em stock (${unit.status})`), {
+            code: "UNIT_NOT_COUNTABLE",
+          });
+        }
+
+        await ensureStocktakeLineTx(txAny, session, { tenantId, productId: unit.productId, tracksUnits: true });
+        const counted = entry.counted !== false;
+        await txAny.stocktakeUnit.upsert({
+          where: { sessionId_unitId: { sessionId: session.id, unitId: unit.id } },
+          update: {
+            counted,
+            countedAt: counted ? new Date() : null,
+            countedByUserId: counted ? opts.countedByUserId : null,
+          },
+          create: {
+            tenantId,
+            sessionId: session.id,
+            unitId: unit.id,
+            expected: false,
+            counted,
+            countedAt: counted ? new Date() : null,
+            countedByUserId: counted ? opts.countedByUserId : null,
+          },
+        });
+        await refreshUnitLineCountTx(txAny, {
+          sessionId: session.id,
+          productId: unit.productId,
+          countedByUserId: opts.countedByUserId,
+        });
+        continue;
+      }
+
+      const product = await txAny.product.findFirst({
+        where: { id: entry.productId, tenantId },
+        select: { id: true, categoryId: true, _count: { select: { units: true } } },
+      });
+      if (!product) {
+        throw Object.assign(new Error("Produto inválido"), { code: "INVALID_PRODUCT" });
+      }
+      if (session.categoryId && product.categoryId !== session.categoryId) {
+        throw Object.assign(new Error("Produto fora da categoria deste inventário"), { code: "PRODUCT_OUT_OF_SCOPE" });
+      }
+
+      const line = await ensureStocktakeLineTx(txAny, session, {
+        tenantId,
+        productId: product.id,
+        tracksUnits: product._count.units > 0,
+      });
+      if (line.tracksUnits) {
+        throw Object.assign(new Error("Este produto tem unidades identificadas: conte-as por leitura do código"), {
+          code: "STOCKTAKE_LINE_TRACKS_UNITS",
+        });
+      }
+      await txAny.stocktakeLine.update({
+        where: { id: line.id },
+        data: {
+          countedQuantity: entry.quantity,
+          notes: entry.notes ?? undefined,
+          countedAt: new Date(),
+          countedByUserId: opts.countedByUserId,
+        },
+      });
+    }
+  });
+
+  return (await getStocktakeSession(tenantId, sessionId))!;
+}
+
+/**
+ * OPEN -> SUBMITTED (every bulk line counted), SUBMITTED -> OPEN, and cancellation of either.
+ * Unit-tracked lines count as zero when nothing was scanned.
+ */
+export async function transitionStocktakeSession(
+  tenantId: string,
+  sessionId: string,
+  action: "SUBMIT" | "REOPEN" | "CANCEL",
+  opts: { userId: string | null }
+) {
+  await prisma.$transaction(async (tx) => {
+    const txAny = tx as any;
+    const session = await txAny.stocktakeSession.findFirst({
+      where: { id: sessionId, tenantId },
+      select: { id: true, status: true },
+    });
+    if (!session) {
+      throw Object.assign(new Error("Inventário não encontrado"), { code: "STOCKTAKE_NOT_FOUND" });
+    }
+
+    const allowed: Record<typeof action, string[]> = {
+      SUBMIT: ["OPEN"],
+      REOPEN: ["SUBMITTED"],
+      CANCEL: ["OPEN", "SUBMITTED"],
+    };
+    if (!allowed[action].includes(session.status)) {
+      throw Object.assign(new Error(`Transição inválida a partir de ${session.status}`), {
+        code: "INVALID_STOCKTAKE_TRANSITION",
+      });
+    }
+
+    if (action === "SUBMIT") {
+      const uncounted = await txAny.stocktakeLine.count({
+        where: { sessionId, tracksUnits: false, countedQuantity: null },
+      });
+      if (uncounted > 0) {
+        throw Object.assign(new Error(`${uncounted} produto(s) ainda sem contagem`), { code: "STOCKTAKE_INCOMPLETE" });
+      }
+      await txAny.stocktakeLine.updateMany({
+        where: { sessionId, tracksUnits: true, countedQuantity: null },
+        data: { countedQuantity: 0 },
+      });
+      await txAny.stocktakeSession.update({
+        where: { id: sessionId },
+        data: { status: "SUBMITTED", submittedAt: new Date(), submittedByUserId: opts.userId },
+      });
+      return;
+    }
+
+    if (action === "REOPEN") {
+      await txAny.stocktakeSession.update({
+        where: { id: sessionId },
+        data: { status: "OPEN", submittedAt: null, submittedByUserId: null },
+      });
+      return;
+    }
+
+    await txAny.stocktakeSession.update({
+      where: { id: sessionId },
+      data: { status: "CANCELLED", cancelledAt: new Date() },
+    });
+  });
+
+  return (await getStocktakeSession(tenantId, sessionId))!;
+}
+
+/**
+ * Posts the variances of a SUBMITTED session as ADJUSTMENT movements and marks it APPROVED.
+ * Bulk lines adjust the warehouse balance by counted - expected, so movements recorded while the
+ * count was running are preserved. A shortage comes out of the lots (FEFO); a surplus cannot be
+ * traced to a lot and is added as unlotted stock. Missing units become LOST; found units come
+ * back IN_STOCK here (or are relocated when the system had them in another warehouse). Units that
+ * left stock through another flow since the snapshot are left alone.
+ */
+export async function approveStocktakeSession(
+  tenantId: string,
+  sessionId: string,
+  opts: { approvedByUserId: string | null }
+) {
+  const outbox: NotificationOutbox = [];
+  const result = await prisma.$transaction(async (tx) => {
+    const txAny = tx as any;
+    const claimed = await txAny.stocktakeSession.updateMany({
+      where: { id: sessionId, tenantId, status: "SUBMITTED" },
+      data: { status: "APPROVED", approvedAt: new Date(), approvedByUserId: opts.approvedByUserId },
+    });
+    if (claimed.count !== 1) {
+      const exists = await txAny.stocktakeSession.findFirst({ where: { id: sessionId, tenantId }, select: { id: true } });
+      throw exists
+        ? Object.assign(new Error("Só inventários submetidos podem ser aprovados"), { code: "INVALID_STOCKTAKE_TRANSITION" })
+        : Object.assign(new Error("Inventário não encontrado"), { code: "STOCKTAKE_NOT_FOUND" });
+    }
+
+    const session = await txAny.stocktakeSession.findUnique({
+      where: { id: sessionId },
+      select: {
+        id: true,
+        number: true,
+        warehouseId: true,
+        lines: { select: { id: true, productId: true, tracksUnits: true, expectedQuantity: true, countedQuantity: true } },
+        units: {
+          where: { OR: [{ expected: true, counted: false }, { expected: false, counted: true }] },
+          select: {
+            expected: true,
+            unit: { select: { id: true, code: true, status: true, productId: true, warehouseId: true, invoiceId: true } },
+          },
+        },
+      },
+    });
+
+    const defaultWarehouse = await ensureDefaultWarehouse(tx, tenantId);
+    const unitWarehouseId = (warehouseId: string | null) => warehouseId ?? defaultWarehouse.id;
+
+    const baseMovement = {
+      tenantId,
+      stocktakeSessionId: session.id,
+      performedByUserId: opts.approvedByUserId,
+      reason: `Inventário ${session.number}`,
+    };
+    const netByProduct = new Map<string, number>();
+    const touched = new Set<string>();
+    let movementCount = 0;
+
+    const adjust = async (args: {
+      productId: string;
+      warehouseId: string;
+      delta: number;
+      unitId?: string;
+      invoiceId?: string | null;
+      lotId?: string | null;
+      notes?: string;
+      affectsTotal: boolean;
+    }) => {
+      await applyWarehouseStockDeltaTx(tx, {
+        tenantId,
+        productId: args.productId,
+        warehouseId: args.warehouseId,
+        delta: args.delta,
+      });
+      if (args.affectsTotal) {
+        await tx.product.update({
+          where: { id: args.productId },
+          data: { quantity: { increment: BigInt(args.delta) as any } },
+          select: { id: true },
+        });
+      }
+      await txAny.stockMovement.create({
+        data: {
+          ...baseMovement,
+          type: "ADJUSTMENT",
+          quantity: BigInt(args.delta) as any,
+          productId: args.productId,
+          unitId: args.unitId ?? null,
+          invoiceId: args.invoiceId ?? null,
+          lotId: args.lotId ?? null,
+          warehouseId: args.warehouseId,
+          notes: args.notes ?? null,
+        },
+        select: { id: true },
+      });
+      if (args.warehouseId === session.warehouseId) {
+        netByProduct.set(args.productId, (netByProduct.get(args.productId) ?? 0) + args.delta);
+      }
+      touched.add(args.productId);
+      movementCount += 1;
+    };
+
+    for (const line of session.lines) {
+      if (line.tracksUnits) continue;
+      const delta = (line.countedQuantity ?? line.expectedQuantity) - line.expectedQuantity;
+      if (delta === 0) continue;
+      if (delta > 0) {
+        await adjust({ productId: line.productId, warehouseId: session.warehouseId, delta, affectsTotal: true });
+        continue;
+      }
+      // A shortage is taken out of the lots first-expiry-first-out, expired lots included since
+      // they are still on the shelf.
+      const allocations = await allocateLotsFefoTx(tx, {
+        tenantId,
+        productId: line.productId,
+        warehouseId: session.warehouseId,
+        quantity: -delta,
+        includeExpired: true,
+      });
+      for (const allocation of allocations) {
+        await adjust({
+          productId: line.productId,
+          warehouseId: session.warehouseId,
+          delta: -allocation.quantity,
+          lotId: allocation.lotId,
+          notes: allocation.lotNumber ? `Lote ${allocation.lotNumber}` : undefined,
+          affectsTotal: true,
+        });
+      }
+    }
+
+    for (const row of session.units) {
+      const unit = row.unit;
+      if (row.expected) {
+        // Missing: only if the unit is still in stock where it was counted.
+        if (unit.status !== "IN_STOCK" || unitWarehouseId(unit.warehouseId) !== session.warehouseId) continue;
+        await txAny.productUnit.update({ where: { id: unit.id }, data: { status: "LOST", assignedToUserId: null } });
+        await adjust({
+          productId: unit.productId,
+          warehouseId: session.warehouseId,
+          delta: -1,
+          unitId: unit.id,
+          invoiceId: unit.invoiceId,
+          notes: `Unidade ${unit.code} não encontrada na contagem`,
+          affectsTotal: true,
+        });
+        continue;
+      }
+
+      if (unit.status === "LOST") {
+        await txAny.productUnit.update({
+          where: { id: unit.id },
+          data: { status: "IN_STOCK", warehouseId: session.warehouseId, binId: null },
+        });
+        await adjust({
+          productId: unit.productId,
+          warehouseId: session.warehouseId,
+          delta: 1,
+          unitId: unit.id,
+          invoiceId: unit.invoiceId,
+          notes: `Unidade ${unit.code} encontrada na contagem`,
+          affectsTotal: true,
+        });
+        continue;
+      }
+
+      const fromWarehouseId = unitWarehouseId(unit.warehouseId);
+      if (unit.status !== "IN_STOCK" || fromWarehouseId === session.warehouseId) continue;
+      await txAny.productUnit.update({
+        where: { id: unit.id },
+        data: { warehouseId: session.warehouseId, binId: null },
+      });
+      await adjust({
+        productId: unit.productId,
+        warehouseId: fromWarehouseId,
+        delta: -1,
+        unitId: unit.id,
+        invoiceId: unit.invoiceId,
+        notes: `Unidade ${unit.code} encontrada noutro armazém`,
+        affectsTotal: false,
+      });
+      await adjust({
+        productId: unit.productId,
+        warehouseId: session.warehouseId,
+        delta: 1,
+        unitId: unit.id,
+        invoiceId: unit.invoiceId,
+        notes: `Unidade ${unit.code} encontrada na contagem`,
+        affectsTotal: false,
+      });
+    }
+
+    for (const line of session.lines) {
+      await txAny.stocktakeLine.update({
+        where: { id: line.id },
+        data: { adjustedQuantity: netByProduct.get(line.productId) ?? 0 },
+      });
+    }
+    for (const productId of touched) {
+      await refreshProductStockStatusTx(tx, { tenantId, productId, outbox });
+    }
+
+    return {
+      number: session.number as string,
+      movementCount,
+      adjustments: Array.from(netByProduct.entries())
+        .filter(([, delta]) => delta !== 0)
+        .map(([productId, delta]) => ({ productId, delta })),
+    };
+  });
+  await publishNotifications(outbox);
+
+  return { ...result, session: (await getStocktakeSession(tenantId, sessionId))! };
+}
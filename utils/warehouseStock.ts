@@ -0,0 +1,134 @@
+import { computeProductStatus, resolveStockLevels, stockLevelSelect } from "@/utils/stockLevels";
+
+const DEFAULT_WAREHOUSE_CODE = "CENTRAL";
+const DEFAULT_WAREHOUSE_NAME = "Armazém Central";
+
+export async function ensureDefaultWarehouse(tx: any, tenantId: string) {
+  const txAny = tx as any;
+  const existing = await txAny.warehouse.findFirst({
+    where: { tenantId, isDefault: true },
+    select: { id: true, code: true, name: true },
+  });
+  if (existing) return existing;
+
+  return txAny.warehouse.upsert({
+    where: { tenantId_code: { tenantId, code: DEFAULT_WAREHOUSE_CODE } },
+    update: { isDefault: true },
+    create: {
+      tenantId,
+      code: DEFAULT_WAREHOUSE_CODE,
+      name: DEFAULT_WAREHOUSE_NAME,
+      isDefault: true,
+    },
+    select: { id: true, code: true, name: true },
+  });
+}
+
+// Resolves the warehouse a stock operation applies to. Without an explicit id the tenant default is used,
+// so callers that predate multi-warehouse keep working against the central armazém.
+export async function resolveWarehouse(tx: any, tenantId: string, warehouseId?: string | null) {
+  if (!warehouseId) return ensureDefaultWarehouse(tx, tenantId);
+
+  const warehouse = await (tx as any).warehouse.findFirst({
+    where: { id: warehouseId, tenantId, isActive: true },
+    select: { id: true, code: true, name: true },
+  });
+  if (!warehouse) {
+    throw Object.assign(new Error("Armazém inválido"), { code: "INVALID_WAREHOUSE" });
+  }
+  return warehouse;
+}
+
+export async function resolveWarehouseBin(tx: any, tenantId: string, warehouseId: string, binId?: string | null) {
+  if (!binId) return null;
+
+  const bin = await (tx as any).warehouseBin.findFirst({
+    where: { id: binId, tenantId, warehouseId, isActive: true },
+    select: { id: true, code: true },
+  });
+  if (!bin) {
+    throw Object.assign(new Error("Localização inválida para o armazém"), { code: "INVALID_BIN" });
+  }
+  return bin;
+}
+
+export async function getWarehouseStockQuantity(tx: any, args: { productId: string; warehouseId: string }) {
+  const row = await (tx as any).productStock.findUnique({
+    where: { productId_warehouseId: { productId: args.productId, warehouseId: args.warehouseId } },
+    select: { quantity: true },
+  });
+  return Number(row?.quantity ?? 0);
+}
+
+/**
+ * Applies a quantity delta to the per-warehouse balance of a product and refreshes its
+ * location status against the same reorder point as Product.status. Product.quantity is the
+ * tenant-wide total and is still updated by callers.
+ */
+export async function applyWarehouseStockDeltaTx(
+  tx: any,
+  args: {
+    tenantId: string;
+    productId: string;
+    warehouseId?: string | null;
+    delta: number;
+  }
+) {
+  const txAny = tx as any;
+  const warehouse = await resolveWarehouse(tx, args.tenantId, args.warehouseId);
+  const product = await txAny.product.findFirst({
+    where: { id: args.productId, tenantId: args.tenantId },
+    select: stockLevelSelect,
+  });
+  const { reorderPoint } = resolveStockLevels(product);
+
+  const row = await txAny.productStock.upsert({
+    where: { productId_warehouseId: { productId: args.productId, warehouseId: warehouse.id } },
+    update: { quantity: { increment: BigInt(args.delta) as any } },
+    create: {
+      tenantId: args.tenantId,
+      productId: args.productId,
+      warehouseId: warehouse.id,
+      quantity: BigInt(args.delta) as any,
+      status: computeProductStatus(args.delta, reorderPoint),
+    },
+    select: { id: true, quantity: true },
+  });
+
+  const quantity = Number(row.quantity);
+  if (quantity < 0) {
+    throw Object.assign(new Error(`Stock insuficiente no armazém ${warehouse.name}`), {
+      code: "INSUFFICIENT_WAREHOUSE_STOCK",
+    });
+  }
+
+  const status = computeProductStatus(quantity, reorderPoint);
+  await txAny.productStock.update({ where: { id: row.id }, data: { status } });
+
+  return { warehouseId: warehouse.id as string, quantity, status };
+}
+
+// Keeps the default warehouse aligned when the aggregate Product.quantity is edited directly
+// (product create/edit dialogs), so per-location balances still add up to the total.
+export async function syncDefaultWarehouseToTotalTx(
+  tx: any,
+  args: { tenantId: string; productId: string; totalQuantity: number }
+) {
+  const txAny = tx as any;
+  const defaultWarehouse = await ensureDefaultWarehouse(tx, args.tenantId);
+  const others = await txAny.productStock.aggregate({
+    where: { productId: args.productId, warehouseId: { not: defaultWarehouse.id } },
+    _sum: { quantity: true },
+  });
+  const elsewhere = Number(others?._sum?.quantity ?? 0);
+  const current = await getWarehouseStockQuantity(tx, { productId: args.productId, warehouseId: defaultWarehouse.id });
+  const target = Math.max(0, args.totalQuantity - elsewhere);
+  if (target === current) return;
+
+  await applyWarehouseStockDeltaTx(tx, {
+    tenantId: args.tenantId,
+    productId: args.productId,
+    warehouseId: defaultWarehouse.id,
+    delta: target - current,
+  });
+}
@@ -1,44 +1,144 @@
-import { PrismaClient, RequestStatus } from "@prisma/client";
-
-const REQUEST_WORKFLOW_KEY = "REQUEST_STANDARD";
-
-const REQUEST_STATES = [
-  { code: "DRAFT", name: "Rascunho", sortOrder: 5, isInitial: true, isTerminal: false, requestStatus: "DRAFT" as RequestStatus },
-  { code: "SUBMITTED", name: "Submetida", sortOrder: 10, isInitial: false, isTerminal: false, requestStatus: "SUBMITTED" as RequestStatus },
-  { code: "AWAITING_ADMIN_APPROVAL", name: "Aguarda aprovação final", sortOrder: 15, isInitial: false, isTerminal: false, requestStatus: "SUBMITTED" as RequestStatus },
-  { code: "APPROVED", name: "Aprovada", sortOrder: 20, isInitial: false, isTerminal: false, requestStatus: "APPROVED" as RequestStatus },
-  { code: "REJECTED", name: "Rejeitada", sortOrder: 30, isInitial: false, isTerminal: true, requestStatus: "REJECTED" as RequestStatus },
-  { code: "FULFILLED", name: "Cumprida", sortOrder: 40, isInitial: false, isTerminal: true, requestStatus: "FULFILLED" as RequestStatus },
-];
-
-const REQUEST_TRANSITIONS = [
-  { from: "DRAFT", to: "SUBMITTED", action: "SUBMIT", requiredPermission: null },
-
-  // Department/Service decision (CHEFIA)
-  { from: "SUBMITTED", to: "AWAITING_ADMIN_APPROVAL", action: "APPROVE", requiredPermission: "requests.approve" },
-  { from: "SUBMITTED", to: "REJECTED", action: "REJECT", requiredPermission: "requests.reject" },
-
-  // Final decision (ADMIN)
-  { from: "AWAITING_ADMIN_APPROVAL", to: "APPROVED", action: "APPROVE", requiredPermission: "requests.final_approve" },
-  { from: "AWAITING_ADMIN_APPROVAL", to: "REJECTED", action: "REJECT", requiredPermission: "requests.final_reject" },
-
-  // Presidency override (dispatch decision)
-  { from: "SUBMITTED", to: "APPROVED", action: "PRESIDENCY_APPROVE", requiredPermission: "presidency.approve" },
-  { from: "SUBMITTED", to: "REJECTED", action: "PRESIDENCY_REJECT", requiredPermission: "presidency.approve" },
-  { from: "AWAITING_ADMIN_APPROVAL", to: "APPROVED", action: "PRESIDENCY_APPROVE", requiredPermission: "presidency.approve" },
-  { from: "AWAITING_ADMIN_APPROVAL", to: "REJECTED", action: "PRESIDENCY_REJECT", requiredPermission: "presidency.approve" },
-
-  { from: "APPROVED", to: "FULFILLED", action: "FULFILL", requiredPermission: "requests.pickup_sign" },
-  { from: "APPROVED", to: "REJECTED", action: "REJECT", requiredPermission: "requests.final_reject" },
-] as const;
+import { FinanceProcessStatus, MunicipalAssetStatus, PrismaClient, RequestStatus } from "@prisma/client";
+import { recordWorkflowEvent } from "@/utils/auditLog";
+import { evaluateWorkflowGuard, loadRequestGuardContext, workflowGuardSchema, type RequestGuardContext } from "@/utils/workflowGuards";
+import { loadWorkflowQuorumStatus, resolveWorkflowQuorum } from "@/utils/workflowQuorum";
+
+export type WorkflowTargetKind = "REQUEST" | "MUNICIPAL_ASSET" | "FINANCE_PROCESS";
+
+export type WorkflowTarget = { type: WorkflowTargetKind; id: string };
+
+type BuiltInState = {
+  code: string;
+  name: string;
+  sortOrder: number;
+  isInitial: boolean;
+  isTerminal: boolean;
+  requestStatus?: RequestStatus;
+  // Status written to the asset / finance process when the state is entered.
+  targetStatus?: string;
+};
+
+type BuiltInTransition = { from: string; to: string; action: string; requiredPermission: string | null };
+
+type BuiltInWorkflow = {
+  key: string;
+  name: string;
+  states: BuiltInState[];
+  transitions: BuiltInTransition[];
+};
+
+const REQUEST_WORKFLOW: BuiltInWorkflow = {
+  key: "REQUEST_STANDARD",
+  name: "Workflow Requisição Padrão",
+  states: [
+    { code: "DRAFT", name: "Rascunho", sortOrder: 5, isInitial: true, isTerminal: false, requestStatus: "DRAFT" },
+    { code: "SUBMITTED", name: "Submetida", sortOrder: 10, isInitial: false, isTerminal: false, requestStatus: "SUBMITTED" },
+    { code: "AWAITING_ADMIN_APPROVAL", name: "Aguarda aprovação final", sortOrder: 15, isInitial: false, isTerminal: false, requestStatus: "SUBMITTED" },
+    { code: "APPROVED", name: "Aprovada", sortOrder: 20, isInitial: false, isTerminal: false, requestStatus: "APPROVED" },
+    { code: "REJECTED", name: "Rejeitada", sortOrder: 30, isInitial: false, isTerminal: true, requestStatus: "REJECTED" },
+    { code: "FULFILLED", name: "Cumprida", sortOrder: 40, isInitial: false, isTerminal: true, requestStatus: "FULFILLED" },
+  ],
+  transitions: [
+    { from: "DRAFT", to: "SUBMITTED", action: "SUBMIT", requiredPermission: null },
+
+    // Department/Service decision (CHEFIA)
+    { from: "SUBMITTED", to: "AWAITING_ADMIN_APPROVAL", action: "APPROVE", requiredPermission: "requests.approve" },
+    { from: "SUBMITTED", to: "REJECTED", action: "REJECT", requiredPermission: "requests.reject" },
+
+    // Final decision (ADMIN)
+    { from: "AWAITING_ADMIN_APPROVAL", to: "APPROVED", action: "APPROVE", requiredPermission: "requests.final_approve" },
+    { from: "AWAITING_ADMIN_APPROVAL", to: "REJECTED", action: "REJECT", requiredPermission: "requests.final_reject" },
+
+    // Presidency override (dispatch decision)
+    { from: "SUBMITTED", to: "APPROVED", action: "PRESIDENCY_APPROVE", requiredPermission: "presidency.approve" },
+    { from: "SUBMITTED", to: "REJECTED", action: "PRESIDENCY_REJECT", requiredPermission: "presidency.approve" },
+    { from: "AWAITING_ADMIN_APPROVAL", to: "APPROVED", action: "PRESIDENCY_APPROVE", requiredPermission: "presidency.approve" },
+    { from: "AWAITING_ADMIN_APPROVAL", to: "REJECTED", action: "PRESIDENCY_REJECT", requiredPermission: "presidency.approve" },
+
+    { from: "APPROVED", to: "FULFILLED", action: "FULFILL", requiredPermission: "requests.pickup_sign" },
+    { from: "APPROVED", to: "REJECTED", action: "REJECT", requiredPermission: "requests.final_reject" },
+  ],
+};
+
+// Disposal lifecycle of a municipal asset. A rejected disposal returns the asset to service, so a
+// new process can be opened later on the same instance.
+const MUNICIPAL_ASSET_WORKFLOW: BuiltInWorkflow = {
+  key: "MUNICIPAL_ASSET_DISPOSAL",
+  name: "Workflow Abate de Património",
+  states: [
+    { code: "IN_SERVICE", name: "Em serviço", sortOrder: 5, isInitial: true, isTerminal: false, targetStatus: "IN_SERVICE" },
+    { code: "DISPOSAL_UNDER_REVIEW", name: "Abate em análise", sortOrder: 10, isInitial: false, isTerminal: false, targetStatus: "TO_DISPOSE" },
+    { code: "DISPOSAL_APPROVED", name: "Abate aprovado", sortOrder: 20, isInitial: false, isTerminal: false, targetStatus: "TO_DISPOSE" },
+    { code: "DISPOSED", name: "Abatido", sortOrder: 30, isInitial: false, isTerminal: true, targetStatus: "DISPOSED" },
+  ],
+  transitions: [
+    { from: "IN_SERVICE", to: "DISPOSAL_UNDER_REVIEW", action: "OPEN_DISPOSAL", requiredPermission: "assets.dispose" },
+    { from: "DISPOSAL_UNDER_REVIEW", to: "DISPOSAL_APPROVED", action: "APPROVE_DISPOSAL", requiredPermission: "assets.dispose" },
+    { from: "DISPOSAL_UNDER_REVIEW", to: "IN_SERVICE", action: "REJECT_DISPOSAL", requiredPermission: "assets.dispose" },
+    { from: "DISPOSAL_APPROVED", to: "IN_SERVICE", action: "REJECT_DISPOSAL", requiredPermission: "assets.dispose" },
+    { from: "DISPOSAL_APPROVED", to: "DISPOSED", action: "COMPLETE_DISPOSAL", requiredPermission: "assets.dispose" },
+  ],
+};
+
+const FINANCE_PROCESS_WORKFLOW: BuiltInWorkflow = {
+  key: "FINANCE_PROCESS_STANDARD",
+  name: "Workflow Processo Financeiro",
+  states: [
+    { code: "DRAFT", name: "Rascunho", sortOrder: 5, isInitial: true, isTerminal: false, targetStatus: "DRAFT" },
+    { code: "CABIMENTO", name: "Cabimento", sortOrder: 10, isInitial: false, isTerminal: false, targetStatus: "CABIMENTO" },
+    { code: "COMPROMISSO", name: "Compromisso", sortOrder: 20, isInitial: false, isTerminal: false, targetStatus: "COMPROMISSO" },
+    { code: "APPROVED", name: "Aprovado", sortOrder: 30, isInitial: false, isTerminal: false, targetStatus: "APPROVED" },
+    { code: "PAYMENT_AUTHORIZED", name: "Pagamento autorizado", sortOrder: 40, isInitial: false, isTerminal: false, targetStatus: "PAYMENT_AUTHORIZED" },
+    { code: "PAID", name: "Pago", sortOrder: 50, isInitial: false, isTerminal: true, targetStatus: "PAID" },
+    { code: "REJECTED", name: "Rejeitado", sortOrder: 60, isInitial: false, isTerminal: true, targetStatus: "REJECTED" },
+  ],
+  transitions: [
+    { from: "DRAFT", to: "CABIMENTO", action: "REGISTER_CABIMENTO", requiredPermission: "finance.manage" },
+    { from: "CABIMENTO", to: "COMPROMISSO", action: "REGISTER_COMPROMISSO", requiredPermission: "finance.manage" },
+    { from: "CABIMENTO", to: "DRAFT", action: "REOPEN", requiredPermission: "finance.manage" },
+    { from: "COMPROMISSO", to: "APPROVED", action: "APPROVE", requiredPermission: "finance.manage" },
+    { from: "COMPROMISSO", to: "CABIMENTO", action: "REOPEN", requiredPermission: "finance.manage" },
+    { from: "APPROVED", to: "PAYMENT_AUTHORIZED", action: "AUTHORIZE_PAYMENT", requiredPermission: "finance.manage" },
+    { from: "PAYMENT_AUTHORIZED", to: "PAID", action: "PAY", requiredPermission: "finance.manage" },
+    { from: "DRAFT", to: "REJECTED", action: "REJECT", requiredPermission: "finance.manage" },
+    { from: "CABIMENTO", to: "REJECTED", action: "REJECT", requiredPermission: "finance.manage" },
+    { from: "COMPROMISSO", to: "REJECTED", action: "REJECT", requiredPermission: "finance.manage" },
+    { from: "APPROVED", to: "REJECTED", action: "REJECT", requiredPermission: "finance.manage" },
+    { from: "PAYMENT_AUTHORIZED", to: "REJECTED", action: "REJECT", requiredPermission: "finance.manage" },
+  ],
+};
+
+const BUILT_IN_WORKFLOWS: Record<WorkflowTargetKind, BuiltInWorkflow> = {
+  REQUEST: REQUEST_WORKFLOW,
+  MUNICIPAL_ASSET: MUNICIPAL_ASSET_WORKFLOW,
+  FINANCE_PROCESS: FINANCE_PROCESS_WORKFLOW,
+};
+
+// Entity statuses a state may write, per target; the designer validates against these.
+export const WORKFLOW_TARGET_STATUSES: Record<WorkflowTargetKind, string[]> = {
+  REQUEST: Object.values(RequestStatus),
+  MUNICIPAL_ASSET: Object.values(MunicipalAssetStatus),
+  FINANCE_PROCESS: Object.values(FinanceProcessStatus),
+};
+
+const TARGET_FOREIGN_KEY = {
+  REQUEST: "requestId",
+  MUNICIPAL_ASSET: "municipalAssetId",
+  FINANCE_PROCESS: "financeProcessId",
+} as const;
+
+export function workflowKeyForTarget(type: WorkflowTargetKind) {
+  return BUILT_IN_WORKFLOWS[type].key;
+}
 
-export async function ensureRequestWorkflowDefinition(prisma: PrismaClient, tenantId: string) {
+export async function ensureWorkflowDefinition(prisma: PrismaClient, tenantId: string, targetType: WorkflowTargetKind) {
+  const spec = BUILT_IN_WORKFLOWS[targetType];
   const db = prisma as any;
   const existing = await db.workflowDefinition.findFirst({
     where: {
       tenantId,
-      key: REQUEST_WORKFLOW_KEY,
-      targetType: "REQUEST",
+      key: spec.key,
+      targetType,
       isActive: true,
     },
     include: {
@@ -48,6 +148,13 @@ export async function ensureRequestWorkflowDefinition(prisma: PrismaClient, tena
     orderBy: { version: "desc" },
   });
 
+  // Once a tenant publishes its own version in the designer, the built-in graph no longer applies.
+  const designed = await db.workflowDefinition.findFirst({
+    where: { tenantId, key: spec.key, version: { gt: 1 }, publishedAt: { not: null } },
+    select: { id: true },
+  });
+  if (designed) return existing;
+
   return prisma.$transaction(async (tx) => {
     const txAny = tx as any;
 
@@ -56,45 +163,39 @@ export async function ensureRequestWorkflowDefinition(prisma: PrismaClient, tena
       (await txAny.workflowDefinition.create({
         data: {
           tenantId,
-          key: REQUEST_WORKFLOW_KEY,
-          name: "Workflow Requisição Padrão",
-          targetType: "REQUEST",
+          key: spec.key,
+          name: spec.name,
+          targetType,
           version: 1,
           isActive: true,
+          publishedAt: new Date(),
         },
       }));
 
     const workflowId = definition.id;
 
-    for (const state of REQUEST_STATES) {
+    for (const state of spec.states) {
       const existingState = await txAny.workflowStateDefinition.findFirst({
         where: { workflowId, code: state.code },
         select: { id: true },
       });
 
+      const data = {
+        name: state.name,
+        sortOrder: state.sortOrder,
+        isInitial: state.isInitial,
+        isTerminal: state.isTerminal,
+        requestStatus: state.requestStatus ?? null,
+        targetStatus: state.targetStatus ?? null,
+      };
       if (!existingState) {
         await txAny.workflowStateDefinition.create({
-          data: {
-            tenantId,
-            workflowId,
-            code: state.code,
-            name: state.name,
-            sortOrder: state.sortOrder,
-            isInitial: state.isInitial,
-            isTerminal: state.isTerminal,
-            requestStatus: state.requestStatus,
-          },
+          data: { tenantId, workflowId, code: state.code, ...data },
         });
       } else {
         await txAny.workflowStateDefinition.update({
           where: { id: existingState.id },
-          data: {
-            name: state.name,
-            sortOrder: state.sortOrder,
-            isInitial: state.isInitial,
-            isTerminal: state.isTerminal,
-            requestStatus: state.requestStatus,
-          },
+          data,
         });
       }
     }
@@ -105,13 +206,13 @@ export async function ensureRequestWorkflowDefinition(prisma: PrismaClient, tena
     });
     const stateByCode = new Map(states.map((s: any) => [s.code, s.id]));
 
-    for (const transition of REQUEST_TRANSITIONS) {
+    for (const transition of spec.transitions) {
       const fromStateId = stateByCode.get(transition.from);
       const toStateId = stateByCode.get(transition.to);
       if (!fromStateId || !toStateId) continue;
 
       const existingTransition = await txAny.workflowTransitionDefinition.findFirst({
-        where: { workflowId, fromStateId, action: transition.action },
+        where: { workflowId, fromStateId, action: transition.action, priority: 0 },
         select: { id: true },
       });
 
@@ -144,15 +245,53 @@ export async function ensureRequestWorkflowDefinition(prisma: PrismaClient, tena
   });
 }
 
-export async function ensureRequestWorkflowInstance(tx: any, args: {
+export async function ensureRequestWorkflowDefinition(prisma: PrismaClient, tenantId: string) {
+  return ensureWorkflowDefinition(prisma, tenantId, "REQUEST");
+}
+
+async function readTargetStatus(txAny: any, tenantId: string, target: WorkflowTarget): Promise<string | null> {
+  const where = { id: target.id, tenantId };
+  const select = { status: true };
+  const row =
+    target.type === "REQUEST"
+      ? await txAny.request.findFirst({ where, select })
+      : target.type === "MUNICIPAL_ASSET"
+        ? await txAny.municipalAsset.findFirst({ where, select })
+        : await txAny.financeProcess.findFirst({ where, select });
+  return row?.status ?? null;
+}
+
+/** Writes the status a state carries onto the workflow's target entity, if it carries one. */
+export async function applyWorkflowStateToTarget(tx: any, target: WorkflowTarget, state: { requestStatus?: string | null; targetStatus?: string | null }) {
+  const txAny = tx as any;
+  if (target.type === "REQUEST") {
+    if (!state.requestStatus) return;
+    await txAny.request.update({ where: { id: target.id }, data: { status: state.requestStatus as RequestStatus } });
+    return;
+  }
+  if (!state.targetStatus) return;
+  if (target.type === "MUNICIPAL_ASSET") {
+    await txAny.municipalAsset.update({ where: { id: target.id }, data: { status: state.targetStatus } });
+  } else {
+    await txAny.financeProcess.update({ where: { id: target.id }, data: { status: state.targetStatus } });
+  }
+}
+
+/**
+ * Returns the target's instance, creating it on the active definition if needed. New instances start
+ * in `initialStateCode` when given, otherwise in the state matching the entity's current status.
+ */
+export async function ensureWorkflowInstance(tx: any, args: {
   tenantId: string;
-  requestId: string;
+  target: WorkflowTarget;
+  initialStateCode?: string | null;
 }) {
   const txAny = tx as any;
+  const foreignKey = TARGET_FOREIGN_KEY[args.target.type];
   const existing = await txAny.workflowInstance.findFirst({
     where: {
       tenantId: args.tenantId,
-      requestId: args.requestId,
+      [foreignKey]: args.target.id,
     },
     include: {
       currentState: true,
@@ -164,8 +303,8 @@ export async function ensureRequestWorkflowInstance(tx: any, args: {
   const definition = await txAny.workflowDefinition.findFirst({
     where: {
       tenantId: args.tenantId,
-      key: REQUEST_WORKFLOW_KEY,
-      targetType: "REQUEST",
+      key: workflowKeyForTarget(args.target.type),
+      targetType: args.target.type,
       isActive: true,
     },
     include: {
@@ -175,18 +314,14 @@ export async function ensureRequestWorkflowInstance(tx: any, args: {
   });
 
   if (!definition) {
-    throw new Error("Workflow definition for requests not found");
+    throw new Error(`Workflow definition for ${args.target.type} not found`);
   }
 
-  const requestRow = await txAny.request.findFirst({
-    where: { id: args.requestId, tenantId: args.tenantId },
-    select: { status: true },
-  });
-  const desiredStatus = requestRow?.status ?? null;
-
-  const byStatus =
-    desiredStatus && definition.states.find((state: any) => state.requestStatus === desiredStatus);
-  const initial = byStatus ?? definition.states.find((state: any) => state.isInitial) ?? definition.states[0];
+  const statusField = args.target.type === "REQUEST" ? "requestStatus" : "targetStatus";
+  const desiredStatus = args.initialStateCode ? null : await readTargetStatus(txAny, args.tenantId, args.target);
+  const byCode = args.initialStateCode && definition.states.find((state: any) => state.code === args.initialStateCode);
+  const byStatus = desiredStatus && definition.states.find((state: any) => state[statusField] === desiredStatus);
+  const initial = byCode || byStatus || definition.states.find((state: any) => state.isInitial) || definition.states[0];
   if (!initial) {
     throw new Error("Workflow initial state not found");
   }
@@ -196,7 +331,8 @@ export async function ensureRequestWorkflowInstance(tx: any, args: {
       tenantId: args.tenantId,
       definitionId: definition.id,
       currentStateId: initial.id,
-      requestId: args.requestId,
+      [foreignKey]: args.target.id,
+      completedAt: initial.isTerminal ? new Date() : null,
     },
     include: {
       currentState: true,
@@ -205,36 +341,187 @@ export async function ensureRequestWorkflowInstance(tx: any, args: {
   });
 }
 
-export async function transitionRequestWorkflowByActionTx(tx: any, args: {
+export async function ensureRequestWorkflowInstance(tx: any, args: {
   tenantId: string;
   requestId: string;
+}) {
+  return ensureWorkflowInstance(tx, { tenantId: args.tenantId, target: { type: "REQUEST", id: args.requestId } });
+}
+
+export type WorkflowGuardBlock = { toState: string; reasons: string[] };
+
+/**
+ * Picks the transition an action would take from the target's current state. Candidates sharing
+ * the action are tried by priority and the first whose guard holds wins; when every candidate is
+ * guarded out, `blocked` says which conditions failed for each route.
+ */
+export async function resolveWorkflowTransitionTx(tx: any, args: {
+  tenantId: string;
+  target: WorkflowTarget;
   action: string;
-  actorUserId?: string;
-  note?: string | null;
+  initialStateCode?: string | null;
 }) {
-  const instance = await ensureRequestWorkflowInstance(tx, {
-    tenantId: args.tenantId,
-    requestId: args.requestId,
-  });
+  const instance = await ensureWorkflowInstance(tx, args);
 
   const txAny = tx as any;
-  const transitions = await txAny.workflowTransitionDefinition.findMany({
+  const candidates = await txAny.workflowTransitionDefinition.findMany({
     where: {
       tenantId: args.tenantId,
       workflowId: instance.definitionId,
       fromStateId: instance.currentStateId,
+      action: args.action,
     },
     include: { toState: true },
+    orderBy: { priority: "asc" },
   });
 
-  const transition = transitions.find((item: any) => item.action === args.action);
-  if (!transition) {
-    return { moved: false as const, reason: "TRANSITION_NOT_ALLOWED" as const };
+  if (!candidates.length) {
+    return { ok: false as const, instance, reason: "TRANSITION_NOT_ALLOWED" as const, blocked: [] as WorkflowGuardBlock[] };
   }
 
+  let context: RequestGuardContext | null = null;
+  const blocked: WorkflowGuardBlock[] = [];
+  for (const candidate of candidates) {
+    if (candidate.guard === null || candidate.guard === undefined) {
+      return { ok: true as const, instance, transition: candidate };
+    }
+    const guard = workflowGuardSchema.safeParse(candidate.guard);
+    if (!guard.success || args.target.type !== "REQUEST") {
+      // A guard that cannot be evaluated must not silently open the route.
+      blocked.push({ toState: candidate.toState.code, reasons: ["condição da transição inválida"] });
+      continue;
+    }
+    context ??= await loadRequestGuardContext(tx, args.tenantId, args.target.id);
+    const result = evaluateWorkflowGuard(guard.data, context);
+    if (result.passed) return { ok: true as const, instance, transition: candidate };
+    blocked.push({ toState: candidate.toState.code, reasons: result.reasons });
+  }
+
+  return { ok: false as const, instance, reason: "GUARD_BLOCKED" as const, blocked };
+}
+
+export async function resolveRequestWorkflowTransitionTx(tx: any, args: {
+  tenantId: string;
+  requestId: string;
+  action: string;
+}) {
+  return resolveWorkflowTransitionTx(tx, {
+    tenantId: args.tenantId,
+    target: { type: "REQUEST", id: args.requestId },
+    action: args.action,
+  });
+}
+
+/**
+ * The action leading from the target's current state to a state that writes `status`, for
+ * endpoints that still accept a target status instead of an action.
+ */
+export async function findWorkflowActionToStatusTx(tx: any, args: {
+  tenantId: string;
+  target: WorkflowTarget;
+  status: string;
+}) {
+  const instance = await ensureWorkflowInstance(tx, args);
+  const statusField = args.target.type === "REQUEST" ? "requestStatus" : "targetStatus";
+  const transition = await (tx as any).workflowTransitionDefinition.findFirst({
+    where: {
+      tenantId: args.tenantId,
+      workflowId: instance.definitionId,
+      fromStateId: instance.currentStateId,
+      toState: { [statusField]: args.status },
+    },
+    orderBy: [{ priority: "asc" }, { action: "asc" }],
+    select: { action: true },
+  });
+  return (transition?.action as string | undefined) ?? null;
+}
+
+/** One-line Portuguese explanation of why no route was open, for API error messages. */
+export function explainWorkflowGuardBlock(action: string, blocked: WorkflowGuardBlock[]) {
+  if (!blocked.length) return `A ação ${action} não está disponível no estado atual.`;
+  const routes = blocked.map((b) => `${b.toState}: ${b.reasons.join("; ")}`);
+  return `A ação ${action} está bloqueada pelas condições do workflow — ${routes.join(" | ")}`;
+}
+
+export async function transitionWorkflowByActionTx(tx: any, args: {
+  tenantId: string;
+  target: WorkflowTarget;
+  action: string;
+  actorUserId?: string;
+  /** The delegator, when the actor is approving under an ApprovalDelegation. */
+  onBehalfOfUserId?: string | null;
+  note?: string | null;
+  initialStateCode?: string | null;
+}) {
+  const resolved = await resolveWorkflowTransitionTx(tx, args);
+  if (!resolved.ok) {
+    return { moved: false as const, reason: resolved.reason, blocked: resolved.blocked };
+  }
+
+  const { instance, transition } = resolved;
+  const txAny = tx as any;
   const fromStateId = instance.currentStateId;
   const toState = transition.toState;
 
+  // Quorum states: every vote but the last is recorded as a self-loop and the instance stays put.
+  const quorum = await resolveWorkflowQuorum(txAny, {
+    tenantId: args.tenantId,
+    target: args.target,
+    state: instance.currentState,
+    action: transition.action,
+  });
+  if (quorum === "INVALID") {
+    return { moved: false as const, reason: "QUORUM_INVALID" as const, blocked: [] as WorkflowGuardBlock[] };
+  }
+  if (quorum) {
+    // Votes on one instance are serialised: read unlocked, two concurrent final votes would each
+    // count the other as missing and both stay pending. If another vote moved the instance while
+    // we waited, start over from its new state.
+    const locked = await txAny.$queryRaw`
+      SELECT "currentStateId" FROM "WorkflowInstance" WHERE id = ${instance.id}::uuid FOR UPDATE
+    `;
+    if (locked[0]?.currentStateId !== fromStateId) {
+      return transitionWorkflowByActionTx(tx, args);
+    }
+
+    const voterId = args.onBehalfOfUserId ?? args.actorUserId ?? null;
+    const statusArgs = {
+      tenantId: args.tenantId,
+      instanceId: instance.id,
+      requestId: args.target.id,
+      stateId: fromStateId,
+      quorum,
+      candidates: voterId ? [voterId] : [],
+    };
+    const before = await loadWorkflowQuorumStatus(txAny, statusArgs);
+    if (!voterId || before.voter !== voterId) {
+      return {
+        moved: false as const,
+        reason: before.alreadyVoted ? ("ALREADY_VOTED" as const) : ("NOT_A_QUORUM_APPROVER" as const),
+        blocked: [] as WorkflowGuardBlock[],
+        quorum: before,
+      };
+    }
+    if (before.approvals + 1 < quorum.required) {
+      await recordWorkflowEvent(txAny, {
+        tenantId: args.tenantId,
+        instanceId: instance.id,
+        fromStateId,
+        toStateId: fromStateId,
+        action: transition.action,
+        note: args.note ?? null,
+        actorUserId: args.actorUserId ?? null,
+        onBehalfOfUserId: args.onBehalfOfUserId ?? null,
+      });
+      return {
+        moved: false as const,
+        reason: "QUORUM_PENDING" as const,
+        blocked: [] as WorkflowGuardBlock[],
+        quorum: await loadWorkflowQuorumStatus(txAny, { ...statusArgs, candidates: [] }),
+      };
+    }
+  }
+
   await txAny.workflowInstance.update({
     where: { id: instance.id },
     data: {
@@ -243,38 +530,51 @@ export async function transitionRequestWorkflowByActionTx(tx: any, args: {
     },
   });
 
-  if (toState.requestStatus) {
-    await txAny.request.update({
-      where: { id: args.requestId },
-      data: { status: toState.requestStatus as RequestStatus },
-    });
-  }
+  await applyWorkflowStateToTarget(txAny, args.target, toState);
 
-  await txAny.workflowEvent.create({
-    data: {
-      tenantId: args.tenantId,
-      instanceId: instance.id,
-      fromStateId,
-      toStateId: toState.id,
-      action: transition.action,
-      note: args.note ?? null,
-      actorUserId: args.actorUserId ?? null,
-    },
+  await recordWorkflowEvent(txAny, {
+    tenantId: args.tenantId,
+    instanceId: instance.id,
+    fromStateId,
+    toStateId: toState.id,
+    action: transition.action,
+    note: args.note ?? null,
+    actorUserId: args.actorUserId ?? null,
+    onBehalfOfUserId: args.onBehalfOfUserId ?? null,
   });
 
   return {
     moved: true as const,
     action: transition.action,
     requiredPermission: transition.requiredPermission as string | null,
-    toState: { id: toState.id, code: toState.code, requestStatus: toState.requestStatus as RequestStatus | null },
+    fromState: { id: fromStateId, code: instance.currentState?.code as string | undefined },
+    toState: {
+      id: toState.id,
+      code: toState.code,
+      requestStatus: toState.requestStatus as RequestStatus | null,
+      targetStatus: toState.targetStatus as string | null,
+    },
   };
 }
 
+export async function transitionRequestWorkflowByActionTx(tx: any, args: {
+  tenantId: string;
+  requestId: string;
+  action: string;
+  actorUserId?: string;
+  onBehalfOfUserId?: string | null;
+  note?: string | null;
+}) {
+  const { requestId, ...rest } = args;
+  return transitionWorkflowByActionTx(tx, { ...rest, target: { type: "REQUEST", id: requestId } });
+}
+
 export async function transitionRequestWorkflowByAction(prisma: PrismaClient, args: {
   tenantId: string;
   requestId: string;
   action: string;
   actorUserId?: string;
+  onBehalfOfUserId?: string | null;
   note?: string | null;
 }) {
   return prisma.$transaction(async (tx) => transitionRequestWorkflowByActionTx(tx, args));
@@ -0,0 +1,566 @@
+import { z } from "zod";
+import { Prisma, type WorkflowTargetType } from "@prisma/client";
+import { prisma } from "@/prisma/client";
+import { appendAuditLog, recordWorkflowEvent } from "@/utils/auditLog";
+import { SYSTEM_PERMISSIONS } from "@/utils/rbac";
+import { WORKFLOW_TARGET_STATUSES, applyWorkflowStateToTarget } from "@/utils/workflow";
+import { workflowGuardSchema, type WorkflowGuard } from "@/utils/workflowGuards";
+import { workflowQuorumSchema, type WorkflowQuorum } from "@/utils/workflowQuorum";
+
+const CODE_RE = /^[A-Z][A-Z0-9_]*$/;
+const PERMISSION_KEYS = new Set<string>(SYSTEM_PERMISSIONS.map((p) => p.key));
+const REQUEST_STATUSES = ["DRAFT", "SUBMITTED", "APPROVED", "REJECTED", "FULFILLED"] as const;
+
+// States and actions the request screens and endpoints refer to by code.
+const REQUEST_APP_STATES = ["SUBMITTED", "AWAITING_ADMIN_APPROVAL"];
+const REQUEST_APP_ACTIONS = ["SUBMIT", "APPROVE", "REJECT", "FULFILL"];
+// Actions /api/governanca/assets/disposals triggers; finance processes move by target status instead.
+const ASSET_APP_ACTIONS = ["OPEN_DISPOSAL", "APPROVE_DISPOSAL", "REJECT_DISPOSAL", "COMPLETE_DISPOSAL"];
+
+export const workflowGraphSchema = z.object({
+  name: z.string().trim().min(2).max(120),
+  states: z
+    .array(
+      z.object({
+        code: z.string().trim().min(2).max(120).regex(CODE_RE, "Use apenas A-Z, 0-9 e _"),
+        name: z.string().trim().min(1).max(120),
+        sortOrder: z.number().int().min(0).max(10_000),
+        isInitial: z.boolean(),
+        isTerminal: z.boolean(),
+        requestStatus: z.enum(REQUEST_STATUSES).nullable(),
+        targetStatus: z.string().trim().min(2).max(40).nullable().default(null),
+        quorum: workflowQuorumSchema.nullable().default(null),
+      })
+    )
+    .min(1)
+    .max(60),
+  transitions: z
+    .array(
+      z.object({
+        from: z.string().trim().min(2).max(120),
+        to: z.string().trim().min(2).max(120),
+        action: z.string().trim().min(2).max(80).regex(CODE_RE, "Use apenas A-Z, 0-9 e _"),
+        requiredPermission: z.string().trim().min(2).max(120).nullable(),
+        // Lower priority is tried first among transitions sharing the same state and action.
+        priority: z.number().int().min(0).max(100).default(0),
+        guard: workflowGuardSchema.nullable().default(null),
+      })
+    )
+    .max(300),
+});
+
+export type WorkflowGraph = z.infer<typeof workflowGraphSchema>;
+
+export type WorkflowGraphIssue = { code: string; message: string };
+
+export const publishWorkflowSchema = z.object({
+  instances: z.enum(["PIN", "MIGRATE"]).default("PIN"),
+  // Old state code -> state code in the new version, for codes the new version no longer has.
+  stateMapping: z.record(z.string().trim().min(2).max(120)).default({}),
+});
+
+function fail(message: string, code: string, extra: Record<string, unknown> = {}): never {
+  throw Object.assign(new Error(message), { code, ...extra });
+}
+
+/**
+ * Checks the graph the engine will run: one initial state, every state reachable from it, a
+ * terminal state reachable from every state, and references that resolve. Errors block
+ * publishing; warnings flag codes the application relies on.
+ */
+export function validateWorkflowGraph(graph: WorkflowGraph, targetType: WorkflowTargetType) {
+  const errors: WorkflowGraphIssue[] = [];
+  const warnings: WorkflowGraphIssue[] = [];
+  const codes = new Set<string>();
+
+  for (const state of graph.states) {
+    if (codes.has(state.code)) errors.push({ code: "DUPLICATE_STATE", message: `Estado duplicado: ${state.code}` });
+    codes.add(state.code);
+  }
+
+  const initial = graph.states.filter((s) => s.isInitial);
+  if (initial.length !== 1) {
+    errors.push({ code: "INITIAL_STATE", message: `Tem de existir exatamente um estado inicial (encontrados ${initial.length})` });
+  }
+  const terminal = new Set(graph.states.filter((s) => s.isTerminal).map((s) => s.code));
+  if (!terminal.size) errors.push({ code: "NO_TERMINAL_STATE", message: "Tem de existir pelo menos um estado final" });
+  for (const s of initial) {
+    if (s.isTerminal) errors.push({ code: "INITIAL_IS_TERMINAL", message: `O estado inicial ${s.code} não pode ser final` });
+  }
+
+  const edges = new Map<string, string[]>();
+  const reverse = new Map<string, string[]>();
+  const seenActions = new Set<string>();
+  for (const t of graph.transitions) {
+    const label = `${t.from} --${t.action}--> ${t.to}`;
+    if (!codes.has(t.from) || !codes.has(t.to)) {
+      errors.push({ code: "UNKNOWN_STATE", message: `Transição com estado inexistente: ${label}` });
+      continue;
+    }
+    if (seenActions.has(`${t.from}:${t.action}:${t.priority}`)) {
+      errors.push({
+        code: "DUPLICATE_TRANSITION",
+        message: `A ação ${t.action} está repetida no estado ${t.from} com a mesma prioridade (${t.priority})`,
+      });
+    }
+    seenActions.add(`${t.from}:${t.action}:${t.priority}`);
+    if (terminal.has(t.from)) {
+      errors.push({ code: "TERMINAL_HAS_EXIT", message: `Estados finais não podem ter saídas: ${label}` });
+    }
+    if (t.guard && targetType !== "REQUEST") {
+      errors.push({ code: "GUARD_UNSUPPORTED", message: `Condições só são suportadas em workflows de requisições: ${label}` });
+    }
+    if (t.requiredPermission && !PERMISSION_KEYS.has(t.requiredPermission)) {
+      errors.push({ code: "UNKNOWN_PERMISSION", message: `Permissão desconhecida em ${label}: ${t.requiredPermission}` });
+    }
+    edges.set(t.from, [...(edges.get(t.from) ?? []), t.to]);
+    reverse.set(t.to, [...(reverse.get(t.to) ?? []), t.from]);
+  }
+
+  const routes = new Map<string, WorkflowGraph["transitions"]>();
+  for (const t of graph.transitions) {
+    routes.set(`${t.from}:${t.action}`, [...(routes.get(`${t.from}:${t.action}`) ?? []), t]);
+  }
+  for (const candidates of routes.values()) {
+    const ordered = [...candidates].sort((a, b) => a.priority - b.priority);
+    const fallback = ordered.findIndex((t) => !t.guard);
+    const { from, action } = ordered[0];
+    if (fallback === -1) {
+      warnings.push({
+        code: "NO_FALLBACK_ROUTE",
+        message: `A ação ${action} em ${from} fica bloqueada quando nenhuma condição se verifica`,
+      });
+    } else if (fallback < ordered.length - 1) {
+      warnings.push({
+        code: "SHADOWED_ROUTE",
+        message: `Em ${from}, as rotas de ${action} depois de ${ordered[fallback].to} (sem condição) nunca são usadas`,
+      });
+    }
+  }
+
+  const walk = (starts: string[], adjacency: Map<string, string[]>) => {
+    const seen = new Set(starts);
+    const queue = [...starts];
+    while (queue.length) {
+      for (const next of adjacency.get(queue.shift() as string) ?? []) {
+        if (!seen.has(next)) {
+          seen.add(next);
+          queue.push(next);
+        }
+      }
+    }
+    return seen;
+  };
+
+  if (initial.length === 1) {
+    const reachable = walk([initial[0].code], edges);
+    for (const code of codes) {
+      if (!reachable.has(code)) errors.push({ code: "UNREACHABLE_STATE", message: `O estado ${code} não é alcançável a partir do inicial` });
+    }
+  }
+  if (terminal.size) {
+    const canFinish = walk(Array.from(terminal), reverse);
+    for (const code of codes) {
+      if (!canFinish.has(code)) errors.push({ code: "DEAD_END", message: `Do estado ${code} não se chega a nenhum estado final` });
+    }
+  }
+
+  const statusOptions = WORKFLOW_TARGET_STATUSES[targetType as keyof typeof WORKFLOW_TARGET_STATUSES] ?? [];
+  for (const s of graph.states) {
+    if (targetType === "REQUEST" ? s.targetStatus : s.requestStatus) {
+      errors.push({ code: "WRONG_STATUS_FIELD", message: `O estado ${s.code} define um estado que não se aplica a este workflow` });
+    }
+    if (s.targetStatus && !statusOptions.includes(s.targetStatus)) {
+      errors.push({ code: "UNKNOWN_TARGET_STATUS", message: `Estado de destino desconhecido em ${s.code}: ${s.targetStatus}` });
+    }
+    if (s.quorum && targetType !== "REQUEST") {
+      errors.push({ code: "QUORUM_UNSUPPORTED", message: `Aprovações por quórum só são suportadas em workflows de requisições: ${s.code}` });
+    } else if (s.quorum && !graph.transitions.some((t) => t.from === s.code && t.action === s.quorum?.action)) {
+      errors.push({ code: "QUORUM_ACTION_MISSING", message: `O quórum de ${s.code} usa a ação ${s.quorum.action}, que não sai deste estado` });
+    }
+  }
+
+  if (targetType === "MUNICIPAL_ASSET") {
+    const actions = new Set(graph.transitions.map((t) => t.action));
+    for (const action of ASSET_APP_ACTIONS) {
+      if (!actions.has(action)) {
+        warnings.push({ code: "APP_ACTION_MISSING", message: `A ação ${action}, usada nos processos de abate, não existe` });
+      }
+    }
+  }
+
+  if (targetType === "REQUEST") {
+    for (const s of graph.states) {
+      if (!s.requestStatus) {
+        warnings.push({ code: "NO_REQUEST_STATUS", message: `O estado ${s.code} não define o estado da requisição` });
+      }
+    }
+    for (const code of REQUEST_APP_STATES) {
+      if (!codes.has(code)) {
+        warnings.push({ code: "APP_STATE_MISSING", message: `Sem o estado ${code}, as listas de aprovações pendentes deixam de o mostrar` });
+      }
+    }
+    const actions = new Set(graph.transitions.map((t) => t.action));
+    for (const action of REQUEST_APP_ACTIONS) {
+      if (!actions.has(action)) {
+        warnings.push({ code: "APP_ACTION_MISSING", message: `A ação ${action}, usada pelos ecrãs de requisições, não existe` });
+      }
+    }
+  }
+
+  return { errors, warnings };
+}
+
+const definitionInclude = {
+  states: { orderBy: { sortOrder: "asc" } },
+  transitions: { include: { fromState: { select: { code: true } }, toState: { select: { code: true } } } },
+} satisfies Prisma.WorkflowDefinitionInclude;
+
+type DefinitionWithGraph = Prisma.WorkflowDefinitionGetPayload<{ include: typeof definitionInclude }>;
+
+function toGraph(definition: DefinitionWithGraph): WorkflowGraph {
+  return {
+    name: definition.name,
+    states: definition.states.map((s) => ({
+      code: s.code,
+      name: s.name,
+      sortOrder: s.sortOrder,
+      isInitial: s.isInitial,
+      isTerminal: s.isTerminal,
+      requestStatus: s.requestStatus,
+      targetStatus: s.targetStatus,
+      quorum: (s.quorum ?? null) as WorkflowQuorum | null,
+    })),
+    transitions: definition.transitions
+      .map((t) => ({
+        from: t.fromState.code,
+        to: t.toState.code,
+        action: t.action,
+        requiredPermission: t.requiredPermission,
+        priority: t.priority,
+        guard: (t.guard ?? null) as WorkflowGuard | null,
+      }))
+      .sort((a, b) => a.from.localeCompare(b.from) || a.action.localeCompare(b.action) || a.priority - b.priority),
+  };
+}
+
+/** In-flight instances of other versions of the same workflow, counted per current state code. */
+async function countInFlightByState(tenantId: string, key: string, excludeDefinitionId: string) {
+  const groups = await prisma.workflowInstance.groupBy({
+    by: ["currentStateId"],
+    where: { tenantId, completedAt: null, definitionId: { not: excludeDefinitionId }, definition: { key } },
+    _count: { _all: true },
+  });
+  if (!groups.length) return [];
+  const states = await prisma.workflowStateDefinition.findMany({
+    where: { id: { in: groups.map((g) => g.currentStateId) } },
+    select: { id: true, code: true },
+  });
+  const codeById = new Map(states.map((s) => [s.id, s.code]));
+  const byCode = new Map<string, number>();
+  for (const g of groups) {
+    const code = codeById.get(g.currentStateId) ?? "?";
+    byCode.set(code, (byCode.get(code) ?? 0) + g._count._all);
+  }
+  return Array.from(byCode, ([stateCode, count]) => ({ stateCode, count }));
+}
+
+export async function listWorkflowDefinitions(tenantId: string) {
+  const [definitions, instanceCounts] = await Promise.all([
+    prisma.workflowDefinition.findMany({
+      where: { tenantId },
+      orderBy: [{ key: "asc" }, { version: "desc" }],
+      select: {
+        id: true,
+        key: true,
+        name: true,
+        targetType: true,
+        version: true,
+        isActive: true,
+        publishedAt: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    }),
+    prisma.workflowInstance.groupBy({
+      by: ["definitionId"],
+      where: { tenantId, completedAt: null },
+      _count: { _all: true },
+    }),
+  ]);
+  const inFlight = new Map(instanceCounts.map((c) => [c.definitionId, c._count._all]));
+  return definitions.map((d) => ({
+    ...d,
+    status: d.publishedAt ? (d.isActive ? "ACTIVE" : "RETIRED") : "DRAFT",
+    inFlightInstances: inFlight.get(d.id) ?? 0,
+  }));
+}
+
+export async function getWorkflowDefinition(tenantId: string, id: string) {
+  const definition = await prisma.workflowDefinition.findFirst({ where: { id, tenantId }, include: definitionInclude });
+  if (!definition) return null;
+  const graph = toGraph(definition);
+  return {
+    id: definition.id,
+    key: definition.key,
+    targetType: definition.targetType,
+    version: definition.version,
+    isActive: definition.isActive,
+    publishedAt: definition.publishedAt,
+    status: definition.publishedAt ? (definition.isActive ? "ACTIVE" : "RETIRED") : "DRAFT",
+    graph,
+    validation: validateWorkflowGraph(graph, definition.targetType),
+    statusOptions: WORKFLOW_TARGET_STATUSES[definition.targetType as keyof typeof WORKFLOW_TARGET_STATUSES] ?? [],
+    inFlightElsewhere: definition.publishedAt ? [] : await countInFlightByState(tenantId, definition.key, definition.id),
+  };
+}
+
+/** Starts a new draft version as a copy of `sourceId`. A workflow has at most one draft at a time. */
+export async function createWorkflowDraft(tenantId: string, sourceId: string, actorUserId: string) {
+  const source = await prisma.workflowDefinition.findFirst({
+    where: { id: sourceId, tenantId },
+    include: definitionInclude,
+  });
+  if (!source) fail("Workflow não encontrado", "NOT_FOUND");
+
+  const draft = await prisma.$transaction(async (tx) => {
+    const existingDraft = await tx.workflowDefinition.findFirst({
+      where: { tenantId, key: source.key, publishedAt: null },
+      select: { id: true, version: true },
+    });
+    if (existingDraft) {
+      fail(`Já existe um rascunho (versão ${existingDraft.version}) deste workflow`, "DRAFT_EXISTS", { draftId: existingDraft.id });
+    }
+    const latest = await tx.workflowDefinition.findFirst({
+      where: { tenantId, key: source.key },
+      orderBy: { version: "desc" },
+      select: { version: true },
+    });
+
+    const created = await tx.workflowDefinition.create({
+      data: {
+        tenantId,
+        key: source.key,
+        name: source.name,
+        targetType: source.targetType,
+        version: (latest?.version ?? source.version) + 1,
+        isActive: false,
+        publishedAt: null,
+      },
+    });
+    await writeGraph(tx, tenantId, created.id, toGraph(source));
+    return created;
+  });
+
+  await appendAuditLog(prisma, {
+    tenantId,
+    source: "WORKFLOW",
+    action: "DEFINITION_DRAFT_CREATED",
+    entityType: "WORKFLOW_DEFINITION",
+    entityId: draft.id,
+    actorUserId,
+    payload: { key: draft.key, version: draft.version, fromVersion: source.version },
+  });
+  return draft;
+}
+
+async function writeGraph(tx: Prisma.TransactionClient, tenantId: string, workflowId: string, graph: WorkflowGraph) {
+  await tx.workflowTransitionDefinition.deleteMany({ where: { workflowId } });
+  await tx.workflowStateDefinition.deleteMany({ where: { workflowId } });
+
+  const stateIdByCode = new Map<string, string>();
+  for (const state of graph.states) {
+    const row = await tx.workflowStateDefinition.create({
+      data: { tenantId, workflowId, ...state, quorum: state.quorum ?? Prisma.JsonNull },
+      select: { id: true },
+    });
+    stateIdByCode.set(state.code, row.id);
+  }
+  for (const t of graph.transitions) {
+    await tx.workflowTransitionDefinition.create({
+      data: {
+        tenantId,
+        workflowId,
+        fromStateId: stateIdByCode.get(t.from) as string,
+        toStateId: stateIdByCode.get(t.to) as string,
+        action: t.action,
+        requiredPermission: t.requiredPermission,
+        priority: t.priority,
+        guard: t.guard ?? Prisma.JsonNull,
+      },
+    });
+  }
+}
+
+/**
+ * Replaces the states and transitions of a draft. Drafts may be saved with validation errors
+ * (work in progress), but not with ones the database itself would reject.
+ */
+export async function saveWorkflowDraft(tenantId: string, id: string, graph: WorkflowGraph, actorUserId: string) {
+  const definition = await prisma.workflowDefinition.findFirst({
+    where: { id, tenantId },
+    select: { id: true, key: true, version: true, targetType: true, publishedAt: true },
+  });
+  if (!definition) fail("Workflow não encontrado", "NOT_FOUND");
+  if (definition.publishedAt) fail("Versões publicadas não podem ser alteradas; crie uma nova versão", "NOT_DRAFT");
+
+  const validation = validateWorkflowGraph(graph, definition.targetType);
+  const structural = validation.errors.filter((e) =>
+    ["DUPLICATE_STATE", "UNKNOWN_STATE", "DUPLICATE_TRANSITION"].includes(e.code)
+  );
+  if (structural.length) fail(structural[0].message, "INVALID_GRAPH", { issues: structural });
+
+  await prisma.$transaction(async (tx) => {
+    // Conditional so a save racing a publish cannot rewrite the graph of the live version.
+    const updated = await tx.workflowDefinition.updateMany({ where: { id, publishedAt: null }, data: { name: graph.name } });
+    if (updated.count !== 1) fail("Versões publicadas não podem ser alteradas; crie uma nova versão", "NOT_DRAFT");
+    await writeGraph(tx, tenantId, id, graph);
+  });
+
+  await appendAuditLog(prisma, {
+    tenantId,
+    source: "WORKFLOW",
+    action: "DEFINITION_DRAFT_SAVED",
+    entityType: "WORKFLOW_DEFINITION",
+    entityId: id,
+    actorUserId,
+    payload: { key: definition.key, version: definition.version, states: graph.states.length, transitions: graph.transitions.length },
+  });
+  return validation;
+}
+
+export async function discardWorkflowDraft(tenantId: string, id: string, actorUserId: string) {
+  const definition = await prisma.workflowDefinition.findFirst({
+    where: { id, tenantId },
+    select: { id: true, key: true, version: true, publishedAt: true },
+  });
+  if (!definition) fail("Workflow não encontrado", "NOT_FOUND");
+  if (definition.publishedAt) fail("Só rascunhos podem ser eliminados", "NOT_DRAFT");
+
+  const deleted = await prisma.workflowDefinition.deleteMany({ where: { id, publishedAt: null } });
+  if (deleted.count !== 1) fail("Só rascunhos podem ser eliminados", "NOT_DRAFT");
+  await appendAuditLog(prisma, {
+    tenantId,
+    source: "WORKFLOW",
+    action: "DEFINITION_DRAFT_DISCARDED",
+    entityType: "WORKFLOW_DEFINITION",
+    entityId: id,
+    actorUserId,
+    payload: { key: definition.key, version: definition.version },
+  });
+}
+
+/**
+ * Makes a valid draft the active version. In-flight instances either stay pinned to the version
+ * they started on (they keep its transitions until they finish) or move to the new version,
+ * matched by state code or through `stateMapping`.
+ */
+export async function publishWorkflowDraft(
+  tenantId: string,
+  id: string,
+  options: z.infer<typeof publishWorkflowSchema>,
+  actorUserId: string
+) {
+  const { definition, validation, migrated } = await prisma.$transaction(
+    async (tx) => {
+      // Lock the draft and validate the graph that is about to go live: a save or discard that
+      // was in flight either commits before this read or finds the version already published.
+      await tx.$queryRaw`SELECT id FROM "WorkflowDefinition" WHERE id = ${id}::uuid FOR UPDATE`;
+      const definition = await tx.workflowDefinition.findFirst({ where: { id, tenantId }, include: definitionInclude });
+      if (!definition) fail("Workflow não encontrado", "NOT_FOUND");
+      if (definition.publishedAt) fail("Esta versão já foi publicada", "NOT_DRAFT");
+
+      const validation = validateWorkflowGraph(toGraph(definition), definition.targetType);
+      if (validation.errors.length) fail(validation.errors[0].message, "INVALID_GRAPH", { issues: validation.errors });
+
+      const newStateByCode = new Map(definition.states.map((s) => [s.code, s]));
+      const targetFor = (code: string) => newStateByCode.get(options.stateMapping[code] ?? code) ?? null;
+
+      // Read inside the transaction so an instance that reached an unmapped state meanwhile
+      // aborts the publish instead of being left on the deactivated version.
+      const instances =
+        options.instances === "MIGRATE"
+          ? await tx.workflowInstance.findMany({
+              where: { tenantId, completedAt: null, definitionId: { not: id }, definition: { key: definition.key } },
+              select: {
+                id: true,
+                requestId: true,
+                municipalAssetId: true,
+                financeProcessId: true,
+                currentStateId: true,
+                currentState: { select: { code: true } },
+                definition: { select: { version: true } },
+              },
+            })
+          : [];
+      const unmapped = Array.from(
+        new Set(instances.filter((i) => !targetFor(i.currentState.code)).map((i) => i.currentState.code))
+      );
+      if (unmapped.length) {
+        fail(`Indique o estado de destino para: ${unmapped.join(", ")}`, "UNMAPPED_STATES", { unmapped });
+      }
+
+      const previous = await tx.workflowDefinition.findMany({
+        where: { tenantId, key: definition.key, isActive: true },
+        select: { id: true, version: true },
+      });
+      await tx.workflowDefinition.updateMany({
+        where: { id: { in: previous.map((p) => p.id) } },
+        data: { isActive: false },
+      });
+      const claimed = await tx.workflowDefinition.updateMany({
+        where: { id, publishedAt: null },
+        data: { isActive: true, publishedAt: new Date() },
+      });
+      if (claimed.count !== 1) fail("Esta versão já foi publicada", "NOT_DRAFT");
+
+      let migratedCount = 0;
+      for (const instance of instances) {
+        const target = targetFor(instance.currentState.code);
+        if (!target) continue;
+        await tx.workflowInstance.update({
+          where: { id: instance.id },
+          data: { definitionId: id, currentStateId: target.id, completedAt: target.isTerminal ? new Date() : null },
+        });
+        const entity = instance.requestId
+          ? { type: "REQUEST" as const, id: instance.requestId }
+          : instance.municipalAssetId
+            ? { type: "MUNICIPAL_ASSET" as const, id: instance.municipalAssetId }
+            : instance.financeProcessId
+              ? { type: "FINANCE_PROCESS" as const, id: instance.financeProcessId }
+              : null;
+        if (entity) await applyWorkflowStateToTarget(tx, entity, target);
+        await recordWorkflowEvent(tx, {
+          tenantId,
+          instanceId: instance.id,
+          fromStateId: instance.currentStateId,
+          toStateId: target.id,
+          action: "VERSION_MIGRATED",
+          note: `Versão ${instance.definition.version} → ${definition.version}`,
+          actorUserId,
+        });
+        migratedCount += 1;
+      }
+      return { definition, validation, migrated: migratedCount };
+    },
+    { timeout: 120_000, maxWait: 10_000 }
+  );
+
+  await appendAuditLog(prisma, {
+    tenantId,
+    source: "WORKFLOW",
+    action: "DEFINITION_PUBLISHED",
+    entityType: "WORKFLOW_DEFINITION",
+    entityId: id,
+    actorUserId,
+    payload: {
+      key: definition.key,
+      version: definition.version,
+      instances: options.instances,
+      stateMapping: options.stateMapping,
+      migrated,
+    },
+  });
+
+  return { version: definition.version, migrated, warnings: validation.warnings };
+}
@@ -0,0 +1,195 @@
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Facts about a request that transition guards can test. Kept flat and serialisable so a guard
+ * is plain JSON stored on WorkflowTransitionDefinition.guard.
+ */
+export const GUARD_FIELDS = {
+  estimatedTotal: { kind: "number", label: "Valor estimado" },
+  goodsTypes: { kind: "list", label: "Tipo de bens" },
+  requestingService: { kind: "text", label: "Serviço requisitante" },
+  priority: { kind: "text", label: "Prioridade" },
+  requestType: { kind: "text", label: "Tipo de requisição" },
+  hasFinanceProcess: { kind: "boolean", label: "Processo financeiro associado" },
+  financeStatuses: { kind: "list", label: "Estado do processo financeiro" },
+} as const;
+
+export type GuardField = keyof typeof GUARD_FIELDS;
+
+const OPS_BY_KIND = {
+  number: ["eq", "neq", "gt", "gte", "lt", "lte"],
+  text: ["eq", "neq", "in", "notIn"],
+  list: ["includes", "excludes", "includesAny"],
+  boolean: ["eq"],
+} as const;
+
+const OP_LABELS: Record<string, string> = {
+  eq: "igual a",
+  neq: "diferente de",
+  gt: "superior a",
+  gte: "igual ou superior a",
+  lt: "inferior a",
+  lte: "igual ou inferior a",
+  in: "um de",
+  notIn: "nenhum de",
+  includes: "inclui",
+  excludes: "não inclui",
+  includesAny: "inclui algum de",
+};
+
+const scalar = z.union([z.string().max(120), z.number().finite(), z.boolean()]);
+
+const conditionSchema = z
+  .object({
+    field: z.enum(Object.keys(GUARD_FIELDS) as [GuardField, ...GuardField[]]),
+    op: z.enum(Object.keys(OP_LABELS) as [string, ...string[]]),
+    value: z.union([scalar, z.array(z.union([z.string().max(120), z.number().finite()])).max(50)]),
+  })
+  .strict()
+  .superRefine((c, ctx) => {
+    const kind = GUARD_FIELDS[c.field].kind;
+    if (!(OPS_BY_KIND[kind] as readonly string[]).includes(c.op)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Operador ${c.op} não se aplica a ${c.field}` });
+      return;
+    }
+    const wantsList = c.op === "in" || c.op === "notIn" || c.op === "includesAny";
+    const ok = wantsList
+      ? Array.isArray(c.value)
+      : kind === "number"
+        ? typeof c.value === "number"
+        : kind === "boolean"
+          ? typeof c.value === "boolean"
+          : typeof c.value === "string";
+    if (!ok) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Valor inválido para ${c.field} ${c.op}` });
+  });
+
+export type WorkflowGuard =
+  | { all: WorkflowGuard[] }
+  | { any: WorkflowGuard[] }
+  | { not: WorkflowGuard }
+  | z.infer<typeof conditionSchema>;
+
+export const workflowGuardSchema: z.ZodType<WorkflowGuard> = z.lazy(() =>
+  z.union([
+    z.object({ all: z.array(workflowGuardSchema).min(1).max(20) }).strict(),
+    z.object({ any: z.array(workflowGuardSchema).min(1).max(20) }).strict(),
+    z.object({ not: workflowGuardSchema }).strict(),
+    conditionSchema,
+  ])
+);
+
+export type RequestGuardContext = {
+  estimatedTotal: number;
+  goodsTypes: string[];
+  requestingService: string | null;
+  priority: string;
+  requestType: string;
+  hasFinanceProcess: boolean;
+  financeStatuses: string[];
+};
+
+export async function loadRequestGuardContext(db: Db, tenantId: string, requestId: string): Promise<RequestGuardContext> {
+  const request = await db.request.findFirst({
+    where: { id: requestId, tenantId },
+    select: {
+      goodsTypes: true,
+      priority: true,
+      requestType: true,
+      requestingService: true,
+      requestingServiceRef: { select: { codigo: true } },
+      items: { select: { quantity: true, product: { select: { price: true } } } },
+      financeProcesses: { select: { status: true } },
+    },
+  });
+  if (!request) throw Object.assign(new Error("Request not found"), { code: "NOT_FOUND" });
+
+  const financeStatuses = request.financeProcesses.map((p) => p.status).filter((s) => s !== "REJECTED");
+  return {
+    estimatedTotal: request.items.reduce((sum, item) => sum + Number(item.quantity) * Number(item.product.price || 0), 0),
+    goodsTypes: request.goodsTypes,
+    requestingService: request.requestingServiceRef?.codigo ?? request.requestingService ?? null,
+    priority: request.priority,
+    requestType: request.requestType,
+    hasFinanceProcess: financeStatuses.length > 0,
+    financeStatuses,
+  };
+}
+
+const eur = new Intl.NumberFormat("pt-PT", { style: "currency", currency: "EUR" });
+
+function formatValue(field: GuardField, value: unknown): string {
+  if (Array.isArray(value)) return value.length ? value.map((v) => formatValue(field, v)).join(", ") : "—";
+  if (field === "estimatedTotal" && typeof value === "number") return eur.format(value);
+  if (typeof value === "boolean") return value ? "sim" : "não";
+  return value === null || value === undefined || value === "" ? "—" : String(value);
+}
+
+/** Human-readable form of a guard, e.g. for the designer and for "why blocked" messages. */
+export function describeWorkflowGuard(guard: WorkflowGuard): string {
+  if ("all" in guard) return guard.all.map(describeWorkflowGuard).join(" e ");
+  if ("any" in guard) return `(${guard.any.map(describeWorkflowGuard).join(" ou ")})`;
+  if ("not" in guard) return `não ${describeWorkflowGuard(guard.not)}`;
+  return `${GUARD_FIELDS[guard.field].label} ${OP_LABELS[guard.op]} ${formatValue(guard.field, guard.value)}`;
+}
+
+function testCondition(c: z.infer<typeof conditionSchema>, ctx: RequestGuardContext) {
+  const actual = ctx[c.field];
+  const list = Array.isArray(c.value) ? c.value.map(String) : [];
+  switch (c.op) {
+    case "eq":
+      return actual === c.value;
+    case "neq":
+      return actual !== c.value;
+    case "gt":
+      return (actual as number) > (c.value as number);
+    case "gte":
+      return (actual as number) >= (c.value as number);
+    case "lt":
+      return (actual as number) < (c.value as number);
+    case "lte":
+      return (actual as number) <= (c.value as number);
+    case "in":
+      return list.includes(String(actual));
+    case "notIn":
+      return !list.includes(String(actual));
+    case "includes":
+      return (actual as string[]).includes(String(c.value));
+    case "excludes":
+      return !(actual as string[]).includes(String(c.value));
+    case "includesAny":
+      return (actual as string[]).some((v) => list.includes(v));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluates a guard against a request. When it fails, `reasons` lists the conditions that did not
+ * hold together with the request's actual value, so callers can say why a transition is blocked.
+ */
+export function evaluateWorkflowGuard(guard: WorkflowGuard, ctx: RequestGuardContext): { passed: boolean; reasons: string[] } {
+  if ("all" in guard) {
+    const results = guard.all.map((g) => evaluateWorkflowGuard(g, ctx));
+    return { passed: results.every((r) => r.passed), reasons: results.flatMap((r) => r.reasons) };
+  }
+  if ("any" in guard) {
+    const results = guard.any.map((g) => evaluateWorkflowGuard(g, ctx));
+    if (results.some((r) => r.passed)) return { passed: true, reasons: [] };
+    return { passed: false, reasons: [`nenhuma das condições se verifica: ${describeWorkflowGuard(guard)}`] };
+  }
+  if ("not" in guard) {
+    const inner = evaluateWorkflowGuard(guard.not, ctx);
+    return inner.passed
+      ? { passed: false, reasons: [`${describeWorkflowGuard(guard.not)} (não permitido)`] }
+      : { passed: true, reasons: [] };
+  }
+  if (testCondition(guard, ctx)) return { passed: true, reasons: [] };
+  return {
+    passed: false,
+    reasons: [`${describeWorkflowGuard(guard)} (atual: ${formatValue(guard.field, ctx[guard.field])})`],
+  };
+}
+
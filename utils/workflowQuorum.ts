@@ -0,0 +1,286 @@
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+import type { PermissionGrant } from "@/utils/rbac";
+import type { WorkflowTarget } from "@/utils/workflow";
+import {
+  describeWorkflowGuard,
+  evaluateWorkflowGuard,
+  loadRequestGuardContext,
+  workflowGuardSchema,
+} from "@/utils/workflowGuards";
+
+type Db = Prisma.TransactionClient;
+
+const approverSchema = z.union([
+  z.object({ roleKey: z.string().trim().min(2).max(120) }).strict(),
+  z.object({ userId: z.string().uuid() }).strict(),
+]);
+
+/**
+ * Stored on WorkflowStateDefinition.quorum. While in the state, `action` records a vote instead of
+ * moving on until `required` of the named approvers have voted; each voter fills at most one slot,
+ * so "chefia + IT head" cannot be met by two chefias. `when` limits the quorum to some requests;
+ * otherwise the action behaves as a normal single-approver transition.
+ */
+export const workflowQuorumSchema = z
+  .object({
+    action: z.string().trim().min(2).max(80).regex(/^[A-Z][A-Z0-9_]*$/),
+    required: z.number().int().min(1).max(20),
+    approvers: z.array(approverSchema).min(1).max(20),
+    when: workflowGuardSchema.optional(),
+  })
+  .strict()
+  .refine((q) => q.required <= q.approvers.length, {
+    message: "O número de aprovações necessárias não pode exceder o número de aprovadores",
+    path: ["required"],
+  });
+
+export type WorkflowQuorum = z.infer<typeof workflowQuorumSchema>;
+type QuorumApprover = WorkflowQuorum["approvers"][number];
+
+/** Short form for the designer, e.g. "APPROVE: 2 de papel CHEFIA, papel IT_HEAD". */
+export function describeWorkflowQuorum(quorum: WorkflowQuorum) {
+  const approvers = quorum.approvers.map((a) => ("roleKey" in a ? `papel ${a.roleKey}` : `utilizador ${a.userId}`));
+  const when = quorum.when ? ` — só se ${describeWorkflowGuard(quorum.when)}` : "";
+  return `${quorum.action}: ${quorum.required} de ${approvers.join(", ")}${when}`;
+}
+
+type UserRef = { id: string; name: string | null; email: string };
+
+export type WorkflowQuorumStatus = {
+  action: string;
+  required: number;
+  approvals: number;
+  approvers: Array<{ kind: "ROLE" | "USER"; key: string; label: string; satisfiedBy: UserRef | null }>;
+  votes: Array<{ eventId: string; createdAt: string; actor: UserRef | null; onBehalfOf: UserRef | null }>;
+  /** First candidate whose vote would fill a slot that is still open, if any. */
+  voter: string | null;
+  /** Whether the first candidate (the caller) already voted in the current round. */
+  alreadyVoted: boolean;
+};
+
+/**
+ * The quorum that applies when `action` is taken from `state`, or null when the action is a plain
+ * transition. A stored quorum that no longer parses blocks its action rather than letting a single
+ * approver through.
+ */
+export async function resolveWorkflowQuorum(
+  db: Db,
+  args: { tenantId: string; target: WorkflowTarget; state: { quorum?: unknown } | null; action: string }
+): Promise<WorkflowQuorum | "INVALID" | null> {
+  const raw = args.state?.quorum;
+  if (raw === null || raw === undefined || args.target.type !== "REQUEST") return null;
+
+  const parsed = workflowQuorumSchema.safeParse(raw);
+  if (!parsed.success) {
+    return (raw as { action?: unknown }).action === args.action ? "INVALID" : null;
+  }
+  if (parsed.data.action !== args.action) return null;
+  if (parsed.data.when) {
+    const context = await loadRequestGuardContext(db, args.tenantId, args.target.id);
+    if (!evaluateWorkflowGuard(parsed.data.when, context).passed) return null;
+  }
+  return parsed.data;
+}
+
+/**
+ * Votes cast since the instance entered `stateId`: the unbroken run of self-loop events for the
+ * quorum action at the head of its history. Leaving the state (or a version migration) starts a
+ * new round.
+ */
+async function loadCurrentRound(db: Db, instanceId: string, stateId: string, action: string) {
+  const events = await db.workflowEvent.findMany({
+    where: { instanceId },
+    orderBy: [{ createdAt: "desc" }],
+    take: 200,
+    select: {
+      id: true,
+      action: true,
+      fromStateId: true,
+      toStateId: true,
+      actorUserId: true,
+      onBehalfOfUserId: true,
+      createdAt: true,
+    },
+  });
+
+  const round: typeof events = [];
+  for (const event of events) {
+    if (event.action !== action || event.fromStateId !== stateId || event.toStateId !== stateId) break;
+    round.push(event);
+  }
+  return round.reverse();
+}
+
+/** Maximum matching of voters to approver slots (augmenting paths; both sides are tiny). */
+function matchApprovers(approvers: QuorumApprover[], voters: string[], rolesByUser: Map<string, Set<string>>) {
+  const slotOwner: Array<string | null> = approvers.map(() => null);
+  const fits = (voter: string, slot: QuorumApprover) =>
+    "userId" in slot ? slot.userId === voter : (rolesByUser.get(voter)?.has(slot.roleKey) ?? false);
+
+  const assign = (voter: string, seen: Set<number>): boolean => {
+    for (let i = 0; i < approvers.length; i += 1) {
+      if (seen.has(i) || !fits(voter, approvers[i])) continue;
+      seen.add(i);
+      const owner = slotOwner[i];
+      if (owner === null || assign(owner, seen)) {
+        slotOwner[i] = voter;
+        return true;
+      }
+    }
+    return false;
+  };
+
+  let matched = 0;
+  for (const voter of voters) {
+    if (assign(voter, new Set())) matched += 1;
+  }
+  return { matched, slotOwner };
+}
+
+/**
+ * Where the quorum of a request's current state stands. A vote counts for the user it was cast on
+ * behalf of when it went through an approval delegation. Role slots are filled by active role
+ * assignments that are global or scoped to the request's requesting service.
+ */
+export async function loadWorkflowQuorumStatus(
+  db: Db,
+  args: {
+    tenantId: string;
+    instanceId: string;
+    requestId: string;
+    stateId: string;
+    quorum: WorkflowQuorum;
+    candidates?: string[];
+  }
+): Promise<WorkflowQuorumStatus> {
+  const { quorum } = args;
+  const candidates = args.candidates ?? [];
+  const round = await loadCurrentRound(db, args.instanceId, args.stateId, quorum.action);
+  const voted = round.map((event) => event.onBehalfOfUserId ?? event.actorUserId).filter((id): id is string => !!id);
+
+  const roleKeys = quorum.approvers.flatMap((a) => ("roleKey" in a ? [a.roleKey] : []));
+  const people = Array.from(new Set([...voted, ...candidates]));
+  const rolesByUser = new Map<string, Set<string>>();
+  const roles = roleKeys.length
+    ? await db.accessRole.findMany({ where: { tenantId: args.tenantId, key: { in: roleKeys } }, select: { key: true, name: true } })
+    : [];
+  const roleNames = new Map(roles.map((r) => [r.key, r.name]));
+
+  if (roleKeys.length && people.length) {
+    const now = new Date();
+    const request = await db.request.findFirst({
+      where: { id: args.requestId, tenantId: args.tenantId },
+      select: { requestingServiceId: true },
+    });
+    const serviceId = request?.requestingServiceId ?? null;
+    const assignments = await db.userRoleAssignment.findMany({
+      where: {
+        tenantId: args.tenantId,
+        userId: { in: people },
+        isActive: true,
+        role: { key: { in: roleKeys } },
+        AND: [
+          { OR: [{ startsAt: null }, { startsAt: { lte: now } }] },
+          { OR: [{ endsAt: null }, { endsAt: { gt: now } }] },
+          { OR: [{ requestingServiceId: null }, ...(serviceId != null ? [{ requestingServiceId: serviceId }] : [])] },
+        ],
+      },
+      select: { userId: true, role: { select: { key: true } } },
+    });
+    for (const a of assignments) {
+      rolesByUser.set(a.userId, (rolesByUser.get(a.userId) ?? new Set()).add(a.role.key));
+    }
+  }
+
+  const base = matchApprovers(quorum.approvers, voted, rolesByUser);
+  const voter =
+    candidates.find(
+      (c) => !voted.includes(c) && matchApprovers(quorum.approvers, [...voted, c], rolesByUser).matched > base.matched
+    ) ?? null;
+
+  const userIds = new Set<string>([
+    ...voted,
+    ...round.flatMap((e) => [e.actorUserId, e.onBehalfOfUserId].filter((id): id is string => !!id)),
+    ...quorum.approvers.flatMap((a) => ("userId" in a ? [a.userId] : [])),
+  ]);
+  const users = userIds.size
+    ? await db.user.findMany({ where: { tenantId: args.tenantId, id: { in: Array.from(userIds) } }, select: { id: true, name: true, email: true } })
+    : [];
+  const userById = new Map(users.map((u) => [u.id, u]));
+  const ref = (id: string | null | undefined) => (id ? (userById.get(id) ?? null) : null);
+
+  return {
+    action: quorum.action,
+    required: quorum.required,
+    approvals: base.matched,
+    approvers: quorum.approvers.map((a, i) =>
+      "roleKey" in a
+        ? { kind: "ROLE" as const, key: a.roleKey, label: roleNames.get(a.roleKey) ?? a.roleKey, satisfiedBy: ref(base.slotOwner[i]) }
+        : {
+            kind: "USER" as const,
+            key: a.userId,
+            label: ref(a.userId)?.name || ref(a.userId)?.email || a.userId,
+            satisfiedBy: ref(base.slotOwner[i]),
+          }
+    ),
+    votes: round.map((e) => ({
+      eventId: e.id,
+      createdAt: e.createdAt.toISOString(),
+      actor: ref(e.actorUserId),
+      onBehalfOf: ref(e.onBehalfOfUserId),
+    })),
+    voter,
+    alreadyVoted: candidates.length > 0 && voted.includes(candidates[0]),
+  };
+}
+
+export const QUORUM_INVALID_MESSAGE =
+  "A aprovação conjunta configurada para este passo é inválida. Corrija a definição do workflow.";
+
+export function describeWorkflowQuorumProgress(status: Pick<WorkflowQuorumStatus, "approvals" | "required">) {
+  return `Aprovação registada: ${status.approvals} de ${status.required} aprovações necessárias.`;
+}
+
+/**
+ * Users a caller can vote as: themselves first, then anyone who delegated them `permissionKey`
+ * (any delegated permission when the transition requires none).
+ */
+export function quorumVoterCandidates(userId: string, grants: PermissionGrant[], permissionKey?: string | null) {
+  const delegators = grants
+    .filter((grant) => grant.onBehalfOfUserId && (!permissionKey || grant.key === permissionKey))
+    .map((grant) => grant.onBehalfOfUserId as string);
+  return Array.from(new Set([userId, ...delegators]));
+}
+
+/**
+ * Quorum status of the instance's current state for screens and lists, or null when the state has
+ * no quorum or its `when` condition does not apply to this request.
+ */
+export async function loadCurrentWorkflowQuorum(
+  db: Db,
+  args: {
+    tenantId: string;
+    requestId: string;
+    instance: { id: string; currentStateId: string; currentState: { quorum?: unknown } | null };
+    candidates?: string[];
+  }
+) {
+  const parsed = workflowQuorumSchema.safeParse(args.instance.currentState?.quorum);
+  if (!parsed.success) return null;
+  const quorum = await resolveWorkflowQuorum(db, {
+    tenantId: args.tenantId,
+    target: { type: "REQUEST", id: args.requestId },
+    state: args.instance.currentState,
+    action: parsed.data.action,
+  });
+  if (!quorum || quorum === "INVALID") return null;
+  return loadWorkflowQuorumStatus(db, {
+    tenantId: args.tenantId,
+    instanceId: args.instance.id,
+    requestId: args.requestId,
+    stateId: args.instance.currentStateId,
+    quorum,
+    candidates: args.candidates,
+  });
+}